@@ -0,0 +1,23 @@
+-- Socket-разрешения теперь вычисляются из Role.permissions (модуль chat).
+-- Выдаём системным ролям права, которые раньше были зашиты в rolePermissions сокетов,
+-- только если у роли ещё нет модуля chat. Роли с "all" и старым форматом (массив) не трогаем.
+
+-- admin/moderator в сокетах: отправка и модерация сообщений
+UPDATE "Role"
+SET "permissions" = ("permissions"::jsonb || '{"chat": ["create", "read", "update", "delete"]}'::jsonb)::text
+WHERE "code" IN ('ADMIN', 'MANAGER', 'MODERATOR', 'EDITOR')
+  AND "permissions" LIKE '{%'
+  AND NOT (CASE WHEN "permissions" LIKE '{%' THEN "permissions"::jsonb ? 'chat' ELSE TRUE END);
+
+-- user в сокетах: отправка сообщений
+UPDATE "Role"
+SET "permissions" = ("permissions"::jsonb || '{"chat": ["create", "read"]}'::jsonb)::text
+WHERE "code" IN ('USER', 'SEO', 'MARKETOLOG', 'SUPPORT', 'SUBSCRIBER')
+  AND "permissions" LIKE '{%'
+  AND NOT (CASE WHEN "permissions" LIKE '{%' THEN "permissions"::jsonb ? 'chat' ELSE TRUE END);
+
+-- Роли без прав (NULL или пустая строка)
+UPDATE "Role"
+SET "permissions" = '{"chat": ["create", "read"]}'
+WHERE "code" IN ('USER', 'SEO', 'MARKETOLOG', 'SUPPORT', 'SUBSCRIBER')
+  AND ("permissions" IS NULL OR "permissions" = '');
@@ -0,0 +1,34 @@
+-- TOTP 2FA: секрет и состояние у пользователя, одноразовые коды восстановления,
+-- промежуточная сессия входа и требование 2FA по уровню роли
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "twoFactorSecret" TEXT;
+ALTER TABLE "User" ADD COLUMN "twoFactorPendingSecret" TEXT;
+ALTER TABLE "User" ADD COLUMN "twoFactorEnabledAt" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN "twoFactorLastStep" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "twoFactorState" TEXT;
+
+-- AlterTable
+ALTER TABLE "RegistrationSettings" ADD COLUMN "twoFactorRequiredRoleLevel" INTEGER;
+
+-- CreateTable
+CREATE TABLE "two_factor_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "two_factor_recovery_codes_userId_codeHash_key" ON "two_factor_recovery_codes"("userId", "codeHash");
+
+-- CreateIndex
+CREATE INDEX "two_factor_recovery_codes_userId_idx" ON "two_factor_recovery_codes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "two_factor_recovery_codes" ADD CONSTRAINT "two_factor_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
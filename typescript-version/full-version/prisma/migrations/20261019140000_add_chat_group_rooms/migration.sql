@@ -0,0 +1,55 @@
+-- Групповые комнаты чата: таблица участников с ролями и курсорами прочтения.
+-- user1Id/user2Id остаются только у личных диалогов (direct).
+
+-- AlterTable
+ALTER TABLE "ChatRoom" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'direct';
+ALTER TABLE "ChatRoom" ADD COLUMN "name" TEXT;
+ALTER TABLE "ChatRoom" ADD COLUMN "createdById" TEXT;
+ALTER TABLE "ChatRoom" ALTER COLUMN "user1Id" DROP NOT NULL;
+ALTER TABLE "ChatRoom" ALTER COLUMN "user2Id" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "chat_room_members" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "lastReadAt" TIMESTAMP(3),
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_room_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatRoom_type_idx" ON "ChatRoom"("type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_room_members_roomId_userId_key" ON "chat_room_members"("roomId", "userId");
+
+-- CreateIndex
+CREATE INDEX "chat_room_members_userId_idx" ON "chat_room_members"("userId");
+
+-- AddForeignKey
+ALTER TABLE "chat_room_members" ADD CONSTRAINT "chat_room_members_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "ChatRoom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_room_members" ADD CONSTRAINT "chat_room_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Участники существующих личных диалогов. Курсор прочтения - последнее
+-- прочитанное (Message.readAt) сообщение собеседника.
+INSERT INTO "chat_room_members" ("id", "roomId", "userId", "role", "lastReadAt", "joinedAt")
+SELECT
+    md5(r."id" || ':' || p."userId"),
+    r."id",
+    p."userId",
+    'member',
+    (
+        SELECT MAX(m."createdAt")
+        FROM "Message" m
+        WHERE m."roomId" = r."id" AND m."senderId" <> p."userId" AND m."readAt" IS NOT NULL
+    ),
+    r."createdAt"
+FROM "ChatRoom" r
+CROSS JOIN LATERAL (VALUES (r."user1Id"), (r."user2Id")) AS p("userId")
+WHERE p."userId" IS NOT NULL
+ON CONFLICT ("roomId", "userId") DO NOTHING;
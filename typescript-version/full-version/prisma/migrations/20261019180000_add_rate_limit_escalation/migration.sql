@@ -0,0 +1,11 @@
+-- Add escalation ladder settings to RateLimitConfig
+ALTER TABLE "RateLimitConfig"
+ADD COLUMN "escalationLadder" TEXT,
+ADD COLUMN "escalationLookbackMs" INTEGER,
+ADD COLUMN "escalationDecayMs" INTEGER,
+ADD COLUMN "escalationManualReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- Track repeat violations per rate limit key
+ALTER TABLE "RateLimitState"
+ADD COLUMN "violationCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastViolationAt" TIMESTAMP(3);
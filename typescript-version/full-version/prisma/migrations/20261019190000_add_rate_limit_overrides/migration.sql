@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "RateLimitOverride" (
+    "id" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetValue" TEXT NOT NULL,
+    "maxRequests" INTEGER,
+    "windowMs" INTEGER,
+    "blockMs" INTEGER,
+    "exempt" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateLimitOverride_module_targetType_targetValue_key" ON "RateLimitOverride"("module", "targetType", "targetValue");
+
+-- CreateIndex
+CREATE INDEX "RateLimitOverride_isActive_idx" ON "RateLimitOverride"("isActive");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "OAuthProvider" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'oidc',
+    "issuer" TEXT,
+    "authorizationUrl" TEXT,
+    "tokenUrl" TEXT,
+    "userInfoUrl" TEXT,
+    "jwksUrl" TEXT,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT,
+    "scopes" TEXT NOT NULL DEFAULT 'openid email profile',
+    "iconUrl" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "allowSignup" BOOLEAN NOT NULL DEFAULT true,
+    "claimMapping" TEXT DEFAULT '{}',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OAuthProvider_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthProvider_slug_key" ON "OAuthProvider"("slug");
+
+-- CreateIndex
+CREATE INDEX "OAuthProvider_enabled_idx" ON "OAuthProvider"("enabled");
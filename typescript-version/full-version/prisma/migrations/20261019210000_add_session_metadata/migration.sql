@@ -0,0 +1,9 @@
+-- Управление сессиями: устройство, IP и последняя активность
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "ipAddress" TEXT;
+ALTER TABLE "Session" ADD COLUMN "userAgent" TEXT;
+ALTER TABLE "Session" ADD COLUMN "deviceType" TEXT;
+ALTER TABLE "Session" ADD COLUMN "deviceName" TEXT;
+ALTER TABLE "Session" ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "Session" ADD COLUMN "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
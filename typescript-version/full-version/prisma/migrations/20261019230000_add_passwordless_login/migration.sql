@@ -0,0 +1,5 @@
+-- Вход без пароля: ссылка из письма и SMS-код, включаются в настройках регистрации
+
+-- AlterTable
+ALTER TABLE "RegistrationSettings" ADD COLUMN "passwordlessEmailEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "RegistrationSettings" ADD COLUMN "passwordlessSmsEnabled" BOOLEAN NOT NULL DEFAULT false;
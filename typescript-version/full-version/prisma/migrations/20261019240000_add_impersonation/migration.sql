@@ -0,0 +1,8 @@
+-- Вход суперадмина под пользователем: сессия связана с администратором и его сессией
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "impersonatorId" TEXT;
+ALTER TABLE "Session" ADD COLUMN "impersonatorSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Session_impersonatorId_idx" ON "Session"("impersonatorId");
@@ -0,0 +1,49 @@
+-- Модерация чата: скрытие сообщений, жалобы и настройки контент-фильтра
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "hiddenAt" TIMESTAMP(3);
+ALTER TABLE "Message" ADD COLUMN "hiddenById" TEXT;
+
+-- CreateTable
+CREATE TABLE "message_reports" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "reporterId" TEXT,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "resolution" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_moderation_settings" (
+    "id" TEXT NOT NULL,
+    "bannedWords" TEXT NOT NULL DEFAULT '[]',
+    "bannedWordsAction" TEXT NOT NULL DEFAULT 'block',
+    "linkAction" TEXT NOT NULL DEFAULT 'allow',
+    "phoneAction" TEXT NOT NULL DEFAULT 'allow',
+    "spamRepeatLimit" INTEGER NOT NULL DEFAULT 3,
+    "spamWindowSeconds" INTEGER NOT NULL DEFAULT 60,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_moderation_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_reports_status_createdAt_idx" ON "message_reports"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reports_messageId_reporterId_key" ON "message_reports"("messageId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Полнотекстовый поиск по сообщениям чата.
+-- Конфигурация russian: кириллица - russian_stem, латиница - english_stem.
+-- Очищенный при удалении content даёт пустой вектор.
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('russian', "content")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
@@ -0,0 +1,44 @@
+-- Сводки непрочитанных сообщений чата для участников не в сети и отключение уведомлений комнаты
+
+-- AlterTable
+ALTER TABLE "chat_room_members" ADD COLUMN "mutedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "chat_offline_digests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "deliverAfter" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_offline_digests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_offline_notification_settings" (
+    "id" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "delayMinutes" INTEGER NOT NULL DEFAULT 15,
+    "offlineThresholdMinutes" INTEGER NOT NULL DEFAULT 5,
+    "channels" TEXT NOT NULL DEFAULT '["email"]',
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_offline_notification_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_offline_digests_sentAt_cancelledAt_deliverAfter_idx" ON "chat_offline_digests"("sentAt", "cancelledAt", "deliverAfter");
+
+-- CreateIndex
+CREATE INDEX "chat_offline_digests_roomId_userId_idx" ON "chat_offline_digests"("roomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "chat_offline_digests" ADD CONSTRAINT "chat_offline_digests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_offline_digests" ADD CONSTRAINT "chat_offline_digests_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "ChatRoom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
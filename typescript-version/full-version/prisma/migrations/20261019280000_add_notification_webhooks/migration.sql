@@ -0,0 +1,40 @@
+-- Канал уведомлений webhook: конечные точки и журнал попыток доставки
+
+-- CreateTable
+CREATE TABLE "notification_webhooks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_webhook_deliveries_webhookId_createdAt_idx" ON "notification_webhook_deliveries"("webhookId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_webhook_deliveries_deliveryId_webhookId_idx" ON "notification_webhook_deliveries"("deliveryId", "webhookId");
+
+-- AddForeignKey
+ALTER TABLE "notification_webhook_deliveries" ADD CONSTRAINT "notification_webhook_deliveries_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "notification_webhooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
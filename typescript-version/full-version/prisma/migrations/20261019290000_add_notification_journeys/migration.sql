@@ -0,0 +1,41 @@
+-- Пути уведомлений: шаги сценария, критерии выхода и состояние пути для каждого выполнения
+
+-- AlterTable
+ALTER TABLE "NotificationScenario" ADD COLUMN "steps" TEXT,
+ADD COLUMN "exitConditions" TEXT;
+
+-- CreateTable
+CREATE TABLE "notification_journeys" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" TEXT NOT NULL,
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "currentStepId" TEXT,
+    "waitUntil" TIMESTAMP(3),
+    "waitingForEvent" TEXT,
+    "waitStartedAt" TIMESTAMP(3),
+    "context" TEXT NOT NULL DEFAULT '{}',
+    "history" TEXT NOT NULL DEFAULT '[]',
+    "exitReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "notification_journeys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_journeys_executionId_key" ON "notification_journeys"("executionId");
+
+-- CreateIndex
+CREATE INDEX "notification_journeys_status_waitUntil_idx" ON "notification_journeys"("status", "waitUntil");
+
+-- CreateIndex
+CREATE INDEX "notification_journeys_status_waitingForEvent_idx" ON "notification_journeys"("status", "waitingForEvent");
+
+-- CreateIndex
+CREATE INDEX "notification_journeys_userId_idx" ON "notification_journeys"("userId");
+
+-- AddForeignKey
+ALTER TABLE "notification_journeys" ADD CONSTRAINT "notification_journeys_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "NotificationExecution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Add algorithm selection and token-bucket settings to RateLimitConfig
+ALTER TABLE "RateLimitConfig"
+ADD COLUMN "algorithm" TEXT NOT NULL DEFAULT 'fixed',
+ADD COLUMN "refillRate" DOUBLE PRECISION,
+ADD COLUMN "burst" INTEGER;
+
+-- Per-key state for sliding-window and token-bucket algorithms
+ALTER TABLE "RateLimitState"
+ADD COLUMN "previousCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "tokens" DOUBLE PRECISION,
+ADD COLUMN "lastRefillAt" TIMESTAMP(3),
+ADD COLUMN "requestLog" TEXT;
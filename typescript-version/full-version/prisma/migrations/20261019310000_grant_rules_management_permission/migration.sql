@@ -0,0 +1,8 @@
+-- API бизнес-правил проверяет модуль rulesManagement; в seed он выдан только ADMIN.
+-- Выдаём его существующей роли ADMIN, если модуля ещё нет. Роли с "all" и старым форматом (массив) не трогаем.
+
+UPDATE "Role"
+SET "permissions" = ("permissions"::jsonb || '{"rulesManagement": ["create", "read", "update", "delete"]}'::jsonb)::text
+WHERE "code" = 'ADMIN'
+  AND "permissions" LIKE '{%'
+  AND NOT (CASE WHEN "permissions" LIKE '{%' THEN "permissions"::jsonb ? 'rulesManagement' ELSE TRUE END);
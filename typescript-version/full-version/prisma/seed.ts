@@ -92,7 +92,10 @@ async function main() {
         translationManagement: ['create', 'read', 'update', 'delete'],
         emailTemplatesManagement: ['create', 'read', 'update', 'delete'],
         smtpManagement: ['create', 'read', 'update', 'delete'],
-        notificationScenarios: ['create', 'read', 'update', 'delete']
+        notificationScenarios: ['create', 'read', 'update', 'delete'],
+        rulesManagement: ['create', 'read', 'update', 'delete'],
+        listingModeration: ['read', 'update'],
+        chat: ['create', 'read', 'update', 'delete']
       }),
       level: 10,
       isSystem: true
@@ -113,7 +116,10 @@ async function main() {
         translationManagement: ['create', 'read', 'update', 'delete'],
         emailTemplatesManagement: ['create', 'read', 'update', 'delete'],
         smtpManagement: ['create', 'read', 'update', 'delete'],
-        notificationScenarios: ['create', 'read', 'update', 'delete']
+        notificationScenarios: ['create', 'read', 'update', 'delete'],
+        rulesManagement: ['create', 'read', 'update', 'delete'],
+        listingModeration: ['read', 'update'],
+        chat: ['create', 'read', 'update', 'delete']
       }),
       level: 10,
       isSystem: true
@@ -134,7 +140,8 @@ async function main() {
         userManagement: ['create', 'read'],
         roleManagement: ['create', 'read', 'update', 'delete'],
         profileManagement: ['read', 'update'],
-        contentManagement: ['read']
+        contentManagement: ['read'],
+        chat: ['create', 'read']
       }),
       level: 90,
       isSystem: true
@@ -154,7 +161,9 @@ async function main() {
       permissions: JSON.stringify({
         userManagement: ['read'],
         roleManagement: ['read'],
-        contentModerationManagement: ['create', 'read', 'update', 'delete']
+        contentModerationManagement: ['create', 'read', 'update', 'delete'],
+        listingModeration: ['read', 'update'],
+        chat: ['create', 'read', 'update', 'delete']
       }),
       level: 40,
       isSystem: true
@@ -173,7 +182,8 @@ async function main() {
       description: 'SEO specialist role',
       permissions: JSON.stringify({
         contentManagement: ['create', 'read', 'update', 'delete'],
-        analyticsManagement: ['read']
+        analyticsManagement: ['read'],
+        chat: ['create', 'read']
       }),
       level: 50,
       isSystem: true
@@ -192,7 +202,8 @@ async function main() {
       description: 'Content editor role',
       permissions: JSON.stringify({
         contentManagement: ['create', 'read', 'update', 'delete'],
-        mediaManagement: ['create', 'read', 'update', 'delete']
+        mediaManagement: ['create', 'read', 'update', 'delete'],
+        chat: ['create', 'read', 'update', 'delete']
       }),
       level: 30,
       isSystem: true
@@ -211,7 +222,8 @@ async function main() {
       description: 'Marketing specialist role',
       permissions: JSON.stringify({
         marketingManagement: ['create', 'read', 'update', 'delete'],
-        analyticsManagement: ['read']
+        analyticsManagement: ['read'],
+        chat: ['create', 'read']
       }),
       level: 60,
       isSystem: true
@@ -230,7 +242,8 @@ async function main() {
       description: 'Subscriber role with limited access',
       permissions: JSON.stringify({
         contentManagement: ['read'],
-        profileManagement: ['read', 'update']
+        profileManagement: ['read', 'update'],
+        chat: ['create', 'read']
       }),
       level: 80,
       isSystem: true
@@ -249,7 +262,8 @@ async function main() {
       description: 'Customer support role',
       permissions: JSON.stringify({
         supportManagement: ['create', 'read', 'update', 'delete'],
-        userManagement: ['read']
+        userManagement: ['read'],
+        chat: ['create', 'read']
       }),
       level: 70,
       isSystem: true
@@ -277,7 +291,8 @@ async function main() {
         languageManagement: ['create', 'read', 'update', 'delete'],
         translationManagement: ['create', 'read', 'update', 'delete'],
         emailTemplatesManagement: ['create', 'read', 'update', 'delete'],
-        smtpManagement: ['read']
+        smtpManagement: ['read'],
+        chat: ['create', 'read', 'update', 'delete']
       }),
       level: 20,
       isSystem: true
@@ -0,0 +1,23 @@
+// Next Imports
+import type { Metadata } from 'next'
+
+// Component Imports
+import ResetPassword from '@views/ResetPassword'
+
+// Server Action Imports
+import { getServerMode } from '@core/utils/serverHelpers'
+
+export const metadata: Metadata = {
+  title: 'Reset Password',
+  description: 'Set a new password for your account'
+}
+
+const ResetPasswordPage = async (props: { searchParams: Promise<{ token?: string; phone?: string }> }) => {
+  // Vars
+  const searchParams = await props.searchParams
+  const mode = await getServerMode()
+
+  return <ResetPassword mode={mode} token={searchParams.token} phone={searchParams.phone} />
+}
+
+export default ResetPasswordPage
@@ -53,6 +53,14 @@ type StateEntry = {
   targetMailDomain?: string | null
   targetCidr?: string | null
   targetAsn?: string | null
+  targetRange?: {
+    type: 'cidr' | 'asn'
+    cidr?: string
+    firstAddress?: string
+    lastAddress?: string
+    addressCount?: string
+    asn?: string
+  } | null
   blockedBy?: string | null
   blockedByUser?: { id: string; email: string | null } | null
   activeBlock?: {
@@ -998,6 +1006,15 @@ const BlocksPage = () => {
                   )}
                 </Typography>
               ) : null}
+              {viewEntry.targetRange?.type === 'cidr' ? (
+                <Typography variant='body2'>
+                  <strong>Диапазон:</strong> {viewEntry.targetRange.cidr} ({viewEntry.targetRange.firstAddress} —{' '}
+                  {viewEntry.targetRange.lastAddress}, адресов: {viewEntry.targetRange.addressCount})
+                </Typography>
+              ) : null}
+              {viewEntry.targetRange?.type === 'asn' ? (
+                <Typography variant='body2'><strong>ASN:</strong> {viewEntry.targetRange.asn}</Typography>
+              ) : null}
               <Typography variant='body2'><strong>Модуль:</strong> {moduleLabel(viewEntry.module)}</Typography>
               <Typography variant='body2'><strong>Источник:</strong> {sourceLabel(viewEntry.source)}</Typography>
               <Typography variant='body2'><strong>Счётчик:</strong> {viewEntry.count}</Typography>
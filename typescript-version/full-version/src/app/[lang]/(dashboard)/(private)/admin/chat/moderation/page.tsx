@@ -0,0 +1,15 @@
+import ChatModerationQueue from '@/views/admin/chat/ChatModerationQueue'
+import ChatFilterSettings from '@/views/admin/chat/ChatFilterSettings'
+import ChatOfflineNotificationSettings from '@/views/admin/chat/ChatOfflineNotificationSettings'
+
+const ChatModerationPage = () => {
+  return (
+    <div className='flex flex-col gap-6'>
+      <ChatModerationQueue />
+      <ChatFilterSettings />
+      <ChatOfflineNotificationSettings />
+    </div>
+  )
+}
+
+export default ChatModerationPage
@@ -0,0 +1,7 @@
+import ListingModerationQueue from '@/views/admin/listings/ListingModerationQueue'
+
+const ListingModerationPage = () => {
+  return <ListingModerationQueue />
+}
+
+export default ListingModerationPage
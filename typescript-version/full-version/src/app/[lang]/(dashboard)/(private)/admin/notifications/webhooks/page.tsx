@@ -0,0 +1,7 @@
+import NotificationWebhooks from '@/views/admin/notifications/NotificationWebhooks'
+
+const NotificationWebhooksPage = () => {
+  return <NotificationWebhooks />
+}
+
+export default NotificationWebhooksPage
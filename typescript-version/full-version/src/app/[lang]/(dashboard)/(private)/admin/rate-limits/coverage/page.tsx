@@ -0,0 +1,9 @@
+'use client'
+
+import RateLimitCoverage from '@/views/admin/rate-limits/RateLimitCoverage'
+
+const RateLimitCoveragePage = () => {
+  return <RateLimitCoverage />
+}
+
+export default RateLimitCoveragePage
@@ -0,0 +1,7 @@
+import BusinessRules from '@/views/admin/rules/BusinessRules'
+
+const BusinessRulesPage = () => {
+  return <BusinessRules />
+}
+
+export default BusinessRulesPage
@@ -0,0 +1,11 @@
+/**
+ * Admin page for OAuth / OpenID Connect sign-in providers
+ */
+
+import OAuthProviderSettings from '@/views/admin/settings/OAuthProviderSettings'
+
+const OAuthProviderSettingsPage = () => {
+  return <OAuthProviderSettings />
+}
+
+export default OAuthProviderSettingsPage
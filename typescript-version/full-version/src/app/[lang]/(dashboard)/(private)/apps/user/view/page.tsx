@@ -26,9 +26,9 @@ const NotificationsTab = dynamic(() => import('@views/apps/user/view/user-right/
 const ConnectionsTab = dynamic(() => import('@views/apps/user/view/user-right/connections'))
 
 // Vars
-const tabContentList = (data?: PricingPlanType[]): { [key: string]: ReactElement } => ({
+const tabContentList = (data?: PricingPlanType[], userId?: string): { [key: string]: ReactElement } => ({
   overview: <OverViewTab />,
-  security: <SecurityTab />,
+  security: <SecurityTab userId={userId} />,
   'billing-plans': <BillingPlans data={data} />,
   notifications: <NotificationsTab />,
   connections: <ConnectionsTab />
@@ -78,7 +78,7 @@ const UserViewTab = async ({ searchParams }: { searchParams: Promise<{ id: strin
           <UserLeftOverview userData={userData} />
         </Grid>
         <Grid size={{ xs: 12, lg: 8, md: 7 }}>
-          <UserRight tabContentList={tabContentList(data)} />
+          <UserRight tabContentList={tabContentList(data, userId)} />
         </Grid>
       </Grid>
     </div>
@@ -20,6 +20,7 @@ import HorizontalFooter from '@components/layout/horizontal/Footer'
 import Customizer from '@core/components/customizer'
 import ScrollToTop from '@core/components/scroll-to-top'
 import AuthGuard from '@/hocs/AuthGuard'
+import ImpersonationBanner from '@/components/auth/ImpersonationBanner'
 import { TranslationProvider } from '@/contexts/TranslationContext'
 
 // Config Imports
@@ -44,6 +45,7 @@ const Layout = async (props: ChildrenType & { params: Promise<{ lang: Locale }>
     <Providers direction={direction}>
       <AuthGuard locale={params.lang}>
         <TranslationProvider dictionary={dictionary}>
+          <ImpersonationBanner />
           <LayoutWrapper
             systemMode={systemMode}
             verticalLayout={
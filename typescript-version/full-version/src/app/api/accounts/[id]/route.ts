@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 
 import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
 import { accountService } from '@/services/accounts'
 import { updateAccountSchema } from '@/lib/validations/account-schemas'
 import { formatZodError } from '@/lib/validations/user-schemas'
@@ -128,7 +129,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { user } = await requireAuth(request)
+    const { session, user } = await requireAuth(request)
     const { id } = await params
 
     if (!user?.id) {
@@ -138,6 +139,12 @@ export async function DELETE(
       )
     }
 
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'account_delete')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
     // Получаем аккаунт перед удалением для логирования
     const account = await accountService.getAccountById(id, user.id)
     
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 
 import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
 import { accountTransferService } from '@/services/accounts'
 import { transferAccountSchema } from '@/lib/validations/account-schemas'
 import { formatZodError } from '@/lib/validations/user-schemas'
@@ -15,7 +16,7 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { user } = await requireAuth(request)
+    const { session, user } = await requireAuth(request)
     const { id } = await params
 
     if (!user?.id) {
@@ -25,6 +26,12 @@ export async function POST(
       )
     }
 
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'account_transfer')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
     const body = await request.json()
     const validationResult = transferAccountSchema.safeParse(body)
 
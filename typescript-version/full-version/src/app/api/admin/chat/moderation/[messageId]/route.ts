@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { emitChatModerationResult } from '@/lib/sockets/namespaces/chat'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
+import { formatZodError, moderateMessageSchema } from '@/lib/validations/chat-schemas'
+import { CHAT_MODERATION_ERRORS, chatModerationService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ messageId: string }>
+}
+
+const { module: MODERATION_MODULE, action: MODERATION_ACTION } = SOCKET_PERMISSION_SOURCES.moderate_chat
+
+/**
+ * POST /api/admin/chat/moderation/[messageId]
+ * Действие модератора: { action: 'hide' | 'unhide' | 'delete' | 'warn' | 'mute' | 'dismiss', reason?, durationMinutes? }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, MODERATION_MODULE, MODERATION_ACTION)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = moderateMessageSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { messageId } = await params
+    const result = await chatModerationService.moderate({ ...validation.data, messageId, moderatorId: user.id })
+
+    if (!result.success) {
+      const error = result.error ?? 'not_found'
+
+      return NextResponse.json({ error: CHAT_MODERATION_ERRORS[error] }, { status: error === 'not_found' ? 404 : 409 })
+    }
+
+    emitChatModerationResult(result, user.id)
+
+    return NextResponse.json({ success: true, action: result.action, mutedUntil: result.mutedUntil })
+  } catch (error) {
+    logger.error('[API:ChatModeration] Failed to moderate message', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to moderate message' }, { status: 500 })
+  }
+}
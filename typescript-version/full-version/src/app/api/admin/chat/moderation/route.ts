@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
+import { chatModerationService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+const { module: MODERATION_MODULE, action: MODERATION_ACTION } = SOCKET_PERMISSION_SOURCES.moderate_chat
+
+/**
+ * GET /api/admin/chat/moderation
+ * Очередь модерации чата: сообщения с жалобами и отметками фильтра, старые первыми (?page=1&limit=20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, MODERATION_MODULE, MODERATION_ACTION)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+
+    const result = await chatModerationService.getQueue({
+      page: Number(searchParams.get('page')) || 1,
+      limit: Number(searchParams.get('limit')) || 20
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:ChatModeration] Failed to get moderation queue', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get moderation queue' }, { status: 500 })
+  }
+}
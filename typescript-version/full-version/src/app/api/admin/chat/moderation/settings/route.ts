@@ -0,0 +1,71 @@
+/**
+ * Admin API для контент-фильтра чата
+ *
+ * GET /api/admin/chat/moderation/settings - Получить настройки
+ * PUT /api/admin/chat/moderation/settings - Обновить настройки
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
+import { chatModerationSettingsSchema, formatZodError } from '@/lib/validations/chat-schemas'
+import { chatModerationService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+const { module: MODERATION_MODULE, action: MODERATION_ACTION } = SOCKET_PERMISSION_SOURCES.moderate_chat
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, MODERATION_MODULE, MODERATION_ACTION)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json(await chatModerationService.getSettings())
+  } catch (error) {
+    logger.error('[API:ChatModeration] Failed to get filter settings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, MODERATION_MODULE, MODERATION_ACTION)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = chatModerationSettingsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const settings = await chatModerationService.updateSettings(validation.data, user.id)
+
+    return NextResponse.json(settings)
+  } catch (error) {
+    logger.error('[API:ChatModeration] Failed to update filter settings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
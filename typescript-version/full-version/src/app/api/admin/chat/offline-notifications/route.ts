@@ -0,0 +1,68 @@
+/**
+ * Admin API для сводок чата пользователям не в сети
+ *
+ * GET /api/admin/chat/offline-notifications - Получить настройки
+ * PUT /api/admin/chat/offline-notifications - Обновить настройки
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { chatOfflineNotificationSettingsSchema, formatZodError } from '@/lib/validations/chat-schemas'
+import { chatOfflineNotificationService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'settings', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json(await chatOfflineNotificationService.getSettings())
+  } catch (error) {
+    logger.error('[API:ChatOfflineNotifications] Failed to get settings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'settings', 'edit')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = chatOfflineNotificationSettingsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const settings = await chatOfflineNotificationService.updateSettings(validation.data, user.id)
+
+    return NextResponse.json(settings)
+  } catch (error) {
+    logger.error('[API:ChatOfflineNotifications] Failed to update settings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
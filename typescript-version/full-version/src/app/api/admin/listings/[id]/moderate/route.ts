@@ -0,0 +1,58 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, moderateListingSchema } from '@/lib/validations/listing-schemas'
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/admin/listings/[id]/moderate
+ * Решение модератора: { action: 'approve' } или { action: 'reject', reason }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'listingModeration', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = moderateListingSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { id } = await params
+
+    if (!(await listingService.getById(id))) {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    const { action, reason } = validation.data
+    const result = await listingService.moderate(id, user.id, action, reason, user.role?.code)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, listing: result.listing })
+  } catch (error) {
+    logger.error('[API:ListingModeration] Failed to moderate listing', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to moderate listing' }, { status: 500 })
+  }
+}
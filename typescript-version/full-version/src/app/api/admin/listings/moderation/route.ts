@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+/**
+ * GET /api/admin/listings/moderation
+ * Очередь модерации: объявления в статусе pending, самые старые первыми (?page=1&limit=20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'listingModeration', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+
+    const result = await listingService.getModerationQueue({
+      page: Number(searchParams.get('page')) || 1,
+      limit: Number(searchParams.get('limit')) || 20
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:ListingModeration] Failed to get moderation queue', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get moderation queue' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { requireAuth } from '@/utils/auth/auth'
 import { checkPermission } from '@/utils/permissions/permissions'
 import { scenarioService } from '@/services/notifications/scenarios'
 import type { NotificationScenarioConfig } from '@/services/notifications/scenarios/types'
+import { scenarioJourneySchema, formatZodError } from '@/lib/validations/notification-journey-schemas'
 import logger from '@/lib/logger'
 
 /**
@@ -66,6 +67,12 @@ export async function PUT(
     }
 
     const body = (await request.json()) as Partial<NotificationScenarioConfig>
+    const journey = scenarioJourneySchema.safeParse(body)
+
+    if (!journey.success) {
+      return NextResponse.json({ error: formatZodError(journey.error) }, { status: 400 })
+    }
+
     const scenario = await scenarioService.update(id, body)
 
     return NextResponse.json({ scenario })
@@ -3,6 +3,7 @@ import { requireAuth } from '@/utils/auth/auth'
 import { checkPermission } from '@/utils/permissions/permissions'
 import { scenarioService } from '@/services/notifications/scenarios'
 import type { NotificationScenarioConfig } from '@/services/notifications/scenarios/types'
+import { scenarioJourneySchema, formatZodError } from '@/lib/validations/notification-journey-schemas'
 import logger from '@/lib/logger'
 
 /**
@@ -55,6 +56,14 @@ export async function POST(request: NextRequest) {
     }
 
     const body = (await request.json()) as NotificationScenarioConfig
+
+    // Шаги пути проверяем до сохранения: переход на несуществующий шаг сломает путь на ходу
+    const journey = scenarioJourneySchema.safeParse(body)
+
+    if (!journey.success) {
+      return NextResponse.json({ error: formatZodError(journey.error) }, { status: 400 })
+    }
+
     const scenario = await scenarioService.create(body, user.id)
 
     return NextResponse.json({ scenario }, { status: 201 })
@@ -0,0 +1,40 @@
+/**
+ * GET /api/admin/notification-webhooks/[id]/deliveries - Журнал попыток доставки (новые первыми)
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { notificationWebhookService } from '@/services/notifications/NotificationWebhookService'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+const MAX_LIMIT = 200
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'notificationScenarios', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), MAX_LIMIT)
+
+    return NextResponse.json({ deliveries: await notificationWebhookService.getDeliveries(id, limit) })
+  } catch (error) {
+    logger.error('[API:NotificationWebhooks] Failed to get deliveries', {
+      error: error instanceof Error ? error.message : String(error),
+      webhookId: id
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Admin API для конечной точки канала webhook
+ *
+ * PUT /api/admin/notification-webhooks/[id] - Изменить; rotateSecret выпускает новый ключ подписи
+ * DELETE /api/admin/notification-webhooks/[id] - Удалить вместе с журналом доставок
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { formatZodError, updateNotificationWebhookSchema } from '@/lib/validations/notification-webhook-schemas'
+import { notificationWebhookService } from '@/services/notifications/NotificationWebhookService'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'notificationScenarios', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = updateNotificationWebhookSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await notificationWebhookService.update(id, validation.data, user.id)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:NotificationWebhooks] Failed to update webhook', {
+      error: error instanceof Error ? error.message : String(error),
+      webhookId: id
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'notificationScenarios', 'delete')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await notificationWebhookService.delete(id, user.id))) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:NotificationWebhooks] Failed to delete webhook', {
+      error: error instanceof Error ? error.message : String(error),
+      webhookId: id
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
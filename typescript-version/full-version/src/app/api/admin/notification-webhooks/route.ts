@@ -0,0 +1,68 @@
+/**
+ * Admin API для конечных точек канала webhook
+ *
+ * GET /api/admin/notification-webhooks - Список конечных точек
+ * POST /api/admin/notification-webhooks - Создать (ключ подписи возвращается один раз)
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { createNotificationWebhookSchema, formatZodError } from '@/lib/validations/notification-webhook-schemas'
+import { notificationWebhookService } from '@/services/notifications/NotificationWebhookService'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'notificationScenarios', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json({ webhooks: await notificationWebhookService.list() })
+  } catch (error) {
+    logger.error('[API:NotificationWebhooks] Failed to list webhooks', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'notificationScenarios', 'create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = createNotificationWebhookSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await notificationWebhookService.create(validation.data, user.id)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    logger.error('[API:NotificationWebhooks] Failed to create webhook', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -33,9 +33,11 @@ export async function GET(
             name: true, 
             description: true,
             trigger: true,
-            actions: true
+            actions: true,
+            steps: true
           }
-        }
+        },
+        journey: true
       }
     })
 
@@ -60,6 +62,34 @@ export async function GET(
       actions = execution.scenario?.actions ? JSON.parse(execution.scenario.actions) : null
     } catch {}
 
+    let steps = null
+    let journey = null
+
+    try {
+      steps = execution.scenario?.steps ? JSON.parse(execution.scenario.steps) : null
+    } catch {}
+
+    if (execution.journey) {
+      let history = []
+
+      try {
+        history = JSON.parse(execution.journey.history)
+      } catch {}
+
+      journey = {
+        id: execution.journey.id,
+        userId: execution.journey.userId,
+        status: execution.journey.status,
+        currentStep: execution.journey.currentStep,
+        currentStepId: execution.journey.currentStepId,
+        waitUntil: execution.journey.waitUntil,
+        waitingForEvent: execution.journey.waitingForEvent,
+        exitReason: execution.journey.exitReason,
+        completedAt: execution.journey.completedAt,
+        history
+      }
+    }
+
     return NextResponse.json({
       execution: {
         id: execution.id,
@@ -69,7 +99,8 @@ export async function GET(
           name: execution.scenario?.name,
           description: execution.scenario?.description,
           trigger,
-          actions
+          actions,
+          steps
         },
         eventId: execution.eventId,
         status: execution.status,
@@ -79,7 +110,8 @@ export async function GET(
         maxAttempts: execution.maxAttempts,
         createdAt: execution.createdAt,
         completedAt: execution.completedAt,
-        scheduledAt: execution.scheduledAt
+        scheduledAt: execution.scheduledAt,
+        journey
       }
     })
   } catch (error) {
@@ -24,6 +24,7 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100)
     const status = searchParams.get('status')
     const scenarioId = searchParams.get('scenarioId')
+    const userId = searchParams.get('userId')
     const from = searchParams.get('from')
     const to = searchParams.get('to')
 
@@ -38,6 +39,11 @@ export async function GET(request: NextRequest) {
       where.scenarioId = scenarioId
     }
 
+    // Пути конкретного пользователя
+    if (userId) {
+      where.journey = { userId }
+    }
+
     if (from || to) {
       where.createdAt = {}
       if (from) {
@@ -57,7 +63,18 @@ export async function GET(request: NextRequest) {
         take: limit,
         include: {
           scenario: {
-            select: { id: true, name: true }
+            select: { id: true, name: true, steps: true }
+          },
+          journey: {
+            select: {
+              userId: true,
+              status: true,
+              currentStep: true,
+              currentStepId: true,
+              waitUntil: true,
+              waitingForEvent: true,
+              exitReason: true
+            }
           }
         }
       }),
@@ -74,6 +91,19 @@ export async function GET(request: NextRequest) {
         messageId = result?.messageId || null
       } catch {}
 
+      // Позиция пользователя в пути: номер шага из общего числа шагов сценария
+      let journey = null
+
+      if (exec.journey) {
+        let totalSteps = 0
+
+        try {
+          totalSteps = exec.scenario?.steps ? JSON.parse(exec.scenario.steps).length : 0
+        } catch {}
+
+        journey = { ...exec.journey, totalSteps }
+      }
+
       return {
         id: exec.id,
         scenarioId: exec.scenarioId,
@@ -87,7 +117,8 @@ export async function GET(request: NextRequest) {
         maxAttempts: exec.maxAttempts,
         createdAt: exec.createdAt,
         completedAt: exec.completedAt,
-        scheduledAt: exec.scheduledAt
+        scheduledAt: exec.scheduledAt,
+        journey
       }
     })
 
@@ -3,6 +3,79 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/utils/auth/auth'
 import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
 import { rateLimitService } from '@/lib/rate-limit'
+import { formatZodError, rateLimitAlgorithmSettingsSchema } from '@/lib/validations/rate-limit-schemas'
+
+/**
+ * GET - конфигурация модуля (id = имя модуля)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await requireAuth(request)
+    const { id: moduleName } = await params
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const config = await rateLimitService.getConfig(moduleName)
+
+    return NextResponse.json({ module: moduleName, ...config })
+  } catch (error) {
+    console.error('Error fetching rate limit config:', error)
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH - выбор алгоритма для модуля (id = имя модуля)
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { user } = await requireAuth(request)
+    const { id: moduleName } = await params
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = rateLimitAlgorithmSettingsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const previousConfig = await rateLimitService.getConfig(moduleName)
+
+    await rateLimitService.updateConfig(moduleName, validation.data)
+
+    // Состояние старого алгоритма несовместимо с новым - начинаем подсчёт заново
+    if ((previousConfig.algorithm ?? 'fixed') !== validation.data.algorithm) {
+      await rateLimitService.resetLimits(undefined, moduleName)
+    }
+
+    const updatedConfig = await rateLimitService.getConfig(moduleName)
+
+    return NextResponse.json({ success: true, config: { module: moduleName, ...updatedConfig } })
+  } catch (error) {
+    console.error('Error updating rate limit algorithm:', error)
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
 
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -2,9 +2,66 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { requireAuth } from '@/utils/auth/auth'
 import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
-import { rateLimitService } from '@/lib/rate-limit'
+import { rateLimitContainer, rateLimitService } from '@/lib/rate-limit'
+import { normalizeAsn, parseCidr, parseIp } from '@/lib/rate-limit/network/ip-range'
 import logger from '@/lib/logger'
 
+const TARGET_TYPES = ['user', 'ip', 'email', 'domain', 'cidr', 'asn', 'all'] as const
+
+type TargetTypeFilter = (typeof TARGET_TYPES)[number]
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const moduleParam = searchParams.get('module')
+    const isActiveParam = searchParams.get('isActive')
+    const targetTypeParam = searchParams.get('targetType')
+    const ipParam = searchParams.get('ip')?.trim() || undefined
+    const search = searchParams.get('search') || undefined
+    const limitParam = searchParams.get('limit')
+    const cursor = searchParams.get('cursor') || undefined
+
+    if (ipParam && !parseIp(ipParam)) {
+      return NextResponse.json({ error: 'Invalid IP address' }, { status: 400 })
+    }
+
+    const result = await rateLimitService.listBlocks({
+      module: moduleParam || undefined,
+      isActive: isActiveParam === 'true' ? true : isActiveParam === 'false' ? false : undefined,
+      targetType: TARGET_TYPES.includes(targetTypeParam as TargetTypeFilter)
+        ? (targetTypeParam as TargetTypeFilter)
+        : undefined,
+      ip: ipParam,
+      search,
+      limit: limitParam && Number.isFinite(Number.parseInt(limitParam, 10)) ? Number.parseInt(limitParam, 10) : undefined,
+      cursor
+    })
+
+    const asnDatabase = await rateLimitContainer.getAsnLookupService().getStatus()
+
+    return NextResponse.json({ ...result, asnDatabase })
+  } catch (error) {
+    logger.error('Error listing blocks', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { user } = await requireAuth(request)
@@ -31,17 +88,21 @@ export async function POST(request: NextRequest) {
       email,
       mailDomain,
       ipAddress,
+      cidr,
+      asn,
       reason,
       durationMinutes,
       notes,
       overwrite
     } = body as {
       module?: string
-      targetType?: 'user' | 'ip' | 'email' | 'domain'
+      targetType?: 'user' | 'ip' | 'email' | 'domain' | 'cidr' | 'asn'
       userId?: string
       email?: string
       mailDomain?: string
       ipAddress?: string
+      cidr?: string
+      asn?: string
       reason?: string
       durationMinutes?: number
       notes?: string
@@ -63,13 +124,18 @@ export async function POST(request: NextRequest) {
     }
 
     const normalizedTargetType =
-      targetType === 'ip' ? 'ip' : targetType === 'email' ? 'email' : targetType === 'domain' ? 'domain' : 'user'
+      targetType === 'ip' || targetType === 'email' || targetType === 'domain' || targetType === 'cidr' || targetType === 'asn'
+        ? targetType
+        : 'user'
     const trimmedUserId = typeof userId === 'string' ? userId.trim() : ''
     const trimmedEmail = typeof email === 'string' ? email.trim() : ''
     const trimmedIp = typeof ipAddress === 'string' ? ipAddress.trim() : ''
     const trimmedDomain =
       typeof mailDomain === 'string' ? mailDomain.replace(/^\*@/, '').replace(/^@/, '').trim() : ''
 
+    const trimmedCidr = typeof cidr === 'string' ? cidr.trim() : ''
+    const trimmedAsn = typeof asn === 'string' || typeof asn === 'number' ? String(asn).trim() : ''
+
     if (normalizedTargetType === 'user' && !trimmedUserId) {
       return NextResponse.json({ error: 'User ID is required for user blocks' }, { status: 400 })
     }
@@ -101,6 +167,26 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (normalizedTargetType === 'cidr') {
+      if (!trimmedCidr) {
+        return NextResponse.json({ error: 'CIDR range is required for CIDR blocks' }, { status: 400 })
+      }
+
+      if (!parseCidr(trimmedCidr)) {
+        return NextResponse.json({ error: 'Invalid CIDR range' }, { status: 400 })
+      }
+    }
+
+    if (normalizedTargetType === 'asn') {
+      if (!trimmedAsn) {
+        return NextResponse.json({ error: 'ASN is required for ASN blocks' }, { status: 400 })
+      }
+
+      if (!normalizeAsn(trimmedAsn)) {
+        return NextResponse.json({ error: 'Invalid ASN' }, { status: 400 })
+      }
+    }
+
     const duration =
       typeof durationMinutes === 'number' && Number.isFinite(durationMinutes) && durationMinutes > 0
         ? durationMinutes * 60_000
@@ -114,6 +200,8 @@ export async function POST(request: NextRequest) {
       email: normalizedTargetType === 'email' ? trimmedEmail : undefined,
       mailDomain: normalizedTargetType === 'domain' ? trimmedDomain : undefined,
       ipAddress: normalizedTargetType === 'ip' ? trimmedIp : undefined,
+      cidr: normalizedTargetType === 'cidr' ? trimmedCidr : undefined,
+      asn: normalizedTargetType === 'asn' ? trimmedAsn : undefined,
       notes: typeof notes === 'string' && notes.trim() ? notes.trim() : undefined,
       durationMs: duration,
       overwrite: overwrite === true
@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
+import { scanRouteCoverage } from '@/lib/rate-limit/http/route-coverage'
+import logger from '@/lib/logger'
+
+/**
+ * GET - покрытие API-маршрутов лимитами: withRateLimit, прямой checkLimit или без лимита
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const coverage = await scanRouteCoverage()
+
+    return NextResponse.json({ coverage })
+  } catch (error) {
+    logger.error('Error building rate limit coverage report', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
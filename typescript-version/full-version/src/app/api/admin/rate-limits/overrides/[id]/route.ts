@@ -0,0 +1,92 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { Prisma } from '@prisma/client'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
+import { rateLimitContainer } from '@/lib/rate-limit'
+import { formatZodError, updateRateLimitOverrideSchema } from '@/lib/validations/rate-limit-schemas'
+import logger from '@/lib/logger'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * PATCH - изменить лимиты, срок действия или статус переопределения
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+    const { id } = await params
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = updateRateLimitOverrideSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const override = await rateLimitContainer.getOverrideService().update(id, validation.data)
+
+    if (!override) {
+      return NextResponse.json({ error: 'Override not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, override })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Override for this module and target already exists' }, { status: 409 })
+    }
+
+    logger.error('Error updating rate limit override', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+    const { id } = await params
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const deleted = await rateLimitContainer.getOverrideService().delete(id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Override not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting rate limit override', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { Prisma } from '@prisma/client'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
+import { rateLimitContainer } from '@/lib/rate-limit'
+import { createRateLimitOverrideSchema, formatZodError, rateLimitOverrideTargetSchema } from '@/lib/validations/rate-limit-schemas'
+import logger from '@/lib/logger'
+
+/**
+ * GET - список переопределений лимитов (?module=&targetType=&includeInactive=true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const targetType = rateLimitOverrideTargetSchema.safeParse(searchParams.get('targetType'))
+
+    const items = await rateLimitContainer.getOverrideService().list({
+      module: searchParams.get('module') || undefined,
+      targetType: targetType.success ? targetType.data : undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    })
+
+    return NextResponse.json({ items })
+  } catch (error) {
+    logger.error('Error listing rate limit overrides', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST - создать переопределение для роли, тарифа или записи allowlist
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = createRateLimitOverrideSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const override = await rateLimitContainer.getOverrideService().create({
+      ...validation.data,
+      createdBy: user.id
+    })
+
+    return NextResponse.json({ success: true, override }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Override for this module and target already exists' }, { status: 409 })
+    }
+
+    logger.error('Error creating rate limit override', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/utils/auth/auth'
 import { isSuperadmin, isAdminByCode } from '@/utils/permissions/permissions'
 import { rateLimitService } from '@/lib/rate-limit'
-import type { RateLimitStats } from '@/lib/rate-limit'
+import type { RateLimitAlgorithm, RateLimitStats } from '@/lib/rate-limit'
+import {
+  formatZodError,
+  rateLimitAlgorithmSchema,
+  rateLimitEscalationSettingsSchema
+} from '@/lib/validations/rate-limit-schemas'
 import logger from '@/lib/logger'
 
 export async function GET(request: NextRequest) {
@@ -115,11 +120,18 @@ export async function PUT(request: NextRequest) {
       maxRequests,
       windowMs,
       blockMs,
+      algorithm,
+      refillRate,
+      burst,
       warnThreshold,
       isActive,
       mode,
       storeEmailInEvents,
-      storeIpInEvents
+      storeIpInEvents,
+      escalationLadder,
+      escalationLookbackMs,
+      escalationDecayMs,
+      escalationManualReview
     } = body
 
     if (!module) {
@@ -130,11 +142,18 @@ export async function PUT(request: NextRequest) {
       maxRequests,
       windowMs,
       blockMs,
+      algorithm,
+      refillRate,
+      burst,
       warnThreshold,
       typeof isActive === 'boolean' ? isActive : undefined,
       mode,
       typeof storeEmailInEvents === 'boolean' ? storeEmailInEvents : undefined,
-      typeof storeIpInEvents === 'boolean' ? storeIpInEvents : undefined
+      typeof storeIpInEvents === 'boolean' ? storeIpInEvents : undefined,
+      escalationLadder,
+      escalationLookbackMs,
+      escalationDecayMs,
+      escalationManualReview
     ].some(value => value !== undefined)
 
     if (!fieldsProvided) {
@@ -145,11 +164,18 @@ export async function PUT(request: NextRequest) {
       maxRequests: number
       windowMs: number
       blockMs: number
+      algorithm: RateLimitAlgorithm
+      refillRate: number | null
+      burst: number | null
       warnThreshold: number
       isActive: boolean
       mode: 'monitor' | 'enforce'
       storeEmailInEvents: boolean
       storeIpInEvents: boolean
+      escalationLadder: number[] | null
+      escalationLookbackMs: number | null
+      escalationDecayMs: number | null
+      escalationManualReview: boolean
     }> = {}
 
     if (maxRequests !== undefined) {
@@ -173,6 +199,28 @@ export async function PUT(request: NextRequest) {
       updatePayload.blockMs = blockMs
     }
 
+    if (algorithm !== undefined) {
+      const parsedAlgorithm = rateLimitAlgorithmSchema.safeParse(algorithm)
+      if (!parsedAlgorithm.success) {
+        return NextResponse.json({ error: 'Invalid algorithm' }, { status: 400 })
+      }
+      updatePayload.algorithm = parsedAlgorithm.data
+    }
+
+    if (refillRate !== undefined) {
+      if (refillRate !== null && (typeof refillRate !== 'number' || refillRate <= 0)) {
+        return NextResponse.json({ error: 'Invalid refillRate' }, { status: 400 })
+      }
+      updatePayload.refillRate = refillRate
+    }
+
+    if (burst !== undefined) {
+      if (burst !== null && (!Number.isInteger(burst) || burst <= 0)) {
+        return NextResponse.json({ error: 'Invalid burst' }, { status: 400 })
+      }
+      updatePayload.burst = burst
+    }
+
     if (warnThreshold !== undefined) {
       if (typeof warnThreshold !== 'number' || warnThreshold < 0) {
         return NextResponse.json({ error: 'Invalid warnThreshold' }, { status: 400 })
@@ -205,12 +253,43 @@ export async function PUT(request: NextRequest) {
       updatePayload.storeIpInEvents = storeIpInEvents
     }
 
+    const escalation = rateLimitEscalationSettingsSchema.safeParse({
+      escalationLadder,
+      escalationLookbackMs,
+      escalationDecayMs,
+      escalationManualReview
+    })
+
+    if (!escalation.success) {
+      return NextResponse.json({ error: formatZodError(escalation.error) }, { status: 400 })
+    }
+
+    if (escalation.data.escalationLadder !== undefined) {
+      // Пустая лестница отключает эскалацию
+      updatePayload.escalationLadder = escalation.data.escalationLadder?.length ? escalation.data.escalationLadder : null
+    }
+
+    if (escalation.data.escalationLookbackMs !== undefined) {
+      updatePayload.escalationLookbackMs = escalation.data.escalationLookbackMs
+    }
+
+    if (escalation.data.escalationDecayMs !== undefined) {
+      updatePayload.escalationDecayMs = escalation.data.escalationDecayMs
+    }
+
+    if (escalation.data.escalationManualReview !== undefined) {
+      updatePayload.escalationManualReview = escalation.data.escalationManualReview
+    }
+
     const previousConfig = await rateLimitService.getConfig(module)
     await rateLimitService.updateConfig(module, updatePayload)
     const updatedConfig = await rateLimitService.getConfig(module)
+    const algorithmChanged =
+      updatePayload.algorithm !== undefined && (previousConfig?.algorithm ?? 'fixed') !== updatePayload.algorithm
     if (
-      updatedConfig?.mode === 'monitor' &&
-      previousConfig?.mode === 'enforce'
+      (updatedConfig?.mode === 'monitor' &&
+      previousConfig?.mode === 'enforce') ||
+      algorithmChanged
     ) {
       await rateLimitService.resetLimits(undefined, module)
     }
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { isAdminByCode, isSuperadmin } from '@/utils/permissions/permissions'
+import { rateLimitContainer } from '@/lib/rate-limit'
+import { formatZodError, simulateRateLimitPolicySchema } from '@/lib/validations/rate-limit-schemas'
+import logger from '@/lib/logger'
+
+/**
+ * POST - прогнать исторический трафик модуля через предлагаемую конфигурацию и сравнить с текущей.
+ * Живые счётчики и блокировки не изменяются.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPermission = isSuperadmin(user) || isAdminByCode(user)
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = simulateRateLimitPolicySchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const simulation = await rateLimitContainer.getPolicySimulator().simulate(validation.data)
+
+    return NextResponse.json({ simulation })
+  } catch (error) {
+    logger.error('Error simulating rate limit policy', {
+      error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -9,6 +9,7 @@ import { isProtectedRole, isSystemRole } from '@/shared/config/protected-roles'
 import { getPermissionValidationErrors } from '@/utils/permissions/validation'
 import { createRoleCacheStore } from '@/lib/role-cache'
 import type { RoleCacheStore } from '@/lib/role-cache/types'
+import { notifyRolePermissionsChanged } from '@/lib/sockets/utils/role-permissions'
 import logger from '@/lib/logger'
 import { eventService } from '@/services/events/EventService'
 import { markRoleOperation, recordRoleOperationDuration, markRoleEvent } from '@/lib/metrics/roles'
@@ -157,6 +158,9 @@ export async function PUT(
       logger.warn('[role-cache] Failed to clear cache after role update', { error: err })
     })
 
+    // Обновляем разрешения уже подключённых сокетов этой роли
+    await notifyRolePermissionsChanged(updatedRole.id)
+
     // Фиксируем событие обновления роли
     await eventService.record(enrichEventInputFromRequest(request, {
       source: 'roleManagement',
@@ -0,0 +1,176 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { z } from 'zod'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+import { rulesService, toBusinessRuleView } from '@/services/rules'
+import { formatZodError, updateRuleSchema } from '@/lib/validations/rules-schemas'
+import logger from '@/lib/logger'
+
+const toggleRuleSchema = z.object({ enabled: z.boolean() }).strict()
+
+/**
+ * GET /api/admin/rules/[id]
+ * Получить правило со статистикой за 7 дней
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const rule = await rulesService.getRule(id)
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    const stats = await rulesService.getExecutionStats(id)
+
+    return NextResponse.json({ rule: toBusinessRuleView(rule), stats })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to get rule', {
+      error: error instanceof Error ? error.message : String(error),
+      ruleId: id
+    })
+
+    return NextResponse.json({ error: 'Failed to get rule' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/admin/rules/[id]
+ * Обновить правило
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = updateRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    if (validation.data.name) {
+      const sameName = await rulesService.getRuleByName(validation.data.name)
+
+      if (sameName && sameName.id !== id) {
+        return NextResponse.json({ error: 'Rule with this name already exists' }, { status: 409 })
+      }
+    }
+
+    const rule = await rulesService.updateRule(id, validation.data)
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ rule: toBusinessRuleView(rule) })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to update rule', {
+      error: error instanceof Error ? error.message : String(error),
+      ruleId: id
+    })
+
+    return NextResponse.json({ error: 'Failed to update rule' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/admin/rules/[id]
+ * Включить/выключить правило ({ enabled })
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = toggleRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const rule = await rulesService.toggleRule(id, validation.data.enabled)
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ rule: toBusinessRuleView(rule) })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to toggle rule', {
+      error: error instanceof Error ? error.message : String(error),
+      ruleId: id
+    })
+
+    return NextResponse.json({ error: 'Failed to toggle rule' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/rules/[id]
+ * Удалить правило вместе с историей выполнений
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'delete')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const deleted = await rulesService.deleteRule(id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to delete rule', {
+      error: error instanceof Error ? error.message : String(error),
+      ruleId: id
+    })
+
+    return NextResponse.json({ error: 'Failed to delete rule' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+import { rulesService, toRuleExecutionView } from '@/services/rules'
+import logger from '@/lib/logger'
+
+/**
+ * GET /api/admin/rules/executions
+ * История выполнений правил (?ruleId, ?success, ?limit, ?cursor) и сводная статистика за ?days
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const ruleId = searchParams.get('ruleId') || undefined
+    const success = searchParams.get('success')
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 7, 1), 90)
+
+    const [page, stats] = await Promise.all([
+      rulesService.getExecutions({
+        ruleId,
+        success: success !== null ? success === 'true' : undefined,
+        limit: Number(searchParams.get('limit')) || undefined,
+        cursor: searchParams.get('cursor') || undefined
+      }),
+      rulesService.getExecutionStats(ruleId, days)
+    ])
+
+    return NextResponse.json({
+      items: page.items.map(toRuleExecutionView),
+      nextCursor: page.nextCursor ?? null,
+      stats,
+      days
+    })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to get rule executions', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get rule executions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+import { rulesService, toBusinessRuleView } from '@/services/rules'
+import type { RuleCategory } from '@/services/rules'
+import { createRuleSchema, formatZodError, ruleCategorySchema } from '@/lib/validations/rules-schemas'
+import logger from '@/lib/logger'
+
+/**
+ * GET /api/admin/rules
+ * Список бизнес-правил со статистикой выполнения за период (?days=7)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const category = ruleCategorySchema.safeParse(searchParams.get('category'))
+    const enabled = searchParams.get('enabled')
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 7, 1), 90)
+
+    const [rules, stats] = await Promise.all([
+      rulesService.getRules({
+        category: category.success ? (category.data as RuleCategory) : undefined,
+        enabled: enabled !== null ? enabled === 'true' : undefined
+      }),
+      rulesService.getExecutionStatsByRule(days)
+    ])
+
+    return NextResponse.json({
+      rules: rules.map(rule => ({
+        ...toBusinessRuleView(rule),
+        stats: stats[rule.id] ?? { total: 0, success: 0, failed: 0, avgDuration: 0, lastExecutedAt: null }
+      })),
+      days
+    })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to get rules', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get rules' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/rules
+ * Создать бизнес-правило
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = createRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    if (await rulesService.getRuleByName(validation.data.name)) {
+      return NextResponse.json({ error: 'Rule with this name already exists' }, { status: 409 })
+    }
+
+    const rule = await rulesService.createRule({ ...validation.data, createdBy: user.id })
+
+    return NextResponse.json({ rule: toBusinessRuleView(rule) }, { status: 201 })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to create rule', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to create rule' }, { status: 500 })
+  }
+}
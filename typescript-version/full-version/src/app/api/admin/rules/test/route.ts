@@ -0,0 +1,63 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+import { rulesService } from '@/services/rules'
+import type { RuleCategory } from '@/services/rules'
+import { formatZodError, testRuleSchema } from '@/lib/validations/rules-schemas'
+import logger from '@/lib/logger'
+
+/**
+ * POST /api/admin/rules/test
+ * Dry-run: проверить сохранённое правило (ruleId) или черновик (rule) на переданных фактах.
+ * Async факты не подгружаются, выполнение не записывается в историю.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!checkPermission(user, 'rulesManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = testRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { ruleId, rule, facts } = validation.data
+
+    if (ruleId) {
+      if (!(await rulesService.getRule(ruleId))) {
+        return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ result: await rulesService.testRule(ruleId, facts) })
+    }
+
+    const result = await rulesService.testRuleDefinition(
+      {
+        name: rule!.name || 'draft',
+        category: (rule!.category || 'limit') as RuleCategory,
+        conditions: rule!.conditions,
+        event: rule!.event
+      },
+      facts
+    )
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    logger.error('[API:Rules] Failed to test rule', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to test rule' }, { status: 500 })
+  }
+}
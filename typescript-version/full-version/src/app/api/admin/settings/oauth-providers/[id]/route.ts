@@ -0,0 +1,133 @@
+/**
+ * API для управления конкретным провайдером входа
+ *
+ * PUT    /api/admin/settings/oauth-providers/[id] - Обновить провайдера
+ * DELETE /api/admin/settings/oauth-providers/[id] - Удалить провайдера
+ *
+ * @module app/api/admin/settings/oauth-providers/[id]
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { oauthProviderService } from '@/services/auth'
+import { formatZodError, updateOAuthProviderSchema } from '@/lib/validations/oauth-schemas'
+import { eventService } from '@/services/events/EventService'
+import logger from '@/lib/logger'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * PUT /api/admin/settings/oauth-providers/[id]
+ * Обновить провайдера; clientSecret не передан - секрет не меняется
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    // Проверяем права доступа
+    const userRole = user.role?.code?.toUpperCase()
+
+    if (!['SUPERADMIN', 'ADMIN'].includes(userRole || '')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const validationResult = updateOAuthProviderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json({ error: formatZodError(validationResult.error) }, { status: 400 })
+    }
+
+    const provider = await oauthProviderService.update(id, validationResult.data)
+
+    if (!provider) {
+      return NextResponse.json({ error: 'Провайдер не найден' }, { status: 404 })
+    }
+
+    await eventService.record({
+      source: 'api',
+      module: 'settings',
+      type: 'oauth_provider.updated',
+      severity: 'info',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'oauth_provider', id: provider.id },
+      message: `Обновлён провайдер входа: ${provider.displayName}`,
+      payload: {
+        slug: provider.slug,
+        updatedFields: Object.keys(validationResult.data),
+        clientSecretChanged: validationResult.data.clientSecret !== undefined
+      }
+    })
+
+    return NextResponse.json({ success: true, data: provider })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[API:OAuthProviders] Failed to update provider', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json({ error: 'Провайдер с таким slug уже существует' }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Внутренняя ошибка сервера' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/settings/oauth-providers/[id]
+ * Удалить провайдера (привязанные аккаунты пользователей сохраняются)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    // Проверяем права доступа
+    const userRole = user.role?.code?.toUpperCase()
+
+    if (!['SUPERADMIN', 'ADMIN'].includes(userRole || '')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await oauthProviderService.getById(id)
+
+    if (!existing || !(await oauthProviderService.delete(id))) {
+      return NextResponse.json({ error: 'Провайдер не найден' }, { status: 404 })
+    }
+
+    await eventService.record({
+      source: 'api',
+      module: 'settings',
+      type: 'oauth_provider.deleted',
+      severity: 'warning',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'oauth_provider', id },
+      message: `Удалён провайдер входа: ${existing.displayName}`,
+      payload: { slug: existing.slug }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[API:OAuthProviders] Failed to delete provider', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Внутренняя ошибка сервера' }, { status: 500 })
+  }
+}
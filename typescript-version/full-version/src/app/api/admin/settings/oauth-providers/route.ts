@@ -0,0 +1,104 @@
+/**
+ * API для управления провайдерами входа OAuth 2.0 / OpenID Connect
+ *
+ * GET  /api/admin/settings/oauth-providers - Получить список провайдеров
+ * POST /api/admin/settings/oauth-providers - Добавить провайдера
+ *
+ * @module app/api/admin/settings/oauth-providers
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { requireAuth } from '@/utils/auth/auth'
+import { oauthProviderService } from '@/services/auth'
+import { createOAuthProviderSchema, formatZodError } from '@/lib/validations/oauth-schemas'
+import { eventService } from '@/services/events/EventService'
+import logger from '@/lib/logger'
+
+/**
+ * GET /api/admin/settings/oauth-providers
+ * Список провайдеров (без секретов клиента)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    // Проверяем права доступа (только admin/superadmin)
+    const userRole = user.role?.code?.toUpperCase()
+
+    if (!['SUPERADMIN', 'ADMIN'].includes(userRole || '')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const providers = await oauthProviderService.list()
+
+    return NextResponse.json({ success: true, data: providers, count: providers.length })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[API:OAuthProviders] Failed to list providers', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Внутренняя ошибка сервера' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/settings/oauth-providers
+ * Добавить провайдера
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    // Проверяем права доступа (только admin/superadmin)
+    const userRole = user.role?.code?.toUpperCase()
+
+    if (!['SUPERADMIN', 'ADMIN'].includes(userRole || '')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validationResult = createOAuthProviderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json({ error: formatZodError(validationResult.error) }, { status: 400 })
+    }
+
+    const provider = await oauthProviderService.create(validationResult.data, user.id)
+
+    await eventService.record({
+      source: 'api',
+      module: 'settings',
+      type: 'oauth_provider.created',
+      severity: 'info',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'oauth_provider', id: provider.id },
+      message: `Добавлен провайдер входа: ${provider.displayName}`,
+      payload: { slug: provider.slug, type: provider.type, issuer: provider.issuer }
+    })
+
+    return NextResponse.json({ success: true, data: provider }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[API:OAuthProviders] Failed to create provider', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json({ error: 'Провайдер с таким slug уже существует' }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Внутренняя ошибка сервера' },
+      { status: 500 }
+    )
+  }
+}
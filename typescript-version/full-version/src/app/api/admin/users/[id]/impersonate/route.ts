@@ -0,0 +1,72 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { lucia } from '@/libs/lucia'
+import { impersonationService, sessionService } from '@/services/auth'
+import type { ImpersonationErrorCode } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { isSuperadmin } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const ERROR_RESPONSES: Record<ImpersonationErrorCode, { error: string; status: number }> = {
+  not_found: { error: 'User not found', status: 404 },
+  self: { error: 'You cannot sign in as yourself', status: 400 },
+  target_superadmin: { error: 'Signing in as a superadmin is not allowed', status: 403 },
+  target_inactive: { error: 'User is not active', status: 400 }
+}
+
+/**
+ * POST /api/admin/users/[id]/impersonate
+ * Войти под пользователем (только суперадмин): cookie заменяется сессией пользователя,
+ * сессия администратора сохраняется и возвращается через /api/auth/impersonation/stop
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    // Только браузерная сессия: по API-ключу войти под пользователем нельзя
+    if (!session || !isSuperadmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (session.impersonatorId) {
+      return NextResponse.json({ error: 'Return to your account first' }, { status: 400 })
+    }
+
+    const { id } = await params
+
+    const result = await impersonationService.start({
+      adminId: user.id,
+      adminSessionId: session.id,
+      targetUserId: id,
+      metadata: sessionService.getRequestMetadata(request)
+    })
+
+    if (!result.success || !result.sessionId) {
+      const { error, status } = ERROR_RESPONSES[result.error ?? 'not_found']
+
+      return NextResponse.json({ error }, { status })
+    }
+
+    const sessionCookie = lucia.createSessionCookie(result.sessionId)
+    const response = NextResponse.json({ success: true, user: result.user, expiresAt: result.expiresAt })
+
+    response.cookies.set(sessionCookie.name, sessionCookie.value, sessionCookie.attributes)
+
+    return response
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[API:Impersonation] Failed to start impersonation', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to sign in as user' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 ﻿import { NextRequest, NextResponse } from 'next/server'
 
 import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
 import type { UserWithRole } from '@/utils/permissions/permissions'
 import { isSuperadmin } from '@/utils/permissions/permissions'
 import { prisma } from '@/libs/prisma'
@@ -537,7 +538,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { user } = await requireAuth(request)
+    const { session, user } = await requireAuth(request)
 
     if (!user?.email) {
       return NextResponse.json(
@@ -546,6 +547,12 @@ export async function DELETE(
       )
     }
 
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'user_delete')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
     const { id: userId } = await params
 
     // Check if user is admin
@@ -0,0 +1,95 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { prisma } from '@/libs/prisma'
+import { sessionService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission, isSuperadmin } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/admin/users/[id]/sessions
+ * Активные сессии пользователя
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isSuperadmin(user) && !checkPermission(user, 'userManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const targetUser = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // current отмечает сессию администратора, если он смотрит свой профиль
+    const sessions = await sessionService.listUserSessions(id, session?.id)
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    logger.error('[API:Sessions] Failed to list user sessions', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to list sessions' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[id]/sessions
+ * Принудительный выход: завершить все сессии пользователя и отключить его сокеты
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isSuperadmin(user) && !checkPermission(user, 'userManagement', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    if (id === user.id) {
+      return NextResponse.json({ error: 'Use /api/user/sessions to manage your own sessions' }, { status: 400 })
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id },
+      include: { role: true }
+    })
+
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (targetUser.role?.code === 'SUPERADMIN' && !isSuperadmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await sessionService.revokeAllSessions(id, user.id)
+
+    return NextResponse.json({ success: true, revoked: result.revoked ?? 0 })
+  } catch (error) {
+    logger.error('[API:Sessions] Failed to force logout user', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to force logout' }, { status: 500 })
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { prisma } from '@/libs/prisma'
+import { twoFactorService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { checkPermission, isSuperadmin } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/admin/users/[id]/two-factor
+ * Состояние 2FA пользователя
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isSuperadmin(user) && !checkPermission(user, 'userManagement', 'read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const status = await twoFactorService.getStatus(id)
+
+    if (!status) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(status)
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to get user two-factor status', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get two-factor status' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[id]/two-factor
+ * Сбросить 2FA пользователя (потерян телефон и коды восстановления).
+ * Если роль требует 2FA, при следующем входе пользователь настроит её заново.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isSuperadmin(user) && !checkPermission(user, 'userManagement', 'update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id },
+      include: { role: true }
+    })
+
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (targetUser.role?.code === 'SUPERADMIN' && !isSuperadmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await twoFactorService.reset(id, user.id)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to reset two-factor', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to reset two-factor authentication' }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import crypto from 'crypto'
 
 import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
 import { checkPermission } from '@/utils/permissions/permissions'
 import { prisma } from '@/libs/prisma'
 import { bulkOperationSchema, formatZodError } from '@/lib/validations/user-schemas'
@@ -12,7 +13,7 @@ import { getEnvironmentFromRequest } from '@/lib/metrics/helpers'
 // POST - Bulk delete users (admin only)
 export async function POST(request: NextRequest) {
   try {
-    const { user } = await requireAuth(request)
+    const { session, user } = await requireAuth(request)
 
     if (!user?.email) {
       return NextResponse.json(
@@ -21,6 +22,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'user_delete')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
     // Check if user is admin
     const currentUser = await prisma.user.findUnique({
       where: { email: user.email },
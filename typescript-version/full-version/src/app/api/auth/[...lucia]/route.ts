@@ -26,6 +26,13 @@ export async function GET(request: NextRequest) {
   })
 }
 
-export async function POST(request: NextRequest) {
-  return new Response()
+// Вход выполняется через /api/auth/login и /api/auth/oauth/[provider]/authorize
+export async function POST() {
+  return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    status: 405,
+    headers: {
+      'Content-Type': 'application/json',
+      Allow: 'GET',
+    },
+  })
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { lucia } from '@/libs/lucia'
+import { impersonationService } from '@/services/auth'
+import { getLuciaSession } from '@/utils/auth/auth'
+
+/**
+ * POST /api/auth/impersonation/stop
+ * Вернуться в свой аккаунт: сессия входа под пользователем завершается, cookie
+ * переключается на сессию администратора (если она ещё действительна)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session } = await getLuciaSession(request)
+
+    if (!session?.impersonatorId) {
+      return NextResponse.json({ error: 'Not signed in as another user' }, { status: 400 })
+    }
+
+    const { adminSessionId } = await impersonationService.stop(session, 'manual')
+
+    const sessionCookie = adminSessionId ? lucia.createSessionCookie(adminSessionId) : lucia.createBlankSessionCookie()
+    const response = NextResponse.json({ success: true, restored: Boolean(adminSessionId) })
+
+    response.cookies.set(sessionCookie.name, sessionCookie.value, sessionCookie.attributes)
+
+    return response
+  } catch (error) {
+    logger.error('[API:Impersonation] Failed to stop impersonation', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to return to your account' }, { status: 500 })
+  }
+}
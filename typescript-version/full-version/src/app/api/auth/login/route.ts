@@ -1,5 +1,4 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { lucia } from '@/libs/lucia'
 import { prisma } from '@/libs/prisma'
 import bcrypt from 'bcryptjs'
 import crypto from 'crypto'
@@ -9,6 +8,8 @@ import { createErrorResponse } from '@/utils/apiError'
 import { eventService } from '@/services/events'
 import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
 import { trackLoginSuccess, trackLoginFailed, trackSessionCreated, startLoginTimer } from '@/lib/metrics/auth'
+import { twoFactorService } from '@/services/auth'
+import { createSessionResponse, setTwoFactorCookie } from '@/utils/auth/two-factor'
 
 const MIN_RESPONSE_DURATION_MS = 200
 
@@ -269,35 +270,51 @@ export async function POST(request: NextRequest) {
       return new NextResponse(JSON.stringify(payload), init)
     }
 
+    // Второй фактор: включённая 2FA или роль, для которой она обязательна.
+    // Полноценная сессия будет создана в /api/auth/two-factor/verify (или /enable при первой настройке).
+    const twoFactorEnabled = Boolean(user.twoFactorEnabledAt)
+    const twoFactorRequired = twoFactorEnabled || (await twoFactorService.isRequiredForRole(user.role))
+
+    if (twoFactorRequired) {
+      const twoFactorState = twoFactorEnabled ? 'verify' : 'enroll'
+      const pendingToken = await twoFactorService.createPendingSession(user.id, twoFactorState)
+
+      logger.info('🔐 [LOGIN] Password valid, second factor required for:', { email, twoFactorState })
+      stopLoginTimer()
+
+      await eventService.record(enrichEventInputFromRequest(request, {
+        source: 'auth',
+        type: 'login_two_factor_required',
+        severity: 'info',
+        message: 'Password accepted, second factor required',
+        actor: { type: 'user', id: user.id },
+        subject: { type: 'system', id: 'auth' },
+        key: email,
+        correlationId,
+        payload: {
+          userId: user.id,
+          email: email,
+          ipAddress: clientIp,
+          twoFactorState
+        }
+      }))
+
+      const response = NextResponse.json({ twoFactorRequired: true, twoFactorState })
+
+      setTwoFactorCookie(response, pendingToken)
+      await enforceMinimumResponseTime()
+
+      return response
+    }
+
     logger.info('вњ… [LOGIN] Password valid, creating session for:', email)
     stopLoginTimer()
     trackLoginSuccess('credentials')
 
-    const sessionToken = crypto.randomUUID()
-    const session = await lucia.createSession(user.id, { sessionToken })
+    const { session, response } = await createSessionResponse(request, user)
     logger.info('вњ… [LOGIN] Session created:', session.id)
     trackSessionCreated('credentials')
 
-    const sessionCookie = lucia.createSessionCookie(session.id)
-    logger.info('рџЌЄ [LOGIN] Setting session cookie:', sessionCookie.name)
-
-    const response = NextResponse.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role?.name || user.role?.code || 'user',
-        permissions: user.role?.permissions || '{}'
-      },
-      session
-    })
-
-    response.cookies.set(
-      sessionCookie.name,
-      sessionCookie.value,
-      sessionCookie.attributes
-    )
-
     // Record successful login event
     await eventService.record(enrichEventInputFromRequest(request, {
       source: 'auth',
@@ -3,6 +3,7 @@ import { lucia } from '@/libs/lucia'
 import { optionalRequireAuth } from '@/utils/auth/auth'
 import logger from '@/lib/logger'
 import { trackLogout, trackSessionExpired } from '@/lib/metrics/auth'
+import { notifySessionsRevoked } from '@/lib/sockets/utils/session-revocation'
 
 
 export async function POST(request: NextRequest) {
@@ -14,6 +15,7 @@ export async function POST(request: NextRequest) {
     if (session) {
       logger.info('рџљЄ [LOGOUT] Invalidating session...')
       await lucia.invalidateSession(session.id)
+      await notifySessionsRevoked({ sessionIds: [session.id] })
       logger.info('вњ… [LOGOUT] Session invalidated')
       trackSessionExpired()
     } else {
@@ -0,0 +1,66 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, oauthAuthorizeQuerySchema } from '@/lib/validations/oauth-schemas'
+import logger from '@/lib/logger'
+import { oauthService } from '@/services/auth'
+import { getLuciaSession } from '@/utils/auth/auth'
+import { setOAuthStateCookie } from '@/utils/auth/oauth'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+/**
+ * GET /api/auth/oauth/[provider]/authorize?mode=login|link&redirectTo=/path
+ * Перенаправить пользователя к провайдеру. mode=link - привязка к текущей сессии.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { provider } = await params
+  const searchParams = request.nextUrl.searchParams
+
+  const validation = oauthAuthorizeQuerySchema.safeParse({
+    mode: searchParams.get('mode') || undefined,
+    redirectTo: searchParams.get('redirectTo') || undefined
+  })
+
+  if (!validation.success) {
+    return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+  }
+
+  const { mode, redirectTo } = validation.data
+  let userId: string | undefined
+
+  if (mode === 'link') {
+    const { user } = await getLuciaSession(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    userId = user.id
+  }
+
+  try {
+    const result = await oauthService.createAuthorizationRequest(provider, { mode, redirectTo, userId })
+
+    if (!result.success || !result.url || !result.stateCookie) {
+      const status = result.error === 'provider_not_found' ? 404 : 503
+
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    const response = NextResponse.redirect(result.url)
+
+    setOAuthStateCookie(response, result.stateCookie)
+
+    return response
+  } catch (error) {
+    logger.error('[OAuth] Authorize failed', {
+      provider,
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,143 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { trackLoginFailed, trackLoginSuccess, trackSessionCreated } from '@/lib/metrics/auth'
+import { oauthService, twoFactorService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+import { getLuciaSession } from '@/utils/auth/auth'
+import { clearOAuthStateCookie, createSessionRedirect, getOAuthStateCookie } from '@/utils/auth/oauth'
+import { setTwoFactorCookie } from '@/utils/auth/two-factor'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+const DEFAULT_LOGIN_REDIRECT = '/dashboards/crm'
+const CONNECTIONS_PAGE = '/pages/account-settings?tab=connections'
+
+const redirectWithError = (request: NextRequest, location: string, error: string) => {
+  const url = new URL(location, request.url)
+
+  url.searchParams.set('oauthError', error)
+
+  const response = NextResponse.redirect(url)
+
+  clearOAuthStateCookie(response)
+
+  return response
+}
+
+/**
+ * GET /api/auth/oauth/[provider]/callback
+ * Возврат от провайдера: вход (с учётом 2FA), регистрация или привязка аккаунта
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { provider } = await params
+  const searchParams = request.nextUrl.searchParams
+
+  try {
+    const { user: sessionUser } = await getLuciaSession(request)
+
+    const result = await oauthService.handleCallback(
+      provider,
+      {
+        code: searchParams.get('code') || undefined,
+        state: searchParams.get('state') || undefined,
+        error: searchParams.get('error') || undefined
+      },
+      getOAuthStateCookie(request),
+      sessionUser?.id ?? null
+    )
+
+    if (result.mode === 'link') {
+      if (!result.success) {
+        return redirectWithError(request, CONNECTIONS_PAGE, result.error as string)
+      }
+
+      const response = NextResponse.redirect(new URL(result.redirectTo || CONNECTIONS_PAGE, request.url))
+
+      clearOAuthStateCookie(response)
+
+      return response
+    }
+
+    if (!result.success || !result.userId) {
+      trackLoginFailed(provider)
+
+      await eventService.record(
+        enrichEventInputFromRequest(request, {
+          source: 'auth',
+          type: 'login_failed',
+          severity: 'warning',
+          message: `OAuth login failed: ${result.error}`,
+          actor: { type: 'user', id: null },
+          subject: { type: 'system', id: 'auth' },
+          key: provider,
+          payload: { provider, reason: result.error }
+        })
+      )
+
+      return redirectWithError(request, '/login', result.error as string)
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: result.userId }, include: { role: true } })
+
+    if (!user) {
+      return redirectWithError(request, '/login', 'account_suspended')
+    }
+
+    const redirectTo = result.redirectTo || DEFAULT_LOGIN_REDIRECT
+
+    // Второй фактор - как при входе по паролю; страница входа откроет шаг 2FA по параметру twoFactor
+    const twoFactorEnabled = Boolean(user.twoFactorEnabledAt)
+    const twoFactorRequired = twoFactorEnabled || (await twoFactorService.isRequiredForRole(user.role))
+
+    if (twoFactorRequired) {
+      const twoFactorState = twoFactorEnabled ? 'verify' : 'enroll'
+      const pendingToken = await twoFactorService.createPendingSession(user.id, twoFactorState)
+
+      const loginUrl = new URL('/login', request.url)
+
+      loginUrl.searchParams.set('twoFactor', twoFactorState)
+      loginUrl.searchParams.set('redirectTo', redirectTo)
+
+      const response = NextResponse.redirect(loginUrl)
+
+      setTwoFactorCookie(response, pendingToken)
+      clearOAuthStateCookie(response)
+
+      return response
+    }
+
+    const { session, response } = await createSessionRedirect(request, user.id, redirectTo)
+
+    clearOAuthStateCookie(response)
+    trackLoginSuccess(provider)
+    trackSessionCreated(provider)
+
+    await eventService.record(
+      enrichEventInputFromRequest(request, {
+        source: 'auth',
+        type: 'login_success',
+        severity: 'info',
+        message: `User logged in via ${provider}`,
+        actor: { type: 'user', id: user.id },
+        subject: { type: 'system', id: 'auth' },
+        key: user.email || provider,
+        payload: { userId: user.id, provider, sessionId: session.id, created: result.created }
+      })
+    )
+
+    return response
+  } catch (error) {
+    logger.error('[OAuth] Callback failed', {
+      provider,
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return redirectWithError(request, '/login', 'provider_error')
+  }
+}
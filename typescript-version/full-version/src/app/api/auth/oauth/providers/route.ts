@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { oauthProviderService } from '@/services/auth'
+
+/**
+ * GET /api/auth/oauth/providers
+ * Включённые провайдеры для кнопок на странице входа (без эндпоинтов и clientId)
+ */
+export async function GET() {
+  try {
+    const providers = await oauthProviderService.listEnabled()
+
+    return NextResponse.json({ providers })
+  } catch (error) {
+    logger.error('[OAuth] Failed to list providers', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ providers: [] })
+  }
+}
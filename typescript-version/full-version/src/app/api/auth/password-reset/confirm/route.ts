@@ -0,0 +1,88 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, resetPasswordSchema } from '@/lib/validations/password-reset-schemas'
+import logger from '@/lib/logger'
+import { rateLimitService } from '@/lib/rate-limit'
+import { buildRateLimitExceededResponse } from '@/lib/rate-limit/http/with-rate-limit'
+import { passwordResetService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+
+/**
+ * POST /api/auth/password-reset/confirm
+ * Установить новый пароль по токену из письма или телефону + SMS-коду.
+ * При успехе все сессии пользователя завершаются.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = resetPasswordSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { token, phone, code, password } = validation.data
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+
+    // SMS-код перебирают по телефону, токен из письма - с одного адреса
+    const rateLimitResult = await rateLimitService.checkLimit(phone || clientIp, 'password-reset', {
+      increment: true,
+      ipAddress: clientIp
+    })
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitExceededResponse('password-reset', rateLimitResult, 'Too many attempts. Try again later.')
+    }
+
+    const result = await passwordResetService.resetPassword({ token, phone, code, password })
+
+    if (!result.success) {
+      if (result.userId) {
+        await eventService.record(
+          enrichEventInputFromRequest(request, {
+            source: 'auth',
+            module: 'auth',
+            type: 'password_reset.failed',
+            severity: 'warning',
+            message: 'Password reset failed: invalid code',
+            actor: { type: 'user', id: result.userId },
+            subject: { type: 'user', id: result.userId },
+            key: phone,
+            payload: {
+              userId: result.userId,
+              channel: 'phone'
+            }
+          })
+        )
+      }
+
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await eventService.record(
+      enrichEventInputFromRequest(request, {
+        source: 'auth',
+        module: 'auth',
+        type: 'password_reset.completed',
+        severity: 'warning',
+        message: 'Password reset completed, all sessions invalidated',
+        actor: { type: 'user', id: result.userId as string },
+        subject: { type: 'user', id: result.userId as string },
+        payload: {
+          userId: result.userId,
+          channel: token ? 'email' : 'phone'
+        }
+      })
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:PasswordReset] Failed to reset password', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, requestPasswordResetSchema } from '@/lib/validations/password-reset-schemas'
+import logger from '@/lib/logger'
+import { rateLimitService } from '@/lib/rate-limit'
+import { buildRateLimitExceededResponse } from '@/lib/rate-limit/http/with-rate-limit'
+import { passwordResetService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+
+// Один ответ для любого исхода - по нему нельзя узнать, зарегистрирован ли email/телефон
+const GENERIC_RESPONSE = { message: 'If an account exists, password reset instructions have been sent' }
+
+/**
+ * POST /api/auth/password-reset/request
+ * Запросить сброс пароля: ссылка на email или SMS-код на телефон
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = requestPasswordResetSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const identifier = (validation.data.email || validation.data.phone) as string
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+
+    const rateLimitResult = await rateLimitService.checkLimit(identifier, 'password-reset', {
+      increment: true,
+      email: validation.data.email,
+      ipAddress: clientIp
+    })
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitExceededResponse('password-reset', rateLimitResult, 'Too many requests. Try again later.')
+    }
+
+    const result = await passwordResetService.requestReset(validation.data)
+
+    if (result.userId) {
+      await eventService.record(
+        enrichEventInputFromRequest(request, {
+          source: 'auth',
+          module: 'auth',
+          type: 'password_reset.requested',
+          severity: 'info',
+          message: 'Password reset requested',
+          actor: { type: 'user', id: result.userId },
+          subject: { type: 'user', id: result.userId },
+          key: identifier,
+          payload: {
+            userId: result.userId,
+            channel: result.channel,
+            sent: result.sent
+          }
+        })
+      )
+    }
+
+    return NextResponse.json(GENERIC_RESPONSE)
+  } catch (error) {
+    logger.error('[API:PasswordReset] Failed to request password reset', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to request password reset' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, requestPasswordlessLoginSchema } from '@/lib/validations/passwordless-login-schemas'
+import logger from '@/lib/logger'
+import { rateLimitService } from '@/lib/rate-limit'
+import { buildRateLimitExceededResponse } from '@/lib/rate-limit/http/with-rate-limit'
+import { passwordlessLoginService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+
+// Ответ не зависит от того, есть ли аккаунт с таким email/телефоном
+const GENERIC_RESPONSE = { message: 'If an account exists, sign-in instructions have been sent' }
+
+/**
+ * POST /api/auth/passwordless/request
+ * Запросить вход без пароля: ссылка на email или SMS-код на телефон
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = requestPasswordlessLoginSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const identifier = (validation.data.email || validation.data.phone) as string
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+
+    const rateLimitResult = await rateLimitService.checkLimit(identifier, 'passwordless-login', {
+      increment: true,
+      email: validation.data.email,
+      ipAddress: clientIp
+    })
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitExceededResponse(
+        'passwordless-login',
+        rateLimitResult,
+        'Too many requests. Try again later.'
+      )
+    }
+
+    const result = await passwordlessLoginService.requestLogin(validation.data)
+
+    if (!result.enabled) {
+      return NextResponse.json({ error: 'Passwordless sign-in is disabled' }, { status: 403 })
+    }
+
+    if (result.userId) {
+      await eventService.record(
+        enrichEventInputFromRequest(request, {
+          source: 'auth',
+          module: 'auth',
+          type: 'passwordless_login.requested',
+          severity: 'info',
+          message: 'Passwordless sign-in requested',
+          actor: { type: 'user', id: result.userId },
+          subject: { type: 'user', id: result.userId },
+          key: identifier,
+          payload: {
+            userId: result.userId,
+            channel: result.channel,
+            sent: result.sent
+          }
+        })
+      )
+    }
+
+    return NextResponse.json(GENERIC_RESPONSE)
+  } catch (error) {
+    logger.error('[API:Passwordless] Failed to request sign-in', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to request sign-in' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { passwordlessLoginService } from '@/services/auth'
+
+/**
+ * GET /api/auth/passwordless
+ * Включённые каналы входа без пароля для страницы входа
+ */
+export async function GET() {
+  try {
+    const channels = await passwordlessLoginService.getEnabledChannels()
+
+    return NextResponse.json(channels)
+  } catch (error) {
+    logger.error('[Passwordless] Failed to load enabled channels', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ email: false, phone: false })
+  }
+}
@@ -0,0 +1,135 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/libs/prisma'
+import { formatZodError, verifyPasswordlessLoginSchema } from '@/lib/validations/passwordless-login-schemas'
+import logger from '@/lib/logger'
+import { rateLimitService } from '@/lib/rate-limit'
+import { buildRateLimitExceededResponse } from '@/lib/rate-limit/http/with-rate-limit'
+import { trackLoginFailed, trackLoginSuccess, trackSessionCreated } from '@/lib/metrics/auth'
+import { passwordlessLoginService, twoFactorService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+import { createSessionResponse, setTwoFactorCookie } from '@/utils/auth/two-factor'
+
+const PROVIDER = 'passwordless'
+
+/**
+ * POST /api/auth/passwordless/verify
+ * Войти по токену из письма или телефону + SMS-коду. Ответ - как у /api/auth/login:
+ * сессия или шаг 2FA (twoFactorRequired).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = verifyPasswordlessLoginSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { token, phone, code } = validation.data
+    const channel = token ? 'email' : 'phone'
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+
+    const rateLimitResult = await rateLimitService.checkLimit(phone || clientIp, 'passwordless-login', {
+      increment: true,
+      ipAddress: clientIp
+    })
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitExceededResponse(
+        'passwordless-login',
+        rateLimitResult,
+        'Too many attempts. Try again later.'
+      )
+    }
+
+    const result = await passwordlessLoginService.verifyLogin({ token, phone, code })
+
+    if (!result.success) {
+      trackLoginFailed(PROVIDER)
+
+      if (result.userId) {
+        await eventService.record(
+          enrichEventInputFromRequest(request, {
+            source: 'auth',
+            type: 'login_failed',
+            severity: 'warning',
+            message: 'Passwordless sign-in failed: invalid code',
+            actor: { type: 'user', id: result.userId },
+            subject: { type: 'system', id: 'auth' },
+            key: phone,
+            payload: {
+              userId: result.userId,
+              channel,
+              reason: 'invalid_code'
+            }
+          })
+        )
+      }
+
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: result.userId }, include: { role: true } })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid or expired sign-in code' }, { status: 400 })
+    }
+
+    // Второй фактор - как при входе по паролю
+    const twoFactorEnabled = Boolean(user.twoFactorEnabledAt)
+    const twoFactorRequired = twoFactorEnabled || (await twoFactorService.isRequiredForRole(user.role))
+
+    if (twoFactorRequired) {
+      const twoFactorState = twoFactorEnabled ? 'verify' : 'enroll'
+      const pendingToken = await twoFactorService.createPendingSession(user.id, twoFactorState)
+
+      await eventService.record(
+        enrichEventInputFromRequest(request, {
+          source: 'auth',
+          type: 'login_two_factor_required',
+          severity: 'info',
+          message: 'Passwordless sign-in accepted, second factor required',
+          actor: { type: 'user', id: user.id },
+          subject: { type: 'system', id: 'auth' },
+          key: user.email || phone,
+          payload: { userId: user.id, channel, twoFactorState }
+        })
+      )
+
+      const response = NextResponse.json({ twoFactorRequired: true, twoFactorState })
+
+      setTwoFactorCookie(response, pendingToken)
+
+      return response
+    }
+
+    const { session, response } = await createSessionResponse(request, user)
+
+    trackLoginSuccess(PROVIDER)
+    trackSessionCreated(PROVIDER)
+
+    await eventService.record(
+      enrichEventInputFromRequest(request, {
+        source: 'auth',
+        type: 'login_success',
+        severity: 'info',
+        message: 'User logged in without password',
+        actor: { type: 'user', id: user.id },
+        subject: { type: 'system', id: 'auth' },
+        key: user.email || phone,
+        payload: { userId: user.id, provider: PROVIDER, channel, sessionId: session.id }
+      })
+    )
+
+    return response
+  } catch (error) {
+    logger.error('[API:Passwordless] Failed to sign in', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 })
+  }
+}
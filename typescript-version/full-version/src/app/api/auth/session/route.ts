@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { optionalRequireAuth } from '@/utils/auth/auth'
+import { impersonationService } from '@/services/auth'
 import logger from '@/lib/logger'
 
 
@@ -16,6 +17,9 @@ export async function GET(request: NextRequest) {
 
     logger.info('вњ… [SESSION] Session found for user:', user.email)
 
+    // Суперадмин вошёл под пользователем - клиент показывает баннер возврата
+    const impersonation = session.impersonatorId ? await impersonationService.getInfo(session) : null
+
     return NextResponse.json({
       user: {
         id: user.id,
@@ -35,7 +39,8 @@ export async function GET(request: NextRequest) {
           email: user.email,
           name: user.name,
           image: user.image
-        }
+        },
+        impersonation
       }
     })
   } catch (error) {
@@ -0,0 +1,49 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, twoFactorCodeSchema } from '@/lib/validations/two-factor-schemas'
+import logger from '@/lib/logger'
+import { twoFactorService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
+
+/**
+ * POST /api/auth/two-factor/disable
+ * Выключить 2FA. Подтверждается TOTP-кодом или кодом восстановления.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'two_factor_disable')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = twoFactorCodeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await twoFactorService.disable(user.id, validation.data.code)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to disable two-factor', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 })
+  }
+}
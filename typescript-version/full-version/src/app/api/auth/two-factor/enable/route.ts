@@ -0,0 +1,58 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, twoFactorCodeSchema } from '@/lib/validations/two-factor-schemas'
+import logger from '@/lib/logger'
+import { trackLoginSuccess, trackSessionCreated } from '@/lib/metrics/auth'
+import { twoFactorService } from '@/services/auth'
+import { createSessionResponse, getTwoFactorEnrollmentActor } from '@/utils/auth/two-factor'
+
+/**
+ * POST /api/auth/two-factor/enable
+ * Подтвердить настройку кодом из приложения. Возвращает коды восстановления (показываются один раз).
+ * Для промежуточной сессии 'enroll' это завершает вход - выдаётся полноценная сессия.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await getTwoFactorEnrollmentActor(request)
+
+    if (!actor) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = twoFactorCodeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await twoFactorService.confirmEnrollment(actor.userId, validation.data.code)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    if (!actor.pendingSession) {
+      return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes })
+    }
+
+    await twoFactorService.deletePendingSession(actor.pendingSession.id)
+
+    const { response } = await createSessionResponse(request, actor.pendingSession.user, {
+      success: true,
+      recoveryCodes: result.recoveryCodes
+    })
+
+    trackLoginSuccess('credentials')
+    trackSessionCreated('credentials')
+
+    return response
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to enable two-factor', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to enable two-factor authentication' }, { status: 500 })
+  }
+}
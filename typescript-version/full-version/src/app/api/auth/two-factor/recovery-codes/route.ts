@@ -0,0 +1,42 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, twoFactorCodeSchema } from '@/lib/validations/two-factor-schemas'
+import logger from '@/lib/logger'
+import { twoFactorService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Перевыпустить коды восстановления (старые перестают действовать)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = twoFactorCodeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await twoFactorService.regenerateRecoveryCodes(user.id, validation.data.code)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes })
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to regenerate recovery codes', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 })
+  }
+}
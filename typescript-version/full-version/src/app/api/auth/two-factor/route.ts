@@ -0,0 +1,34 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { twoFactorService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+
+/**
+ * GET /api/auth/two-factor
+ * Состояние 2FA текущего пользователя
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const status = await twoFactorService.getStatus(user.id)
+
+    if (!status) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(status)
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to get status', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get two-factor status' }, { status: 500 })
+  }
+}
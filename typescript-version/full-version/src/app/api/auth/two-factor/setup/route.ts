@@ -0,0 +1,35 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { twoFactorService } from '@/services/auth'
+import { getTwoFactorEnrollmentActor } from '@/utils/auth/two-factor'
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Начать настройку: секрет и otpauth:// URI для QR-кода.
+ * Доступно вошедшему пользователю и промежуточной сессии 'enroll'.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await getTwoFactorEnrollmentActor(request)
+
+    if (!actor) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await twoFactorService.startEnrollment(actor.userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json({ secret: result.secret, otpauthUri: result.otpauthUri })
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to start enrollment', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 })
+  }
+}
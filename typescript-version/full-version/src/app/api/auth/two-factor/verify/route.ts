@@ -0,0 +1,110 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, twoFactorCodeSchema } from '@/lib/validations/two-factor-schemas'
+import logger from '@/lib/logger'
+import { trackLoginFailed, trackLoginSuccess, trackSessionCreated } from '@/lib/metrics/auth'
+import { rateLimitService } from '@/lib/rate-limit'
+import { twoFactorService } from '@/services/auth'
+import { eventService } from '@/services/events'
+import { enrichEventInputFromRequest } from '@/services/events/event-helpers'
+import { createSessionResponse, getTwoFactorCookie } from '@/utils/auth/two-factor'
+
+/**
+ * POST /api/auth/two-factor/verify
+ * Второй шаг входа: TOTP-код или код восстановления для промежуточной сессии 'verify'
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const pendingSession = await twoFactorService.getPendingSession(getTwoFactorCookie(request))
+
+    if (!pendingSession || pendingSession.twoFactorState !== 'verify') {
+      return NextResponse.json({ error: 'Two-factor session expired, sign in again' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = twoFactorCodeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { user } = pendingSession
+
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+
+    // Подбор кода ограничиваем тем же лимитом, что и подбор пароля
+    const rateLimitResult = await rateLimitService.checkLimit(user.id, 'auth', {
+      increment: true,
+      userId: user.id,
+      email: user.email ?? undefined,
+      ipAddress: clientIp
+    })
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = rateLimitResult.resetTime
+        ? Math.max(0, Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000))
+        : 0
+
+      return NextResponse.json(
+        { error: 'Too many attempts. Try again later.', retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const result = await twoFactorService.verifyCode(user.id, validation.data.code)
+
+    if (!result.success) {
+      trackLoginFailed('credentials')
+
+      await eventService.record({
+        source: 'auth',
+        type: 'login_failed',
+        severity: 'warning',
+        message: 'Login failed: invalid two-factor code',
+        actor: { type: 'user', id: user.id },
+        subject: { type: 'system', id: 'auth' },
+        key: user.email ?? user.id,
+        payload: {
+          userId: user.id,
+          ipAddress: clientIp,
+          reason: 'invalid_two_factor_code'
+        }
+      })
+
+      return NextResponse.json({ error: result.error }, { status: 401 })
+    }
+
+    await twoFactorService.deletePendingSession(pendingSession.id)
+
+    const { response } = await createSessionResponse(request, user)
+
+    trackLoginSuccess('credentials')
+    trackSessionCreated('credentials')
+
+    await eventService.record(enrichEventInputFromRequest(request, {
+      source: 'auth',
+      type: 'login_success',
+      severity: 'info',
+      message: 'User logged in successfully',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'system', id: 'auth' },
+      key: user.email ?? user.id,
+      payload: {
+        userId: user.id,
+        email: user.email,
+        ipAddress: clientIp,
+        role: user.role?.name,
+        twoFactorMethod: result.method
+      }
+    }))
+
+    return response
+  } catch (error) {
+    logger.error('[API:TwoFactor] Failed to verify code', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to verify two-factor code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * API: Chat attachment file
+ *
+ * GET /api/chat/attachments/[id]?variant=thumb - Файл вложения или его превью.
+ * Доступен участникам комнаты сообщения (до отправки - только загрузившему).
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { chatAttachmentService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const variant = request.nextUrl.searchParams.get('variant') || undefined
+    const file = await chatAttachmentService.read(id, user.id, variant)
+
+    if (!file) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    // Изображения показываются в чате, остальные файлы скачиваются
+    const disposition = file.mimeType.startsWith('image/') ? 'inline' : 'attachment'
+
+    return new NextResponse(new Uint8Array(file.buffer), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox"
+      }
+    })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to get attachment', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API: Chat attachments
+ *
+ * POST /api/chat/attachments - Загрузить вложение (multipart, поле file).
+ * Возвращённый id передаётся в attachmentIds при отправке сообщения.
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { chatAttachmentService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+      return NextResponse.json({ error: 'multipart/form-data expected' }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const result = await chatAttachmentService.upload(file, user.id)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ attachment: result.attachment }, { status: 201 })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to upload attachment', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
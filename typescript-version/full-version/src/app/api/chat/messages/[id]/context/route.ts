@@ -0,0 +1,53 @@
+/**
+ * API: Chat message context
+ *
+ * GET /api/chat/messages/[id]/context - Сообщение с соседними, для перехода к результату поиска
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { formatZodError, messageContextQuerySchema } from '@/lib/validations/chat-schemas'
+import { chatMessageService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = messageContextQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { id } = await params
+    const context = await chatMessageService.getMessageContext(id, user.id, validation.data.limit)
+
+    if (!context) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      roomId: context.roomId,
+      items: context.messages.map(message => ({ ...message, clientId: null })),
+      nextCursor: context.nextCursor,
+      hasNewer: context.hasNewer
+    })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to get message context', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API: Chat message edit history
+ *
+ * GET /api/chat/messages/[id]/history - Предыдущие версии сообщения (участникам комнаты)
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { chatMessageService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const edits = await chatMessageService.getEditHistory(id, user.id)
+
+    if (!edits) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ edits })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to get message edit history', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
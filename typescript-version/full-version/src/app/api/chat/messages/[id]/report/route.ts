@@ -0,0 +1,51 @@
+/**
+ * API: Chat message report
+ *
+ * POST /api/chat/messages/[id]/report - Жалоба участника комнаты на чужое сообщение
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { formatZodError, reportMessageSchema } from '@/lib/validations/chat-schemas'
+import { CHAT_MODERATION_ERRORS, chatModerationService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = reportMessageSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { id } = await params
+    const result = await chatModerationService.reportMessage(id, user.id, validation.data)
+
+    if (!result.success) {
+      const error = result.error ?? 'not_found'
+
+      return NextResponse.json({ error: CHAT_MODERATION_ERRORS[error] }, { status: error === 'not_found' ? 404 : 400 })
+    }
+
+    return NextResponse.json({ success: true, reportId: result.reportId })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to report message', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { requireAuth } from '@/utils/auth/auth'
 import type { UserWithRole } from '@/utils/permissions/permissions'
 
 import { rateLimitService } from '@/lib/rate-limit'
+import { buildRateLimitExceededResponse } from '@/lib/rate-limit/http/with-rate-limit'
 import logger from '@/lib/logger'
 import { getEnvironmentFromRequest } from '@/lib/metrics/helpers'
 
@@ -48,25 +49,7 @@ export async function POST(request: NextRequest) {
         blockedUntil: blockedUntilMs
       })
 
-      return NextResponse.json(
-        {
-          error: 'Rate limit exceeded',
-          blockedUntilMs,
-          retryAfterSec,
-          remaining: rateLimitResult.remaining,
-          // Legacy for compatibility
-          retryAfter: retryAfterSec,
-          blockedUntil: blockedUntilMs
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfterSec.toString(),
-            'X-RateLimit-Remaining': Math.max(0, rateLimitResult.remaining).toString(),
-            'X-RateLimit-Reset': blockedUntilMs.toString()
-          }
-        }
-      )
+      return buildRateLimitExceededResponse(CHAT_MODULE, { ...rateLimitResult, allowed: false, blockedUntil: blockedUntilMs })
     }
 
     if (!rateLimitResult.allowed && rateLimitResult.blockedUntil) {
@@ -4,6 +4,7 @@ import type { UserWithRole } from '@/utils/permissions/permissions'
 
 import { prisma } from '@/libs/prisma'
 import logger from '@/lib/logger'
+import { chatOfflineNotificationService } from '@/services/chat'
 
 
 export async function POST(request: NextRequest) {
@@ -34,6 +35,8 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await chatOfflineNotificationService.cancelPending(roomId, user.id)
+
     logger.info(`рџ“– Marked ${result.count} messages as read in room ${roomId}`)
 
     return NextResponse.json({
@@ -2,10 +2,16 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 
 import { requireAuth } from '@/utils/auth/auth'
-import { prisma } from '@/libs/prisma'
 import { rateLimitService } from '@/lib/rate-limit'
 import type { ChatMessage } from '@/lib/sockets/types/chat'
+import { attachmentIdsSchema, formatZodError } from '@/lib/validations/chat-schemas'
 import { getRequestIp } from '@/utils/http/get-request-ip'
+import {
+  chatMessageService,
+  chatModerationService,
+  chatOfflineNotificationService,
+  chatRoomService
+} from '@/services/chat'
 
 const DEFAULT_LIMIT = 30
 const MAX_LIMIT = 30
@@ -37,48 +43,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid cursor value' }, { status: 400 })
     }
 
-    const room = await prisma.chatRoom.findUnique({
-      where: { id: roomId },
-      select: { user1Id: true, user2Id: true }
-    })
-
-    if (!room || (room.user1Id !== user.id && room.user2Id !== user.id)) {
+    if (!(await chatRoomService.isMember(roomId, user.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const messages = await prisma.message.findMany({
-      where: {
-        roomId,
-        ...(cursorDate ? { createdAt: { lt: cursorDate } } : {})
-      },
-      include: {
-        sender: true
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit + 1
+    const { messages, nextCursor } = await chatMessageService.getRoomMessages(roomId, user.id, {
+      cursor: cursorDate,
+      limit
     })
 
-    const hasMore = messages.length > limit
-    const sliced = hasMore ? messages.slice(0, limit) : messages
-    const nextCursor = hasMore
-      ? sliced[sliced.length - 1]?.createdAt.toISOString()
-      : null
-
     return NextResponse.json({
-      items: sliced.reverse().map(message => ({
-        id: message.id,
-        content: message.content,
-        senderId: message.senderId,
-        sender: {
-          id: message.sender.id,
-          name: message.sender.name || undefined,
-          email: message.sender.email
-        },
-        roomId: message.roomId,
-        readAt: message.readAt ? message.readAt.toISOString() : null,
-        createdAt: message.createdAt.toISOString(),
-        clientId: null
-      })),
+      items: messages.map(message => ({ ...message, clientId: null })),
       nextCursor
     })
   } catch (error) {
@@ -131,50 +106,53 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json().catch(() => null)
-    const { roomId, message, clientId } = body || {}
+    const { roomId, message = '', clientId, replyToId, attachmentIds } = body || {}
 
-    if (!roomId || !message || typeof message !== 'string') {
+    // Текст может быть пустым, если есть вложения
+    if (!roomId || typeof message !== 'string' || (!message && !attachmentIds?.length)) {
       return NextResponse.json({ error: 'roomId and message are required' }, { status: 400 })
     }
 
-    const room = await prisma.chatRoom.findFirst({
-      where: {
-        id: roomId,
-        OR: [
-          { user1Id: user.id },
-          { user2Id: user.id }
-        ]
-      }
-    })
+    const attachments = attachmentIdsSchema.optional().safeParse(attachmentIds)
 
-    if (!room) {
+    if (!attachments.success) {
+      return NextResponse.json({ error: formatZodError(attachments.error) }, { status: 400 })
+    }
+
+    if (replyToId !== undefined && replyToId !== null && typeof replyToId !== 'string') {
+      return NextResponse.json({ error: 'replyToId must be a string' }, { status: 400 })
+    }
+
+    if (!(await chatRoomService.isMember(roomId, user.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const newMessage = await prisma.message.create({
-      data: {
-        content: message,
-        senderId: user.id,
-        roomId
-      },
-      include: {
-        sender: true
-      }
-    })
+    const screening = await chatModerationService.screenMessage({ senderId: user.id, roomId, content: message })
+
+    if (!screening.allowed) {
+      return NextResponse.json(
+        { error: screening.error, code: screening.code, mutedUntil: screening.mutedUntil ?? undefined },
+        { status: 403 }
+      )
+    }
 
-    const messagePayload: ChatMessage = {
-      id: newMessage.id,
-      content: newMessage.content,
-      senderId: newMessage.senderId,
-      sender: {
-        id: newMessage.sender.id,
-        name: newMessage.sender.name || undefined,
-        email: newMessage.sender.email || ''
-      },
-      roomId: newMessage.roomId,
-      readAt: newMessage.readAt?.toISOString(),
-      createdAt: newMessage.createdAt.toISOString(),
+    const result = await chatMessageService.createMessage({
+      roomId,
+      senderId: user.id,
+      content: message,
+      replyToId,
+      attachmentIds: attachments.data,
       clientId: clientId ?? undefined
+    })
+
+    if (!result.success || !result.message) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const messagePayload: ChatMessage = result.message
+
+    if (screening.verdict.action === 'flag') {
+      await chatModerationService.flagMessage(messagePayload, screening.verdict)
     }
 
     try {
@@ -186,6 +164,8 @@ export async function POST(request: NextRequest) {
       console.warn('[api/chat/messages] failed to emit via socket', error)
     }
 
+    await chatOfflineNotificationService.scheduleForMessage(messagePayload)
+
     return NextResponse.json({
       message: messagePayload,
       warning: rateLimitResult.warning || null,
@@ -0,0 +1,53 @@
+/**
+ * API: Chat room notifications
+ *
+ * PUT /api/chat/rooms/[id]/mute - Отключить (на durationMinutes или бессрочно) или включить уведомления комнаты
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { formatZodError, muteRoomSchema } from '@/lib/validations/chat-schemas'
+import { chatOfflineNotificationService, chatRoomService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = muteRoomSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { id } = await params
+    const room = await chatRoomService.setMuted(id, user.id, validation.data)
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+
+    if (validation.data.muted) {
+      await chatOfflineNotificationService.cancelPending(id, user.id, 'muted')
+    }
+
+    return NextResponse.json({ room })
+  } catch (error) {
+    logger.error('[API:Chat] Failed to update room notifications', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,26 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/utils/auth/auth'
 import { prisma } from '@/libs/prisma'
 import { rateLimitService } from '@/lib/rate-limit'
+import { chatMessageService, chatRoomService } from '@/services/chat'
+import { createRoomSchema, formatZodError } from '@/lib/validations/chat-schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rooms = await chatRoomService.getUserRooms(user.id)
+
+    return NextResponse.json({ rooms })
+  } catch (error) {
+    console.error('Failed to list rooms:', error)
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,9 +30,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { userId: otherUserId } = await request.json()
+    const validation = createRoomSchema.safeParse(await request.json().catch(() => null))
 
-    if (!otherUserId || otherUserId === user.id) {
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const input = validation.data
+
+    if (input.type !== 'group' && input.userId === user.id) {
       return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 })
     }
 
@@ -31,6 +57,35 @@ export async function POST(request: NextRequest) {
       }, { status: 429 })
     }
 
+    if (input.type === 'group') {
+      const result = await chatRoomService.createGroupRoom(user.id, input)
+
+      if (!result.success || !result.room) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      const room = result.room
+
+      // Подключенные участники сразу получают сообщения новой группы
+      try {
+        const chatNamespace = globalThis.io?.of('/chat')
+        const personalRooms = room.members.map(member => `user_${member.userId}`)
+
+        if (chatNamespace) {
+          chatNamespace.in(personalRooms).socketsJoin(`room_${room.id}`)
+          chatNamespace
+            .to(personalRooms.filter(personalRoom => personalRoom !== `user_${user.id}`))
+            .emit('addedToRoom', { room, actorId: user.id })
+        }
+      } catch (error) {
+        console.warn('[api/chat/rooms] failed to notify via socket', error)
+      }
+
+      return NextResponse.json({ room, messages: [], nextCursor: null }, { status: 201 })
+    }
+
+    const otherUserId = input.userId
+
     // Check if current user can access the other user
     const otherUser = await prisma.user.findUnique({
       where: { id: otherUserId },
@@ -41,60 +96,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
 
-    // Find existing room
-    let room = await prisma.chatRoom.findFirst({
-      where: {
-        OR: [
-          { user1Id: user.id, user2Id: otherUserId },
-          { user1Id: otherUserId, user2Id: user.id }
-        ]
-      }
-    })
-
-    // Create room if it doesn't exist
-    if (!room) {
-      room = await prisma.chatRoom.create({
-        data: {
-          user1Id: user.id,
-          user2Id: otherUserId
-        }
-      })
-    }
+    const room = await chatRoomService.getOrCreateDirectRoom(user.id, otherUserId)
 
     // Get recent messages
-    const messages = await prisma.message.findMany({
-      where: { roomId: room.id },
-      include: { sender: true },
-      orderBy: { createdAt: 'desc' },
-      take: 30
-    })
-
-    const normalizedMessages = messages
-      .map(msg => ({
-        id: msg.id,
-        content: msg.content,
-        senderId: msg.senderId,
-        sender: {
-          id: msg.sender.id,
-          name: msg.sender.name || undefined,
-          email: msg.sender.email
-        },
-        roomId: msg.roomId,
-        readAt: msg.readAt ? msg.readAt.toISOString() : undefined,
-        createdAt: msg.createdAt.toISOString()
-      }))
-      .reverse() // Reverse to chronological order
+    const { messages, nextCursor } = await chatMessageService.getRoomMessages(room.id, user.id, { limit: 30 })
 
     const roomData = {
-      room: {
-        id: room.id,
-        user1Id: room.user1Id,
-        user2Id: room.user2Id,
-        createdAt: room.createdAt.toISOString(),
-        updatedAt: room.updatedAt.toISOString()
-      },
-      messages: normalizedMessages,
-      nextCursor: messages.length === 30 ? messages[0]?.createdAt.toISOString() : null
+      room,
+      messages,
+      nextCursor
     }
 
     return NextResponse.json(roomData)
@@ -0,0 +1,40 @@
+/**
+ * API: Chat search
+ *
+ * GET /api/chat/search - Полнотекстовый поиск по сообщениям всех комнат пользователя
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { chatSearchQuerySchema, formatZodError } from '@/lib/validations/chat-schemas'
+import { chatSearchService } from '@/services/chat'
+import { requireAuth } from '@/utils/auth/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = chatSearchQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const { q, ...filters } = validation.data
+    const result = await chatSearchService.search(user.id, { query: q, ...filters })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:Chat] Failed to search messages', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,37 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/utils/auth/auth'
 import { prisma } from '@/libs/prisma'
+import { chatRoomService } from '@/services/chat'
 
 export async function GET(request: NextRequest) {
   try {
     const { user } = await requireAuth(request)
 
-    // Get user's chat rooms
-    const userRooms = await prisma.chatRoom.findMany({
-      where: {
-        OR: [
-          { user1Id: user.id },
-          { user2Id: user.id }
-        ]
-      }
-    })
+    // Unread messages per room (after the member's read cursor)
+    const unread = await chatRoomService.getUnreadByRoom(user.id)
 
     const unreadByContact: { [contactId: string]: number } = {}
+    const unreadByRoom: { [roomId: string]: number } = {}
 
-    // For each room, count unread messages from the other user
-    for (const room of userRooms) {
-      const otherUserId = room.user1Id === user.id ? room.user2Id : room.user1Id
+    for (const room of unread) {
+      if (room.count === 0) continue
 
-      const unreadCount = await prisma.message.count({
-        where: {
-          roomId: room.id,
-          senderId: otherUserId, // Messages from the other user
-          readAt: null // Not read yet
-        }
-      })
+      unreadByRoom[room.roomId] = room.count
 
-      if (unreadCount > 0) {
-        unreadByContact[otherUserId] = unreadCount
+      // Direct rooms are also keyed by the other user for the contact list
+      if (room.contactId) {
+        unreadByContact[room.contactId] = room.count
       }
     }
 
@@ -54,6 +43,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       unreadByContact,
+      unreadByRoom,
       userStatuses
     })
   } catch (error) {
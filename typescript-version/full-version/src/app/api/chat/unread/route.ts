@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { lucia } from '@/libs/lucia'
-import { prisma } from '@/libs/prisma'
+import { chatRoomService } from '@/services/chat'
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,23 +13,8 @@ export async function GET(request: NextRequest) {
 
     const userId = user.id
 
-    // Count unread messages for the current user
-    const unreadCount = await prisma.message.count({
-      where: {
-        AND: [
-          { senderId: { not: userId } }, // Messages not sent by current user
-          { readAt: null }, // Messages that haven't been read
-          {
-            room: {
-              OR: [
-                { user1Id: userId }, // User is user1 in the room
-                { user2Id: userId }  // User is user2 in the room
-              ]
-            }
-          }
-        ]
-      }
-    })
+    // Count unread messages after the member's read cursor in direct and group rooms
+    const unreadCount = await chatRoomService.getUnreadCount(userId)
 
     return NextResponse.json({ count: unreadCount })
   } catch (error) {
@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { exportService } from '@/services/export/ExportService'
 import { ExportFormat } from '@/types/export-import'
-import { rateLimitService } from '@/lib/rate-limit'
+import { withRateLimit } from '@/lib/rate-limit/http/with-rate-limit'
 import { requireAuth } from '@/utils/auth/auth'
-import { getRequestIp } from '@/utils/http/get-request-ip'
 import logger from '@/lib/logger'
 import { exportRequestSchema, exportParamsSchema, createValidationErrorResponse } from '@/schemas/export-import.schemas'
-import { getEnvironmentFromRequest } from '@/lib/metrics/helpers'
 
 /**
  * POST /api/export/[entity]
  * Экспортирует данные сущности в файл
  */
-export async function POST(
+async function exportEntity(
   request: NextRequest,
   { params }: { params: Promise<{ entity: string }> }
 ) {
@@ -31,53 +29,8 @@ export async function POST(
       )
     }
 
-    // Получаем пользователя и IP для rate limiting
+    // Лимит 'export' проверяет withRateLimit, пользователь нужен для записи событий
     const { user } = await requireAuth(request).catch(() => ({ user: null }))
-    const clientIp = getRequestIp(request)
-    const rateLimitKey = user?.id || clientIp || 'anonymous'
-    const keyType = user?.id ? 'user' : 'ip'
-
-    // Проверка rate limit через централизованную систему
-    const environment = getEnvironmentFromRequest(request) as 'production' | 'test' | undefined
-    const rateLimitResult = await rateLimitService.checkLimit(rateLimitKey, 'export', {
-      increment: true,
-      userId: user?.id ?? null,
-      email: user?.email ?? null,
-      ipAddress: clientIp,
-      keyType,
-      environment
-    })
-
-    if (!rateLimitResult.allowed) {
-      const blockedUntilMs = rateLimitResult.blockedUntil ?? rateLimitResult.resetTime
-      const retryAfterSec = Math.max(
-        1,
-        Math.ceil((blockedUntilMs - Date.now()) / 1000)
-      )
-
-      logger.warn('[export] Rate limit exceeded', {
-        key: rateLimitKey,
-        entity: resolvedParams.entity,
-        remaining: rateLimitResult.remaining
-      })
-
-      return NextResponse.json(
-        {
-          error: 'Too many export requests. Please try again later.',
-          blockedUntilMs,
-          retryAfterSec,
-          remaining: rateLimitResult.remaining
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfterSec.toString(),
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': blockedUntilMs.toString()
-          }
-        }
-      )
-    }
 
     // Получаем и валидируем тело запроса
     let requestBody
@@ -151,3 +104,8 @@ export async function POST(
     )
   }
 }
+
+export const POST = withRateLimit(
+  { module: 'export', key: 'user-or-ip', message: 'Too many export requests. Please try again later.' },
+  exportEntity
+)
@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { importService } from '@/services/import/ImportService'
-import { rateLimitService } from '@/lib/rate-limit'
+import { withRateLimit } from '@/lib/rate-limit/http/with-rate-limit'
 import { requireAuth } from '@/utils/auth/auth'
-import { getRequestIp } from '@/utils/http/get-request-ip'
 import logger from '@/lib/logger'
 import { importParamsSchema, importFormDataSchema, importFileSchema, createValidationErrorResponse } from '@/schemas/export-import.schemas'
-import { getEnvironmentFromRequest } from '@/lib/metrics/helpers'
 
 /**
  * POST /api/import/[entity]
  * Импортирует данные из файла
  */
-export async function POST(
+async function importEntity(
   request: NextRequest,
   { params }: { params: Promise<{ entity: string }> }
 ) {
@@ -30,53 +28,8 @@ export async function POST(
       )
     }
 
-    // Получаем пользователя и IP для rate limiting
+    // Лимит 'import' проверяет withRateLimit, пользователь нужен для записи событий
     const { user } = await requireAuth(request).catch(() => ({ user: null }))
-    const clientIp = getRequestIp(request)
-    const rateLimitKey = user?.id || clientIp || 'anonymous'
-    const keyType = user?.id ? 'user' : 'ip'
-
-    // Проверка rate limit через централизованную систему
-    const environment = getEnvironmentFromRequest(request) as 'production' | 'test' | undefined
-    const rateLimitResult = await rateLimitService.checkLimit(rateLimitKey, 'import', {
-      increment: true,
-      userId: user?.id ?? null,
-      email: user?.email ?? null,
-      ipAddress: clientIp,
-      keyType,
-      environment
-    })
-
-    if (!rateLimitResult.allowed) {
-      const blockedUntilMs = rateLimitResult.blockedUntil ?? rateLimitResult.resetTime
-      const retryAfterSec = Math.max(
-        1,
-        Math.ceil((blockedUntilMs - Date.now()) / 1000)
-      )
-
-      logger.warn('[import] Rate limit exceeded', {
-        key: rateLimitKey,
-        entity: resolvedParams.entity,
-        remaining: rateLimitResult.remaining
-      })
-
-      return NextResponse.json(
-        {
-          error: 'Too many import requests. Please try again later.',
-          blockedUntilMs,
-          retryAfterSec,
-          remaining: rateLimitResult.remaining
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfterSec.toString(),
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': blockedUntilMs.toString()
-          }
-        }
-      )
-    }
 
     // Получаем и валидируем FormData
     const formData = await request.formData()
@@ -145,3 +98,8 @@ export async function POST(
     )
   }
 }
+
+export const POST = withRateLimit(
+  { module: 'import', key: 'user-or-ip', message: 'Too many import requests. Please try again later.' },
+  importEntity
+)
@@ -0,0 +1,127 @@
+/**
+ * API: Listing images
+ *
+ * POST   /api/listings/[id]/images - Загрузить файл (multipart, поле file) или привязать медиа ({ mediaId })
+ * DELETE /api/listings/[id]/images?mediaId= - Удалить изображение
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { attachListingMediaSchema, formatZodError } from '@/lib/validations/listing-schemas'
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import type { ListingView } from '@/services/listings'
+import type { ListingState } from '@/services/workflows/machines/ListingMachine'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Изображения меняются в тех же состояниях, что и остальные поля
+const IMAGE_EDITABLE_STATES: ListingState[] = ['draft', 'pending', 'active', 'rejected']
+
+const getOwnListing = async (
+  request: NextRequest,
+  params: RouteParams['params']
+): Promise<{ userId: string; listing: ListingView } | NextResponse> => {
+  const { user } = await requireAuth(request)
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const listing = await listingService.getById(id)
+
+  if (!listing || listing.status === 'deleted') {
+    return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+  }
+
+  if (listing.ownerId !== user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  if (!IMAGE_EDITABLE_STATES.includes(listing.status)) {
+    return NextResponse.json({ error: `Listing in status '${listing.status}' cannot be edited` }, { status: 409 })
+  }
+
+  return { userId: user.id, listing }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const access = await getOwnListing(request, params)
+
+    if (access instanceof NextResponse) return access
+
+    const { userId, listing } = access
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+
+      const result = await listingService.uploadImage(listing.id, file, userId)
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      return NextResponse.json({ success: true, mediaId: result.media?.id, images: result.images }, { status: 201 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = attachListingMediaSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await listingService.attachMedia(listing.id, validation.data.mediaId, userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, images: result.images })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to add listing image', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to add listing image' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const access = await getOwnListing(request, params)
+
+    if (access instanceof NextResponse) return access
+
+    const mediaId = request.nextUrl.searchParams.get('mediaId')
+
+    if (!mediaId) {
+      return NextResponse.json({ error: 'mediaId is required' }, { status: 400 })
+    }
+
+    const result = await listingService.detachMedia(access.listing.id, mediaId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, images: result.images })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to delete listing image', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to delete listing image' }, { status: 500 })
+  }
+}
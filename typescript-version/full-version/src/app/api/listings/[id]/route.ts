@@ -0,0 +1,131 @@
+/**
+ * API: Listing
+ *
+ * GET    /api/listings/[id] - Объявление (active - публично, остальные - владельцу и модераторам)
+ * PATCH  /api/listings/[id] - Изменить объявление (владелец)
+ * DELETE /api/listings/[id] - Удалить объявление (владелец, переход DELETE)
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { formatZodError, updateListingSchema } from '@/lib/validations/listing-schemas'
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import { listingWorkflowService } from '@/services/workflows/ListingWorkflowService'
+import { optionalRequireAuth, requireAuth } from '@/utils/auth/auth'
+import { checkPermission } from '@/utils/permissions/permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const listing = await listingService.getById(id)
+
+    if (!listing || listing.status === 'deleted') {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    if (listing.status !== 'active') {
+      const { user } = await optionalRequireAuth(request)
+      const canView = user && (user.id === listing.ownerId || checkPermission(user, 'listingModeration', 'read'))
+
+      // Неопубликованное объявление для чужих выглядит как отсутствующее
+      if (!canView) {
+        return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ listing })
+    }
+
+    await listingService.incrementViews(id)
+
+    return NextResponse.json({ listing: { ...listing, viewsCount: listing.viewsCount + 1 } })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to get listing', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get listing' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const listing = await listingService.getById(id)
+
+    if (!listing || listing.status === 'deleted') {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    if (listing.ownerId !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = updateListingSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await listingService.update(id, user.id, validation.data)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, listing: result.listing })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to update listing', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to update listing' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const listing = await listingService.getById(id)
+
+    if (!listing || listing.status === 'deleted') {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    if (listing.ownerId !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await listingWorkflowService.transition({ listingId: id, event: 'DELETE', actorId: user.id })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to delete listing', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to delete listing' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+
+/**
+ * GET /api/listings/categories
+ * Активные категории объявлений (плоский список с parentId) для фильтров и формы
+ */
+export async function GET() {
+  try {
+    const categories = await listingService.getCategories()
+
+    return NextResponse.json({ categories })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to get categories', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get categories' }, { status: 500 })
+  }
+}
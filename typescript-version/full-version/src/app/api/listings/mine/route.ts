@@ -0,0 +1,44 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import { listingStateLabels } from '@/services/workflows/machines/ListingMachine'
+import type { ListingState } from '@/services/workflows/machines/ListingMachine'
+import { requireAuth } from '@/utils/auth/auth'
+
+/**
+ * GET /api/listings/mine
+ * Объявления текущего пользователя во всех статусах, кроме deleted (?status=draft&page=1&limit=20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+
+    if (status && !(status in listingStateLabels)) {
+      return NextResponse.json({ error: `Unknown status '${status}'` }, { status: 400 })
+    }
+
+    const result = await listingService.list({
+      ownerId: user.id,
+      status: (status as ListingState | null) ?? undefined,
+      page: Number(searchParams.get('page')) || 1,
+      limit: Number(searchParams.get('limit')) || 20
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:Listings] Failed to get own listings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get listings' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * API: Listings
+ *
+ * GET  /api/listings - Публичный поиск по опубликованным объявлениям
+ * POST /api/listings - Создать черновик объявления
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { withRateLimit } from '@/lib/rate-limit/http/with-rate-limit'
+import { createListingSchema, formatZodError, listingSearchSchema } from '@/lib/validations/listing-schemas'
+import logger from '@/lib/logger'
+import { listingService } from '@/services/listings'
+import { requireFullVerification } from '@/utils/verification'
+
+/**
+ * GET /api/listings
+ *
+ * Query: q, category (slug), categoryId, minPrice, maxPrice, currency, location,
+ * sort (newest | oldest | price_asc | price_desc), page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const validation = listingSearchSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const result = await listingService.search(validation.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('[API:Listings] Failed to search listings', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to search listings' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/listings
+ *
+ * Создаёт черновик. Требует полную верификацию (email + phone) и проходит лимит 'ads'.
+ */
+async function createListing(request: NextRequest) {
+  try {
+    const verificationCheck = await requireFullVerification(request)
+
+    if (!verificationCheck.allowed) {
+      return (
+        verificationCheck.response ||
+        NextResponse.json({ error: 'Full verification required (email and phone)' }, { status: 403 })
+      )
+    }
+
+    const { user } = verificationCheck
+
+    const body = await request.json().catch(() => null)
+    const validation = createListingSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const listing = await listingService.create(user.id, validation.data)
+
+    return NextResponse.json({ success: true, listing }, { status: 201 })
+  } catch (error) {
+    logger.error('[API:Listings] Failed to create listing', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to create listing' }, { status: 500 })
+  }
+}
+
+export const POST = withRateLimit(
+  { module: 'ads', key: 'user', message: 'Ad rate limit exceeded. Please try again later.' },
+  createListing
+)
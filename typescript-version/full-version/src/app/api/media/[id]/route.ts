@@ -53,7 +53,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       },
     })
 
-    if (!media) {
+    // Вложения чата отдаются только участникам комнаты через /api/chat/attachments
+    if (!media || media.entityType === 'chat_attachment') {
       return NextResponse.json(
         { error: 'Media not found' },
         { status: 404 }
@@ -52,6 +52,9 @@ export async function GET(request: NextRequest) {
       requirePhoneVerification: settings.requirePhoneVerification,
       requireEmailVerification: settings.requireEmailVerification,
       smsProvider: settings.smsProvider,
+      twoFactorRequiredRoleLevel: settings.twoFactorRequiredRoleLevel,
+      passwordlessEmailEnabled: settings.passwordlessEmailEnabled,
+      passwordlessSmsEnabled: settings.passwordlessSmsEnabled,
       updatedBy: settings.updatedBy,
       createdAt: settings.createdAt,
       updatedAt: settings.updatedAt
@@ -120,7 +123,13 @@ export async function PUT(request: NextRequest) {
       registrationMode: updateData.registrationMode ?? currentSettings.registrationMode,
       requirePhoneVerification: updateData.requirePhoneVerification ?? currentSettings.requirePhoneVerification,
       requireEmailVerification: updateData.requireEmailVerification ?? currentSettings.requireEmailVerification,
-      smsProvider: updateData.smsProvider ?? currentSettings.smsProvider
+      smsProvider: updateData.smsProvider ?? currentSettings.smsProvider,
+      twoFactorRequiredRoleLevel:
+        updateData.twoFactorRequiredRoleLevel !== undefined
+          ? updateData.twoFactorRequiredRoleLevel
+          : currentSettings.twoFactorRequiredRoleLevel,
+      passwordlessEmailEnabled: updateData.passwordlessEmailEnabled ?? currentSettings.passwordlessEmailEnabled,
+      passwordlessSmsEnabled: updateData.passwordlessSmsEnabled ?? currentSettings.passwordlessSmsEnabled
     }
 
     // Validate full settings
@@ -145,7 +154,10 @@ export async function PUT(request: NextRequest) {
         registrationMode: updatedSettings.registrationMode,
         requirePhoneVerification: updatedSettings.requirePhoneVerification,
         requireEmailVerification: updatedSettings.requireEmailVerification,
-        smsProvider: updatedSettings.smsProvider
+        smsProvider: updatedSettings.smsProvider,
+        twoFactorRequiredRoleLevel: updatedSettings.twoFactorRequiredRoleLevel,
+        passwordlessEmailEnabled: updatedSettings.passwordlessEmailEnabled,
+        passwordlessSmsEnabled: updatedSettings.passwordlessSmsEnabled
       },
       file: 'src/app/api/settings/registration/route.ts'
     })
@@ -156,6 +168,9 @@ export async function PUT(request: NextRequest) {
       requirePhoneVerification: updatedSettings.requirePhoneVerification,
       requireEmailVerification: updatedSettings.requireEmailVerification,
       smsProvider: updatedSettings.smsProvider,
+      twoFactorRequiredRoleLevel: updatedSettings.twoFactorRequiredRoleLevel,
+      passwordlessEmailEnabled: updatedSettings.passwordlessEmailEnabled,
+      passwordlessSmsEnabled: updatedSettings.passwordlessSmsEnabled,
       updatedBy: updatedSettings.updatedBy,
       createdAt: updatedSettings.createdAt,
       updatedAt: updatedSettings.updatedAt,
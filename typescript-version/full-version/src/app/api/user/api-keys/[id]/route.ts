@@ -0,0 +1,50 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { apiKeyService } from '@/services/auth'
+import { apiKeyRateLimitResponse } from '@/utils/auth/api-key'
+import { requireAuth } from '@/utils/auth/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * DELETE /api/user/api-keys/[id]
+ * Отозвать ключ (свой или ключ аккаунта, которым пользователь управляет)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session authentication required' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const result = await apiKeyService.revoke(user.id, id)
+
+    if (!result.success) {
+      const status = result.error === 'not_found' ? 404 : 409
+
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const rateLimited = await apiKeyRateLimitResponse(error)
+
+    if (rateLimited) return rateLimited
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[ApiKeys] Failed to revoke API key', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { apiKeyListQuerySchema, createApiKeySchema, formatZodError } from '@/lib/validations/api-key-schemas'
+import { apiKeyService } from '@/services/auth'
+import { apiKeyRateLimitResponse } from '@/utils/auth/api-key'
+import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
+
+const CREATE_ERROR_STATUS: Record<string, number> = {
+  scope_not_allowed: 400,
+  account_forbidden: 403
+}
+
+/**
+ * GET /api/user/api-keys?accountId=
+ * Ключи текущего пользователя (или аккаунта) и scopes, доступные для новых ключей
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    // Ключами управляют только из браузерной сессии: утёкший ключ не выпускает новые
+    if (!session) {
+      return NextResponse.json({ error: 'Session authentication required' }, { status: 403 })
+    }
+
+    const query = apiKeyListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!query.success) {
+      return NextResponse.json({ error: formatZodError(query.error) }, { status: 400 })
+    }
+
+    const keys = await apiKeyService.list(user.id, query.data.accountId)
+
+    if (!keys) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const availableScopes = await apiKeyService.getAvailableScopes(user)
+
+    return NextResponse.json({ keys, availableScopes })
+  } catch (error) {
+    const rateLimited = await apiKeyRateLimitResponse(error)
+
+    if (rateLimited) return rateLimited
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[ApiKeys] Failed to list API keys', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/user/api-keys
+ * Создать ключ. Полный ключ возвращается только в этом ответе.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session authentication required' }, { status: 403 })
+    }
+
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'api_key_create')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const body = await request.json().catch(() => null)
+    const validationResult = createApiKeySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json({ error: formatZodError(validationResult.error) }, { status: 400 })
+    }
+
+    const result = await apiKeyService.create(user, validationResult.data)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: CREATE_ERROR_STATUS[result.error as string] ?? 400 })
+    }
+
+    return NextResponse.json({ apiKey: result.apiKey, key: result.key }, { status: 201 })
+  } catch (error) {
+    const rateLimited = await apiKeyRateLimitResponse(error)
+
+    if (rateLimited) return rateLimited
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[ApiKeys] Failed to create API key', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
 import type { UserWithRole } from '@/utils/permissions/permissions'
 
 import { prisma } from '@/libs/prisma'
@@ -11,7 +12,7 @@ import { changePasswordSchema, formatZodError } from '@/lib/validations/user-sch
 
 export async function POST(request: NextRequest) {
   try {
-    const { user } = await requireAuth(request)
+    const { session, user } = await requireAuth(request)
 
     if (!user.id) {
       return NextResponse.json(
@@ -20,6 +21,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'password_change')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
     const body = await request.json()
     
     // Валидация данных
@@ -0,0 +1,48 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { oauthService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { rejectWhileImpersonating } from '@/utils/auth/impersonation'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * DELETE /api/user/connections/[id]
+ * Отвязать аккаунт провайдера от текущего пользователя
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { session, user } = await requireAuth(request)
+    const { id } = await params
+
+    const impersonationResponse = await rejectWhileImpersonating(request, session, 'oauth_unlink')
+
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const result = await oauthService.unlinkAccount(user.id, id)
+
+    if (!result.success) {
+      const status = result.error === 'not_found' ? 404 : 409
+
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[OAuth] Failed to unlink account', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { oauthService } from '@/services/auth'
+import { requireAuth } from '@/utils/auth/auth'
+
+/**
+ * GET /api/user/connections
+ * Провайдеры входа и привязанные к текущему пользователю аккаунты
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+    const connections = await oauthService.listConnections(user.id)
+
+    return NextResponse.json({ connections })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[OAuth] Failed to list connections', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
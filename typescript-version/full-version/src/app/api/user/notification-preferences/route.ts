@@ -0,0 +1,64 @@
+/**
+ * API предпочтений уведомлений текущего пользователя
+ *
+ * GET /api/user/notification-preferences - Настройки и матрица категория × канал
+ * PUT /api/user/notification-preferences - Сохранить настройки и/или предпочтения
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import {
+  formatZodError,
+  updateNotificationPreferencesSchema
+} from '@/lib/validations/notification-preference-schemas'
+import logger from '@/lib/logger'
+import { notificationPreferenceService } from '@/services/notifications/NotificationPreferenceService'
+import { requireAuth } from '@/utils/auth/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const preferences = await notificationPreferenceService.getPreferences(user.id)
+
+    return NextResponse.json(preferences)
+  } catch (error) {
+    logger.error('[API:NotificationPreferences] Failed to get preferences', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to get notification preferences' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request)
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = updateNotificationPreferencesSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({ error: formatZodError(validation.error) }, { status: 400 })
+    }
+
+    const preferences = await notificationPreferenceService.updatePreferences(user.id, validation.data)
+
+    return NextResponse.json(preferences)
+  } catch (error) {
+    logger.error('[API:NotificationPreferences] Failed to update preferences', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Failed to update notification preferences' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { sessionService } from '@/services/auth'
+import { apiKeyRateLimitResponse } from '@/utils/auth/api-key'
+import { requireAuth } from '@/utils/auth/auth'
+
+/**
+ * GET /api/user/sessions
+ * Активные сессии текущего пользователя (устройство, IP, последняя активность)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    // Сессиями управляют из браузера: по API-ключу сессии нет
+    if (!session) {
+      return NextResponse.json({ error: 'Session authentication required' }, { status: 403 })
+    }
+
+    const sessions = await sessionService.listUserSessions(user.id, session.id)
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    const rateLimited = await apiKeyRateLimitResponse(error)
+
+    if (rateLimited) return rateLimited
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[Sessions] Failed to list sessions', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/user/sessions
+ * Завершить все сессии, кроме текущей
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, user } = await requireAuth(request)
+
+    // Сессиями управляют из браузера: по API-ключу сессии нет
+    if (!session) {
+      return NextResponse.json({ error: 'Session authentication required' }, { status: 403 })
+    }
+
+    const result = await sessionService.revokeOtherSessions(user.id, session.id)
+
+    return NextResponse.json({ success: true, revoked: result.revoked ?? 0 })
+  } catch (error) {
+    const rateLimited = await apiKeyRateLimitResponse(error)
+
+    if (rateLimited) return rateLimited
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    logger.error('[Sessions] Failed to revoke other sessions', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
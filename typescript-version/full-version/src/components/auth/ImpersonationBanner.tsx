@@ -0,0 +1,84 @@
+'use client'
+
+// React Imports
+import { useState } from 'react'
+
+// Next Imports
+import { useParams } from 'next/navigation'
+
+// MUI Imports
+import Alert from '@mui/material/Alert'
+import Button from '@mui/material/Button'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Context Imports
+import { useAuth } from '@/contexts/AuthProvider'
+import { useTranslation } from '@/contexts/TranslationContext'
+
+// Util Imports
+import { getLocalizedUrl } from '@/utils/formatting/i18n'
+
+/**
+ * Баннер режима «вход под пользователем»: виден на всех страницах, пока суперадмин
+ * работает от имени пользователя, и возвращает его в свой аккаунт
+ */
+const ImpersonationBanner = () => {
+  // Hooks
+  const { user, session } = useAuth()
+  const dictionary = useTranslation()
+  const { lang } = useParams()
+
+  // States
+  const [loading, setLoading] = useState(false)
+
+  const impersonation = session?.impersonation
+
+  if (!user || !impersonation) return null
+
+  const locale = typeof lang === 'string' ? lang : 'en'
+
+  const handleReturn = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/impersonation/stop', { method: 'POST', credentials: 'include' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to return to your account')
+      }
+
+      // Полная перезагрузка - сессия, права и сокеты снова администратора
+      window.location.href = data.restored
+        ? getLocalizedUrl(`/apps/user/view?id=${user.id}`, locale)
+        : getLocalizedUrl('/login', locale)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+      setLoading(false)
+    }
+  }
+
+  const text = (dictionary?.navigation?.impersonationBanner || 'You are signed in as ${name} on behalf of ${admin}.')
+    .replace('${name}', user.name || user.email)
+    .replace('${admin}', impersonation.impersonator.name || impersonation.impersonator.email || '')
+
+  return (
+    <Alert
+      severity='warning'
+      variant='filled'
+      icon={<i className='ri-spy-line' />}
+      className='sticky top-0 z-[1300] rounded-none'
+      action={
+        <Button color='inherit' size='small' variant='outlined' onClick={handleReturn} disabled={loading}>
+          {dictionary?.navigation?.impersonationReturn || 'Return to my account'}
+        </Button>
+      }
+    >
+      {text}
+    </Alert>
+  )
+}
+
+export default ImpersonationBanner
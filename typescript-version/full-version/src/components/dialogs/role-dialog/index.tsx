@@ -57,6 +57,8 @@ const defaultData: string[] = [
   'emailTemplatesManagement',
   'smtpManagement',
   'notificationScenarios',
+  'rulesManagement',
+  'listingModeration',
   'rateLimitManagement',
   'blocking',
   'maintenance',
@@ -77,6 +79,8 @@ const permissionIds = {
   emailTemplatesManagement: 'emailTemplatesManagement',
   smtpManagement: 'smtpManagement',
   notificationScenarios: 'notificationScenarios',
+  rulesManagement: 'rulesManagement',
+  listingModeration: 'listingModeration',
   rateLimitManagement: 'rateLimitManagement',
   blocking: 'blocking',
   maintenance: 'maintenance',
@@ -1,242 +1,194 @@
 'use client'
 
 // React Imports
-import { useState } from 'react'
-import type { ChangeEvent } from 'react'
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
 
 // MUI Imports
 import Dialog from '@mui/material/Dialog'
 import DialogTitle from '@mui/material/DialogTitle'
 import DialogActions from '@mui/material/DialogActions'
 import DialogContent from '@mui/material/DialogContent'
-import Grid from '@mui/material/Grid2'
 import Button from '@mui/material/Button'
 import Typography from '@mui/material/Typography'
 import IconButton from '@mui/material/IconButton'
 import TextField from '@mui/material/TextField'
 import Alert from '@mui/material/Alert'
 import AlertTitle from '@mui/material/AlertTitle'
-
-// Type Imports
-import type { CustomInputHorizontalData } from '@core/components/custom-inputs/types'
-
-// Component Imports
-import CustomInputHorizontal from '@core/components/custom-inputs/Horizontal'
-import DirectionalIcon from '@components/DirectionalIcon'
+import CircularProgress from '@mui/material/CircularProgress'
 
 type TwoFactorAuthProps = {
   open: boolean
   setOpen: (open: boolean) => void
+  onEnabled?: () => void
 }
 
-// Vars
-const data: CustomInputHorizontalData[] = [
-  {
-    title: (
-      <div className='flex items-center gap-1'>
-        <i className='ri-settings-3-line text-textPrimary text-xl' />
-        <Typography className='font-medium' color='text.primary'>
-          Authenticator Apps
-        </Typography>
-      </div>
-    ),
-    value: 'app',
-    isSelected: true,
-    content: 'Get code from an app like Google Authenticator or Microsoft Authenticator.'
-  },
-  {
-    title: (
-      <div className='flex items-center gap-1'>
-        <i className='ri-wechat-line text-textPrimary text-xl' />
-        <Typography className='font-medium' color='text.primary'>
-          SMS
-        </Typography>
-      </div>
-    ),
-    value: 'sms',
-    content: 'We will send a code via SMS if you need to use your backup login method.'
-  }
-]
-
-const SMSDialog = (handleAuthDialogClose: () => void) => {
-  return (
-    <>
-      <DialogTitle variant='h5' className='flex flex-col items-start gap-2 sm:pbs-16 sm:pbe-6 sm:pli-16'>
-        <div className='max-sm:is-[80%]'>Verify Your Mobile Number for SMS</div>
-        <Typography component='span' className='flex flex-col'>
-          Enter your mobile phone number with country code and we will send you a verification code.
-        </Typography>
-      </DialogTitle>
-      <DialogContent className='overflow-visible pbs-0 sm:pbe-6 sm:pli-16'>
-        <IconButton className='absolute block-start-4 inline-end-4' onClick={handleAuthDialogClose}>
-          <i className='ri-close-line text-textSecondary' />
-        </IconButton>
-
-        <TextField fullWidth type='number' label='Mobile Number' placeholder='123 456 7890' />
-      </DialogContent>
-      <DialogActions className='pbs-0 sm:pbe-16 sm:pli-16'>
-        <Button variant='outlined' type='reset' color='secondary' onClick={handleAuthDialogClose}>
-          Cancel
-        </Button>
-        <Button
-          color='success'
-          variant='contained'
-          type='submit'
-          endIcon={<i className='ri-check-line' />}
-          onClick={handleAuthDialogClose}
-        >
-          Submit
-        </Button>
-      </DialogActions>
-    </>
-  )
-}
-
-const AppDialog = (handleAuthDialogClose: () => void) => {
-  return (
-    <>
-      <DialogTitle variant='h4' className='flex justify-center sm:pbs-16 sm:pbe-6 sm:pli-16'>
-        <div className='max-sm:is-[80%] max-sm:text-center'>Add Authenticator App</div>
-      </DialogTitle>
-      <DialogContent className='flex flex-col gap-6 pbs-0 sm:pbe-6 sm:pli-16'>
-        <IconButton className='absolute block-start-4 inline-end-4' onClick={handleAuthDialogClose}>
-          <i className='ri-close-line text-textSecondary' />
-        </IconButton>
-        <div className='flex flex-col gap-2'>
-          <Typography variant='h5'>Authenticator Apps</Typography>
-          <Typography>
-            Using an authenticator app like Google Authenticator, Microsoft Authenticator, Authy, or 1Password, scan the
-            QR code. It will generate a 6 digit code for you to enter below.
-          </Typography>
-        </div>
-        <div className='flex justify-center'>
-          <img alt='qr-code' src='/images/misc/barcode.png' width={150} />
-        </div>
-        <div className='flex flex-col gap-4'>
-          <Alert severity='warning' icon={false}>
-            <AlertTitle>ASDLKNASDA9AHS678dGhASD78AB</AlertTitle>
-            If you having trouble using the QR code, select manual entry on your app
-          </Alert>
-          <TextField fullWidth label='Enter Authentication Code' placeholder='Enter Authentication Code' />
-        </div>
-      </DialogContent>
-      <DialogActions className='pbs-0 sm:pbe-16 sm:pli-16'>
-        <Button variant='outlined' type='reset' color='secondary' onClick={handleAuthDialogClose}>
-          Cancel
-        </Button>
-        <Button
-          color='success'
-          variant='contained'
-          type='submit'
-          endIcon={<i className='ri-check-line' />}
-          onClick={handleAuthDialogClose}
-        >
-          Submit
-        </Button>
-      </DialogActions>
-    </>
-  )
+type Enrollment = {
+  secret: string
+  otpauthUri: string
 }
 
-const TwoFactorAuth = ({ open, setOpen }: TwoFactorAuthProps) => {
-  // Vars
-  const initialSelectedOption: string = data.filter(item => item.isSelected)[
-    data.filter(item => item.isSelected).length - 1
-  ].value
-
+const TwoFactorAuth = ({ open, setOpen, onEnabled }: TwoFactorAuthProps) => {
   // States
-  const [authType, setAuthType] = useState<string>(initialSelectedOption)
-  const [showAuthDialog, setShowAuthDialog] = useState<boolean>(false)
-
-  const handleClose = () => {
-    setOpen(false)
-
-    if (authType !== 'app') {
-      setAuthType('app')
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Новый секрет при каждом открытии - незавершённая настройка не сохраняется
+  useEffect(() => {
+    if (!open) return
+
+    const startEnrollment = async () => {
+      setLoading(true)
+
+      try {
+        const response = await fetch('/api/auth/two-factor/setup', { method: 'POST' })
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(data?.error || 'Failed to start two-factor setup')
+        }
+
+        setEnrollment(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setLoading(false)
+      }
     }
-  }
 
-  const handleAuthDialogClose = () => {
-    setShowAuthDialog(false)
-    setShowAuthDialog(false)
+    startEnrollment()
+  }, [open])
 
-    if (authType !== 'app') {
-      setTimeout(() => {
-        setAuthType('app')
-      }, 250)
+  const handleClose = () => {
+    // Статус обновляем после закрытия, чтобы коды восстановления успели показать
+    if (recoveryCodes) {
+      onEnabled?.()
     }
+
+    setOpen(false)
+    setEnrollment(null)
+    setRecoveryCodes(null)
+    setCode('')
+    setError(null)
   }
 
-  const handleOptionChange = (prop: string | ChangeEvent<HTMLInputElement>) => {
-    if (typeof prop === 'string') {
-      setAuthType(prop)
-    } else {
-      setAuthType((prop.target as HTMLInputElement).value)
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/two-factor/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Invalid code')
+      }
+
+      setRecoveryCodes(data.recoveryCodes || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
     }
   }
 
   return (
-    <>
-      <Dialog
-        fullWidth
-        maxWidth='md'
-        scroll='body'
-        open={open}
-        onClose={() => setOpen(false)}
-        closeAfterTransition={false}
-      >
-        <DialogTitle variant='h4' className='flex gap-2 flex-col items-center sm:pbs-16 sm:pbe-6 sm:pli-16'>
-          <div className='max-sm:is-[80%] max-sm:text-center'>Select Authentication Method</div>
-          <Typography component='span' className='flex flex-col text-center'>
-            You also need to select a method by which the proxy authenticates to the directory serve.
-          </Typography>
-        </DialogTitle>
-        <DialogContent className='pbs-0 sm:pli-16'>
-          <IconButton onClick={handleClose} className='absolute block-start-4 inline-end-4'>
-            <i className='ri-close-line text-textSecondary' />
-          </IconButton>
-          <Grid container spacing={6}>
-            {data.map((item, index) => (
-              <CustomInputHorizontal
-                key={index}
-                type='radio'
-                selected={authType}
-                handleChange={handleOptionChange}
-                data={item}
-                gridProps={{ size: { xs: 12 } }}
-                name='auth-method'
-              />
-            ))}
-          </Grid>
-        </DialogContent>
-        <DialogActions className='pbs-0 sm:pbe-16 sm:pli-16'>
-          <Button
-            variant='contained'
-            endIcon={<DirectionalIcon ltrIconClass='ri-arrow-right-line' rtlIconClass='ri-arrow-left-line' />}
-            onClick={() => {
-              setOpen(false)
-              setShowAuthDialog(true)
-            }}
-            className='capitalize'
-          >
-            Continue
-          </Button>
-        </DialogActions>
-      </Dialog>
-
-      <Dialog
-        fullWidth
-        maxWidth='md'
-        scroll='body'
-        open={showAuthDialog}
-        onClose={handleAuthDialogClose}
-        closeAfterTransition={false}
-      >
-        <form onSubmit={e => e.preventDefault()}>
-          {authType === 'sms' ? SMSDialog(handleAuthDialogClose) : AppDialog(handleAuthDialogClose)}
+    <Dialog fullWidth maxWidth='md' scroll='body' open={open} onClose={handleClose} closeAfterTransition={false}>
+      <IconButton className='absolute block-start-4 inline-end-4' onClick={handleClose}>
+        <i className='ri-close-line text-textSecondary' />
+      </IconButton>
+      {recoveryCodes ? (
+        <>
+          <DialogTitle variant='h4' className='flex justify-center sm:pbs-16 sm:pbe-6 sm:pli-16'>
+            <div className='max-sm:is-[80%] max-sm:text-center'>Save Your Recovery Codes</div>
+          </DialogTitle>
+          <DialogContent className='flex flex-col gap-6 pbs-0 sm:pbe-6 sm:pli-16'>
+            <Typography>
+              Each code can be used once to sign in if you lose access to your authenticator app. They will not be shown
+              again.
+            </Typography>
+            <Alert severity='warning' icon={false}>
+              <div className='grid grid-cols-2 gap-x-6 gap-y-1 font-mono'>
+                {recoveryCodes.map(recoveryCode => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+            </Alert>
+          </DialogContent>
+          <DialogActions className='pbs-0 sm:pbe-16 sm:pli-16'>
+            <Button variant='contained' onClick={handleClose} endIcon={<i className='ri-check-line' />}>
+              Done
+            </Button>
+          </DialogActions>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <DialogTitle variant='h4' className='flex justify-center sm:pbs-16 sm:pbe-6 sm:pli-16'>
+            <div className='max-sm:is-[80%] max-sm:text-center'>Add Authenticator App</div>
+          </DialogTitle>
+          <DialogContent className='flex flex-col gap-6 pbs-0 sm:pbe-6 sm:pli-16'>
+            <div className='flex flex-col gap-2'>
+              <Typography variant='h5'>Authenticator Apps</Typography>
+              <Typography>
+                Using an authenticator app like Google Authenticator, Microsoft Authenticator, Authy, or 1Password, add
+                the key below. It will generate a 6 digit code for you to enter below.
+              </Typography>
+            </div>
+            {enrollment ? (
+              <Alert severity='warning' icon={false}>
+                <AlertTitle className='font-mono break-all'>{enrollment.secret}</AlertTitle>
+                <Typography component='a' href={enrollment.otpauthUri} color='primary.main'>
+                  Open in authenticator app
+                </Typography>
+                {' '}or select manual entry in your app and enter the key above.
+              </Alert>
+            ) : (
+              loading && (
+                <div className='flex justify-center'>
+                  <CircularProgress />
+                </div>
+              )
+            )}
+            <TextField
+              fullWidth
+              label='Enter Authentication Code'
+              placeholder='123456'
+              value={code}
+              onChange={e => {
+                setCode(e.target.value)
+                error !== null && setError(null)
+              }}
+              disabled={!enrollment || loading}
+              slotProps={{ htmlInput: { autoComplete: 'one-time-code', inputMode: 'numeric' } }}
+              {...(error && { error: true, helperText: error })}
+            />
+          </DialogContent>
+          <DialogActions className='pbs-0 sm:pbe-16 sm:pli-16'>
+            <Button variant='outlined' type='reset' color='secondary' onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              color='success'
+              variant='contained'
+              type='submit'
+              disabled={!enrollment || loading || !code.trim()}
+              endIcon={<i className='ri-check-line' />}
+            >
+              Submit
+            </Button>
+          </DialogActions>
         </form>
-      </Dialog>
-    </>
+      )}
+    </Dialog>
   )
 }
 
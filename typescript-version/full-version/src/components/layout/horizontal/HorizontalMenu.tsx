@@ -227,6 +227,9 @@ const HorizontalMenu = ({ dictionary, locale: propLocale }: HorizontalMenuProps)
           <MenuItem href={`/${locale}/admin/rate-limits/events`} icon={<i className='ri-line-chart-line' />}>
             {dictionary['navigation'].rateLimitEvents}
           </MenuItem>
+          <MenuItem href={`/${locale}/admin/rate-limits/coverage`} icon={<i className='ri-shield-star-line' />}>
+            {dictionary['navigation'].rateLimitCoverage}
+          </MenuItem>
           <MenuItem href={`/${locale}/admin/blocks`} icon={<i className='ri-shield-check-line' />}>
             {dictionary['navigation'].blocking}
           </MenuItem>
@@ -189,10 +189,25 @@ const VerticalMenu = ({ dictionary, scrollMenu }: Props) => {
             <MenuItem href={`/${locale}/admin/notifications/executions`}>
               {dictionary['navigation'].notificationsExecutions || 'История'}
             </MenuItem>
+            <MenuItem href={`/${locale}/admin/notifications/webhooks`}>
+              {dictionary['navigation'].notificationWebhooks || 'Вебхуки'}
+            </MenuItem>
           </SubMenu>
+          <MenuItem href={`/${locale}/admin/rules`} icon={<i className='ri-git-branch-line' />}>
+            {dictionary['navigation'].businessRules || 'Бизнес-правила'}
+          </MenuItem>
+          <MenuItem href={`/${locale}/admin/listings/moderation`} icon={<i className='ri-shield-check-line' />}>
+            {dictionary['navigation'].listingModerationQueue || 'Модерация объявлений'}
+          </MenuItem>
+          <MenuItem href={`/${locale}/admin/chat/moderation`} icon={<i className='ri-chat-delete-line' />}>
+            {dictionary['navigation'].chatModerationQueue || 'Модерация чата'}
+          </MenuItem>
           <MenuItem href={`/${locale}/admin/settings/services`} icon={<i className='ri-server-line' />}>
             {dictionary['navigation'].externalServices || 'External Services'}
           </MenuItem>
+          <MenuItem href={`/${locale}/admin/settings/oauth`} icon={<i className='ri-key-2-line' />}>
+            {dictionary['navigation'].oauthProviders || 'Sign-in Providers'}
+          </MenuItem>
         </MenuSection>
 <MenuSection label={dictionary['navigation'].monitoring}>
           <MenuItem href={`/${locale}/admin/monitoring/dashboard`} icon={<i className='ri-dashboard-line' />}>
@@ -242,6 +257,9 @@ const VerticalMenu = ({ dictionary, scrollMenu }: Props) => {
           <MenuItem href={`/${locale}/admin/rate-limits/events`} icon={<i className='ri-line-chart-line' />}>
             {dictionary['navigation'].rateLimitEvents}
           </MenuItem>
+          <MenuItem href={`/${locale}/admin/rate-limits/coverage`} icon={<i className='ri-shield-star-line' />}>
+            {dictionary['navigation'].rateLimitCoverage}
+          </MenuItem>
           <MenuItem href={`/${locale}/admin/blocks`} icon={<i className='ri-shield-check-line' />}>
             {dictionary['navigation'].blocking}
           </MenuItem>
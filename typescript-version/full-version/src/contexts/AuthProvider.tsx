@@ -18,15 +18,27 @@ export interface User {
   role: UserRole
 }
 
+// Суперадмин вошёл под пользователем (см. /api/admin/users/[id]/impersonate)
+export interface ImpersonationInfo {
+  impersonator: { id: string; email: string | null; name: string | null }
+  startedAt: string | null
+  expiresAt: string | null
+}
+
 export interface SessionInfo {
   user: Pick<User, 'id' | 'email' | 'name' | 'image'>
+  impersonation?: ImpersonationInfo | null
 }
 
+// Пароль принят, но вход ждёт второй фактор ('verify') или настройку 2FA ('enroll')
+export type LoginResult = { twoFactorRequired: false } | { twoFactorRequired: true; twoFactorState: 'verify' | 'enroll' }
+
 interface AuthContextType {
   user: User | null
   session: SessionInfo | null
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<LoginResult>
+  verifyTwoFactor: (code: string) => Promise<void>
   logout: () => Promise<void>
   refreshSession: () => Promise<void>
 }
@@ -89,7 +101,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     logger.info('🔐 [AUTH] Attempting login for:', { email })
 
     const response = await fetch('/api/auth/login', {
@@ -152,10 +164,45 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     const data = await response.json()
+
+    if (data.twoFactorRequired) {
+      logger.info('🔐 [AUTH] Second factor required for:', { email, state: data.twoFactorState })
+
+      return { twoFactorRequired: true, twoFactorState: data.twoFactorState }
+    }
+
     logger.info('✅ [AUTH] Login successful for:', { email: data.user?.email })
 
     setUser(data.user)
     setSession(data.session)
+
+    return { twoFactorRequired: false }
+  }
+
+  const verifyTwoFactor = async (code: string) => {
+    const response = await fetch('/api/auth/two-factor/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ code })
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      const verifyError: RateLimitError = new Error(data?.error || 'Verification failed')
+
+      if (response.status === 429 && data?.retryAfter) {
+        verifyError.retryAfter = data.retryAfter
+      }
+
+      throw verifyError
+    }
+
+    logger.info('✅ [AUTH] Two-factor verification successful for:', { email: data.user?.email })
+
+    setUser(data.user)
+    setSession(data.session)
   }
 
   const logout = async () => {
@@ -192,6 +239,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       session,
       isLoading,
       login,
+      verifyTwoFactor,
       logout,
       refreshSession
     }}>
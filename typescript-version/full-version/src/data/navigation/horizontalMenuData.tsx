@@ -185,6 +185,11 @@ const horizontalMenuData = (dictionary: Awaited<ReturnType<typeof getDictionary>
         icon: 'ri-server-line',
         href: '/admin/settings/services'
       },
+      {
+        label: dictionary['navigation'].oauthProviders || 'Sign-in Providers',
+        icon: 'ri-key-2-line',
+        href: '/admin/settings/oauth'
+      },
       {
         label: dictionary['navigation'].webScraper || 'Web Scraper',
         icon: 'ri-fire-line',
@@ -272,6 +277,11 @@ const horizontalMenuData = (dictionary: Awaited<ReturnType<typeof getDictionary>
         icon: 'ri-line-chart-line',
         href: '/admin/rate-limits/events'
       },
+      {
+        label: dictionary['navigation'].rateLimitCoverage,
+        icon: 'ri-shield-star-line',
+        href: '/admin/rate-limits/coverage'
+      },
       {
         label: dictionary['navigation'].blocking,
         icon: 'ri-shield-check-line',
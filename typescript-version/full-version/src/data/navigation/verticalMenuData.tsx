@@ -235,11 +235,31 @@ const verticalMenuData = (dictionary: Awaited<ReturnType<typeof getDictionary>>)
         icon: 'ri-flow-chart',
         href: '/admin/notifications/scenarios'
       },
+      {
+        label: dictionary['navigation'].businessRules || 'Business Rules',
+        icon: 'ri-git-branch-line',
+        href: '/admin/rules'
+      },
+      {
+        label: dictionary['navigation'].listingModerationQueue || 'Listing Moderation',
+        icon: 'ri-shield-check-line',
+        href: '/admin/listings/moderation'
+      },
+      {
+        label: dictionary['navigation'].chatModerationQueue || 'Chat Moderation',
+        icon: 'ri-chat-delete-line',
+        href: '/admin/chat/moderation'
+      },
       {
         label: dictionary['navigation'].externalServices || 'External Services',
         icon: 'ri-server-line',
         href: '/admin/settings/services'
       },
+      {
+        label: dictionary['navigation'].oauthProviders || 'Sign-in Providers',
+        icon: 'ri-key-2-line',
+        href: '/admin/settings/oauth'
+      },
       {
         label: dictionary['navigation'].webScraper || 'Web Scraper',
         icon: 'ri-fire-line',
@@ -330,6 +350,11 @@ const verticalMenuData = (dictionary: Awaited<ReturnType<typeof getDictionary>>)
         icon: 'ri-line-chart-line',
         href: '/admin/rate-limits/events'
       },
+      {
+        label: dictionary['navigation'].rateLimitCoverage,
+        icon: 'ri-shield-star-line',
+        href: '/admin/rate-limits/coverage'
+      },
       {
         label: dictionary['navigation'].blocking,
         icon: 'ri-shield-check-line',
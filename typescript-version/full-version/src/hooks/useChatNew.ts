@@ -3,7 +3,20 @@ import { useAuth } from '@/contexts/AuthProvider'
 import { useDispatch, useSelector } from 'react-redux'
 import { sendMsg } from '@/redux-store/slices/chat'
 import { useSockets } from '@/contexts/SocketProvider'
-import type { ChatMessage, ChatRoom } from '@/lib/sockets/types/chat'
+import type {
+  ChatEvents,
+  ChatMessage,
+  ChatMessageAttachment,
+  ChatMessageDeleteScope,
+  ChatMessageEdit,
+  ChatModerationAction,
+  ChatReportReason,
+  ChatRoom,
+  MessageActionAck,
+  MessageDeletedData,
+  ReactionsUpdatedData,
+  UserTypingData
+} from '@/lib/sockets/types/chat'
 import { normalizeMessageContent } from '@/utils/chat/normalizeMessageContent'
 import { toast } from 'react-toastify'
 import { useTranslation } from '@/contexts/TranslationContext'
@@ -30,6 +43,21 @@ type SendMessageAck = {
   blockedUntil?: number
 }
 
+type SendPayload = {
+  roomId: string
+  message: string
+  senderId: string
+  clientId: string
+  replyToId?: string
+  attachmentIds?: string[]
+}
+
+// Индикатор набора гаснет, если собеседник перестал присылать typing
+const TYPING_TIMEOUT_MS = 5000
+
+// Как часто повторять typing: true, пока пользователь печатает
+const TYPING_THROTTLE_MS = 3000
+
 const generateClientId = () => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID()
@@ -54,12 +82,20 @@ export const useChatNew = (otherUserId?: string) => {
   const [historyLoading, setHistoryLoading] = useState(false)
   const [hasMoreHistory, setHasMoreHistory] = useState(false)
   const [historyCursor, setHistoryCursor] = useState<string | null>(null)
+
+  // Переход к сообщению из поиска: лента - окно вокруг него, новее окна есть ещё сообщения
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
+  const [hasNewerMessages, setHasNewerMessages] = useState(false)
+  const [pendingJump, setPendingJump] = useState<{ roomId: string; messageId: string } | null>(null)
   const [rateLimitData, setRateLimitData] = useState<{ retryAfter: number; blockedUntil: number } | null>(null)
   const [currentOtherUserId, setCurrentOtherUserId] = useState<string | undefined>(otherUserId)
   const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine)
+  const [typingEntries, setTypingEntries] = useState<Record<string, UserTypingData>>({})
 
   const historyFetchAbort = useRef<AbortController | null>(null)
   const warningToastRemaining = useRef<number | null>(null)
+  const typingTimeouts = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map())
+  const lastTypingEmit = useRef<{ roomId: string; at: number } | null>(null)
 
   useEffect(() => {
     if (!rateLimitData) {
@@ -240,6 +276,29 @@ export const useChatNew = (otherUserId?: string) => {
     })
   }, [mergeMessages, normalizeMessage])
 
+  // Превью ответов на изменённое или удалённое сообщение
+  const updateReplyPreviews = useCallback((messageId: string, patch: Partial<NonNullable<ChatMessage['replyTo']>>) => {
+    setMessages(prev => prev.map(message => (
+      message.replyTo?.id === messageId ? { ...message, replyTo: { ...message.replyTo, ...patch } } : message
+    )))
+  }, [])
+
+  const clearTypingEntry = useCallback((roomId: string, userId: string) => {
+    const key = `${roomId}:${userId}`
+
+    clearTimeout(typingTimeouts.current.get(key))
+    typingTimeouts.current.delete(key)
+    setTypingEntries(prev => {
+      if (!prev[key]) return prev
+
+      const next = { ...prev }
+
+      delete next[key]
+
+      return next
+    })
+  }, [])
+
   const markMessagesAsRead = useCallback(() => {
     if (!chatSocket || !chatSocket.connected) {
       return
@@ -280,13 +339,12 @@ export const useChatNew = (otherUserId?: string) => {
       setLoading(false)
       setIsRoomLoading(false)
 
-      if (user?.id && data.messages.length > 0) {
+      // Контакты в store - только личные диалоги, у них user1Id/user2Id заполнены
+      if (user?.id && data.room.type === 'direct' && data.messages.length > 0) {
         data.messages.forEach(message => {
           const receiverId =
             user?.id === message.senderId
-              ? data.room.user1Id === user?.id
-                ? data.room.user2Id
-                : data.room.user1Id
+              ? ((data.room.user1Id === user?.id ? data.room.user2Id : data.room.user1Id) as string)
               : message.senderId
 
           dispatch(
@@ -302,6 +360,7 @@ export const useChatNew = (otherUserId?: string) => {
 
     const handleReceiveMessage = (message: ChatMessage) => {
       applyIncomingMessages([message])
+      clearTypingEntry(message.roomId, message.senderId)
 
       if (user?.id) {
         dispatch(sendMsg({
@@ -346,9 +405,55 @@ export const useChatNew = (otherUserId?: string) => {
       )))
     }
 
+    const handleMessageEdited = (message: ChatMessage) => {
+      applyIncomingMessages([message])
+      updateReplyPreviews(message.id, { content: normalizeMessageContent(message.content) })
+    }
+
+    const handleMessageDeleted = (data: MessageDeletedData) => {
+      if (data.scope === 'self') {
+        setMessages(prev => prev.filter(message => message.id !== data.messageId))
+
+        return
+      }
+
+      setMessages(prev => prev.map(message => (
+        message.id === data.messageId
+          ? { ...message, content: '', deletedAt: data.deletedAt, reactions: [] }
+          : message
+      )))
+      updateReplyPreviews(data.messageId, { content: '', deleted: true })
+    }
+
+    const handleReactionsUpdated = (data: ReactionsUpdatedData) => {
+      setMessages(prev => prev.map(message => (
+        message.id === data.messageId ? { ...message, reactions: data.reactions } : message
+      )))
+    }
+
+    const handleUserTyping = (data: UserTypingData) => {
+      if (data.userId === user?.id) return
+
+      const key = `${data.roomId}:${data.userId}`
+
+      if (!data.isTyping) {
+        clearTypingEntry(data.roomId, data.userId)
+
+        return
+      }
+
+      clearTimeout(typingTimeouts.current.get(key))
+      typingTimeouts.current.set(key, setTimeout(() => clearTypingEntry(data.roomId, data.userId), TYPING_TIMEOUT_MS))
+      setTypingEntries(prev => ({ ...prev, [key]: data }))
+    }
+
     chatSocket.on('roomData', handleRoomData)
     chatSocket.on('receiveMessage', handleReceiveMessage)
     chatSocket.on('messagesRead', handleMessagesRead)
+    chatSocket.on('messageEdited', handleMessageEdited)
+    chatSocket.on('messageDeleted', handleMessageDeleted)
+    chatSocket.on('reactionsUpdated', handleReactionsUpdated)
+    chatSocket.on('userTyping', handleUserTyping)
     chatSocket.on('rateLimitExceeded', handleRateLimitExceeded)
     chatSocket.on('rateLimitWarning', handleRateLimitWarning)
 
@@ -356,10 +461,22 @@ export const useChatNew = (otherUserId?: string) => {
       chatSocket.off('roomData', handleRoomData)
       chatSocket.off('receiveMessage', handleReceiveMessage)
       chatSocket.off('messagesRead', handleMessagesRead)
+      chatSocket.off('messageEdited', handleMessageEdited)
+      chatSocket.off('messageDeleted', handleMessageDeleted)
+      chatSocket.off('reactionsUpdated', handleReactionsUpdated)
+      chatSocket.off('userTyping', handleUserTyping)
       chatSocket.off('rateLimitExceeded', handleRateLimitExceeded)
       chatSocket.off('rateLimitWarning', handleRateLimitWarning)
     }
-  }, [chatSocket, dispatch, applyIncomingMessages, showRateLimitWarning, user?.id])
+  }, [
+    chatSocket,
+    dispatch,
+    applyIncomingMessages,
+    updateReplyPreviews,
+    clearTypingEntry,
+    showRateLimitWarning,
+    user?.id
+  ])
 
   useEffect(() => {
     if (chatSocket && isConnected && currentOtherUserId && user?.id) {
@@ -424,6 +541,8 @@ export const useChatNew = (otherUserId?: string) => {
         },
         roomId: message.roomId,
         createdAt: message.createdAt,
+        replyToId: message.replyToId ?? null,
+        attachments: message.attachments,
         isOptimistic: message.status !== 'failed',
         deliveryStatus: message.status === 'failed' ? 'failed' : 'pending'
       }))
@@ -441,12 +560,15 @@ export const useChatNew = (otherUserId?: string) => {
     setCurrentOtherUserId(userId)
     setHistoryCursor(null)
     setHasMoreHistory(false)
+    setFocusedMessageId(null)
+    setHasNewerMessages(false)
     setMessages([])
     setIsRoomLoading(true)
   }
 
-  const createOptimisticMessage = (content: string) => {
+  const createOptimisticMessage = (content: string, replyToId?: string, attachments?: ChatMessageAttachment[]) => {
     const clientId = generateClientId()
+    const parent = replyToId ? messages.find(message => message.id === replyToId) : undefined
 
     const optimistic: ChatMessage = {
       id: clientId,
@@ -460,6 +582,17 @@ export const useChatNew = (otherUserId?: string) => {
       },
       roomId: room?.id ?? '',
       createdAt: new Date().toISOString(),
+      replyToId: replyToId ?? null,
+      replyTo: parent
+        ? {
+            id: parent.id,
+            content: parent.content,
+            senderId: parent.senderId,
+            senderName: parent.sender.name || parent.sender.email,
+            deleted: Boolean(parent.deletedAt)
+          }
+        : null,
+      attachments,
       isOptimistic: true,
       deliveryStatus: 'pending'
     }
@@ -471,6 +604,8 @@ export const useChatNew = (otherUserId?: string) => {
         clientId,
         roomId: room.id,
         content,
+        replyToId,
+        attachments,
         status: 'sending',
         createdAt: optimistic.createdAt
       }))
@@ -519,7 +654,7 @@ export const useChatNew = (otherUserId?: string) => {
     dispatch(markMessageFailed({ clientId, error: errorMessage }))
   }
 
-  const sendViaSocket = (payload: { roomId: string; message: string; senderId: string; clientId: string }) => {
+  const sendViaSocket = (payload: SendPayload) => {
     return new Promise<ChatMessage>((resolve, reject) => {
       if (!chatSocket || !chatSocket.connected) {
         reject(new Error('Socket disconnected'))
@@ -575,7 +710,7 @@ export const useChatNew = (otherUserId?: string) => {
     })
   }
 
-  const sendViaHttp = async (payload: { roomId: string; message: string; clientId: string }) => {
+  const sendViaHttp = async (payload: Omit<SendPayload, 'senderId'>) => {
     const response = await fetch('/api/chat/messages', {
       method: 'POST',
       headers: {
@@ -614,25 +749,34 @@ export const useChatNew = (otherUserId?: string) => {
     return payloadData.message as ChatMessage
   }
 
-  const deliverPayload = async (payload: { roomId: string; message: string; senderId: string; clientId: string }) => {
+  const deliverPayload = async (payload: SendPayload) => {
     if (!isOnline) {
       throw new TypeError('Network offline')
     }
 
+    const httpPayload = {
+      roomId: payload.roomId,
+      message: payload.message,
+      clientId: payload.clientId,
+      replyToId: payload.replyToId,
+      attachmentIds: payload.attachmentIds
+    }
+
     if (isConnected) {
       try {
         return await sendViaSocket(payload)
       } catch (socketError) {
         console.warn('Socket send failed, falling back to HTTP:', socketError)
-        return await sendViaHttp({ roomId: payload.roomId, message: payload.message, clientId: payload.clientId })
+
+        return await sendViaHttp(httpPayload)
       }
     }
 
-    return await sendViaHttp({ roomId: payload.roomId, message: payload.message, clientId: payload.clientId })
+    return await sendViaHttp(httpPayload)
   }
 
-  const sendMessage = async (content: string) => {
-    if (!room?.id || !user?.id || !content.trim()) return
+  const sendMessage = async (content: string, replyToId?: string, attachments: ChatMessageAttachment[] = []) => {
+    if (!room?.id || !user?.id || (!content.trim() && attachments.length === 0)) return
 
     const throwRateLimited = (blockedUntil?: number) => {
       const rateLimitError = new Error('RATE_LIMITED') as Error & { blockedUntil?: number }
@@ -677,15 +821,19 @@ export const useChatNew = (otherUserId?: string) => {
       }
     }
 
-    const clientId = createOptimisticMessage(trimmed)
+    const clientId = createOptimisticMessage(trimmed, replyToId, attachments.length ? attachments : undefined)
 
-    const payload = {
+    const payload: SendPayload = {
       roomId: room.id,
       message: trimmed,
       senderId: user.id,
-      clientId
+      clientId,
+      ...(replyToId ? { replyToId } : {}),
+      ...(attachments.length ? { attachmentIds: attachments.map(attachment => attachment.id) } : {})
     }
 
+    setTyping(false)
+
     dispatch(markMessageSending({ clientId }))
 
     try {
@@ -739,6 +887,138 @@ export const useChatNew = (otherUserId?: string) => {
     }
   }
 
+  // Действие над сообщением через сокет с подтверждением
+  const emitMessageAction = useCallback(<
+    TEvent extends 'editMessage' | 'deleteMessage' | 'toggleReaction' | 'reportMessage' | 'moderateMessage'
+  >(
+    event: TEvent,
+    data: Parameters<ChatEvents[TEvent]>[0]
+  ) => {
+    return new Promise<MessageActionAck>((resolve, reject) => {
+      if (!chatSocket || !chatSocket.connected) {
+        reject(new Error('Socket disconnected'))
+
+        return
+      }
+
+      chatSocket.timeout(5000).emit(event, data, (error: Error | null, ack?: MessageActionAck) => {
+        if (error) {
+          reject(error)
+
+          return
+        }
+
+        if (!ack?.ok) {
+          reject(new Error(ack?.error || 'Message action failed'))
+
+          return
+        }
+
+        resolve(ack)
+      })
+    })
+  }, [chatSocket])
+
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const ack = await emitMessageAction('editMessage', { messageId, content: content.trim() })
+
+    if (ack.message) {
+      applyIncomingMessages([ack.message])
+    }
+  }, [emitMessageAction, applyIncomingMessages])
+
+  const deleteMessage = useCallback(async (messageId: string, scope: ChatMessageDeleteScope) => {
+    await emitMessageAction('deleteMessage', { messageId, scope })
+  }, [emitMessageAction])
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    await emitMessageAction('toggleReaction', { messageId, emoji })
+  }, [emitMessageAction])
+
+  const reportMessage = useCallback(async (messageId: string, reason: ChatReportReason, details?: string) => {
+    await emitMessageAction('reportMessage', { messageId, reason, details: details?.trim() || undefined })
+  }, [emitMessageAction])
+
+  // Скрыть, вернуть или удалить сообщение модератором (moderate_chat)
+  const moderateMessage = useCallback(async (messageId: string, action: ChatModerationAction) => {
+    const ack = await emitMessageAction('moderateMessage', { messageId, action })
+
+    if (ack.message) {
+      applyIncomingMessages([ack.message])
+    }
+  }, [emitMessageAction, applyIncomingMessages])
+
+  const getEditHistory = useCallback(async (messageId: string): Promise<ChatMessageEdit[]> => {
+    const response = await fetch(`/api/chat/messages/${messageId}/history`)
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load edit history')
+    }
+
+    return data.edits ?? []
+  }, [])
+
+  // Отключить уведомления комнаты (без durationMinutes - бессрочно) или включить их
+  const setRoomMuted = useCallback(async (muted: boolean, durationMinutes?: number) => {
+    if (!room?.id) return
+
+    const response = await fetch(`/api/chat/rooms/${room.id}/mute`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ muted, durationMinutes })
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update room notifications')
+    }
+
+    setRoom(prev => (prev?.id === data.room.id ? data.room : prev))
+  }, [room?.id])
+
+  const roomMutedUntil = useMemo(() => {
+    const mutedUntil = room?.members.find(member => member.userId === user?.id)?.mutedUntil
+
+    return mutedUntil && new Date(mutedUntil) > new Date() ? mutedUntil : null
+  }, [room, user?.id])
+
+  // Загрузка вложения до отправки: id передаётся в sendMessage
+  const uploadAttachment = useCallback(async (file: File): Promise<ChatMessageAttachment> => {
+    const formData = new FormData()
+
+    formData.append('file', file)
+
+    const response = await fetch('/api/chat/attachments', { method: 'POST', body: formData })
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to upload attachment')
+    }
+
+    return data.attachment
+  }, [])
+
+  // typing: true не чаще раза в TYPING_THROTTLE_MS, false - сразу
+  const setTyping = useCallback((isTyping: boolean) => {
+    if (!chatSocket?.connected || !room?.id) return
+
+    const last = lastTypingEmit.current
+    const now = Date.now()
+
+    if (isTyping && last?.roomId === room.id && now - last.at < TYPING_THROTTLE_MS) return
+    if (!isTyping && !last) return
+
+    lastTypingEmit.current = isTyping ? { roomId: room.id, at: now } : null
+    chatSocket.emit('typing', { roomId: room.id, isTyping })
+  }, [chatSocket, room?.id])
+
+  const typingUsers = useMemo(
+    () => Object.values(typingEntries).filter(entry => entry.roomId === room?.id),
+    [typingEntries, room?.id]
+  )
+
   const loadMoreMessages = useCallback(async () => {
     if (!room?.id || historyLoading || !hasMoreHistory) {
       return
@@ -789,9 +1069,66 @@ export const useChatNew = (otherUserId?: string) => {
     }
   }, [room?.id, historyCursor, historyLoading, hasMoreHistory, applyIncomingMessages, normalizeMessage])
 
+  // Заменить ленту: окно вокруг сообщения или последние сообщения комнаты
+  const replaceMessages = useCallback(async (url: string, focusMessageId: string | null) => {
+    historyFetchAbort.current?.abort()
+    setHistoryLoading(true)
+
+    try {
+      const response = await fetch(url)
+      const payload = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(payload.error || 'Failed to load messages')
+      }
+
+      setMessages((payload.items ?? []).map((msg: ChatMessage) => normalizeMessage(msg)))
+      setHistoryCursor(payload.nextCursor ?? null)
+      setHasMoreHistory(Boolean(payload.nextCursor))
+      setHasNewerMessages(Boolean(payload.hasNewer))
+      setFocusedMessageId(focusMessageId)
+    } finally {
+      setHistoryLoading(false)
+    }
+  }, [normalizeMessage])
+
+  // Переход к результату поиска. Другая комната сначала открывается (initializeRoom), окно грузится после roomData
+  const jumpToMessage = useCallback(async (roomId: string, messageId: string) => {
+    if (room?.id === roomId && !isRoomLoading) {
+      await replaceMessages(`/api/chat/messages/${messageId}/context`, messageId)
+
+      return
+    }
+
+    setPendingJump({ roomId, messageId })
+  }, [room?.id, isRoomLoading, replaceMessages])
+
+  useEffect(() => {
+    if (!pendingJump || isRoomLoading || room?.id !== pendingJump.roomId) {
+      return
+    }
+
+    setPendingJump(null)
+    replaceMessages(`/api/chat/messages/${pendingJump.messageId}/context`, pendingJump.messageId).catch(error => {
+      console.error('Failed to open found message:', error)
+      toast.error(error instanceof Error ? error.message : String(error))
+    })
+  }, [pendingJump, isRoomLoading, room?.id, replaceMessages])
+
+  const jumpToLatest = useCallback(async () => {
+    if (!room?.id) {
+      return
+    }
+
+    await replaceMessages(`/api/chat/messages?${new URLSearchParams({ roomId: room.id, limit: '30' })}`, null)
+  }, [room?.id, replaceMessages])
+
   useEffect(() => {
+    const timeouts = typingTimeouts.current
+
     return () => {
       historyFetchAbort.current?.abort()
+      timeouts.forEach(timeout => clearTimeout(timeout))
     }
   }, [])
 
@@ -844,7 +1181,11 @@ export const useChatNew = (otherUserId?: string) => {
             roomId: message.roomId,
             message: message.content,
             senderId: user.id,
-            clientId: message.clientId
+            clientId: message.clientId,
+            ...(message.replyToId ? { replyToId: message.replyToId } : {}),
+            ...(message.attachments?.length
+              ? { attachmentIds: message.attachments.map(attachment => attachment.id) }
+              : {})
           })
 
           finalizeOptimisticMessage(message.clientId, serverMessage)
@@ -874,6 +1215,21 @@ export const useChatNew = (otherUserId?: string) => {
     rateLimitData,
     loadMoreMessages,
     historyLoading,
-    hasMoreHistory
+    hasMoreHistory,
+    focusedMessageId,
+    hasNewerMessages,
+    jumpToMessage,
+    jumpToLatest,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reportMessage,
+    moderateMessage,
+    getEditHistory,
+    roomMutedUntil,
+    setRoomMuted,
+    uploadAttachment,
+    setTyping,
+    typingUsers
   }
 }
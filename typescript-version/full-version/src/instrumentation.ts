@@ -0,0 +1,18 @@
+/**
+ * Next.js instrumentation
+ *
+ * register() вызывается один раз при старте сервера - здесь запускаются
+ * планировщики уведомлений. Проверка тарифов и очистка корзины медиа
+ * отсюда не запускаются.
+ */
+
+export async function register(): Promise<void> {
+  // Планировщики работают только в Node.js рантайме и не нужны во время сборки
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return
+  }
+
+  const { initializeNotificationSchedulers } = await import('@/services/scheduler')
+
+  initializeNotificationSchedulers()
+}
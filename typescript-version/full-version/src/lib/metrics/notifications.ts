@@ -82,7 +82,7 @@ export const notificationRetriesCounter = new Counter({
  * Отметить отправленное уведомление
  */
 export const markNotificationSent = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   status: 'success' | 'error',
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -93,7 +93,7 @@ export const markNotificationSent = (
  * Отметить ошибку отправки
  */
 export const markNotificationFailed = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   errorType: string,
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -104,7 +104,7 @@ export const markNotificationFailed = (
  * Записать время отправки
  */
 export const recordNotificationDuration = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   durationSeconds: number,
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -137,7 +137,7 @@ export const updateQueueSize = (
  * Отметить добавление задачи в очередь
  */
 export const markJobAdded = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   delayed: boolean,
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -148,7 +148,7 @@ export const markJobAdded = (
  * Отметить обработку задачи
  */
 export const markJobProcessed = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   status: 'success' | 'error',
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -170,7 +170,7 @@ export const markQueueSwitch = (
  * Отметить повторную попытку
  */
 export const markRetry = (
-  channel: 'email' | 'sms' | 'browser' | 'telegram',
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
   attempt: number,
   environment: string = process.env.NODE_ENV || 'development'
 ) => {
@@ -208,7 +208,7 @@ export const markQueueError = (
 export const startJobTimer = () => {
   const startTime = Date.now()
   return {
-    end: (channel: 'email' | 'sms' | 'browser' | 'telegram') => {
+    end: (channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook') => {
       const duration = (Date.now() - startTime) / 1000
       notificationSendDuration.observe({ channel, environment: process.env.NODE_ENV || 'development' }, duration)
     }
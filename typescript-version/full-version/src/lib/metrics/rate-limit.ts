@@ -104,7 +104,7 @@ const eventCounter = new Counter({
 const blockTypeCounter = new Counter({
   name: 'rate_limit_blocks_total',
   help: 'Total number of blocks by type.',
-  labelNames: ['module', 'block_type', 'environment'], // block_type: 'automatic' | 'manual' | 'user' | 'ip' | 'email' | 'domain'
+  labelNames: ['module', 'block_type', 'environment'], // block_type: 'automatic' | 'manual' | 'user' | 'ip' | 'email' | 'domain' | 'cidr' | 'asn'
   registers: [metricsRegistry]
 })
 
@@ -133,7 +133,7 @@ export const recordEvent = (module: string, eventType: 'warning' | 'block', mode
   eventCounter.inc({ module, event_type: eventType, mode, environment })
 }
 
-export const recordBlock = (module: string, blockType: 'automatic' | 'manual' | 'user' | 'ip' | 'email' | 'domain', environment: string = 'production') => {
+export const recordBlock = (module: string, blockType: 'automatic' | 'manual' | 'user' | 'ip' | 'email' | 'domain' | 'cidr' | 'asn', environment: string = 'production') => {
   blockTypeCounter.inc({ module, block_type: blockType, environment })
 }
 
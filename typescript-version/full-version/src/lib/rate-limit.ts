@@ -2,6 +2,7 @@
 // All functionality has been migrated to the new service-oriented architecture
 
 export type {
+  RateLimitAlgorithm,
   RateLimitConfig,
   RateLimitResult,
   RateLimitCheckOptions,
@@ -11,7 +12,11 @@ export type {
   RateLimitStateListResult,
   RateLimitEventAdminEntry,
   ListRateLimitEventsParams,
-  RateLimitEventListResult
+  RateLimitEventListResult,
+  RateLimitOverrideTarget,
+  RateLimitOverrideInput,
+  RateLimitSimulationParams,
+  RateLimitSimulationResult
 } from './rate-limit/types'
 
 // New service-oriented architecture exports
@@ -6,12 +6,18 @@ import { ConfigService } from '../services/ConfigService'
 import { RateLimitEventRecorder } from '../services/RateLimitEventRecorder'
 import { StoreManager } from '../services/StoreManager'
 import { RateLimitEngine } from '../services/RateLimitEngine'
+import { AsnLookupService } from '../services/AsnLookupService'
+import { OverrideService } from '../services/OverrideService'
+import { PolicySimulator } from '../services/PolicySimulator'
 
 export class RateLimitContainer {
   private static instance: RateLimitContainer
   private configService: ConfigService
   private eventService: RateLimitEventRecorder
   private storeManager: StoreManager
+  private asnLookupService: AsnLookupService
+  private overrideService: OverrideService
+  private policySimulator: PolicySimulator
   private rateLimitEngine: RateLimitEngine
 
   private constructor(prismaClient: PrismaClient = prisma) {
@@ -19,12 +25,17 @@ export class RateLimitContainer {
     this.configService = new ConfigService(prismaClient)
     this.eventService = new RateLimitEventRecorder(prismaClient)
     this.storeManager = new StoreManager(prismaClient)
+    this.asnLookupService = new AsnLookupService()
+    this.overrideService = new OverrideService(prismaClient)
     this.rateLimitEngine = new RateLimitEngine(
       this.configService,
       this.storeManager,
       this.eventService,
-      prismaClient
+      prismaClient,
+      this.asnLookupService,
+      this.overrideService
     )
+    this.policySimulator = new PolicySimulator(prismaClient, this.configService)
   }
 
   static getInstance(prismaClient?: PrismaClient): RateLimitContainer {
@@ -46,6 +57,18 @@ export class RateLimitContainer {
     return this.storeManager
   }
 
+  getAsnLookupService(): AsnLookupService {
+    return this.asnLookupService
+  }
+
+  getOverrideService(): OverrideService {
+    return this.overrideService
+  }
+
+  getPolicySimulator(): PolicySimulator {
+    return this.policySimulator
+  }
+
   getRateLimitEngine(): RateLimitEngine {
     return this.rateLimitEngine
   }
@@ -0,0 +1,78 @@
+import type { RateLimitConfig } from './types'
+
+/**
+ * История нарушений ключа (хранится в RateLimitState).
+ * Нарушение - каждая новая блокировка в режиме enforce.
+ */
+export type ViolationHistory = {
+  violationCount: number
+  lastViolationAt: Date | null
+}
+
+/**
+ * Ступень лестницы для очередного нарушения.
+ * `violationNumber` - номер нарушения с учётом затухания (1 - первое),
+ * `manualReview` - лестница исчерпана и блокировку снимает только администратор.
+ */
+export type EscalationStep = {
+  violationNumber: number
+  blockMs: number
+  manualReview: boolean
+}
+
+export const isEscalationEnabled = (config: RateLimitConfig): boolean => Boolean(config.escalationLadder?.length)
+
+export const parseEscalationLadder = (value: string | null | undefined): number[] | null => {
+  if (!value) return null
+
+  try {
+    const parsed = JSON.parse(value)
+
+    if (!Array.isArray(parsed)) return null
+
+    const ladder = parsed.filter((step): step is number => typeof step === 'number' && Number.isFinite(step) && step > 0)
+
+    return ladder.length ? ladder : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Число учитываемых нарушений на момент now.
+ * Если с последнего нарушения прошло больше escalationLookbackMs - история обнуляется,
+ * иначе каждый полный escalationDecayMs без нарушений снимает одну ступень.
+ */
+export const getEffectiveViolationCount = (history: ViolationHistory, config: RateLimitConfig, now: Date): number => {
+  if (!history.lastViolationAt || history.violationCount <= 0) return 0
+
+  const cleanMs = Math.max(0, now.getTime() - history.lastViolationAt.getTime())
+
+  if (config.escalationLookbackMs && cleanMs > config.escalationLookbackMs) return 0
+
+  if (config.escalationDecayMs && config.escalationDecayMs > 0) {
+    return Math.max(0, history.violationCount - Math.floor(cleanMs / config.escalationDecayMs))
+  }
+
+  return history.violationCount
+}
+
+/**
+ * Длительность блокировки для нарушения, следующего за previousViolations.
+ * После последней ступени длительность не растёт; с escalationManualReview
+ * нарушение сверх лестницы требует ручной проверки.
+ */
+export const getEscalationStep = (config: RateLimitConfig, previousViolations: number): EscalationStep => {
+  const ladder = config.escalationLadder ?? []
+  const violationNumber = previousViolations + 1
+
+  if (!ladder.length) {
+    return { violationNumber, blockMs: config.blockMs ?? config.windowMs, manualReview: false }
+  }
+
+  return {
+    violationNumber,
+    blockMs: ladder[Math.min(previousViolations, ladder.length - 1)],
+    manualReview: config.escalationManualReview === true && previousViolations >= ladder.length
+  }
+}
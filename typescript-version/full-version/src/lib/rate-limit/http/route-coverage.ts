@@ -0,0 +1,202 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+/**
+ * declared - обработчик объявлен через withRateLimit
+ * manual - в файле маршрута есть прямой вызов checkLimit
+ * none - лимит не применяется
+ */
+export type RouteRateLimitStatus = 'declared' | 'manual' | 'none'
+
+export type RouteRateLimitCoverageEntry = {
+  route: string
+  method: string
+  file: string
+  status: RouteRateLimitStatus
+  module: string | null
+
+  // Литерал стратегии ключа; 'custom' - функция
+  key: string | null
+}
+
+export type RouteRateLimitCoverageReport = {
+  generatedAt: string
+  routes: number
+  handlers: number
+  declared: number
+  manual: number
+  none: number
+
+  // Доля обработчиков с лимитом (declared + manual), %
+  coveragePercent: number
+  entries: RouteRateLimitCoverageEntry[]
+}
+
+type HandlerDeclaration = {
+  method: string
+  status: RouteRateLimitStatus
+  module: string | null
+  key: string | null
+  reexportFrom?: string
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']
+const METHOD_PATTERN = HTTP_METHODS.join('|')
+const ROUTE_FILE_PATTERN = /^route\.(ts|tsx|js)$/
+
+// Объявление withRateLimit обычно умещается в несколько строк, дальше начинается обработчик
+const DECLARATION_LOOKAHEAD = 500
+
+const readDeclarationOptions = (source: string, offset: number) => {
+  const snippet = source.slice(offset, offset + DECLARATION_LOOKAHEAD)
+  const moduleMatch = snippet.match(/\bmodule:\s*['"]([^'"]+)['"]/)
+  const keyMatch = snippet.match(/\bkey:\s*(?:['"]([^'"]+)['"])?/)
+
+  return {
+    module: moduleMatch?.[1] ?? null,
+    key: keyMatch ? (keyMatch[1] ?? 'custom') : null
+  }
+}
+
+const MANUAL_CHECK_PATTERN = /\.checkLimit\(\s*[^,]+,\s*(?:['"]([^'"]+)['"])?/
+
+/**
+ * Разбирает исходник route-файла: экспортируемые HTTP-обработчики и способ применения лимита.
+ * Прямой checkLimit относится к обработчику, в теле которого он вызван; если вызов вынесен
+ * во вспомогательную функцию, ручным считается весь файл.
+ */
+export const analyzeRouteSource = (source: string): HandlerDeclaration[] => {
+  const handlers = Array.from(
+    source.matchAll(
+      new RegExp(`export\\s+(?:(?:async\\s+)?function\\s+(${METHOD_PATTERN})\\b|const\\s+(${METHOD_PATTERN})\\s*=\\s*(withRateLimit\\s*\\()?)`, 'g')
+    )
+  ).map((match, index, all) => ({
+    method: match[1] ?? match[2],
+    wrapped: Boolean(match[3]),
+    optionsOffset: (match.index ?? 0) + match[0].length,
+    body: source.slice(match.index ?? 0, all[index + 1]?.index ?? source.length)
+  }))
+
+  const fileManualCheck = source.match(MANUAL_CHECK_PATTERN)
+  const handlerChecks = handlers.some(handler => MANUAL_CHECK_PATTERN.test(handler.body))
+  const declarations = new Map<string, HandlerDeclaration>()
+
+  for (const handler of handlers) {
+    if (handler.wrapped) {
+      declarations.set(handler.method, {
+        method: handler.method,
+        status: 'declared',
+        ...readDeclarationOptions(source, handler.optionsOffset)
+      })
+      continue
+    }
+
+    const manualCheck = handlerChecks ? handler.body.match(MANUAL_CHECK_PATTERN) : fileManualCheck
+
+    declarations.set(handler.method, {
+      method: handler.method,
+      status: manualCheck ? 'manual' : 'none',
+      module: manualCheck?.[1] ?? null,
+      key: null
+    })
+  }
+
+  for (const match of source.matchAll(/export\s*\{([^}]+)\}\s*from\s*['"]([^'"]+)['"]/g)) {
+    for (const name of match[1].split(',').map(part => part.trim().split(/\s+as\s+/).pop() ?? '')) {
+      if (HTTP_METHODS.includes(name)) {
+        declarations.set(name, { method: name, status: 'none', module: null, key: null, reexportFrom: match[2] })
+      }
+    }
+  }
+
+  return Array.from(declarations.values())
+}
+
+/**
+ * Путь маршрута по расположению файла: группы `(name)` не входят в URL.
+ */
+export const toRoutePath = (apiRoot: string, filePath: string) => {
+  const segments = path
+    .relative(apiRoot, path.dirname(filePath))
+    .split(path.sep)
+    .filter(segment => segment && !/^\(.*\)$/.test(segment))
+
+  return ['/api', ...segments].join('/')
+}
+
+const collectRouteFiles = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name)
+
+    if (entry.isDirectory()) {
+      files.push(...(await collectRouteFiles(fullPath)))
+    } else if (ROUTE_FILE_PATTERN.test(entry.name)) {
+      files.push(fullPath)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Отчёт покрытия API-маршрутов лимитами. Строится по исходникам src/app/api,
+ * поэтому доступен только при запуске из дерева исходников.
+ */
+export const scanRouteCoverage = async (
+  projectRoot: string = process.cwd()
+): Promise<RouteRateLimitCoverageReport> => {
+  const srcRoot = path.join(projectRoot, 'src')
+  const apiRoot = path.join(srcRoot, 'app', 'api')
+  const files = (await collectRouteFiles(apiRoot)).sort()
+  const parsed = new Map<string, HandlerDeclaration[]>()
+
+  for (const file of files) {
+    parsed.set(file, analyzeRouteSource(await fs.readFile(file, 'utf-8')))
+  }
+
+  // Реэкспорт (`export { POST } from '@/app/api/...'`) наследует объявление исходного маршрута
+  const resolveReexport = (declaration: HandlerDeclaration): HandlerDeclaration => {
+    if (!declaration.reexportFrom?.startsWith('@/')) return declaration
+
+    const target = path.join(srcRoot, declaration.reexportFrom.slice(2))
+    const targetFile = files.find(file => file.replace(/\.(ts|tsx|js)$/, '') === target)
+    const source = targetFile ? parsed.get(targetFile)?.find(item => item.method === declaration.method) : undefined
+
+    return source ? { ...source, method: declaration.method } : declaration
+  }
+
+  const entries: RouteRateLimitCoverageEntry[] = []
+
+  for (const file of files) {
+    for (const declaration of parsed.get(file) ?? []) {
+      const resolved = resolveReexport(declaration)
+
+      entries.push({
+        route: toRoutePath(apiRoot, file),
+        method: resolved.method,
+        file: path.relative(projectRoot, file).split(path.sep).join('/'),
+        status: resolved.status,
+        module: resolved.module,
+        key: resolved.key
+      })
+    }
+  }
+
+  const countBy = (status: RouteRateLimitStatus) => entries.filter(entry => entry.status === status).length
+  const declared = countBy('declared')
+  const manual = countBy('manual')
+
+  return {
+    generatedAt: new Date().toISOString(),
+    routes: files.length,
+    handlers: entries.length,
+    declared,
+    manual,
+    none: countBy('none'),
+    coveragePercent: entries.length ? Math.round(((declared + manual) / entries.length) * 1000) / 10 : 0,
+    entries
+  }
+}
@@ -0,0 +1,237 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { rateLimitService } from '@/lib/rate-limit'
+import { getEnvironmentFromRequest } from '@/lib/metrics/helpers'
+import logger from '@/lib/logger'
+import { API_KEY_RATE_LIMIT_MODULE, ApiKeyRateLimitError } from '@/utils/auth/api-key'
+import type { AuthenticatedUser } from '@/utils/auth/auth'
+import { requireAuth } from '@/utils/auth/auth'
+import { getRequestIp } from '@/utils/http/get-request-ip'
+
+import type { RateLimitResult } from '../types'
+
+/**
+ * Субъект лимита: ключ в RateLimitState и данные для событий и переопределений
+ */
+export type RouteRateLimitSubject = {
+  key: string
+  keyType: 'user' | 'ip'
+  userId?: string | null
+  email?: string | null
+  ipAddress?: string | null
+}
+
+export type RouteRateLimitKeyContext = {
+  user: NonNullable<AuthenticatedUser> | null
+  ipAddress: string | null
+}
+
+export type RouteRateLimitKeyResolver = (
+  request: NextRequest,
+  context: RouteRateLimitKeyContext
+) => Promise<RouteRateLimitSubject | null> | RouteRateLimitSubject | null
+
+/**
+ * Стратегия ключа:
+ * - user: id пользователя, без сессии лимит не применяется (маршрут сам ответит 401)
+ * - ip: IP клиента
+ * - user-or-ip: id пользователя, для анонимных запросов - IP
+ * - account: текущий аккаунт пользователя (общий лимит для всех его запросов в аккаунте)
+ * - функция: собственный ключ; null - пропустить проверку
+ */
+export type RouteRateLimitKeyStrategy = 'user' | 'ip' | 'user-or-ip' | 'account' | RouteRateLimitKeyResolver
+
+export type RouteRateLimitOptions = {
+  module: string
+  key: RouteRateLimitKeyStrategy
+  increment?: boolean
+  message?: string
+}
+
+const ANONYMOUS_KEY = 'anonymous'
+
+/**
+ * Заголовки IETF draft-ietf-httpapi-ratelimit-headers: RateLimit-Policy и RateLimit.
+ * Имя политики - модуль rate limit, `t` - секунды до сброса окна или окончания блокировки.
+ */
+export const buildRateLimitHeaders = (module: string, result: RateLimitResult, now = Date.now()): Record<string, string> => {
+  const resetAt = !result.allowed ? (result.blockedUntil ?? result.resetTime) : result.resetTime
+  const resetSeconds = Math.max(0, Math.ceil((resetAt - now) / 1000))
+
+  const headers: Record<string, string> = {
+    RateLimit: `"${module}";r=${Math.max(0, result.remaining)};t=${resetSeconds}`
+  }
+
+  if (result.policy) {
+    headers['RateLimit-Policy'] = `"${module}";q=${result.policy.limit};w=${Math.max(1, Math.round(result.policy.windowMs / 1000))}`
+  }
+
+  return headers
+}
+
+/**
+ * Ответ 429 в едином формате. X-RateLimit-* оставлены для старых клиентов.
+ */
+export const buildRateLimitExceededResponse = (module: string, result: RateLimitResult, message = 'Rate limit exceeded') => {
+  const now = Date.now()
+  const blockedUntilMs = result.blockedUntil ?? result.resetTime
+  const retryAfterSec = Math.max(1, Math.ceil((blockedUntilMs - now) / 1000))
+
+  return NextResponse.json(
+    {
+      error: message,
+      blockedUntilMs,
+      retryAfterSec,
+      remaining: Math.max(0, result.remaining),
+
+      // Legacy для совместимости
+      retryAfter: retryAfterSec,
+      blockedUntil: blockedUntilMs
+    },
+    {
+      status: 429,
+      headers: {
+        ...buildRateLimitHeaders(module, result, now),
+        'Retry-After': retryAfterSec.toString(),
+        'X-RateLimit-Remaining': Math.max(0, result.remaining).toString(),
+        'X-RateLimit-Reset': blockedUntilMs.toString()
+      }
+    }
+  )
+}
+
+// Пользователь для ключа лимита; исчерпанный лимит API-ключа - ошибка запроса (429)
+const requireOptionalUser = (request: NextRequest) =>
+  requireAuth(request).catch(error => {
+    if (error instanceof ApiKeyRateLimitError) throw error
+
+    return { user: null }
+  })
+
+const resolveSubject = async (
+  strategy: RouteRateLimitKeyStrategy,
+  request: NextRequest,
+  context: RouteRateLimitKeyContext
+): Promise<RouteRateLimitSubject | null> => {
+  const { user, ipAddress } = context
+
+  if (typeof strategy === 'function') {
+    return strategy(request, context)
+  }
+
+  switch (strategy) {
+    case 'user':
+      return user ? { key: user.id, keyType: 'user', userId: user.id, email: user.email ?? null, ipAddress } : null
+
+    case 'ip':
+      return { key: ipAddress || ANONYMOUS_KEY, keyType: 'ip', ipAddress }
+
+    case 'user-or-ip':
+      return user
+        ? { key: user.id, keyType: 'user', userId: user.id, email: user.email ?? null, ipAddress }
+        : { key: ipAddress || ANONYMOUS_KEY, keyType: 'ip', userId: null, email: null, ipAddress }
+
+    case 'account': {
+      if (!user) return null
+
+      // Ключ аккаунта ограничен своим аккаунтом, а не текущим аккаунтом пользователя
+      if (user.apiKey?.accountId) {
+        return {
+          key: `account:${user.apiKey.accountId}`,
+          keyType: 'user',
+          userId: user.id,
+          email: user.email ?? null,
+          ipAddress
+        }
+      }
+
+      // Загружается по требованию: большинству маршрутов prisma-сервис аккаунтов не нужен
+      const { accountAccessService } = await import('@/services/accounts/AccountAccessService')
+      const account = await accountAccessService.getCurrentAccount(user.id)
+
+      return {
+        key: account ? `account:${account.id}` : user.id,
+        keyType: 'user',
+        userId: user.id,
+        email: user.email ?? null,
+        ipAddress
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Обёртка для route handler: проверяет лимит модуля до вызова обработчика,
+ * отвечает 429 при превышении и добавляет заголовки RateLimit к ответу.
+ * Предупреждения и блокировки записываются движком как при прямом вызове checkLimit.
+ *
+ * Объявление с литералами `module` и `key` попадает в отчёт покрытия
+ * (GET /api/admin/rate-limits/coverage):
+ *
+ * export const POST = withRateLimit({ module: 'ads', key: 'user' }, async request => { ... })
+ */
+export function withRateLimit<C = unknown>(
+  options: RouteRateLimitOptions,
+  handler: (request: NextRequest, context: C) => Promise<Response> | Response
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    let result: RateLimitResult
+
+    try {
+      const needsUser = options.key !== 'ip'
+      const { user } = needsUser ? await requireOptionalUser(request) : { user: null }
+      const ipAddress = getRequestIp(request)
+      const subject = await resolveSubject(options.key, request, { user, ipAddress })
+
+      if (!subject) {
+        return handler(request, context)
+      }
+
+      const environment = getEnvironmentFromRequest(request) as 'production' | 'test' | undefined
+
+      result = await rateLimitService.checkLimit(subject.key, options.module, {
+        increment: options.increment ?? true,
+        userId: subject.userId ?? null,
+        email: subject.email ?? null,
+        ipAddress: subject.ipAddress ?? null,
+        keyType: subject.keyType,
+        environment
+      })
+
+      if (!result.allowed) {
+        logger.warn('[rate-limit] Route request rejected', {
+          module: options.module,
+          key: subject.key,
+          path: request.nextUrl?.pathname,
+          remaining: result.remaining
+        })
+
+        return buildRateLimitExceededResponse(options.module, result, options.message)
+      }
+    } catch (error) {
+      if (error instanceof ApiKeyRateLimitError) {
+        return buildRateLimitExceededResponse(API_KEY_RATE_LIMIT_MODULE, error.result, 'API key rate limit exceeded')
+      }
+
+      // Сбой проверки не должен ронять маршрут: запрос пропускается без лимита
+      logger.error('[rate-limit] Route rate limit check failed', {
+        module: options.module,
+        error: error instanceof Error ? error.message : error
+      })
+
+      return handler(request, context)
+    }
+
+    const response = await handler(request, context)
+
+    for (const [name, value] of Object.entries(buildRateLimitHeaders(options.module, result))) {
+      response.headers.set(name, value)
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,164 @@
+import type { IpVersion } from './ip-range'
+import { formatIp, normalizeAsn, parseCidr, parseIp } from './ip-range'
+
+export type AsnRecord = {
+  asn: string
+  organization: string | null
+  network: string | null
+}
+
+/**
+ * Локальная база IP -> ASN. Реализация подключается через AsnLookupService.setDatabase(),
+ * поэтому вместо CSV можно использовать, например, адаптер к MMDB-ридеру.
+ */
+export interface AsnDatabase {
+  readonly source: string
+  readonly size: number
+  lookup(ip: string): AsnRecord | null
+}
+
+type AsnRange = {
+  start: bigint
+  end: bigint
+  asn: string
+  organization: string | null
+  network: string
+}
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  if (delimiter === '\t') return line.split('\t').map(cell => cell.trim())
+
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  cells.push(current.trim())
+
+  return cells
+}
+
+/**
+ * База диапазонов в памяти: отсортированные непересекающиеся диапазоны и бинарный поиск.
+ *
+ * Поддерживаемые форматы файла:
+ * - GeoLite2-ASN-Blocks CSV: `network,autonomous_system_number,autonomous_system_organization`
+ * - iptoasn TSV: `range_start<TAB>range_end<TAB>AS_number<TAB>country_code<TAB>AS_description`
+ */
+export class RangeAsnDatabase implements AsnDatabase {
+  private ranges: Record<IpVersion, AsnRange[]> = { 4: [], 6: [] }
+
+  constructor(
+    readonly source: string,
+    entries: Array<{ version: IpVersion } & AsnRange> = []
+  ) {
+    for (const entry of entries) {
+      this.ranges[entry.version].push(entry)
+    }
+
+    this.ranges[4].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+    this.ranges[6].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+  }
+
+  get size() {
+    return this.ranges[4].length + this.ranges[6].length
+  }
+
+  static fromCsv(content: string, source = 'csv'): RangeAsnDatabase {
+    const entries: Array<{ version: IpVersion } & AsnRange> = []
+    const lines = content.split(/\r?\n/)
+    const delimiter = lines.find(line => line.trim())?.includes('\t') ? '\t' : ','
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim()
+
+      if (!line || line.startsWith('#')) continue
+
+      const cells = splitCsvLine(line, delimiter)
+
+      if (delimiter === '\t') {
+        // iptoasn: start, end, asn, country, description
+        const [rangeStart, rangeEnd, asnValue, , description] = cells
+        const start = parseIp(rangeStart)
+        const end = parseIp(rangeEnd)
+        const asn = normalizeAsn(asnValue)
+
+        if (!start || !end || !asn || start.version !== end.version || start.value > end.value) continue
+
+        entries.push({
+          version: start.version,
+          start: start.value,
+          end: end.value,
+          asn,
+          organization: description && description !== 'Not routed' ? description : null,
+          network: `${formatIp(start.version, start.value)}-${formatIp(end.version, end.value)}`
+        })
+        continue
+      }
+
+      // GeoLite2: network, asn, organization (строка заголовка отсеется на parseCidr)
+      const [network, asnValue, organization] = cells
+      const range = parseCidr(network)
+      const asn = normalizeAsn(asnValue)
+
+      if (!range || !asn) continue
+
+      entries.push({
+        version: range.version,
+        start: range.start,
+        end: range.end,
+        asn,
+        organization: organization || null,
+        network: range.normalized
+      })
+    }
+
+    return new RangeAsnDatabase(source, entries)
+  }
+
+  lookup(ip: string): AsnRecord | null {
+    const parsed = parseIp(ip)
+
+    if (!parsed) return null
+
+    const ranges = this.ranges[parsed.version]
+    let low = 0
+    let high = ranges.length - 1
+
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      const range = ranges[middle]
+
+      if (parsed.value < range.start) {
+        high = middle - 1
+      } else if (parsed.value > range.end) {
+        low = middle + 1
+      } else {
+        return { asn: range.asn, organization: range.organization, network: range.network }
+      }
+    }
+
+    return null
+  }
+}
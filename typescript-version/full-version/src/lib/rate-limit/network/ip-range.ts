@@ -0,0 +1,248 @@
+/**
+ * Утилиты для работы с IP-диапазонами (IPv4 и IPv6).
+ * Адреса переводятся в bigint, поэтому сравнение диапазонов одинаково для обеих версий.
+ */
+
+export type IpVersion = 4 | 6
+
+export type ParsedIp = {
+  version: IpVersion
+  value: bigint
+}
+
+export type ParsedCidr = {
+  version: IpVersion
+  prefixLength: number
+  start: bigint
+  end: bigint
+  normalized: string
+}
+
+export type CidrRangeInfo = {
+  cidr: string
+  version: IpVersion
+  firstAddress: string
+  lastAddress: string
+  addressCount: string
+}
+
+const IPV4_BITS = 32
+const IPV6_BITS = 128
+const IPV4_MAPPED_PREFIX = BigInt('0xffff00000000')
+
+const bitsFor = (version: IpVersion) => (version === 4 ? IPV4_BITS : IPV6_BITS)
+
+const parseIpv4 = (value: string): bigint | null => {
+  const octets = value.split('.')
+
+  if (octets.length !== 4) return null
+
+  let result = BigInt(0)
+
+  for (const octet of octets) {
+    if (!/^\d{1,3}$/.test(octet)) return null
+
+    const number = Number(octet)
+
+    if (number > 255) return null
+
+    result = (result << BigInt(8)) + BigInt(number)
+  }
+
+  return result
+}
+
+const parseIpv6 = (value: string): bigint | null => {
+  let address = value.toLowerCase()
+
+  // Зона (fe80::1%eth0) на диапазоны не влияет
+  const zoneIndex = address.indexOf('%')
+
+  if (zoneIndex !== -1) address = address.slice(0, zoneIndex)
+
+  // Хвост в виде IPv4 (::ffff:192.168.0.1) превращаем в две 16-битные группы
+  const lastColon = address.lastIndexOf(':')
+
+  if (lastColon !== -1 && address.slice(lastColon + 1).includes('.')) {
+    const ipv4 = parseIpv4(address.slice(lastColon + 1))
+
+    if (ipv4 === null) return null
+
+    const high = (ipv4 >> BigInt(16)).toString(16)
+    const low = (ipv4 & BigInt(0xffff)).toString(16)
+
+    address = `${address.slice(0, lastColon + 1)}${high}:${low}`
+  }
+
+  const doubleColonParts = address.split('::')
+
+  if (doubleColonParts.length > 2) return null
+
+  const head = doubleColonParts[0] ? doubleColonParts[0].split(':') : []
+  const tail = doubleColonParts.length === 2 && doubleColonParts[1] ? doubleColonParts[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+
+  if (doubleColonParts.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array<string>(doubleColonParts.length === 2 ? missing : 0).fill('0'), ...tail]
+
+  let result = BigInt(0)
+
+  for (const group of groups) {
+    if (!/^[\da-f]{1,4}$/.test(group)) return null
+
+    result = (result << BigInt(16)) + BigInt(parseInt(group, 16))
+  }
+
+  return result
+}
+
+/**
+ * Разбирает IPv4/IPv6 адрес. IPv4-mapped IPv6 (::ffff:a.b.c.d) приводится к IPv4,
+ * чтобы блокировка 10.0.0.0/8 срабатывала и для dual-stack сокетов.
+ */
+export const parseIp = (value: string | null | undefined): ParsedIp | null => {
+  if (!value) return null
+
+  const trimmed = value.trim()
+
+  if (!trimmed) return null
+
+  if (!trimmed.includes(':')) {
+    const ipv4 = parseIpv4(trimmed)
+
+    return ipv4 === null ? null : { version: 4, value: ipv4 }
+  }
+
+  const ipv6 = parseIpv6(trimmed)
+
+  if (ipv6 === null) return null
+
+  if (ipv6 >> BigInt(32) === IPV4_MAPPED_PREFIX >> BigInt(32)) {
+    return { version: 4, value: ipv6 & BigInt(0xffffffff) }
+  }
+
+  return { version: 6, value: ipv6 }
+}
+
+export const formatIp = (version: IpVersion, value: bigint): string => {
+  if (version === 4) {
+    return [24, 16, 8, 0].map(shift => ((value >> BigInt(shift)) & BigInt(255)).toString()).join('.')
+  }
+
+  const groups: string[] = []
+
+  for (let shift = 112; shift >= 0; shift -= 16) {
+    groups.push(((value >> BigInt(shift)) & BigInt(0xffff)).toString(16))
+  }
+
+  // Сжимаем самую длинную последовательность нулевых групп (RFC 5952)
+  let bestStart = -1
+  let bestLength = 0
+
+  for (let index = 0; index < groups.length; ) {
+    if (groups[index] !== '0') {
+      index += 1
+      continue
+    }
+
+    let end = index
+
+    while (end < groups.length && groups[end] === '0') end += 1
+
+    if (end - index > bestLength && end - index > 1) {
+      bestStart = index
+      bestLength = end - index
+    }
+
+    index = end
+  }
+
+  if (bestStart === -1) return groups.join(':')
+
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`
+}
+
+/**
+ * Разбирает CIDR (`10.0.0.0/8`, `2001:db8::/32`). Адрес без маски считается диапазоном из одного адреса.
+ * Хостовые биты обнуляются: `10.1.2.3/8` -> `10.0.0.0/8`.
+ */
+export const parseCidr = (value: string | null | undefined): ParsedCidr | null => {
+  if (!value) return null
+
+  const [address, prefix, ...rest] = value.trim().split('/')
+
+  if (rest.length) return null
+
+  const ip = parseIp(address)
+
+  if (!ip) return null
+
+  const totalBits = bitsFor(ip.version)
+  let prefixLength = totalBits
+
+  if (prefix !== undefined) {
+    if (!/^\d{1,3}$/.test(prefix)) return null
+
+    prefixLength = Number(prefix)
+
+    // Маска для IPv4-mapped адреса задаётся в битах IPv6
+    if (ip.version === 4 && address.includes(':')) prefixLength -= IPV6_BITS - IPV4_BITS
+
+    if (prefixLength < 0 || prefixLength > totalBits) return null
+  }
+
+  const hostBits = BigInt(totalBits - prefixLength)
+  const hostMask = (BigInt(1) << hostBits) - BigInt(1)
+  const start = ip.value & ~hostMask
+  const end = start | hostMask
+
+  return {
+    version: ip.version,
+    prefixLength,
+    start,
+    end,
+    normalized: `${formatIp(ip.version, start)}/${prefixLength}`
+  }
+}
+
+export const isIpInRange = (ip: ParsedIp, range: Pick<ParsedCidr, 'version' | 'start' | 'end'>): boolean =>
+  ip.version === range.version && ip.value >= range.start && ip.value <= range.end
+
+export const ipInCidr = (ip: string, cidr: string): boolean => {
+  const parsedIp = parseIp(ip)
+  const parsedCidr = parseCidr(cidr)
+
+  return Boolean(parsedIp && parsedCidr && isIpInRange(parsedIp, parsedCidr))
+}
+
+export const describeCidr = (value: string | null | undefined): CidrRangeInfo | null => {
+  const parsed = parseCidr(value)
+
+  if (!parsed) return null
+
+  return {
+    cidr: parsed.normalized,
+    version: parsed.version,
+    firstAddress: formatIp(parsed.version, parsed.start),
+    lastAddress: formatIp(parsed.version, parsed.end),
+    addressCount: (parsed.end - parsed.start + BigInt(1)).toString()
+  }
+}
+
+/**
+ * Приводит номер автономной системы к виду `AS13335`. Принимает `13335`, `as13335`, `AS 13335`.
+ */
+export const normalizeAsn = (value: string | number | null | undefined): string | null => {
+  if (value === null || value === undefined) return null
+
+  const match = /^(?:as)?\s*(\d{1,10})$/i.exec(String(value).trim())
+
+  if (!match) return null
+
+  const number = Number(match[1])
+
+  if (!Number.isSafeInteger(number) || number <= 0 || number > 4294967295) return null
+
+  return `AS${number}`
+}
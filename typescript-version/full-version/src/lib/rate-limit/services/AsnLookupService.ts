@@ -0,0 +1,76 @@
+import fs from 'fs/promises'
+
+import logger from '@/lib/logger'
+
+import type { AsnDatabase, AsnRecord } from '../network/asn-database'
+import { RangeAsnDatabase } from '../network/asn-database'
+import type { AsnLookupService as IAsnLookupService } from './interfaces'
+
+/**
+ * Определение ASN по IP через локальную базу.
+ * Файл задаётся переменной RATE_LIMIT_ASN_DB_PATH и загружается лениво при первом обращении.
+ * Без базы ASN-блокировки не срабатывают, остальные проверки работают как обычно.
+ */
+export class AsnLookupService implements IAsnLookupService {
+  private database: AsnDatabase | null = null
+  private loadPromise: Promise<AsnDatabase | null> | null = null
+
+  constructor(private databasePath: string | undefined = process.env.RATE_LIMIT_ASN_DB_PATH) {}
+
+  /**
+   * Подключает произвольную реализацию базы (например, адаптер к MMDB)
+   */
+  setDatabase(database: AsnDatabase | null) {
+    this.database = database
+    this.loadPromise = null
+  }
+
+  async loadFromFile(filePath: string): Promise<AsnDatabase> {
+    const content = await fs.readFile(filePath, 'utf-8')
+    const database = RangeAsnDatabase.fromCsv(content, filePath)
+
+    this.databasePath = filePath
+    this.setDatabase(database)
+    logger.info('[rate-limit] ASN database loaded', { source: filePath, entries: database.size })
+
+    return database
+  }
+
+  async lookup(ip: string): Promise<AsnRecord | null> {
+    const database = await this.getDatabase()
+
+    return database ? database.lookup(ip) : null
+  }
+
+  async getStatus() {
+    const database = await this.getDatabase()
+
+    return {
+      loaded: Boolean(database),
+      source: database?.source ?? this.databasePath ?? null,
+      entries: database?.size ?? 0
+    }
+  }
+
+  private async getDatabase(): Promise<AsnDatabase | null> {
+    if (this.database || !this.databasePath) return this.database
+
+    if (!this.loadPromise) {
+      const filePath = this.databasePath
+
+      this.loadPromise = this.loadFromFile(filePath).catch(error => {
+        logger.error('[rate-limit] Failed to load ASN database', {
+          source: filePath,
+          error: error instanceof Error ? error.message : error
+        })
+
+        // Не пытаемся перечитывать битый файл на каждом запросе
+        this.databasePath = undefined
+
+        return null
+      })
+    }
+
+    return this.loadPromise
+  }
+}
@@ -1,6 +1,8 @@
 import type { PrismaClient } from '@prisma/client'
 
-import type { RateLimitConfig } from '../types'
+import type { RateLimitAlgorithm, RateLimitConfig } from '../types'
+import { RATE_LIMIT_ALGORITHMS } from '../types'
+import { parseEscalationLadder } from '../escalation'
 import type { ConfigService as IConfigService } from './interfaces'
 
 export class ConfigService implements IConfigService {
@@ -36,6 +38,15 @@ export class ConfigService implements IConfigService {
       maxRequests: config.maxRequests ?? undefined,
       windowMs: config.windowMs ?? undefined,
       blockMs: config.blockMs ?? undefined,
+      algorithm: config.algorithm && RATE_LIMIT_ALGORITHMS.includes(config.algorithm) ? config.algorithm : undefined,
+      refillRate: config.refillRate === null ? null : config.refillRate ?? undefined,
+      burst: config.burst === null ? null : config.burst ?? undefined,
+      escalationLadder:
+        config.escalationLadder === null ? null : config.escalationLadder ? JSON.stringify(config.escalationLadder) : undefined,
+      escalationLookbackMs: config.escalationLookbackMs === null ? null : config.escalationLookbackMs ?? undefined,
+      escalationDecayMs: config.escalationDecayMs === null ? null : config.escalationDecayMs ?? undefined,
+      escalationManualReview:
+        typeof config.escalationManualReview === 'boolean' ? config.escalationManualReview : undefined,
       warnThreshold: config.warnThreshold ?? undefined,
       isActive: typeof config.isActive === 'boolean' ? config.isActive : undefined,
       mode: config.mode && (config.mode === 'monitor' || config.mode === 'enforce') ? config.mode : undefined,
@@ -49,6 +60,15 @@ export class ConfigService implements IConfigService {
         ...(payload.maxRequests !== undefined ? { maxRequests: payload.maxRequests } : {}),
         ...(payload.windowMs !== undefined ? { windowMs: payload.windowMs } : {}),
         ...(payload.blockMs !== undefined ? { blockMs: payload.blockMs } : {}),
+        ...(payload.algorithm ? { algorithm: payload.algorithm } : {}),
+        ...(payload.refillRate !== undefined ? { refillRate: payload.refillRate } : {}),
+        ...(payload.burst !== undefined ? { burst: payload.burst } : {}),
+        ...(payload.escalationLadder !== undefined ? { escalationLadder: payload.escalationLadder } : {}),
+        ...(payload.escalationLookbackMs !== undefined ? { escalationLookbackMs: payload.escalationLookbackMs } : {}),
+        ...(payload.escalationDecayMs !== undefined ? { escalationDecayMs: payload.escalationDecayMs } : {}),
+        ...(payload.escalationManualReview !== undefined
+          ? { escalationManualReview: payload.escalationManualReview }
+          : {}),
         ...(payload.warnThreshold !== undefined ? { warnThreshold: payload.warnThreshold } : {}),
         ...(payload.isActive !== undefined ? { isActive: payload.isActive } : {}),
         ...(payload.mode ? { mode: payload.mode } : {}),
@@ -61,6 +81,13 @@ export class ConfigService implements IConfigService {
         maxRequests: payload.maxRequests || 10,
         windowMs: payload.windowMs || 60000,
         blockMs: payload.blockMs || 900000,
+        algorithm: payload.algorithm ?? 'fixed',
+        refillRate: payload.refillRate ?? null,
+        burst: payload.burst ?? null,
+        escalationLadder: payload.escalationLadder ?? null,
+        escalationLookbackMs: payload.escalationLookbackMs ?? null,
+        escalationDecayMs: payload.escalationDecayMs ?? null,
+        escalationManualReview: payload.escalationManualReview ?? false,
         warnThreshold: payload.warnThreshold ?? 0,
         isActive: payload.isActive ?? true,
         mode: payload.mode ?? 'enforce',
@@ -95,6 +122,15 @@ export class ConfigService implements IConfigService {
           maxRequests: config.maxRequests,
           windowMs: config.windowMs,
           blockMs: config.blockMs,
+          algorithm: RATE_LIMIT_ALGORITHMS.includes(config.algorithm as RateLimitAlgorithm)
+            ? (config.algorithm as RateLimitAlgorithm)
+            : 'fixed',
+          refillRate: config.refillRate ?? null,
+          burst: config.burst ?? null,
+          escalationLadder: parseEscalationLadder(config.escalationLadder),
+          escalationLookbackMs: config.escalationLookbackMs ?? null,
+          escalationDecayMs: config.escalationDecayMs ?? null,
+          escalationManualReview: config.escalationManualReview ?? false,
           warnThreshold: config.warnThreshold ?? 0,
           isActive: config.isActive,
           mode: (config.mode === 'monitor' || config.mode === 'enforce') ? config.mode : 'enforce',
@@ -252,6 +288,45 @@ export class ConfigService implements IConfigService {
         storeIpInEvents: true,
         isFallback: false
       },
+
+      // Сброс пароля: запросы ссылки/кода и попытки установить пароль
+      'password-reset': {
+        maxRequests: 5,
+        windowMs: 60 * 60 * 1000,
+        blockMs: 60 * 60 * 1000,
+        warnThreshold: 3,
+        isActive: true,
+        mode: 'enforce',
+        storeEmailInEvents: true,
+        storeIpInEvents: true,
+        isFallback: false
+      },
+
+      // Вход без пароля: запросы ссылки/кода и попытки входа по ним
+      'passwordless-login': {
+        maxRequests: 5,
+        windowMs: 15 * 60 * 1000,
+        blockMs: 15 * 60 * 1000,
+        warnThreshold: 3,
+        isActive: true,
+        mode: 'enforce',
+        storeEmailInEvents: true,
+        storeIpInEvents: true,
+        isFallback: false
+      },
+
+      // Запросы по API-ключам: счётчик на каждый ключ (Authorization: Bearer mk_...)
+      'api-keys': {
+        maxRequests: 120,
+        windowMs: 60 * 1000,
+        blockMs: 60 * 1000,
+        warnThreshold: 10,
+        isActive: true,
+        mode: 'enforce',
+        storeEmailInEvents: false,
+        storeIpInEvents: true,
+        isFallback: false
+      },
       // Rate limit для защиты самой системы
       'rate-limit-checks': {
         maxRequests: 1000,
@@ -0,0 +1,212 @@
+import type { PrismaClient, RateLimitOverride } from '@prisma/client'
+
+import type {
+  ListRateLimitOverridesParams,
+  RateLimitConfig,
+  RateLimitOverrideInput,
+  RateLimitOverrideSubject,
+  RateLimitOverrideTarget
+} from '../types'
+import { RATE_LIMIT_OVERRIDE_TARGETS } from '../types'
+import { isIpInRange, parseCidr, parseIp } from '../network/ip-range'
+import type { OverrideService as IOverrideService } from './interfaces'
+
+// Активные переопределения перечитываются не чаще раза в 10 секунд
+const OVERRIDES_CACHE_TTL_MS = 10_000
+
+type UserTiers = {
+  roleCode: string | null
+  tariffCode: string | null
+}
+
+/**
+ * Конфигурация модуля с учётом переопределения: незаданные поля берутся из модуля
+ */
+export const applyRateLimitOverride = (config: RateLimitConfig, override: RateLimitOverride): RateLimitConfig => ({
+  ...config,
+  maxRequests: override.maxRequests ?? config.maxRequests,
+  windowMs: override.windowMs ?? config.windowMs,
+  blockMs: override.blockMs ?? config.blockMs
+})
+
+export class OverrideService implements IOverrideService {
+  private cache: { expiresAt: number; overrides: RateLimitOverride[] } | null = null
+
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Переопределение, действующее для субъекта в модуле.
+   * Роль и тариф запрашиваются только если для модуля есть такие переопределения.
+   */
+  async resolve(module: string, subject: RateLimitOverrideSubject, now = new Date()): Promise<RateLimitOverride | null> {
+    const candidates = (await this.loadActive(now)).filter(
+      override => (override.module === module || override.module === 'all') && (!override.expiresAt || override.expiresAt > now)
+    )
+
+    if (!candidates.length) return null
+
+    const needsTiers =
+      Boolean(subject.userId) && candidates.some(override => override.targetType === 'tariff' || override.targetType === 'role')
+
+    const tiers = needsTiers ? await this.loadUserTiers(subject.userId as string) : null
+    const ip = parseIp(subject.ipAddress)
+
+    const matches = candidates.filter(override => {
+      switch (override.targetType as RateLimitOverrideTarget) {
+        case 'user':
+          return Boolean(subject.userId) && override.targetValue === subject.userId
+
+        case 'ip': {
+          const target = parseIp(override.targetValue)
+
+          return Boolean(ip && target && ip.version === target.version && ip.value === target.value)
+        }
+
+        case 'cidr': {
+          const range = parseCidr(override.targetValue)
+
+          return Boolean(ip && range && isIpInRange(ip, range))
+        }
+
+        case 'tariff':
+          return Boolean(tiers?.tariffCode) && override.targetValue === tiers?.tariffCode
+
+        case 'role':
+          return Boolean(tiers?.roleCode) && override.targetValue === tiers?.roleCode
+
+        default:
+          return false
+      }
+    })
+
+    if (!matches.length) return null
+
+    const rank = (override: RateLimitOverride) =>
+      RATE_LIMIT_OVERRIDE_TARGETS.indexOf(override.targetType as RateLimitOverrideTarget) * 2 +
+      (override.module === 'all' ? 1 : 0)
+
+    return matches.reduce((best, override) => (rank(override) < rank(best) ? override : best))
+  }
+
+  async list(params: ListRateLimitOverridesParams = {}): Promise<RateLimitOverride[]> {
+    return this.prisma.rateLimitOverride.findMany({
+      where: {
+        ...(params.module ? { module: params.module } : {}),
+        ...(params.targetType ? { targetType: params.targetType } : {}),
+        ...(params.includeInactive ? {} : { isActive: true })
+      },
+      orderBy: [{ module: 'asc' }, { targetType: 'asc' }, { createdAt: 'desc' }]
+    })
+  }
+
+  async create(input: RateLimitOverrideInput): Promise<RateLimitOverride> {
+    const override = await this.prisma.rateLimitOverride.create({
+      data: {
+        module: input.module,
+        targetType: input.targetType,
+        targetValue: this.normalizeTargetValue(input.targetType, input.targetValue),
+        maxRequests: input.maxRequests ?? null,
+        windowMs: input.windowMs ?? null,
+        blockMs: input.blockMs ?? null,
+        exempt: input.exempt ?? false,
+        reason: input.reason ?? null,
+        expiresAt: input.expiresAt ?? null,
+        isActive: input.isActive ?? true,
+        createdBy: input.createdBy ?? null
+      }
+    })
+
+    this.cache = null
+
+    return override
+  }
+
+  async update(id: string, input: Partial<Omit<RateLimitOverrideInput, 'createdBy'>>): Promise<RateLimitOverride | null> {
+    const existing = await this.prisma.rateLimitOverride.findUnique({ where: { id } })
+
+    if (!existing) return null
+
+    const targetType = input.targetType ?? (existing.targetType as RateLimitOverrideTarget)
+
+    const override = await this.prisma.rateLimitOverride.update({
+      where: { id },
+      data: {
+        module: input.module,
+        targetType: input.targetType,
+        targetValue:
+          input.targetValue !== undefined ? this.normalizeTargetValue(targetType, input.targetValue) : undefined,
+        maxRequests: input.maxRequests,
+        windowMs: input.windowMs,
+        blockMs: input.blockMs,
+        exempt: input.exempt,
+        reason: input.reason,
+        expiresAt: input.expiresAt,
+        isActive: input.isActive
+      }
+    })
+
+    this.cache = null
+
+    return override
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.prisma.rateLimitOverride.deleteMany({ where: { id } })
+
+    this.cache = null
+
+    return result.count > 0
+  }
+
+  private normalizeTargetValue(targetType: RateLimitOverrideTarget, value: string): string {
+    const trimmed = value.trim()
+
+    if (targetType === 'cidr') return parseCidr(trimmed)?.normalized ?? trimmed
+    if (targetType === 'role' || targetType === 'tariff') return trimmed.toUpperCase()
+
+    return trimmed
+  }
+
+  private async loadActive(now: Date): Promise<RateLimitOverride[]> {
+    if (this.cache && this.cache.expiresAt > now.getTime()) {
+      return this.cache.overrides
+    }
+
+    const overrides = await this.prisma.rateLimitOverride.findMany({
+      where: {
+        isActive: true,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+      }
+    })
+
+    this.cache = { expiresAt: now.getTime() + OVERRIDES_CACHE_TTL_MS, overrides }
+
+    return overrides
+  }
+
+  /**
+   * Роль пользователя и тариф текущего аккаунта.
+   * Текущий аккаунт выбирается как в AccountAccessService.getCurrentAccount - первый активный.
+   */
+  private async loadUserTiers(userId: string): Promise<UserTiers | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        role: { select: { code: true } },
+        ownedAccounts: {
+          where: { status: 'active' },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+          select: { tariffPlan: { select: { code: true } } }
+        }
+      }
+    })
+
+    if (!user) return null
+
+    return {
+      roleCode: user.role?.code ?? null,
+      tariffCode: user.ownedAccounts[0]?.tariffPlan.code ?? null
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import type { PrismaClient } from '@prisma/client'
+
+import type {
+  RateLimitConfig,
+  RateLimitSimulationKeyResult,
+  RateLimitSimulationParams,
+  RateLimitSimulationResult,
+  RateLimitSimulationSummary
+} from '../types'
+import type { SimulatedKeyOutcome, SimulatedRequest } from '../simulation'
+import { buildReplayTraffic, replayTraffic } from '../simulation'
+import type { ConfigService, PolicySimulator as IPolicySimulator } from './interfaces'
+
+// Сколько исторических записей каждого источника читается за одну симуляцию
+const MAX_SIMULATION_RECORDS = 100_000
+const DEFAULT_TOP_LIMIT = 10
+const COMPARISON_SAMPLE_SIZE = 20
+
+type KeyMeta = {
+  userId: string | null
+  ipPrefix: string | null
+}
+
+/**
+ * Симулятор политики: прогоняет исторический трафик модуля через текущую и предлагаемую конфигурацию.
+ * Только читает Event и RateLimitEvent, живые RateLimitState не затрагиваются.
+ */
+export class PolicySimulator implements IPolicySimulator {
+  constructor(
+    private prisma: PrismaClient,
+    private configService: ConfigService
+  ) {}
+
+  async simulate(params: RateLimitSimulationParams): Promise<RateLimitSimulationResult> {
+    const currentConfig = await this.configService.getConfig(params.module)
+    const proposedConfig: RateLimitConfig = { ...currentConfig, ...params.config }
+
+    const [events, rateLimitEvents] = await Promise.all([
+      this.prisma.event.findMany({
+        where: {
+          module: params.eventModule ?? params.module,
+          source: { not: 'rate_limit' },
+          createdAt: { gte: params.from, lte: params.to },
+          ...(params.eventTypes?.length ? { type: { in: params.eventTypes } } : {}),
+          OR: [{ key: { not: null } }, { actorId: { not: null } }]
+        },
+        select: { key: true, actorType: true, actorId: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_SIMULATION_RECORDS + 1
+      }),
+      this.prisma.rateLimitEvent.findMany({
+        where: {
+          module: params.module,
+          createdAt: { gte: params.from, lte: params.to }
+        },
+        select: { key: true, userId: true, ipPrefix: true, count: true, windowStart: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_SIMULATION_RECORDS + 1
+      })
+    ])
+
+    const truncated = events.length > MAX_SIMULATION_RECORDS || rateLimitEvents.length > MAX_SIMULATION_RECORDS
+    const meta = new Map<string, KeyMeta>()
+    const requests: SimulatedRequest[] = []
+
+    for (const event of events.slice(0, MAX_SIMULATION_RECORDS)) {
+      const key = (event.key ?? event.actorId) as string
+
+      requests.push({ key, timestamp: event.createdAt.getTime() })
+      this.mergeMeta(meta, key, { userId: event.actorType === 'user' ? event.actorId : null, ipPrefix: null })
+    }
+
+    const recordedWindows = rateLimitEvents.slice(0, MAX_SIMULATION_RECORDS).map(event => {
+      this.mergeMeta(meta, event.key, { userId: event.userId, ipPrefix: event.ipPrefix })
+
+      return { key: event.key, count: event.count, windowStart: event.windowStart, createdAt: event.createdAt }
+    })
+
+    const traffic = buildReplayTraffic(requests, recordedWindows)
+    const currentOutcomes = replayTraffic(traffic.requests, currentConfig)
+    const proposedOutcomes = replayTraffic(traffic.requests, proposedConfig)
+    const topLimit = params.topLimit ?? DEFAULT_TOP_LIMIT
+
+    const current = this.summarize(currentConfig, currentOutcomes, meta, topLimit)
+    const proposed = this.summarize(proposedConfig, proposedOutcomes, meta, topLimit)
+
+    await this.attachUsers([...current.topAffected, ...proposed.topAffected])
+
+    const blockedNow = new Set(currentOutcomes.filter(outcome => outcome.blocks > 0).map(outcome => outcome.key))
+    const warnedNow = new Set(currentOutcomes.filter(outcome => outcome.warnings > 0).map(outcome => outcome.key))
+    const blockedProposed = proposedOutcomes.filter(outcome => outcome.blocks > 0).map(outcome => outcome.key)
+    const blockedProposedSet = new Set(blockedProposed)
+    const newlyBlocked = blockedProposed.filter(key => !blockedNow.has(key))
+
+    return {
+      module: params.module,
+      from: params.from,
+      to: params.to,
+      traffic: {
+        keys: currentOutcomes.length,
+        requests: traffic.requests.length,
+        eventRequests: traffic.eventRequests,
+        reconstructedRequests: traffic.reconstructedRequests,
+        truncated
+      },
+      current,
+      proposed,
+      comparison: {
+        newlyBlockedKeys: newlyBlocked.length,
+        noLongerBlockedKeys: Array.from(blockedNow).filter(key => !blockedProposedSet.has(key)).length,
+        newlyWarnedKeys: proposedOutcomes.filter(outcome => outcome.warnings > 0 && !warnedNow.has(outcome.key)).length,
+        blockedKeysDelta: proposed.blockedKeys - current.blockedKeys,
+        rejectedRequestsDelta: proposed.rejectedRequests - current.rejectedRequests,
+        newlyBlockedSample: newlyBlocked.slice(0, COMPARISON_SAMPLE_SIZE)
+      }
+    }
+  }
+
+  private mergeMeta(meta: Map<string, KeyMeta>, key: string, next: KeyMeta) {
+    const existing = meta.get(key)
+
+    meta.set(key, {
+      userId: existing?.userId ?? next.userId,
+      ipPrefix: existing?.ipPrefix ?? next.ipPrefix
+    })
+  }
+
+  private summarize(
+    config: RateLimitConfig,
+    outcomes: SimulatedKeyOutcome[],
+    meta: Map<string, KeyMeta>,
+    topLimit: number
+  ): RateLimitSimulationSummary {
+    const affected = outcomes
+      .filter(outcome => outcome.blocks > 0 || outcome.warnings > 0)
+      .sort((a, b) => b.blocks - a.blocks || b.rejectedRequests - a.rejectedRequests || b.warnings - a.warnings)
+
+    return {
+      config,
+      warnedKeys: outcomes.filter(outcome => outcome.warnings > 0).length,
+      blockedKeys: outcomes.filter(outcome => outcome.blocks > 0).length,
+      warnings: outcomes.reduce((sum, outcome) => sum + outcome.warnings, 0),
+      blocks: outcomes.reduce((sum, outcome) => sum + outcome.blocks, 0),
+      rejectedRequests: outcomes.reduce((sum, outcome) => sum + outcome.rejectedRequests, 0),
+      topAffected: affected.slice(0, topLimit).map(outcome => ({
+        key: outcome.key,
+        userId: meta.get(outcome.key)?.userId ?? null,
+        ipPrefix: meta.get(outcome.key)?.ipPrefix ?? null,
+        requests: outcome.requests,
+        warnings: outcome.warnings,
+        blocks: outcome.blocks,
+        rejectedRequests: outcome.rejectedRequests,
+        firstBlockedAt: outcome.firstBlockedAt ? new Date(outcome.firstBlockedAt) : null
+      }))
+    }
+  }
+
+  private async attachUsers(entries: RateLimitSimulationKeyResult[]) {
+    const userIds = Array.from(new Set(entries.map(entry => entry.userId).filter((id): id is string => Boolean(id))))
+
+    if (!userIds.length) return
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true, email: true }
+    })
+
+    const usersById = new Map(users.map(user => [user.id, user]))
+
+    for (const entry of entries) {
+      entry.user = entry.userId ? (usersById.get(entry.userId) ?? null) : null
+    }
+  }
+}
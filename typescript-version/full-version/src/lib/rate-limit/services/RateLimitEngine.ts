@@ -21,9 +21,25 @@ import type {
   ListBlocksParams,
   BulkDeactivateBlocksParams,
   CleanupBlocksParams,
-  ManageLimitsParams
+  ManageLimitsParams,
+  BlockRangeInfo,
+  BlockMatchInfo
 } from '../types'
-import type { ConfigService, StoreManager, RateLimitEventRecorder, RateLimitEngine as IRateLimitEngine } from './interfaces'
+import type { StoreEventPayload } from '../stores/types'
+import type { EscalationStep } from '../escalation'
+import { getEffectiveViolationCount, getEscalationStep, isEscalationEnabled } from '../escalation'
+import type { ParsedCidr, ParsedIp } from '../network/ip-range'
+import { describeCidr, isIpInRange, normalizeAsn, parseCidr, parseIp } from '../network/ip-range'
+import { getBucketCapacity, resolveAlgorithm } from '../stores/algorithms'
+import type {
+  ConfigService,
+  StoreManager,
+  RateLimitEventRecorder,
+  AsnLookupService,
+  OverrideService,
+  RateLimitEngine as IRateLimitEngine
+} from './interfaces'
+import { applyRateLimitOverride } from './OverrideService'
 
 const IP_HASH_VERSION = 1
 const EMAIL_HASH_VERSION = 1
@@ -33,6 +49,32 @@ const MAX_KEY_LENGTH = 256
 const MAX_EMAIL_LENGTH = 320
 const MAX_DOMAIN_LENGTH = 255
 
+// Сброс состояния sliding-log / sliding-counter / token-bucket вместе со счётчиком
+const ALGORITHM_STATE_RESET = {
+  previousCount: 0,
+  tokens: null,
+  lastRefillAt: null,
+  requestLog: null
+} satisfies Prisma.RateLimitStateUpdateManyMutationInput
+
+// Полный сброс также обнуляет историю нарушений (эскалацию)
+const VIOLATION_HISTORY_RESET = {
+  violationCount: 0,
+  lastViolationAt: null
+} satisfies Prisma.RateLimitStateUpdateManyMutationInput
+
+// CIDR/ASN блокировки проверяются в памяти; список активных диапазонов перечитывается не чаще раза в 10 секунд
+const RANGE_BLOCKS_CACHE_TTL_MS = 10_000
+
+type RangeBlockEntry = {
+  id: string
+  module: string
+  unblockedAt: Date | null
+  cidr: string | null
+  asn: string | null
+  range: ParsedCidr | null
+}
+
 const getRateLimitSecret = (): string => {
   const secret = process.env.RATE_LIMIT_SECRET
   if (secret) return secret
@@ -80,11 +122,15 @@ const removeTestPrefix = (key: string): string => {
 }
 
 export class RateLimitEngine implements IRateLimitEngine {
+  private rangeBlocksCache: { expiresAt: number; blocks: RangeBlockEntry[] } | null = null
+
   constructor(
     private configService: ConfigService,
     private storeManager: StoreManager,
     private eventService: RateLimitEventRecorder,
-    private prisma: PrismaClient
+    private prisma: PrismaClient,
+    private asnLookup?: AsnLookupService,
+    private overrideService?: OverrideService
   ) {}
 
   getConfig(module: string) {
@@ -122,22 +168,33 @@ export class RateLimitEngine implements IRateLimitEngine {
         return activeBlock
       }
 
-      const config = await this.configService.getConfig(module)
+      const moduleConfig = await this.configService.getConfig(module)
       // Config is always returned (either from DB, defaults, or fallback template)
       // No need to check for null/undefined
 
-      if (!config.isActive) {
-        const windowMs = config.windowMs || 60000
-        const remaining = config.maxRequests ?? 999
+      if (!moduleConfig.isActive) {
+        const windowMs = moduleConfig.windowMs || 60000
+        const remaining = moduleConfig.maxRequests ?? 999
         recordCheckLimit(module, true, environment)
         return { allowed: true, remaining, resetTime: now.getTime() + windowMs }
       }
 
-      const mode: 'monitor' | 'enforce' = config.mode === 'monitor' ? 'monitor' : 'enforce'
+      const mode: 'monitor' | 'enforce' = moduleConfig.mode === 'monitor' ? 'monitor' : 'enforce'
       const keyType: 'user' | 'ip' = options?.keyType ?? (options?.userId ? 'user' : options?.ipAddress ? 'ip' : 'user')
       const eventUserId = options?.userId ?? (keyType === 'user' ? key : null)
       const rawIpAddress = options?.ipAddress ?? (keyType === 'ip' ? key : null)
 
+      // Переопределения: allowlist (пользователь, IP, CIDR), тариф текущего аккаунта, роль
+      const override = await this.resolveOverride(module, eventUserId, rawIpAddress, now)
+
+      if (override?.exempt) {
+        recordCheckLimit(module, true, environment)
+
+        return { allowed: true, remaining: moduleConfig.maxRequests, resetTime: now.getTime() + moduleConfig.windowMs }
+      }
+
+      const config = override ? applyRateLimitOverride(moduleConfig, override) : moduleConfig
+
       // Build artifacts for hashing
       const { ipHash, ipPrefix, hashVersion } = this.buildIpArtifacts(rawIpAddress)
       const shouldStoreEmail = config.storeEmailInEvents !== false
@@ -148,12 +205,18 @@ export class RateLimitEngine implements IRateLimitEngine {
 
       const warnThreshold = config.warnThreshold ?? 0
 
+      // Эскалация: длительность блокировки определяется числом недавних нарушений ключа
+      const escalation =
+        mode === 'enforce' && isEscalationEnabled(config)
+          ? getEscalationStep(config, await this.getViolationCount(prefixedKey, module, config, now))
+          : null
+
       // Используем prefixedKey для store (с префиксом test: если нужно)
       const store = await this.storeManager.getStore()
       const result = await store.consume({
         key: prefixedKey,
         module,
-        config,
+        config: escalation ? { ...config, blockMs: escalation.blockMs } : config,
         increment,
         warnThreshold,
         mode,
@@ -167,11 +230,18 @@ export class RateLimitEngine implements IRateLimitEngine {
         hashVersion,
         debugEmail: options?.debugEmail ?? null,
         environment,
-        recordEvent: (payload) => this.eventService.recordEvent(payload)
+        recordEvent: (payload) => this.recordStoreEvent(payload, escalation, now)
       })
 
       recordCheckLimit(module, result.allowed, environment)
-      return result
+
+      return {
+        ...result,
+        policy: {
+          limit: resolveAlgorithm(config) === 'token-bucket' ? getBucketCapacity(config) : config.maxRequests,
+          windowMs: config.windowMs
+        }
+      }
     } finally {
       timer()
     }
@@ -187,11 +257,15 @@ export class RateLimitEngine implements IRateLimitEngine {
         where: Object.keys(stateWhere).length ? stateWhere : undefined,
         data: {
           count: 0,
-          blockedUntil: null
+          blockedUntil: null,
+          ...ALGORITHM_STATE_RESET,
+          ...VIOLATION_HISTORY_RESET
         }
       })
 
       if (key || module) {
+        this.rangeBlocksCache = null
+
         const blockWhere: Prisma.UserBlockWhereInput = {
           isActive: true
         }
@@ -332,7 +406,9 @@ export class RateLimitEngine implements IRateLimitEngine {
           where,
           data: {
             count: 0,
-            blockedUntil: null
+            blockedUntil: null,
+            ...ALGORITHM_STATE_RESET,
+            ...VIOLATION_HISTORY_RESET
           }
         })
         affected = resetResult.count
@@ -343,7 +419,8 @@ export class RateLimitEngine implements IRateLimitEngine {
         const clearResult = await this.prisma.rateLimitState.updateMany({
           where,
           data: {
-            count: 0
+            count: 0,
+            ...ALGORITHM_STATE_RESET
           }
         })
         affected = clearResult.count
@@ -381,6 +458,71 @@ export class RateLimitEngine implements IRateLimitEngine {
     }
   }
 
+  /**
+   * Переопределение лимита для субъекта; ошибка поиска не должна ломать проверку лимита
+   */
+  private async resolveOverride(module: string, userId: string | null, ipAddress: string | null, now: Date) {
+    if (!this.overrideService) return null
+
+    try {
+      return await this.overrideService.resolve(module, { userId, ipAddress }, now)
+    } catch (error) {
+      logger.warn('[rate-limit] Failed to resolve rate limit override', {
+        module,
+        error: error instanceof Error ? error.message : error
+      })
+
+      return null
+    }
+  }
+
+  /**
+   * Число нарушений ключа с учётом lookback и затухания
+   */
+  private async getViolationCount(key: string, module: string, config: RateLimitConfig, now: Date): Promise<number> {
+    const state = await this.prisma.rateLimitState.findUnique({
+      where: { key_module: { key, module } },
+      select: { violationCount: true, lastViolationAt: true }
+    })
+
+    return state ? getEffectiveViolationCount(state, config, now) : 0
+  }
+
+  /**
+   * Запись события store; при эскалации блокировка в enforce засчитывается как нарушение
+   */
+  private async recordStoreEvent(payload: StoreEventPayload, escalation: EscalationStep | null, now: Date) {
+    if (!escalation || payload.eventType !== 'block' || payload.mode !== 'enforce') {
+      return this.eventService.recordEvent(payload)
+    }
+
+    try {
+      await this.prisma.rateLimitState.upsert({
+        where: { key_module: { key: payload.key, module: payload.module } },
+        update: { violationCount: escalation.violationNumber, lastViolationAt: now },
+        create: {
+          key: payload.key,
+          module: payload.module,
+          windowStart: payload.windowStart,
+          windowEnd: payload.windowEnd,
+          violationCount: escalation.violationNumber,
+          lastViolationAt: now
+        }
+      })
+    } catch (error) {
+      logger.warn('[rate-limit] Failed to persist violation count', {
+        error: error instanceof Error ? error.message : error,
+        module: payload.module
+      })
+    }
+
+    return this.eventService.recordEvent({
+      ...payload,
+      violationNumber: escalation.violationNumber,
+      manualReview: escalation.manualReview
+    })
+  }
+
   private async checkActiveBlocks(
     key: string,
     module: string,
@@ -429,7 +571,7 @@ export class RateLimitEngine implements IRateLimitEngine {
       if (keyIpPrefix) blockConditions.push({ ipPrefix: keyIpPrefix })
     }
 
-    const activeBlock = await this.prisma.userBlock.findFirst({
+    const exactBlock = await this.prisma.userBlock.findFirst({
       where: {
         OR: blockConditions,
         module: { in: [module, 'all'] },
@@ -443,6 +585,12 @@ export class RateLimitEngine implements IRateLimitEngine {
       }
     })
 
+    const candidateIps = [options?.ipAddress, options?.keyType === 'ip' ? originalKey : null].filter(
+      (ip): ip is string => Boolean(ip)
+    )
+
+    const activeBlock = exactBlock ?? (await this.findRangeBlock(candidateIps, module, now))
+
     if (activeBlock) {
       const blockResetTime = (activeBlock.unblockedAt ?? new Date(now.getTime() + 24 * 60 * 60 * 1000)).getTime()
       return {
@@ -456,6 +604,84 @@ export class RateLimitEngine implements IRateLimitEngine {
     return null
   }
 
+  /**
+   * Ищет активную CIDR или ASN блокировку, под которую попадает один из IP.
+   * Ошибки не прерывают проверку лимита: точные блокировки уже проверены выше.
+   */
+  private async findRangeBlock(ips: string[], module: string, now: Date): Promise<RangeBlockEntry | null> {
+    const parsedIps = ips.map(ip => parseIp(ip)).filter((ip): ip is ParsedIp => Boolean(ip))
+
+    if (!parsedIps.length) return null
+
+    try {
+      const rangeBlocks = (await this.loadRangeBlocks(now)).filter(
+        block =>
+          (block.module === module || block.module === 'all') && (!block.unblockedAt || block.unblockedAt > now)
+      )
+
+      const cidrBlock = rangeBlocks.find(block => block.range && parsedIps.some(ip => isIpInRange(ip, block.range!)))
+
+      if (cidrBlock) return cidrBlock
+
+      const asnBlocks = rangeBlocks.filter(block => block.asn)
+
+      if (!asnBlocks.length || !this.asnLookup) return null
+
+      for (const ip of ips) {
+        const record = await this.asnLookup.lookup(ip)
+        const asnBlock = record ? asnBlocks.find(block => block.asn === record.asn) : undefined
+
+        if (asnBlock) return asnBlock
+      }
+    } catch (error) {
+      logger.warn('[rate-limit] Failed to check CIDR/ASN blocks', {
+        module,
+        error: error instanceof Error ? error.message : error
+      })
+    }
+
+    return null
+  }
+
+  private async loadRangeBlocks(now: Date): Promise<RangeBlockEntry[]> {
+    if (this.rangeBlocksCache && this.rangeBlocksCache.expiresAt > now.getTime()) {
+      return this.rangeBlocksCache.blocks
+    }
+
+    const blocks = await this.prisma.userBlock.findMany({
+      where: {
+        isActive: true,
+        OR: [{ cidr: { not: null } }, { asn: { not: null } }],
+        AND: {
+          OR: [{ unblockedAt: null }, { unblockedAt: { gt: now } }]
+        }
+      },
+      select: { id: true, module: true, unblockedAt: true, cidr: true, asn: true }
+    })
+
+    const entries = blocks.map(block => ({
+      ...block,
+      asn: normalizeAsn(block.asn),
+      range: parseCidr(block.cidr)
+    }))
+
+    this.rangeBlocksCache = { expiresAt: now.getTime() + RANGE_BLOCKS_CACHE_TTL_MS, blocks: entries }
+
+    return entries
+  }
+
+  private describeBlockRange(block: { cidr: string | null; asn: string | null }): BlockRangeInfo | null {
+    const cidrRange = describeCidr(block.cidr)
+
+    if (cidrRange) {
+      return { type: 'cidr', ...cidrRange }
+    }
+
+    const asn = normalizeAsn(block.asn)
+
+    return asn ? { type: 'asn', asn } : null
+  }
+
   private hashIpAddress(ip: string | null | undefined): string | null {
     if (!ip) return null
     const hmac = crypto.createHmac('sha256', getIpHashSecret())
@@ -581,6 +807,7 @@ export class RateLimitEngine implements IRateLimitEngine {
 
     const configs = new Map<string, RateLimitConfig | undefined>()
     const items: RateLimitStateAdminEntry[] = []
+    const now = new Date()
 
     for (const state of slicedStates) {
       if (!configs.has(state.module)) {
@@ -600,7 +827,7 @@ export class RateLimitEngine implements IRateLimitEngine {
         blockedUntil: state.blockedUntil,
         remaining,
         reason: null,
-        violationNumber: null,
+        violationNumber: getEffectiveViolationCount(state, config, now) || null,
         targetIp: null,
         targetEmail: null,
         targetMailDomain: null,
@@ -667,7 +894,7 @@ export class RateLimitEngine implements IRateLimitEngine {
 
     // Добавить manual блоки в список
     for (const block of manualBlocks) {
-      const key = block.userId || block.email || block.ipAddress || block.mailDomain || block.id
+      const key = block.userId || block.email || block.ipAddress || block.mailDomain || block.cidr || block.asn || block.id
       const moduleName = block.module ?? 'all'
       
       if (!configs.has(moduleName)) {
@@ -692,6 +919,7 @@ export class RateLimitEngine implements IRateLimitEngine {
         targetMailDomain: block.mailDomain,
         targetCidr: block.cidr,
         targetAsn: block.asn,
+        targetRange: this.describeBlockRange(block),
         blockedBy: block.blockedBy,
         config,
         source: 'manual',
@@ -765,7 +993,7 @@ export class RateLimitEngine implements IRateLimitEngine {
     durationMs?: number
     overwrite?: boolean
   }) {
-    const targets: Array<{ field: 'userId' | 'email' | 'mailDomain' | 'ipAddress'; value: string }> = []
+    const targets: Array<{ field: 'userId' | 'email' | 'mailDomain' | 'ipAddress' | 'cidr' | 'asn'; value: string }> = []
     if (params.userId) targets.push({ field: 'userId', value: params.userId })
     if (params.email) {
       if (!this.validateEmail(params.email)) throw new Error('Invalid email')
@@ -780,6 +1008,20 @@ export class RateLimitEngine implements IRateLimitEngine {
       targets.push({ field: 'ipAddress', value: params.ipAddress })
     }
 
+    const cidr = params.cidr ? parseCidr(params.cidr)?.normalized ?? null : null
+
+    if (params.cidr) {
+      if (!cidr) throw new Error('Invalid CIDR range')
+      targets.push({ field: 'cidr', value: cidr })
+    }
+
+    const asn = params.asn ? normalizeAsn(params.asn) : null
+
+    if (params.asn) {
+      if (!asn) throw new Error('Invalid ASN')
+      targets.push({ field: 'asn', value: asn })
+    }
+
     for (const t of targets) {
       if (t.value.length > MAX_KEY_LENGTH) {
         throw new Error('Target value too long')
@@ -822,8 +1064,8 @@ export class RateLimitEngine implements IRateLimitEngine {
       ipAddress: params.ipAddress ?? null,
       ipHash,
       ipPrefix,
-      cidr: params.cidr ?? null,
-      asn: params.asn ?? null,
+      cidr,
+      asn,
       notes: params.notes ?? null,
       hashVersion: 1
     }
@@ -837,7 +1079,10 @@ export class RateLimitEngine implements IRateLimitEngine {
           data: blockData
         })
 
-    const keysToBlock = targets.map(t => t.value)
+    this.rangeBlocksCache = null
+
+    // Диапазоны не имеют ключа в store, они проверяются в checkActiveBlocks
+    const keysToBlock = targets.filter(t => t.field !== 'cidr' && t.field !== 'asn').map(t => t.value)
     for (const key of keysToBlock) {
       const store = await this.storeManager.getStore()
       await store.setBlock(key, params.module, blockedUntil ?? undefined)
@@ -854,6 +1099,10 @@ export class RateLimitEngine implements IRateLimitEngine {
       recordBlock(params.module, 'email', environment)
     } else if (params.mailDomain) {
       recordBlock(params.module, 'domain', environment)
+    } else if (cidr) {
+      recordBlock(params.module, 'cidr', environment)
+    } else if (asn) {
+      recordBlock(params.module, 'asn', environment)
     }
     recordBlock(params.module, 'manual', environment) // General manual block metric
 
@@ -871,6 +1120,7 @@ export class RateLimitEngine implements IRateLimitEngine {
         unblockedAt: new Date()
       }
     })
+    this.rangeBlocksCache = null
 
     const keys = [existing.userId, existing.email, existing.mailDomain, existing.ipAddress].filter(
       Boolean
@@ -925,6 +1175,10 @@ export class RateLimitEngine implements IRateLimitEngine {
       andConditions.push({ email: { not: null } })
     } else if (params.targetType === 'domain') {
       andConditions.push({ mailDomain: { not: null } })
+    } else if (params.targetType === 'cidr') {
+      andConditions.push({ cidr: { not: null } })
+    } else if (params.targetType === 'asn') {
+      andConditions.push({ asn: { not: null } })
     }
 
     if (params.blockedBy) {
@@ -959,16 +1213,55 @@ export class RateLimitEngine implements IRateLimitEngine {
           { email: { contains: params.search, mode: 'insensitive' } },
           { ipAddress: { contains: params.search, mode: 'insensitive' } },
           { mailDomain: { contains: params.search, mode: 'insensitive' } },
+          { cidr: { contains: params.search, mode: 'insensitive' } },
+          { asn: { contains: params.search, mode: 'insensitive' } },
           { reason: { contains: params.search, mode: 'insensitive' } }
         ]
       })
     }
 
+    // Для фильтра по IP отбираем кандидатов в БД, а попадание в CIDR/ASN проверяем в памяти
+    const ipFilter = params.ip ? await this.buildBlockIpFilter(params.ip) : null
+
+    if (ipFilter) {
+      andConditions.push({ OR: ipFilter.conditions })
+    }
+
     const where: Prisma.UserBlockWhereInput = andConditions.length > 0 ? { AND: andConditions } : {}
 
     const limit = params.limit && params.limit > 0 ? Math.min(params.limit, 100) : 20
     const take = limit + 1
 
+    if (ipFilter) {
+      const candidates = await this.prisma.userBlock.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          }
+        },
+        orderBy: { blockedAt: 'desc' }
+      })
+
+      const matched = candidates
+        .map(block => ({ block, match: ipFilter.match(block) }))
+        .filter((entry): entry is { block: (typeof candidates)[number]; match: BlockMatchInfo } => Boolean(entry.match))
+
+      const startIndex = params.cursor ? matched.findIndex(entry => entry.block.id === params.cursor) + 1 : 0
+      const page = matched.slice(startIndex, startIndex + limit)
+      const hasMorePage = matched.length > startIndex + limit
+
+      return {
+        items: page.map(({ block, match }) => ({ ...this.mapBlockListItem(block), match })),
+        total: matched.length,
+        nextCursor: hasMorePage && page.length > 0 ? page[page.length - 1].block.id : undefined
+      }
+    }
+
     const blocks = await this.prisma.userBlock.findMany({
       where,
       include: {
@@ -991,26 +1284,74 @@ export class RateLimitEngine implements IRateLimitEngine {
     const total = await this.prisma.userBlock.count({ where })
 
     return {
-      items: items.map(block => ({
-        id: block.id,
-        module: block.module,
-        userId: block.userId,
-        email: block.email,
-        mailDomain: block.mailDomain,
-        ipAddress: block.ipAddress,
-        reason: block.reason,
-        blockedBy: block.blockedBy,
-        blockedAt: block.blockedAt,
-        unblockedAt: block.unblockedAt,
-        isActive: block.isActive,
-        notes: block.notes,
-        user: block.user
-      })),
+      items: items.map(block => this.mapBlockListItem(block)),
       total,
       nextCursor
     }
   }
 
+  private mapBlockListItem(
+    block: UserBlock & { user: { id: string; name: string | null; email: string | null } | null }
+  ) {
+    return {
+      id: block.id,
+      module: block.module,
+      userId: block.userId,
+      email: block.email,
+      mailDomain: block.mailDomain,
+      ipAddress: block.ipAddress,
+      cidr: block.cidr,
+      asn: block.asn,
+      range: this.describeBlockRange(block),
+      reason: block.reason,
+      blockedBy: block.blockedBy,
+      blockedAt: block.blockedAt,
+      unblockedAt: block.unblockedAt,
+      isActive: block.isActive,
+      notes: block.notes,
+      user: block.user
+    }
+  }
+
+  /**
+   * Условия отбора блокировок для IP и функция, объясняющая совпадение
+   */
+  private async buildBlockIpFilter(ip: string) {
+    const parsedIp = parseIp(ip)
+    const asnRecord = parsedIp && this.asnLookup ? await this.asnLookup.lookup(ip) : null
+
+    const conditions: Prisma.UserBlockWhereInput[] = [{ ipAddress: ip }]
+
+    if (parsedIp) conditions.push({ cidr: { not: null } })
+    if (asnRecord) conditions.push({ asn: { in: [asnRecord.asn, asnRecord.asn.slice(2)] } })
+
+    const match = (block: Pick<UserBlock, 'ipAddress' | 'cidr' | 'asn'>): BlockMatchInfo | null => {
+      if (block.ipAddress === ip) {
+        return { ip, type: 'ip' }
+      }
+
+      const range = parseCidr(block.cidr)
+
+      if (parsedIp && range && isIpInRange(parsedIp, range)) {
+        return { ip, type: 'cidr', cidr: range.normalized }
+      }
+
+      if (asnRecord && normalizeAsn(block.asn) === asnRecord.asn) {
+        return {
+          ip,
+          type: 'asn',
+          asn: asnRecord.asn,
+          asnOrganization: asnRecord.organization,
+          asnNetwork: asnRecord.network
+        }
+      }
+
+      return null
+    }
+
+    return { conditions, match }
+  }
+
   /**
    * Bulk deactivate blocks by criteria
    */
@@ -1090,6 +1431,8 @@ export class RateLimitEngine implements IRateLimitEngine {
       }
     })
 
+    this.rangeBlocksCache = null
+
     // Clear cache for affected keys
     const affectedModules = new Set<string>()
     const store = await this.storeManager.getStore()
@@ -1179,6 +1522,8 @@ export class RateLimitEngine implements IRateLimitEngine {
 
     const result = await this.prisma.userBlock.deleteMany({ where })
 
+    this.rangeBlocksCache = null
+
     // Clear cache for affected keys
     const affectedModules = new Set<string>()
     const store = await this.storeManager.getStore()
@@ -126,6 +126,24 @@ export class RateLimitEventRecorder implements IRateLimitEventRecorder {
     return true
   }
 
+  /**
+   * Reason for automated UserBlock, including the violation number when escalation is enabled
+   */
+  private buildBlockReason(params: {
+    count: number
+    maxRequests: number
+    violationNumber?: number | null
+    manualReview?: boolean
+  }): string {
+    const reason = `Rate limit exceeded: ${params.count}/${params.maxRequests} requests`
+
+    if (params.manualReview) {
+      return `${reason}, violation #${params.violationNumber}: manual review required`
+    }
+
+    return params.violationNumber ? `${reason}, violation #${params.violationNumber}` : reason
+  }
+
   async recordEvent(params: {
     module: string
     key: string
@@ -145,6 +163,8 @@ export class RateLimitEventRecorder implements IRateLimitEventRecorder {
     windowEnd: Date
     blockedUntil?: Date | null
     createUserBlock?: boolean
+    violationNumber?: number | null
+    manualReview?: boolean
     environment?: 'test' | 'production'
   }): Promise<void> {
     // Deduplication: Skip warning events if they were logged recently
@@ -198,7 +218,8 @@ export class RateLimitEventRecorder implements IRateLimitEventRecorder {
         maxRequests: params.maxRequests,
         windowStart: params.windowStart,
         windowEnd: params.windowEnd,
-        blockedUntil: params.blockedUntil ?? null
+        blockedUntil: params.blockedUntil ?? null,
+        violationNumber: params.violationNumber ?? null
       }
     })
 
@@ -246,11 +267,11 @@ export class RateLimitEventRecorder implements IRateLimitEventRecorder {
               ipHash,
               ipPrefix,
               hashVersion,
-              reason: `Rate limit exceeded: ${params.count}/${params.maxRequests} requests`,
+              reason: this.buildBlockReason(params),
               blockedBy: 'system', // Automated block
               isActive: true,
               blockedAt: new Date(),
-              unblockedAt: params.blockedUntil
+              unblockedAt: params.manualReview ? null : params.blockedUntil // Ручная проверка - снимает только администратор
             }
           })
 
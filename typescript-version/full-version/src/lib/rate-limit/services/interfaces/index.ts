@@ -1,3 +1,5 @@
+import type { RateLimitOverride } from '@prisma/client'
+
 import type {
   RateLimitConfig,
   RateLimitResult,
@@ -10,8 +12,16 @@ import type {
   ListBlocksParams,
   BulkDeactivateBlocksParams,
   CleanupBlocksParams,
-  ManageLimitsParams
+  ManageLimitsParams,
+  BlockRangeInfo,
+  BlockMatchInfo,
+  ListRateLimitOverridesParams,
+  RateLimitOverrideInput,
+  RateLimitOverrideSubject,
+  RateLimitSimulationParams,
+  RateLimitSimulationResult
 } from '../../types'
+import type { AsnDatabase, AsnRecord } from '../../network/asn-database'
 
 export interface RateLimitEngine {
   getConfig(module: string): Promise<RateLimitConfig> // Always returns a config
@@ -52,6 +62,10 @@ export interface RateLimitEngine {
       email: string | null
       mailDomain: string | null
       ipAddress: string | null
+      cidr: string | null
+      asn: string | null
+      range: BlockRangeInfo | null
+      match?: BlockMatchInfo
       reason: string
       blockedBy: string
       blockedAt: Date
@@ -76,6 +90,25 @@ export interface RateLimitEngine {
   healthCheck(): Promise<{ healthy: boolean; services: Record<string, { healthy: boolean; latency?: number; error?: string }> }>
 }
 
+export interface OverrideService {
+  resolve(
+    module: string,
+    subject: RateLimitOverrideSubject,
+    now?: Date
+  ): Promise<RateLimitOverride | null>
+  list(params?: ListRateLimitOverridesParams): Promise<RateLimitOverride[]>
+  create(input: RateLimitOverrideInput): Promise<RateLimitOverride>
+  update(
+    id: string,
+    input: Partial<Omit<RateLimitOverrideInput, 'createdBy'>>
+  ): Promise<RateLimitOverride | null>
+  delete(id: string): Promise<boolean>
+}
+
+export interface PolicySimulator {
+  simulate(params: RateLimitSimulationParams): Promise<RateLimitSimulationResult>
+}
+
 export interface ConfigService {
   getConfig(module: string): Promise<RateLimitConfig> // Always returns a config (from DB, defaults, or fallback)
   updateConfig(module: string, config: Partial<RateLimitConfig>): Promise<void>
@@ -103,6 +136,8 @@ export interface RateLimitEventRecorder {
     windowEnd: Date
     blockedUntil?: Date | null
     createUserBlock?: boolean
+    violationNumber?: number | null
+    manualReview?: boolean
   }): Promise<void>
 }
 
@@ -113,6 +148,13 @@ export interface StoreManager {
   shutdown(): Promise<void>
 }
 
+export interface AsnLookupService {
+  lookup(ip: string): Promise<AsnRecord | null>
+  setDatabase(database: AsnDatabase | null): void
+  loadFromFile(filePath: string): Promise<AsnDatabase>
+  getStatus(): Promise<{ loaded: boolean; source: string | null; entries: number }>
+}
+
 export interface HealthCheckable {
   healthCheck(): Promise<{ healthy: boolean; latency?: number; error?: string }>
 }
@@ -0,0 +1,192 @@
+import type { RateLimitConfig } from './types'
+import type { ViolationHistory } from './escalation'
+import { getEffectiveViolationCount, getEscalationStep, isEscalationEnabled } from './escalation'
+import type { AlgorithmDecision, SlidingCounterState, SlidingLogState, TokenBucketState } from './stores/algorithms'
+import {
+  alignWindowStart,
+  evaluateSlidingCounter,
+  evaluateSlidingLog,
+  evaluateTokenBucket,
+  resolveAlgorithm
+} from './stores/algorithms'
+
+// Один исторический запрос ключа
+export type SimulatedRequest = {
+  key: string
+  timestamp: number
+}
+
+/**
+ * Наблюдение из RateLimitEvent: к моменту createdAt ключ сделал count запросов в окне с windowStart
+ */
+export type RecordedWindowCount = {
+  key: string
+  count: number
+  windowStart: Date
+  createdAt: Date
+}
+
+export type SimulatedKeyOutcome = {
+  key: string
+  requests: number
+  warnings: number
+  blocks: number
+  rejectedRequests: number
+  firstBlockedAt: number | null
+}
+
+// Защита от аномальных счётчиков: одно окно не восстанавливается больше чем в столько запросов
+const MAX_RECONSTRUCTED_PER_WINDOW = 10_000
+
+const groupTimestampsByKey = (requests: SimulatedRequest[]): Map<string, number[]> => {
+  const timestampsByKey = new Map<string, number[]>()
+
+  for (const request of requests) {
+    const timestamps = timestampsByKey.get(request.key) ?? []
+
+    timestamps.push(request.timestamp)
+    timestampsByKey.set(request.key, timestamps)
+  }
+
+  return timestampsByKey
+}
+
+/**
+ * Трафик для симуляции.
+ * Запросы из Event берутся как есть. RateLimitEvent хранит только счётчик окна в момент предупреждения
+ * или блокировки, поэтому недостающие до этого счётчика запросы равномерно распределяются
+ * между windowStart и createdAt.
+ */
+export const buildReplayTraffic = (
+  requests: SimulatedRequest[],
+  recordedWindows: RecordedWindowCount[]
+): { requests: SimulatedRequest[]; eventRequests: number; reconstructedRequests: number } => {
+  const timestampsByKey = groupTimestampsByKey(requests)
+
+  // Несколько событий одного окна - берём наибольший счётчик
+  const peaks = new Map<string, RecordedWindowCount>()
+
+  for (const recorded of recordedWindows) {
+    const windowKey = `${recorded.key}:${recorded.windowStart.getTime()}`
+    const current = peaks.get(windowKey)
+
+    if (!current || recorded.count > current.count) {
+      peaks.set(windowKey, recorded)
+    }
+  }
+
+  const reconstructed: SimulatedRequest[] = []
+
+  for (const peak of peaks.values()) {
+    const start = peak.windowStart.getTime()
+    const end = Math.max(start, peak.createdAt.getTime())
+    const observed = (timestampsByKey.get(peak.key) ?? []).filter(timestamp => timestamp >= start && timestamp <= end).length
+    const missing = Math.min(MAX_RECONSTRUCTED_PER_WINDOW, peak.count - observed)
+
+    for (let index = 1; index <= missing; index++) {
+      reconstructed.push({ key: peak.key, timestamp: Math.round(start + ((end - start) * index) / missing) })
+    }
+  }
+
+  return {
+    requests: [...requests, ...reconstructed],
+    eventRequests: requests.length,
+    reconstructedRequests: reconstructed.length
+  }
+}
+
+/**
+ * Прогон запросов одного ключа через алгоритм модуля в режиме enforce.
+ * Повторяет логику хранилищ: отклонённый запрос ставит блокировку на blockMs (или ступень эскалации),
+ * запросы во время блокировки отклоняются без подсчёта.
+ */
+const replayKey = (key: string, timestamps: number[], config: RateLimitConfig): SimulatedKeyOutcome => {
+  const algorithm = resolveAlgorithm(config)
+  const warnThreshold = config.warnThreshold ?? 0
+
+  const outcome: SimulatedKeyOutcome = {
+    key,
+    requests: timestamps.length,
+    warnings: 0,
+    blocks: 0,
+    rejectedRequests: 0,
+    firstBlockedAt: null
+  }
+
+  let blockedUntil = 0
+  let history: ViolationHistory = { violationCount: 0, lastViolationAt: null }
+  let fixedWindow = { windowStart: -1, count: 0 }
+  let slidingLog: SlidingLogState = { requestLog: [] }
+  let slidingCounter: SlidingCounterState = { count: 0, previousCount: 0, windowStart: new Date(0) }
+  let bucket: TokenBucketState = { tokens: null, lastRefillAt: null }
+
+  for (const timestamp of timestamps) {
+    const now = new Date(timestamp)
+
+    if (timestamp < blockedUntil) {
+      outcome.rejectedRequests += 1
+      continue
+    }
+
+    let decision: Pick<AlgorithmDecision, 'admitted' | 'count' | 'limit'>
+
+    if (algorithm === 'sliding-log') {
+      const evaluation = evaluateSlidingLog(slidingLog, now, config, true)
+
+      slidingLog = { requestLog: evaluation.requestLog }
+      decision = evaluation.decision
+    } else if (algorithm === 'sliding-counter') {
+      const evaluation = evaluateSlidingCounter(slidingCounter, now, config, true)
+
+      slidingCounter = { count: evaluation.count, previousCount: evaluation.previousCount, windowStart: evaluation.windowStart }
+      decision = evaluation.decision
+    } else if (algorithm === 'token-bucket') {
+      const evaluation = evaluateTokenBucket(bucket, now, config, true)
+
+      bucket = { tokens: evaluation.tokens, lastRefillAt: now }
+      decision = evaluation.decision
+    } else {
+      const windowStart = alignWindowStart(now, config.windowMs).getTime()
+      const count = (fixedWindow.windowStart === windowStart ? fixedWindow.count : 0) + 1
+
+      fixedWindow = { windowStart, count }
+      decision = { admitted: count <= config.maxRequests, count, limit: config.maxRequests }
+    }
+
+    if (!decision.admitted) {
+      let blockMs = config.blockMs ?? config.windowMs
+
+      if (isEscalationEnabled(config)) {
+        const step = getEscalationStep(config, getEffectiveViolationCount(history, config, now))
+
+        blockMs = step.blockMs
+        history = { violationCount: step.violationNumber, lastViolationAt: now }
+      }
+
+      blockedUntil = timestamp + blockMs
+      outcome.blocks += 1
+      outcome.rejectedRequests += 1
+      outcome.firstBlockedAt ??= timestamp
+      continue
+    }
+
+    const remainingAfter = Math.max(0, decision.limit - decision.count)
+
+    if (warnThreshold > 0 && remainingAfter > 0 && remainingAfter <= warnThreshold && remainingAfter + 1 > warnThreshold) {
+      outcome.warnings += 1
+    }
+  }
+
+  return outcome
+}
+
+/**
+ * Результат для каждого ключа, который сделал хотя бы один запрос
+ */
+export const replayTraffic = (requests: SimulatedRequest[], config: RateLimitConfig): SimulatedKeyOutcome[] => {
+  const timestampsByKey = groupTimestampsByKey(requests)
+
+  return Array.from(timestampsByKey.entries()).map(([key, timestamps]) =>
+    replayKey(key, timestamps.sort((a, b) => a - b), config)
+  )
+}
@@ -0,0 +1,182 @@
+import type { RateLimitAlgorithm, RateLimitConfig } from '../types'
+
+/**
+ * Результат оценки запроса алгоритмом.
+ * `count` - число запросов с учётом текущего (для событий и UI),
+ * `limit` - эффективный лимит алгоритма (для token-bucket это ёмкость ведра).
+ */
+export type AlgorithmDecision = {
+  admitted: boolean
+  count: number
+  limit: number
+  windowStart: Date
+  windowEnd: Date
+}
+
+export type SlidingLogState = {
+  requestLog: number[]
+}
+
+export type SlidingCounterState = {
+  count: number
+  previousCount: number
+  windowStart: Date
+}
+
+export type TokenBucketState = {
+  tokens: number | null
+  lastRefillAt: Date | null
+}
+
+export const resolveAlgorithm = (config: RateLimitConfig): RateLimitAlgorithm => config.algorithm ?? 'fixed'
+
+export const getBucketCapacity = (config: RateLimitConfig): number => {
+  const burst = config.burst ?? config.maxRequests
+
+  return Math.max(1, Math.floor(burst))
+}
+
+/**
+ * Скорость пополнения в токенах за миллисекунду.
+ * По умолчанию ведро восполняет maxRequests за windowMs - как и фиксированное окно.
+ */
+export const getRefillRatePerMs = (config: RateLimitConfig): number => {
+  if (config.refillRate && config.refillRate > 0) {
+    return config.refillRate / 1000
+  }
+
+  return config.maxRequests / Math.max(1, config.windowMs)
+}
+
+export const alignWindowStart = (now: Date, windowMs: number): Date => {
+  const timestamp = now.getTime()
+
+  return new Date(timestamp - (timestamp % windowMs))
+}
+
+export const parseRequestLog = (value: string | null | undefined): number[] => {
+  if (!value) return []
+
+  try {
+    const parsed = JSON.parse(value)
+
+    return Array.isArray(parsed) ? parsed.filter((item): item is number => typeof item === 'number') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Sliding log: храним отметки времени принятых запросов за последние windowMs.
+ * Отклонённые запросы в журнал не попадают, иначе клиент не смог бы выйти из лимита.
+ */
+export const evaluateSlidingLog = (
+  state: SlidingLogState,
+  now: Date,
+  config: RateLimitConfig,
+  increment: boolean
+): { decision: AlgorithmDecision; requestLog: number[] } => {
+  const nowMs = now.getTime()
+  const requestLog = state.requestLog.filter(timestamp => timestamp > nowMs - config.windowMs)
+  const current = requestLog.length
+  const admitted = current < config.maxRequests
+
+  if (increment && admitted) {
+    requestLog.push(nowMs)
+  }
+
+  const oldest = requestLog.length ? requestLog[0] : nowMs
+
+  return {
+    requestLog,
+    decision: {
+      admitted,
+      count: increment ? current + 1 : current,
+      limit: config.maxRequests,
+      windowStart: new Date(nowMs - config.windowMs),
+      windowEnd: new Date(oldest + config.windowMs)
+    }
+  }
+}
+
+/**
+ * Sliding counter: оценка = previousCount * (доля предыдущего окна, попадающая в скользящее) + count.
+ */
+export const evaluateSlidingCounter = (
+  state: SlidingCounterState,
+  now: Date,
+  config: RateLimitConfig,
+  increment: boolean
+): { decision: AlgorithmDecision; count: number; previousCount: number; windowStart: Date } => {
+  const windowStart = alignWindowStart(now, config.windowMs)
+  const elapsedWindows = Math.floor((windowStart.getTime() - state.windowStart.getTime()) / config.windowMs)
+
+  let count = state.count
+  let previousCount = state.previousCount
+
+  if (elapsedWindows === 1) {
+    previousCount = count
+    count = 0
+  } else if (elapsedWindows > 1 || elapsedWindows < 0) {
+    previousCount = 0
+    count = 0
+  }
+
+  const weight = (config.windowMs - (now.getTime() - windowStart.getTime())) / config.windowMs
+  const estimated = Math.floor(previousCount * weight) + count
+  const admitted = estimated < config.maxRequests
+
+  if (increment && admitted) {
+    count += 1
+  }
+
+  return {
+    count,
+    previousCount,
+    windowStart,
+    decision: {
+      admitted,
+      count: increment ? estimated + 1 : estimated,
+      limit: config.maxRequests,
+      windowStart,
+      windowEnd: new Date(windowStart.getTime() + config.windowMs)
+    }
+  }
+}
+
+/**
+ * Token bucket: ведро ёмкостью burst пополняется со скоростью refillRate, каждый запрос забирает один токен.
+ */
+export const evaluateTokenBucket = (
+  state: TokenBucketState,
+  now: Date,
+  config: RateLimitConfig,
+  increment: boolean
+): { decision: AlgorithmDecision; tokens: number } => {
+  const capacity = getBucketCapacity(config)
+  const refillPerMs = getRefillRatePerMs(config)
+  const nowMs = now.getTime()
+  const lastRefillMs = state.lastRefillAt ? state.lastRefillAt.getTime() : nowMs
+  const storedTokens = state.tokens ?? capacity
+
+  let tokens = Math.min(capacity, storedTokens + Math.max(0, nowMs - lastRefillMs) * refillPerMs)
+  const admitted = tokens >= 1
+
+  if (increment && admitted) {
+    tokens -= 1
+  }
+
+  const used = capacity - Math.floor(tokens)
+  const msUntilFull = refillPerMs > 0 ? Math.ceil((capacity - tokens) / refillPerMs) : 0
+
+  return {
+    tokens,
+    decision: {
+      admitted,
+      count: increment && !admitted ? capacity + 1 : used,
+      limit: capacity,
+      windowStart: now,
+      windowEnd: new Date(nowMs + msUntilFull)
+    }
+  }
+}
@@ -1,7 +1,16 @@
-import type { PrismaClient } from '@prisma/client'
+import type { Prisma, PrismaClient } from '@prisma/client'
 
 import type { RateLimitStore, RateLimitConsumeParams, StoreEventPayload } from './types'
 import type { RateLimitResult } from '../types'
+import type { AlgorithmDecision } from './algorithms'
+import {
+  alignWindowStart,
+  evaluateSlidingCounter,
+  evaluateSlidingLog,
+  evaluateTokenBucket,
+  parseRequestLog,
+  resolveAlgorithm
+} from './algorithms'
 
 type TransactionOutcome = {
   result: RateLimitResult
@@ -13,6 +22,10 @@ export class PrismaRateLimitStore implements RateLimitStore {
   constructor(private prisma: PrismaClient) {}
 
   async consume(params: RateLimitConsumeParams): Promise<RateLimitResult> {
+    if (resolveAlgorithm(params.config) !== 'fixed') {
+      return this.consumeWithAlgorithm(params)
+    }
+
     const {
       key,
       module,
@@ -266,6 +279,201 @@ export class PrismaRateLimitStore implements RateLimitStore {
     return outcome.result
   }
 
+  /**
+   * sliding-log, sliding-counter и token-bucket.
+   * Строка состояния блокируется через SELECT ... FOR UPDATE, поэтому параллельные запросы
+   * по одному ключу обрабатываются последовательно.
+   */
+  private async consumeWithAlgorithm(params: RateLimitConsumeParams): Promise<RateLimitResult> {
+    const { key, module, config, increment, warnThreshold, mode, now, recordEvent } = params
+    const algorithm = resolveAlgorithm(config)
+
+    const outcome = await this.prisma.$transaction(async tx => {
+      const initialWindowStart = alignWindowStart(now, config.windowMs)
+
+      await tx.rateLimitState.upsert({
+        where: { key_module: { key, module } },
+        create: {
+          key,
+          module,
+          count: 0,
+          windowStart: initialWindowStart,
+          windowEnd: new Date(initialWindowStart.getTime() + config.windowMs),
+          blockedUntil: null
+        },
+        update: {}
+      })
+
+      await tx.$queryRaw`SELECT "id" FROM "RateLimitState" WHERE "key" = ${key} AND "module" = ${module} FOR UPDATE`
+
+      const state = await tx.rateLimitState.findUnique({
+        where: { key_module: { key, module } }
+      })
+
+      if (!state) {
+        return {
+          result: {
+            allowed: true,
+            remaining: config.maxRequests,
+            resetTime: now.getTime() + config.windowMs
+          }
+        } as TransactionOutcome
+      }
+
+      if (state.blockedUntil && state.blockedUntil > now) {
+        if (mode === 'enforce') {
+          return {
+            result: {
+              allowed: false,
+              remaining: 0,
+              resetTime: state.blockedUntil.getTime(),
+              blockedUntil: state.blockedUntil.getTime()
+            }
+          } as TransactionOutcome
+        }
+
+        await tx.rateLimitState.update({
+          where: { key_module: { key, module } },
+          data: { blockedUntil: null }
+        })
+      }
+
+      let decision: AlgorithmDecision
+      let data: Prisma.RateLimitStateUpdateInput
+
+      if (algorithm === 'sliding-log') {
+        const evaluation = evaluateSlidingLog({ requestLog: parseRequestLog(state.requestLog) }, now, config, increment)
+
+        decision = evaluation.decision
+        data = {
+          count: evaluation.requestLog.length,
+          requestLog: JSON.stringify(evaluation.requestLog)
+        }
+      } else if (algorithm === 'sliding-counter') {
+        const evaluation = evaluateSlidingCounter(
+          { count: state.count, previousCount: state.previousCount, windowStart: state.windowStart },
+          now,
+          config,
+          increment
+        )
+
+        decision = evaluation.decision
+        data = {
+          count: evaluation.count,
+          previousCount: evaluation.previousCount
+        }
+      } else {
+        const evaluation = evaluateTokenBucket(
+          { tokens: state.tokens, lastRefillAt: state.lastRefillAt },
+          now,
+          config,
+          increment
+        )
+
+        decision = evaluation.decision
+        data = {
+          count: Math.min(decision.count, decision.limit),
+          tokens: evaluation.tokens,
+          lastRefillAt: now
+        }
+      }
+
+      if (!increment) {
+        const remainingBefore = Math.max(0, decision.limit - decision.count)
+        const warnPreview = warnThreshold > 0 && remainingBefore > 0 && remainingBefore <= warnThreshold
+
+        return {
+          result: {
+            allowed: true,
+            remaining: remainingBefore,
+            resetTime: decision.windowEnd.getTime(),
+            warning: warnPreview ? { remaining: remainingBefore } : undefined
+          }
+        } as TransactionOutcome
+      }
+
+      const blockedUntil =
+        !decision.admitted && mode === 'enforce' ? new Date(now.getTime() + (config.blockMs ?? config.windowMs)) : null
+
+      await tx.rateLimitState.update({
+        where: { key_module: { key, module } },
+        data: {
+          ...data,
+          windowStart: decision.windowStart,
+          windowEnd: decision.windowEnd,
+          ...(blockedUntil ? { blockedUntil } : {})
+        }
+      })
+
+      const eventBase = {
+        module,
+        key,
+        userId: params.userId,
+        email: params.email,
+        emailHash: params.emailHash,
+        ipAddress: params.ipAddress,
+        ipHash: params.ipHash,
+        ipPrefix: params.ipPrefix,
+        hashVersion: params.hashVersion,
+        debugEmail: params.debugEmail,
+        mode,
+        count: decision.count,
+        maxRequests: decision.limit,
+        windowStart: decision.windowStart,
+        windowEnd: decision.windowEnd,
+        environment: params.environment // Передаем environment для различения тестовых и реальных событий
+      }
+
+      if (!decision.admitted) {
+        return {
+          blockEvent: {
+            ...eventBase,
+            eventType: 'block',
+            blockedUntil,
+            createUserBlock: mode === 'enforce' // Save to UserBlock for long-term storage
+          },
+          result: blockedUntil
+            ? {
+                allowed: false,
+                remaining: 0,
+                resetTime: decision.windowEnd.getTime(),
+                blockedUntil: blockedUntil.getTime()
+              }
+            : {
+                allowed: true,
+                remaining: 0,
+                resetTime: decision.windowEnd.getTime(),
+                warning: { remaining: 0 }
+              }
+        } as TransactionOutcome
+      }
+
+      const remainingAfter = Math.max(0, decision.limit - decision.count)
+      const showWarningAfter = warnThreshold > 0 && remainingAfter > 0 && remainingAfter <= warnThreshold
+      const warnTriggered = showWarningAfter && remainingAfter + 1 > warnThreshold
+
+      return {
+        warningEvent: warnTriggered ? { ...eventBase, eventType: 'warning', blockedUntil: null } : undefined,
+        result: {
+          allowed: true,
+          remaining: remainingAfter,
+          resetTime: decision.windowEnd.getTime(),
+          warning: showWarningAfter ? { remaining: remainingAfter } : undefined
+        }
+      } as TransactionOutcome
+    })
+
+    if (outcome.warningEvent) {
+      await recordEvent(outcome.warningEvent)
+    }
+
+    if (outcome.blockEvent) {
+      await recordEvent(outcome.blockEvent)
+    }
+
+    return outcome.result
+  }
+
   async resetCache(_key?: string, _module?: string): Promise<void> {
     // Prisma backend stores state in the database, nothing to clear
     return
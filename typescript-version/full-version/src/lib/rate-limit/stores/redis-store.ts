@@ -1,8 +1,92 @@
 import type { RateLimitStore, RateLimitConsumeParams } from './types'
 import type { RateLimitResult } from '../types'
+import { alignWindowStart, getBucketCapacity, getRefillRatePerMs, resolveAlgorithm } from './algorithms'
 
 const KEY_PREFIX = 'materio:ratelimit'
 
+// Скрипты выполняются атомарно на стороне Redis, поэтому параллельные запросы не обгоняют друг друга.
+// ARGV: now, windowMs, maxRequests, increment (1/0), member
+const SLIDING_LOG_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local increment = tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+local admitted = 0
+if count < limit then
+  admitted = 1
+  if increment == 1 then
+    redis.call('ZADD', key, now, ARGV[5])
+    redis.call('PEXPIRE', key, window)
+  end
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local oldestTs = now
+if oldest[2] then oldestTs = tonumber(oldest[2]) end
+return {admitted, count, oldestTs}
+`
+
+// KEYS: current bucket, previous bucket. ARGV: now, windowMs, maxRequests, increment (1/0), windowStart
+const SLIDING_COUNTER_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local increment = tonumber(ARGV[4])
+local windowStart = tonumber(ARGV[5])
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local weight = (window - (now - windowStart)) / window
+local estimated = math.floor(previous * weight) + current
+local admitted = 0
+if estimated < limit then
+  admitted = 1
+  if increment == 1 then
+    redis.call('INCR', KEYS[1])
+    redis.call('PEXPIRE', KEYS[1], window * 2)
+  end
+end
+return {admitted, estimated}
+`
+
+// ARGV: now, capacity, refillPerMs, increment (1/0)
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local refillPerMs = tonumber(ARGV[3])
+local increment = tonumber(ARGV[4])
+local data = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(data[1])
+local ts = tonumber(data[2])
+if tokens == nil then
+  tokens = capacity
+  ts = now
+end
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refillPerMs)
+local admitted = 0
+if tokens >= 1 then
+  admitted = 1
+  if increment == 1 then tokens = tokens - 1 end
+end
+if increment == 1 then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+  local ttl = 1000
+  if refillPerMs > 0 then ttl = math.max(ttl, math.ceil(capacity / refillPerMs)) end
+  redis.call('PEXPIRE', KEYS[1], ttl)
+end
+return {admitted, tostring(tokens)}
+`
+
+type ConsumeOutcome = {
+  newCount: number
+  limit: number
+  exceeded: boolean
+  ttl: number
+  windowStart: Date
+  windowEnd: Date
+}
+
 type RedisPipeline = {
   incr(key: string): RedisPipeline
   pttl(key: string): RedisPipeline
@@ -22,6 +106,7 @@ type RedisInstance = {
   del(...keys: string[]): Promise<number>
   scan(cursor: string, matchCmd: 'MATCH', pattern: string, countCmd: 'COUNT', count: number): Promise<[string, string[]]>
   set(key: string, value: string): Promise<string | null>
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>
 }
 
 type RedisConstructor = new (url: string, options?: Record<string, unknown>) => RedisInstance
@@ -86,24 +171,7 @@ export class RedisRateLimitStore implements RateLimitStore {
   async consume(params: RateLimitConsumeParams): Promise<RateLimitResult> {
     await this.ensureConnected()
 
-    const {
-      key,
-      module,
-      config,
-      increment,
-      warnThreshold,
-      mode,
-      now,
-      userId,
-      email,
-      emailHash,
-      ipAddress,
-      ipHash,
-      ipPrefix,
-      hashVersion,
-      debugEmail,
-      recordEvent
-    } = params
+    const { key, module, config, increment, warnThreshold, now } = params
 
     const blockKey = this.blockKey(module, key)
     const countKey = this.countKey(module, key)
@@ -119,6 +187,24 @@ export class RedisRateLimitStore implements RateLimitStore {
       }
     }
 
+    if (resolveAlgorithm(config) !== 'fixed') {
+      const outcome = await this.evaluateAlgorithm(params)
+
+      if (!increment) {
+        const remainingBefore = Math.max(0, outcome.limit - outcome.newCount)
+        const shouldWarn = warnThreshold > 0 && remainingBefore > 0 && remainingBefore <= warnThreshold
+
+        return {
+          allowed: true,
+          remaining: remainingBefore,
+          resetTime: outcome.windowEnd.getTime(),
+          warning: shouldWarn ? { remaining: remainingBefore } : undefined
+        }
+      }
+
+      return this.settle(params, outcome)
+    }
+
     if (!increment) {
       const currentCount = Number((await this.redis.get(countKey)) ?? 0)
       let ttl = await this.redis.pttl(countKey)
@@ -148,7 +234,42 @@ export class RedisRateLimitStore implements RateLimitStore {
     const windowEnd = new Date(now.getTime() + ttl)
     const windowStart = new Date(windowEnd.getTime() - config.windowMs)
 
-    if (newCount > config.maxRequests) {
+    return this.settle(params, {
+      newCount,
+      limit: config.maxRequests,
+      exceeded: newCount > config.maxRequests,
+      ttl,
+      windowStart,
+      windowEnd
+    })
+  }
+
+  /**
+   * Общая обработка результата подсчёта: блокировка, предупреждения и запись событий
+   */
+  private async settle(params: RateLimitConsumeParams, outcome: ConsumeOutcome): Promise<RateLimitResult> {
+    const {
+      key,
+      module,
+      config,
+      warnThreshold,
+      mode,
+      now,
+      userId,
+      email,
+      emailHash,
+      ipAddress,
+      ipHash,
+      ipPrefix,
+      hashVersion,
+      debugEmail,
+      recordEvent
+    } = params
+
+    const { newCount, limit, ttl, windowStart, windowEnd } = outcome
+    const blockKey = this.blockKey(module, key)
+
+    if (outcome.exceeded) {
       const blockDuration = config.blockMs ?? config.windowMs
       const blockedUntil = new Date(now.getTime() + blockDuration)
       if (mode === 'enforce') {
@@ -179,7 +300,7 @@ export class RedisRateLimitStore implements RateLimitStore {
           eventType: 'block',
           mode,
           count: newCount,
-          maxRequests: config.maxRequests,
+          maxRequests: limit,
           windowStart,
           windowEnd,
           blockedUntil: mode === 'enforce' ? blockedUntil : null,
@@ -208,12 +329,12 @@ export class RedisRateLimitStore implements RateLimitStore {
       }
     }
 
-    const remainingAfter = Math.max(0, config.maxRequests - newCount)
+    const remainingAfter = Math.max(0, limit - newCount)
     const shouldWarnAfter =
       warnThreshold > 0 &&
       remainingAfter > 0 &&
       remainingAfter <= warnThreshold &&
-      remainingAfter < Math.max(0, config.maxRequests - (newCount - 1))
+      remainingAfter < Math.max(0, limit - (newCount - 1))
 
     if (shouldWarnAfter) {
       await recordEvent({
@@ -231,7 +352,7 @@ export class RedisRateLimitStore implements RateLimitStore {
         environment: params.environment, // Передаем environment для различения тестовых и реальных событий
         mode,
         count: newCount,
-        maxRequests: config.maxRequests,
+        maxRequests: limit,
         windowStart,
         windowEnd,
         blockedUntil: null
@@ -246,6 +367,96 @@ export class RedisRateLimitStore implements RateLimitStore {
     }
   }
 
+  /**
+   * Подсчёт для sliding-log, sliding-counter и token-bucket через Lua-скрипты
+   */
+  private async evaluateAlgorithm(params: RateLimitConsumeParams): Promise<ConsumeOutcome> {
+    const { key, module, config, increment, now } = params
+    const nowMs = now.getTime()
+    const incrementFlag = increment ? 1 : 0
+    const algorithm = resolveAlgorithm(config)
+
+    if (algorithm === 'sliding-log') {
+      const member = `${nowMs}:${Math.random().toString(36).slice(2, 10)}`
+
+      const [admitted, count, oldest] = (await this.redis.eval(
+        SLIDING_LOG_SCRIPT,
+        1,
+        this.algorithmKey(module, key, 'log'),
+        nowMs,
+        config.windowMs,
+        config.maxRequests,
+        incrementFlag,
+        member
+      )) as [number, number, number]
+
+      const windowEnd = new Date(Number(oldest) + config.windowMs)
+
+      return {
+        newCount: Number(count) + incrementFlag,
+        limit: config.maxRequests,
+        exceeded: Number(admitted) !== 1,
+        ttl: Math.max(0, windowEnd.getTime() - nowMs),
+        windowStart: new Date(nowMs - config.windowMs),
+        windowEnd
+      }
+    }
+
+    if (algorithm === 'sliding-counter') {
+      const windowStart = alignWindowStart(now, config.windowMs)
+      const bucket = Math.floor(windowStart.getTime() / config.windowMs)
+
+      const [admitted, estimated] = (await this.redis.eval(
+        SLIDING_COUNTER_SCRIPT,
+        2,
+        this.algorithmKey(module, key, `sc:${bucket}`),
+        this.algorithmKey(module, key, `sc:${bucket - 1}`),
+        nowMs,
+        config.windowMs,
+        config.maxRequests,
+        incrementFlag,
+        windowStart.getTime()
+      )) as [number, number]
+
+      const windowEnd = new Date(windowStart.getTime() + config.windowMs)
+
+      return {
+        newCount: Number(estimated) + incrementFlag,
+        limit: config.maxRequests,
+        exceeded: Number(admitted) !== 1,
+        ttl: windowEnd.getTime() - nowMs,
+        windowStart,
+        windowEnd
+      }
+    }
+
+    const capacity = getBucketCapacity(config)
+    const refillPerMs = getRefillRatePerMs(config)
+
+    const [admitted, tokensRaw] = (await this.redis.eval(
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      this.algorithmKey(module, key, 'tb'),
+      nowMs,
+      capacity,
+      refillPerMs,
+      incrementFlag
+    )) as [number, string]
+
+    const tokens = Number(tokensRaw)
+    const exceeded = Number(admitted) !== 1
+    const msUntilFull = refillPerMs > 0 ? Math.ceil((capacity - tokens) / refillPerMs) : 0
+
+    return {
+      newCount: increment && exceeded ? capacity + 1 : capacity - Math.floor(tokens),
+      limit: capacity,
+      exceeded,
+      ttl: Math.max(1000, msUntilFull),
+      windowStart: now,
+      windowEnd: new Date(nowMs + msUntilFull)
+    }
+  }
+
   async setBlock(key: string, module: string, blockedUntil?: Date | null): Promise<void> {
     await this.ensureConnected()
     const blockKey = this.blockKey(module, key)
@@ -288,6 +499,7 @@ export class RedisRateLimitStore implements RateLimitStore {
         this.blockKey(module, key)
       )
       await this.deleteByPattern(this.blockMetaPattern(module, key))
+      await this.deleteByPattern(`${KEY_PREFIX}:algo:${module}:${key}:*`)
       return
     }
 
@@ -299,6 +511,7 @@ export class RedisRateLimitStore implements RateLimitStore {
     if (module && !key) {
       await this.deleteByPattern(`${KEY_PREFIX}:count:${module}:*`)
       await this.deleteByPattern(`${KEY_PREFIX}:block:${module}:*`)
+      await this.deleteByPattern(`${KEY_PREFIX}:algo:${module}:*`)
       await this.deleteByPattern(this.blockMetaPattern(module))
       return
     }
@@ -307,6 +520,7 @@ export class RedisRateLimitStore implements RateLimitStore {
       await this.deleteByPattern(`${KEY_PREFIX}:count:*:${key}`)
       await this.deleteByPattern(`${KEY_PREFIX}:block:*:${key}`)
       await this.deleteByPattern(`${KEY_PREFIX}:meta:block:*:${key}:*`)
+      await this.deleteByPattern(`${KEY_PREFIX}:algo:*:${key}:*`)
     }
   }
 
@@ -361,6 +575,10 @@ export class RedisRateLimitStore implements RateLimitStore {
     return `${KEY_PREFIX}:block:${module}:${key}`
   }
 
+  private algorithmKey(module: string, key: string, suffix: string) {
+    return `${KEY_PREFIX}:algo:${module}:${key}:${suffix}`
+  }
+
   private blockEventMetaKey(module: string, key: string, windowMs: number, windowStart: Date) {
     const windowBucket = Math.floor(windowStart.getTime() / windowMs)
     return `${KEY_PREFIX}:meta:block:${module}:${key}:${windowBucket}`
@@ -19,6 +19,8 @@ export type StoreEventPayload = {
   windowEnd: Date
   blockedUntil?: Date | null
   createUserBlock?: boolean // Whether to create UserBlock record
+  violationNumber?: number | null // Номер нарушения при эскалации блокировок
+  manualReview?: boolean // Лестница исчерпана - блокировка до ручной проверки
   environment?: 'test' | 'production' // Environment для различения тестовых и реальных метрик
 }
 
@@ -1,9 +1,27 @@
 import type { User, UserBlock } from '@prisma/client'
 
+/**
+ * Алгоритм подсчёта запросов:
+ * - fixed: фиксированное окно (windowStart/windowEnd)
+ * - sliding-log: точный журнал запросов за последние windowMs
+ * - sliding-counter: взвешенная сумма текущего и предыдущего окна
+ * - token-bucket: ведро токенов с пополнением refillRate и ёмкостью burst
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding-log' | 'sliding-counter' | 'token-bucket'
+
+export const RATE_LIMIT_ALGORITHMS: readonly RateLimitAlgorithm[] = ['fixed', 'sliding-log', 'sliding-counter', 'token-bucket']
+
 export interface RateLimitConfig {
   maxRequests: number
   windowMs: number
   blockMs?: number
+  algorithm?: RateLimitAlgorithm
+  refillRate?: number | null // token-bucket: токенов в секунду (по умолчанию maxRequests / windowMs)
+  burst?: number | null // token-bucket: ёмкость ведра (по умолчанию maxRequests)
+  escalationLadder?: number[] | null // длительности блокировки (мс) для 1-го, 2-го, ... нарушения; пусто - всегда blockMs
+  escalationLookbackMs?: number | null // нарушения старше этого периода не учитываются
+  escalationDecayMs?: number | null // каждый такой чистый период снижает уровень нарушений на 1
+  escalationManualReview?: boolean // после исчерпания лестницы - блокировка до ручной проверки
   warnThreshold?: number
   isActive?: boolean
   mode?: 'monitor' | 'enforce'
@@ -12,11 +30,110 @@ export interface RateLimitConfig {
   isFallback?: boolean
 }
 
+/**
+ * Цель переопределения лимита. При нескольких совпадениях побеждает первая по порядку
+ * RATE_LIMIT_OVERRIDE_TARGETS: allowlist (user, ip, cidr), затем тариф текущего аккаунта, затем роль.
+ */
+export type RateLimitOverrideTarget = 'user' | 'ip' | 'cidr' | 'tariff' | 'role'
+
+export const RATE_LIMIT_OVERRIDE_TARGETS: readonly RateLimitOverrideTarget[] = ['user', 'ip', 'cidr', 'tariff', 'role']
+
+export interface RateLimitOverrideInput {
+  module: string // модуль или 'all'
+  targetType: RateLimitOverrideTarget
+  targetValue: string
+  maxRequests?: number | null
+  windowMs?: number | null
+  blockMs?: number | null
+  exempt?: boolean
+  reason?: string | null
+  expiresAt?: Date | null
+  isActive?: boolean
+  createdBy?: string | null
+}
+
+export interface RateLimitOverrideSubject {
+  userId?: string | null
+  ipAddress?: string | null
+}
+
+export interface ListRateLimitOverridesParams {
+  module?: string
+  targetType?: RateLimitOverrideTarget
+  includeInactive?: boolean
+}
+
+/**
+ * Параметры симуляции политики: предлагаемая конфигурация накладывается на текущую конфигурацию модуля
+ * и прогоняется по трафику за период. `eventModule`/`eventTypes` - какие записи Event считать запросами
+ * (по умолчанию все события модуля с тем же именем, кроме событий самого rate limit).
+ */
+export interface RateLimitSimulationParams {
+  module: string
+  config: Partial<RateLimitConfig>
+  from: Date
+  to: Date
+  eventModule?: string
+  eventTypes?: string[]
+  topLimit?: number
+}
+
+export interface RateLimitSimulationKeyResult {
+  key: string
+  userId: string | null
+  ipPrefix: string | null
+  requests: number
+  warnings: number
+  blocks: number
+  rejectedRequests: number
+  firstBlockedAt: Date | null
+  user?: { id: string; name: string | null; email: string | null } | null
+}
+
+export interface RateLimitSimulationSummary {
+  config: RateLimitConfig
+  warnedKeys: number
+  blockedKeys: number
+  warnings: number
+  blocks: number
+  rejectedRequests: number
+  topAffected: RateLimitSimulationKeyResult[]
+}
+
+export interface RateLimitSimulationResult {
+  module: string
+  from: Date
+  to: Date
+  traffic: {
+    keys: number
+    requests: number
+    eventRequests: number // запросы из Event
+    reconstructedRequests: number // запросы, восстановленные по счётчикам RateLimitEvent
+    truncated: boolean
+  }
+  current: RateLimitSimulationSummary
+  proposed: RateLimitSimulationSummary
+  comparison: {
+    newlyBlockedKeys: number // блокируются только с предлагаемой конфигурацией
+    noLongerBlockedKeys: number // блокируются только с текущей конфигурацией
+    newlyWarnedKeys: number
+    blockedKeysDelta: number
+    rejectedRequestsDelta: number
+    newlyBlockedSample: string[]
+  }
+}
+
 export interface RateLimitResult {
   allowed: boolean
   remaining: number
   resetTime: number
   blockedUntil?: number
+
+  // Действующий лимит с учётом переопределения (для заголовка RateLimit-Policy)
+  policy?: {
+    limit: number
+    windowMs: number
+  }
   warning?: {
     remaining: number
     blockedUntil?: number
@@ -81,6 +198,7 @@ export interface RateLimitStateAdminEntry {
   targetMailDomain?: string | null
   targetCidr?: string | null
   targetAsn?: string | null
+  targetRange?: BlockRangeInfo | null
   blockedBy?: string | null
   blockedByUser?: Pick<User, 'id' | 'email'> | null
   config: RateLimitConfig
@@ -120,11 +238,37 @@ export interface RateLimitEventAdminEntry {
   user?: Pick<import('@prisma/client').User, 'id' | 'name' | 'email'> | null
 }
 
+/**
+ * Диапазон адресов, который покрывает блокировка (для CIDR - границы сети, для ASN - данные из базы ASN)
+ */
+export interface BlockRangeInfo {
+  type: 'cidr' | 'asn'
+  cidr?: string
+  version?: 4 | 6
+  firstAddress?: string
+  lastAddress?: string
+  addressCount?: string
+  asn?: string
+}
+
+/**
+ * Почему блокировка применяется к запрошенному IP (GET /api/admin/rate-limits/blocks?ip=...)
+ */
+export interface BlockMatchInfo {
+  ip: string
+  type: 'ip' | 'cidr' | 'asn'
+  cidr?: string
+  asn?: string
+  asnOrganization?: string | null
+  asnNetwork?: string | null
+}
+
 export interface ListBlocksParams {
   module?: string
   isActive?: boolean
   blockType?: 'automatic' | 'manual' | 'all'
-  targetType?: 'user' | 'ip' | 'email' | 'domain' | 'all'
+  targetType?: 'user' | 'ip' | 'email' | 'domain' | 'cidr' | 'asn' | 'all'
+  ip?: string // только блокировки, которые срабатывают для этого IP (точный адрес, CIDR или ASN)
   blockedBy?: string
   createdBefore?: Date
   createdAfter?: Date
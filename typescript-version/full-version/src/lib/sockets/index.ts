@@ -17,6 +17,8 @@ import { authenticateSocket } from './middleware/auth'
 import { errorHandler, handleDisconnect, heartbeat } from './middleware/errorHandler'
 import { initializeChatNamespace } from './namespaces/chat'
 import { initializeNotificationNamespace } from './namespaces/notifications'
+import { subscribeToRolePermissionChanges } from './utils/role-permissions'
+import { subscribeToSessionRevocations } from './utils/session-revocation'
 import type { ClientToServerEvents, ServerToClientEvents, TypedIOServer, TypedSocket } from './types/common'
 
 // Глобальная переменная для хранения io instance
@@ -94,6 +96,12 @@ export const initializeSocketServer = async (httpServer: HTTPServer): Promise<Ty
   // Инициализация namespaces
   initializeNamespaces();
 
+  // Пересчёт разрешений подключённых сокетов при изменении ролей
+  await subscribeToRolePermissionChanges()
+
+  // Отключение сокетов отозванных сессий
+  await subscribeToSessionRevocations()
+
   // Обработка подключений
   io.on('connection', handleConnection);
 
@@ -2,7 +2,8 @@ import type { ExtendedError } from 'socket.io'
 import { authLogger } from '../../logger'
 import type { Permission, TypedSocket, User, UserRole } from '../types/common'
 import { lucia } from '../../../libs/lucia'
-import { prisma } from '@/libs/prisma'
+import { resolveSocketPermissions } from '../utils/permissions'
+import { getSocketRole, type SocketRole } from '../utils/role-permissions'
 
 type LuciaValidationResult = Awaited<ReturnType<typeof lucia.validateSession>>
 type LuciaUser = NonNullable<LuciaValidationResult['user']>
@@ -52,7 +53,7 @@ export const authenticateSocket = async (socket: TypedSocket, next: (err?: Exten
       ip: socket.handshake.address
     })
 
-    if (!session || !user) {
+    if (!session || !user || session.twoFactorState) {
       authLogger.warn('Invalid Lucia session', {
         socketId: socket.id,
         ip: socket.handshake.address
@@ -66,7 +67,8 @@ export const authenticateSocket = async (socket: TypedSocket, next: (err?: Exten
       user: socketUser,
       authenticated: true,
       connectedAt: new Date(),
-      lastActivity: new Date()
+      lastActivity: new Date(),
+      sessionId: session.id
     }
 
     socket.userId = socketUser.id
@@ -174,51 +176,24 @@ const mapRoleName = (roleName?: string | null): UserRole => {
   return ROLE_CODE_MAP[normalized] ?? 'user'
 }
 
-const getDefaultPermissions = (role: UserRole): Permission[] => {
-  const rolePermissions: Record<UserRole, Permission[]> = {
-    admin: ['send_message', 'receive_notifications', 'send_notification', 'moderate_chat', 'view_admin_panel'],
-    moderator: ['send_message', 'receive_notifications', 'send_notification', 'moderate_chat'],
-    user: ['send_message', 'receive_notifications', 'send_notification'],
-    guest: ['receive_notifications', 'send_notification']
-  }
-
-  return rolePermissions[role] ?? []
-}
-
-const ensureReceivePermission = (permissions: Permission[]): Permission[] => {
-  return permissions.includes('receive_notifications') ? permissions : [...permissions, 'receive_notifications']
-}
-
-const resolveUserRole = async (roleId?: string | null): Promise<UserRole> => {
-  if (!roleId) {
-    return 'user'
-  }
+// Разрешения берутся из Role.permissions (через role-cache), как в HTTP-роутах
+const buildSocketUser = async (user: LuciaUser): Promise<User> => {
+  let role: SocketRole | null = null
 
   try {
-    const role = await prisma.role.findUnique({
-      where: { id: roleId },
-      select: { code: true, name: true }
-    })
-
-    // Use code first, then name as fallback
-    return mapRoleToSocketRole(role?.code, role?.name)
+    role = await getSocketRole(user.roleId)
   } catch (error) {
     authLogger.error('Failed to resolve role for socket user', {
-      roleId,
+      roleId: user.roleId,
       error: error instanceof Error ? error.message : 'Unknown error'
     })
-    return 'user'
   }
-}
-
-const buildSocketUser = async (user: LuciaUser): Promise<User> => {
-  const role = await resolveUserRole(user.roleId)
-  const permissions = ensureReceivePermission(getDefaultPermissions(role))
 
   return {
     id: user.id,
-    role,
-    permissions,
+    role: mapRoleToSocketRole(role?.code, role?.name),
+    roleId: user.roleId ?? null,
+    permissions: role ? resolveSocketPermissions(role.permissions) : ['receive_notifications'],
     name: user.name ?? undefined,
     email: user.email ?? undefined
   }
@@ -1,12 +1,42 @@
 import type { Namespace } from 'socket.io'
 import logger from '../../../logger'
 import type { ServerToClientEvents, TypedIOServer, TypedSocket } from '../../types/common'
-import { ChatEvents, ChatEmitEvents, ChatMessage, ChatRoom } from '../../types/chat';
+import type {
+  ChatMessage,
+  ChatRoom,
+  MessageActionAck,
+  RoomActionAck,
+  RoomMembersUpdatedData,
+  SendMessageData
+} from '../../types/chat';
 import { authenticateSocket, requirePermission, requireRole } from '../../middleware/auth';
 import { rateLimitChatConnections } from '../../middleware/rateLimit';
+import { NAMESPACE_PERMISSIONS, hasPermission } from '../../utils/permissions';
 import { rateLimitService } from '@/lib/rate-limit';
 import { prisma } from '@/libs/prisma'
-import type { ChatMessageWithSender } from '@/types/prisma'
+import {
+  CHAT_MODERATION_ERRORS,
+  chatMessageService,
+  chatModerationService,
+  chatOfflineNotificationService,
+  chatRoomService
+} from '@/services/chat'
+import type { ChatModerationResult } from '@/services/chat'
+import {
+  attachmentIdsSchema,
+  createGroupRoomSchema,
+  deleteMessageSchema,
+  editMessageSchema,
+  formatZodError,
+  moderateMessagePayloadSchema,
+  reportMessagePayloadSchema,
+  roomIdPayloadSchema,
+  roomMemberSchema,
+  roomMembersSchema,
+  setMemberRoleSchema,
+  toggleReactionSchema,
+  typingSchema
+} from '@/lib/validations/chat-schemas'
 
 // Хранилище активных пользователей (in-memory)
 const activeUsers = new Map<string, string>(); // userId -> socketId
@@ -78,7 +108,7 @@ export const initializeChatNamespace = (io: TypedIOServer): Namespace => {
   // Middleware для чата
   chatNamespace.use(authenticateSocket);
   chatNamespace.use(rateLimitChatConnections);
-  chatNamespace.use(requirePermission('send_message'));
+  chatNamespace.use(requirePermission(NAMESPACE_PERMISSIONS['/chat']));
 
   // Обработка подключения к namespace чата
   chatNamespace.on('connection', async (socket: TypedSocket) => {
@@ -132,24 +162,17 @@ export const initializeChatNamespace = (io: TypedIOServer): Namespace => {
  */
 const joinUserRooms = async (socket: TypedSocket, userId: string) => {
   try {
-    const userRooms = await prisma.chatRoom.findMany({
-      where: {
-        OR: [
-          { user1Id: userId },
-          { user2Id: userId }
-        ]
-      }
-    });
+    const roomIds = await chatRoomService.getUserRoomIds(userId);
 
-    userRooms.forEach(room => {
-      socket.join(`room_${room.id}`);
-      logger.debug('User joined room', { userId, roomId: room.id, socketId: socket.id });
+    roomIds.forEach(roomId => {
+      socket.join(`room_${roomId}`);
+      logger.debug('User joined room', { userId, roomId, socketId: socket.id });
     });
 
     logger.info('User joined rooms', {
       userId,
-      roomCount: userRooms.length,
-      rooms: userRooms.map(r => r.id)
+      roomCount: roomIds.length,
+      rooms: roomIds
     });
   } catch (error) {
     logger.error('Failed to join user rooms', {
@@ -159,6 +182,65 @@ const joinUserRooms = async (socket: TypedSocket, userId: string) => {
   }
 };
 
+/**
+ * Отправить клиенту комнату и последние 30 сообщений
+ */
+const emitRoomData = async (socket: TypedSocket, room: ChatRoom) => {
+  const { messages, nextCursor } = await chatMessageService.getRoomMessages(room.id, socket.data.user.id, {
+    limit: 30
+  })
+
+  socket.emit('roomData', {
+    room,
+    messages,
+    nextCursor
+  })
+}
+
+/**
+ * Уведомить участников группы об изменении состава или ролей
+ */
+const emitMembersUpdated = (
+  socket: TypedSocket,
+  room: ChatRoom,
+  action: RoomMembersUpdatedData['action'],
+  userIds: string[]
+) => {
+  socket.nsp.to(`room_${room.id}`).emit('roomMembersUpdated', {
+    roomId: room.id,
+    action,
+    userIds,
+    actorId: socket.data.user.id,
+    members: room.members
+  })
+}
+
+/**
+ * Лимит chat-rooms для создания комнат и приглашений
+ */
+const checkRoomsRateLimit = async (socket: TypedSocket, callback?: (response: RoomActionAck) => void) => {
+  const userId = socket.data.user.id
+
+  const rateLimitResult = await rateLimitService.checkLimit(userId, 'chat-rooms', {
+    userId,
+    email: socket.data.user?.email ?? null,
+    ipAddress: socket.handshake.address,
+    keyType: 'user'
+  })
+
+  if (rateLimitResult.warning) {
+    socket.emit('rateLimitWarning', rateLimitResult.warning)
+  }
+
+  if (!rateLimitResult.allowed) {
+    emitRateLimitExceeded(socket, rateLimitResult, callback)
+
+    return false
+  }
+
+  return true
+}
+
 /**
  * Регистрация обработчиков событий чата
  */
@@ -166,7 +248,7 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
   const userId = socket.data.user.id;
 
   // Отправка сообщения
-  socket.on('sendMessage', async (data: { roomId: string; message: string; senderId: string; clientId?: string }, callback?: (response: { ok: boolean; message?: ChatMessage; error?: string; blockedUntil?: number; retryAfter?: number }) => void) => {
+  socket.on('sendMessage', async (data: SendMessageData, callback?: (response: { ok: boolean; message?: ChatMessage; error?: string; blockedUntil?: number; retryAfter?: number }) => void) => {
     try {
       logger.info('Processing sendMessage', { userId, roomId: data.roomId, socketId: socket.id, connected: socket.connected });
 
@@ -186,60 +268,76 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
         return
       }
 
-      // Валидация данных
-      if (!data.roomId || !data.message || !data.senderId) {
+      // Валидация данных (текст может быть пустым, если есть вложения)
+      if (!data.roomId || (!data.message && !data.attachmentIds?.length) || !data.senderId) {
         socket.emit('error', { message: 'Invalid message data' });
         return;
       }
 
-      if (data.message.length > 1000) {
+      // Автор сообщения - только аутентифицированный пользователь сокета
+      if (data.senderId !== userId) {
+        socket.emit('error', { message: 'Sender mismatch' });
+        callback?.({ ok: false, error: 'Sender mismatch' });
+
+        return;
+      }
+
+      const attachmentIds = attachmentIdsSchema.optional().safeParse(data.attachmentIds)
+
+      if (!attachmentIds.success) {
+        socket.emit('error', { message: formatZodError(attachmentIds.error) });
+        callback?.({ ok: false, error: formatZodError(attachmentIds.error) });
+
+        return;
+      }
+
+      if ((data.message || '').length > 1000) {
         socket.emit('error', { message: 'Message too long' });
         return;
       }
 
       // Проверяем, что пользователь в комнате
-      const room = await prisma.chatRoom.findFirst({
-        where: {
-          id: data.roomId,
-          OR: [
-            { user1Id: userId },
-            { user2Id: userId }
-          ]
-        }
+      if (!(await chatRoomService.isMember(data.roomId, userId))) {
+        socket.emit('error', { message: 'Access denied to room' });
+        return;
+      }
+
+      // Запрет писать и контент-фильтр - до сохранения
+      const screening = await chatModerationService.screenMessage({
+        senderId: userId,
+        roomId: data.roomId,
+        content: data.message || ''
       });
 
-      if (!room) {
-        socket.emit('error', { message: 'Access denied to room' });
+      if (!screening.allowed) {
+        socket.emit('error', { message: screening.error || 'Message rejected', code: screening.code });
+        callback?.({ ok: false, error: screening.error });
+
         return;
       }
 
-      // Сохраняем сообщение в БД
-      const newMessage = await prisma.message.create({
-        data: {
-          content: data.message,
-          senderId: data.senderId,
-          roomId: data.roomId
-        },
-        include: {
-          sender: true
-        }
+      // Сохраняем сообщение в БД (clientId возвращается для дедупликации оптимистичных сообщений)
+      const result = await chatMessageService.createMessage({
+        roomId: data.roomId,
+        senderId: userId,
+        content: data.message || '',
+        replyToId: data.replyToId,
+        attachmentIds: attachmentIds.data,
+        clientId: data.clientId
       });
 
-      // Отправляем сообщение в комнату
-      const messageData: ChatMessage = {
-        id: newMessage.id,
-        content: newMessage.content,
-        senderId: newMessage.senderId,
-        sender: {
-          id: newMessage.sender.id,
-          name: newMessage.sender.name || '',
-          email: newMessage.sender.email || ''
-        },
-        roomId: newMessage.roomId,
-        readAt: newMessage.readAt?.toISOString(),
-        createdAt: newMessage.createdAt.toISOString(),
-        clientId: data.clientId // Передаем clientId обратно для дедупликации оптимистичных сообщений
-      };
+      if (!result.success || !result.message) {
+        socket.emit('error', { message: result.error || 'Failed to send message' });
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      const messageData: ChatMessage = result.message;
+
+      if (screening.verdict.action === 'flag') {
+        await chatModerationService.flagMessage(messageData, screening.verdict);
+      }
 
       console.log('📤 [CHAT] Emitting receiveMessage to room:', {
         roomId: data.roomId,
@@ -252,10 +350,13 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
       socket.nsp.to(`room_${data.roomId}`).emit('receiveMessage', messageData);
       callback?.({ ok: true, message: messageData });
 
+      // Получателям не в сети - сводка, если не прочитают до её срока
+      await chatOfflineNotificationService.scheduleForMessage(messageData);
+
       logger.info('Message sent successfully', {
-        messageId: newMessage.id,
+        messageId: messageData.id,
         roomId: data.roomId,
-        senderId: data.senderId
+        senderId: userId
       });
 
     } catch (error) {
@@ -294,72 +395,9 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
         return;
       }
 
-      // Ищем существующую комнату
-      let room = await prisma.chatRoom.findFirst({
-        where: {
-          OR: [
-            { user1Id: data.user1Id, user2Id: data.user2Id },
-            { user1Id: data.user2Id, user2Id: data.user1Id }
-          ]
-        }
-      });
+      const room = await chatRoomService.getOrCreateDirectRoom(data.user1Id, data.user2Id);
 
-      // Создаем комнату, если не существует
-      if (!room) {
-        room = await prisma.chatRoom.create({
-          data: {
-            user1Id: data.user1Id,
-            user2Id: data.user2Id
-          }
-        });
-
-        logger.info('Created new chat room', { roomId: room.id, user1Id: data.user1Id, user2Id: data.user2Id });
-      }
-
-      // Получаем сообщения комнаты
-    const latestMessages: ChatMessageWithSender[] = await prisma.message.findMany({
-        where: { roomId: room.id },
-        include: { sender: true },
-        orderBy: { createdAt: 'desc' },
-        take: 31
-      })
-
-      const hasMoreHistory = latestMessages.length > 30
-      const trimmedMessages: ChatMessageWithSender[] = hasMoreHistory ? latestMessages.slice(0, 30) : latestMessages
-
-      const normalizedMessages = trimmedMessages
-        .map(msg => ({
-          id: msg.id,
-          content: msg.content,
-          senderId: msg.senderId,
-          sender: {
-            id: msg.sender.id,
-            name: msg.sender.name || '',
-            email: msg.sender.email || ''
-          },
-          roomId: msg.roomId,
-          readAt: msg.readAt ? msg.readAt.toISOString() : undefined,
-          createdAt: msg.createdAt.toISOString()
-        }))
-        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-
-      const nextCursor = hasMoreHistory
-        ? normalizedMessages[0]?.createdAt ?? null
-        : null
-
-      const roomData = {
-        room: {
-          id: room.id,
-          user1Id: room.user1Id,
-          user2Id: room.user2Id,
-          createdAt: room.createdAt.toISOString(),
-          updatedAt: room.updatedAt.toISOString()
-        },
-        messages: normalizedMessages,
-        nextCursor
-      }
-
-      socket.emit('roomData', roomData);
+      await emitRoomData(socket, room);
 
       // Присоединяем пользователей к комнате через основной io
       const io = socket.nsp.server;
@@ -387,41 +425,22 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
     try {
       logger.debug('Processing markMessagesRead', { userId, roomId: data.roomId });
 
-      // Проверяем доступ к комнате
-      const room = await prisma.chatRoom.findFirst({
-        where: {
-          id: data.roomId,
-          OR: [
-            { user1Id: userId },
-            { user2Id: userId }
-          ]
-        }
-      });
+      // Сдвигаем курсор прочтения участника
+      const result = await chatRoomService.markRead(data.roomId, userId);
 
-      if (!room) {
+      if (!result) {
         socket.emit('error', { message: 'Access denied to room' });
         return;
       }
 
-      // Отмечаем сообщения как прочитанные
-      const result = await prisma.message.updateMany({
-        where: {
-          roomId: data.roomId,
-          senderId: {
-            not: userId // Сообщения не от текущего пользователя
-          },
-          readAt: null
-        },
-        data: {
-          readAt: new Date()
-        }
-      });
+      await chatOfflineNotificationService.cancelPending(data.roomId, userId);
 
       // Уведомляем других пользователей в комнате
       socket.to(`room_${data.roomId}`).emit('messagesRead', {
         roomId: data.roomId,
         readerId: userId,
-        count: result.count
+        count: result.count,
+        lastReadAt: result.lastReadAt.toISOString()
       });
 
       logger.info('Messages marked as read', {
@@ -439,6 +458,404 @@ const registerChatEventHandlers = (socket: TypedSocket) => {
     }
   });
 
+  // Открыть комнату по id (группы и уже существующие диалоги)
+  socket.on('getRoom', async (data: { roomId: string }) => {
+    try {
+      const parsed = roomIdPayloadSchema.safeParse(data);
+
+      if (!parsed.success) {
+        socket.emit('error', { message: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const room = await chatRoomService.getRoom(parsed.data.roomId, userId);
+
+      if (!room) {
+        socket.emit('error', { message: 'Access denied to room' });
+
+        return;
+      }
+
+      socket.join(`room_${room.id}`);
+      await emitRoomData(socket, room);
+    } catch (error) {
+      logger.error('Failed to get room', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      socket.emit('error', { message: 'Failed to get room' });
+    }
+  });
+
+  // Создание группы
+  socket.on('createGroupRoom', async (data, callback?: (response: RoomActionAck) => void) => {
+    try {
+      if (!(await checkRoomsRateLimit(socket, callback))) return;
+
+      const parsed = createGroupRoomSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const result = await chatRoomService.createGroupRoom(userId, parsed.data);
+
+      if (!result.success || !result.room) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      const room = result.room;
+      const memberIds = room.members.map(member => member.userId);
+
+      socket.nsp.in(memberIds.map(id => `user_${id}`)).socketsJoin(`room_${room.id}`);
+      socket.nsp
+        .to(memberIds.filter(id => id !== userId).map(id => `user_${id}`))
+        .emit('addedToRoom', { room, actorId: userId });
+
+      callback?.({ ok: true, room });
+
+      logger.info('Group room created', { roomId: room.id, ownerId: userId, memberCount: memberIds.length });
+    } catch (error) {
+      logger.error('Failed to create group room', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to create group room' });
+    }
+  });
+
+  // Приглашение в группу (owner/admin)
+  socket.on('inviteToRoom', async (data, callback?: (response: RoomActionAck) => void) => {
+    try {
+      if (!(await checkRoomsRateLimit(socket, callback))) return;
+
+      const parsed = roomMembersSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const result = await chatRoomService.inviteMembers(parsed.data.roomId, userId, parsed.data.userIds);
+
+      if (!result.success || !result.room) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      const room = result.room;
+      const addedUserIds = result.addedUserIds ?? [];
+
+      if (addedUserIds.length > 0) {
+        const personalRooms = addedUserIds.map(id => `user_${id}`);
+
+        socket.nsp.in(personalRooms).socketsJoin(`room_${room.id}`);
+        socket.nsp.to(personalRooms).emit('addedToRoom', { room, actorId: userId });
+        emitMembersUpdated(socket, room, 'invited', addedUserIds);
+      }
+
+      callback?.({ ok: true, room });
+    } catch (error) {
+      logger.error('Failed to invite to room', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to invite to room' });
+    }
+  });
+
+  // Исключение участника (owner - любого, admin - только member)
+  socket.on('kickFromRoom', async (data, callback?: (response: RoomActionAck) => void) => {
+    try {
+      const parsed = roomMemberSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { roomId, userId: targetUserId } = parsed.data;
+      const result = await chatRoomService.kickMember(roomId, userId, targetUserId);
+
+      if (!result.success || !result.room) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      socket.nsp.in(`user_${targetUserId}`).socketsLeave(`room_${roomId}`);
+      socket.nsp.to(`user_${targetUserId}`).emit('removedFromRoom', { roomId, reason: 'kicked', actorId: userId });
+      emitMembersUpdated(socket, result.room, 'kicked', [targetUserId]);
+
+      callback?.({ ok: true, room: result.room });
+
+      logger.info('Member kicked from room', { roomId, actorId: userId, targetUserId });
+    } catch (error) {
+      logger.error('Failed to kick from room', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to kick from room' });
+    }
+  });
+
+  // Выход из группы
+  socket.on('leaveRoom', async (data, callback?: (response: RoomActionAck) => void) => {
+    try {
+      const parsed = roomIdPayloadSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { roomId } = parsed.data;
+      const result = await chatRoomService.leaveRoom(roomId, userId);
+
+      if (!result.success) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      // Все вкладки пользователя покидают комнату
+      socket.nsp.in(`user_${userId}`).socketsLeave(`room_${roomId}`);
+      socket.nsp.to(`user_${userId}`).emit('removedFromRoom', { roomId, reason: 'left', actorId: userId });
+
+      if (result.room) {
+        emitMembersUpdated(socket, result.room, 'left', [userId]);
+      }
+
+      callback?.({ ok: true });
+    } catch (error) {
+      logger.error('Failed to leave room', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to leave room' });
+    }
+  });
+
+  // Смена роли участника (только owner)
+  socket.on('setMemberRole', async (data, callback?: (response: RoomActionAck) => void) => {
+    try {
+      const parsed = setMemberRoleSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { roomId, userId: targetUserId, role } = parsed.data;
+      const result = await chatRoomService.setMemberRole(roomId, userId, targetUserId, role);
+
+      if (!result.success || !result.room) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      emitMembersUpdated(socket, result.room, 'role_changed', role === 'owner' ? [targetUserId, userId] : [targetUserId]);
+      callback?.({ ok: true, room: result.room });
+    } catch (error) {
+      logger.error('Failed to set member role', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to set member role' });
+    }
+  });
+
+  // Редактирование своего сообщения (предыдущий текст уходит в историю)
+  socket.on('editMessage', async (data, callback?: (response: MessageActionAck) => void) => {
+    try {
+      const parsed = editMessageSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const result = await chatMessageService.editMessage(parsed.data.messageId, userId, parsed.data.content);
+
+      if (!result.success || !result.message) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      socket.nsp.to(`room_${result.message.roomId}`).emit('messageEdited', result.message);
+      callback?.({ ok: true, message: result.message });
+    } catch (error) {
+      logger.error('Failed to edit message', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to edit message' });
+    }
+  });
+
+  // Удаление сообщения: у себя (только во вкладки пользователя) или для всех
+  socket.on('deleteMessage', async (data, callback?: (response: MessageActionAck) => void) => {
+    try {
+      const parsed = deleteMessageSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { messageId, scope } = parsed.data;
+      const result = await chatMessageService.deleteMessage(messageId, userId, scope);
+
+      if (!result.success || !result.roomId || !result.deletedAt) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      const target = scope === 'self' ? `user_${userId}` : `room_${result.roomId}`;
+
+      socket.nsp.to(target).emit('messageDeleted', {
+        roomId: result.roomId,
+        messageId,
+        scope,
+        deletedAt: result.deletedAt.toISOString(),
+        deletedById: userId
+      });
+      callback?.({ ok: true });
+    } catch (error) {
+      logger.error('Failed to delete message', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to delete message' });
+    }
+  });
+
+  // Поставить/снять реакцию
+  socket.on('toggleReaction', async (data, callback?: (response: MessageActionAck) => void) => {
+    try {
+      const parsed = toggleReactionSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { messageId, emoji } = parsed.data;
+      const result = await chatMessageService.toggleReaction(messageId, userId, emoji);
+
+      if (!result.success || !result.roomId || !result.reactions) {
+        callback?.({ ok: false, error: result.error });
+
+        return;
+      }
+
+      socket.nsp.to(`room_${result.roomId}`).emit('reactionsUpdated', {
+        roomId: result.roomId,
+        messageId,
+        reactions: result.reactions
+      });
+      callback?.({ ok: true });
+    } catch (error) {
+      logger.error('Failed to toggle reaction', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to toggle reaction' });
+    }
+  });
+
+  // Жалоба на чужое сообщение
+  socket.on('reportMessage', async (data, callback?: (response: MessageActionAck) => void) => {
+    try {
+      const parsed = reportMessagePayloadSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const { messageId, ...input } = parsed.data;
+      const result = await chatModerationService.reportMessage(messageId, userId, input);
+
+      callback?.(result.success ? { ok: true } : { ok: false, error: CHAT_MODERATION_ERRORS[result.error ?? 'not_found'] });
+    } catch (error) {
+      logger.error('Failed to report message', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to report message' });
+    }
+  });
+
+  // Действие модератора прямо из чата (разрешение moderate_chat)
+  socket.on('moderateMessage', async (data, callback?: (response: MessageActionAck) => void) => {
+    try {
+      if (!hasPermission(socket.data.user, 'moderate_chat')) {
+        callback?.({ ok: false, error: 'Insufficient permissions' });
+
+        return;
+      }
+
+      const parsed = moderateMessagePayloadSchema.safeParse(data);
+
+      if (!parsed.success) {
+        callback?.({ ok: false, error: formatZodError(parsed.error) });
+
+        return;
+      }
+
+      const result = await chatModerationService.moderate({ ...parsed.data, moderatorId: userId });
+
+      if (!result.success) {
+        callback?.({ ok: false, error: CHAT_MODERATION_ERRORS[result.error ?? 'not_found'] });
+
+        return;
+      }
+
+      emitChatModerationResult(result, userId);
+      callback?.({ ok: true, message: result.message });
+    } catch (error) {
+      logger.error('Failed to moderate message', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      callback?.({ ok: false, error: 'Failed to moderate message' });
+    }
+  });
+
+  // Индикатор набора текста: без БД, только в комнаты, к которым подключен сокет
+  socket.on('typing', data => {
+    const parsed = typingSchema.safeParse(data);
+
+    if (!parsed.success || !socket.rooms.has(`room_${parsed.data.roomId}`)) {
+      return;
+    }
+
+    socket.to(`room_${parsed.data.roomId}`).emit('userTyping', {
+      roomId: parsed.data.roomId,
+      isTyping: parsed.data.isTyping,
+      userId,
+      userName: socket.data.user.name || socket.data.user.email || ''
+    });
+  });
+
   // Ping для поддержания соединения и обновления lastSeen
   socket.on('ping', async (data, callback) => {
     try {
@@ -521,3 +938,22 @@ export const sendToChatRoom = <TEvent extends keyof ServerToClientEvents>(
     logger.debug('Sent to chat room', { roomId, event })
   }
 }
+
+// Результат действия модератора - участникам комнаты (из сокета и из админ-API)
+export const emitChatModerationResult = (result: ChatModerationResult, moderatorId: string) => {
+  if (!result.roomId || !result.messageId) return
+
+  if (result.message) {
+    sendToChatRoom(result.roomId, 'messageEdited', result.message)
+  }
+
+  if (result.deletedAt) {
+    sendToChatRoom(result.roomId, 'messageDeleted', {
+      roomId: result.roomId,
+      messageId: result.messageId,
+      scope: 'everyone',
+      deletedAt: result.deletedAt.toISOString(),
+      deletedById: moderatorId
+    })
+  }
+}
@@ -10,6 +10,7 @@ import {
 } from '../../types/notifications'
 import { authenticateSocket, requirePermission } from '../../middleware/auth'
 import { rateLimitNotification } from '../../middleware/rateLimit'
+import { NAMESPACE_PERMISSIONS } from '../../utils/permissions'
 import { parseNotificationMetadata, serializeNotificationMetadata } from '@/utils/notifications/metadata'
 import { prisma } from '@/libs/prisma'
 import { getOnlineUsers } from '../chat'
@@ -94,7 +95,7 @@ export const initializeNotificationNamespace = (io: TypedIOServer): Namespace =>
 
   // Middleware для уведомлений
   notificationNamespace.use(authenticateSocket);
-  notificationNamespace.use(requirePermission('receive_notifications'));
+  notificationNamespace.use(requirePermission(NAMESPACE_PERMISSIONS['/notifications']));
 
   // Rate limiting для уведомлений (более мягкий)
   notificationNamespace.use(rateLimitNotification);
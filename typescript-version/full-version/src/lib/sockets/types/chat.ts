@@ -13,16 +13,84 @@ export interface ChatMessage {
   roomId: string;
   readAt?: string;
   createdAt: string;
+  editedAt?: string | null
+  deletedAt?: string | null // Удалено для всех: content пустой
+  hiddenAt?: string | null // Скрыто модератором: content пустой, вложений нет
+  replyToId?: string | null
+  replyTo?: ChatMessageReplyPreview | null
+  reactions?: ChatMessageReaction[]
+  attachments?: ChatMessageAttachment[]
   clientId?: string; // Для дедупликации
   isOptimistic?: boolean; // Для оптимистичных обновлений
   deliveryStatus?: 'pending' | 'failed';
 }
 
+// Сообщение, на которое отвечают
+export interface ChatMessageReplyPreview {
+  id: string
+  content: string
+  senderId: string
+  senderName: string
+  deleted: boolean
+}
+
+// Реакции одного эмодзи
+export interface ChatMessageReaction {
+  emoji: string
+  count: number
+  userIds: string[]
+}
+
+// Вложение сообщения (Media с entityType = 'chat_attachment')
+export interface ChatMessageAttachment {
+  id: string // ID медиа
+  filename: string
+  mimeType: string
+  size: number
+  width: number | null
+  height: number | null
+  url: string // Отдаётся только участникам комнаты
+  thumbUrl: string | null // Превью есть только у изображений
+}
+
+// Предыдущая версия сообщения
+export interface ChatMessageEdit {
+  content: string
+  editedAt: string
+  editedById: string
+}
+
+export type ChatMessageDeleteScope = 'self' | 'everyone'
+
+export type ChatRoomType = 'direct' | 'group'
+
+export type ChatMemberRole = 'owner' | 'admin' | 'member'
+
+// Участник комнаты
+export interface ChatRoomMember {
+  userId: string
+  role: ChatMemberRole
+  lastReadAt: string | null
+  mutedUntil: string | null // Уведомления комнаты выключены до этого момента
+  joinedAt: string
+  user: {
+    id: string
+    name?: string
+    email: string
+    image?: string | null
+  }
+}
+
 // Комната чата
 export interface ChatRoom {
   id: string;
-  user1Id: string;
-  user2Id: string;
+  type: ChatRoomType
+  name: string | null
+
+  // Только для direct
+  user1Id: string | null;
+  user2Id: string | null;
+  members: ChatRoomMember[]
   createdAt: string;
   updatedAt: string;
 }
@@ -33,6 +101,18 @@ export interface ChatEvents {
   sendMessage: (data: SendMessageData, callback?: (response: SendMessageAck) => void) => void
   getOrCreateRoom: (data: GetOrCreateRoomData) => void
   markMessagesRead: (data: MarkMessagesReadData) => void
+  getRoom: (data: { roomId: string }) => void
+  createGroupRoom: (data: CreateGroupRoomData, callback?: (response: RoomActionAck) => void) => void
+  inviteToRoom: (data: RoomMembersData, callback?: (response: RoomActionAck) => void) => void
+  kickFromRoom: (data: RoomMemberData, callback?: (response: RoomActionAck) => void) => void
+  leaveRoom: (data: { roomId: string }, callback?: (response: RoomActionAck) => void) => void
+  setMemberRole: (data: SetMemberRoleData, callback?: (response: RoomActionAck) => void) => void
+  editMessage: (data: EditMessageData, callback?: (response: MessageActionAck) => void) => void
+  deleteMessage: (data: DeleteMessageData, callback?: (response: MessageActionAck) => void) => void
+  toggleReaction: (data: ToggleReactionData, callback?: (response: MessageActionAck) => void) => void
+  reportMessage: (data: ReportMessageData, callback?: (response: MessageActionAck) => void) => void
+  moderateMessage: (data: ModerateMessageData, callback?: (response: MessageActionAck) => void) => void
+  typing: (data: TypingData) => void
   ping: (
     data: { timestamp?: number },
     callback?: (response: { pong: boolean; timestamp?: number; error?: string }) => void
@@ -45,6 +125,13 @@ export interface ChatEmitEvents {
   receiveMessage: (message: ChatMessage) => void
   roomData: (data: RoomData) => void
   messagesRead: (data: MessagesReadData) => void
+  addedToRoom: (data: { room: ChatRoom; actorId: string }) => void
+  removedFromRoom: (data: { roomId: string; reason: 'kicked' | 'left'; actorId: string }) => void
+  roomMembersUpdated: (data: RoomMembersUpdatedData) => void
+  messageEdited: (message: ChatMessage) => void
+  messageDeleted: (data: MessageDeletedData) => void
+  reactionsUpdated: (data: ReactionsUpdatedData) => void
+  userTyping: (data: UserTypingData) => void
   rateLimitExceeded: (data: RateLimitExceededData) => void
   rateLimitWarning: (data: RateLimitWarningData) => void
   error: (error: ErrorData) => void
@@ -56,6 +143,8 @@ export interface SendMessageData {
   message: string
   senderId: string
   clientId?: string
+  replyToId?: string
+  attachmentIds?: string[] // Загруженные через POST /api/chat/attachments
 }
 
 export interface SendMessageAck {
@@ -88,6 +177,110 @@ export interface MessagesReadData {
   roomId: string;
   readerId: string;
   count: number;
+
+  // Курсор прочтения участника (для групп вместо Message.readAt)
+  lastReadAt?: string
+}
+
+// Создание группы
+export interface CreateGroupRoomData {
+  name: string
+  memberIds: string[]
+}
+
+export interface RoomMembersData {
+  roomId: string
+  userIds: string[]
+}
+
+export interface RoomMemberData {
+  roomId: string
+  userId: string
+}
+
+export interface SetMemberRoleData extends RoomMemberData {
+  role: ChatMemberRole
+}
+
+export interface RoomActionAck {
+  ok: boolean
+  room?: ChatRoom
+  error?: string
+}
+
+// Изменение состава или ролей группы
+export interface RoomMembersUpdatedData {
+  roomId: string
+  action: 'invited' | 'kicked' | 'left' | 'role_changed'
+  userIds: string[]
+  actorId: string
+  members: ChatRoomMember[]
+}
+
+// Редактирование сообщения
+export interface EditMessageData {
+  messageId: string
+  content: string
+}
+
+export interface DeleteMessageData {
+  messageId: string
+  scope: ChatMessageDeleteScope
+}
+
+export interface ToggleReactionData {
+  messageId: string
+  emoji: string
+}
+
+export type ChatReportReason = 'spam' | 'abuse' | 'harassment' | 'other'
+
+// Жалоба участника комнаты на чужое сообщение
+export interface ReportMessageData {
+  messageId: string
+  reason: ChatReportReason
+  details?: string
+}
+
+export type ChatModerationAction = 'hide' | 'unhide' | 'delete' | 'warn' | 'mute' | 'dismiss'
+
+// Действие модератора (нужно разрешение moderate_chat)
+export interface ModerateMessageData {
+  messageId: string
+  action: ChatModerationAction
+  reason?: string
+  durationMinutes?: number // Только для mute, без него - бессрочно
+}
+
+export interface MessageActionAck {
+  ok: boolean
+  message?: ChatMessage
+  error?: string
+}
+
+export interface MessageDeletedData {
+  roomId: string
+  messageId: string
+  scope: ChatMessageDeleteScope
+  deletedAt: string
+  deletedById: string
+}
+
+export interface ReactionsUpdatedData {
+  roomId: string
+  messageId: string
+  reactions: ChatMessageReaction[]
+}
+
+// Индикатор набора текста (не сохраняется)
+export interface TypingData {
+  roomId: string
+  isTyping: boolean
+}
+
+export interface UserTypingData extends TypingData {
+  userId: string
+  userName: string
 }
 
 // Данные превышения rate limit
@@ -19,6 +19,7 @@ export type UserPermissions = Permission[] | 'all'
 export interface User {
   id: string
   role: UserRole
+  roleId?: string | null // Role.id - по нему пересчитываются разрешения при изменении роли
   permissions: UserPermissions
   name?: string
   email?: string
@@ -30,6 +31,7 @@ export interface SocketData {
   authenticated: boolean
   connectedAt: Date
   lastActivity: Date
+  sessionId?: string // Lucia-сессия - по ней отключаются сокеты отозванной сессии
 }
 
 // Активные пользователи (in-memory cache)
@@ -62,6 +64,8 @@ export interface ApiResponse<T = unknown> {
 type InterServerEvents = Record<string, never>
 type CoreServerEvents = {
   ping: (payload: { timestamp: number }) => void
+  permissionsUpdated: (payload: { permissions: UserPermissions }) => void
+  sessionRevoked: (payload: { reason: string }) => void
 }
 export type ClientToServerEvents = ChatEvents & NotificationEvents
 export type ServerToClientEvents = ChatEmitEvents & NotificationEmitEvents & NotificationLegacyEmitEvents & CoreServerEvents
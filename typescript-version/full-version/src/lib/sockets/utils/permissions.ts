@@ -1,16 +1,29 @@
-import { User, Permission, UserRole } from '../types/common'
+import type { Permissions } from '@/utils/permissions/permissions'
 
-// Карта разрешений по ролям
-const rolePermissions: Record<UserRole, Permission[]> = {
-  admin: ['send_message', 'send_notification', 'moderate_chat', 'view_admin_panel', 'receive_notifications'],
-  moderator: ['send_message', 'send_notification', 'moderate_chat', 'receive_notifications'],
-  user: ['send_message', 'send_notification', 'receive_notifications'],
-  guest: ['send_notification', 'receive_notifications'] // Только получение уведомлений
+import type { User, Permission, UserPermissions, UserRole } from '../types/common'
+
+/**
+ * Откуда берутся socket-разрешения: модуль и действие в Role.permissions,
+ * те же, что проверяет checkPermission в HTTP-роутах и что редактируются в диалоге ролей.
+ * receive_notifications выдаётся всем аутентифицированным - свои уведомления получает каждый.
+ */
+export const SOCKET_PERMISSION_SOURCES: Record<Exclude<Permission, 'receive_notifications'>, { module: string; action: string }> = {
+  send_message: { module: 'chat', action: 'create' },
+  moderate_chat: { module: 'chat', action: 'delete' },
+  send_notification: { module: 'notifications', action: 'create' },
+  view_admin_panel: { module: 'userManagement', action: 'update' }
+}
+
+// Разрешение, без которого сокет не может оставаться в namespace
+export const NAMESPACE_PERMISSIONS: Record<string, Permission> = {
+  '/chat': 'send_message',
+  '/notifications': 'receive_notifications'
 }
 
-const ALL_PERMISSIONS: Permission[] = Array.from(
-  new Set(Object.values(rolePermissions).flat())
-)
+const ALL_PERMISSIONS: Permission[] = [
+  ...(Object.keys(SOCKET_PERMISSION_SOURCES) as Permission[]),
+  'receive_notifications'
+]
 
 const toPermissionArray = (permissions: User['permissions']): Permission[] => {
   if (permissions === 'all') {
@@ -21,10 +34,18 @@ const toPermissionArray = (permissions: User['permissions']): Permission[] => {
 }
 
 /**
- * Получить разрешения для роли
+ * Преобразовать разрешения роли (Role.permissions) в socket-разрешения
  */
-export const getPermissionsForRole = (role: UserRole): Permission[] => {
-  return rolePermissions[role] || []
+export const resolveSocketPermissions = (rolePermissions: Permissions): UserPermissions => {
+  if (rolePermissions === 'all') {
+    return 'all'
+  }
+
+  const granted = (Object.entries(SOCKET_PERMISSION_SOURCES) as [Permission, { module: string; action: string }][])
+    .filter(([, source]) => rolePermissions[source.module]?.includes(source.action))
+    .map(([permission]) => permission)
+
+  return [...granted, 'receive_notifications']
 }
 
 /**
@@ -96,56 +117,3 @@ export const canPerformActionOnUser = (
 
   return false;
 };
-
-/**
- * Валидировать разрешения пользователя
- */
-export const validateUserPermissions = (user: User): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-
-  if (!user.role) {
-    errors.push('User role is required');
-  }
-
-  if (!user.permissions) {
-    errors.push('User permissions must be provided')
-  } else if (user.permissions === 'all') {
-    return {
-      valid: true,
-      errors
-    }
-  } else if (Array.isArray(user.permissions)) {
-    // Проверить, что все разрешения пользователя соответствуют его роли
-    const expectedPermissions = getPermissionsForRole(user.role)
-    const extraPermissions = user.permissions.filter(p => !expectedPermissions.includes(p))
-
-    if (extraPermissions.length > 0) {
-      errors.push(`User has extra permissions not allowed for role ${user.role}: ${extraPermissions.join(', ')}`)
-    }
-  } else {
-    errors.push('User permissions must be an array or "all"')
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors
-  }
-};
-
-/**
- * Создать пользователя с правильными разрешениями для роли
- */
-export const createUserWithPermissions = (
-  id: string,
-  role: UserRole,
-  name?: string,
-  email?: string
-): User => {
-  return {
-    id,
-    role,
-    permissions: getPermissionsForRole(role),
-    name,
-    email
-  }
-}
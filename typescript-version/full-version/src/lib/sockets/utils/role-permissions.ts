@@ -0,0 +1,239 @@
+import type RedisClient from 'ioredis'
+
+import logger from '@/lib/logger'
+import { serviceConfigResolver } from '@/lib/config'
+import { createRoleCacheStore } from '@/lib/role-cache'
+import type { Role, RoleCacheStore } from '@/lib/role-cache/types'
+import { prisma } from '@/libs/prisma'
+import { parsePermissions } from '@/utils/permissions/permissions'
+import type { Permissions } from '@/utils/permissions/permissions'
+
+import type { UserPermissions } from '../types/common'
+import { NAMESPACE_PERMISSIONS, hasPermission, resolveSocketPermissions } from './permissions'
+
+// Тот же ключ и TTL, что у /api/admin/roles - кэш общий с HTTP-частью
+const CACHE_KEY = 'all-roles'
+const CACHE_DURATION = 5 * 60 * 1000
+
+// Канал Redis, через который HTTP-процесс сообщает socket-серверу об изменении роли
+const ROLE_PERMISSIONS_CHANNEL = 'materio:sockets:role-permissions'
+
+export interface SocketRole {
+  id: string
+  code: string
+  name: string
+  permissions: Permissions
+}
+
+let roleCacheStorePromise: Promise<RoleCacheStore> | null = null
+let publisherPromise: Promise<RedisClient | null> | null = null
+let subscriber: RedisClient | null = null
+
+const getRoleCacheStore = async () => {
+  if (!roleCacheStorePromise) {
+    roleCacheStorePromise = createRoleCacheStore()
+  }
+
+  return roleCacheStorePromise
+}
+
+// В кэше permissions уже распарсены (так их кладёт GET /api/admin/roles), из БД - строкой
+const toSocketRole = (role: Pick<Role, 'id' | 'code' | 'name'> & { permissions?: unknown }): SocketRole => ({
+  id: role.id,
+  code: role.code,
+  name: role.name,
+  permissions:
+    typeof role.permissions === 'string' || role.permissions == null
+      ? parsePermissions(role.permissions as string | null)
+      : (role.permissions as Permissions)
+})
+
+const loadRoles = async (): Promise<SocketRole[]> => {
+  const store = await getRoleCacheStore()
+
+  const cached = await store.get(CACHE_KEY).catch(error => {
+    logger.warn('[sockets] Failed to read role cache', { error: error instanceof Error ? error.message : error })
+
+    return null
+  })
+
+  if (cached) {
+    return cached.map(toSocketRole)
+  }
+
+  const roles = await prisma.role.findMany({ orderBy: [{ level: 'asc' }, { name: 'asc' }] })
+  const parsed = roles.map(role => ({ ...role, permissions: parsePermissions(role.permissions) }))
+
+  await store.set(CACHE_KEY, parsed as unknown as Role[], CACHE_DURATION).catch(error => {
+    logger.warn('[sockets] Failed to save role cache', { error: error instanceof Error ? error.message : error })
+  })
+
+  return parsed.map(toSocketRole)
+}
+
+/**
+ * Роль пользователя для сокета (через role-cache, при промахе - из БД)
+ */
+export const getSocketRole = async (roleId?: string | null): Promise<SocketRole | null> => {
+  if (!roleId) return null
+
+  const roles = await loadRoles()
+
+  return roles.find(role => role.id === roleId) ?? null
+}
+
+/**
+ * Пересчитать разрешения подключённых сокетов роли.
+ * Сокеты, потерявшие обязательное разрешение namespace, отключаются от него.
+ */
+export const refreshRoleSocketPermissions = async (roleId: string): Promise<{ updated: number; disconnected: number }> => {
+  const io = globalThis.io
+  const result = { updated: 0, disconnected: 0 }
+
+  if (!io) return result
+
+  // In-memory кэш этого процесса роут ролей не сбрасывает - перечитываем роль из БД
+  const store = await getRoleCacheStore()
+
+  await store.delete(CACHE_KEY).catch(() => undefined)
+
+  const role = await getSocketRole(roleId)
+  const permissions: UserPermissions = role ? resolveSocketPermissions(role.permissions) : ['receive_notifications']
+
+  io._nsps.forEach((namespace, name) => {
+    const required = NAMESPACE_PERMISSIONS[name]
+
+    namespace.sockets.forEach(socket => {
+      const user = socket.data?.user
+
+      if (!user || user.roleId !== roleId) return
+
+      socket.data.user = { ...user, permissions }
+
+      if (required && !hasPermission(socket.data.user, required)) {
+        socket.disconnect()
+        result.disconnected++
+
+        return
+      }
+
+      socket.emit('permissionsUpdated', { permissions })
+      result.updated++
+    })
+  })
+
+  logger.info('[sockets] Role permissions refreshed for connected sockets', { roleId, ...result })
+
+  return result
+}
+
+const getPublisher = async (): Promise<RedisClient | null> => {
+  if (!publisherPromise) {
+    publisherPromise = (async () => {
+      const redisConfig = await serviceConfigResolver.getConfig('redis')
+
+      if (!redisConfig.url) return null
+
+      const Redis = (await import('ioredis')).default
+
+      const client = new Redis(redisConfig.url, {
+        lazyConnect: true,
+        ...(redisConfig.tls ? { tls: { rejectUnauthorized: false } } : {})
+      })
+
+      client.on('error', error => {
+        logger.error('[sockets] Role permissions publisher error', { error: error.message })
+      })
+
+      await client.connect()
+
+      return client
+    })().catch(error => {
+      publisherPromise = null
+      logger.warn('[sockets] Redis publisher unavailable for role updates', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return null
+    })
+  }
+
+  return publisherPromise
+}
+
+/**
+ * Сообщить socket-серверу, что разрешения роли изменились.
+ * С Redis событие получают все socket-процессы (в том числе standalone),
+ * без Redis - обновляются только сокеты текущего процесса.
+ */
+export const notifyRolePermissionsChanged = async (roleId: string): Promise<void> => {
+  try {
+    const publisher = await getPublisher()
+
+    if (publisher) {
+      await publisher.publish(ROLE_PERMISSIONS_CHANNEL, JSON.stringify({ roleId }))
+
+      return
+    }
+
+    await refreshRoleSocketPermissions(roleId)
+  } catch (error) {
+    logger.warn('[sockets] Failed to propagate role permissions change', {
+      roleId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Подписка socket-сервера на изменения ролей (вызывается при инициализации)
+ */
+export const subscribeToRolePermissionChanges = async (): Promise<void> => {
+  if (subscriber) return
+
+  try {
+    const redisConfig = await serviceConfigResolver.getConfig('redis')
+
+    if (!redisConfig.url) {
+      logger.info('[sockets] Redis not configured, role updates apply to sockets of this process only')
+
+      return
+    }
+
+    const Redis = (await import('ioredis')).default
+
+    const client = new Redis(redisConfig.url, {
+      lazyConnect: true,
+      ...(redisConfig.tls ? { tls: { rejectUnauthorized: false } } : {})
+    })
+
+    client.on('error', error => {
+      logger.error('[sockets] Role permissions subscriber error', { error: error.message })
+    })
+
+    client.on('message', (channel, message) => {
+      if (channel !== ROLE_PERMISSIONS_CHANNEL) return
+
+      try {
+        const { roleId } = JSON.parse(message) as { roleId?: string }
+
+        if (roleId) void refreshRoleSocketPermissions(roleId)
+      } catch (error) {
+        logger.warn('[sockets] Invalid role permissions message', {
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    })
+
+    await client.connect()
+    await client.subscribe(ROLE_PERMISSIONS_CHANNEL)
+
+    subscriber = client
+
+    logger.info('[sockets] Subscribed to role permission changes')
+  } catch (error) {
+    logger.warn('[sockets] Failed to subscribe to role permission changes', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
@@ -0,0 +1,160 @@
+import type RedisClient from 'ioredis'
+
+import logger from '@/lib/logger'
+import { serviceConfigResolver } from '@/lib/config'
+
+// Канал Redis, через который HTTP-процесс сообщает socket-серверу об отозванных сессиях
+const SESSION_REVOCATIONS_CHANNEL = 'materio:sockets:session-revocations'
+
+/**
+ * Какие сокеты отключить: по id Lucia-сессий или все сокеты пользователя
+ * (sessionIds и userId вместе - только сессии этого пользователя)
+ */
+export interface SessionRevocation {
+  sessionIds?: string[]
+  userId?: string
+}
+
+let publisherPromise: Promise<RedisClient | null> | null = null
+let subscriber: RedisClient | null = null
+
+/**
+ * Отключить сокеты отозванных сессий текущего процесса.
+ * Перед отключением клиент получает 'sessionRevoked', чтобы не переподключаться.
+ */
+export const disconnectRevokedSessions = (revocation: SessionRevocation): number => {
+  const io = globalThis.io
+  let disconnected = 0
+
+  if (!io || (!revocation.sessionIds?.length && !revocation.userId)) return disconnected
+
+  const sessionIds = revocation.sessionIds ? new Set(revocation.sessionIds) : null
+
+  io._nsps.forEach(namespace => {
+    namespace.sockets.forEach(socket => {
+      const data = socket.data
+
+      if (!data?.user) return
+      if (revocation.userId && data.user.id !== revocation.userId) return
+      if (sessionIds && (!data.sessionId || !sessionIds.has(data.sessionId))) return
+
+      socket.emit('sessionRevoked', { reason: 'session_revoked' })
+      socket.disconnect(true)
+      disconnected++
+    })
+  })
+
+  if (disconnected > 0) {
+    logger.info('[sockets] Disconnected sockets of revoked sessions', { userId: revocation.userId, disconnected })
+  }
+
+  return disconnected
+}
+
+const getPublisher = async (): Promise<RedisClient | null> => {
+  if (!publisherPromise) {
+    publisherPromise = (async () => {
+      const redisConfig = await serviceConfigResolver.getConfig('redis')
+
+      if (!redisConfig.url) return null
+
+      const Redis = (await import('ioredis')).default
+
+      const client = new Redis(redisConfig.url, {
+        lazyConnect: true,
+        ...(redisConfig.tls ? { tls: { rejectUnauthorized: false } } : {})
+      })
+
+      client.on('error', error => {
+        logger.error('[sockets] Session revocations publisher error', { error: error.message })
+      })
+
+      await client.connect()
+
+      return client
+    })().catch(error => {
+      publisherPromise = null
+      logger.warn('[sockets] Redis publisher unavailable for session revocations', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return null
+    })
+  }
+
+  return publisherPromise
+}
+
+/**
+ * Сообщить socket-серверу об отозванных сессиях.
+ * С Redis событие получают все socket-процессы, без Redis - отключаются сокеты текущего процесса.
+ */
+export const notifySessionsRevoked = async (revocation: SessionRevocation): Promise<void> => {
+  try {
+    const publisher = await getPublisher()
+
+    if (publisher) {
+      await publisher.publish(SESSION_REVOCATIONS_CHANNEL, JSON.stringify(revocation))
+
+      return
+    }
+
+    disconnectRevokedSessions(revocation)
+  } catch (error) {
+    logger.warn('[sockets] Failed to propagate session revocation', {
+      userId: revocation.userId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Подписка socket-сервера на отзыв сессий (вызывается при инициализации)
+ */
+export const subscribeToSessionRevocations = async (): Promise<void> => {
+  if (subscriber) return
+
+  try {
+    const redisConfig = await serviceConfigResolver.getConfig('redis')
+
+    if (!redisConfig.url) {
+      logger.info('[sockets] Redis not configured, session revocations apply to sockets of this process only')
+
+      return
+    }
+
+    const Redis = (await import('ioredis')).default
+
+    const client = new Redis(redisConfig.url, {
+      lazyConnect: true,
+      ...(redisConfig.tls ? { tls: { rejectUnauthorized: false } } : {})
+    })
+
+    client.on('error', error => {
+      logger.error('[sockets] Session revocations subscriber error', { error: error.message })
+    })
+
+    client.on('message', (channel, message) => {
+      if (channel !== SESSION_REVOCATIONS_CHANNEL) return
+
+      try {
+        disconnectRevokedSessions(JSON.parse(message) as SessionRevocation)
+      } catch (error) {
+        logger.warn('[sockets] Invalid session revocation message', {
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    })
+
+    await client.connect()
+    await client.subscribe(SESSION_REVOCATIONS_CHANNEL)
+
+    subscriber = client
+
+    logger.info('[sockets] Subscribed to session revocations')
+  } catch (error) {
+    logger.warn('[sockets] Failed to subscribe to session revocations', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod'
+
+// Словарь тот же, что у Role.permissions: {"module": ["action"]} или "all" (все права роли)
+const apiKeyScopesSchema = z.union([
+  z.literal('all'),
+  z
+    .record(
+      z.string().regex(/^[A-Za-z][A-Za-z0-9_-]{0,63}$/, 'Invalid module name'),
+      z.array(z.string().regex(/^[a-z][a-z0-9_-]{0,31}$/, 'Invalid action name')).min(1).max(20)
+    )
+    .refine(scopes => Object.keys(scopes).length > 0, 'At least one scope is required')
+])
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: apiKeyScopesSchema,
+  expiresAt: z.coerce
+    .date()
+    .refine(date => date.getTime() > Date.now(), 'Expiration date must be in the future')
+    .nullish(),
+  accountId: z.string().min(1).nullish()
+})
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>
+
+export const apiKeyListQuerySchema = z.object({
+  accountId: z.string().min(1).optional()
+})
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,243 @@
+import { z } from 'zod'
+
+// Максимум участников группы вместе с владельцем
+export const MAX_GROUP_MEMBERS = 100
+
+// Максимальная длина сообщения (как при отправке через sendMessage)
+export const MAX_MESSAGE_LENGTH = 1000
+
+// Вложений в одном сообщении (maxFilesPerEntity пресета chat_attachment)
+export const MAX_MESSAGE_ATTACHMENTS = 10
+
+const userIdSchema = z.string().trim().min(1, 'User ID is required')
+
+const roomIdSchema = z.string().trim().min(1, 'Room ID is required')
+
+const messageIdSchema = z.string().trim().min(1, 'Message ID is required')
+
+/**
+ * Создание группы (POST /api/chat/rooms с type: 'group', событие createGroupRoom)
+ */
+export const createGroupRoomSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Group name is required')
+      .max(100, 'Group name must be less than 100 characters'),
+    memberIds: z
+      .array(userIdSchema)
+      .max(MAX_GROUP_MEMBERS - 1, `Group cannot have more than ${MAX_GROUP_MEMBERS} members`)
+      .default([])
+  })
+  .strict()
+
+/**
+ * Личный диалог (POST /api/chat/rooms)
+ */
+export const createDirectRoomSchema = z.object({
+  userId: userIdSchema
+})
+
+export const createRoomSchema = z.union([
+  createGroupRoomSchema.extend({ type: z.literal('group') }),
+  createDirectRoomSchema.extend({ type: z.literal('direct').optional() })
+])
+
+/**
+ * Приглашение в группу (событие inviteToRoom)
+ */
+export const roomMembersSchema = z.object({
+  roomId: roomIdSchema,
+  userIds: z.array(userIdSchema).min(1, 'At least one user is required').max(MAX_GROUP_MEMBERS - 1)
+})
+
+/**
+ * Исключение участника (событие kickFromRoom)
+ */
+export const roomMemberSchema = z.object({
+  roomId: roomIdSchema,
+  userId: userIdSchema
+})
+
+/**
+ * Смена роли участника (событие setMemberRole)
+ */
+export const setMemberRoleSchema = roomMemberSchema.extend({
+  role: z.enum(['owner', 'admin', 'member'])
+})
+
+export const roomIdPayloadSchema = z.object({
+  roomId: roomIdSchema
+})
+
+/**
+ * Вложения отправляемого сообщения (sendMessage, POST /api/chat/messages)
+ */
+export const attachmentIdsSchema = z
+  .array(z.string().trim().min(1, 'Attachment ID is required'))
+  .max(MAX_MESSAGE_ATTACHMENTS, `No more than ${MAX_MESSAGE_ATTACHMENTS} attachments per message`)
+
+/**
+ * Редактирование сообщения (событие editMessage)
+ */
+export const editMessageSchema = z.object({
+  messageId: messageIdSchema,
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Message is required')
+    .max(MAX_MESSAGE_LENGTH, `Message must be less than ${MAX_MESSAGE_LENGTH} characters`)
+})
+
+/**
+ * Удаление сообщения (событие deleteMessage): только у себя или для всех
+ */
+export const deleteMessageSchema = z.object({
+  messageId: messageIdSchema,
+  scope: z.enum(['self', 'everyone']).default('self')
+})
+
+/**
+ * Реакция (событие toggleReaction): только эмодзи, в т.ч. составные (флаги, оттенки кожи)
+ */
+export const toggleReactionSchema = z.object({
+  messageId: messageIdSchema,
+  emoji: z
+    .string()
+    .trim()
+    .min(1, 'Emoji is required')
+    .max(32, 'Emoji is too long')
+    .regex(
+      /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}])[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]+$/u,
+      'Invalid emoji'
+    )
+})
+
+/**
+ * Жалоба на сообщение (событие reportMessage, POST /api/chat/messages/[id]/report)
+ */
+export const CHAT_REPORT_REASONS = ['spam', 'abuse', 'harassment', 'other'] as const
+
+export const reportMessageSchema = z.object({
+  reason: z.enum(CHAT_REPORT_REASONS),
+  details: z.string().trim().max(500, 'Details must be less than 500 characters').optional()
+})
+
+export const reportMessagePayloadSchema = reportMessageSchema.extend({
+  messageId: messageIdSchema
+})
+
+/**
+ * Действие модератора над сообщением (событие moderateMessage,
+ * POST /api/admin/chat/moderation/[messageId]). mute - без срока, если durationMinutes не задан
+ */
+export const CHAT_MODERATION_ACTIONS = ['hide', 'unhide', 'delete', 'warn', 'mute', 'dismiss'] as const
+
+export const moderateMessageSchema = z.object({
+  action: z.enum(CHAT_MODERATION_ACTIONS),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .positive()
+    .max(60 * 24 * 365, 'Mute cannot be longer than a year')
+    .optional()
+})
+
+export const moderateMessagePayloadSchema = moderateMessageSchema.extend({
+  messageId: messageIdSchema
+})
+
+/**
+ * Настройки контент-фильтра (PUT /api/admin/chat/moderation/settings)
+ */
+const filterActionSchema = z.enum(['allow', 'flag', 'block'])
+
+export const chatModerationSettingsSchema = z.object({
+  bannedWords: z
+    .array(z.string().trim().min(1).max(100))
+    .max(1000, 'No more than 1000 banned words'),
+  bannedWordsAction: filterActionSchema,
+  linkAction: filterActionSchema,
+  phoneAction: filterActionSchema,
+  spamRepeatLimit: z.number().int().min(0).max(100),
+  spamWindowSeconds: z.number().int().min(1).max(24 * 60 * 60)
+})
+
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value)
+
+/**
+ * Поиск по истории чата (GET /api/chat/search). from/to - границы даты отправки включительно
+ */
+export const chatSearchQuerySchema = z
+  .object({
+    q: z.string().trim().min(2, 'Query must be at least 2 characters').max(200, 'Query is too long'),
+    roomId: z.preprocess(emptyToUndefined, roomIdSchema.optional()),
+    senderId: z.preprocess(emptyToUndefined, userIdSchema.optional()),
+    from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+    to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+    sort: z.enum(['relevance', 'date']).default('relevance'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(50).default(20)
+  })
+  .refine(data => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from']
+  })
+
+/**
+ * Окно сообщений вокруг найденного (GET /api/chat/messages/[id]/context)
+ */
+export const messageContextQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+})
+
+/**
+ * Отключение уведомлений комнаты (PUT /api/chat/rooms/[id]/mute); без durationMinutes - бессрочно
+ */
+export const muteRoomSchema = z.object({
+  muted: z.boolean(),
+  durationMinutes: z.number().int().min(1).max(365 * 24 * 60).optional()
+})
+
+/**
+ * Сводки для участников не в сети (PUT /api/admin/chat/offline-notifications)
+ */
+export const chatOfflineNotificationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  delayMinutes: z.number().int().min(1).max(24 * 60),
+  offlineThresholdMinutes: z.number().int().min(1).max(24 * 60),
+  channels: z.array(z.enum(['email', 'telegram', 'sms'])).max(3)
+})
+
+/**
+ * Индикатор набора текста (событие typing)
+ */
+export const typingSchema = z.object({
+  roomId: roomIdSchema,
+  isTyping: z.boolean()
+})
+
+export type CreateGroupRoomInput = z.infer<typeof createGroupRoomSchema>
+export type CreateRoomInput = z.infer<typeof createRoomSchema>
+export type DeleteMessageInput = z.infer<typeof deleteMessageSchema>
+export type ReportMessageInput = z.infer<typeof reportMessageSchema>
+export type ModerateMessageInput = z.infer<typeof moderateMessageSchema>
+export type ChatModerationSettingsInput = z.infer<typeof chatModerationSettingsSchema>
+export type ChatSearchQuery = z.infer<typeof chatSearchQuerySchema>
+export type MuteRoomInput = z.infer<typeof muteRoomSchema>
+export type ChatOfflineNotificationSettingsInput = z.infer<typeof chatOfflineNotificationSettingsSchema>
+
+/**
+ * Форматирование ошибок Zod для API ответов
+ */
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,132 @@
+import { z } from 'zod'
+
+/**
+ * Контакты объявления
+ */
+export const listingContactsSchema = z
+  .object({
+    phone: z
+      .string()
+      .trim()
+      .regex(/^\+?[\d\s()-]{5,20}$/, 'Invalid phone number')
+      .optional(),
+    email: z.string().trim().email('Invalid email').optional(),
+    telegram: z
+      .string()
+      .trim()
+      .regex(/^@?[\w]{3,32}$/, 'Invalid Telegram username')
+      .optional()
+  })
+  .strict()
+
+/**
+ * Схема создания черновика (POST /api/listings)
+ */
+export const createListingSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(3, 'Title must be at least 3 characters')
+      .max(150, 'Title must be less than 150 characters'),
+    description: z
+      .string()
+      .trim()
+      .min(10, 'Description must be at least 10 characters')
+      .max(5000, 'Description must be less than 5000 characters'),
+    price: z.number().min(0, 'Price cannot be negative').max(1_000_000_000).nullable().optional(),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code')
+      .optional(),
+    categoryId: z.string().min(1).nullable().optional(),
+    location: z.string().trim().max(200).nullable().optional(),
+    contacts: listingContactsSchema.optional(),
+    metadata: z.record(z.unknown()).optional()
+  })
+  .strict()
+
+/**
+ * Схема обновления объявления (PATCH /api/listings/[id])
+ */
+export const updateListingSchema = createListingSchema
+  .partial()
+  .strict()
+  .refine(data => Object.keys(data).length > 0, { message: 'Nothing to update' })
+
+const optionalQueryNumber = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce.number().min(0).optional()
+)
+
+const optionalQueryString = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.string().trim().max(200).optional()
+)
+
+/**
+ * Query-параметры публичного поиска (GET /api/listings)
+ */
+export const listingSearchSchema = z
+  .object({
+    q: optionalQueryString,
+    categoryId: optionalQueryString,
+    category: optionalQueryString,
+    minPrice: optionalQueryNumber,
+    maxPrice: optionalQueryNumber,
+    currency: z.preprocess(
+      value => (value === '' || value === null ? undefined : value),
+      z
+        .string()
+        .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code')
+        .optional()
+    ),
+    location: optionalQueryString,
+    sort: z.enum(['newest', 'oldest', 'price_asc', 'price_desc']).default('newest'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+  })
+  .refine(data => data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice, {
+    message: 'minPrice must be less than or equal to maxPrice',
+    path: ['minPrice']
+  })
+
+/**
+ * Привязка загруженного медиа (POST /api/listings/[id]/images, JSON)
+ */
+export const attachListingMediaSchema = z
+  .object({
+    mediaId: z.string().min(1, 'mediaId is required')
+  })
+  .strict()
+
+/**
+ * Решение модератора (POST /api/admin/listings/[id]/moderate)
+ */
+export const moderateListingSchema = z
+  .object({
+    action: z.enum(['approve', 'reject'], { errorMap: () => ({ message: 'Action must be approve or reject' }) }),
+    reason: z.string().trim().max(1000).optional()
+  })
+  .strict()
+  .refine(data => data.action !== 'reject' || Boolean(data.reason), {
+    message: 'Reason is required to reject a listing',
+    path: ['reason']
+  })
+
+export type CreateListingRequest = z.infer<typeof createListingSchema>
+export type UpdateListingRequest = z.infer<typeof updateListingSchema>
+export type ListingSearchQuery = z.infer<typeof listingSearchSchema>
+export type ModerateListingRequest = z.infer<typeof moderateListingSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
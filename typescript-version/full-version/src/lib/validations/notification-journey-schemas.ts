@@ -0,0 +1,122 @@
+import { z } from 'zod'
+
+const stepIdSchema = z
+  .string()
+  .trim()
+  .min(1, 'Step id is required')
+  .max(64)
+  .regex(/^[a-zA-Z0-9_-]+$/, 'Step id may contain only letters, digits, "_" and "-"')
+  .refine(value => value !== 'exit', '"exit" is reserved for the exit transition')
+
+const transitionSchema = z.string().trim().min(1).optional()
+
+export const journeyConditionSchema = z.object({
+  field: z.string().trim().min(1, 'Field is required'),
+  operator: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists']),
+  value: z.any()
+})
+
+const baseStep = {
+  id: stepIdSchema,
+  name: z.string().max(100).optional(),
+  next: transitionSchema
+}
+
+// Действие проверяется движком сценариев так же, как обычные actions
+const notifyStepSchema = z.object({
+  ...baseStep,
+  type: z.literal('notify'),
+  action: z
+    .object({
+      type: z.literal('notification'),
+      channel: z.enum(['email', 'sms', 'browser', 'telegram', 'webhook'])
+    })
+    .passthrough()
+})
+
+const waitStepSchema = z
+  .object({
+    ...baseStep,
+    type: z.literal('wait'),
+    duration: z.number().int().positive().optional(),
+    untilField: z.string().trim().min(1).optional()
+  })
+  .refine(step => step.duration !== undefined || step.untilField !== undefined, 'Wait needs duration or untilField')
+
+const waitForEventStepSchema = z.object({
+  ...baseStep,
+  type: z.literal('wait_for_event'),
+  eventType: z.string().trim().min(1, 'Event type is required'),
+  timeout: z.number().int().positive().optional(),
+  onTimeout: transitionSchema
+})
+
+const branchStepSchema = z.object({
+  ...baseStep,
+  type: z.literal('branch'),
+  conditions: z.array(journeyConditionSchema).min(1, 'Branch needs at least one condition'),
+  then: transitionSchema,
+  else: transitionSchema
+})
+
+const exitStepSchema = z.object({
+  ...baseStep,
+  type: z.literal('exit'),
+  reason: z.string().max(200).optional()
+})
+
+export const journeyStepSchema = z.union([
+  notifyStepSchema,
+  waitStepSchema,
+  waitForEventStepSchema,
+  branchStepSchema,
+  exitStepSchema
+])
+
+// Переходы должны указывать на существующие шаги или 'exit'
+export const journeyStepsSchema = z
+  .array(journeyStepSchema)
+  .max(50)
+  .superRefine((steps, ctx) => {
+    const ids = new Set<string>()
+
+    steps.forEach((step, index) => {
+      if (ids.has(step.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate step id: ${step.id}` })
+      }
+
+      ids.add(step.id)
+    })
+
+    steps.forEach((step, index) => {
+      const transitions: Record<string, string | undefined> = { next: step.next }
+
+      if (step.type === 'wait_for_event') transitions.onTimeout = step.onTimeout
+      if (step.type === 'branch') Object.assign(transitions, { then: step.then, else: step.else })
+
+      for (const [key, target] of Object.entries(transitions)) {
+        if (target && target !== 'exit' && !ids.has(target)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, key], message: `Unknown step: ${target}` })
+        }
+      }
+    })
+  })
+
+// Шаги и критерии выхода в теле создания/обновления сценария; null очищает поле
+export const scenarioJourneySchema = z.object({
+  steps: journeyStepsSchema.nullable().optional(),
+  exitConditions: z.array(journeyConditionSchema).nullable().optional()
+})
+
+export type ScenarioJourneyInput = z.infer<typeof scenarioJourneySchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
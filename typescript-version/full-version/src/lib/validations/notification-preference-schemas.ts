@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_PREFERENCE_CHANNELS } from '@/services/notifications/types'
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format')
+
+// IANA-зона проверяется самим Intl: неизвестная зона бросает RangeError
+const timezoneSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .refine(value => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value })
+
+      return true
+    } catch {
+      return false
+    }
+  }, 'Unknown timezone')
+
+export const notificationSettingsSchema = z
+  .object({
+    quietHoursEnabled: z.boolean(),
+    quietHoursStart: timeSchema,
+    quietHoursEnd: timeSchema,
+    timezone: timezoneSchema,
+    digestHour: z.number().int().min(0).max(23)
+  })
+  .partial()
+
+export const notificationPreferenceItemSchema = z.object({
+  category: z.enum(NOTIFICATION_CATEGORIES),
+  channel: z.enum(NOTIFICATION_PREFERENCE_CHANNELS),
+  enabled: z.boolean(),
+  delivery: z.enum(['immediate', 'digest'])
+})
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    settings: notificationSettingsSchema.optional(),
+    preferences: z
+      .array(notificationPreferenceItemSchema)
+      .max(NOTIFICATION_CATEGORIES.length * NOTIFICATION_PREFERENCE_CHANNELS.length)
+      .optional()
+  })
+  .refine(data => data.settings || data.preferences, 'Nothing to update')
+
+export type UpdateNotificationPreferencesRequest = z.infer<typeof updateNotificationPreferencesSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url('Invalid URL')
+  .max(2048)
+  .refine(value => /^https?:\/\//i.test(value), 'URL must use http or https')
+
+export const createNotificationWebhookSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  url: webhookUrlSchema,
+  enabled: z.boolean().optional()
+})
+
+// rotateSecret - выпустить новый ключ подписи, старый перестаёт действовать сразу
+export const updateNotificationWebhookSchema = createNotificationWebhookSchema
+  .partial()
+  .extend({ rotateSecret: z.boolean().optional() })
+  .refine(data => Object.values(data).some(value => value !== undefined), 'Nothing to update')
+
+export type CreateNotificationWebhookInput = z.infer<typeof createNotificationWebhookSchema>
+export type UpdateNotificationWebhookInput = z.infer<typeof updateNotificationWebhookSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod'
+
+const urlSchema = z.string().trim().url('Invalid URL')
+
+const claimMappingSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    email: z.string().min(1).optional(),
+    emailVerified: z.string().min(1).optional(),
+    name: z.string().min(1).optional(),
+    picture: z.string().min(1).optional()
+  })
+  .strict()
+
+const oauthProviderFields = {
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9-]{1,39}$/, 'Slug must contain lowercase letters, digits and dashes (2-40 characters)'),
+  displayName: z.string().trim().min(1, 'Display name is required').max(100),
+  type: z.enum(['oidc', 'oauth2']),
+  issuer: urlSchema.nullish(),
+  authorizationUrl: urlSchema.nullish(),
+  tokenUrl: urlSchema.nullish(),
+  userInfoUrl: urlSchema.nullish(),
+  jwksUrl: urlSchema.nullish(),
+  clientId: z.string().trim().min(1, 'Client ID is required'),
+
+  // Пустая строка при обновлении - удалить секрет (публичный клиент)
+  clientSecret: z.string().max(2000).nullish(),
+  scopes: z.string().trim().min(1).max(500),
+  iconUrl: z.string().trim().max(500).nullish(),
+  enabled: z.boolean(),
+  allowSignup: z.boolean(),
+  claimMapping: claimMappingSchema.nullish()
+}
+
+/**
+ * OIDC-провайдеру нужен issuer (discovery) или явные эндпоинты; OAuth2 - всегда явные эндпоинты
+ */
+const hasEndpoints = (data: { type?: string; issuer?: string | null; authorizationUrl?: string | null; tokenUrl?: string | null; userInfoUrl?: string | null }) =>
+  data.type === 'oauth2'
+    ? !!data.authorizationUrl && !!data.tokenUrl && !!data.userInfoUrl
+    : !!data.issuer || (!!data.authorizationUrl && !!data.tokenUrl)
+
+export const createOAuthProviderSchema = z
+  .object({
+    ...oauthProviderFields,
+    type: oauthProviderFields.type.default('oidc'),
+    scopes: oauthProviderFields.scopes.default('openid email profile'),
+    enabled: oauthProviderFields.enabled.default(true),
+    allowSignup: oauthProviderFields.allowSignup.default(true)
+  })
+  .refine(hasEndpoints, 'OIDC providers need an issuer or explicit endpoints; OAuth2 providers need authorization, token and userinfo URLs')
+
+export type CreateOAuthProviderInput = z.infer<typeof createOAuthProviderSchema>
+
+export const updateOAuthProviderSchema = z.object(oauthProviderFields).partial()
+
+export type UpdateOAuthProviderInput = z.infer<typeof updateOAuthProviderSchema>
+
+/**
+ * Параметры начала входа: login - вход/регистрация, link - привязка к текущему пользователю
+ */
+export const oauthAuthorizeQuerySchema = z.object({
+  mode: z.enum(['login', 'link']).default('login'),
+
+  // Только относительные пути внутри приложения (защита от open redirect)
+  redirectTo: z
+    .string()
+    .regex(/^\/(?!\/)[^\s\\]*$/, 'redirectTo must be a relative path')
+    .max(500)
+    .optional()
+})
+
+export type OAuthAuthorizeQuery = z.infer<typeof oauthAuthorizeQuerySchema>
+
+export const oauthCallbackQuerySchema = z.union([
+  z.object({ code: z.string().min(1).max(2000), state: z.string().min(1).max(200) }),
+  z.object({ error: z.string().max(200), error_description: z.string().max(1000).optional(), state: z.string().max(200).optional() })
+])
+
+export type OAuthCallbackQuery = z.infer<typeof oauthCallbackQuerySchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
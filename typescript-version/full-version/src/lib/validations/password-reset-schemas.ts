@@ -0,0 +1,61 @@
+import { z } from 'zod'
+
+import { normalizePhone, validatePhoneFormat } from '@/lib/utils/phone-utils'
+import { validatePassword } from '@/utils/passwordValidation'
+
+const emailSchema = z.string().trim().toLowerCase().email('Invalid email format')
+
+const phoneSchema = z
+  .string()
+  .min(1, 'Phone number is required')
+  .refine(phone => validatePhoneFormat(normalizePhone(phone)), 'Invalid phone number format')
+  .transform(phone => normalizePhone(phone))
+
+// Сложность пароля - по общим правилам passwordValidation.ts
+const newPasswordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of validatePassword(password).errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+  }
+})
+
+/**
+ * Запрос сброса: ссылка на email или SMS-код на телефон
+ */
+export const requestPasswordResetSchema = z
+  .object({
+    email: emailSchema.optional(),
+    phone: phoneSchema.optional()
+  })
+  .refine(data => !!data.email !== !!data.phone, 'Provide either email or phone')
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetSchema>
+
+/**
+ * Установка нового пароля: токен из ссылки или телефон + SMS-код
+ */
+export const resetPasswordSchema = z
+  .object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid reset token').optional(),
+    phone: phoneSchema.optional(),
+    code: z.string().regex(/^\d{6}$/, 'Reset code must be 6 digits').optional(),
+    password: newPasswordSchema,
+    confirmPassword: z.string()
+  })
+  .refine(data => (data.token ? !data.phone && !data.code : !!data.phone && !!data.code), 'Provide either token or phone and code')
+  .refine(data => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword']
+  })
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+
+import { normalizePhone, validatePhoneFormat } from '@/lib/utils/phone-utils'
+
+const emailSchema = z.string().trim().toLowerCase().email('Invalid email format')
+
+const phoneSchema = z
+  .string()
+  .min(1, 'Phone number is required')
+  .refine(phone => validatePhoneFormat(normalizePhone(phone)), 'Invalid phone number format')
+  .transform(phone => normalizePhone(phone))
+
+/**
+ * Запрос входа: ссылка на email или SMS-код на телефон
+ */
+export const requestPasswordlessLoginSchema = z
+  .object({
+    email: emailSchema.optional(),
+    phone: phoneSchema.optional()
+  })
+  .refine(data => !!data.email !== !!data.phone, 'Provide either email or phone')
+
+export type RequestPasswordlessLoginInput = z.infer<typeof requestPasswordlessLoginSchema>
+
+/**
+ * Вход: токен из ссылки или телефон + SMS-код
+ */
+export const verifyPasswordlessLoginSchema = z
+  .object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid sign-in token').optional(),
+    phone: phoneSchema.optional(),
+    code: z.string().regex(/^\d{6}$/, 'Sign-in code must be 6 digits').optional()
+  })
+  .refine(data => (data.token ? !data.phone && !data.code : !!data.phone && !!data.code), 'Provide either token or phone and code')
+
+export type VerifyPasswordlessLoginInput = z.infer<typeof verifyPasswordlessLoginSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -0,0 +1,161 @@
+import { z } from 'zod'
+
+import { parseCidr, parseIp } from '@/lib/rate-limit/network/ip-range'
+
+// Алгоритм подсчёта запросов для модуля rate limit
+export const rateLimitAlgorithmSchema = z.enum(['fixed', 'sliding-log', 'sliding-counter', 'token-bucket'], {
+  errorMap: () => ({ message: 'Algorithm must be one of "fixed", "sliding-log", "sliding-counter", "token-bucket"' })
+})
+
+// Схема для выбора алгоритма модуля (PATCH /api/admin/rate-limits/[id])
+export const rateLimitAlgorithmSettingsSchema = z
+  .object({
+    algorithm: rateLimitAlgorithmSchema,
+    refillRate: z.number().positive('refillRate must be a positive number').nullable().optional(),
+    burst: z.number().int('burst must be an integer').positive('burst must be a positive integer').nullable().optional()
+  })
+  .strict()
+
+export type RateLimitAlgorithmSettingsInput = z.infer<typeof rateLimitAlgorithmSettingsSchema>
+
+// Длительности в мс хранятся в Int-колонках Postgres
+const MAX_DURATION_MS = 2_147_483_647
+
+const durationMsSchema = (field: string) =>
+  z
+    .number()
+    .int(`${field} must be an integer`)
+    .positive(`${field} must be a positive number`)
+    .max(MAX_DURATION_MS, `${field} is too large`)
+
+// Эскалация блокировок для повторных нарушителей (PUT /api/admin/rate-limits)
+export const rateLimitEscalationSettingsSchema = z.object({
+  escalationLadder: z
+    .array(durationMsSchema('escalationLadder step'))
+    .max(20, 'escalationLadder must have at most 20 steps')
+    .nullable()
+    .optional(),
+  escalationLookbackMs: durationMsSchema('escalationLookbackMs').nullable().optional(),
+  escalationDecayMs: durationMsSchema('escalationDecayMs').nullable().optional(),
+  escalationManualReview: z.boolean().optional()
+})
+
+export type RateLimitEscalationSettingsInput = z.infer<typeof rateLimitEscalationSettingsSchema>
+
+// Цель переопределения лимита: allowlist (user, ip, cidr), тариф или роль
+export const rateLimitOverrideTargetSchema = z.enum(['user', 'ip', 'cidr', 'tariff', 'role'], {
+  errorMap: () => ({ message: 'targetType must be one of "user", "ip", "cidr", "tariff", "role"' })
+})
+
+const rateLimitOverrideFields = {
+  module: z.string().trim().min(1, 'module is required').max(100, 'module is too long'),
+  targetType: rateLimitOverrideTargetSchema,
+  targetValue: z.string().trim().min(1, 'targetValue is required').max(255, 'targetValue is too long'),
+  maxRequests: z.number().int('maxRequests must be an integer').positive('maxRequests must be positive').nullable().optional(),
+  windowMs: durationMsSchema('windowMs').nullable().optional(),
+  blockMs: durationMsSchema('blockMs').nullable().optional(),
+  exempt: z.boolean().optional(),
+  reason: z.string().trim().max(500, 'reason is too long').nullable().optional(),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true, message: 'expiresAt must be an ISO date' })
+    .transform(value => new Date(value))
+    .nullable()
+    .optional(),
+  isActive: z.boolean().optional()
+}
+
+const validateOverrideTarget = (
+  data: { targetType?: string; targetValue?: string },
+  ctx: z.RefinementCtx
+) => {
+  if (data.targetType === 'ip' && !parseIp(data.targetValue)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetValue'], message: 'targetValue must be a valid IP address' })
+  }
+
+  if (data.targetType === 'cidr' && !parseCidr(data.targetValue)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetValue'], message: 'targetValue must be a valid CIDR range' })
+  }
+}
+
+// Схема создания переопределения (POST /api/admin/rate-limits/overrides)
+export const createRateLimitOverrideSchema = z
+  .object(rateLimitOverrideFields)
+  .strict()
+  .superRefine((data, ctx) => {
+    validateOverrideTarget(data, ctx)
+
+    if (!data.exempt && data.maxRequests == null && data.windowMs == null && data.blockMs == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Override must set maxRequests, windowMs, blockMs or exempt' })
+    }
+  })
+
+// Схема изменения переопределения (PATCH /api/admin/rate-limits/overrides/[id])
+export const updateRateLimitOverrideSchema = z
+  .object(rateLimitOverrideFields)
+  .partial()
+  .strict()
+  .superRefine((data, ctx) => {
+    if ((data.targetType === undefined) !== (data.targetValue === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'targetType and targetValue must be updated together' })
+    }
+
+    validateOverrideTarget(data, ctx)
+  })
+
+export type CreateRateLimitOverrideInput = z.infer<typeof createRateLimitOverrideSchema>
+export type UpdateRateLimitOverrideInput = z.infer<typeof updateRateLimitOverrideSchema>
+
+// Период симуляции ограничен, чтобы не читать всю историю событий
+const MAX_SIMULATION_PERIOD_MS = 31 * 24 * 60 * 60 * 1000
+
+const isoDateSchema = (field: string) =>
+  z
+    .string()
+    .datetime({ offset: true, message: `${field} must be an ISO date` })
+    .transform(value => new Date(value))
+
+// Симуляция политики по историческому трафику (POST /api/admin/rate-limits/simulate)
+export const simulateRateLimitPolicySchema = z
+  .object({
+    module: z.string().trim().min(1, 'module is required').max(100, 'module is too long'),
+    config: z
+      .object({
+        maxRequests: z.number().int('maxRequests must be an integer').positive('maxRequests must be positive').optional(),
+        windowMs: durationMsSchema('windowMs').optional(),
+        blockMs: durationMsSchema('blockMs').optional(),
+        warnThreshold: z.number().int('warnThreshold must be an integer').min(0, 'warnThreshold must not be negative').optional(),
+        algorithm: rateLimitAlgorithmSchema.optional(),
+        refillRate: rateLimitAlgorithmSettingsSchema.shape.refillRate,
+        burst: rateLimitAlgorithmSettingsSchema.shape.burst,
+        ...rateLimitEscalationSettingsSchema.shape
+      })
+      .strict(),
+    from: isoDateSchema('from'),
+    to: isoDateSchema('to').optional(),
+    eventModule: z.string().trim().min(1).max(100, 'eventModule is too long').optional(),
+    eventTypes: z.array(z.string().trim().min(1).max(100)).max(50, 'eventTypes must have at most 50 items').optional(),
+    topLimit: z.number().int('topLimit must be an integer').min(1).max(100, 'topLimit must be at most 100').optional()
+  })
+  .strict()
+  .transform(data => ({ ...data, to: data.to ?? new Date() }))
+  .superRefine((data, ctx) => {
+    if (data.from >= data.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: 'from must be before to' })
+    } else if (data.to.getTime() - data.from.getTime() > MAX_SIMULATION_PERIOD_MS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'Simulation period must not exceed 31 days' })
+    }
+  })
+
+export type SimulateRateLimitPolicyInput = z.infer<typeof simulateRateLimitPolicySchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
@@ -9,11 +9,21 @@ export const smsProviderSchema = z.enum(['smsru'], {
   errorMap: () => ({ message: 'SMS provider must be "smsru"' })
 })
 
+// Уровень роли, начиная с которого (level <= значения) обязательна 2FA; null - не требуется
+export const twoFactorRequiredRoleLevelSchema = z
+  .number()
+  .int('Role level must be an integer')
+  .min(0, 'Role level must be 0 or greater')
+  .nullable()
+
 export const registrationSettingsSchema = z.object({
   registrationMode: registrationModeSchema,
   requirePhoneVerification: z.boolean().default(true),
   requireEmailVerification: z.boolean().default(true),
-  smsProvider: smsProviderSchema.default('smsru')
+  smsProvider: smsProviderSchema.default('smsru'),
+  twoFactorRequiredRoleLevel: twoFactorRequiredRoleLevelSchema.default(null),
+  passwordlessEmailEnabled: z.boolean().default(false),
+  passwordlessSmsEnabled: z.boolean().default(false)
 })
 
 export type RegistrationSettingsInput = z.infer<typeof registrationSettingsSchema>
@@ -23,7 +33,10 @@ export const updateRegistrationSettingsSchema = z.object({
   registrationMode: registrationModeSchema.optional(),
   requirePhoneVerification: z.boolean().optional(),
   requireEmailVerification: z.boolean().optional(),
-  smsProvider: smsProviderSchema.optional()
+  smsProvider: smsProviderSchema.optional(),
+  twoFactorRequiredRoleLevel: twoFactorRequiredRoleLevelSchema.optional(),
+  passwordlessEmailEnabled: z.boolean().optional(),
+  passwordlessSmsEnabled: z.boolean().optional()
 })
 
 export type UpdateRegistrationSettingsInput = z.infer<typeof updateRegistrationSettingsSchema>
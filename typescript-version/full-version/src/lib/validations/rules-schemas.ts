@@ -0,0 +1,157 @@
+import { z } from 'zod'
+
+import type { RuleConditions } from '@/services/rules/types'
+
+// Максимальная вложенность all/any - защищает движок от слишком глубоких деревьев
+const MAX_CONDITION_DEPTH = 6
+
+/**
+ * Категории бизнес-правил
+ */
+export const ruleCategorySchema = z.enum(['tariff', 'limit', 'blocking', 'notification', 'discount', 'moderation'], {
+  errorMap: () => ({ message: 'Invalid rule category' })
+})
+
+/**
+ * Операторы условий: встроенные json-rules-engine и кастомные из RulesEngine/operators
+ */
+export const ruleConditionOperatorSchema = z.enum(
+  [
+    'equal',
+    'notEqual',
+    'lessThan',
+    'lessThanInclusive',
+    'greaterThan',
+    'greaterThanInclusive',
+    'in',
+    'notIn',
+    'contains',
+    'doesNotContain',
+    'startsWith',
+    'endsWith',
+    'matches',
+    'isEmpty',
+    'hasProperty',
+    'between',
+    'olderThanDays',
+    'timeOfDay'
+  ],
+  { errorMap: () => ({ message: 'Unknown condition operator' }) }
+)
+
+/**
+ * Простое условие { fact, operator, value, path? }
+ */
+export const ruleConditionSchema = z
+  .object({
+    fact: z.string().trim().min(1, 'Fact is required').max(100),
+    operator: ruleConditionOperatorSchema,
+    value: z.unknown(),
+    path: z
+      .string()
+      .trim()
+      .regex(/^\$(\.[\w-]+|\[\d+\])*$/, 'Path must look like $.field.nested')
+      .optional()
+  })
+  .strict()
+
+type ConditionNode = z.infer<typeof ruleConditionSchema> | { all: ConditionNode[] } | { any: ConditionNode[] }
+
+const conditionNodeSchema: z.ZodType<ConditionNode> = z.lazy(() =>
+  z.union([
+    ruleConditionSchema,
+    z.object({ all: z.array(conditionNodeSchema).min(1, 'Group must contain at least one condition').max(50) }).strict(),
+    z.object({ any: z.array(conditionNodeSchema).min(1, 'Group must contain at least one condition').max(50) }).strict()
+  ])
+)
+
+const getConditionDepth = (node: ConditionNode): number => {
+  const children = 'all' in node ? node.all : 'any' in node ? node.any : null
+
+  return children ? 1 + Math.max(0, ...children.map(getConditionDepth)) : 0
+}
+
+/**
+ * Корень условий правила: группа all или any
+ */
+export const ruleConditionsSchema = z
+  .union([
+    z.object({ all: z.array(conditionNodeSchema).min(1, 'Rule must contain at least one condition').max(50) }).strict(),
+    z.object({ any: z.array(conditionNodeSchema).min(1, 'Rule must contain at least one condition').max(50) }).strict()
+  ])
+  .refine(conditions => getConditionDepth(conditions) <= MAX_CONDITION_DEPTH, {
+    message: `Conditions can be nested at most ${MAX_CONDITION_DEPTH} levels deep`
+  })
+  .transform(conditions => conditions as RuleConditions)
+
+/**
+ * Событие правила
+ */
+export const ruleEventSchema = z
+  .object({
+    type: z.string().trim().min(1, 'Event type is required').max(100),
+    params: z.record(z.unknown()).optional()
+  })
+  .strict()
+
+const ruleNameSchema = z
+  .string()
+  .trim()
+  .min(2, 'Rule name must be at least 2 characters')
+  .max(100, 'Rule name must be less than 100 characters')
+
+/**
+ * Схема создания правила (POST /api/admin/rules)
+ */
+export const createRuleSchema = z
+  .object({
+    name: ruleNameSchema,
+    description: z.string().trim().max(500).optional(),
+    category: ruleCategorySchema,
+    conditions: ruleConditionsSchema,
+    event: ruleEventSchema,
+    priority: z.number().int().min(0).max(1000).optional(),
+    enabled: z.boolean().optional()
+  })
+  .strict()
+
+/**
+ * Схема обновления правила (PUT /api/admin/rules/[id])
+ */
+export const updateRuleSchema = createRuleSchema.partial().strict()
+
+/**
+ * Схема dry-run (POST /api/admin/rules/test): сохранённое правило по ruleId или черновик rule
+ */
+export const testRuleSchema = z
+  .object({
+    ruleId: z.string().min(1).optional(),
+    rule: z
+      .object({
+        name: ruleNameSchema.optional(),
+        category: ruleCategorySchema.optional(),
+        conditions: ruleConditionsSchema,
+        event: ruleEventSchema
+      })
+      .optional(),
+    facts: z.record(z.unknown()).default({})
+  })
+  .strict()
+  .refine(data => Boolean(data.ruleId) !== Boolean(data.rule), {
+    message: 'Provide either ruleId or rule'
+  })
+
+export type CreateRuleRequest = z.infer<typeof createRuleSchema>
+export type UpdateRuleRequest = z.infer<typeof updateRuleSchema>
+export type TestRuleRequest = z.infer<typeof testRuleSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
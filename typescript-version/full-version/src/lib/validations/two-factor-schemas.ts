@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+// TOTP-код из приложения (6 цифр) или код восстановления (XXXXX-XXXXX)
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string({ required_error: 'Code is required' })
+    .trim()
+    .min(6, 'Code must be at least 6 characters')
+    .max(20, 'Code must be at most 20 characters')
+})
+
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>
+
+// Helper функция для валидации с понятными ошибками
+export function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map(err => {
+      const path = err.path.join('.')
+
+      return path ? `${path}: ${err.message}` : err.message
+    })
+    .join(', ')
+}
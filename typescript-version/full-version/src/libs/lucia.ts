@@ -10,6 +10,13 @@ export const lucia = new Lucia(new PrismaAdapter(prisma.session, prisma.user), {
       secure: isProduction
     }
   },
+  getSessionAttributes: attributes => ({
+    twoFactorState: attributes.twoFactorState ?? null,
+    lastActiveAt: attributes.lastActiveAt ?? null,
+    createdAt: attributes.createdAt ?? null,
+    impersonatorId: attributes.impersonatorId ?? null,
+    impersonatorSessionId: attributes.impersonatorSessionId ?? null
+  }),
   getUserAttributes: attributes => ({
     id: attributes.id,
     email: attributes.email,
@@ -23,6 +30,18 @@ export const lucia = new Lucia(new PrismaAdapter(prisma.session, prisma.user), {
 declare module 'lucia' {
   interface Register {
     Lucia: typeof lucia
+    DatabaseSessionAttributes: {
+      sessionToken: string
+      twoFactorState?: string | null // Промежуточная сессия входа с 2FA (см. TwoFactorService)
+      ipAddress?: string | null // Устройство и активность - для списка сессий (см. SessionService)
+      userAgent?: string | null
+      deviceType?: string | null
+      deviceName?: string | null
+      lastActiveAt?: Date
+      createdAt?: Date
+      impersonatorId?: string | null // Вход суперадмина под пользователем (см. ImpersonationService)
+      impersonatorSessionId?: string | null
+    }
     DatabaseUserAttributes: {
       id: string
       email: string
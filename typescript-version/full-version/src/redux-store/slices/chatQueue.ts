@@ -1,11 +1,15 @@
 import { createSlice, nanoid, type PayloadAction } from '@reduxjs/toolkit'
 
+import type { ChatMessageAttachment } from '@/lib/sockets/types/chat'
+
 export type QueuedMessageStatus = 'pending' | 'sending' | 'failed'
 
 export type QueuedMessage = {
   clientId: string
   roomId: string
   content: string
+  replyToId?: string
+  attachments?: ChatMessageAttachment[]
   createdAt: string
   status: QueuedMessageStatus
   attempts: number
@@ -24,6 +28,8 @@ type EnqueuePayload = {
   clientId?: string
   roomId: string
   content: string
+  replyToId?: string
+  attachments?: ChatMessageAttachment[]
   status?: QueuedMessageStatus
   createdAt?: string
 }
@@ -0,0 +1,256 @@
+/**
+ * Персональные API-ключи
+ *
+ * Ключ вида mk_<prefix>_<secret> показывается один раз при создании, в БД - только
+ * prefix (поиск) и SHA-256 ключа. Scopes записываются в словаре Role.permissions;
+ * при каждом запросе действуют только те из них, что ещё разрешены роли создателя
+ * (пересечение в getUserPermissions).
+ */
+
+import crypto from 'crypto'
+
+import type { ApiKey, Role, User } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { hashValue } from '@/lib/config/encryption'
+import type { CreateApiKeyInput } from '@/lib/validations/api-key-schemas'
+import { eventService } from '@/services/events/EventService'
+import { accountAccessService } from '@/services/accounts/AccountAccessService'
+import { API_KEY_PREFIX } from '@/utils/auth/api-key'
+import { parsePermissions } from '@/utils/permissions/permissions'
+import type { PermissionMap, Permissions } from '@/utils/permissions/permissions'
+
+// lastUsedAt пишется не чаще раза в минуту
+export const API_KEY_USAGE_THROTTLE_MS = 60 * 1000
+
+const KEY_ID_LENGTH = 8
+const KEY_FORMAT = /^mk_([A-Za-z0-9]{8})_([A-Za-z0-9_-]{43})$/
+
+export type ApiKeyErrorCode = 'not_found' | 'scope_not_allowed' | 'account_forbidden' | 'already_revoked'
+
+export interface ApiKeyDTO {
+  id: string
+  name: string
+  prefix: string
+  accountId: string | null
+  scopes: Permissions
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export interface ApiKeyCreateResult {
+  success: boolean
+  error?: ApiKeyErrorCode
+  apiKey?: ApiKeyDTO
+  key?: string // Полный ключ - только в ответе на создание
+}
+
+export interface ApiKeyPrincipal {
+  apiKey: ApiKeyDTO
+  user: User & { role: Role | null }
+}
+
+// Создатель ключа: scopes проверяются по разрешениям его роли
+type ApiKeyOwner = { id: string; role?: Pick<Role, 'permissions'> | null }
+
+const toDTO = (apiKey: ApiKey): ApiKeyDTO => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  accountId: apiKey.accountId,
+  scopes: parsePermissions(apiKey.scopes),
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt
+})
+
+const randomAlphanumeric = (length: number) => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+
+  return Array.from(crypto.randomBytes(length), byte => alphabet[byte % alphabet.length]).join('')
+}
+
+const isSameHash = (left: string, right: string) =>
+  left.length === right.length && crypto.timingSafeEqual(Buffer.from(left), Buffer.from(right))
+
+/**
+ * Scopes, которых нет у роли: ключ не может расширить права создателя
+ */
+const findDisallowedScopes = (rolePermissions: Permissions, scopes: Permissions): string[] => {
+  if (rolePermissions === 'all') return []
+  if (scopes === 'all') return []
+
+  return Object.entries(scopes).flatMap(([module, actions]) =>
+    actions.filter(action => !rolePermissions[module]?.includes(action)).map(action => `${module}:${action}`)
+  )
+}
+
+export class ApiKeyService {
+  private static instance: ApiKeyService
+
+  static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService()
+    }
+
+    return ApiKeyService.instance
+  }
+
+  /**
+   * Ключи пользователя; с accountId - все ключи аккаунта (нужны права управления аккаунтом)
+   */
+  async list(userId: string, accountId?: string): Promise<ApiKeyDTO[] | null> {
+    if (accountId && !(await accountAccessService.canManageAccount(userId, accountId))) {
+      return null
+    }
+
+    const keys = await prisma.apiKey.findMany({
+      where: accountId ? { accountId } : { userId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return keys.map(toDTO)
+  }
+
+  /**
+   * Права роли, из которых собираются scopes ключа. Для роли с "all" - словарь всех ролей системы.
+   */
+  async getAvailableScopes(user: ApiKeyOwner): Promise<PermissionMap> {
+    const permissions = parsePermissions(user.role?.permissions)
+
+    if (permissions !== 'all') return permissions
+
+    const roles = await prisma.role.findMany({ select: { permissions: true } })
+
+    return roles.reduce<PermissionMap>((acc, role) => {
+      const rolePermissions = parsePermissions(role.permissions)
+
+      if (rolePermissions === 'all') return acc
+
+      for (const [module, actions] of Object.entries(rolePermissions)) {
+        acc[module] = Array.from(new Set([...(acc[module] ?? []), ...actions]))
+      }
+
+      return acc
+    }, {})
+  }
+
+  async create(user: ApiKeyOwner, input: CreateApiKeyInput): Promise<ApiKeyCreateResult> {
+    if (input.accountId && !(await accountAccessService.canManageAccount(user.id, input.accountId))) {
+      return { success: false, error: 'account_forbidden' }
+    }
+
+    if (findDisallowedScopes(parsePermissions(user.role?.permissions), input.scopes).length > 0) {
+      return { success: false, error: 'scope_not_allowed' }
+    }
+
+    const keyId = randomAlphanumeric(KEY_ID_LENGTH)
+    const key = `${API_KEY_PREFIX}${keyId}_${crypto.randomBytes(32).toString('base64url')}`
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: input.name,
+        prefix: `${API_KEY_PREFIX}${keyId}`,
+        keyHash: hashValue(key),
+        userId: user.id,
+        accountId: input.accountId ?? null,
+        scopes: input.scopes === 'all' ? 'all' : JSON.stringify(input.scopes),
+        expiresAt: input.expiresAt ?? null
+      }
+    })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'api_key.created',
+      severity: 'info',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'user', id: user.id },
+      message: `API-ключ ${apiKey.prefix} создан`,
+      payload: { apiKeyId: apiKey.id, prefix: apiKey.prefix, accountId: apiKey.accountId, scopes: input.scopes }
+    })
+
+    return { success: true, apiKey: toDTO(apiKey), key }
+  }
+
+  /**
+   * Отозвать ключ: свой или ключ аккаунта, которым пользователь управляет
+   */
+  async revoke(userId: string, apiKeyId: string): Promise<{ success: boolean; error?: ApiKeyErrorCode }> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id: apiKeyId } })
+
+    const canRevoke =
+      !!apiKey &&
+      (apiKey.userId === userId ||
+        (!!apiKey.accountId && (await accountAccessService.canManageAccount(userId, apiKey.accountId))))
+
+    if (!apiKey || !canRevoke) {
+      return { success: false, error: 'not_found' }
+    }
+
+    if (apiKey.revokedAt) {
+      return { success: false, error: 'already_revoked' }
+    }
+
+    await prisma.apiKey.update({ where: { id: apiKeyId }, data: { revokedAt: new Date() } })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'api_key.revoked',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: apiKey.userId },
+      message: `API-ключ ${apiKey.prefix} отозван`,
+      payload: { apiKeyId: apiKey.id, prefix: apiKey.prefix, accountId: apiKey.accountId }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Проверить ключ из заголовка Authorization. null - ключ неизвестен, отозван, истёк,
+   * создатель заблокирован или потерял доступ к аккаунту ключа.
+   */
+  async authenticate(key: string, ipAddress: string | null): Promise<ApiKeyPrincipal | null> {
+    const match = KEY_FORMAT.exec(key)
+
+    if (!match) return null
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { prefix: `${API_KEY_PREFIX}${match[1]}` },
+      include: { user: { include: { role: true } } }
+    })
+
+    if (!apiKey || !isSameHash(apiKey.keyHash, hashValue(key))) return null
+    if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) return null
+
+    const { user, ...record } = apiKey
+
+    if (user.status !== 'active' || !user.isActive) return null
+
+    if (record.accountId && !(await accountAccessService.canAccessAccount(user.id, record.accountId))) {
+      return null
+    }
+
+    await this.touch(record.id, ipAddress)
+
+    return { user, apiKey: toDTO(record) }
+  }
+
+  private async touch(apiKeyId: string, ipAddress: string | null): Promise<void> {
+    const threshold = new Date(Date.now() - API_KEY_USAGE_THROTTLE_MS)
+
+    await prisma.apiKey.updateMany({
+      where: { id: apiKeyId, OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: threshold } }] },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress }
+    })
+  }
+}
+
+export const apiKeyService = ApiKeyService.getInstance()
@@ -0,0 +1,229 @@
+/**
+ * Вход суперадмина под пользователем (impersonation)
+ *
+ * Создаётся отдельная Lucia-сессия пользователя с impersonatorId (администратор) и
+ * impersonatorSessionId (его сессия, cookie которой возвращается при выходе из режима).
+ * Сессия живёт не дольше IMPERSONATION_TTL_MS, даже если Lucia продлевает expiresAt.
+ * Начало, завершение и каждый запрос в режиме пишутся в журнал событий.
+ */
+
+import crypto from 'crypto'
+
+import { prisma } from '@/libs/prisma'
+import { notifySessionsRevoked } from '@/lib/sockets/utils/session-revocation'
+import { eventService } from '@/services/events/EventService'
+import type { SessionMetadata } from './SessionService'
+
+export const IMPERSONATION_TTL_MS = 60 * 60 * 1000
+
+export type ImpersonationErrorCode = 'not_found' | 'self' | 'target_superadmin' | 'target_inactive'
+
+export type ImpersonationStopReason = 'manual' | 'expired'
+
+export interface ImpersonationStartResult {
+  success: boolean
+  error?: ImpersonationErrorCode
+  sessionId?: string
+  expiresAt?: Date
+  user?: { id: string; email: string | null; name: string | null }
+}
+
+export interface ImpersonationInfo {
+  impersonator: { id: string; email: string | null; name: string | null }
+  startedAt: Date | null
+  expiresAt: Date | null
+}
+
+// Lucia-сессия с атрибутами режима (см. getSessionAttributes в libs/lucia)
+export interface ImpersonationSession {
+  id: string
+  userId: string
+  impersonatorId?: string | null
+  impersonatorSessionId?: string | null
+  createdAt?: Date | null
+}
+
+export class ImpersonationService {
+  private static instance: ImpersonationService
+
+  static getInstance(): ImpersonationService {
+    if (!ImpersonationService.instance) {
+      ImpersonationService.instance = new ImpersonationService()
+    }
+
+    return ImpersonationService.instance
+  }
+
+  /**
+   * Войти под пользователем. Права суперадмина проверяет маршрут;
+   * здесь - ограничения на цель: активный пользователь, не сам админ и не суперадмин.
+   */
+  async start(params: {
+    adminId: string
+    adminSessionId: string
+    targetUserId: string
+    metadata: SessionMetadata
+  }): Promise<ImpersonationStartResult> {
+    const { adminId, adminSessionId, targetUserId, metadata } = params
+
+    if (targetUserId === adminId) {
+      return { success: false, error: 'self' }
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      include: { role: true }
+    })
+
+    if (!target) {
+      return { success: false, error: 'not_found' }
+    }
+
+    if (target.role?.code === 'SUPERADMIN') {
+      return { success: false, error: 'target_superadmin' }
+    }
+
+    if (target.status !== 'active' || !target.isActive) {
+      return { success: false, error: 'target_inactive' }
+    }
+
+    const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MS)
+
+    // id - значение cookie Lucia (как у сессий, которые создаёт lucia.createSession)
+    const session = await prisma.session.create({
+      data: {
+        id: crypto.randomBytes(20).toString('hex'),
+        sessionToken: crypto.randomUUID(),
+        userId: target.id,
+        expiresAt,
+        ...metadata,
+        impersonatorId: adminId,
+        impersonatorSessionId: adminSessionId
+      }
+    })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'impersonation.started',
+      severity: 'warning',
+      actor: { type: 'user', id: adminId },
+      subject: { type: 'user', id: target.id },
+      key: target.email,
+      message: 'Суперадмин вошёл под пользователем',
+      payload: { impersonatorId: adminId, userId: target.id, expiresAt, ipAddress: metadata.ipAddress }
+    })
+
+    return {
+      success: true,
+      sessionId: session.id,
+      expiresAt,
+      user: { id: target.id, email: target.email, name: target.name }
+    }
+  }
+
+  /**
+   * Выйти из режима: сессия удаляется, сокеты отключаются.
+   * Возвращает id сессии администратора, если она ещё действительна.
+   */
+  async stop(session: ImpersonationSession, reason: ImpersonationStopReason): Promise<{ adminSessionId: string | null }> {
+    await prisma.session.deleteMany({ where: { id: session.id } })
+    await notifySessionsRevoked({ sessionIds: [session.id] })
+
+    const adminSession = session.impersonatorSessionId
+      ? await prisma.session.findFirst({
+          where: {
+            id: session.impersonatorSessionId,
+            userId: session.impersonatorId ?? undefined,
+            twoFactorState: null,
+            expiresAt: { gt: new Date() }
+          },
+          select: { id: true }
+        })
+      : null
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'impersonation.stopped',
+      severity: 'warning',
+      actor: { type: 'user', id: session.impersonatorId ?? null },
+      subject: { type: 'user', id: session.userId },
+      message: reason === 'expired' ? 'Время входа под пользователем истекло' : 'Суперадмин вернулся в свой аккаунт',
+      payload: {
+        impersonatorId: session.impersonatorId,
+        userId: session.userId,
+        reason,
+        durationMs: session.createdAt ? Date.now() - session.createdAt.getTime() : null
+      }
+    })
+
+    return { adminSessionId: adminSession?.id ?? null }
+  }
+
+  /**
+   * Истёк ли срок режима (считается от создания сессии)
+   */
+  isExpired(session: ImpersonationSession): boolean {
+    if (!session.impersonatorId) return false
+
+    return !session.createdAt || session.createdAt.getTime() + IMPERSONATION_TTL_MS <= Date.now()
+  }
+
+  /**
+   * Кто и когда вошёл под пользователем - для баннера
+   */
+  async getInfo(session: ImpersonationSession): Promise<ImpersonationInfo | null> {
+    if (!session.impersonatorId) return null
+
+    const impersonator = await prisma.user.findUnique({
+      where: { id: session.impersonatorId },
+      select: { id: true, email: true, name: true }
+    })
+
+    if (!impersonator) return null
+
+    return {
+      impersonator,
+      startedAt: session.createdAt ?? null,
+      expiresAt: session.createdAt ? new Date(session.createdAt.getTime() + IMPERSONATION_TTL_MS) : null
+    }
+  }
+
+  /**
+   * Запрос, выполненный администратором от имени пользователя
+   */
+  async recordRequest(
+    session: ImpersonationSession,
+    request: { method: string; path: string; ipAddress: string | null }
+  ): Promise<void> {
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'impersonation.request',
+      severity: 'info',
+      actor: { type: 'user', id: session.impersonatorId ?? null },
+      subject: { type: 'user', id: session.userId },
+      message: `${request.method} ${request.path}`,
+      payload: { impersonatorId: session.impersonatorId, userId: session.userId, ...request }
+    })
+  }
+
+  /**
+   * Попытка необратимого действия в режиме - действие отклонено
+   */
+  async recordBlockedAction(session: ImpersonationSession, action: string, path: string): Promise<void> {
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'impersonation.action_blocked',
+      severity: 'warning',
+      actor: { type: 'user', id: session.impersonatorId ?? null },
+      subject: { type: 'user', id: session.userId },
+      message: 'Действие недоступно при входе под пользователем',
+      payload: { impersonatorId: session.impersonatorId, userId: session.userId, action, path }
+    })
+  }
+}
+
+export const impersonationService = ImpersonationService.getInstance()
@@ -0,0 +1,208 @@
+/**
+ * Провайдеры входа OAuth 2.0 / OpenID Connect
+ *
+ * Конфигурации хранятся как ServiceConfiguration: секрет клиента шифруется
+ * AES-256-GCM (CREDENTIALS_ENCRYPTION_KEY) и наружу не отдаётся - в DTO
+ * только признак hasClientSecret.
+ */
+
+import type { OAuthProvider } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { decrypt, encrypt, isEncryptionAvailable } from '@/lib/config/encryption'
+import type { CreateOAuthProviderInput, UpdateOAuthProviderInput } from '@/lib/validations/oauth-schemas'
+
+export type OAuthProviderType = 'oidc' | 'oauth2'
+
+// Имена claims профиля у провайдера; по умолчанию - стандартные claims OIDC
+export interface OAuthClaimMapping {
+  id: string
+  email: string
+  emailVerified: string
+  name: string
+  picture: string
+}
+
+export interface OAuthProviderConfig {
+  id: string
+  slug: string
+  displayName: string
+  type: OAuthProviderType
+  issuer: string | null
+  authorizationUrl: string | null
+  tokenUrl: string | null
+  userInfoUrl: string | null
+  jwksUrl: string | null
+  clientId: string
+  clientSecret: string | null
+  scopes: string
+  iconUrl: string | null
+  enabled: boolean
+  allowSignup: boolean
+  claimMapping: OAuthClaimMapping
+}
+
+export type OAuthProviderDTO = Omit<OAuthProviderConfig, 'clientSecret'> & {
+  hasClientSecret: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Для кнопок входа и вкладки подключений - без эндпоинтов и clientId
+export type OAuthProviderPublicDTO = Pick<OAuthProviderConfig, 'slug' | 'displayName' | 'iconUrl'>
+
+export const DEFAULT_CLAIM_MAPPING: OAuthClaimMapping = {
+  id: 'sub',
+  email: 'email',
+  emailVerified: 'email_verified',
+  name: 'name',
+  picture: 'picture'
+}
+
+const parseClaimMapping = (value: string | null): OAuthClaimMapping => {
+  try {
+    return { ...DEFAULT_CLAIM_MAPPING, ...(value ? JSON.parse(value) : {}) }
+  } catch {
+    return DEFAULT_CLAIM_MAPPING
+  }
+}
+
+const toConfig = (provider: OAuthProvider): Omit<OAuthProviderConfig, 'clientSecret'> => ({
+  id: provider.id,
+  slug: provider.slug,
+  displayName: provider.displayName,
+  type: provider.type as OAuthProviderType,
+  issuer: provider.issuer,
+  authorizationUrl: provider.authorizationUrl,
+  tokenUrl: provider.tokenUrl,
+  userInfoUrl: provider.userInfoUrl,
+  jwksUrl: provider.jwksUrl,
+  clientId: provider.clientId,
+  scopes: provider.scopes,
+  iconUrl: provider.iconUrl,
+  enabled: provider.enabled,
+  allowSignup: provider.allowSignup,
+  claimMapping: parseClaimMapping(provider.claimMapping)
+})
+
+const toDTO = (provider: OAuthProvider): OAuthProviderDTO => ({
+  ...toConfig(provider),
+  hasClientSecret: Boolean(provider.clientSecret),
+  createdAt: provider.createdAt,
+  updatedAt: provider.updatedAt
+})
+
+const encryptSecret = (secret: string | null | undefined) => {
+  if (!secret) return null
+
+  if (!isEncryptionAvailable()) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY не настроен. Невозможно сохранить секрет клиента.')
+  }
+
+  return encrypt(secret)
+}
+
+export class OAuthProviderService {
+  private static instance: OAuthProviderService
+
+  static getInstance(): OAuthProviderService {
+    if (!OAuthProviderService.instance) {
+      OAuthProviderService.instance = new OAuthProviderService()
+    }
+
+    return OAuthProviderService.instance
+  }
+
+  async list(): Promise<OAuthProviderDTO[]> {
+    const providers = await prisma.oAuthProvider.findMany({ orderBy: { displayName: 'asc' } })
+
+    return providers.map(toDTO)
+  }
+
+  async listEnabled(): Promise<OAuthProviderPublicDTO[]> {
+    const providers = await prisma.oAuthProvider.findMany({
+      where: { enabled: true },
+      orderBy: { displayName: 'asc' },
+      select: { slug: true, displayName: true, iconUrl: true }
+    })
+
+    return providers
+  }
+
+  async getById(id: string): Promise<OAuthProviderDTO | null> {
+    const provider = await prisma.oAuthProvider.findUnique({ where: { id } })
+
+    return provider ? toDTO(provider) : null
+  }
+
+  /**
+   * Полная конфигурация с расшифрованным секретом - только для обмена кода на токены
+   */
+  async getConfig(slug: string): Promise<OAuthProviderConfig | null> {
+    const provider = await prisma.oAuthProvider.findUnique({ where: { slug } })
+
+    if (!provider) return null
+
+    return { ...toConfig(provider), clientSecret: provider.clientSecret ? decrypt(provider.clientSecret) : null }
+  }
+
+  async create(data: CreateOAuthProviderInput, createdBy?: string): Promise<OAuthProviderDTO> {
+    const provider = await prisma.oAuthProvider.create({
+      data: {
+        slug: data.slug,
+        displayName: data.displayName,
+        type: data.type,
+        issuer: data.issuer ?? null,
+        authorizationUrl: data.authorizationUrl ?? null,
+        tokenUrl: data.tokenUrl ?? null,
+        userInfoUrl: data.userInfoUrl ?? null,
+        jwksUrl: data.jwksUrl ?? null,
+        clientId: data.clientId,
+        clientSecret: encryptSecret(data.clientSecret),
+        scopes: data.scopes,
+        iconUrl: data.iconUrl ?? null,
+        enabled: data.enabled,
+        allowSignup: data.allowSignup,
+        claimMapping: JSON.stringify(data.claimMapping ?? {}),
+        createdBy: createdBy ?? null
+      }
+    })
+
+    return toDTO(provider)
+  }
+
+  /**
+   * Обновление; clientSecret: undefined - не менять, '' или null - удалить
+   */
+  async update(id: string, data: UpdateOAuthProviderInput): Promise<OAuthProviderDTO | null> {
+    const existing = await prisma.oAuthProvider.findUnique({ where: { id } })
+
+    if (!existing) return null
+
+    const { clientSecret, claimMapping, ...fields } = data
+
+    const provider = await prisma.oAuthProvider.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(clientSecret !== undefined && { clientSecret: encryptSecret(clientSecret) }),
+        ...(claimMapping !== undefined && { claimMapping: JSON.stringify(claimMapping ?? {}) })
+      }
+    })
+
+    return toDTO(provider)
+  }
+
+  /**
+   * Удаление провайдера. Привязанные Account остаются: при повторном добавлении
+   * провайдера с тем же slug пользователи снова смогут войти.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await prisma.oAuthProvider.deleteMany({ where: { id } })
+
+    return result.count > 0
+  }
+}
+
+// Singleton instance
+export const oauthProviderService = OAuthProviderService.getInstance()
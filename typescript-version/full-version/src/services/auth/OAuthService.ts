@@ -0,0 +1,633 @@
+/**
+ * Вход через OAuth 2.0 / OpenID Connect
+ *
+ * authorize: state, nonce и PKCE-verifier шифруются в cookie (AES-256-GCM),
+ * пользователь уходит к провайдеру. callback: проверка state, обмен кода на токены,
+ * проверка id_token по JWKS (OIDC) или запрос userinfo (OAuth2).
+ *
+ * Связь с пользователем - Account(provider = slug провайдера, providerAccountId = sub).
+ * Первый вход без связи создаёт пользователя с учётом RegistrationSettings; существующий
+ * email автоматически не привязывается - пользователь входит паролем и связывает
+ * провайдера во вкладке «Connections».
+ */
+
+import crypto from 'crypto'
+
+import bcrypt from 'bcryptjs'
+
+import { prisma } from '@/libs/prisma'
+import { decrypt, encrypt, isEncryptionAvailable } from '@/lib/config/encryption'
+import logger from '@/lib/logger'
+import { eventService } from '@/services/events/EventService'
+import { registrationSettingsService } from '@/services/settings/RegistrationSettingsService'
+import { slugService } from '@/services/slug'
+import { accountService } from '@/services/accounts'
+import { AccountType } from '@/types/accounts/types'
+import type { TariffPlanCode } from '@/types/accounts/types'
+import type { JsonWebKeySet, OidcTokenResponse } from '@/utils/auth/oidc'
+import {
+  exchangeAuthorizationCode,
+  fetchDiscoveryDocument,
+  fetchJwks,
+  fetchUserInfo,
+  findSigningKey,
+  decodeJwt,
+  generatePkcePair,
+  randomUrlSafeToken,
+  verifyIdToken
+} from '@/utils/auth/oidc'
+import type { OAuthProviderConfig, OAuthProviderPublicDTO } from './OAuthProviderService'
+import { oauthProviderService } from './OAuthProviderService'
+
+export type OAuthMode = 'login' | 'link'
+
+export type OAuthErrorCode =
+  | 'provider_not_found'
+  | 'encryption_unavailable'
+  | 'invalid_state'
+  | 'provider_error'
+  | 'access_denied'
+  | 'email_required'
+  | 'email_not_verified'
+  | 'email_in_use'
+  | 'signup_disabled'
+  | 'account_suspended'
+  | 'already_linked'
+  | 'linked_to_another_user'
+  | 'last_sign_in_method'
+  | 'not_found'
+
+export interface OAuthProfile {
+  providerAccountId: string
+  email: string | null
+  emailVerified: boolean
+  name: string | null
+  picture: string | null
+}
+
+export interface OAuthAuthorizationResult {
+  success: boolean
+  error?: OAuthErrorCode
+  url?: string
+  stateCookie?: string
+}
+
+export interface OAuthCallbackResult {
+  success: boolean
+  error?: OAuthErrorCode
+  mode: OAuthMode
+  redirectTo?: string
+  userId?: string
+  created?: boolean
+}
+
+export interface OAuthConnection {
+  provider: OAuthProviderPublicDTO
+  accountId: string | null
+  providerAccountId: string | null
+}
+
+interface OAuthStatePayload {
+  provider: string
+  state: string
+  nonce: string
+  codeVerifier: string
+  mode: OAuthMode
+  redirectTo?: string
+  userId?: string
+  expiresAt: number
+}
+
+interface ProviderEndpoints {
+  issuer: string | null
+  authorizationUrl: string
+  tokenUrl: string
+  userInfoUrl: string | null
+  jwksUrl: string | null
+}
+
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000
+
+const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+const readClaim = (claims: Record<string, unknown>, name: string) => {
+  const value = claims[name]
+
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+// Токены провайдера хранятся в Account только в зашифрованном виде
+const protectToken = (token: string | undefined) => (token ? encrypt(token) : null)
+
+export class OAuthService {
+  private static instance: OAuthService
+  private discoveryCache = new Map<string, { endpoints: ProviderEndpoints; expiresAt: number }>()
+  private jwksCache = new Map<string, { jwks: JsonWebKeySet; expiresAt: number }>()
+
+  static getInstance(): OAuthService {
+    if (!OAuthService.instance) {
+      OAuthService.instance = new OAuthService()
+    }
+
+    return OAuthService.instance
+  }
+
+  getRedirectUri(slug: string): string {
+    return `${getAppUrl()}/api/auth/oauth/${encodeURIComponent(slug)}/callback`
+  }
+
+  /**
+   * Начать вход или привязку: URL авторизации провайдера и зашифрованное значение cookie состояния
+   */
+  async createAuthorizationRequest(
+    slug: string,
+    options: { mode: OAuthMode; redirectTo?: string; userId?: string }
+  ): Promise<OAuthAuthorizationResult> {
+    if (!isEncryptionAvailable()) {
+      return { success: false, error: 'encryption_unavailable' }
+    }
+
+    const config = await oauthProviderService.getConfig(slug)
+
+    if (!config?.enabled) {
+      return { success: false, error: 'provider_not_found' }
+    }
+
+    try {
+      const endpoints = await this.resolveEndpoints(config)
+      const { codeVerifier, codeChallenge } = generatePkcePair()
+
+      const payload: OAuthStatePayload = {
+        provider: config.slug,
+        state: randomUrlSafeToken(),
+        nonce: randomUrlSafeToken(),
+        codeVerifier,
+        mode: options.mode,
+        redirectTo: options.redirectTo,
+        userId: options.userId,
+        expiresAt: Date.now() + OAUTH_STATE_TTL_MS
+      }
+
+      const url = new URL(endpoints.authorizationUrl)
+
+      url.searchParams.set('response_type', 'code')
+      url.searchParams.set('client_id', config.clientId)
+      url.searchParams.set('redirect_uri', this.getRedirectUri(config.slug))
+      url.searchParams.set('scope', config.scopes)
+      url.searchParams.set('state', payload.state)
+      url.searchParams.set('code_challenge', codeChallenge)
+      url.searchParams.set('code_challenge_method', 'S256')
+
+      if (config.type === 'oidc') {
+        url.searchParams.set('nonce', payload.nonce)
+      }
+
+      return { success: true, url: url.toString(), stateCookie: encrypt(JSON.stringify(payload)) }
+    } catch (error) {
+      logger.error('[OAuth] Failed to build authorization request', {
+        provider: slug,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return { success: false, error: 'provider_error' }
+    }
+  }
+
+  /**
+   * Завершить вход или привязку по ответу провайдера.
+   * currentUserId - пользователь текущей сессии (обязателен для режима link).
+   */
+  async handleCallback(
+    slug: string,
+    params: { code?: string; state?: string; error?: string },
+    stateCookie: string | undefined,
+    currentUserId: string | null
+  ): Promise<OAuthCallbackResult> {
+    const statePayload = this.readState(stateCookie)
+
+    if (!statePayload || statePayload.provider !== slug || !params.state || !safeEqual(statePayload.state, params.state)) {
+      return { success: false, error: 'invalid_state', mode: statePayload?.mode ?? 'login' }
+    }
+
+    const { mode, redirectTo } = statePayload
+
+    if (params.error || !params.code) {
+      return { success: false, error: 'access_denied', mode, redirectTo }
+    }
+
+    if (mode === 'link' && (!currentUserId || currentUserId !== statePayload.userId)) {
+      return { success: false, error: 'invalid_state', mode, redirectTo }
+    }
+
+    const config = await oauthProviderService.getConfig(slug)
+
+    if (!config?.enabled) {
+      return { success: false, error: 'provider_not_found', mode, redirectTo }
+    }
+
+    let profile: OAuthProfile
+    let tokens: OidcTokenResponse
+
+    try {
+      const endpoints = await this.resolveEndpoints(config)
+
+      tokens = await exchangeAuthorizationCode(endpoints.tokenUrl, {
+        code: params.code,
+        redirectUri: this.getRedirectUri(config.slug),
+        clientId: config.clientId,
+        clientSecret: config.clientSecret,
+        codeVerifier: statePayload.codeVerifier
+      })
+
+      profile = await this.loadProfile(config, endpoints, tokens, statePayload.nonce)
+    } catch (error) {
+      logger.warn('[OAuth] Callback rejected', {
+        provider: slug,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return { success: false, error: 'provider_error', mode, redirectTo }
+    }
+
+    const result =
+      mode === 'link'
+        ? await this.linkAccount(currentUserId as string, config, profile, tokens)
+        : await this.resolveLoginUser(config, profile, tokens)
+
+    return { ...result, mode, redirectTo }
+  }
+
+  /**
+   * Провайдеры для вкладки «Connections»: включённые и уже привязанные (даже если провайдер выключен)
+   */
+  async listConnections(userId: string): Promise<OAuthConnection[]> {
+    const [providers, accounts] = await Promise.all([
+      oauthProviderService.listEnabled(),
+      prisma.account.findMany({
+        where: { userId },
+        select: { id: true, provider: true, providerAccountId: true }
+      })
+    ])
+
+    const connections: OAuthConnection[] = providers.map(provider => {
+      const account = accounts.find(item => item.provider === provider.slug)
+
+      return { provider, accountId: account?.id ?? null, providerAccountId: account?.providerAccountId ?? null }
+    })
+
+    for (const account of accounts) {
+      if (!providers.some(provider => provider.slug === account.provider)) {
+        connections.push({
+          provider: { slug: account.provider, displayName: account.provider, iconUrl: null },
+          accountId: account.id,
+          providerAccountId: account.providerAccountId
+        })
+      }
+    }
+
+    return connections
+  }
+
+  /**
+   * Отвязать провайдера. Последний способ входа не удаляется, если у пользователя
+   * нет ни email, ни телефона - пароль восстановить будет нечем.
+   */
+  async unlinkAccount(userId: string, accountId: string): Promise<{ success: boolean; error?: OAuthErrorCode }> {
+    const account = await prisma.account.findFirst({ where: { id: accountId, userId } })
+
+    if (!account) {
+      return { success: false, error: 'not_found' }
+    }
+
+    const [user, accountsCount] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { email: true, phone: true } }),
+      prisma.account.count({ where: { userId } })
+    ])
+
+    if (accountsCount <= 1 && !user?.email && !user?.phone) {
+      return { success: false, error: 'last_sign_in_method' }
+    }
+
+    await prisma.account.delete({ where: { id: account.id } })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'oauth.unlinked',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: `Провайдер входа ${account.provider} отвязан`,
+      payload: { provider: account.provider }
+    })
+
+    return { success: true }
+  }
+
+  private readState(cookieValue: string | undefined): OAuthStatePayload | null {
+    if (!cookieValue) return null
+
+    try {
+      const payload = JSON.parse(decrypt(cookieValue)) as OAuthStatePayload
+
+      return payload.expiresAt > Date.now() ? payload : null
+    } catch {
+      return null
+    }
+  }
+
+  private async resolveEndpoints(config: OAuthProviderConfig): Promise<ProviderEndpoints> {
+    const explicit = {
+      authorizationUrl: config.authorizationUrl,
+      tokenUrl: config.tokenUrl,
+      userInfoUrl: config.userInfoUrl,
+      jwksUrl: config.jwksUrl
+    }
+
+    if (config.type === 'oauth2' || !config.issuer) {
+      if (!explicit.authorizationUrl || !explicit.tokenUrl) {
+        throw new Error(`Provider ${config.slug} has no authorization or token endpoint`)
+      }
+
+      return { ...explicit, issuer: config.issuer, authorizationUrl: explicit.authorizationUrl, tokenUrl: explicit.tokenUrl }
+    }
+
+    const cached = this.discoveryCache.get(config.issuer)
+
+    let discovered = cached && cached.expiresAt > Date.now() ? cached.endpoints : null
+
+    if (!discovered) {
+      const document = await fetchDiscoveryDocument(config.issuer)
+
+      discovered = {
+        issuer: document.issuer,
+        authorizationUrl: document.authorization_endpoint,
+        tokenUrl: document.token_endpoint,
+        userInfoUrl: document.userinfo_endpoint ?? null,
+        jwksUrl: document.jwks_uri ?? null
+      }
+
+      this.discoveryCache.set(config.issuer, { endpoints: discovered, expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS })
+    }
+
+    // Явно заданные эндпоинты переопределяют discovery
+    return {
+      issuer: discovered.issuer,
+      authorizationUrl: explicit.authorizationUrl ?? discovered.authorizationUrl,
+      tokenUrl: explicit.tokenUrl ?? discovered.tokenUrl,
+      userInfoUrl: explicit.userInfoUrl ?? discovered.userInfoUrl,
+      jwksUrl: explicit.jwksUrl ?? discovered.jwksUrl
+    }
+  }
+
+  /**
+   * JWKS из кэша; при неизвестном kid ключи перечитываются (ротация у провайдера)
+   */
+  private async getJwks(jwksUrl: string, kid: string | undefined): Promise<JsonWebKeySet> {
+    const cached = this.jwksCache.get(jwksUrl)
+
+    if (cached && cached.expiresAt > Date.now() && findSigningKey(cached.jwks, kid)) {
+      return cached.jwks
+    }
+
+    const jwks = await fetchJwks(jwksUrl)
+
+    this.jwksCache.set(jwksUrl, { jwks, expiresAt: Date.now() + JWKS_CACHE_TTL_MS })
+
+    return jwks
+  }
+
+  private async loadProfile(
+    config: OAuthProviderConfig,
+    endpoints: ProviderEndpoints,
+    tokens: OidcTokenResponse,
+    nonce: string
+  ): Promise<OAuthProfile> {
+    let claims: Record<string, unknown> = {}
+
+    if (config.type === 'oidc') {
+      if (!tokens.id_token || !endpoints.jwksUrl || !endpoints.issuer) {
+        throw new Error('OIDC provider returned no id_token or has no JWKS')
+      }
+
+      const jwks = await this.getJwks(endpoints.jwksUrl, decodeJwt(tokens.id_token).header.kid)
+
+      claims = verifyIdToken(tokens.id_token, jwks, { issuer: endpoints.issuer, audience: config.clientId, nonce })
+    }
+
+    // OAuth2 - профиль только из userinfo; OIDC - userinfo дополняет id_token, если в нём нет email
+    const mapping = config.claimMapping
+    const needsUserInfo = config.type === 'oauth2' || !readClaim(claims, mapping.email)
+
+    if (needsUserInfo && endpoints.userInfoUrl) {
+      const userInfo = await fetchUserInfo(endpoints.userInfoUrl, tokens.access_token)
+
+      if (config.type === 'oidc' && userInfo.sub !== claims.sub) {
+        throw new Error('userinfo subject does not match id_token')
+      }
+
+      claims = { ...userInfo, ...claims }
+    }
+
+    const rawId = claims[mapping.id]
+    const providerAccountId = typeof rawId === 'number' ? String(rawId) : readClaim(claims, mapping.id)
+
+    if (!providerAccountId) {
+      throw new Error(`Profile has no "${mapping.id}" claim`)
+    }
+
+    const email = readClaim(claims, mapping.email)?.toLowerCase() ?? null
+    const emailVerifiedClaim = claims[mapping.emailVerified]
+
+    return {
+      providerAccountId,
+      email,
+      emailVerified: Boolean(email) && (emailVerifiedClaim === true || emailVerifiedClaim === 'true'),
+      name: readClaim(claims, mapping.name),
+      picture: readClaim(claims, mapping.picture)
+    }
+  }
+
+  private buildAccountTokens(tokens: OidcTokenResponse) {
+    return {
+      access_token: protectToken(tokens.access_token),
+      refresh_token: protectToken(tokens.refresh_token),
+      id_token: protectToken(tokens.id_token),
+      expires_at: tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : null,
+      token_type: tokens.token_type ?? null,
+      scope: tokens.scope ?? null
+    }
+  }
+
+  private async linkAccount(
+    userId: string,
+    config: OAuthProviderConfig,
+    profile: OAuthProfile,
+    tokens: OidcTokenResponse
+  ): Promise<{ success: boolean; error?: OAuthErrorCode; userId?: string }> {
+    const existing = await prisma.account.findUnique({
+      where: { provider_providerAccountId: { provider: config.slug, providerAccountId: profile.providerAccountId } }
+    })
+
+    if (existing && existing.userId !== userId) {
+      return { success: false, error: 'linked_to_another_user' }
+    }
+
+    if (!existing) {
+      const sameProvider = await prisma.account.findFirst({ where: { userId, provider: config.slug } })
+
+      if (sameProvider) {
+        return { success: false, error: 'already_linked' }
+      }
+    }
+
+    await prisma.account.upsert({
+      where: { provider_providerAccountId: { provider: config.slug, providerAccountId: profile.providerAccountId } },
+      create: {
+        userId,
+        type: config.type,
+        provider: config.slug,
+        providerAccountId: profile.providerAccountId,
+        ...this.buildAccountTokens(tokens)
+      },
+      update: this.buildAccountTokens(tokens)
+    })
+
+    if (!existing) {
+      await eventService.record({
+        source: 'auth',
+        module: 'auth',
+        type: 'oauth.linked',
+        severity: 'info',
+        actor: { type: 'user', id: userId },
+        subject: { type: 'user', id: userId },
+        message: `Провайдер входа ${config.displayName} привязан`,
+        payload: { provider: config.slug }
+      })
+    }
+
+    return { success: true, userId }
+  }
+
+  private async resolveLoginUser(
+    config: OAuthProviderConfig,
+    profile: OAuthProfile,
+    tokens: OidcTokenResponse
+  ): Promise<{ success: boolean; error?: OAuthErrorCode; userId?: string; created?: boolean }> {
+    const account = await prisma.account.findUnique({
+      where: { provider_providerAccountId: { provider: config.slug, providerAccountId: profile.providerAccountId } },
+      include: { user: { select: { id: true, status: true, isActive: true } } }
+    })
+
+    if (account) {
+      if (account.user.status !== 'active' || !account.user.isActive) {
+        return { success: false, error: 'account_suspended' }
+      }
+
+      await prisma.account.update({ where: { id: account.id }, data: this.buildAccountTokens(tokens) })
+
+      return { success: true, userId: account.user.id, created: false }
+    }
+
+    if (!config.allowSignup) {
+      return { success: false, error: 'signup_disabled' }
+    }
+
+    if (!profile.email) {
+      return { success: false, error: 'email_required' }
+    }
+
+    const settings = await registrationSettingsService.getSettings()
+
+    if (settings.requireEmailVerification && !profile.emailVerified) {
+      return { success: false, error: 'email_not_verified' }
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { email: profile.email }, select: { id: true } })
+
+    if (existingUser) {
+      return { success: false, error: 'email_in_use' }
+    }
+
+    const userId = await this.createUser(config, profile, tokens)
+
+    return { success: true, userId, created: true }
+  }
+
+  /**
+   * Создание пользователя при первом входе. Пароль случайный - задать свой можно
+   * через сброс пароля. В режиме email_and_phone телефон подтверждается позже,
+   * как и при обычной регистрации (requireFullVerification).
+   */
+  private async createUser(config: OAuthProviderConfig, profile: OAuthProfile, tokens: OidcTokenResponse): Promise<string> {
+    const email = profile.email as string
+
+    const defaultRole = await prisma.role.findUnique({ where: { name: 'user' } })
+
+    if (!defaultRole) {
+      throw new Error('Default role not found')
+    }
+
+    const username = await slugService.generateUniqueSlug(profile.name || email.split('@')[0], 'user')
+
+    const user = await prisma.user.create({
+      data: {
+        name: profile.name,
+        username,
+        email,
+        emailVerified: profile.emailVerified ? new Date() : null,
+        image: profile.picture,
+        password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+        roleId: defaultRole.id,
+        country: 'russia',
+        language: 'Russian',
+        currency: 'RUB',
+        isActive: true,
+        accounts: {
+          create: {
+            type: config.type,
+            provider: config.slug,
+            providerAccountId: profile.providerAccountId,
+            ...this.buildAccountTokens(tokens)
+          }
+        }
+      }
+    })
+
+    try {
+      await accountService.createAccount(user.id, AccountType.LISTING, 'FREE' as TariffPlanCode)
+    } catch (error) {
+      // Как и при обычной регистрации: аккаунт можно создать позже
+      logger.warn('[OAuth] Failed to create account for new user', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    await eventService.record({
+      source: 'registration',
+      type: 'signup_success',
+      severity: 'info',
+      actor: { type: 'user', id: user.id },
+      subject: { type: 'system', id: 'registration' },
+      key: email,
+      message: `Пользователь зарегистрирован через ${config.displayName}`,
+      payload: { userId: user.id, provider: config.slug, emailVerified: profile.emailVerified }
+    })
+
+    return user.id
+  }
+}
+
+// Singleton instance
+export const oauthService = OAuthService.getInstance()
@@ -0,0 +1,124 @@
+/**
+ * Одноразовые секреты в VerificationCode
+ *
+ * Общая часть сброса пароля и входа без пароля: по email выдаётся длинный токен
+ * для ссылки, по телефону - 6-значный SMS-код. В БД хранится только хеш секрета,
+ * у записи есть срок жизни и лимит неверных попыток; новый секрет заменяет
+ * неиспользованные секреты того же типа.
+ */
+
+import crypto from 'crypto'
+
+import { prisma } from '@/libs/prisma'
+import { hashValue } from '@/lib/config/encryption'
+
+export type OneTimeCodeChannel = 'email' | 'phone'
+
+export interface OneTimeCodeIssueOptions {
+  type: string
+  channel: OneTimeCodeChannel
+  userId: string
+  identifier: string // email или телефон, на который отправлен секрет
+  ttlMinutes: number
+}
+
+export interface OneTimeCodeConsumeOptions {
+  type: string
+  token?: string // токен из ссылки в письме
+  phone?: string
+  code?: string // SMS-код для phone
+}
+
+export interface OneTimeCodeConsumeResult {
+  success: boolean
+  userId?: string // задан и при неверном SMS-коде - для журнала событий
+}
+
+export const ONE_TIME_CODE_MAX_ATTEMPTS = 5
+
+export class OneTimeCodeService {
+  private static instance: OneTimeCodeService
+
+  static getInstance(): OneTimeCodeService {
+    if (!OneTimeCodeService.instance) {
+      OneTimeCodeService.instance = new OneTimeCodeService()
+    }
+
+    return OneTimeCodeService.instance
+  }
+
+  /**
+   * Выпустить секрет и сохранить его хеш
+   * @returns Секрет в открытом виде - только для отправки пользователю
+   */
+  async issue(options: OneTimeCodeIssueOptions): Promise<string> {
+    const secret =
+      options.channel === 'email'
+        ? crypto.randomBytes(32).toString('hex')
+        : crypto.randomInt(0, 1_000_000).toString().padStart(6, '0')
+
+    await prisma.verificationCode.deleteMany({
+      where: { userId: options.userId, type: options.type, verified: false }
+    })
+
+    await prisma.verificationCode.create({
+      data: {
+        identifier: options.identifier,
+        code: hashValue(secret),
+        type: options.type,
+        expires: new Date(Date.now() + options.ttlMinutes * 60 * 1000),
+        maxAttempts: ONE_TIME_CODE_MAX_ATTEMPTS,
+        userId: options.userId
+      }
+    })
+
+    return secret
+  }
+
+  /**
+   * Проверить и погасить токен из ссылки или SMS-код
+   */
+  async consume(options: OneTimeCodeConsumeOptions): Promise<OneTimeCodeConsumeResult> {
+    const record = options.token
+      ? await prisma.verificationCode.findFirst({
+          where: { type: options.type, code: hashValue(options.token), verified: false }
+        })
+      : await prisma.verificationCode.findFirst({
+          where: { type: options.type, identifier: options.phone, verified: false },
+          orderBy: { createdAt: 'desc' }
+        })
+
+    if (!record || !record.userId || record.expires < new Date() || record.attempts >= record.maxAttempts) {
+      return { success: false }
+    }
+
+    // Короткий SMS-код подбирается перебором, поэтому попытки считаются
+    if (!options.token) {
+      const expected = Buffer.from(record.code)
+      const actual = Buffer.from(hashValue(options.code || ''))
+
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        await prisma.verificationCode.update({
+          where: { id: record.id },
+          data: { attempts: { increment: 1 } }
+        })
+
+        return { success: false, userId: record.userId }
+      }
+    }
+
+    // При гонке двух запросов секрет погасит только один
+    const consumed = await prisma.verificationCode.updateMany({
+      where: { id: record.id, verified: false },
+      data: { verified: true }
+    })
+
+    if (consumed.count === 0) {
+      return { success: false }
+    }
+
+    return { success: true, userId: record.userId }
+  }
+}
+
+export const oneTimeCodeService = OneTimeCodeService.getInstance()
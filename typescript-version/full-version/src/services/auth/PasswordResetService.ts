@@ -0,0 +1,154 @@
+/**
+ * Самостоятельный сброс пароля
+ *
+ * Запрос: по email отправляется ссылка с токеном, по телефону - 6-значный SMS-код.
+ * Секрет хранится в VerificationCode (type = 'password_reset') только в виде хеша,
+ * одноразовый и с ограниченным сроком жизни. После смены пароля все сессии
+ * пользователя (Lucia) инвалидируются.
+ */
+
+import bcrypt from 'bcryptjs'
+
+import { prisma } from '@/libs/prisma'
+import { lucia } from '@/libs/lucia'
+import logger from '@/lib/logger'
+import { notificationService } from '@/services/notifications/NotificationService'
+import { oneTimeCodeService } from './OneTimeCodeService'
+
+export type PasswordResetChannel = 'email' | 'phone'
+
+export interface PasswordResetRequest {
+  email?: string
+  phone?: string
+}
+
+export interface PasswordResetConfirmation {
+  token?: string
+  phone?: string
+  code?: string
+  password: string
+}
+
+export interface PasswordResetRequestResult {
+  sent: boolean // false - пользователь не найден/неактивен или отправка не удалась; наружу не раскрывается
+  userId?: string
+  channel: PasswordResetChannel
+}
+
+export interface PasswordResetResult {
+  success: boolean
+  userId?: string
+  error?: string
+}
+
+export const PASSWORD_RESET_CODE_TYPE = 'password_reset'
+
+const EMAIL_TOKEN_TTL_MINUTES = 60
+const SMS_CODE_TTL_MINUTES = 15
+const INVALID_CODE_ERROR = 'Invalid or expired reset code'
+
+const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+export class PasswordResetService {
+  private static instance: PasswordResetService
+
+  static getInstance(): PasswordResetService {
+    if (!PasswordResetService.instance) {
+      PasswordResetService.instance = new PasswordResetService()
+    }
+
+    return PasswordResetService.instance
+  }
+
+  /**
+   * Выпустить новый секрет сброса и отправить его пользователю
+   */
+  async requestReset(request: PasswordResetRequest): Promise<PasswordResetRequestResult> {
+    const channel: PasswordResetChannel = request.email ? 'email' : 'phone'
+
+    const user = await prisma.user.findUnique({
+      where: request.email ? { email: request.email } : { phone: request.phone },
+      select: { id: true, email: true, phone: true, status: true }
+    })
+
+    if (!user || user.status !== 'active') {
+      return { sent: false, channel }
+    }
+
+    const identifier = (channel === 'email' ? user.email : user.phone) as string
+
+    const secret = await oneTimeCodeService.issue({
+      type: PASSWORD_RESET_CODE_TYPE,
+      channel,
+      userId: user.id,
+      identifier,
+      ttlMinutes: channel === 'email' ? EMAIL_TOKEN_TTL_MINUTES : SMS_CODE_TTL_MINUTES
+    })
+
+    const result =
+      channel === 'email'
+        ? await notificationService.send({
+            channel: 'email',
+            to: identifier,
+            subject: 'Сброс пароля',
+            content: this.buildResetEmail(`${getAppUrl()}/reset-password?token=${secret}`)
+          })
+        : await notificationService.send({
+            channel: 'sms',
+            to: identifier,
+            content: `Код для сброса пароля: ${secret}. Никому его не сообщайте.`
+          })
+
+    if (!result.success) {
+      logger.error('[PasswordResetService] Failed to deliver reset secret', {
+        userId: user.id,
+        channel,
+        error: result.error
+      })
+    }
+
+    return { sent: result.success, userId: user.id, channel }
+  }
+
+  /**
+   * Установить новый пароль по токену из ссылки или SMS-коду
+   */
+  async resetPassword(confirmation: PasswordResetConfirmation): Promise<PasswordResetResult> {
+    const consumed = await oneTimeCodeService.consume({
+      type: PASSWORD_RESET_CODE_TYPE,
+      token: confirmation.token,
+      phone: confirmation.phone,
+      code: confirmation.code
+    })
+
+    if (!consumed.success || !consumed.userId) {
+      return { success: false, userId: consumed.userId, error: INVALID_CODE_ERROR }
+    }
+
+    const userId = consumed.userId
+    const hashedPassword = await bcrypt.hash(confirmation.password, 10)
+
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: { password: hashedPassword } }),
+      prisma.verificationCode.deleteMany({
+        where: { userId, type: PASSWORD_RESET_CODE_TYPE, verified: false }
+      })
+    ])
+
+    await lucia.invalidateUserSessions(userId)
+
+    return { success: true, userId }
+  }
+
+  private buildResetEmail(resetUrl: string): string {
+    return `
+      <h2>Сброс пароля</h2>
+      <p>Мы получили запрос на сброс пароля для вашего аккаунта. Чтобы задать новый пароль, перейдите по ссылке:</p>
+      <p><a href="${resetUrl}">${resetUrl}</a></p>
+      <p>Ссылка действительна в течение ${EMAIL_TOKEN_TTL_MINUTES} минут и может быть использована один раз.</p>
+      <p>Если вы не запрашивали сброс, просто проигнорируйте это письмо.</p>
+    `
+  }
+}
+
+export const passwordResetService = PasswordResetService.getInstance()
@@ -0,0 +1,169 @@
+/**
+ * Вход без пароля
+ *
+ * По email отправляется одноразовая ссылка, по телефону - 6-значный SMS-код. Каналы
+ * включаются в настройках регистрации. Секрет хранится в VerificationCode
+ * (type = 'passwordless_login') только в виде хеша, неверные SMS-коды расходуют
+ * попытки (maxAttempts). Сессию создаёт маршрут - как при входе по паролю, с 2FA.
+ */
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { notificationService } from '@/services/notifications/NotificationService'
+import { registrationSettingsService } from '@/services/settings/RegistrationSettingsService'
+import { oneTimeCodeService } from './OneTimeCodeService'
+
+export type PasswordlessChannel = 'email' | 'phone'
+
+export interface PasswordlessLoginRequest {
+  email?: string
+  phone?: string
+}
+
+export interface PasswordlessLoginConfirmation {
+  token?: string
+  phone?: string
+  code?: string
+}
+
+export interface PasswordlessRequestResult {
+  enabled: boolean // false - канал выключен в настройках
+  sent: boolean // false - пользователь не найден/неактивен или отправка не удалась; наружу не раскрывается
+  userId?: string
+  channel: PasswordlessChannel
+}
+
+export interface PasswordlessLoginResult {
+  success: boolean
+  userId?: string
+  error?: string
+}
+
+export const PASSWORDLESS_LOGIN_CODE_TYPE = 'passwordless_login'
+
+const EMAIL_LINK_TTL_MINUTES = 15
+const SMS_CODE_TTL_MINUTES = 10
+const INVALID_CODE_ERROR = 'Invalid or expired sign-in code'
+
+const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+export class PasswordlessLoginService {
+  private static instance: PasswordlessLoginService
+
+  static getInstance(): PasswordlessLoginService {
+    if (!PasswordlessLoginService.instance) {
+      PasswordlessLoginService.instance = new PasswordlessLoginService()
+    }
+
+    return PasswordlessLoginService.instance
+  }
+
+  /**
+   * Каналы, включённые в настройках (для страницы входа)
+   */
+  async getEnabledChannels(): Promise<Record<PasswordlessChannel, boolean>> {
+    const settings = await registrationSettingsService.getSettings()
+
+    return { email: settings.passwordlessEmailEnabled, phone: settings.passwordlessSmsEnabled }
+  }
+
+  /**
+   * Выпустить ссылку или код входа и отправить пользователю
+   */
+  async requestLogin(request: PasswordlessLoginRequest): Promise<PasswordlessRequestResult> {
+    const channel: PasswordlessChannel = request.email ? 'email' : 'phone'
+
+    if (!(await registrationSettingsService.isPasswordlessEnabled(channel))) {
+      return { enabled: false, sent: false, channel }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: request.email ? { email: request.email } : { phone: request.phone },
+      select: { id: true, email: true, phone: true, status: true, isActive: true }
+    })
+
+    if (!user || user.status !== 'active' || !user.isActive) {
+      return { enabled: true, sent: false, channel }
+    }
+
+    const identifier = (channel === 'email' ? user.email : user.phone) as string
+
+    const secret = await oneTimeCodeService.issue({
+      type: PASSWORDLESS_LOGIN_CODE_TYPE,
+      channel,
+      userId: user.id,
+      identifier,
+      ttlMinutes: channel === 'email' ? EMAIL_LINK_TTL_MINUTES : SMS_CODE_TTL_MINUTES
+    })
+
+    const result =
+      channel === 'email'
+        ? await notificationService.send({
+            channel: 'email',
+            to: identifier,
+            subject: 'Вход в аккаунт',
+            content: this.buildLoginEmail(`${getAppUrl()}/login?magicToken=${secret}`)
+          })
+        : await notificationService.send({
+            channel: 'sms',
+            to: identifier,
+            content: `Код для входа: ${secret}. Никому его не сообщайте.`
+          })
+
+    if (!result.success) {
+      logger.error('[PasswordlessLoginService] Failed to deliver sign-in secret', {
+        userId: user.id,
+        channel,
+        error: result.error
+      })
+    }
+
+    return { enabled: true, sent: result.success, userId: user.id, channel }
+  }
+
+  /**
+   * Проверить токен из ссылки или SMS-код. Секрет погашается; пользователь должен быть активен,
+   * а канал - всё ещё включён.
+   */
+  async verifyLogin(confirmation: PasswordlessLoginConfirmation): Promise<PasswordlessLoginResult> {
+    const channel: PasswordlessChannel = confirmation.token ? 'email' : 'phone'
+
+    if (!(await registrationSettingsService.isPasswordlessEnabled(channel))) {
+      return { success: false, error: INVALID_CODE_ERROR }
+    }
+
+    const consumed = await oneTimeCodeService.consume({
+      type: PASSWORDLESS_LOGIN_CODE_TYPE,
+      token: confirmation.token,
+      phone: confirmation.phone,
+      code: confirmation.code
+    })
+
+    if (!consumed.success || !consumed.userId) {
+      return { success: false, userId: consumed.userId, error: INVALID_CODE_ERROR }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: consumed.userId },
+      select: { id: true, status: true, isActive: true }
+    })
+
+    if (!user || user.status !== 'active' || !user.isActive) {
+      return { success: false, userId: consumed.userId, error: INVALID_CODE_ERROR }
+    }
+
+    return { success: true, userId: user.id }
+  }
+
+  private buildLoginEmail(loginUrl: string): string {
+    return `
+      <h2>Вход в аккаунт</h2>
+      <p>Чтобы войти без пароля, перейдите по ссылке:</p>
+      <p><a href="${loginUrl}">${loginUrl}</a></p>
+      <p>Ссылка действительна в течение ${EMAIL_LINK_TTL_MINUTES} минут и может быть использована один раз.</p>
+      <p>Если вы не запрашивали вход, просто проигнорируйте это письмо.</p>
+    `
+  }
+}
+
+export const passwordlessLoginService = PasswordlessLoginService.getInstance()
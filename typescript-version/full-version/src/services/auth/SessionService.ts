@@ -0,0 +1,200 @@
+/**
+ * Активные сессии пользователя
+ *
+ * Lucia-сессия хранит устройство, User-Agent, IP входа и время последней активности.
+ * Наружу сессия идентифицируется sessionToken: id Lucia-сессии - это значение cookie,
+ * его нельзя показывать даже владельцу в списке (и тем более администратору).
+ */
+
+import type { NextRequest } from 'next/server'
+
+import { prisma } from '@/libs/prisma'
+import { notifySessionsRevoked } from '@/lib/sockets/utils/session-revocation'
+import { eventService } from '@/services/events/EventService'
+import { getRequestIp } from '@/utils/http/get-request-ip'
+import { formatDeviceName, parseUserAgent } from '@/utils/http/user-agent'
+
+export interface SessionMetadata {
+  ipAddress: string | null
+  userAgent: string | null
+  deviceType: string
+  deviceName: string | null
+}
+
+export interface UserSessionDTO {
+  id: string // Session.sessionToken
+  current: boolean
+  ipAddress: string | null
+  userAgent: string | null
+  deviceType: string | null
+  deviceName: string | null
+  createdAt: Date
+  lastActiveAt: Date
+  expiresAt: Date
+}
+
+export interface SessionRevokeResult {
+  success: boolean
+  revoked?: number
+  error?: 'not_found' | 'current_session'
+}
+
+// lastActiveAt обновляется не чаще раза в 5 минут - не пишем в БД на каждый запрос
+export const SESSION_ACTIVITY_THROTTLE_MS = 5 * 60 * 1000
+
+const USER_AGENT_MAX_LENGTH = 512
+
+export class SessionService {
+  private static instance: SessionService
+
+  static getInstance(): SessionService {
+    if (!SessionService.instance) {
+      SessionService.instance = new SessionService()
+    }
+
+    return SessionService.instance
+  }
+
+  /**
+   * Устройство и IP запроса - для атрибутов новой сессии
+   */
+  getRequestMetadata(request: NextRequest): SessionMetadata {
+    const userAgent = request.headers.get('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH) || null
+    const info = parseUserAgent(userAgent)
+
+    return {
+      ipAddress: getRequestIp(request),
+      userAgent,
+      deviceType: info.deviceType,
+      deviceName: formatDeviceName(info)
+    }
+  }
+
+  /**
+   * Активные сессии пользователя, последние активные первыми.
+   * Промежуточные сессии входа с 2FA не показываются.
+   */
+  async listUserSessions(userId: string, currentSessionId?: string | null): Promise<UserSessionDTO[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, twoFactorState: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastActiveAt: 'desc' }
+    })
+
+    return sessions.map(session => ({
+      id: session.sessionToken,
+      current: session.id === currentSessionId,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      deviceType: session.deviceType,
+      deviceName: session.deviceName,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+      expiresAt: session.expiresAt
+    }))
+  }
+
+  /**
+   * Завершить одну сессию пользователя (текущая завершается через /api/auth/logout)
+   */
+  async revokeSession(userId: string, sessionToken: string, currentSessionId: string | null): Promise<SessionRevokeResult> {
+    const session = await prisma.session.findFirst({
+      where: { userId, sessionToken, twoFactorState: null },
+      select: { id: true, deviceName: true }
+    })
+
+    if (!session) {
+      return { success: false, error: 'not_found' }
+    }
+
+    if (session.id === currentSessionId) {
+      return { success: false, error: 'current_session' }
+    }
+
+    await prisma.session.delete({ where: { id: session.id } })
+    await notifySessionsRevoked({ sessionIds: [session.id], userId })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'session.revoked',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: 'Сессия завершена пользователем',
+      payload: { deviceName: session.deviceName }
+    })
+
+    return { success: true, revoked: 1 }
+  }
+
+  /**
+   * Завершить все сессии пользователя, кроме текущей
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<SessionRevokeResult> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, id: { not: currentSessionId } },
+      select: { id: true }
+    })
+
+    if (sessions.length === 0) {
+      return { success: true, revoked: 0 }
+    }
+
+    const sessionIds = sessions.map(session => session.id)
+
+    await prisma.session.deleteMany({ where: { id: { in: sessionIds } } })
+    await notifySessionsRevoked({ sessionIds, userId })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'session.revoked_others',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: 'Завершены все сессии, кроме текущей',
+      payload: { revoked: sessionIds.length }
+    })
+
+    return { success: true, revoked: sessionIds.length }
+  }
+
+  /**
+   * Принудительный выход пользователя на всех устройствах (администратор)
+   */
+  async revokeAllSessions(userId: string, actorId: string): Promise<SessionRevokeResult> {
+    const { count } = await prisma.session.deleteMany({ where: { userId } })
+
+    await notifySessionsRevoked({ userId })
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'session.force_logout',
+      severity: 'warning',
+      actor: { type: 'user', id: actorId },
+      subject: { type: 'user', id: userId },
+      message: 'Администратор завершил все сессии пользователя',
+      payload: { revoked: count }
+    })
+
+    return { success: true, revoked: count }
+  }
+
+  /**
+   * Отметить активность сессии. Условие на lastActiveAt в самом запросе -
+   * параллельные запросы не перезаписывают время повторно.
+   */
+  async touch(sessionId: string, lastActiveAt?: Date | null): Promise<void> {
+    const threshold = new Date(Date.now() - SESSION_ACTIVITY_THROTTLE_MS)
+
+    if (lastActiveAt && lastActiveAt > threshold) return
+
+    await prisma.session.updateMany({
+      where: { id: sessionId, lastActiveAt: { lt: threshold } },
+      data: { lastActiveAt: new Date() }
+    })
+  }
+}
+
+export const sessionService = SessionService.getInstance()
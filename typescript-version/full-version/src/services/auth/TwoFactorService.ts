@@ -0,0 +1,403 @@
+/**
+ * Двухфакторная аутентификация (TOTP)
+ *
+ * Настройка: startEnrollment -> confirmEnrollment (код из приложения).
+ * Вход: после пароля создаётся промежуточная сессия (Session.twoFactorState),
+ * полноценная сессия выдаётся только после TOTP или одноразового кода восстановления.
+ */
+
+import crypto from 'crypto'
+
+import type { Role } from '@prisma/client'
+
+import themeConfig from '@configs/themeConfig'
+import { prisma } from '@/libs/prisma'
+import { decrypt, encrypt, hashValue, isEncryptionAvailable } from '@/lib/config/encryption'
+import { eventService } from '@/services/events/EventService'
+import { registrationSettingsService } from '@/services/settings/RegistrationSettingsService'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '@/utils/auth/totp'
+
+export type TwoFactorSessionState = 'verify' | 'enroll'
+
+export type TwoFactorMethod = 'totp' | 'recovery_code'
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorResult {
+  success: boolean
+  error?: string
+}
+
+export interface TwoFactorEnrollmentResult extends TwoFactorResult {
+  secret?: string
+  otpauthUri?: string
+}
+
+export interface TwoFactorRecoveryCodesResult extends TwoFactorResult {
+  recoveryCodes?: string[]
+}
+
+export interface TwoFactorVerifyResult extends TwoFactorResult {
+  method?: TwoFactorMethod
+}
+
+const RECOVERY_CODES_COUNT = 10
+const PENDING_SESSION_TTL_MS = 10 * 60 * 1000
+
+// Без 0/O и 1/I - коды переписывают вручную
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+const generateRecoveryCode = () => {
+  const bytes = crypto.randomBytes(10)
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('')
+
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`
+}
+
+export class TwoFactorService {
+  private static instance: TwoFactorService
+
+  static getInstance(): TwoFactorService {
+    if (!TwoFactorService.instance) {
+      TwoFactorService.instance = new TwoFactorService()
+    }
+
+    return TwoFactorService.instance
+  }
+
+  /**
+   * Обязательна ли 2FA для роли (RegistrationSettings.twoFactorRequiredRoleLevel)
+   */
+  async isRequiredForRole(role: Pick<Role, 'level'> | null | undefined): Promise<boolean> {
+    if (!role) return false
+
+    const settings = await registrationSettingsService.getSettings()
+
+    return settings.twoFactorRequiredRoleLevel !== null && role.level <= settings.twoFactorRequiredRoleLevel
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true }
+    })
+
+    if (!user) return null
+
+    const recoveryCodesRemaining = user.twoFactorEnabledAt
+      ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+      : 0
+
+    return {
+      enabled: Boolean(user.twoFactorEnabledAt),
+      enabledAt: user.twoFactorEnabledAt,
+      required: await this.isRequiredForRole(user.role),
+      recoveryCodesRemaining
+    }
+  }
+
+  /**
+   * Начать настройку: новый секрет хранится отдельно до подтверждения кодом
+   */
+  async startEnrollment(userId: string): Promise<TwoFactorEnrollmentResult> {
+    if (!isEncryptionAvailable()) {
+      return { success: false, error: 'Шифрование не настроено (CREDENTIALS_ENCRYPTION_KEY)' }
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      return { success: false, error: 'Пользователь не найден' }
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return { success: false, error: 'Двухфакторная аутентификация уже включена' }
+    }
+
+    const secret = generateTotpSecret()
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorPendingSecret: encrypt(secret) }
+    })
+
+    return {
+      success: true,
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.email || user.phone || user.id,
+        issuer: themeConfig.templateName
+      })
+    }
+  }
+
+  /**
+   * Подтвердить настройку кодом из приложения и выдать коды восстановления
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<TwoFactorRecoveryCodesResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      return { success: false, error: 'Пользователь не найден' }
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return { success: false, error: 'Двухфакторная аутентификация уже включена' }
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return { success: false, error: 'Настройка не начата' }
+    }
+
+    const step = verifyTotp(decrypt(user.twoFactorPendingSecret), code)
+
+    if (step === null) {
+      return { success: false, error: 'Неверный код' }
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step
+      }
+    })
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId)
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'two_factor.enabled',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: 'Двухфакторная аутентификация включена'
+    })
+
+    return { success: true, recoveryCodes }
+  }
+
+  /**
+   * Проверить второй фактор: TOTP-код или неиспользованный код восстановления
+   */
+  async verifyCode(userId: string, code: string): Promise<TwoFactorVerifyResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return { success: false, error: 'Двухфакторная аутентификация не включена' }
+    }
+
+    const step = verifyTotp(decrypt(user.twoFactorSecret), code, { afterStep: user.twoFactorLastStep })
+
+    if (step !== null) {
+      // Шаг пишется только поверх более раннего, иначе код уже принят другим запросом
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+        data: { twoFactorLastStep: step }
+      })
+
+      if (count === 0) {
+        return { success: false, error: 'Неверный код' }
+      }
+
+      return { success: true, method: 'totp' }
+    }
+
+    const normalized = normalizeRecoveryCode(code)
+
+    if (normalized.length === 10) {
+      // updateMany с usedAt: null - код не сработает дважды при параллельных запросах
+      const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: hashValue(normalized), usedAt: null },
+        data: { usedAt: new Date() }
+      })
+
+      if (count > 0) {
+        await eventService.record({
+          source: 'auth',
+          module: 'auth',
+          type: 'two_factor.recovery_code_used',
+          severity: 'warning',
+          actor: { type: 'user', id: userId },
+          subject: { type: 'user', id: userId },
+          message: 'Использован код восстановления 2FA'
+        })
+
+        return { success: true, method: 'recovery_code' }
+      }
+    }
+
+    return { success: false, error: 'Неверный код' }
+  }
+
+  /**
+   * Выключить 2FA (подтверждается текущим кодом)
+   */
+  async disable(userId: string, code: string): Promise<TwoFactorResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true }
+    })
+
+    if (!user) {
+      return { success: false, error: 'Пользователь не найден' }
+    }
+
+    if (await this.isRequiredForRole(user.role)) {
+      return { success: false, error: 'Для вашей роли двухфакторная аутентификация обязательна' }
+    }
+
+    const verification = await this.verifyCode(userId, code)
+
+    if (!verification.success) {
+      return verification
+    }
+
+    await this.clear(userId)
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'two_factor.disabled',
+      severity: 'warning',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: 'Двухфакторная аутентификация выключена'
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Новый набор кодов восстановления (старые перестают действовать)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<TwoFactorRecoveryCodesResult> {
+    const verification = await this.verifyCode(userId, code)
+
+    if (!verification.success) {
+      return verification
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId)
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'two_factor.recovery_codes_regenerated',
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'user', id: userId },
+      message: 'Коды восстановления 2FA перевыпущены'
+    })
+
+    return { success: true, recoveryCodes }
+  }
+
+  /**
+   * Сброс 2FA администратором (потерян телефон и коды восстановления)
+   */
+  async reset(userId: string, actorId: string): Promise<TwoFactorResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      return { success: false, error: 'Пользователь не найден' }
+    }
+
+    await this.clear(userId)
+
+    await eventService.record({
+      source: 'auth',
+      module: 'auth',
+      type: 'two_factor.reset',
+      severity: 'warning',
+      actor: { type: 'user', id: actorId },
+      subject: { type: 'user', id: userId },
+      message: 'Двухфакторная аутентификация сброшена администратором',
+      payload: { wasEnabled: Boolean(user.twoFactorEnabledAt) }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Промежуточная сессия после проверки пароля.
+   * Возвращает токен для cookie второго шага; id сессии клиенту не выдаётся.
+   */
+  async createPendingSession(userId: string, state: TwoFactorSessionState): Promise<string> {
+    const sessionToken = crypto.randomUUID()
+
+    await prisma.session.create({
+      data: {
+        id: crypto.randomBytes(20).toString('hex'),
+        sessionToken,
+        userId,
+        expiresAt: new Date(Date.now() + PENDING_SESSION_TTL_MS),
+        twoFactorState: state
+      }
+    })
+
+    return sessionToken
+  }
+
+  async getPendingSession(sessionToken: string | null | undefined) {
+    if (!sessionToken) return null
+
+    const session = await prisma.session.findUnique({
+      where: { sessionToken },
+      include: { user: { include: { role: true } } }
+    })
+
+    if (!session?.twoFactorState || session.expiresAt.getTime() <= Date.now()) {
+      return null
+    }
+
+    return { ...session, twoFactorState: session.twoFactorState as TwoFactorSessionState }
+  }
+
+  async deletePendingSession(sessionId: string): Promise<void> {
+    await prisma.session.deleteMany({ where: { id: sessionId, twoFactorState: { not: null } } })
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = Array.from({ length: RECOVERY_CODES_COUNT }, generateRecoveryCode)
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map(code => ({ userId, codeHash: hashValue(normalizeRecoveryCode(code)) }))
+      })
+    ])
+
+    return recoveryCodes
+  }
+
+  private async clear(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null
+        }
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.session.deleteMany({ where: { userId, twoFactorState: { not: null } } })
+    ])
+  }
+}
+
+// Singleton instance
+export const twoFactorService = TwoFactorService.getInstance()
@@ -0,0 +1,79 @@
+/**
+ * Auth Service Module
+ *
+ * Двухфакторная аутентификация (TOTP + коды восстановления).
+ * Самостоятельный сброс пароля по email-ссылке или SMS-коду.
+ * Вход без пароля по ссылке из письма или SMS-коду.
+ * Вход через OAuth 2.0 / OpenID Connect и привязка аккаунтов провайдеров.
+ * Активные сессии: устройства, последняя активность, отзыв.
+ * Персональные API-ключи со scopes в словаре разрешений ролей.
+ * Вход суперадмина под пользователем с журналом действий.
+ */
+
+export { twoFactorService, TwoFactorService } from './TwoFactorService'
+export { passwordResetService, PasswordResetService, PASSWORD_RESET_CODE_TYPE } from './PasswordResetService'
+export {
+  passwordlessLoginService,
+  PasswordlessLoginService,
+  PASSWORDLESS_LOGIN_CODE_TYPE
+} from './PasswordlessLoginService'
+export { oauthProviderService, OAuthProviderService, DEFAULT_CLAIM_MAPPING } from './OAuthProviderService'
+export { oauthService, OAuthService, OAUTH_STATE_TTL_MS } from './OAuthService'
+export { sessionService, SessionService, SESSION_ACTIVITY_THROTTLE_MS } from './SessionService'
+export { apiKeyService, ApiKeyService, API_KEY_USAGE_THROTTLE_MS } from './ApiKeyService'
+export { impersonationService, ImpersonationService, IMPERSONATION_TTL_MS } from './ImpersonationService'
+
+export type {
+  TwoFactorSessionState,
+  TwoFactorMethod,
+  TwoFactorStatus,
+  TwoFactorResult,
+  TwoFactorEnrollmentResult,
+  TwoFactorRecoveryCodesResult,
+  TwoFactorVerifyResult
+} from './TwoFactorService'
+
+export type {
+  PasswordResetChannel,
+  PasswordResetRequest,
+  PasswordResetConfirmation,
+  PasswordResetRequestResult,
+  PasswordResetResult
+} from './PasswordResetService'
+
+export type {
+  PasswordlessChannel,
+  PasswordlessLoginRequest,
+  PasswordlessLoginConfirmation,
+  PasswordlessRequestResult,
+  PasswordlessLoginResult
+} from './PasswordlessLoginService'
+
+export type {
+  OAuthProviderType,
+  OAuthClaimMapping,
+  OAuthProviderConfig,
+  OAuthProviderDTO,
+  OAuthProviderPublicDTO
+} from './OAuthProviderService'
+
+export type {
+  OAuthMode,
+  OAuthErrorCode,
+  OAuthProfile,
+  OAuthAuthorizationResult,
+  OAuthCallbackResult,
+  OAuthConnection
+} from './OAuthService'
+
+export type { SessionMetadata, UserSessionDTO, SessionRevokeResult } from './SessionService'
+
+export type { ApiKeyErrorCode, ApiKeyDTO, ApiKeyCreateResult, ApiKeyPrincipal } from './ApiKeyService'
+
+export type {
+  ImpersonationErrorCode,
+  ImpersonationStopReason,
+  ImpersonationStartResult,
+  ImpersonationInfo,
+  ImpersonationSession
+} from './ImpersonationService'
@@ -0,0 +1,145 @@
+/**
+ * ChatAttachmentService - вложения сообщений чата
+ *
+ * Файлы загружаются через MediaService с entityType = 'chat_attachment' (пресет задаёт
+ * допустимые типы, размер и превью), затем прикрепляются к сообщению при отправке.
+ * Отдаются только через /api/chat/attachments/[id]: до отправки - загрузившему,
+ * после - участникам комнаты сообщения.
+ */
+
+import type { Media } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { getMediaService, getStorageService } from '@/services/media'
+import type { ChatMessageAttachment } from '@/lib/sockets/types/chat'
+import { chatRoomService } from './ChatRoomService'
+
+export const CHAT_ATTACHMENT_ENTITY_TYPE = 'chat_attachment'
+
+type AttachmentMedia = Pick<Media, 'id' | 'filename' | 'mimeType' | 'size' | 'width' | 'height' | 'variants'>
+
+export interface ChatAttachmentUploadResult {
+  success: boolean
+  attachment?: ChatMessageAttachment
+  error?: string
+}
+
+export interface ChatAttachmentFile {
+  buffer: Buffer
+  mimeType: string
+  filename: string
+}
+
+const parseVariants = (variants: string | null): Record<string, { localPath?: string; s3Key?: string; mimeType?: string }> => {
+  try {
+    return JSON.parse(variants || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export const toChatAttachmentView = (media: AttachmentMedia): ChatMessageAttachment => {
+  const url = `/api/chat/attachments/${media.id}`
+
+  return {
+    id: media.id,
+    filename: media.filename,
+    mimeType: media.mimeType,
+    size: media.size,
+    width: media.width,
+    height: media.height,
+    url,
+    thumbUrl: parseVariants(media.variants).thumb ? `${url}?variant=thumb` : null
+  }
+}
+
+export class ChatAttachmentService {
+  private static instance: ChatAttachmentService
+
+  static getInstance(): ChatAttachmentService {
+    if (!ChatAttachmentService.instance) {
+      ChatAttachmentService.instance = new ChatAttachmentService()
+    }
+
+    return ChatAttachmentService.instance
+  }
+
+  /**
+   * Загрузить файл; к сообщению он прикрепляется при отправке (attachmentIds)
+   */
+  async upload(file: File, userId: string): Promise<ChatAttachmentUploadResult> {
+    const result = await getMediaService().upload(Buffer.from(await file.arrayBuffer()), file.name, file.type, {
+      entityType: CHAT_ATTACHMENT_ENTITY_TYPE,
+      uploadedBy: userId
+    })
+
+    if (!result.success || !result.media) {
+      return { success: false, error: result.error || 'Failed to upload attachment' }
+    }
+
+    return { success: true, attachment: toChatAttachmentView(result.media) }
+  }
+
+  /**
+   * Медиа вложения, если пользователь может его видеть.
+   * Не прикреплённое - только загрузившему; прикреплённое - участникам комнаты,
+   * пока сообщение не удалено для всех.
+   */
+  async getAccessibleMedia(mediaId: string, userId: string): Promise<Media | null> {
+    const media = await prisma.media.findFirst({
+      where: { id: mediaId, entityType: CHAT_ATTACHMENT_ENTITY_TYPE, deletedAt: null },
+      include: { messageAttachment: { include: { message: { select: { roomId: true, deletedAt: true } } } } }
+    })
+
+    if (!media) {
+      return null
+    }
+
+    const { messageAttachment, ...mediaRecord } = media
+
+    if (!messageAttachment) {
+      return media.uploadedBy === userId ? mediaRecord : null
+    }
+
+    if (messageAttachment.message.deletedAt) {
+      return null
+    }
+
+    return (await chatRoomService.isMember(messageAttachment.message.roomId, userId)) ? mediaRecord : null
+  }
+
+  /**
+   * Содержимое файла (или его варианта, например thumb) для пользователя с доступом
+   */
+  async read(mediaId: string, userId: string, variantName?: string): Promise<ChatAttachmentFile | null> {
+    const media = await this.getAccessibleMedia(mediaId, userId)
+
+    if (!media) {
+      return null
+    }
+
+    let source: Media = media
+    let mimeType = media.mimeType
+
+    if (variantName) {
+      const variant = parseVariants(media.variants)[variantName]
+
+      if (!variant) {
+        return null
+      }
+
+      source = { ...media, localPath: variant.localPath || null, s3Key: variant.s3Key || null }
+      mimeType = variant.mimeType || media.mimeType
+    }
+
+    if (!source.localPath && !source.s3Key) {
+      return null
+    }
+
+    const storageService = await getStorageService()
+
+    return { buffer: await storageService.download(source), mimeType, filename: media.filename }
+  }
+}
+
+export const chatAttachmentService = ChatAttachmentService.getInstance()
@@ -0,0 +1,507 @@
+/**
+ * ChatMessageService - сообщения чата
+ *
+ * Ответы (replyToId), редактирование с историей (MessageEdit), реакции,
+ * удаление для себя (MessageDeletion) и для всех (deletedAt, текст и история стираются).
+ * Скрытое модератором сообщение (hiddenAt) хранится целиком, но участникам отдаётся без текста и вложений.
+ * Вложения - медиа chat_attachment, загруженные отправителем и ещё не прикреплённые.
+ * Доступ к сообщению есть только у участников его комнаты.
+ */
+
+import type { Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { getMediaService } from '@/services/media'
+import type { DeleteMessageInput } from '@/lib/validations/chat-schemas'
+import type {
+  ChatMessage,
+  ChatMessageDeleteScope,
+  ChatMessageEdit,
+  ChatMessageReaction
+} from '@/lib/sockets/types/chat'
+import { CHAT_ATTACHMENT_ENTITY_TYPE, toChatAttachmentView } from './ChatAttachmentService'
+import { chatRoomService } from './ChatRoomService'
+
+// Разных реакций одного пользователя на сообщение
+export const MAX_REACTIONS_PER_USER = 10
+
+export interface ChatMessageResult {
+  success: boolean
+  message?: ChatMessage
+  error?: string
+}
+
+export interface ChatMessageDeleteResult {
+  success: boolean
+  roomId?: string
+  scope?: ChatMessageDeleteScope
+  deletedAt?: Date
+  error?: string
+}
+
+export interface ChatReactionResult {
+  success: boolean
+  roomId?: string
+  reactions?: ChatMessageReaction[]
+  error?: string
+}
+
+export interface ChatMessagePage {
+  messages: ChatMessage[]
+  nextCursor: string | null
+}
+
+export interface ChatMessageContext extends ChatMessagePage {
+  roomId: string
+  hasNewer: boolean // после окна есть более новые сообщения
+}
+
+const messageInclude = {
+  sender: { select: { id: true, name: true, email: true } },
+  replyTo: {
+    select: {
+      id: true,
+      content: true,
+      senderId: true,
+      deletedAt: true,
+      hiddenAt: true,
+      sender: { select: { name: true, email: true } }
+    }
+  },
+  reactions: { select: { emoji: true, userId: true }, orderBy: { createdAt: 'asc' } },
+  attachments: {
+    where: { media: { deletedAt: null } },
+    select: {
+      media: { select: { id: true, filename: true, mimeType: true, size: true, width: true, height: true, variants: true } }
+    },
+    orderBy: { position: 'asc' }
+  }
+} satisfies Prisma.MessageInclude
+
+type MessageWithRelations = Prisma.MessageGetPayload<{ include: typeof messageInclude }>
+
+// Реакции по эмодзи в порядке первой реакции
+const groupReactions = (reactions: { emoji: string; userId: string }[]): ChatMessageReaction[] => {
+  const grouped = new Map<string, string[]>()
+
+  reactions.forEach(reaction => {
+    grouped.set(reaction.emoji, [...(grouped.get(reaction.emoji) || []), reaction.userId])
+  })
+
+  return Array.from(grouped, ([emoji, userIds]) => ({ emoji, count: userIds.length, userIds }))
+}
+
+export const toChatMessageView = (message: MessageWithRelations, clientId?: string): ChatMessage => ({
+  id: message.id,
+  content: message.hiddenAt ? '' : message.content,
+  senderId: message.senderId,
+  sender: {
+    id: message.sender.id,
+    name: message.sender.name || undefined,
+    email: message.sender.email || ''
+  },
+  roomId: message.roomId,
+  readAt: message.readAt?.toISOString(),
+  createdAt: message.createdAt.toISOString(),
+  editedAt: message.editedAt?.toISOString() ?? null,
+  deletedAt: message.deletedAt?.toISOString() ?? null,
+  hiddenAt: message.hiddenAt?.toISOString() ?? null,
+  replyToId: message.replyToId,
+  replyTo: message.replyTo
+    ? {
+        id: message.replyTo.id,
+        content: message.replyTo.deletedAt || message.replyTo.hiddenAt ? '' : message.replyTo.content,
+        senderId: message.replyTo.senderId,
+        senderName: message.replyTo.sender.name || message.replyTo.sender.email || '',
+        deleted: Boolean(message.replyTo.deletedAt)
+      }
+    : null,
+  reactions: groupReactions(message.reactions),
+  attachments:
+    message.deletedAt || message.hiddenAt
+      ? []
+      : message.attachments.map(attachment => toChatAttachmentView(attachment.media)),
+  ...(clientId ? { clientId } : {})
+})
+
+export class ChatMessageService {
+  private static instance: ChatMessageService
+
+  static getInstance(): ChatMessageService {
+    if (!ChatMessageService.instance) {
+      ChatMessageService.instance = new ChatMessageService()
+    }
+
+    return ChatMessageService.instance
+  }
+
+  /**
+   * Страница истории комнаты (новые сначала выбираются, возвращаются по возрастанию).
+   * Сообщения, удалённые пользователем у себя, не возвращаются. Членство проверяет вызывающий.
+   */
+  async getRoomMessages(
+    roomId: string,
+    viewerId: string,
+    options: { cursor?: Date | null; limit: number }
+  ): Promise<ChatMessagePage> {
+    const messages = await prisma.message.findMany({
+      where: {
+        roomId,
+        deletions: { none: { userId: viewerId } },
+        ...(options.cursor ? { createdAt: { lt: options.cursor } } : {})
+      },
+      include: messageInclude,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit + 1
+    })
+
+    const hasMore = messages.length > options.limit
+    const page = hasMore ? messages.slice(0, options.limit) : messages
+
+    return {
+      messages: page.reverse().map(message => toChatMessageView(message)),
+      nextCursor: hasMore ? page[0].createdAt.toISOString() : null
+    }
+  }
+
+  /**
+   * Сообщение с соседними (до limit до и после) - переход к результату поиска.
+   * nextCursor - продолжение более ранней истории, как у getRoomMessages.
+   */
+  async getMessageContext(messageId: string, viewerId: string, limit: number): Promise<ChatMessageContext | null> {
+    const target = await prisma.message.findFirst({
+      where: { id: messageId, deletions: { none: { userId: viewerId } } },
+      include: messageInclude
+    })
+
+    if (!target || !(await chatRoomService.isMember(target.roomId, viewerId))) {
+      return null
+    }
+
+    const visible = { roomId: target.roomId, deletions: { none: { userId: viewerId } } }
+
+    const [older, newer] = await Promise.all([
+      prisma.message.findMany({
+        where: { ...visible, createdAt: { lt: target.createdAt } },
+        include: messageInclude,
+        orderBy: { createdAt: 'desc' },
+        take: limit + 1
+      }),
+      prisma.message.findMany({
+        where: { ...visible, createdAt: { gt: target.createdAt } },
+        include: messageInclude,
+        orderBy: { createdAt: 'asc' },
+        take: limit + 1
+      })
+    ])
+
+    const hasOlder = older.length > limit
+    const before = older.slice(0, limit).reverse()
+
+    return {
+      roomId: target.roomId,
+      messages: [...before, target, ...newer.slice(0, limit)].map(message => toChatMessageView(message)),
+      nextCursor: hasOlder ? before[0].createdAt.toISOString() : null,
+      hasNewer: newer.length > limit
+    }
+  }
+
+  /**
+   * Новое сообщение; ответить можно только на сообщение той же комнаты.
+   * Текст может быть пустым, если есть вложения.
+   */
+  async createMessage(input: {
+    roomId: string
+    senderId: string
+    content: string
+    replyToId?: string | null
+    attachmentIds?: string[]
+    clientId?: string
+  }): Promise<ChatMessageResult> {
+    const attachmentIds = Array.from(new Set(input.attachmentIds || []))
+
+    if (!input.content.trim() && attachmentIds.length === 0) {
+      return { success: false, error: 'Message is required' }
+    }
+
+    if (attachmentIds.length > 0) {
+      const available = await prisma.media.count({
+        where: {
+          id: { in: attachmentIds },
+          entityType: CHAT_ATTACHMENT_ENTITY_TYPE,
+          uploadedBy: input.senderId,
+          deletedAt: null,
+          messageAttachment: { is: null }
+        }
+      })
+
+      if (available !== attachmentIds.length) {
+        return { success: false, error: 'Attachment not found or already used' }
+      }
+    }
+
+    if (input.replyToId) {
+      const parent = await prisma.message.findFirst({
+        where: { id: input.replyToId, roomId: input.roomId },
+        select: { id: true }
+      })
+
+      if (!parent) {
+        return { success: false, error: 'Reply target not found' }
+      }
+    }
+
+    const message = await prisma.message.create({
+      data: {
+        content: input.content,
+        senderId: input.senderId,
+        roomId: input.roomId,
+        replyToId: input.replyToId || null,
+        attachments: { create: attachmentIds.map((mediaId, position) => ({ mediaId, position })) }
+      },
+      include: messageInclude
+    })
+
+    if (attachmentIds.length > 0) {
+      await prisma.media.updateMany({
+        where: { id: { in: attachmentIds } },
+        data: { entityId: message.id }
+      })
+    }
+
+    return { success: true, message: toChatMessageView(message, input.clientId) }
+  }
+
+  /**
+   * Редактирование (только автор). Предыдущий текст сохраняется в историю.
+   */
+  async editMessage(messageId: string, userId: string, content: string): Promise<ChatMessageResult> {
+    const message = await this.findAccessibleMessage(messageId, userId)
+
+    if (!message) {
+      return { success: false, error: 'Message not found' }
+    }
+
+    if (message.senderId !== userId) {
+      return { success: false, error: 'Only the sender can edit this message' }
+    }
+
+    if (message.deletedAt) {
+      return { success: false, error: 'Message was deleted' }
+    }
+
+    if (message.hiddenAt) {
+      return { success: false, error: 'Message was hidden by a moderator' }
+    }
+
+    if (message.content === content) {
+      return { success: true, message: toChatMessageView(message) }
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.messageEdit.create({
+        data: { messageId, content: message.content, editedById: userId }
+      }),
+      prisma.message.update({
+        where: { id: messageId },
+        data: { content, editedAt: new Date() },
+        include: messageInclude
+      })
+    ])
+
+    return { success: true, message: toChatMessageView(updated) }
+  }
+
+  /**
+   * Предыдущие версии сообщения, старые сначала. null - сообщение недоступно.
+   */
+  async getEditHistory(messageId: string, userId: string): Promise<ChatMessageEdit[] | null> {
+    const message = await this.findAccessibleMessage(messageId, userId)
+
+    if (!message) {
+      return null
+    }
+
+    const edits = await prisma.messageEdit.findMany({
+      where: { messageId },
+      orderBy: { editedAt: 'asc' }
+    })
+
+    return edits.map(edit => ({
+      content: edit.content,
+      editedAt: edit.editedAt.toISOString(),
+      editedById: edit.editedById
+    }))
+  }
+
+  /**
+   * self - скрыть у себя (любое сообщение комнаты);
+   * everyone - удалить для всех (только автор): текст, история правок и реакции стираются,
+   * вложения уходят в корзину медиа
+   */
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: DeleteMessageInput['scope']
+  ): Promise<ChatMessageDeleteResult> {
+    const message = await this.findAccessibleMessage(messageId, userId)
+
+    if (!message) {
+      return { success: false, error: 'Message not found' }
+    }
+
+    if (scope === 'self') {
+      const deletion = await prisma.messageDeletion.upsert({
+        where: { messageId_userId: { messageId, userId } },
+        create: { messageId, userId },
+        update: {}
+      })
+
+      return { success: true, roomId: message.roomId, scope, deletedAt: deletion.createdAt }
+    }
+
+    if (message.senderId !== userId) {
+      return { success: false, error: 'Only the sender can delete this message for everyone' }
+    }
+
+    if (message.deletedAt) {
+      return { success: true, roomId: message.roomId, scope, deletedAt: message.deletedAt }
+    }
+
+    const deletedAt = await this.eraseMessage(message, userId)
+
+    return { success: true, roomId: message.roomId, scope, deletedAt }
+  }
+
+  /**
+   * Удаление для всех модератором (без проверки членства в комнате)
+   */
+  async deleteAsModerator(messageId: string, moderatorId: string): Promise<ChatMessageDeleteResult> {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: messageInclude
+    })
+
+    if (!message) {
+      return { success: false, error: 'Message not found' }
+    }
+
+    const deletedAt = message.deletedAt ?? (await this.eraseMessage(message, moderatorId))
+
+    return { success: true, roomId: message.roomId, scope: 'everyone', deletedAt }
+  }
+
+  /**
+   * Скрыть сообщение модератором (hiddenById) или вернуть его (null)
+   */
+  async setHidden(messageId: string, hiddenById: string | null): Promise<ChatMessageResult> {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, deletedAt: true }
+    })
+
+    if (!message) {
+      return { success: false, error: 'Message not found' }
+    }
+
+    if (message.deletedAt) {
+      return { success: false, error: 'Message was deleted' }
+    }
+
+    const updated = await prisma.message.update({
+      where: { id: messageId },
+      data: hiddenById ? { hiddenAt: new Date(), hiddenById } : { hiddenAt: null, hiddenById: null },
+      include: messageInclude
+    })
+
+    return { success: true, message: toChatMessageView(updated) }
+  }
+
+  /**
+   * Поставить или снять реакцию пользователя
+   */
+  async toggleReaction(messageId: string, userId: string, emoji: string): Promise<ChatReactionResult> {
+    const message = await this.findAccessibleMessage(messageId, userId)
+
+    if (!message) {
+      return { success: false, error: 'Message not found' }
+    }
+
+    if (message.deletedAt) {
+      return { success: false, error: 'Message was deleted' }
+    }
+
+    const existing = await prisma.messageReaction.findUnique({
+      where: { messageId_userId_emoji: { messageId, userId, emoji } }
+    })
+
+    if (existing) {
+      await prisma.messageReaction.delete({ where: { id: existing.id } })
+    } else {
+      const userReactions = await prisma.messageReaction.count({ where: { messageId, userId } })
+
+      if (userReactions >= MAX_REACTIONS_PER_USER) {
+        return { success: false, error: `No more than ${MAX_REACTIONS_PER_USER} reactions per message` }
+      }
+
+      await prisma.messageReaction.create({ data: { messageId, userId, emoji } })
+    }
+
+    const reactions = await prisma.messageReaction.findMany({
+      where: { messageId },
+      select: { emoji: true, userId: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return { success: true, roomId: message.roomId, reactions: groupReactions(reactions) }
+  }
+
+  /**
+   * Стереть текст, историю правок и реакции, вложения - в корзину медиа
+   */
+  private async eraseMessage(message: MessageWithRelations, deletedById: string): Promise<Date> {
+    const deletedAt = new Date()
+
+    await prisma.$transaction([
+      prisma.message.update({
+        where: { id: message.id },
+        data: { content: '', deletedAt, deletedById }
+      }),
+      prisma.messageEdit.deleteMany({ where: { messageId: message.id } }),
+      prisma.messageReaction.deleteMany({ where: { messageId: message.id } })
+    ])
+
+    for (const attachment of message.attachments) {
+      try {
+        await getMediaService().delete(attachment.media.id)
+      } catch (error) {
+        logger.warn('[ChatMessageService] Failed to delete attachment', {
+          messageId: message.id,
+          mediaId: attachment.media.id,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    return deletedAt
+  }
+
+  /**
+   * Сообщение, если пользователь состоит в его комнате
+   */
+  private async findAccessibleMessage(messageId: string, userId: string): Promise<MessageWithRelations | null> {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: messageInclude
+    })
+
+    if (!message || !(await chatRoomService.isMember(message.roomId, userId))) {
+      return null
+    }
+
+    return message
+  }
+}
+
+export const chatMessageService = ChatMessageService.getInstance()
@@ -0,0 +1,577 @@
+/**
+ * ChatModerationService - модерация чата
+ *
+ * Контент-фильтр перед сохранением сообщения: запрещённые слова, ссылки, номера телефонов
+ * и повтор одного и того же текста (spam). Правило может пропустить сообщение, отправить его
+ * в очередь модерации (flag) или отклонить (block).
+ * Жалобы участников (MessageReport) и отметки фильтра (reporterId = null) образуют очередь;
+ * модератор скрывает, удаляет сообщение, предупреждает автора или запрещает ему писать
+ * (UserBlock с module = 'chat'). Все действия пишутся в журнал событий.
+ */
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { rateLimitService } from '@/lib/rate-limit'
+import { eventService } from '@/services/events/EventService'
+import { notificationService } from '@/services/notifications/NotificationService'
+import type { ChatModerationAction, ChatMessage, ChatReportReason } from '@/lib/sockets/types/chat'
+import type { ChatModerationSettingsInput } from '@/lib/validations/chat-schemas'
+import { chatMessageService } from './ChatMessageService'
+import { chatRoomService } from './ChatRoomService'
+
+// Модуль блокировки UserBlock, запрещающей писать в чат
+export const CHAT_MUTE_MODULE = 'chat'
+
+// Настройки фильтра перечитываются из БД не чаще
+const SETTINGS_CACHE_TTL_MS = 30 * 1000
+
+// Адрес со схемой или www, либо домен в популярной зоне (example.com, пример.рф)
+const LINK_PATTERN =
+  /(?:https?:\/\/|www\.)\S+|(?<![\p{L}\p{N}.-])(?:[\p{L}\p{N}-]+\.)+(?:com|net|org|ru|рф|io|me|info|biz|xyz|app|dev|co)(?![\p{L}\p{N}])/iu
+
+// 10 и больше цифр подряд, допускаются пробелы, скобки, точки и дефисы между ними
+const PHONE_PATTERN = /\+?\d(?:[\s().-]*\d){9,}/
+
+export type ChatFilterAction = 'allow' | 'flag' | 'block'
+
+export type ChatFilterRule = 'banned_words' | 'link' | 'phone' | 'spam'
+
+export type ChatModerationErrorCode = 'not_found' | 'own_message' | 'message_deleted' | 'invalid_target'
+
+export const CHAT_MODERATION_ERRORS: Record<ChatModerationErrorCode, string> = {
+  not_found: 'Message not found',
+  own_message: 'You cannot report your own message',
+  message_deleted: 'Message was deleted',
+  invalid_target: 'You cannot warn or mute yourself'
+}
+
+export interface ChatModerationSettings {
+  bannedWords: string[]
+  bannedWordsAction: ChatFilterAction
+  linkAction: ChatFilterAction
+  phoneAction: ChatFilterAction
+  spamRepeatLimit: number
+  spamWindowSeconds: number
+  updatedAt: Date | null
+}
+
+export interface ChatFilterVerdict {
+  action: ChatFilterAction
+  rules: ChatFilterRule[]
+}
+
+export interface ChatScreenResult {
+  allowed: boolean
+  code?: 'muted' | 'filtered'
+  error?: string
+  mutedUntil?: Date | null
+  verdict: ChatFilterVerdict
+}
+
+export interface ChatReportResult {
+  success: boolean
+  error?: ChatModerationErrorCode
+  reportId?: string
+}
+
+export interface ChatModerationResult {
+  success: boolean
+  error?: ChatModerationErrorCode
+  action?: ChatModerationAction
+  messageId?: string
+  roomId?: string
+  senderId?: string
+  message?: ChatMessage // hide/unhide - новое представление сообщения
+  deletedAt?: Date // delete
+  mutedUntil?: Date | null // mute, null - бессрочно
+}
+
+export interface ChatModerationQueueItem {
+  message: {
+    id: string
+    roomId: string
+    roomName: string | null
+    content: string
+    attachmentsCount: number
+    createdAt: Date
+    hiddenAt: Date | null
+    sender: { id: string; name: string | null; email: string | null }
+  }
+  reports: {
+    id: string
+    reason: string
+    details: string | null
+    createdAt: Date
+    reporter: { id: string; name: string | null; email: string | null } | null
+  }[]
+}
+
+export const DEFAULT_CHAT_MODERATION_SETTINGS: ChatModerationSettings = {
+  bannedWords: [],
+  bannedWordsAction: 'block',
+  linkAction: 'allow',
+  phoneAction: 'allow',
+  spamRepeatLimit: 3,
+  spamWindowSeconds: 60,
+  updatedAt: null
+}
+
+const ACTION_SEVERITY: Record<ChatFilterAction, number> = { allow: 0, flag: 1, block: 2 }
+
+const FILTER_ACTIONS: ChatFilterAction[] = ['allow', 'flag', 'block']
+
+const toFilterAction = (value: string, fallback: ChatFilterAction): ChatFilterAction =>
+  FILTER_ACTIONS.includes(value as ChatFilterAction) ? (value as ChatFilterAction) : fallback
+
+const parseWordList = (value: string): string[] => {
+  try {
+    const parsed = JSON.parse(value)
+
+    return Array.isArray(parsed) ? parsed.filter((word): word is string => typeof word === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Слово или фраза целиком, без учёта регистра
+const containsWord = (content: string, word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word.trim())}(?![\\p{L}\\p{N}])`, 'iu').test(content)
+
+/**
+ * Проверка текста фильтром. repeatCount - сколько таких же сообщений автор уже отправил за окно spam-проверки.
+ */
+export const evaluateContent = (
+  content: string,
+  settings: ChatModerationSettings,
+  repeatCount = 0
+): ChatFilterVerdict => {
+  const matches: { rule: ChatFilterRule; action: ChatFilterAction }[] = []
+
+  if (settings.bannedWords.some(word => word.trim() && containsWord(content, word))) {
+    matches.push({ rule: 'banned_words', action: settings.bannedWordsAction })
+  }
+
+  if (LINK_PATTERN.test(content)) {
+    matches.push({ rule: 'link', action: settings.linkAction })
+  }
+
+  if (PHONE_PATTERN.test(content)) {
+    matches.push({ rule: 'phone', action: settings.phoneAction })
+  }
+
+  if (settings.spamRepeatLimit > 0 && repeatCount >= settings.spamRepeatLimit) {
+    matches.push({ rule: 'spam', action: 'block' })
+  }
+
+  const triggered = matches.filter(match => match.action !== 'allow')
+
+  return {
+    action: triggered.reduce<ChatFilterAction>(
+      (result, match) => (ACTION_SEVERITY[match.action] > ACTION_SEVERITY[result] ? match.action : result),
+      'allow'
+    ),
+    rules: triggered.map(match => match.rule)
+  }
+}
+
+export class ChatModerationService {
+  private static instance: ChatModerationService
+  private settingsCache: { value: ChatModerationSettings; loadedAt: number } | null = null
+
+  static getInstance(): ChatModerationService {
+    if (!ChatModerationService.instance) {
+      ChatModerationService.instance = new ChatModerationService()
+    }
+
+    return ChatModerationService.instance
+  }
+
+  /**
+   * Настройки фильтра (значения по умолчанию, пока их не сохраняли)
+   */
+  async getSettings(): Promise<ChatModerationSettings> {
+    if (this.settingsCache && Date.now() - this.settingsCache.loadedAt < SETTINGS_CACHE_TTL_MS) {
+      return this.settingsCache.value
+    }
+
+    const record = await prisma.chatModerationSettings.findFirst()
+
+    const value: ChatModerationSettings = record
+      ? {
+          bannedWords: parseWordList(record.bannedWords),
+          bannedWordsAction: toFilterAction(record.bannedWordsAction, 'block'),
+          linkAction: toFilterAction(record.linkAction, 'allow'),
+          phoneAction: toFilterAction(record.phoneAction, 'allow'),
+          spamRepeatLimit: record.spamRepeatLimit,
+          spamWindowSeconds: record.spamWindowSeconds,
+          updatedAt: record.updatedAt
+        }
+      : DEFAULT_CHAT_MODERATION_SETTINGS
+
+    this.settingsCache = { value, loadedAt: Date.now() }
+
+    return value
+  }
+
+  async updateSettings(input: ChatModerationSettingsInput, adminId: string): Promise<ChatModerationSettings> {
+    const bannedWords = Array.from(new Set(input.bannedWords.map(word => word.toLowerCase())))
+    const data = { ...input, bannedWords: JSON.stringify(bannedWords), updatedBy: adminId }
+    const existing = await prisma.chatModerationSettings.findFirst({ select: { id: true } })
+
+    if (existing) {
+      await prisma.chatModerationSettings.update({ where: { id: existing.id }, data })
+    } else {
+      await prisma.chatModerationSettings.create({ data })
+    }
+
+    this.settingsCache = null
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: 'chat.moderation.settings_updated',
+      severity: 'info',
+      actor: { type: 'user', id: adminId },
+      message: 'Настройки контент-фильтра чата изменены',
+      payload: { ...input, bannedWords: bannedWords.length }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * Действующий запрет писать в чат (модуль chat или all)
+   */
+  async getActiveMute(userId: string): Promise<{ id: string; mutedUntil: Date | null } | null> {
+    const block = await prisma.userBlock.findFirst({
+      where: {
+        userId,
+        module: { in: [CHAT_MUTE_MODULE, 'all'] },
+        isActive: true,
+        OR: [{ unblockedAt: null }, { unblockedAt: { gt: new Date() } }]
+      },
+      orderBy: { blockedAt: 'desc' },
+      select: { id: true, unblockedAt: true }
+    })
+
+    return block ? { id: block.id, mutedUntil: block.unblockedAt } : null
+  }
+
+  /**
+   * Проверка перед сохранением сообщения: запрет писать, затем контент-фильтр.
+   * Отклонённые фильтром сообщения пишутся в журнал событий.
+   */
+  async screenMessage(input: { senderId: string; roomId: string; content: string }): Promise<ChatScreenResult> {
+    const mute = await this.getActiveMute(input.senderId)
+
+    if (mute) {
+      return {
+        allowed: false,
+        code: 'muted',
+        error: 'You are not allowed to send messages',
+        mutedUntil: mute.mutedUntil,
+        verdict: { action: 'block', rules: [] }
+      }
+    }
+
+    const content = input.content.trim()
+
+    if (!content) {
+      return { allowed: true, verdict: { action: 'allow', rules: [] } }
+    }
+
+    const settings = await this.getSettings()
+
+    const repeatCount =
+      settings.spamRepeatLimit > 0
+        ? await prisma.message.count({
+            where: {
+              senderId: input.senderId,
+              content,
+              createdAt: { gte: new Date(Date.now() - settings.spamWindowSeconds * 1000) }
+            }
+          })
+        : 0
+
+    const verdict = evaluateContent(content, settings, repeatCount)
+
+    if (verdict.action !== 'block') {
+      return { allowed: true, verdict }
+    }
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: 'chat.message_filtered',
+      severity: 'warning',
+      actor: { type: 'user', id: input.senderId },
+      subject: { type: 'chat_room', id: input.roomId },
+      message: 'Сообщение отклонено контент-фильтром',
+      payload: { roomId: input.roomId, rules: verdict.rules, length: content.length }
+    })
+
+    return { allowed: false, code: 'filtered', error: 'Message was blocked by the content filter', verdict }
+  }
+
+  /**
+   * Отметка фильтра (flag): сообщение сохранено и попадает в очередь модерации
+   */
+  async flagMessage(
+    message: Pick<ChatMessage, 'id' | 'roomId' | 'senderId'>,
+    verdict: ChatFilterVerdict
+  ): Promise<void> {
+    await prisma.messageReport.create({
+      data: { messageId: message.id, reporterId: null, reason: 'filter', details: verdict.rules.join(', ') }
+    })
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: 'chat.message_flagged',
+      severity: 'info',
+      actor: { type: 'user', id: message.senderId },
+      subject: { type: 'chat_message', id: message.id },
+      message: 'Сообщение отправлено на модерацию контент-фильтром',
+      payload: { roomId: message.roomId, rules: verdict.rules }
+    })
+  }
+
+  /**
+   * Жалоба участника комнаты на чужое сообщение. Повторная жалоба того же пользователя не создаётся.
+   */
+  async reportMessage(
+    messageId: string,
+    reporterId: string,
+    input: { reason: ChatReportReason; details?: string }
+  ): Promise<ChatReportResult> {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, roomId: true, senderId: true, deletedAt: true }
+    })
+
+    if (!message || !(await chatRoomService.isMember(message.roomId, reporterId))) {
+      return { success: false, error: 'not_found' }
+    }
+
+    if (message.senderId === reporterId) {
+      return { success: false, error: 'own_message' }
+    }
+
+    if (message.deletedAt) {
+      return { success: false, error: 'message_deleted' }
+    }
+
+    const existing = await prisma.messageReport.findUnique({
+      where: { messageId_reporterId: { messageId, reporterId } },
+      select: { id: true }
+    })
+
+    if (existing) {
+      return { success: true, reportId: existing.id }
+    }
+
+    const report = await prisma.messageReport.create({
+      data: { messageId, reporterId, reason: input.reason, details: input.details || null }
+    })
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: 'chat.message_reported',
+      severity: 'info',
+      actor: { type: 'user', id: reporterId },
+      subject: { type: 'chat_message', id: messageId },
+      message: 'Жалоба на сообщение чата',
+      payload: { roomId: message.roomId, senderId: message.senderId, reason: input.reason }
+    })
+
+    return { success: true, reportId: report.id }
+  }
+
+  /**
+   * Очередь модерации: сообщения с необработанными жалобами, старые первыми
+   */
+  async getQueue(params: { page?: number; limit?: number } = {}) {
+    const page = Math.max(1, Math.floor(params.page || 1))
+    const limit = Math.min(100, Math.max(1, Math.floor(params.limit || 20)))
+    const where = { deletedAt: null, reports: { some: { status: 'pending' } } }
+
+    const [messages, total] = await Promise.all([
+      prisma.message.findMany({
+        where,
+        include: {
+          sender: { select: { id: true, name: true, email: true } },
+          room: { select: { name: true } },
+          _count: { select: { attachments: true } },
+          reports: {
+            where: { status: 'pending' },
+            include: { reporter: { select: { id: true, name: true, email: true } } },
+            orderBy: { createdAt: 'asc' }
+          }
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.message.count({ where })
+    ])
+
+    const items: ChatModerationQueueItem[] = messages.map(message => ({
+      message: {
+        id: message.id,
+        roomId: message.roomId,
+        roomName: message.room.name,
+        content: message.content,
+        attachmentsCount: message._count.attachments,
+        createdAt: message.createdAt,
+        hiddenAt: message.hiddenAt,
+        sender: message.sender
+      },
+      reports: message.reports.map(report => ({
+        id: report.id,
+        reason: report.reason,
+        details: report.details,
+        createdAt: report.createdAt,
+        reporter: report.reporter
+      }))
+    }))
+
+    return { items, total, page, limit, totalPages: Math.ceil(total / limit) }
+  }
+
+  /**
+   * Действие модератора. Все действия, кроме unhide, закрывают жалобы на сообщение.
+   * Права moderate_chat проверяет вызывающий.
+   */
+  async moderate(params: {
+    messageId: string
+    moderatorId: string
+    action: ChatModerationAction
+    reason?: string
+    durationMinutes?: number
+  }): Promise<ChatModerationResult> {
+    const { messageId, moderatorId, action, reason, durationMinutes } = params
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, roomId: true, senderId: true, deletedAt: true }
+    })
+
+    if (!message) {
+      return { success: false, error: 'not_found' }
+    }
+
+    if (message.deletedAt && action !== 'dismiss') {
+      return { success: false, error: 'message_deleted' }
+    }
+
+    if (message.senderId === moderatorId && (action === 'warn' || action === 'mute')) {
+      return { success: false, error: 'invalid_target' }
+    }
+
+    const result: ChatModerationResult = {
+      success: true,
+      action,
+      messageId,
+      roomId: message.roomId,
+      senderId: message.senderId
+    }
+
+    switch (action) {
+      case 'hide':
+      case 'unhide':
+        result.message = (await chatMessageService.setHidden(messageId, action === 'hide' ? moderatorId : null)).message
+        break
+
+      case 'delete': {
+        const deleted = await chatMessageService.deleteAsModerator(messageId, moderatorId)
+
+        result.deletedAt = deleted.deletedAt
+        break
+      }
+
+      case 'mute': {
+        const block = await rateLimitService.createManualBlock({
+          module: CHAT_MUTE_MODULE,
+          userId: message.senderId,
+          reason: 'chat_moderation',
+          blockedBy: moderatorId,
+          notes: reason || `Message ${messageId}`,
+          durationMs: durationMinutes ? durationMinutes * 60 * 1000 : undefined,
+          overwrite: true
+        })
+
+        result.mutedUntil = block.unblockedAt
+        await this.notifySender(message.senderId, action, reason, block.unblockedAt)
+        break
+      }
+
+      case 'warn':
+        await this.notifySender(message.senderId, action, reason)
+        break
+    }
+
+    if (action !== 'unhide') {
+      await prisma.messageReport.updateMany({
+        where: { messageId, status: 'pending' },
+        data: {
+          status: action === 'dismiss' ? 'dismissed' : 'resolved',
+          resolution: action,
+          resolvedById: moderatorId,
+          resolvedAt: new Date()
+        }
+      })
+    }
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: `chat.moderation.${action}`,
+      severity: action === 'dismiss' || action === 'unhide' ? 'info' : 'warning',
+      actor: { type: 'user', id: moderatorId },
+      subject: { type: 'user', id: message.senderId },
+      message: `Модерация чата: ${action}`,
+      payload: {
+        messageId,
+        roomId: message.roomId,
+        reason: reason ?? null,
+        ...(action === 'mute' ? { durationMinutes: durationMinutes ?? null, mutedUntil: result.mutedUntil } : {})
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Предупреждение или запрет писать - уведомление автору сообщения
+   */
+  private async notifySender(
+    userId: string,
+    action: 'warn' | 'mute',
+    reason?: string,
+    mutedUntil?: Date | null
+  ): Promise<void> {
+    const content =
+      action === 'warn'
+        ? 'Модератор вынес предупреждение за сообщение в чате.'
+        : mutedUntil
+          ? `Модератор запретил вам писать в чат до ${mutedUntil.toLocaleString('ru-RU')}.`
+          : 'Модератор запретил вам писать в чат.'
+
+    const result = await notificationService.send({
+      channel: 'browser',
+      to: userId,
+      subject: action === 'warn' ? 'Предупреждение модератора' : 'Запрет писать в чат',
+      content: reason ? `${content} Причина: ${reason}` : content,
+      metadata: { type: 'warning', category: 'chat' }
+    })
+
+    if (!result.success) {
+      logger.warn('[ChatModerationService] Failed to notify message sender', { userId, action, error: result.error })
+    }
+  }
+}
+
+export const chatModerationService = ChatModerationService.getInstance()
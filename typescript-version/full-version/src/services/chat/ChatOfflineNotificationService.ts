@@ -0,0 +1,447 @@
+/**
+ * ChatOfflineNotificationService - сводки непрочитанных сообщений для участников не в сети
+ *
+ * Новое сообщение ставит каждому участнику комнаты, кроме автора и отключивших уведомления комнаты,
+ * ожидающую сводку (ChatOfflineDigest) через delayMinutes; пока она ждёт, следующие сообщения той же
+ * комнаты новых записей не создают. Прочтение комнаты отменяет сводку.
+ * Когда срок наступил, ChatOfflineNotificationScheduler проверяет, что участник всё ещё не в сети
+ * (нет сокета в /chat и lastSeen старше offlineThresholdMinutes) и сообщения не прочитаны, и отправляет
+ * одну сводку по комнате в каждый включённый канал через NotificationPreferenceService - с учётом
+ * предпочтений категории chat и тихих часов пользователя.
+ */
+
+import type { ChatOfflineDigest, Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { eventService } from '@/services/events/EventService'
+import { notificationPreferenceService } from '@/services/notifications/NotificationPreferenceService'
+import type { NotificationChannelOptions } from '@/services/notifications/types'
+import type { ChatMessage } from '@/lib/sockets/types/chat'
+import type { ChatOfflineNotificationSettingsInput } from '@/lib/validations/chat-schemas'
+
+// Настройки перечитываются из БД не чаще
+const SETTINGS_CACHE_TTL_MS = 30 * 1000
+
+const FLUSH_BATCH_SIZE = 200
+
+// Сообщений в тексте сводки; об остальных - только количество
+const DIGEST_PREVIEW_MESSAGES = 5
+const PREVIEW_MAX_LENGTH = 100
+
+const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+export type ChatOfflineChannel = 'email' | 'telegram' | 'sms'
+
+export type ChatOfflineDigestCancelReason = 'read' | 'muted' | 'online' | 'left' | 'disabled'
+
+export interface ChatOfflineNotificationSettings {
+  enabled: boolean
+  delayMinutes: number
+  offlineThresholdMinutes: number
+  channels: ChatOfflineChannel[]
+  updatedAt: Date | null
+}
+
+export interface ChatOfflineDigestMessage {
+  senderName: string
+  content: string
+  attachmentsCount: number
+}
+
+export interface ChatOfflineDigestContent {
+  subject: string
+  text: string
+  html: string
+}
+
+export const DEFAULT_CHAT_OFFLINE_NOTIFICATION_SETTINGS: ChatOfflineNotificationSettings = {
+  enabled: true,
+  delayMinutes: 15,
+  offlineThresholdMinutes: 5,
+  channels: ['email'],
+  updatedAt: null
+}
+
+const OFFLINE_CHANNELS: ChatOfflineChannel[] = ['email', 'telegram', 'sms']
+
+const dueDigestInclude = {
+  user: { select: { id: true, email: true, phone: true, telegramChatId: true, lastSeen: true } },
+  room: { select: { id: true, type: true, name: true } }
+} satisfies Prisma.ChatOfflineDigestInclude
+
+type DueDigest = Prisma.ChatOfflineDigestGetPayload<{ include: typeof dueDigestInclude }>
+
+const parseChannels = (value: string): ChatOfflineChannel[] => {
+  try {
+    const parsed = JSON.parse(value)
+
+    return Array.isArray(parsed) ? OFFLINE_CHANNELS.filter(channel => parsed.includes(channel)) : []
+  } catch {
+    return []
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const truncate = (value: string, maxLength: number) =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value
+
+/**
+ * Уведомления комнаты отключены (mutedUntil ещё не наступил)
+ */
+export const isRoomMuted = (mutedUntil: Date | null, now: Date = new Date()): boolean =>
+  Boolean(mutedUntil && mutedUntil > now)
+
+/**
+ * Текст сводки: заголовок с количеством, последние сообщения и ссылка на чат
+ */
+export const buildOfflineDigest = (input: {
+  roomType: string
+  roomName: string | null
+  messages: ChatOfflineDigestMessage[] // от новых к старым
+  total: number
+  chatUrl: string
+}): ChatOfflineDigestContent => {
+  const { messages, total, chatUrl } = input
+  const from = input.roomType === 'group' ? `в группе «${input.roomName || 'Группа'}»` : `от ${messages[0]?.senderName}`
+  const subject = `Непрочитанные сообщения (${total}) ${from}`
+
+  const lines = [...messages].reverse().map(message => ({
+    senderName: message.senderName,
+    content: message.content
+      ? truncate(message.content.replace(/\s+/g, ' ').trim(), PREVIEW_MAX_LENGTH)
+      : `[вложений: ${message.attachmentsCount}]`
+  }))
+
+  const more = total > messages.length ? `…и ещё ${total - messages.length}` : null
+
+  const text = [
+    subject,
+    '',
+    ...lines.map(line => `${line.senderName}: ${line.content}`),
+    ...(more ? [more] : []),
+    '',
+    `Открыть чат: ${chatUrl}`
+  ].join('\n')
+
+  const html = `
+      <h2>${escapeHtml(subject)}</h2>
+      <ul>${lines.map(line => `<li><strong>${escapeHtml(line.senderName)}:</strong> ${escapeHtml(line.content)}</li>`).join('')}</ul>
+      ${more ? `<p>${more}</p>` : ''}
+      <p><a href="${chatUrl}">Открыть чат</a></p>
+    `
+
+  return { subject, text, html }
+}
+
+export class ChatOfflineNotificationService {
+  private static instance: ChatOfflineNotificationService
+  private settingsCache: { value: ChatOfflineNotificationSettings; loadedAt: number } | null = null
+
+  static getInstance(): ChatOfflineNotificationService {
+    if (!ChatOfflineNotificationService.instance) {
+      ChatOfflineNotificationService.instance = new ChatOfflineNotificationService()
+    }
+
+    return ChatOfflineNotificationService.instance
+  }
+
+  /**
+   * Настройки сводок (значения по умолчанию, пока их не сохраняли)
+   */
+  async getSettings(): Promise<ChatOfflineNotificationSettings> {
+    if (this.settingsCache && Date.now() - this.settingsCache.loadedAt < SETTINGS_CACHE_TTL_MS) {
+      return this.settingsCache.value
+    }
+
+    const record = await prisma.chatOfflineNotificationSettings.findFirst()
+
+    const value: ChatOfflineNotificationSettings = record
+      ? {
+          enabled: record.enabled,
+          delayMinutes: record.delayMinutes,
+          offlineThresholdMinutes: record.offlineThresholdMinutes,
+          channels: parseChannels(record.channels),
+          updatedAt: record.updatedAt
+        }
+      : DEFAULT_CHAT_OFFLINE_NOTIFICATION_SETTINGS
+
+    this.settingsCache = { value, loadedAt: Date.now() }
+
+    return value
+  }
+
+  async updateSettings(
+    input: ChatOfflineNotificationSettingsInput,
+    adminId: string
+  ): Promise<ChatOfflineNotificationSettings> {
+    const channels = OFFLINE_CHANNELS.filter(channel => input.channels.includes(channel))
+    const data = { ...input, channels: JSON.stringify(channels), updatedBy: adminId }
+    const existing = await prisma.chatOfflineNotificationSettings.findFirst({ select: { id: true } })
+
+    if (existing) {
+      await prisma.chatOfflineNotificationSettings.update({ where: { id: existing.id }, data })
+    } else {
+      await prisma.chatOfflineNotificationSettings.create({ data })
+    }
+
+    this.settingsCache = null
+
+    await eventService.record({
+      source: 'chat',
+      module: 'chat',
+      type: 'chat.offline_notifications.settings_updated',
+      severity: 'info',
+      actor: { type: 'user', id: adminId },
+      message: 'Настройки сводок чата для пользователей не в сети изменены',
+      payload: { ...input, channels }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * Поставить сводки получателям нового сообщения. Ошибки только логируются -
+   * отправка сообщения от них не зависит.
+   * @returns количество новых ожидающих сводок
+   */
+  async scheduleForMessage(message: Pick<ChatMessage, 'id' | 'roomId' | 'senderId'>): Promise<number> {
+    try {
+      const settings = await this.getSettings()
+
+      if (!settings.enabled || settings.channels.length === 0) {
+        return 0
+      }
+
+      const now = new Date()
+
+      const recipients = await prisma.chatRoomMember.findMany({
+        where: {
+          roomId: message.roomId,
+          userId: { not: message.senderId },
+          OR: [{ mutedUntil: null }, { mutedUntil: { lte: now } }]
+        },
+        select: { userId: true }
+      })
+
+      if (recipients.length === 0) {
+        return 0
+      }
+
+      const pending = await prisma.chatOfflineDigest.findMany({
+        where: {
+          roomId: message.roomId,
+          userId: { in: recipients.map(recipient => recipient.userId) },
+          sentAt: null,
+          cancelledAt: null
+        },
+        select: { userId: true }
+      })
+
+      const pendingUserIds = new Set(pending.map(digest => digest.userId))
+      const deliverAfter = new Date(now.getTime() + settings.delayMinutes * 60 * 1000)
+
+      const data = recipients
+        .filter(recipient => !pendingUserIds.has(recipient.userId))
+        .map(recipient => ({ userId: recipient.userId, roomId: message.roomId, deliverAfter }))
+
+      if (data.length === 0) {
+        return 0
+      }
+
+      const { count } = await prisma.chatOfflineDigest.createMany({ data })
+
+      return count
+    } catch (error) {
+      logger.error('[ChatOfflineNotificationService] Failed to schedule offline digests', {
+        messageId: message.id,
+        roomId: message.roomId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return 0
+    }
+  }
+
+  /**
+   * Отменить ожидающую сводку участника по комнате (прочитал или отключил уведомления)
+   */
+  async cancelPending(roomId: string, userId: string, reason: ChatOfflineDigestCancelReason = 'read'): Promise<number> {
+    const { count } = await prisma.chatOfflineDigest.updateMany({
+      where: { roomId, userId, sentAt: null, cancelledAt: null },
+      data: { cancelledAt: new Date(), cancelReason: reason }
+    })
+
+    return count
+  }
+
+  /**
+   * Отправить наступившие сводки. Каждая запись закрывается отправкой или отменой с причиной.
+   * @returns количество обработанных записей
+   */
+  async flushDue(now: Date = new Date()): Promise<number> {
+    const due = await prisma.chatOfflineDigest.findMany({
+      where: { sentAt: null, cancelledAt: null, deliverAfter: { lte: now } },
+      include: dueDigestInclude,
+      orderBy: { deliverAfter: 'asc' },
+      take: FLUSH_BATCH_SIZE
+    })
+
+    if (due.length === 0) {
+      return 0
+    }
+
+    const settings = await this.getSettings()
+
+    if (!settings.enabled || settings.channels.length === 0) {
+      await this.closeDigests(due, { cancelledAt: now, cancelReason: 'disabled' })
+
+      return due.length
+    }
+
+    for (const digest of due) {
+      try {
+        const cancelReason = await this.deliver(digest, settings, now)
+
+        await this.closeDigests([digest], cancelReason ? { cancelledAt: now, cancelReason } : { sentAt: now })
+      } catch (error) {
+        // Запись остаётся ожидающей и будет обработана при следующем запуске
+        logger.error('[ChatOfflineNotificationService] Failed to deliver offline digest', {
+          digestId: digest.id,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    return due.length
+  }
+
+  /**
+   * Отправить одну сводку
+   * @returns причина отмены или null, если сводка отправлена
+   */
+  private async deliver(
+    digest: DueDigest,
+    settings: ChatOfflineNotificationSettings,
+    now: Date
+  ): Promise<ChatOfflineDigestCancelReason | null> {
+    const { user, room } = digest
+
+    const membership = await prisma.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId: room.id, userId: user.id } },
+      select: { lastReadAt: true, mutedUntil: true }
+    })
+
+    if (!membership) return 'left'
+    if (isRoomMuted(membership.mutedUntil, now)) return 'muted'
+    if (await this.isOnline(user.id, user.lastSeen, settings.offlineThresholdMinutes, now)) return 'online'
+
+    const where: Prisma.MessageWhereInput = {
+      roomId: room.id,
+      senderId: { not: user.id },
+      readAt: null,
+      deletedAt: null,
+      hiddenAt: null,
+      deletions: { none: { userId: user.id } },
+      ...(membership.lastReadAt ? { createdAt: { gt: membership.lastReadAt } } : {})
+    }
+
+    const [total, latest] = await Promise.all([
+      prisma.message.count({ where }),
+      prisma.message.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: DIGEST_PREVIEW_MESSAGES,
+        select: {
+          content: true,
+          sender: { select: { name: true, email: true } },
+          _count: { select: { attachments: true } }
+        }
+      })
+    ])
+
+    if (total === 0) return 'read'
+
+    const content = buildOfflineDigest({
+      roomType: room.type,
+      roomName: room.name,
+      messages: latest.map(message => ({
+        senderName: message.sender.name || message.sender.email || 'Пользователь',
+        content: message.content,
+        attachmentsCount: message._count.attachments
+      })),
+      total,
+      chatUrl: `${getAppUrl()}/apps/chat`
+    })
+
+    for (const channel of settings.channels) {
+      const options = this.buildChannelOptions(channel, user, content)
+
+      if (!options) continue
+
+      const result = await notificationPreferenceService.dispatch(options, {
+        userId: user.id,
+        category: 'chat',
+        at: now
+      })
+
+      if (!result.success) {
+        logger.error('[ChatOfflineNotificationService] Failed to send offline digest', {
+          digestId: digest.id,
+          channel,
+          error: result.error
+        })
+      }
+    }
+
+    return null
+  }
+
+  // Адрес канала у пользователя; без адреса канал пропускается
+  private buildChannelOptions(
+    channel: ChatOfflineChannel,
+    user: DueDigest['user'],
+    content: ChatOfflineDigestContent
+  ): NotificationChannelOptions | null {
+    const metadata = { source: 'chat_offline_digest' }
+
+    switch (channel) {
+      case 'email':
+        return user.email
+          ? { channel, to: user.email, subject: content.subject, content: content.html, metadata }
+          : null
+      case 'telegram':
+        return user.telegramChatId ? { channel, to: user.telegramChatId, content: content.text, metadata } : null
+      case 'sms':
+        // В SMS без текста сообщений - только заголовок и ссылка
+        return user.phone
+          ? { channel, to: user.phone, content: `${content.subject}. ${getAppUrl()}/apps/chat`, metadata }
+          : null
+    }
+  }
+
+  // Сокет в /chat (если сервер сокетов в этом процессе) или недавний lastSeen
+  private async isOnline(userId: string, lastSeen: Date | null, thresholdMinutes: number, now: Date) {
+    const chatNamespace = globalThis.io?.of('/chat')
+
+    if (chatNamespace && (await chatNamespace.in(`user_${userId}`).fetchSockets()).length > 0) {
+      return true
+    }
+
+    return Boolean(lastSeen && now.getTime() - lastSeen.getTime() < thresholdMinutes * 60 * 1000)
+  }
+
+  private async closeDigests(
+    digests: Pick<ChatOfflineDigest, 'id'>[],
+    data: { sentAt: Date } | { cancelledAt: Date; cancelReason: ChatOfflineDigestCancelReason }
+  ) {
+    await prisma.chatOfflineDigest.updateMany({
+      where: { id: { in: digests.map(digest => digest.id) } },
+      data
+    })
+  }
+}
+
+export const chatOfflineNotificationService = ChatOfflineNotificationService.getInstance()
@@ -0,0 +1,574 @@
+/**
+ * ChatRoomService - комнаты чата и участники
+ *
+ * direct - личный диалог двух пользователей (user1Id/user2Id + два участника),
+ * group - группа с ролями owner/admin/member.
+ * Прочтение хранится курсором участника (ChatRoomMember.lastReadAt);
+ * Message.readAt обновляется только в direct для отметок "прочитано" в старом UI.
+ * Отключение уведомлений - ChatRoomMember.mutedUntil, бессрочное хранится как MUTED_FOREVER_UNTIL.
+ */
+
+import type { Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { MAX_GROUP_MEMBERS } from '@/lib/validations/chat-schemas'
+import type { CreateGroupRoomInput, MuteRoomInput } from '@/lib/validations/chat-schemas'
+import type { ChatMemberRole, ChatRoom, ChatRoomMember, ChatRoomType } from '@/lib/sockets/types/chat'
+
+export interface ChatRoomResult {
+  success: boolean
+  room?: ChatRoom
+  error?: string
+}
+
+export interface ChatInviteResult extends ChatRoomResult {
+  addedUserIds?: string[]
+}
+
+export interface ChatLeaveResult extends ChatRoomResult {
+  deleted?: boolean // Последний участник вышел - группа удалена
+  newOwnerId?: string | null
+}
+
+export interface ChatReadResult {
+  count: number
+  lastReadAt: Date
+}
+
+export interface ChatRoomUnread {
+  roomId: string
+  type: ChatRoomType
+
+  // Собеседник в direct, null для группы
+  contactId: string | null
+  count: number
+}
+
+export interface ChatRoomLastMessage {
+  id: string
+  content: string
+  senderId: string
+
+  // Собеседник в direct, null для группы
+  receiverId: string | null
+  roomId: string
+  roomType: ChatRoomType
+  roomName: string | null
+  createdAt: Date | string
+}
+
+const roomInclude = {
+  members: {
+    include: { user: { select: { id: true, name: true, email: true, image: true } } },
+    orderBy: { joinedAt: 'asc' }
+  }
+} satisfies Prisma.ChatRoomInclude
+
+type RoomWithMembers = Prisma.ChatRoomGetPayload<{ include: typeof roomInclude }>
+
+type MemberRecord = RoomWithMembers['members'][number]
+
+// Кто кем может управлять: только ролью строго выше
+const ROLE_RANK: Record<ChatMemberRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1
+}
+
+export const MUTED_FOREVER_UNTIL = new Date('9999-12-31T23:59:59.999Z')
+
+const canManageMembers = (role: string) => role === 'owner' || role === 'admin'
+
+const toMemberView = (member: MemberRecord): ChatRoomMember => ({
+  userId: member.userId,
+  role: member.role as ChatMemberRole,
+  lastReadAt: member.lastReadAt ? member.lastReadAt.toISOString() : null,
+  mutedUntil: member.mutedUntil ? member.mutedUntil.toISOString() : null,
+  joinedAt: member.joinedAt.toISOString(),
+  user: {
+    id: member.user.id,
+    name: member.user.name || undefined,
+    email: member.user.email || '',
+    image: member.user.image
+  }
+})
+
+export const toChatRoomView = (room: RoomWithMembers): ChatRoom => ({
+  id: room.id,
+  type: room.type as ChatRoomType,
+  name: room.name,
+  user1Id: room.user1Id,
+  user2Id: room.user2Id,
+  members: room.members.map(toMemberView),
+  createdAt: room.createdAt.toISOString(),
+  updatedAt: room.updatedAt.toISOString()
+})
+
+const getContactId = (room: { type: string; user1Id: string | null; user2Id: string | null }, userId: string) =>
+  room.type === 'direct' ? (room.user1Id === userId ? room.user2Id : room.user1Id) : null
+
+export class ChatRoomService {
+  private static instance: ChatRoomService
+
+  static getInstance(): ChatRoomService {
+    if (!ChatRoomService.instance) {
+      ChatRoomService.instance = new ChatRoomService()
+    }
+
+    return ChatRoomService.instance
+  }
+
+  async getMembership(roomId: string, userId: string) {
+    return prisma.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      include: { room: true }
+    })
+  }
+
+  async isMember(roomId: string, userId: string): Promise<boolean> {
+    return Boolean(await this.getMembership(roomId, userId))
+  }
+
+  async getUserRoomIds(userId: string): Promise<string[]> {
+    const memberships = await prisma.chatRoomMember.findMany({
+      where: { userId },
+      select: { roomId: true }
+    })
+
+    return memberships.map(membership => membership.roomId)
+  }
+
+  /**
+   * Комната с участниками, если пользователь в ней состоит
+   */
+  async getRoom(roomId: string, userId: string): Promise<ChatRoom | null> {
+    const room = await prisma.chatRoom.findFirst({
+      where: { id: roomId, members: { some: { userId } } },
+      include: roomInclude
+    })
+
+    return room ? toChatRoomView(room) : null
+  }
+
+  async getUserRooms(userId: string): Promise<ChatRoom[]> {
+    const rooms = await prisma.chatRoom.findMany({
+      where: { members: { some: { userId } } },
+      include: roomInclude,
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    return rooms.map(toChatRoomView)
+  }
+
+  /**
+   * Личный диалог (порядок пользователей не важен)
+   */
+  async getOrCreateDirectRoom(userId: string, otherUserId: string): Promise<ChatRoom> {
+    const existing = await prisma.chatRoom.findFirst({
+      where: {
+        type: 'direct',
+        OR: [
+          { user1Id: userId, user2Id: otherUserId },
+          { user1Id: otherUserId, user2Id: userId }
+        ]
+      },
+      include: roomInclude
+    })
+
+    if (existing) {
+      if (existing.members.length >= 2) {
+        return toChatRoomView(existing)
+      }
+
+      // Комната создана до появления участников
+      await prisma.chatRoomMember.createMany({
+        data: [userId, otherUserId].map(memberId => ({ roomId: existing.id, userId: memberId })),
+        skipDuplicates: true
+      })
+
+      return toChatRoomView(await prisma.chatRoom.findUniqueOrThrow({ where: { id: existing.id }, include: roomInclude }))
+    }
+
+    const room = await prisma.chatRoom.create({
+      data: {
+        type: 'direct',
+        user1Id: userId,
+        user2Id: otherUserId,
+        members: {
+          create: [{ userId }, { userId: otherUserId }]
+        }
+      },
+      include: roomInclude
+    })
+
+    return toChatRoomView(room)
+  }
+
+  /**
+   * Новая группа: создатель - owner, остальные - member
+   */
+  async createGroupRoom(ownerId: string, input: CreateGroupRoomInput): Promise<ChatRoomResult> {
+    const memberIds = Array.from(new Set(input.memberIds)).filter(id => id !== ownerId)
+
+    if (memberIds.length + 1 > MAX_GROUP_MEMBERS) {
+      return { success: false, error: `Group cannot have more than ${MAX_GROUP_MEMBERS} members` }
+    }
+
+    const existingUsers = await this.findExistingUserIds(memberIds)
+
+    if (existingUsers.length !== memberIds.length) {
+      return { success: false, error: 'Some users were not found' }
+    }
+
+    const room = await prisma.chatRoom.create({
+      data: {
+        type: 'group',
+        name: input.name,
+        createdById: ownerId,
+        members: {
+          create: [
+            { userId: ownerId, role: 'owner' },
+            ...memberIds.map(userId => ({ userId, role: 'member' }))
+          ]
+        }
+      },
+      include: roomInclude
+    })
+
+    return { success: true, room: toChatRoomView(room) }
+  }
+
+  /**
+   * Пригласить пользователей (owner/admin). История до приглашения не считается непрочитанной.
+   */
+  async inviteMembers(roomId: string, actorId: string, userIds: string[]): Promise<ChatInviteResult> {
+    const check = await this.getGroupActor(roomId, actorId)
+
+    if ('error' in check) {
+      return { success: false, error: check.error }
+    }
+
+    if (!canManageMembers(check.actor.role)) {
+      return { success: false, error: 'Only owner or admin can invite members' }
+    }
+
+    const currentIds = new Set(check.room.members.map(member => member.userId))
+    const newIds = Array.from(new Set(userIds)).filter(id => !currentIds.has(id))
+
+    if (newIds.length === 0) {
+      return { success: true, room: toChatRoomView(check.room), addedUserIds: [] }
+    }
+
+    if (currentIds.size + newIds.length > MAX_GROUP_MEMBERS) {
+      return { success: false, error: `Group cannot have more than ${MAX_GROUP_MEMBERS} members` }
+    }
+
+    const existingUsers = await this.findExistingUserIds(newIds)
+
+    if (existingUsers.length !== newIds.length) {
+      return { success: false, error: 'Some users were not found' }
+    }
+
+    const now = new Date()
+
+    await prisma.chatRoomMember.createMany({
+      data: newIds.map(userId => ({ roomId, userId, role: 'member', lastReadAt: now })),
+      skipDuplicates: true
+    })
+
+    return { success: true, room: await this.loadRoom(roomId), addedUserIds: newIds }
+  }
+
+  /**
+   * Исключить участника: owner - любого, admin - только member
+   */
+  async kickMember(roomId: string, actorId: string, targetUserId: string): Promise<ChatRoomResult> {
+    if (actorId === targetUserId) {
+      return { success: false, error: 'Use leaveRoom to leave the group' }
+    }
+
+    const check = await this.getGroupActor(roomId, actorId)
+
+    if ('error' in check) {
+      return { success: false, error: check.error }
+    }
+
+    const target = check.room.members.find(member => member.userId === targetUserId)
+
+    if (!target) {
+      return { success: false, error: 'User is not a member of this room' }
+    }
+
+    if (
+      !canManageMembers(check.actor.role) ||
+      ROLE_RANK[check.actor.role as ChatMemberRole] <= ROLE_RANK[target.role as ChatMemberRole]
+    ) {
+      return { success: false, error: 'Not enough rights to remove this member' }
+    }
+
+    await prisma.chatRoomMember.delete({ where: { id: target.id } })
+
+    return { success: true, room: await this.loadRoom(roomId) }
+  }
+
+  /**
+   * Выйти из группы. Владелец передаёт права старейшему admin (иначе старейшему участнику),
+   * последний участник удаляет группу.
+   */
+  async leaveRoom(roomId: string, userId: string): Promise<ChatLeaveResult> {
+    const check = await this.getGroupActor(roomId, userId)
+
+    if ('error' in check) {
+      return { success: false, error: check.error }
+    }
+
+    const others = check.room.members.filter(member => member.userId !== userId)
+
+    if (others.length === 0) {
+      await prisma.chatRoom.delete({ where: { id: roomId } })
+
+      return { success: true, deleted: true, newOwnerId: null }
+    }
+
+    let newOwnerId: string | null = null
+
+    if (check.actor.role === 'owner') {
+      const successor = others.find(member => member.role === 'admin') ?? others[0]
+
+      newOwnerId = successor.userId
+
+      await prisma.$transaction([
+        prisma.chatRoomMember.delete({ where: { id: check.actor.id } }),
+        prisma.chatRoomMember.update({ where: { id: successor.id }, data: { role: 'owner' } })
+      ])
+    } else {
+      await prisma.chatRoomMember.delete({ where: { id: check.actor.id } })
+    }
+
+    return { success: true, room: await this.loadRoom(roomId), deleted: false, newOwnerId }
+  }
+
+  /**
+   * Сменить роль участника (только owner). Передача owner делает текущего владельца admin.
+   */
+  async setMemberRole(
+    roomId: string,
+    actorId: string,
+    targetUserId: string,
+    role: ChatMemberRole
+  ): Promise<ChatRoomResult> {
+    if (actorId === targetUserId) {
+      return { success: false, error: 'Cannot change your own role' }
+    }
+
+    const check = await this.getGroupActor(roomId, actorId)
+
+    if ('error' in check) {
+      return { success: false, error: check.error }
+    }
+
+    if (check.actor.role !== 'owner') {
+      return { success: false, error: 'Only owner can change roles' }
+    }
+
+    const target = check.room.members.find(member => member.userId === targetUserId)
+
+    if (!target) {
+      return { success: false, error: 'User is not a member of this room' }
+    }
+
+    if (role === 'owner') {
+      await prisma.$transaction([
+        prisma.chatRoomMember.update({ where: { id: target.id }, data: { role: 'owner' } }),
+        prisma.chatRoomMember.update({ where: { id: check.actor.id }, data: { role: 'admin' } })
+      ])
+    } else {
+      await prisma.chatRoomMember.update({ where: { id: target.id }, data: { role } })
+    }
+
+    return { success: true, room: await this.loadRoom(roomId) }
+  }
+
+  /**
+   * Сдвинуть курсор прочтения участника на текущий момент
+   * @returns null, если пользователь не участник комнаты
+   */
+  async markRead(roomId: string, userId: string): Promise<ChatReadResult | null> {
+    const membership = await this.getMembership(roomId, userId)
+
+    if (!membership) return null
+
+    const lastReadAt = new Date()
+
+    const count = await prisma.message.count({
+      where: {
+        roomId,
+        senderId: { not: userId },
+        ...(membership.lastReadAt ? { createdAt: { gt: membership.lastReadAt } } : {})
+      }
+    })
+
+    await prisma.chatRoomMember.update({
+      where: { id: membership.id },
+      data: { lastReadAt }
+    })
+
+    if (membership.room.type === 'direct') {
+      await prisma.message.updateMany({
+        where: { roomId, senderId: { not: userId }, readAt: null },
+        data: { readAt: lastReadAt }
+      })
+    }
+
+    return { count, lastReadAt }
+  }
+
+  /**
+   * Включить или отключить уведомления комнаты для участника
+   * @returns null, если пользователь не участник комнаты
+   */
+  async setMuted(roomId: string, userId: string, input: MuteRoomInput): Promise<ChatRoom | null> {
+    const membership = await this.getMembership(roomId, userId)
+
+    if (!membership) return null
+
+    const mutedUntil = !input.muted
+      ? null
+      : input.durationMinutes
+        ? new Date(Date.now() + input.durationMinutes * 60 * 1000)
+        : MUTED_FOREVER_UNTIL
+
+    await prisma.chatRoomMember.update({
+      where: { id: membership.id },
+      data: { mutedUntil }
+    })
+
+    return this.loadRoom(roomId)
+  }
+
+  /**
+   * Непрочитанные сообщения по комнатам пользователя (после его курсора, не его собственные)
+   */
+  async getUnreadByRoom(userId: string): Promise<ChatRoomUnread[]> {
+    const memberships = await prisma.chatRoomMember.findMany({
+      where: { userId },
+      include: { room: { select: { type: true, user1Id: true, user2Id: true } } }
+    })
+
+    const result: ChatRoomUnread[] = []
+
+    for (const membership of memberships) {
+      const count = await prisma.message.count({
+        where: {
+          roomId: membership.roomId,
+          senderId: { not: userId },
+          ...(membership.lastReadAt ? { createdAt: { gt: membership.lastReadAt } } : {})
+        }
+      })
+
+      result.push({
+        roomId: membership.roomId,
+        type: membership.room.type as ChatRoomType,
+        contactId: getContactId(membership.room, userId),
+        count
+      })
+    }
+
+    return result
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const unread = await this.getUnreadByRoom(userId)
+
+    return unread.reduce((total, room) => total + room.count, 0)
+  }
+
+  /**
+   * Последнее сообщение каждой комнаты пользователя
+   */
+  async getLastMessages(userId: string): Promise<ChatRoomLastMessage[]> {
+    const rooms = await prisma.chatRoom.findMany({
+      where: { members: { some: { userId } } },
+      include: {
+        messages: { orderBy: { createdAt: 'desc' }, take: 1 }
+      }
+    })
+
+    const lastMessages: ChatRoomLastMessage[] = []
+
+    for (const room of rooms) {
+      const message = room.messages[0]
+
+      if (!message) continue
+
+      lastMessages.push({
+        id: message.id,
+        content: message.content,
+        senderId: message.senderId,
+        receiverId:
+          room.type === 'direct' ? (room.user1Id === message.senderId ? room.user2Id : room.user1Id) : null,
+        roomId: room.id,
+        roomType: room.type as ChatRoomType,
+        roomName: room.name,
+        createdAt: message.createdAt
+      })
+    }
+
+    // Сообщений нет - пустые записи личных диалогов, чтобы контакты появились в списке
+    if (lastMessages.length === 0) {
+      for (const room of rooms) {
+        if (room.type !== 'direct') continue
+
+        lastMessages.push({
+          id: `empty-${room.id}`,
+          content: '',
+          senderId: getContactId(room, userId) as string,
+          receiverId: userId,
+          roomId: room.id,
+          roomType: 'direct',
+          roomName: null,
+          createdAt: room.createdAt.toISOString()
+        })
+      }
+    }
+
+    return lastMessages
+  }
+
+  private async loadRoom(roomId: string): Promise<ChatRoom> {
+    return toChatRoomView(await prisma.chatRoom.findUniqueOrThrow({ where: { id: roomId }, include: roomInclude }))
+  }
+
+  private async findExistingUserIds(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return []
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true }
+    })
+
+    return users.map(user => user.id)
+  }
+
+  // Группа и участник-инициатор действия
+  private async getGroupActor(
+    roomId: string,
+    actorId: string
+  ): Promise<{ room: RoomWithMembers; actor: MemberRecord } | { error: string }> {
+    const room = await prisma.chatRoom.findUnique({ where: { id: roomId }, include: roomInclude })
+    const actor = room?.members.find(member => member.userId === actorId)
+
+    if (!room || !actor) {
+      return { error: 'Access denied to room' }
+    }
+
+    if (room.type !== 'group') {
+      return { error: 'Action is available only for group rooms' }
+    }
+
+    return { room, actor }
+  }
+}
+
+// Singleton instance
+export const chatRoomService = ChatRoomService.getInstance()
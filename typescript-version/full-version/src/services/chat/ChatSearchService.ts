@@ -0,0 +1,208 @@
+/**
+ * ChatSearchService - полнотекстовый поиск по истории чата
+ *
+ * Ищет по всем комнатам, где пользователь состоит участником. Индекс - генерируемая колонка
+ * Message.searchVector = to_tsvector('russian', content) с GIN-индексом: в конфигурации russian
+ * кириллица проходит russian_stem, латиница - english_stem.
+ * Слова запроса дополняются нормальной формой Az.js (TextAnalysisService) - она находит
+ * формы, которые стеммер не сводит к одной основе (шёл / идти).
+ * Удалённые, скрытые модератором и удалённые пользователем для себя сообщения не находятся.
+ */
+
+import { Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+
+// Слов запроса учитывается не больше
+const MAX_QUERY_TERMS = 8
+
+// Маркеры найденных слов в ts_headline; в ответе превращаются в сегменты highlight
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_STOP = '\u0003'
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`
+
+const SEARCH_TERM_PATTERN = /^[\p{L}\p{N}]+$/u
+
+export interface ChatSearchParams {
+  query: string
+  roomId?: string
+  senderId?: string // участник - автор сообщения
+  from?: Date
+  to?: Date
+  sort?: 'relevance' | 'date'
+  page?: number
+  limit?: number
+}
+
+export interface ChatSearchHighlight {
+  text: string
+  match: boolean
+}
+
+export interface ChatSearchResultItem {
+  messageId: string
+  roomId: string
+  room: {
+    id: string
+    type: string
+    name: string | null
+    contactId: string | null // собеседник в личном диалоге
+  }
+  sender: { id: string; name: string | null; email: string | null }
+  createdAt: Date
+  highlight: ChatSearchHighlight[]
+  rank: number
+}
+
+export interface ChatSearchResult {
+  items: ChatSearchResultItem[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+interface SearchRow {
+  id: string
+  rank: number
+  headline: string
+}
+
+/**
+ * Слова запроса: буквы и цифры в нижнем регистре, без повторов
+ */
+export const extractSearchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])).slice(0, MAX_QUERY_TERMS)
+
+/**
+ * tsquery: все слова запроса (&), каждое - в исходной или нормальной форме (|)
+ */
+export const buildTsQuery = (terms: string[], lemmas: string[]): string =>
+  terms
+    .map((term, index) => {
+      const lemma = lemmas[index]?.toLowerCase()
+      const variants = lemma && lemma !== term && SEARCH_TERM_PATTERN.test(lemma) ? [term, lemma] : [term]
+
+      return variants.length > 1 ? `(${variants.join(' | ')})` : variants[0]
+    })
+    .join(' & ')
+
+/**
+ * Фрагменты ts_headline: найденные слова - сегменты с match = true
+ */
+export const parseHighlight = (headline: string): ChatSearchHighlight[] => {
+  const [head, ...parts] = headline.split(HIGHLIGHT_START)
+  const segments: ChatSearchHighlight[] = head ? [{ text: head, match: false }] : []
+
+  for (const part of parts) {
+    const [matched, rest] = part.split(HIGHLIGHT_STOP)
+
+    if (matched) segments.push({ text: matched, match: true })
+    if (rest) segments.push({ text: rest, match: false })
+  }
+
+  return segments
+}
+
+export class ChatSearchService {
+  private static instance: ChatSearchService
+
+  static getInstance(): ChatSearchService {
+    if (!ChatSearchService.instance) {
+      ChatSearchService.instance = new ChatSearchService()
+    }
+
+    return ChatSearchService.instance
+  }
+
+  async search(userId: string, params: ChatSearchParams): Promise<ChatSearchResult> {
+    const page = Math.max(1, Math.floor(params.page || 1))
+    const limit = Math.min(50, Math.max(1, Math.floor(params.limit || 20)))
+    const terms = extractSearchTerms(params.query)
+
+    if (terms.length === 0) {
+      return { items: [], total: 0, page, limit, totalPages: 0 }
+    }
+
+    // Az.js загружает словари при импорте модуля - откладываем до первого поиска
+    const { getTextAnalysisService } = await import('@/services/web-scraper/TextAnalysisService')
+    const lemmas = await getTextAnalysisService().lemmatizeWords(terms)
+    const tsQuery = buildTsQuery(terms, lemmas)
+
+    const conditions = [
+      Prisma.sql`m."searchVector" @@ q.query`,
+      Prisma.sql`m."deletedAt" IS NULL`,
+      Prisma.sql`m."hiddenAt" IS NULL`,
+      Prisma.sql`NOT EXISTS (SELECT 1 FROM "message_deletions" d WHERE d."messageId" = m."id" AND d."userId" = ${userId})`
+    ]
+
+    if (params.roomId) conditions.push(Prisma.sql`m."roomId" = ${params.roomId}`)
+    if (params.senderId) conditions.push(Prisma.sql`m."senderId" = ${params.senderId}`)
+    if (params.from) conditions.push(Prisma.sql`m."createdAt" >= ${params.from}`)
+    if (params.to) conditions.push(Prisma.sql`m."createdAt" <= ${params.to}`)
+
+    const source = Prisma.sql`
+      FROM "Message" m
+      JOIN "chat_room_members" rm ON rm."roomId" = m."roomId" AND rm."userId" = ${userId}
+      CROSS JOIN to_tsquery('russian', ${tsQuery}) AS q(query)
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    `
+
+    const orderBy = params.sort === 'date' ? Prisma.sql`m."createdAt" DESC` : Prisma.sql`rank DESC, m."createdAt" DESC`
+
+    const [rows, [{ count }]] = await Promise.all([
+      prisma.$queryRaw<SearchRow[]>`
+        SELECT m."id", ts_rank(m."searchVector", q.query) AS rank,
+          ts_headline('russian', m."content", q.query, ${HEADLINE_OPTIONS}) AS headline
+        ${source}
+        ORDER BY ${orderBy}
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      prisma.$queryRaw<[{ count: bigint }]>`SELECT COUNT(*) AS count ${source}`
+    ])
+
+    const messages = await prisma.message.findMany({
+      where: { id: { in: rows.map(row => row.id) } },
+      select: {
+        id: true,
+        roomId: true,
+        createdAt: true,
+        sender: { select: { id: true, name: true, email: true } },
+        room: { select: { id: true, type: true, name: true, user1Id: true, user2Id: true } }
+      }
+    })
+
+    const messagesById = new Map(messages.map(message => [message.id, message]))
+    const total = Number(count)
+
+    const items = rows.flatMap<ChatSearchResultItem>(row => {
+      const message = messagesById.get(row.id)
+
+      if (!message) return []
+
+      const { room } = message
+
+      return [
+        {
+          messageId: message.id,
+          roomId: message.roomId,
+          room: {
+            id: room.id,
+            type: room.type,
+            name: room.name,
+            contactId: room.type === 'direct' ? (room.user1Id === userId ? room.user2Id : room.user1Id) : null
+          },
+          sender: message.sender,
+          createdAt: message.createdAt,
+          highlight: parseHighlight(row.headline),
+          rank: Number(row.rank)
+        }
+      ]
+    })
+
+    return { items, total, page, limit, totalPages: Math.ceil(total / limit) }
+  }
+}
+
+export const chatSearchService = ChatSearchService.getInstance()
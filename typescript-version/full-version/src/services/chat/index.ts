@@ -0,0 +1,76 @@
+/**
+ * Chat Service Module
+ *
+ * Комнаты чата (direct и group), участники с ролями, курсоры прочтения.
+ * Сообщения: ответы, редактирование с историей, удаление, реакции.
+ * Вложения: медиа chat_attachment, доступные только участникам комнаты.
+ * Модерация: контент-фильтр, жалобы, очередь и действия модератора.
+ * Поиск: полнотекстовый по всем комнатам пользователя.
+ * Сводки: непрочитанные сообщения для участников не в сети по email, Telegram и SMS.
+ */
+
+export { chatRoomService, ChatRoomService, toChatRoomView, MUTED_FOREVER_UNTIL } from './ChatRoomService'
+export { chatMessageService, ChatMessageService, toChatMessageView, MAX_REACTIONS_PER_USER } from './ChatMessageService'
+export {
+  chatAttachmentService,
+  ChatAttachmentService,
+  toChatAttachmentView,
+  CHAT_ATTACHMENT_ENTITY_TYPE
+} from './ChatAttachmentService'
+export {
+  chatModerationService,
+  ChatModerationService,
+  evaluateContent,
+  CHAT_MUTE_MODULE,
+  CHAT_MODERATION_ERRORS,
+  DEFAULT_CHAT_MODERATION_SETTINGS
+} from './ChatModerationService'
+export { chatSearchService, ChatSearchService } from './ChatSearchService'
+export {
+  chatOfflineNotificationService,
+  ChatOfflineNotificationService,
+  buildOfflineDigest,
+  isRoomMuted,
+  DEFAULT_CHAT_OFFLINE_NOTIFICATION_SETTINGS
+} from './ChatOfflineNotificationService'
+
+export type {
+  ChatRoomResult,
+  ChatInviteResult,
+  ChatLeaveResult,
+  ChatReadResult,
+  ChatRoomUnread,
+  ChatRoomLastMessage
+} from './ChatRoomService'
+
+export type {
+  ChatMessageResult,
+  ChatMessageDeleteResult,
+  ChatReactionResult,
+  ChatMessagePage,
+  ChatMessageContext
+} from './ChatMessageService'
+
+export type { ChatAttachmentUploadResult, ChatAttachmentFile } from './ChatAttachmentService'
+
+export type {
+  ChatFilterAction,
+  ChatFilterRule,
+  ChatFilterVerdict,
+  ChatModerationSettings,
+  ChatModerationErrorCode,
+  ChatModerationResult,
+  ChatModerationQueueItem,
+  ChatReportResult,
+  ChatScreenResult
+} from './ChatModerationService'
+
+export type { ChatSearchParams, ChatSearchHighlight, ChatSearchResultItem, ChatSearchResult } from './ChatSearchService'
+
+export type {
+  ChatOfflineChannel,
+  ChatOfflineDigestCancelReason,
+  ChatOfflineNotificationSettings,
+  ChatOfflineDigestMessage,
+  ChatOfflineDigestContent
+} from './ChatOfflineNotificationService'
@@ -0,0 +1,495 @@
+/**
+ * ListingService - CRUD, поиск и модерация объявлений
+ *
+ * Статусы меняются только через ListingWorkflowService (XState),
+ * здесь - данные объявления, изображения и выборки.
+ */
+
+import type { Listing, Media, Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { eventService } from '@/services/events/EventService'
+import { getMediaService } from '@/services/media'
+import { getPresetForEntityType } from '@/services/media/presets'
+import { listingWorkflowService } from '@/services/workflows/ListingWorkflowService'
+import type { ListingState } from '@/services/workflows/machines/ListingMachine'
+import { getOptimalImageUrl } from '@/utils/media'
+
+import type {
+  CreateListingInput,
+  ListingContacts,
+  ListingImage,
+  ListingListParams,
+  ListingListResult,
+  ListingMutationResult,
+  ListingSearchParams,
+  ListingView,
+  UpdateListingInput
+} from './types'
+
+export const LISTING_IMAGE_ENTITY_TYPE = 'listing_image'
+
+// Состояния, в которых владелец может менять данные (кроме draft правка запускает EDIT)
+const EDITABLE_STATES: ListingState[] = ['draft', 'pending', 'active', 'rejected']
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+type ListingWithCategory = Listing & { category?: { id: string; name: string; slug: string } | null }
+
+const parseJson = <T>(value: string | null | undefined, fallback: T): T => {
+  if (!value) return fallback
+
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+// Поддерживает и старый формат images - массив URL без привязки к Media
+const parseImages = (value: string | null): ListingImage[] =>
+  parseJson<Array<ListingImage | string>>(value, []).map((image, position) =>
+    typeof image === 'string' ? { mediaId: '', url: image, thumbUrl: image, position } : image
+  )
+
+export const toListingView = (listing: ListingWithCategory): ListingView => ({
+  id: listing.id,
+  title: listing.title,
+  description: listing.description,
+  price: listing.price,
+  currency: listing.currency,
+  categoryId: listing.categoryId,
+  category: listing.category ? { id: listing.category.id, name: listing.category.name, slug: listing.category.slug } : null,
+  status: listing.status as ListingState,
+  ownerId: listing.ownerId,
+  moderatorId: listing.moderatorId,
+  moderatedAt: listing.moderatedAt,
+  rejectionReason: listing.rejectionReason,
+  images: parseImages(listing.images),
+  location: listing.location,
+  contacts: parseJson<ListingContacts>(listing.contacts, {}),
+  metadata: parseJson<Record<string, unknown>>(listing.metadata, {}),
+  viewsCount: listing.viewsCount,
+  publishedAt: listing.publishedAt,
+  createdAt: listing.createdAt,
+  updatedAt: listing.updatedAt
+})
+
+const categorySelect = { select: { id: true, name: true, slug: true } } as const
+
+const normalizePagination = (page?: number, limit?: number) => {
+  const take = Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const currentPage = Math.max(page ?? 1, 1)
+
+  return { take, skip: (currentPage - 1) * take, page: currentPage }
+}
+
+class ListingService {
+  private static instance: ListingService
+
+  static getInstance(): ListingService {
+    if (!ListingService.instance) {
+      ListingService.instance = new ListingService()
+    }
+
+    return ListingService.instance
+  }
+
+  /**
+   * Создать черновик объявления
+   */
+  async create(ownerId: string, input: CreateListingInput): Promise<ListingView> {
+    const listing = await prisma.listing.create({
+      data: {
+        title: input.title,
+        description: input.description,
+        price: input.price ?? null,
+        currency: input.currency || 'RUB',
+        categoryId: input.categoryId || null,
+        location: input.location || null,
+        contacts: JSON.stringify(input.contacts || {}),
+        metadata: JSON.stringify(input.metadata || {}),
+        status: 'draft',
+        ownerId
+      },
+      include: { category: categorySelect }
+    })
+
+    await eventService.record({
+      source: 'listings',
+      module: 'listings',
+      type: 'listing.created',
+      severity: 'info',
+      actor: { type: 'user', id: ownerId },
+      subject: { type: 'listing', id: listing.id },
+      message: `Создано объявление: ${listing.title}`,
+      payload: { listingId: listing.id, categoryId: listing.categoryId }
+    })
+
+    return toListingView(listing)
+  }
+
+  /**
+   * Получить объявление по ID
+   */
+  async getById(id: string): Promise<ListingView | null> {
+    const listing = await prisma.listing.findUnique({
+      where: { id },
+      include: { category: categorySelect }
+    })
+
+    return listing ? toListingView(listing) : null
+  }
+
+  /**
+   * Обновить объявление владельцем.
+   * Черновик меняется напрямую, для pending/active/rejected выполняется переход EDIT
+   * (active уходит на повторную модерацию, pending и rejected возвращаются в черновик).
+   */
+  async update(id: string, actorId: string, input: UpdateListingInput): Promise<ListingMutationResult> {
+    const existing = await prisma.listing.findUnique({ where: { id } })
+
+    if (!existing) {
+      return { success: false, error: 'Объявление не найдено' }
+    }
+
+    const status = existing.status as ListingState
+
+    if (!EDITABLE_STATES.includes(status)) {
+      return { success: false, error: `Объявление в статусе '${status}' нельзя редактировать` }
+    }
+
+    const data: Prisma.ListingUncheckedUpdateInput = {}
+
+    if (input.title !== undefined) data.title = input.title
+    if (input.description !== undefined) data.description = input.description
+    if (input.price !== undefined) data.price = input.price
+    if (input.currency !== undefined) data.currency = input.currency
+    if (input.categoryId !== undefined) data.categoryId = input.categoryId || null
+    if (input.location !== undefined) data.location = input.location || null
+    if (input.contacts !== undefined) data.contacts = JSON.stringify(input.contacts)
+    if (input.metadata !== undefined) data.metadata = JSON.stringify(input.metadata)
+
+    await prisma.listing.update({ where: { id }, data })
+
+    if (status !== 'draft') {
+      const transition = await listingWorkflowService.transition({
+        listingId: id,
+        event: 'EDIT',
+        actorId,
+        metadata: { changes: Object.keys(data) }
+      })
+
+      if (!transition.success) {
+        return { success: false, error: transition.error }
+      }
+    }
+
+    return { success: true, listing: (await this.getById(id)) ?? undefined }
+  }
+
+  /**
+   * Отправить черновик на модерацию
+   */
+  async submit(id: string, actorId: string): Promise<ListingMutationResult> {
+    const listing = await prisma.listing.findUnique({ where: { id } })
+
+    if (!listing) {
+      return { success: false, error: 'Объявление не найдено' }
+    }
+
+    if (!listing.categoryId) {
+      return { success: false, error: 'Перед отправкой на модерацию выберите категорию' }
+    }
+
+    const transition = await listingWorkflowService.transition({ listingId: id, event: 'SUBMIT', actorId })
+
+    if (!transition.success) {
+      return { success: false, error: transition.error }
+    }
+
+    return { success: true, listing: (await this.getById(id)) ?? undefined }
+  }
+
+  /**
+   * Одобрить или отклонить объявление из очереди модерации
+   */
+  async moderate(
+    id: string,
+    moderatorId: string,
+    action: 'approve' | 'reject',
+    reason?: string,
+    moderatorRole?: string
+  ): Promise<ListingMutationResult> {
+    const transition = await listingWorkflowService.transition({
+      listingId: id,
+      event: action === 'approve' ? 'APPROVE' : 'REJECT',
+      actorId: moderatorId,
+      actorRole: moderatorRole,
+      reason
+    })
+
+    if (!transition.success) {
+      return { success: false, error: transition.error }
+    }
+
+    return { success: true, listing: (await this.getById(id)) ?? undefined }
+  }
+
+  /**
+   * Публичный поиск по опубликованным объявлениям
+   */
+  async search(params: ListingSearchParams = {}): Promise<ListingListResult> {
+    const { take, skip, page } = normalizePagination(params.page, params.limit)
+    const categoryIds = await this.resolveCategoryIds(params)
+
+    // Несуществующая категория - пустой результат, а не весь каталог
+    if (categoryIds && categoryIds.length === 0) {
+      return { items: [], total: 0, page, limit: take, totalPages: 0 }
+    }
+
+    const where: Prisma.ListingWhereInput = {
+      status: 'active',
+      ...(categoryIds ? { categoryId: { in: categoryIds } } : {}),
+      ...(params.currency ? { currency: params.currency } : {}),
+      ...(params.location ? { location: { contains: params.location, mode: 'insensitive' } } : {}),
+      ...(params.minPrice !== undefined || params.maxPrice !== undefined
+        ? {
+            price: {
+              ...(params.minPrice !== undefined ? { gte: params.minPrice } : {}),
+              ...(params.maxPrice !== undefined ? { lte: params.maxPrice } : {})
+            }
+          }
+        : {}),
+      ...(params.q
+        ? {
+            OR: [
+              { title: { contains: params.q, mode: 'insensitive' } },
+              { description: { contains: params.q, mode: 'insensitive' } }
+            ]
+          }
+        : {})
+    }
+
+    const orderBy: Prisma.ListingOrderByWithRelationInput[] =
+      params.sort === 'price_asc'
+        ? [{ price: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }]
+        : params.sort === 'price_desc'
+          ? [{ price: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }]
+          : params.sort === 'oldest'
+            ? [{ publishedAt: 'asc' }, { id: 'asc' }]
+            : [{ publishedAt: 'desc' }, { id: 'desc' }]
+
+    const [listings, total] = await Promise.all([
+      prisma.listing.findMany({ where, orderBy, take, skip, include: { category: categorySelect } }),
+      prisma.listing.count({ where })
+    ])
+
+    return { items: listings.map(toListingView), total, page, limit: take, totalPages: Math.ceil(total / take) }
+  }
+
+  /**
+   * Список объявлений по владельцу и/или статусу (кабинет, модерация)
+   */
+  async list(params: ListingListParams = {}, order: 'newest' | 'oldest' = 'newest'): Promise<ListingListResult> {
+    const { take, skip, page } = normalizePagination(params.page, params.limit)
+
+    const where: Prisma.ListingWhereInput = {
+      ...(params.ownerId ? { ownerId: params.ownerId } : {}),
+      ...(params.status
+        ? { status: Array.isArray(params.status) ? { in: params.status } : params.status }
+        : { status: { not: 'deleted' } })
+    }
+
+    const [listings, total] = await Promise.all([
+      prisma.listing.findMany({
+        where,
+        orderBy: [{ updatedAt: order === 'newest' ? 'desc' : 'asc' }, { id: 'asc' }],
+        take,
+        skip,
+        include: { category: categorySelect }
+      }),
+      prisma.listing.count({ where })
+    ])
+
+    return { items: listings.map(toListingView), total, page, limit: take, totalPages: Math.ceil(total / take) }
+  }
+
+  /**
+   * Очередь модерации: pending, самые старые первыми, с данными владельца
+   */
+  async getModerationQueue(params: Pick<ListingListParams, 'page' | 'limit'> = {}) {
+    const result = await this.list({ ...params, status: 'pending' }, 'oldest')
+    const ownerIds = [...new Set(result.items.map(item => item.ownerId))]
+
+    const owners = ownerIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: ownerIds } },
+          select: { id: true, name: true, email: true, image: true }
+        })
+      : []
+
+    const ownersById = new Map(owners.map(owner => [owner.id, owner]))
+
+    return {
+      ...result,
+      items: result.items.map(item => ({ ...item, owner: ownersById.get(item.ownerId) ?? null }))
+    }
+  }
+
+  /**
+   * Увеличить счётчик просмотров
+   */
+  async incrementViews(id: string): Promise<void> {
+    await prisma.listing.update({ where: { id }, data: { viewsCount: { increment: 1 } } })
+  }
+
+  /**
+   * Активные категории для фильтров и формы
+   */
+  async getCategories() {
+    return prisma.listingCategory.findMany({
+      where: { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      select: { id: true, name: true, slug: true, parentId: true, icon: true }
+    })
+  }
+
+  /**
+   * Загрузить изображение объявления через MediaService
+   */
+  async uploadImage(
+    listingId: string,
+    file: File,
+    uploadedBy: string
+  ): Promise<{ success: boolean; media?: Media; images?: ListingImage[]; error?: string }> {
+    const limitError = await this.checkImageLimit(listingId)
+
+    if (limitError) return { success: false, error: limitError }
+
+    const mediaService = getMediaService()
+    const existing = await mediaService.getForEntity(LISTING_IMAGE_ENTITY_TYPE, listingId)
+
+    const result = await mediaService.upload(Buffer.from(await file.arrayBuffer()), file.name, file.type, {
+      entityType: LISTING_IMAGE_ENTITY_TYPE,
+      entityId: listingId,
+      uploadedBy,
+      position: existing.length
+    })
+
+    if (!result.success || !result.media) {
+      return { success: false, error: result.error || 'Не удалось загрузить изображение' }
+    }
+
+    return { success: true, media: result.media, images: await this.syncImages(listingId) }
+  }
+
+  /**
+   * Привязать уже загруженное медиа (entityType = listing_image) к объявлению
+   */
+  async attachMedia(
+    listingId: string,
+    mediaId: string,
+    uploadedBy: string
+  ): Promise<{ success: boolean; images?: ListingImage[]; error?: string }> {
+    const media = await prisma.media.findFirst({ where: { id: mediaId, deletedAt: null } })
+
+    if (!media) return { success: false, error: 'Медиа не найдено' }
+
+    if (media.entityType !== LISTING_IMAGE_ENTITY_TYPE) {
+      return { success: false, error: `Медиа должно быть загружено с типом ${LISTING_IMAGE_ENTITY_TYPE}` }
+    }
+
+    if (media.entityId === listingId) {
+      return { success: true, images: await this.syncImages(listingId) }
+    }
+
+    // Чужое или уже привязанное медиа не переносим
+    if (media.entityId || (media.uploadedBy && media.uploadedBy !== uploadedBy)) {
+      return { success: false, error: 'Медиа уже используется' }
+    }
+
+    const limitError = await this.checkImageLimit(listingId)
+
+    if (limitError) return { success: false, error: limitError }
+
+    const position = await prisma.media.count({
+      where: { entityType: LISTING_IMAGE_ENTITY_TYPE, entityId: listingId, deletedAt: null }
+    })
+
+    await getMediaService().update(mediaId, { entityId: listingId, position })
+
+    return { success: true, images: await this.syncImages(listingId) }
+  }
+
+  /**
+   * Удалить изображение объявления (soft delete медиа)
+   */
+  async detachMedia(listingId: string, mediaId: string): Promise<{ success: boolean; images?: ListingImage[]; error?: string }> {
+    const media = await prisma.media.findFirst({
+      where: { id: mediaId, entityType: LISTING_IMAGE_ENTITY_TYPE, entityId: listingId, deletedAt: null }
+    })
+
+    if (!media) return { success: false, error: 'Изображение не найдено' }
+
+    await getMediaService().delete(mediaId)
+
+    return { success: true, images: await this.syncImages(listingId) }
+  }
+
+  /**
+   * Пересобрать кэш Listing.images из привязанных Media
+   */
+  async syncImages(listingId: string): Promise<ListingImage[]> {
+    const [media, globalSettings] = await Promise.all([
+      getMediaService().getForEntity(LISTING_IMAGE_ENTITY_TYPE, listingId),
+      prisma.mediaGlobalSettings.findFirst({ select: { s3Enabled: true, s3PublicUrlPrefix: true } })
+    ])
+
+    const s3Prefix = globalSettings?.s3Enabled ? globalSettings.s3PublicUrlPrefix : null
+
+    const images: ListingImage[] = media.map((item, position) => ({
+      mediaId: item.id,
+      url: getOptimalImageUrl(item, 'large', s3Prefix),
+      thumbUrl: getOptimalImageUrl(item, 'thumb', s3Prefix),
+      position
+    }))
+
+    await prisma.listing.update({ where: { id: listingId }, data: { images: JSON.stringify(images) } })
+
+    return images
+  }
+
+  private async checkImageLimit(listingId: string): Promise<string | null> {
+    const maxFiles = getPresetForEntityType(LISTING_IMAGE_ENTITY_TYPE).maxFilesPerEntity
+
+    if (!maxFiles) return null
+
+    const count = await prisma.media.count({
+      where: { entityType: LISTING_IMAGE_ENTITY_TYPE, entityId: listingId, deletedAt: null }
+    })
+
+    return count >= maxFiles ? `Можно прикрепить не больше ${maxFiles} изображений` : null
+  }
+
+  /**
+   * ID категорий для фильтра: явный categoryId или slug вместе с дочерними категориями
+   */
+  private async resolveCategoryIds(params: ListingSearchParams): Promise<string[] | null> {
+    if (params.categoryId) return [params.categoryId]
+
+    if (!params.category) return null
+
+    const category = await prisma.listingCategory.findUnique({
+      where: { slug: params.category },
+      select: { id: true, children: { where: { isActive: true }, select: { id: true } } }
+    })
+
+    return category ? [category.id, ...category.children.map(child => child.id)] : []
+  }
+}
+
+// Экспорт singleton
+export const listingService = ListingService.getInstance()
+export { ListingService }
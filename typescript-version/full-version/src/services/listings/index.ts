@@ -0,0 +1,21 @@
+/**
+ * Listings Service Module
+ *
+ * Объявления: CRUD, изображения (Media listing_image), публичный поиск, очередь модерации.
+ * Переходы статусов - через ListingWorkflowService.
+ */
+
+export { listingService, ListingService, toListingView, LISTING_IMAGE_ENTITY_TYPE } from './ListingService'
+
+export type {
+  ListingContacts,
+  ListingImage,
+  ListingView,
+  CreateListingInput,
+  UpdateListingInput,
+  ListingSort,
+  ListingSearchParams,
+  ListingListParams,
+  ListingListResult,
+  ListingMutationResult
+} from './types'
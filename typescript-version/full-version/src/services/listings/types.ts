@@ -0,0 +1,98 @@
+/**
+ * Типы для Listing Service (объявления)
+ */
+
+import type { ListingState } from '@/services/workflows/machines/ListingMachine'
+
+// Контакты объявления
+export interface ListingContacts {
+  phone?: string
+  email?: string
+  telegram?: string
+}
+
+// Изображение объявления (Media с entityType = 'listing_image')
+export interface ListingImage {
+  mediaId: string
+  url: string
+  thumbUrl: string
+  position: number
+}
+
+// Объявление с распарсенными JSON-полями (для API и UI)
+export interface ListingView {
+  id: string
+  title: string
+  description: string
+  price: number | null
+  currency: string
+  categoryId: string | null
+  category: { id: string; name: string; slug: string } | null
+  status: ListingState
+  ownerId: string
+  moderatorId: string | null
+  moderatedAt: Date | null
+  rejectionReason: string | null
+  images: ListingImage[]
+  location: string | null
+  contacts: ListingContacts
+  metadata: Record<string, unknown>
+  viewsCount: number
+  publishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Данные создания объявления
+export interface CreateListingInput {
+  title: string
+  description: string
+  price?: number | null
+  currency?: string
+  categoryId?: string | null
+  location?: string | null
+  contacts?: ListingContacts
+  metadata?: Record<string, unknown>
+}
+
+// Данные обновления объявления
+export type UpdateListingInput = Partial<CreateListingInput>
+
+export type ListingSort = 'newest' | 'oldest' | 'price_asc' | 'price_desc'
+
+// Параметры публичного поиска
+export interface ListingSearchParams {
+  q?: string
+  categoryId?: string
+  category?: string // slug, включает дочерние категории
+  minPrice?: number
+  maxPrice?: number
+  currency?: string
+  location?: string
+  sort?: ListingSort
+  page?: number
+  limit?: number
+}
+
+// Параметры списка объявлений владельца / модерации
+export interface ListingListParams {
+  ownerId?: string
+  status?: ListingState | ListingState[]
+  page?: number
+  limit?: number
+}
+
+export interface ListingListResult {
+  items: ListingView[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+// Результат операции, зависящей от состояния объявления
+export interface ListingMutationResult {
+  success: boolean
+  listing?: ListingView
+  error?: string
+}
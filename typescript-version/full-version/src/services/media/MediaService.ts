@@ -5,7 +5,6 @@
  * @module services/media/MediaService
  */
 
-import path from 'path'
 import { nanoid } from 'nanoid'
 
 import type {
@@ -26,7 +25,7 @@ import type {
 import { getStorageService, StorageService } from './storage'
 import { getImageProcessingService, ImageProcessingService } from './ImageProcessingService'
 import { getWatermarkService, WatermarkService } from './WatermarkService'
-import { getPresetForEntityType, isMimeTypeAllowed, isFileSizeAllowed } from './presets'
+import { getExtensionForMimeType, getPresetForEntityType, isMimeTypeAllowed, isFileSizeAllowed } from './presets'
 import { mediaSyncQueue } from './queue/MediaSyncQueue'
 import { prisma } from '@/libs/prisma'
 import { eventService } from '@/services/events'
@@ -82,6 +81,11 @@ export class MediaService {
         }
       }
 
+      // Не изображения (документы, архивы) сохраняются как есть, без вариантов
+      if (!mimeType.startsWith('image/')) {
+        return await this.uploadFile(buffer, filename, mimeType, options)
+      }
+
       // Валидация изображения
       const isValid = await this.imageProcessingService.isValidImage(buffer)
       if (!isValid) {
@@ -107,7 +111,7 @@ export class MediaService {
           extension = '.jpg'
           break
         case 'original':
-          extension = path.extname(filename) || '.jpg'
+          extension = getExtensionForMimeType(mimeType) || '.jpg'
           break
         case 'webp':
         default:
@@ -128,32 +132,7 @@ export class MediaService {
       })
       
       // Строим путь в зависимости от настроек
-      let subPath = ''
-      
-      // 1. По типу сущности (если включено)
-      if (organizeByEntityType) {
-        subPath = options.entityType
-      }
-      
-      // 2. По организации пути
-      switch (pathOrganization) {
-        case 'date': {
-          const date = new Date()
-          const datePath = `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}`
-          subPath = subPath ? `${subPath}/${datePath}` : datePath
-          break
-        }
-        case 'hash': {
-          // Первые 4 символа slug разбиваем на 2 папки: ab/cd/
-          const hashPath = `${slug.slice(0, 2)}/${slug.slice(2, 4)}`
-          subPath = subPath ? `${subPath}/${hashPath}` : hashPath
-          break
-        }
-        case 'flat':
-        default:
-          // Без дополнительных папок
-          break
-      }
+      const subPath = this.buildSubPath(options.entityType, slug, pathOrganization, organizeByEntityType)
       
       const relativePath = subPath ? `${subPath}/${slug}${extension}` : `${slug}${extension}`
       
@@ -216,7 +195,8 @@ export class MediaService {
         originalVariant?.buffer || buffer,
         relativePath,
         originalVariant?.mimeType || mimeType,
-        preset.storageStrategy
+        preset.storageStrategy,
+        options.entityType
       )
 
       // Загружаем варианты
@@ -229,7 +209,8 @@ export class MediaService {
           variant.buffer,
           variantPath,
           variant.mimeType,
-          preset.storageStrategy
+          preset.storageStrategy,
+          options.entityType
         )
 
         mediaVariants[variant.name] = {
@@ -669,7 +650,8 @@ export class MediaService {
       watermarkedBuffer,
       media.localPath || media.s3Key!,
       media.mimeType,
-      media.storageStatus === 'synced' ? 'both' : media.storageStatus === 's3_only' ? 's3_only' : 'local_only'
+      media.storageStatus === 'synced' ? 'both' : media.storageStatus === 's3_only' ? 's3_only' : 'local_only',
+      media.entityType
     )
 
     // Обновляем запись
@@ -749,6 +731,123 @@ export class MediaService {
     }
   }
 
+  /**
+   * Загрузить файл без обработки (не изображение)
+   */
+  private async uploadFile(
+    buffer: Buffer,
+    filename: string,
+    mimeType: string,
+    options: UploadOptions
+  ): Promise<UploadResult> {
+    const globalSettings = await prisma.mediaGlobalSettings.findFirst()
+    const preset = getPresetForEntityType(options.entityType)
+
+    const slug = nanoid(12)
+    const extension = getExtensionForMimeType(mimeType)
+
+    const subPath = this.buildSubPath(
+      options.entityType,
+      slug,
+      globalSettings?.pathOrganization || 'date',
+      globalSettings?.organizeByEntityType ?? true
+    )
+
+    const relativePath = subPath ? `${subPath}/${slug}${extension}` : `${slug}${extension}`
+
+    const storageResult = await this.storageService.upload(
+      buffer,
+      relativePath,
+      mimeType,
+      preset.storageStrategy,
+      options.entityType
+    )
+
+    let storageStatus: StorageStatus = 'local_only'
+
+    if (storageResult.localPath && storageResult.s3Key) {
+      storageStatus = 'synced'
+    } else if (storageResult.s3Key && !storageResult.localPath) {
+      storageStatus = 's3_only'
+    }
+
+    const media = await prisma.media.create({
+      data: {
+        filename,
+        slug,
+        localPath: storageResult.localPath,
+        s3Key: storageResult.s3Key,
+        s3Bucket: storageResult.s3Key ? (await this.getS3Bucket()) : null,
+        storageStatus,
+        mimeType,
+        originalMimeType: mimeType,
+        size: buffer.length,
+        variants: '{}',
+        entityType: options.entityType,
+        entityId: options.entityId,
+        position: options.position ?? 0,
+        hasWatermark: false,
+        isProcessed: true,
+        processedAt: new Date(),
+        uploadedBy: options.uploadedBy,
+        alt: options.alt,
+        title: options.title,
+      },
+    })
+
+    logger.info('[MediaService] File uploaded without processing', {
+      mediaId: media.id,
+      entityType: options.entityType,
+      mimeType,
+      size: media.size,
+      storageStatus,
+    })
+
+    return {
+      success: true,
+      media,
+    }
+  }
+
+  /**
+   * Подпапка файла: тип сущности и организация пути из глобальных настроек
+   */
+  private buildSubPath(
+    entityType: string,
+    slug: string,
+    pathOrganization: string,
+    organizeByEntityType: boolean
+  ): string {
+    let subPath = ''
+
+    // 1. По типу сущности (если включено)
+    if (organizeByEntityType) {
+      subPath = entityType
+    }
+
+    // 2. По организации пути
+    switch (pathOrganization) {
+      case 'date': {
+        const date = new Date()
+        const datePath = `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}`
+
+        return subPath ? `${subPath}/${datePath}` : datePath
+      }
+
+      case 'hash': {
+        // Первые 4 символа slug разбиваем на 2 папки: ab/cd/
+        const hashPath = `${slug.slice(0, 2)}/${slug.slice(2, 4)}`
+
+        return subPath ? `${subPath}/${hashPath}` : hashPath
+      }
+
+      case 'flat':
+      default:
+        // Без дополнительных папок
+        return subPath
+    }
+  }
+
   /**
    * Получить настройки для типа сущности
    */
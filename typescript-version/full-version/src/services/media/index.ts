@@ -62,5 +62,7 @@ export {
   getVariantsForEntityType,
   isMimeTypeAllowed,
   isFileSizeAllowed,
+  isPrivateEntityType,
+  getExtensionForMimeType,
 } from './presets'
 
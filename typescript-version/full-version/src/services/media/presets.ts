@@ -176,6 +176,27 @@ export const IMAGE_PRESETS: Record<string, ImageSettingsInput> = {
     namingStrategy: 'uuid',
   },
 
+  chat_attachment: {
+    entityType: 'chat_attachment',
+    displayName: 'Вложение чата',
+    description: 'Изображения и файлы в сообщениях чата (доступны только участникам комнаты)',
+    maxFileSize: 20 * 1024 * 1024, // 20MB
+    maxFilesPerEntity: 10,
+
+    // Изображения получают превью, остальные файлы хранятся как есть
+    allowedMimeTypes: 'image/jpeg,image/png,image/webp,image/gif,application/pdf,text/plain,application/zip,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    variants: [
+      { name: 'thumb', width: 320, height: 320, fit: 'inside', quality: 80 },
+    ],
+    convertToWebP: true,
+    stripMetadata: true,
+    quality: 85,
+    watermarkEnabled: false,
+    storageStrategy: 'local_only',
+    privateUrlPrefix: '/api/chat/attachments', // Проверка членства в комнате сообщения
+    namingStrategy: 'uuid',
+  },
+
   other: {
     entityType: 'other',
     displayName: 'Прочие изображения',
@@ -272,6 +293,35 @@ export function isMimeTypeAllowed(entityType: string, mimeType: string): boolean
   return allowedTypes.includes(mimeType)
 }
 
+/**
+ * Хранятся ли файлы типа сущности в приватном хранилище (вне public/)
+ */
+export function isPrivateEntityType(entityType: string): boolean {
+  return !!getPresetForEntityType(entityType).privateUrlPrefix
+}
+
+// Расширение файла задаётся проверенным MIME-типом, а не именем файла от клиента
+const MIME_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/svg+xml': '.svg',
+  'image/x-icon': '.ico',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/zip': '.zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+}
+
+/**
+ * Получить расширение файла для MIME-типа (пустая строка, если тип неизвестен)
+ */
+export function getExtensionForMimeType(mimeType: string): string {
+  return MIME_TYPE_EXTENSIONS[mimeType] || ''
+}
+
 /**
  * Проверить, не превышен ли лимит размера файла
  */
@@ -18,17 +18,21 @@ import type {
   S3AdapterConfig 
 } from './types'
 import type { StorageStrategy, Media } from '../types'
+import { getPresetForEntityType, isPrivateEntityType } from '../presets'
 import { prisma } from '@/libs/prisma'
 import logger from '@/lib/logger'
 
 export interface StorageServiceConfig {
   local: LocalAdapterConfig
+  privateLocal?: LocalAdapterConfig // Приватные файлы вне public/ (по умолчанию storage/private)
   s3?: S3AdapterConfig
   defaultStrategy: StorageStrategy
 }
 
 export class StorageService {
   private localAdapter: LocalAdapter
+  private privateAdapter: LocalAdapter
+  private privateBasePath: string
   private s3Adapter?: S3Adapter
   private defaultStrategy: StorageStrategy
   private config: StorageServiceConfig
@@ -40,6 +44,10 @@ export class StorageService {
     // Инициализируем локальный адаптер
     this.localAdapter = new LocalAdapter(config.local)
     
+    // Хранилище для типов сущностей с privateUrlPrefix в пресете
+    this.privateBasePath = config.privateLocal?.basePath || path.join(process.cwd(), 'storage', 'private')
+    this.privateAdapter = new LocalAdapter({ basePath: this.privateBasePath, publicUrlPrefix: '' })
+    
     // Инициализируем S3 адаптер если конфиг предоставлен
     if (config.s3) {
       this.s3Adapter = new S3Adapter(config.s3)
@@ -59,6 +67,20 @@ export class StorageService {
     return this.localAdapter
   }
 
+  /**
+   * Локальный адаптер для типа сущности (приватные типы - вне public/)
+   */
+  private getLocalAdapter(entityType?: string | null): LocalAdapter {
+    return entityType && isPrivateEntityType(entityType) ? this.privateAdapter : this.localAdapter
+  }
+
+  /**
+   * Абсолютный путь локального хранилища для типа сущности
+   */
+  private getLocalBasePath(entityType?: string | null): string {
+    return entityType && isPrivateEntityType(entityType) ? this.privateBasePath : this.config.local.basePath
+  }
+
   /**
    * Проверить доступность S3
    */
@@ -68,17 +90,25 @@ export class StorageService {
 
   /**
    * Загрузить файл согласно стратегии
+   * Файлы приватных типов сущностей сохраняются только в приватное локальное хранилище
    */
   async upload(
     buffer: Buffer,
     relativePath: string,
     mimeType: string,
-    strategy?: StorageStrategy
+    strategy?: StorageStrategy,
+    entityType?: string
   ): Promise<{ localPath?: string; s3Key?: string }> {
     const effectiveStrategy = strategy || this.defaultStrategy
     const result: { localPath?: string; s3Key?: string } = {}
     
     try {
+      if (entityType && isPrivateEntityType(entityType)) {
+        result.localPath = await this.privateAdapter.upload(buffer, relativePath, mimeType)
+        
+        return result
+      }
+      
       switch (effectiveStrategy) {
         case 'local_only':
           result.localPath = await this.localAdapter.upload(buffer, relativePath, mimeType)
@@ -132,7 +162,7 @@ export class StorageService {
     // Пробуем сначала локально
     if (media.localPath) {
       try {
-        return await this.localAdapter.download(media.localPath)
+        return await this.getLocalAdapter(media.entityType).download(media.localPath)
       } catch (error) {
         logger.warn('[StorageService] Local download failed, trying S3', {
           mediaId: media.id,
@@ -155,10 +185,12 @@ export class StorageService {
   async delete(media: Media): Promise<void> {
     const errors: Error[] = []
     
+    const localAdapter = this.getLocalAdapter(media.entityType)
+    
     // Удаляем из локального хранилища
     if (media.localPath) {
       try {
-        await this.localAdapter.delete(media.localPath)
+        await localAdapter.delete(media.localPath)
       } catch (error) {
         errors.push(error as Error)
       }
@@ -179,7 +211,7 @@ export class StorageService {
       for (const variant of Object.values(variants) as any[]) {
         if (variant.localPath) {
           try {
-            await this.localAdapter.delete(variant.localPath)
+            await localAdapter.delete(variant.localPath)
           } catch (error) {
             errors.push(error as Error)
           }
@@ -218,6 +250,13 @@ export class StorageService {
       return `/api/admin/media/${media.id}/trash?variant=${variant}`
     }
     
+    // URL приватного файла - маршрут из пресета
+    const privateUrlPrefix = getPresetForEntityType(media.entityType).privateUrlPrefix
+
+    if (privateUrlPrefix) {
+      return variantName ? `${privateUrlPrefix}/${media.id}?variant=${variantName}` : `${privateUrlPrefix}/${media.id}`
+    }
+    
     // Если указан вариант, ищем его URL
     if (variantName && media.variants) {
       const variants = JSON.parse(media.variants)
@@ -267,6 +306,10 @@ export class StorageService {
    * Синхронизировать файл из Local в S3
    */
   async syncToS3(media: Media, deleteLocal: boolean = false): Promise<Media> {
+    if (isPrivateEntityType(media.entityType)) {
+      throw new Error('Private media is stored locally only')
+    }
+    
     if (!this.s3Adapter) {
       throw new Error('S3 not configured')
     }
@@ -350,6 +393,10 @@ export class StorageService {
    * Синхронизировать файл из S3 в Local
    */
   async syncFromS3(media: Media, deleteFromS3: boolean = false): Promise<Media> {
+    if (isPrivateEntityType(media.entityType)) {
+      throw new Error('Private media is stored locally only')
+    }
+    
     if (!this.s3Adapter) {
       throw new Error('S3 not configured')
     }
@@ -522,7 +569,7 @@ export class StorageService {
         // Есть локальный файл - перемещаем его
         const filename = media.localPath.split('/').pop() || 'file'
         const trashFilePath = path.join(trashDir, filename)
-        const sourceAbsPath = path.join(this.config.local.basePath, media.localPath)
+        const sourceAbsPath = path.join(this.getLocalBasePath(media.entityType), media.localPath)
         
         await this.localAdapter.reliableMove(sourceAbsPath, trashFilePath)
         trashPath = trashFilePath
@@ -564,7 +611,7 @@ export class StorageService {
           // Есть локальный вариант - перемещаем
           const variantFilename = variant.localPath.split('/').pop() || `${name}.webp`
           const variantTrashFilePath = path.join(trashDir, variantFilename)
-          const variantSourceAbsPath = path.join(this.config.local.basePath, variant.localPath)
+          const variantSourceAbsPath = path.join(this.getLocalBasePath(media.entityType), variant.localPath)
           
           await this.localAdapter.reliableMove(variantSourceAbsPath, variantTrashFilePath)
           trashVariants[name] = variantTrashFilePath
@@ -631,8 +678,10 @@ export class StorageService {
       
       // Очищаем пустые директории в uploads
       if (media.localPath) {
-        const uploadsDir = path.dirname(path.join(this.config.local.basePath, media.localPath))
-        await this.cleanupEmptyDirs(uploadsDir)
+        const basePath = this.getLocalBasePath(media.entityType)
+        const uploadsDir = path.dirname(path.join(basePath, media.localPath))
+
+        await this.cleanupEmptyDirs(uploadsDir, basePath)
       }
       
       return { trashPath, trashVariants }
@@ -673,10 +722,9 @@ export class StorageService {
   /**
    * Очистить пустые директории вверх по иерархии
    */
-  private async cleanupEmptyDirs(dirPath: string): Promise<void> {
+  private async cleanupEmptyDirs(dirPath: string, basePath: string = this.config.local.basePath): Promise<void> {
     const fs = await import('fs/promises')
     try {
-      const basePath = this.config.local.basePath
       if (dirPath === basePath || !dirPath.startsWith(basePath)) {
         return
       }
@@ -684,7 +732,7 @@ export class StorageService {
       const files = await fs.readdir(dirPath)
       if (files.length === 0) {
         await fs.rmdir(dirPath)
-        await this.cleanupEmptyDirs(path.dirname(dirPath))
+        await this.cleanupEmptyDirs(path.dirname(dirPath), basePath)
       }
     } catch {
       // Игнорируем ошибки
@@ -713,7 +761,7 @@ export class StorageService {
     try {
       // Восстанавливаем оригинал (trashPath - абсолютный путь)
       if (trashPath && originalPath) {
-        const destAbsPath = path.join(this.config.local.basePath, originalPath)
+        const destAbsPath = path.join(this.getLocalBasePath(media.entityType), originalPath)
         
         // Создаём директорию если нужно
         await fs.mkdir(path.dirname(destAbsPath), { recursive: true })
@@ -736,7 +784,7 @@ export class StorageService {
         for (const [name, trashVariantPath] of Object.entries(trashVariants) as [string, string][]) {
           const originalVariantPath = variantPaths[name]
           if (originalVariantPath) {
-            const destAbsPath = path.join(this.config.local.basePath, originalVariantPath)
+            const destAbsPath = path.join(this.getLocalBasePath(media.entityType), originalVariantPath)
             
             // Создаём директорию если нужно
             await fs.mkdir(path.dirname(destAbsPath), { recursive: true })
@@ -773,7 +821,7 @@ export class StorageService {
       })
       
       // Перезаливаем на S3 если доступен и удаляем локальные если нужно
-      if (this.s3Adapter && restoredLocalPath) {
+      if (this.s3Adapter && restoredLocalPath && !isPrivateEntityType(media.entityType)) {
         // Определяем нужно ли удалять локальные файлы после загрузки на S3
         const globalSettings = await prisma.mediaGlobalSettings.findFirst()
         const storageLocation = globalSettings?.storageLocation || 'local'
@@ -62,6 +62,7 @@ export type MediaEntityType =
   | 'site_logo'
   | 'watermark'
   | 'document'
+  | 'chat_attachment'
   | 'other'
 
 // ========================================
@@ -266,6 +267,7 @@ export interface ImageSettingsInput {
   watermarkScale?: number
   watermarkOnVariants?: string
   storageStrategy?: StorageStrategy
+  privateUrlPrefix?: string // Файлы хранятся вне public/ и отдаются только через этот API-маршрут
   s3Bucket?: string
   s3Prefix?: string
   namingStrategy?: NamingStrategy
@@ -0,0 +1,414 @@
+/**
+ * NotificationPreferenceService - пользовательские предпочтения уведомлений
+ *
+ * Предпочтения задаются по паре категория × канал (включено / дайджест),
+ * плюс общие настройки: тихие часы в часовом поясе пользователя и час дайджеста.
+ * Отложенные уведомления хранятся в deferred_notifications и отправляются
+ * NotificationDigestScheduler через flushDue().
+ */
+
+import type { DeferredNotification } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import logger from '@/lib/logger'
+import { notificationService } from './NotificationService'
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_PREFERENCE_CHANNELS } from './types'
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationChannelOptions,
+  NotificationChannelResult,
+  NotificationDelivery
+} from './types'
+
+export const DEFAULT_NOTIFICATION_CATEGORY: NotificationCategory = 'system'
+
+// Тихие часы переносят только "звонкие" каналы; email и in-app уведомления не будят пользователя
+export const QUIET_HOURS_CHANNELS: NotificationChannel[] = ['sms', 'telegram']
+
+const MINUTES_PER_DAY = 24 * 60
+const FLUSH_BATCH_SIZE = 500
+
+export interface NotificationSettingsView {
+  quietHoursEnabled: boolean
+  quietHoursStart: string
+  quietHoursEnd: string
+  timezone: string
+  digestHour: number
+}
+
+export interface NotificationPreferenceItem {
+  category: NotificationCategory
+  channel: NotificationChannel
+  enabled: boolean
+  delivery: NotificationDelivery
+}
+
+export interface NotificationPreferencesView {
+  settings: NotificationSettingsView
+  preferences: NotificationPreferenceItem[]
+}
+
+export interface NotificationPreferencesUpdate {
+  settings?: Partial<NotificationSettingsView>
+  preferences?: NotificationPreferenceItem[]
+}
+
+export type NotificationPreferenceDecision =
+  | { action: 'send' }
+  | { action: 'skip'; reason: 'disabled' }
+  | { action: 'defer'; reason: 'digest' | 'quiet_hours'; deliverAfter: Date }
+
+export interface NotificationDispatchOptions {
+  userId: string
+  category?: NotificationCategory
+  mandatory?: boolean // Обязательные (например, security) уведомления игнорируют предпочтения и тихие часы
+  at?: Date // Момент фактической отправки (для действий с задержкой)
+}
+
+export interface NotificationDispatchResult extends NotificationChannelResult {
+  status: 'sent' | 'skipped' | 'deferred'
+  deliverAfter?: Date
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettingsView = {
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'Europe/Moscow',
+  digestHour: 9
+}
+
+const parseTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number)
+
+  return hours * 60 + minutes
+}
+
+/**
+ * Минуты от начала суток в указанном часовом поясе
+ */
+export const getLocalMinutes = (date: Date, timeZone: string): number => {
+  let parts: Intl.DateTimeFormatPart[]
+
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(date)
+  } catch {
+    // Некорректная зона в БД не должна ломать отправку
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: DEFAULT_NOTIFICATION_SETTINGS.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date)
+  }
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0)
+
+  return value('hour') * 60 + value('minute')
+}
+
+// Сдвиг now на заданное число локальных минут, с округлением до начала минуты
+const addLocalMinutes = (now: Date, minutes: number): Date => {
+  const start = new Date(now)
+
+  start.setUTCSeconds(0, 0)
+
+  return new Date(start.getTime() + minutes * 60 * 1000)
+}
+
+/**
+ * Момент окончания тихих часов, если now попадает в окно; иначе null.
+ * Окно может переходить через полночь (22:00-08:00); start == end - окна нет.
+ */
+export const getQuietHoursEnd = (now: Date, settings: NotificationSettingsView): Date | null => {
+  if (!settings.quietHoursEnabled) {
+    return null
+  }
+
+  const start = parseTime(settings.quietHoursStart)
+  const end = parseTime(settings.quietHoursEnd)
+
+  if (start === end) {
+    return null
+  }
+
+  const current = getLocalMinutes(now, settings.timezone)
+  const inWindow = start < end ? current >= start && current < end : current >= start || current < end
+
+  if (!inWindow) {
+    return null
+  }
+
+  return addLocalMinutes(now, (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY)
+}
+
+/**
+ * Ближайший момент отправки дайджеста (digestHour:00 по часовому поясу пользователя)
+ */
+export const getNextDigestTime = (now: Date, settings: NotificationSettingsView): Date => {
+  const current = getLocalMinutes(now, settings.timezone)
+
+  return addLocalMinutes(now, (settings.digestHour * 60 - current + MINUTES_PER_DAY) % MINUTES_PER_DAY)
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Собрать одно сообщение-сводку из нескольких уведомлений канала
+ */
+const buildDigestOptions = (items: NotificationChannelOptions[]): NotificationChannelOptions => {
+  const [first] = items
+  const subject = `Сводка уведомлений (${items.length})`
+
+  const content =
+    first.channel === 'email'
+      ? `<ul>${items
+          .map(item => {
+            const title = item.subject ? `<strong>${escapeHtml(item.subject)}</strong><br/>` : ''
+
+            return `<li>${title}${item.content || ''}</li>`
+          })
+          .join('')}</ul>`
+      : items.map(item => [item.subject, item.content].filter(Boolean).join(': ')).join('\n')
+
+  return {
+    channel: first.channel,
+    to: first.to,
+    subject,
+    content,
+    metadata: { digest: true, count: items.length }
+  }
+}
+
+export class NotificationPreferenceService {
+  private static instance: NotificationPreferenceService
+
+  static getInstance(): NotificationPreferenceService {
+    if (!NotificationPreferenceService.instance) {
+      NotificationPreferenceService.instance = new NotificationPreferenceService()
+    }
+
+    return NotificationPreferenceService.instance
+  }
+
+  /**
+   * Настройки и полная матрица категория × канал (отсутствующие записи - значения по умолчанию)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferencesView> {
+    const [settings, stored] = await Promise.all([
+      prisma.notificationSettings.findUnique({ where: { userId } }),
+      prisma.notificationPreference.findMany({ where: { userId } })
+    ])
+
+    const preferences: NotificationPreferenceItem[] = []
+
+    for (const category of NOTIFICATION_CATEGORIES) {
+      for (const channel of NOTIFICATION_PREFERENCE_CHANNELS) {
+        const record = stored.find(item => item.category === category && item.channel === channel)
+
+        preferences.push({
+          category,
+          channel,
+          enabled: record ? record.enabled : true,
+          delivery: (record?.delivery as NotificationDelivery) || 'immediate'
+        })
+      }
+    }
+
+    return { settings: this.toSettingsView(settings), preferences }
+  }
+
+  /**
+   * Сохранить настройки и/или предпочтения (upsert по категории × каналу)
+   */
+  async updatePreferences(userId: string, update: NotificationPreferencesUpdate): Promise<NotificationPreferencesView> {
+    await prisma.$transaction([
+      ...(update.settings
+        ? [
+            prisma.notificationSettings.upsert({
+              where: { userId },
+              create: { userId, ...update.settings },
+              update: update.settings
+            })
+          ]
+        : []),
+      ...(update.preferences || []).map(item =>
+        prisma.notificationPreference.upsert({
+          where: { userId_category_channel: { userId, category: item.category, channel: item.channel } },
+          create: { userId, ...item },
+          update: { enabled: item.enabled, delivery: item.delivery }
+        })
+      )
+    ])
+
+    return this.getPreferences(userId)
+  }
+
+  /**
+   * Решение по доставке: отправить, пропустить (канал выключен) или отложить
+   */
+  async evaluate(
+    userId: string,
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    now: Date = new Date()
+  ): Promise<NotificationPreferenceDecision> {
+    const [settingsRecord, preference] = await Promise.all([
+      prisma.notificationSettings.findUnique({ where: { userId } }),
+      prisma.notificationPreference.findUnique({
+        where: { userId_category_channel: { userId, category, channel } }
+      })
+    ])
+
+    if (preference && !preference.enabled) {
+      return { action: 'skip', reason: 'disabled' }
+    }
+
+    const settings = this.toSettingsView(settingsRecord)
+
+    if (preference?.delivery === 'digest') {
+      return { action: 'defer', reason: 'digest', deliverAfter: getNextDigestTime(now, settings) }
+    }
+
+    if (QUIET_HOURS_CHANNELS.includes(channel)) {
+      const quietHoursEnd = getQuietHoursEnd(now, settings)
+
+      if (quietHoursEnd) {
+        return { action: 'defer', reason: 'quiet_hours', deliverAfter: quietHoursEnd }
+      }
+    }
+
+    return { action: 'send' }
+  }
+
+  /**
+   * Поставить уведомление в отложенную доставку
+   */
+  async defer(
+    userId: string,
+    category: NotificationCategory,
+    options: NotificationChannelOptions,
+    reason: 'digest' | 'quiet_hours',
+    deliverAfter: Date
+  ): Promise<DeferredNotification> {
+    return prisma.deferredNotification.create({
+      data: {
+        userId,
+        category,
+        channel: options.channel,
+        options: JSON.stringify(options),
+        reason,
+        deliverAfter
+      }
+    })
+  }
+
+  /**
+   * Отправить уведомление пользователю с учётом его предпочтений
+   */
+  async dispatch(
+    options: NotificationChannelOptions,
+    dispatchOptions: NotificationDispatchOptions
+  ): Promise<NotificationDispatchResult> {
+    const { userId, category = DEFAULT_NOTIFICATION_CATEGORY, mandatory, at } = dispatchOptions
+
+    if (!mandatory) {
+      const decision = await this.evaluate(userId, category, options.channel, at)
+
+      if (decision.action === 'skip') {
+        return { success: true, status: 'skipped', metadata: { reason: decision.reason } }
+      }
+
+      if (decision.action === 'defer') {
+        const deferred = await this.defer(userId, category, options, decision.reason, decision.deliverAfter)
+
+        return {
+          success: true,
+          status: 'deferred',
+          messageId: deferred.id,
+          deliverAfter: decision.deliverAfter,
+          metadata: { reason: decision.reason }
+        }
+      }
+    }
+
+    const result = await notificationService.send(options)
+
+    return { ...result, status: 'sent' }
+  }
+
+  /**
+   * Отправить наступившие отложенные уведомления.
+   * Дайджест объединяется в одно сообщение на пользователя и канал;
+   * перенесённые тихими часами и шаблонные (без content) уходят по одному.
+   * @returns количество обработанных записей
+   */
+  async flushDue(now: Date = new Date()): Promise<number> {
+    const due = await prisma.deferredNotification.findMany({
+      where: { sentAt: null, deliverAfter: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: FLUSH_BATCH_SIZE
+    })
+
+    if (due.length === 0) {
+      return 0
+    }
+
+    const batches = new Map<string, Array<{ id: string; options: NotificationChannelOptions }>>()
+
+    for (const item of due) {
+      let options: NotificationChannelOptions
+
+      try {
+        options = JSON.parse(item.options) as NotificationChannelOptions
+      } catch {
+        logger.warn('[NotificationPreferenceService] Invalid deferred notification', { id: item.id })
+        continue
+      }
+
+      const mergeable = item.reason === 'digest' && !!options.content
+      const key = mergeable ? `${item.userId}:${item.channel}` : item.id
+
+      batches.set(key, [...(batches.get(key) || []), { id: item.id, options }])
+    }
+
+    for (const batch of batches.values()) {
+      const options = batch.length > 1 ? buildDigestOptions(batch.map(item => item.options)) : batch[0].options
+      const result = await notificationService.send(options)
+
+      if (!result.success) {
+        // Повторной попытки нет: запись помечается отправленной, чтобы не слать сводку бесконечно
+        logger.error('[NotificationPreferenceService] Failed to deliver deferred notification', {
+          ids: batch.map(item => item.id),
+          channel: options.channel,
+          error: result.error
+        })
+      }
+    }
+
+    await prisma.deferredNotification.updateMany({
+      where: { id: { in: due.map(item => item.id) } },
+      data: { sentAt: now }
+    })
+
+    return due.length
+  }
+
+  private toSettingsView(record: NotificationSettingsView | null): NotificationSettingsView {
+    if (!record) {
+      return { ...DEFAULT_NOTIFICATION_SETTINGS }
+    }
+
+    return {
+      quietHoursEnabled: record.quietHoursEnabled,
+      quietHoursStart: record.quietHoursStart,
+      quietHoursEnd: record.quietHoursEnd,
+      timezone: record.timezone,
+      digestHour: record.digestHour
+    }
+  }
+}
+
+export const notificationPreferenceService = NotificationPreferenceService.getInstance()
@@ -24,6 +24,7 @@ interface NotificationJobData {
   options: NotificationChannelOptions
   attempts?: number
   maxAttempts?: number
+  backoffDelay?: number // База экспоненциальной задержки повторов in-memory очереди
 }
 
 interface InMemoryJob {
@@ -254,7 +255,7 @@ export class NotificationQueue {
               markNotificationSent(job.data.channel as any, 'error' as any)
             } else {
               // Retry через exponential backoff
-              const delay = Math.pow(2, job.attempts) * 2000
+              const delay = Math.pow(2, job.attempts) * (job.data.backoffDelay || 2000)
               job.scheduledAt = new Date(now.getTime() + delay)
               job.status = 'pending'
               markRetryAttempt(job.data.channel, job.attempts)
@@ -293,7 +294,7 @@ export class NotificationQueue {
               }
             })
           } else {
-            const delay = Math.pow(2, job.attempts) * 2000
+            const delay = Math.pow(2, job.attempts) * (job.data.backoffDelay || 2000)
             job.scheduledAt = new Date(now.getTime() + delay)
             job.status = 'pending'
             markRetryAttempt(job.data.channel, job.attempts)
@@ -363,6 +364,9 @@ export class NotificationQueue {
       }
     }
 
+    const maxAttempts = queueOptions?.attempts || 3
+    const backoffDelay = queueOptions?.backoff?.delay
+
     // Fallback: если Bull недоступен
     if (isImmediate) {
       // Немедленная отправка без очереди
@@ -370,7 +374,28 @@ export class NotificationQueue {
         channel: options.channel
       })
       try {
-        await notificationService.send(options)
+        const result = await notificationService.send(options)
+
+        // Неудачная первая попытка - повторы через in-memory очередь
+        if (!result.success && maxAttempts > 1) {
+          const retryDelay = 2 * (backoffDelay || 2000)
+
+          this.inMemoryQueue.push({
+            id: `inmem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            data: { channel: options.channel, options, maxAttempts, backoffDelay },
+            scheduledAt: new Date(Date.now() + retryDelay),
+            attempts: 1,
+            maxAttempts,
+            status: 'pending'
+          })
+          markRetryAttempt(options.channel, 1)
+          logger.warn('[NotificationQueue:InMemory] Immediate send failed, retry scheduled', {
+            channel: options.channel,
+            error: result.error,
+            delay: retryDelay
+          })
+        }
+
         return null
       } catch (error) {
         logger.error('[NotificationQueue] Immediate send failed', {
@@ -389,11 +414,12 @@ export class NotificationQueue {
         data: {
           channel: options.channel,
           options,
-          maxAttempts: queueOptions?.attempts || 3
+          maxAttempts,
+          backoffDelay
         },
         scheduledAt,
         attempts: 0,
-        maxAttempts: queueOptions?.attempts || 3,
+        maxAttempts,
         status: 'pending'
       }
 
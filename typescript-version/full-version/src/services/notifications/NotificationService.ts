@@ -6,6 +6,7 @@ import type {
 import { EmailChannel } from './channels/EmailChannel'
 import { SMSChannel } from './channels/SMSChannel'
 import { BrowserChannel } from './channels/BrowserChannel'
+import { WebhookChannel } from './channels/WebhookChannel'
 import logger from '@/lib/logger'
 
 /**
@@ -13,7 +14,7 @@ import logger from '@/lib/logger'
  */
 export class NotificationService {
   private static instance: NotificationService
-  private channels: Map<NotificationChannel, EmailChannel | SMSChannel | BrowserChannel>
+  private channels: Map<NotificationChannel, EmailChannel | SMSChannel | BrowserChannel | WebhookChannel>
 
   private constructor() {
     this.channels = new Map()
@@ -31,6 +32,7 @@ export class NotificationService {
     this.channels.set('email', new EmailChannel())
     this.channels.set('sms', new SMSChannel())
     this.channels.set('browser', new BrowserChannel())
+    this.channels.set('webhook', new WebhookChannel())
     
     // Импортируем TelegramChannel динамически, чтобы избежать ошибок при отсутствии настроек
     try {
@@ -0,0 +1,269 @@
+/**
+ * NotificationWebhookService - конечные точки канала webhook
+ *
+ * Ключ подписи выдаётся при создании и ротации (показывается один раз), в БД хранится
+ * зашифрованным. Тело запроса подписывается HMAC-SHA256 от `${timestamp}.${body}`;
+ * получатель проверяет подпись и отклоняет запросы со старым timestamp (защита от повтора).
+ * Каждая попытка доставки пишется в notification_webhook_deliveries.
+ */
+
+import crypto from 'crypto'
+
+import type { NotificationWebhook, NotificationWebhookDelivery } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { encrypt, safeDecrypt } from '@/lib/config/encryption'
+import type {
+  CreateNotificationWebhookInput,
+  UpdateNotificationWebhookInput
+} from '@/lib/validations/notification-webhook-schemas'
+import { eventService } from '@/services/events/EventService'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id'
+
+// Получатель отклоняет запросы, timestamp которых отличается от его часов больше чем на 5 минут
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60
+
+// Повторы через NotificationQueue с экспоненциальной задержкой от 30 сек
+export const WEBHOOK_MAX_ATTEMPTS = 5
+export const WEBHOOK_RETRY_DELAY_MS = 30 * 1000
+
+// Получатель action.to: все включённые конечные точки
+export const WEBHOOK_ALL_ENDPOINTS = '*'
+
+const DELIVERIES_DEFAULT_LIMIT = 50
+
+export interface NotificationWebhookView {
+  id: string
+  name: string
+  url: string
+  enabled: boolean
+  createdAt: Date
+  updatedAt: Date
+  lastDelivery: Pick<NotificationWebhookDelivery, 'success' | 'statusCode' | 'error' | 'createdAt'> | null
+}
+
+export interface NotificationWebhookSecretResult {
+  webhook: NotificationWebhookView
+  secret?: string // Только при создании и ротации
+}
+
+export interface WebhookEndpoint {
+  id: string
+  url: string
+  secret: string
+}
+
+export interface WebhookDeliveryAttempt {
+  webhookId: string
+  deliveryId: string
+  event: string
+  attempt: number
+  success: boolean
+  statusCode?: number
+  error?: string
+  durationMs: number
+}
+
+/**
+ * Подпись тела запроса: sha256=<hex HMAC-SHA256(secret, `${timestamp}.${body}`)>
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+/**
+ * Проверка входящего вебхука на стороне получателя (и в тестах)
+ */
+export const verifyWebhookSignature = (params: {
+  secret: string
+  body: string
+  timestamp: string | number
+  signature: string
+  now?: Date
+  toleranceSeconds?: number
+}): boolean => {
+  const timestamp = Number(params.timestamp)
+
+  if (!Number.isInteger(timestamp)) return false
+
+  const nowSeconds = Math.floor((params.now ?? new Date()).getTime() / 1000)
+
+  if (Math.abs(nowSeconds - timestamp) > (params.toleranceSeconds ?? WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS)) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(params.secret, timestamp, params.body))
+  const actual = Buffer.from(params.signature)
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+const generateSecret = (): string => `whsec_${crypto.randomBytes(32).toString('base64url')}`
+
+type WebhookWithLastDelivery = NotificationWebhook & { deliveries?: NotificationWebhookDelivery[] }
+
+const toView = (webhook: WebhookWithLastDelivery): NotificationWebhookView => {
+  const last = webhook.deliveries?.[0]
+
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    enabled: webhook.enabled,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+    lastDelivery: last
+      ? { success: last.success, statusCode: last.statusCode, error: last.error, createdAt: last.createdAt }
+      : null
+  }
+}
+
+const lastDeliveryInclude = { deliveries: { orderBy: { createdAt: 'desc' as const }, take: 1 } }
+
+export class NotificationWebhookService {
+  private static instance: NotificationWebhookService
+
+  static getInstance(): NotificationWebhookService {
+    if (!NotificationWebhookService.instance) {
+      NotificationWebhookService.instance = new NotificationWebhookService()
+    }
+
+    return NotificationWebhookService.instance
+  }
+
+  async list(): Promise<NotificationWebhookView[]> {
+    const webhooks = await prisma.notificationWebhook.findMany({
+      include: lastDeliveryInclude,
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return webhooks.map(toView)
+  }
+
+  async create(input: CreateNotificationWebhookInput, userId: string): Promise<NotificationWebhookSecretResult> {
+    const secret = generateSecret()
+
+    const webhook = await prisma.notificationWebhook.create({
+      data: {
+        name: input.name,
+        url: input.url,
+        enabled: input.enabled ?? true,
+        secret: encrypt(secret),
+        createdBy: userId
+      }
+    })
+
+    await this.recordEvent('created', webhook, userId)
+
+    return { webhook: toView(webhook), secret }
+  }
+
+  /**
+   * Обновить конечную точку; null - не найдена
+   */
+  async update(
+    id: string,
+    input: UpdateNotificationWebhookInput,
+    userId: string
+  ): Promise<NotificationWebhookSecretResult | null> {
+    const existing = await prisma.notificationWebhook.findUnique({ where: { id } })
+
+    if (!existing) return null
+
+    const secret = input.rotateSecret ? generateSecret() : undefined
+
+    const webhook = await prisma.notificationWebhook.update({
+      where: { id },
+      data: {
+        name: input.name,
+        url: input.url,
+        enabled: input.enabled,
+        ...(secret && { secret: encrypt(secret) })
+      },
+      include: lastDeliveryInclude
+    })
+
+    await this.recordEvent(secret ? 'secret_rotated' : 'updated', webhook, userId)
+
+    return { webhook: toView(webhook), secret }
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const existing = await prisma.notificationWebhook.findUnique({ where: { id } })
+
+    if (!existing) return false
+
+    await prisma.notificationWebhook.delete({ where: { id } })
+    await this.recordEvent('deleted', existing, userId)
+
+    return true
+  }
+
+  async getDeliveries(webhookId: string, limit = DELIVERIES_DEFAULT_LIMIT): Promise<NotificationWebhookDelivery[]> {
+    return prisma.notificationWebhookDelivery.findMany({
+      where: { webhookId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Включённые конечные точки по получателю действия: ID, список ID или WEBHOOK_ALL_ENDPOINTS
+   */
+  async resolveEndpoints(to: string | string[]): Promise<WebhookEndpoint[]> {
+    const ids = (Array.isArray(to) ? to : [to]).filter(Boolean)
+
+    if (ids.length === 0) return []
+
+    const webhooks = await prisma.notificationWebhook.findMany({
+      where: ids.includes(WEBHOOK_ALL_ENDPOINTS) ? { enabled: true } : { id: { in: ids }, enabled: true },
+      select: { id: true, url: true, secret: true }
+    })
+
+    return webhooks.map(webhook => ({ ...webhook, secret: safeDecrypt(webhook.secret) }))
+  }
+
+  /**
+   * Сколько попыток уже было у доставки на эту точку и доставлена ли она
+   */
+  async getAttemptState(deliveryId: string, webhookId: string): Promise<{ attempts: number; delivered: boolean }> {
+    const attempts = await prisma.notificationWebhookDelivery.findMany({
+      where: { deliveryId, webhookId },
+      select: { success: true }
+    })
+
+    return { attempts: attempts.length, delivered: attempts.some(attempt => attempt.success) }
+  }
+
+  async recordAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    await prisma.notificationWebhookDelivery.create({
+      data: {
+        webhookId: attempt.webhookId,
+        deliveryId: attempt.deliveryId,
+        event: attempt.event,
+        attempt: attempt.attempt,
+        success: attempt.success,
+        statusCode: attempt.statusCode ?? null,
+        error: attempt.error ?? null,
+        durationMs: attempt.durationMs
+      }
+    })
+  }
+
+  private async recordEvent(action: string, webhook: NotificationWebhook, userId: string): Promise<void> {
+    await eventService.record({
+      source: 'notifications',
+      module: 'notifications',
+      type: `notification_webhook.${action}`,
+      severity: 'info',
+      actor: { type: 'user', id: userId },
+      subject: { type: 'notification_webhook', id: webhook.id },
+      message: `Вебхук «${webhook.name}»: ${action}`,
+      payload: { webhookId: webhook.id, name: webhook.name, url: webhook.url, enabled: webhook.enabled }
+    })
+  }
+}
+
+export const notificationWebhookService = NotificationWebhookService.getInstance()
@@ -0,0 +1,172 @@
+import crypto from 'crypto'
+
+import { BaseNotificationChannel } from './BaseChannel'
+import type { NotificationChannelOptions, NotificationChannelResult } from '../types'
+import {
+  notificationWebhookService,
+  signWebhookPayload,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from '../NotificationWebhookService'
+import type { WebhookEndpoint } from '../NotificationWebhookService'
+
+const REQUEST_TIMEOUT_MS = 10 * 1000
+const ERROR_MAX_LENGTH = 500
+
+/**
+ * Канал для отправки уведомлений POST-запросом на настроенные конечные точки
+ *
+ * options.to - ID конечной точки, список ID или '*' (все включённые).
+ * options.metadata.deliveryId связывает повторы одной доставки: точки, уже принявшие
+ * её, при повторе пропускаются, а номер попытки считается по журналу доставок.
+ * Каждая попытка подписывается заново со свежим timestamp.
+ */
+export class WebhookChannel extends BaseNotificationChannel {
+  protected channelName = 'webhook' as const
+
+  // Содержимое необязательно: вебхук может передавать только данные события
+  validate(options: NotificationChannelOptions): { valid: boolean; error?: string } {
+    if (!options.to || (Array.isArray(options.to) && options.to.length === 0)) {
+      return { valid: false, error: 'Webhook endpoint (to) is required' }
+    }
+
+    if (options.channel !== this.channelName) {
+      return { valid: false, error: `Channel mismatch: expected ${this.channelName}, got ${options.channel}` }
+    }
+
+    return { valid: true }
+  }
+
+  async send(options: NotificationChannelOptions): Promise<NotificationChannelResult> {
+    const validation = this.validate(options)
+
+    if (!validation.valid) {
+      return { success: false, error: validation.error }
+    }
+
+    try {
+      const endpoints = await notificationWebhookService.resolveEndpoints(options.to)
+
+      if (endpoints.length === 0) {
+        return { success: false, error: 'No enabled webhook endpoints found' }
+      }
+
+      const { deliveryId: metadataDeliveryId, eventType, ...metadata } = options.metadata || {}
+      const deliveryId = typeof metadataDeliveryId === 'string' ? metadataDeliveryId : crypto.randomUUID()
+      const event = typeof eventType === 'string' ? eventType : 'notification'
+
+      const body = JSON.stringify({
+        id: deliveryId,
+        event,
+        createdAt: new Date().toISOString(),
+        subject: this.render(options.subject, options.variables),
+        content: this.render(options.content, options.variables),
+        variables: options.variables || {},
+        metadata
+      })
+
+      const results: Array<{ webhookId: string; success: boolean; skipped?: boolean; error?: string }> = []
+
+      for (const endpoint of endpoints) {
+        const state = await notificationWebhookService.getAttemptState(deliveryId, endpoint.id)
+
+        if (state.delivered) {
+          results.push({ webhookId: endpoint.id, success: true, skipped: true })
+          continue
+        }
+
+        const attempt = await this.deliver(endpoint, deliveryId, body)
+
+        await notificationWebhookService.recordAttempt({
+          webhookId: endpoint.id,
+          deliveryId,
+          event,
+          attempt: state.attempts + 1,
+          ...attempt
+        })
+
+        if (attempt.success) {
+          this.logInfo('Webhook delivered', { webhookId: endpoint.id, deliveryId, attempt: state.attempts + 1 })
+        } else {
+          this.logError('Webhook delivery failed', attempt.error, { webhookId: endpoint.id, deliveryId })
+        }
+
+        results.push({ webhookId: endpoint.id, success: attempt.success, error: attempt.error })
+      }
+
+      const failed = results.filter(result => !result.success)
+
+      return {
+        success: failed.length === 0,
+        messageId: deliveryId,
+        error: failed.length > 0 ? `${failed.length} webhook(s) failed: ${failed[0].error}` : undefined,
+        metadata: { total: results.length, failed: failed.length, results }
+      }
+    } catch (error) {
+      this.logError('Failed to send webhook notification', error, { to: options.to })
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Одна попытка: успех - любой ответ 2xx
+   */
+  private async deliver(
+    endpoint: WebhookEndpoint,
+    deliveryId: string,
+    body: string
+  ): Promise<{ success: boolean; statusCode?: number; error?: string; durationMs: number }> {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const startedAt = Date.now()
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_ID_HEADER]: deliveryId,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+
+      const durationMs = Date.now() - startedAt
+
+      if (response.ok) {
+        return { success: true, statusCode: response.status, durationMs }
+      }
+
+      const text = await response.text().catch(() => '')
+
+      return {
+        success: false,
+        statusCode: response.status,
+        error: `HTTP ${response.status}${text ? `: ${text.slice(0, ERROR_MAX_LENGTH)}` : ''}`,
+        durationMs
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startedAt
+      }
+    }
+  }
+
+  private render(template: string | undefined, variables?: Record<string, any>): string | undefined {
+    if (!template || !variables) return template
+
+    return Object.entries(variables).reduce(
+      (text, [key, value]) => text.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), String(value)),
+      template
+    )
+  }
+}
@@ -3,4 +3,5 @@ export { EmailChannel } from './EmailChannel'
 export { SMSChannel } from './SMSChannel'
 export { BrowserChannel } from './BrowserChannel'
 export { TelegramChannel } from './TelegramChannel'
+export { WebhookChannel } from './WebhookChannel'
 
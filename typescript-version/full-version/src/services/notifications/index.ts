@@ -5,6 +5,40 @@
 
 export { NotificationService, notificationService } from './NotificationService'
 export { NotificationQueue, notificationQueue } from './NotificationQueue'
+export {
+  NotificationWebhookService,
+  notificationWebhookService,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_ALL_ENDPOINTS,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAY_MS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS
+} from './NotificationWebhookService'
+export type {
+  NotificationWebhookView,
+  NotificationWebhookSecretResult,
+  WebhookEndpoint,
+  WebhookDeliveryAttempt
+} from './NotificationWebhookService'
+export {
+  NotificationPreferenceService,
+  notificationPreferenceService,
+  DEFAULT_NOTIFICATION_CATEGORY,
+  DEFAULT_NOTIFICATION_SETTINGS
+} from './NotificationPreferenceService'
+export type {
+  NotificationSettingsView,
+  NotificationPreferenceItem,
+  NotificationPreferencesView,
+  NotificationPreferencesUpdate,
+  NotificationPreferenceDecision,
+  NotificationDispatchOptions,
+  NotificationDispatchResult
+} from './NotificationPreferenceService'
 export * from './types'
 export * from './channels'
 export * from './scenarios'
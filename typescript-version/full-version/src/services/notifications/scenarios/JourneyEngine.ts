@@ -0,0 +1,487 @@
+import type { NotificationJourney, NotificationScenario as PrismaScenario } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { scenarioEngine } from './ScenarioEngine'
+import type {
+  ActionCondition,
+  ActionExecutionResult,
+  JourneyHistoryEntry,
+  JourneyStatus,
+  JourneyStep,
+  JourneyWaitStep,
+  ScenarioAction,
+  ScenarioExecutionContext,
+  ScenarioExecutionResult
+} from './types'
+import logger from '@/lib/logger'
+
+// Переход, завершающий путь
+export const JOURNEY_EXIT = 'exit'
+
+// Защита от зацикленных переходов: столько шагов путь может пройти без ожидания
+export const JOURNEY_MAX_STEPS_PER_RUN = 50
+
+const RESUME_BATCH_SIZE = 100
+const EXIT_INDEX = -1
+
+type JourneyWithScenario = NotificationJourney & { execution: { eventId: string | null; scenario: PrismaScenario } }
+
+/**
+ * Состояние одного запуска пути
+ */
+interface JourneyRun {
+  journey: NotificationJourney
+  scenario: PrismaScenario
+  eventId: string
+  steps: JourneyStep[]
+  context: ScenarioExecutionContext
+  history: JourneyHistoryEntry[]
+}
+
+/**
+ * Движок путей уведомлений - сценариев из последовательных шагов
+ *
+ * Путь проходит шаги до ожидания или до конца. На ожидании состояние сохраняется в
+ * notification_journeys, а NotificationJourneyScheduler продолжает путь, когда наступает
+ * waitUntil или в журнале событий появляется ожидаемое событие пользователя.
+ * Критерии выхода проверяются перед каждым шагом; данные пользователя перечитываются
+ * при каждом продолжении и перед ветвлением.
+ */
+export class JourneyEngine {
+  private static instance: JourneyEngine
+
+  private constructor() {}
+
+  static getInstance(): JourneyEngine {
+    if (!JourneyEngine.instance) {
+      JourneyEngine.instance = new JourneyEngine()
+    }
+
+    return JourneyEngine.instance
+  }
+
+  /**
+   * Начать путь для выполнения сценария
+   */
+  async start(
+    executionId: string,
+    scenario: PrismaScenario,
+    context: ScenarioExecutionContext
+  ): Promise<ScenarioExecutionResult> {
+    const journey = await prisma.notificationJourney.create({
+      data: {
+        executionId,
+        userId: context.user?.id ?? null,
+        status: 'active',
+        context: JSON.stringify(context)
+      }
+    })
+
+    await prisma.notificationExecution.update({
+      where: { id: executionId },
+      data: { status: 'processing', startedAt: new Date() }
+    })
+
+    logger.info('[JourneyEngine] Journey started', {
+      journeyId: journey.id,
+      scenarioId: scenario.id,
+      userId: journey.userId
+    })
+
+    return this.run(
+      { journey, scenario, eventId: context.event.id, steps: this.getSteps(scenario), context, history: [] },
+      0
+    )
+  }
+
+  /**
+   * Продолжить пути, дождавшиеся события или окончания ожидания.
+   * Возвращает количество продолженных путей.
+   */
+  async resumeDue(now: Date = new Date()): Promise<number> {
+    let resumed = 0
+
+    const waitingForEvent = await prisma.notificationJourney.findMany({
+      where: { status: 'waiting', waitingForEvent: { not: null }, userId: { not: null } },
+      include: { execution: { include: { scenario: true } } },
+      orderBy: { updatedAt: 'asc' },
+      take: RESUME_BATCH_SIZE
+    })
+
+    for (const journey of waitingForEvent) {
+      const event = await prisma.event.findFirst({
+        where: {
+          type: journey.waitingForEvent!,
+          createdAt: { gte: journey.waitStartedAt ?? journey.updatedAt },
+          OR: [
+            { actorType: 'user', actorId: journey.userId },
+            { subjectType: 'user', subjectId: journey.userId }
+          ]
+        },
+        select: { id: true }
+      })
+
+      if (event && (await this.resume(journey, 'event_received', now))) {
+        resumed++
+      }
+    }
+
+    const expired = await prisma.notificationJourney.findMany({
+      where: { status: 'waiting', waitUntil: { lte: now } },
+      include: { execution: { include: { scenario: true } } },
+      orderBy: { waitUntil: 'asc' },
+      take: RESUME_BATCH_SIZE
+    })
+
+    for (const journey of expired) {
+      if (await this.resume(journey, journey.waitingForEvent ? 'timeout' : 'resumed', now)) {
+        resumed++
+      }
+    }
+
+    return resumed
+  }
+
+  /**
+   * Продолжить путь с шага ожидания
+   */
+  private async resume(
+    journey: JourneyWithScenario,
+    outcome: 'resumed' | 'event_received' | 'timeout',
+    now: Date
+  ): Promise<boolean> {
+    // Захватываем путь: параллельный запуск планировщика не должен продолжить его повторно
+    const claimed = await prisma.notificationJourney.updateMany({
+      where: { id: journey.id, status: 'waiting' },
+      data: { status: 'active' }
+    })
+
+    if (claimed.count === 0) {
+      return false
+    }
+
+    const { scenario } = journey.execution
+
+    const state: JourneyRun = {
+      journey,
+      scenario,
+      eventId: journey.execution.eventId ?? '',
+      steps: this.getSteps(scenario),
+      context: this.parse<ScenarioExecutionContext>(journey.context, {
+        event: {} as ScenarioExecutionContext['event']
+      }),
+      history: this.parse<JourneyHistoryEntry[]>(journey.history, [])
+    }
+
+    if (!scenario.enabled) {
+      await this.finish(state, 'exited', 'Scenario disabled')
+
+      return true
+    }
+
+    const index = state.steps.findIndex(step => step.id === journey.currentStepId)
+    const step = state.steps[index]
+
+    if (!step) {
+      await this.finish(state, 'failed', `Journey step not found: ${journey.currentStepId}`)
+
+      return true
+    }
+
+    state.history.push({ stepId: step.id, type: step.type, outcome, at: now.toISOString() })
+
+    // По событию путь идёт по next, по тайм-ауту - по onTimeout
+    const target = outcome === 'timeout' && step.type === 'wait_for_event' ? step.onTimeout : step.next
+
+    try {
+      await this.run(state, this.resolveTarget(target, state.steps, index))
+    } catch (error) {
+      await this.finish(state, 'failed', error instanceof Error ? error.message : 'Unknown error')
+    }
+
+    return true
+  }
+
+  /**
+   * Пройти шаги начиная с index до ожидания или конца пути
+   */
+  private async run(state: JourneyRun, startIndex: number): Promise<ScenarioExecutionResult> {
+    const { steps, context, history } = state
+
+    const exitConditions = scenarioEngine.parseJson<ActionCondition[]>(
+      state.scenario.exitConditions,
+      state.scenario.id,
+      'exitConditions'
+    )
+
+    let index = startIndex
+
+    try {
+      await this.refreshUser(context)
+
+      for (let executed = 0; index >= 0 && index < steps.length; executed++) {
+        if (executed >= JOURNEY_MAX_STEPS_PER_RUN) {
+          throw new Error(`Journey exceeded ${JOURNEY_MAX_STEPS_PER_RUN} steps without waiting`)
+        }
+
+        const step = steps[index]
+        const at = new Date().toISOString()
+
+        if (
+          exitConditions &&
+          exitConditions.length > 0 &&
+          scenarioEngine.checkActionConditions(exitConditions, context)
+        ) {
+          history.push({ stepId: step.id, type: 'exit_conditions', outcome: 'exited', at })
+
+          return this.finish(state, 'exited', 'Exit conditions met', index)
+        }
+
+        switch (step.type) {
+          case 'notify': {
+            const result = await this.notify(step.action, context, index)
+
+            history.push({ stepId: step.id, type: step.type, outcome: result.success ? 'sent' : 'failed', at, result })
+            index = this.resolveTarget(step.next, steps, index)
+            break
+          }
+
+          case 'wait': {
+            const waitUntil = this.resolveWaitUntil(step, context)
+
+            if (waitUntil && waitUntil.getTime() > Date.now()) {
+              return this.wait(state, index, waitUntil, null)
+            }
+
+            history.push({ stepId: step.id, type: step.type, outcome: 'resumed', at })
+            index = this.resolveTarget(step.next, steps, index)
+            break
+          }
+
+          case 'wait_for_event': {
+            const timeoutAt = step.timeout && step.timeout > 0 ? new Date(Date.now() + step.timeout) : null
+
+            return this.wait(state, index, timeoutAt, step.eventType)
+          }
+
+          case 'branch': {
+            await this.refreshUser(context)
+
+            const matched = scenarioEngine.checkActionConditions(step.conditions || [], context)
+
+            history.push({ stepId: step.id, type: step.type, outcome: matched ? 'then' : 'else', at })
+            index = this.resolveTarget(matched ? step.then : step.else, steps, index)
+            break
+          }
+
+          case 'exit':
+            history.push({ stepId: step.id, type: step.type, outcome: 'exited', at })
+
+            return this.finish(state, 'exited', step.reason || 'Exit step', index)
+
+          default:
+            throw new Error(`Unknown journey step type: ${(step as JourneyStep).type}`)
+        }
+      }
+
+      return index === EXIT_INDEX ? this.finish(state, 'exited', 'Exit transition') : this.finish(state, 'completed')
+    } catch (error) {
+      logger.error('[JourneyEngine] Journey failed', {
+        journeyId: state.journey.id,
+        scenarioId: state.scenario.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return this.finish(state, 'failed', error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  /**
+   * Шаг notify: ошибка действия не прерывает путь, как и в обычном сценарии
+   */
+  private async notify(
+    action: ScenarioAction,
+    context: ScenarioExecutionContext,
+    index: number
+  ): Promise<ActionExecutionResult> {
+    try {
+      return await scenarioEngine.executeAction(action, context, index)
+    } catch (error) {
+      return {
+        success: false,
+        actionIndex: index,
+        channel: action.channel,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Сохранить путь в ожидании
+   */
+  private async wait(
+    state: JourneyRun,
+    index: number,
+    waitUntil: Date | null,
+    waitingForEvent: string | null
+  ): Promise<ScenarioExecutionResult> {
+    const step = state.steps[index]
+
+    state.history.push({ stepId: step.id, type: step.type, outcome: 'waiting', at: new Date().toISOString() })
+
+    await prisma.notificationJourney.update({
+      where: { id: state.journey.id },
+      data: {
+        status: 'waiting',
+        currentStep: index,
+        currentStepId: step.id,
+        waitUntil,
+        waitingForEvent,
+        waitStartedAt: new Date(),
+        context: JSON.stringify(state.context),
+        history: JSON.stringify(state.history)
+      }
+    })
+
+    const actions = this.actionResults(state.history)
+
+    await prisma.notificationExecution.update({
+      where: { id: state.journey.executionId },
+      data: { status: 'processing', scheduledAt: waitUntil, result: JSON.stringify(actions) }
+    })
+
+    return {
+      scenarioId: state.scenario.id,
+      eventId: state.eventId,
+      status: 'processing',
+      actions,
+      journeyId: state.journey.id
+    }
+  }
+
+  /**
+   * Завершить путь и выполнение сценария
+   */
+  private async finish(
+    state: JourneyRun,
+    status: Exclude<JourneyStatus, 'active' | 'waiting'>,
+    reason?: string,
+    index?: number
+  ): Promise<ScenarioExecutionResult> {
+    const completedAt = new Date()
+    const actions = this.actionResults(state.history)
+    const failed = status === 'failed' || actions.some(action => !action.success)
+    const step = index !== undefined ? state.steps[index] : undefined
+
+    await prisma.notificationJourney.update({
+      where: { id: state.journey.id },
+      data: {
+        status,
+        ...(step && { currentStep: index, currentStepId: step.id }),
+        waitUntil: null,
+        waitingForEvent: null,
+        context: JSON.stringify(state.context),
+        history: JSON.stringify(state.history),
+        exitReason: reason ?? null,
+        completedAt
+      }
+    })
+
+    const error = status === 'failed' ? reason : failed ? 'Some journey actions failed' : null
+
+    await prisma.notificationExecution.update({
+      where: { id: state.journey.executionId },
+      data: {
+        status: failed ? 'failed' : 'completed',
+        result: JSON.stringify(actions),
+        error,
+        scheduledAt: null,
+        completedAt
+      }
+    })
+
+    logger.info('[JourneyEngine] Journey finished', {
+      journeyId: state.journey.id,
+      status,
+      reason
+    })
+
+    return {
+      scenarioId: state.scenario.id,
+      eventId: state.eventId,
+      status: failed ? 'failed' : 'completed',
+      actions,
+      journeyId: state.journey.id,
+      error: error ?? undefined,
+      completedAt
+    }
+  }
+
+  /**
+   * Индекс шага по переходу: без перехода - следующий по порядку, 'exit' - конец пути
+   */
+  private resolveTarget(target: string | undefined, steps: JourneyStep[], index: number): number {
+    if (!target) {
+      return index + 1
+    }
+
+    if (target === JOURNEY_EXIT) {
+      return EXIT_INDEX
+    }
+
+    const targetIndex = steps.findIndex(step => step.id === target)
+
+    if (targetIndex === -1) {
+      throw new Error(`Journey step not found: ${target}`)
+    }
+
+    return targetIndex
+  }
+
+  /**
+   * Момент окончания ожидания: дата из контекста (untilField) или сейчас + duration
+   */
+  private resolveWaitUntil(step: JourneyWaitStep, context: ScenarioExecutionContext): Date | null {
+    if (step.untilField) {
+      const value = scenarioEngine.getFieldValue(step.untilField, context)
+      const until = value ? new Date(value) : null
+
+      if (until && !Number.isNaN(until.getTime())) {
+        return until
+      }
+    }
+
+    return step.duration && step.duration > 0 ? new Date(Date.now() + step.duration) : null
+  }
+
+  private async refreshUser(context: ScenarioExecutionContext): Promise<void> {
+    if (!context.user?.id) {
+      return
+    }
+
+    const user = await scenarioEngine.loadUser(context.user.id)
+
+    if (user) {
+      context.user = user
+    }
+  }
+
+  private actionResults(history: JourneyHistoryEntry[]): ActionExecutionResult[] {
+    return history.flatMap(entry => (entry.result ? [entry.result] : []))
+  }
+
+  private getSteps(scenario: PrismaScenario): JourneyStep[] {
+    return scenarioEngine.parseJson<JourneyStep[]>(scenario.steps, scenario.id, 'steps') || []
+  }
+
+  private parse<T>(value: string, fallback: T): T {
+    try {
+      return JSON.parse(value) as T
+    } catch {
+      return fallback
+    }
+  }
+}
+
+// Экспорт singleton экземпляра
+export const journeyEngine = JourneyEngine.getInstance()
@@ -1,15 +1,22 @@
+import crypto from 'crypto'
+
 import type { NotificationScenario as PrismaScenario } from '@prisma/client'
 import { prisma } from '@/libs/prisma'
 import { notificationService } from '../NotificationService'
 import { notificationQueue } from '../NotificationQueue'
+import { notificationPreferenceService, DEFAULT_NOTIFICATION_CATEGORY } from '../NotificationPreferenceService'
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_DELAY_MS } from '../NotificationWebhookService'
+import type { NotificationChannelOptions } from '../types'
 import type {
   ScenarioExecutionContext,
   ScenarioAction,
   ActionCondition,
   ScenarioConditions,
   ActionExecutionResult,
-  ScenarioExecutionResult
+  ScenarioExecutionResult,
+  JourneyStep
 } from './types'
+import { journeyEngine } from './JourneyEngine'
 import logger from '@/lib/logger'
 
 /**
@@ -68,35 +75,20 @@ export class ScenarioEngine {
 
       // Загружаем пользователя, если нужно
       if (context.event.actorId && context.event.actorType === 'user') {
-        try {
-          const user = await prisma.user.findUnique({
-            where: { id: context.event.actorId },
-            select: {
-              id: true,
-              email: true,
-              phone: true,
-              role: true,
-              emailVerified: true,
-              phoneVerified: true
-            }
-          })
-          if (user) {
-            context.user = {
-              id: user.id,
-              email: user.email || undefined,
-              phone: user.phone || undefined,
-              role: typeof user.role === 'string' ? user.role : (user.role as any)?.name || undefined,
-              status: user.emailVerified && user.phoneVerified ? 'verified' : 'unverified'
-            }
-          }
-        } catch (error) {
-          logger.warn('[ScenarioEngine] Failed to load user', {
-            userId: context.event.actorId,
-            error: error instanceof Error ? error.message : String(error)
-          })
+        const user = await this.loadUser(context.event.actorId)
+
+        if (user) {
+          context.user = user
         }
       }
 
+      // Сценарий с шагами выполняется как путь: состояние хранится в notification_journeys
+      const steps = this.parseJson<JourneyStep[]>(scenario.steps, scenario.id, 'steps')
+
+      if (steps && steps.length > 0) {
+        return journeyEngine.start(executionId, scenario, context)
+      }
+
       // Выполняем действия
       let actions: ScenarioAction[]
       try {
@@ -163,9 +155,9 @@ export class ScenarioEngine {
   }
 
   /**
-   * Выполнить действие
+   * Выполнить действие (также шаг notify пути)
    */
-  private async executeAction(
+  async executeAction(
     action: ScenarioAction,
     context: ScenarioExecutionContext,
     index: number
@@ -199,7 +191,7 @@ export class ScenarioEngine {
     const variables = this.resolveVariables(action, context)
 
     // Подготавливаем опции для отправки
-    const options = {
+    const options: NotificationChannelOptions = {
       channel: action.channel,
       to,
       templateId: action.templateId,
@@ -208,6 +200,89 @@ export class ScenarioEngine {
       variables
     }
 
+    // Вебхук получает событие целиком; deliveryId общий для всех повторов
+    if (action.channel === 'webhook') {
+      const { event } = context
+
+      options.metadata = {
+        deliveryId: crypto.randomUUID(),
+        eventType: event.type,
+        event: {
+          id: event.id,
+          source: event.source,
+          type: event.type,
+          module: event.module,
+          severity: event.severity,
+          subjectType: event.subjectType,
+          subjectId: event.subjectId,
+          payload: event.payload
+        }
+      }
+    }
+
+    // Предпочтения получателя: выключенный канал пропускается, дайджест и тихие часы откладывают отправку
+    const recipientUserId = this.resolveRecipientUserId(action, context)
+
+    if (recipientUserId && !action.mandatory) {
+      const category = action.category || DEFAULT_NOTIFICATION_CATEGORY
+      const sendAt = new Date(Date.now() + (action.delay && action.delay > 0 ? action.delay : 0))
+      const decision = await notificationPreferenceService.evaluate(recipientUserId, category, action.channel, sendAt)
+
+      if (decision.action === 'skip') {
+        return {
+          success: true,
+          actionIndex: index,
+          channel: action.channel,
+          metadata: {
+            skipped: true,
+            reason: decision.reason
+          }
+        }
+      }
+
+      if (decision.action === 'defer') {
+        const deferred = await notificationPreferenceService.defer(
+          recipientUserId,
+          category,
+          options,
+          decision.reason,
+          decision.deliverAfter
+        )
+
+        return {
+          success: true,
+          actionIndex: index,
+          channel: action.channel,
+          messageId: deferred.id,
+          metadata: {
+            deferred: true,
+            reason: decision.reason,
+            deliverAfter: decision.deliverAfter.toISOString()
+          }
+        }
+      }
+    }
+
+    // Вебхуки всегда через очередь: неудачная доставка повторяется с экспоненциальной задержкой
+    if (action.channel === 'webhook') {
+      const job = await notificationQueue.add(options, {
+        delay: action.delay && action.delay > 0 ? action.delay : 0,
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: { type: 'exponential', delay: WEBHOOK_RETRY_DELAY_MS }
+      })
+
+      return {
+        success: true,
+        actionIndex: index,
+        channel: action.channel,
+        messageId: options.metadata?.deliveryId,
+        metadata: {
+          queued: true,
+          jobId: job && 'id' in job ? job.id.toString() : undefined
+        }
+      }
+    }
+
     // Если есть задержка, добавляем в очередь
     if (action.delay && action.delay > 0) {
       const job = await notificationQueue.add(options, {
@@ -273,9 +348,9 @@ export class ScenarioEngine {
   }
 
   /**
-   * Проверить условия действия
+   * Проверить условия действия (также ветвления и критерии выхода пути)
    */
-  private checkActionConditions(
+  checkActionConditions(
     conditions: ActionCondition[],
     context: ScenarioExecutionContext
   ): boolean {
@@ -320,10 +395,72 @@ export class ScenarioEngine {
     }
   }
 
+  /**
+   * Загрузить пользователя для контекста сценария.
+   * Путь вызывает повторно перед ветвлением, чтобы условия видели свежие данные.
+   */
+  async loadUser(userId: string): Promise<ScenarioExecutionContext['user'] | undefined> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          phone: true,
+          role: true,
+          emailVerified: true,
+          phoneVerified: true
+        }
+      })
+
+      if (!user) {
+        return undefined
+      }
+
+      return {
+        id: user.id,
+        email: user.email || undefined,
+        phone: user.phone || undefined,
+        role: typeof user.role === 'string' ? user.role : (user.role as any)?.name || undefined,
+        status: user.emailVerified && user.phoneVerified ? 'verified' : 'unverified',
+        emailVerified: Boolean(user.emailVerified),
+        phoneVerified: Boolean(user.phoneVerified)
+      }
+    } catch (error) {
+      logger.warn('[ScenarioEngine] Failed to load user', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return undefined
+    }
+  }
+
+  /**
+   * Разобрать JSON-поле сценария; null - поле пустое или некорректное
+   */
+  parseJson<T>(value: string | null | undefined, scenarioId: string, field: string): T | null {
+    if (!value) {
+      return null
+    }
+
+    try {
+      return JSON.parse(value) as T
+    } catch (e) {
+      logger.warn('[ScenarioEngine] Failed to parse scenario field', {
+        scenarioId,
+        field,
+        error: e instanceof Error ? e.message : String(e)
+      })
+
+      return null
+    }
+  }
+
   /**
    * Получить значение поля из контекста
    */
-  private getFieldValue(field: string, context: ScenarioExecutionContext): any {
+  getFieldValue(field: string, context: ScenarioExecutionContext): any {
     const parts = field.split('.')
     let value: any = context
 
@@ -374,6 +511,25 @@ export class ScenarioEngine {
     return undefined
   }
 
+  /**
+   * ID пользователя-получателя, если уведомление адресовано пользователю события.
+   * Явный получатель (to или поле вне user.*) - не пользователь, его предпочтения не применяются.
+   */
+  private resolveRecipientUserId(
+    action: ScenarioAction,
+    context: ScenarioExecutionContext
+  ): string | undefined {
+    if (action.to || !context.user) {
+      return undefined
+    }
+
+    if (action.toField && this.getFieldValue(action.toField, context) && !action.toField.startsWith('user.')) {
+      return undefined
+    }
+
+    return context.user.id
+  }
+
   /**
    * Разрешить переменные для шаблона
    */
@@ -35,6 +35,8 @@ export class ScenarioService {
           actions: JSON.stringify(config.actions),
           conditions: config.conditions ? JSON.stringify(config.conditions) : null,
           priority: config.priority || 0,
+          steps: config.steps?.length ? JSON.stringify(config.steps) : null,
+          exitConditions: config.exitConditions?.length ? JSON.stringify(config.exitConditions) : null,
           createdBy
         }
       })
@@ -68,6 +70,8 @@ export class ScenarioService {
       if (config.actions !== undefined) updateData.actions = JSON.stringify(config.actions)
       if (config.conditions !== undefined) updateData.conditions = config.conditions ? JSON.stringify(config.conditions) : null
       if (config.priority !== undefined) updateData.priority = config.priority
+      if (config.steps !== undefined) updateData.steps = config.steps?.length ? JSON.stringify(config.steps) : null
+      if (config.exitConditions !== undefined) updateData.exitConditions = config.exitConditions?.length ? JSON.stringify(config.exitConditions) : null
 
       const scenario = await prisma.notificationScenario.update({
         where: { id },
@@ -4,6 +4,7 @@
 
 export { NotificationEventHandlers, notificationEventHandlers } from './EventHandlers'
 export { ScenarioEngine, scenarioEngine } from './ScenarioEngine'
+export { JourneyEngine, journeyEngine, JOURNEY_EXIT } from './JourneyEngine'
 export { ScenarioService, scenarioService } from './ScenarioService'
 export * from './types'
 
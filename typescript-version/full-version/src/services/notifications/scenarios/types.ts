@@ -2,7 +2,7 @@
  * Типы для модуля сценариев уведомлений
  */
 
-import type { NotificationChannel } from '../types'
+import type { NotificationCategory, NotificationChannel } from '../types'
 
 /**
  * Конфигурация триггера события
@@ -30,7 +30,7 @@ export interface TriggerCondition {
 export interface ScenarioAction {
   type: 'notification' // Пока только уведомления, можно расширить
   channel: NotificationChannel
-  to?: string | string[] // Получатель (может быть из события)
+  to?: string | string[] // Получатель (может быть из события); для webhook - ID конечной точки или '*'
   toField?: string // Путь к полю в payload события (например: 'user.email')
   templateId?: string
   subject?: string
@@ -40,6 +40,8 @@ export interface ScenarioAction {
   delay?: number // Задержка в миллисекундах
   conditions?: ActionCondition[] // Условия выполнения действия
   priority?: number // Приоритет действия
+  category?: NotificationCategory // Категория для предпочтений пользователя (по умолчанию 'system')
+  mandatory?: boolean // Обязательное уведомление: игнорирует предпочтения и тихие часы
 }
 
 /**
@@ -60,6 +62,67 @@ export interface ScenarioConditions {
   custom?: ActionCondition[] // Кастомные условия
 }
 
+/**
+ * Шаг пути (journey) - многошагового сценария.
+ * Переходы (next, then, else, onTimeout) указывают ID шага или 'exit';
+ * без перехода выполняется следующий шаг по порядку.
+ */
+interface JourneyStepBase {
+  id: string
+  name?: string
+  next?: string
+}
+
+export interface JourneyNotifyStep extends JourneyStepBase {
+  type: 'notify'
+  action: ScenarioAction
+}
+
+export interface JourneyWaitStep extends JourneyStepBase {
+  type: 'wait'
+  duration?: number // Пауза в миллисекундах
+  untilField?: string // Путь к дате в контексте (например: 'event.payload.trialEndsAt'), приоритетнее duration
+}
+
+export interface JourneyWaitForEventStep extends JourneyStepBase {
+  type: 'wait_for_event'
+  eventType: string // Событие пользователя (actor или subject), например 'user.email_verified'
+  timeout?: number // Максимальное ожидание в миллисекундах; без него ждём бессрочно
+  onTimeout?: string // Переход по тайм-ауту; next - переход по событию
+}
+
+export interface JourneyBranchStep extends JourneyStepBase {
+  type: 'branch'
+  conditions: ActionCondition[] // Проверяются по свежим данным пользователя
+  then?: string // Условия выполнены
+  else?: string // Условия не выполнены
+}
+
+export interface JourneyExitStep extends JourneyStepBase {
+  type: 'exit'
+  reason?: string
+}
+
+export type JourneyStep =
+  | JourneyNotifyStep
+  | JourneyWaitStep
+  | JourneyWaitForEventStep
+  | JourneyBranchStep
+  | JourneyExitStep
+
+export type JourneyStatus = 'active' | 'waiting' | 'completed' | 'exited' | 'failed'
+
+/**
+ * Запись истории пути
+ */
+export interface JourneyHistoryEntry {
+  stepId: string
+  type: JourneyStep['type'] | 'exit_conditions'
+  outcome: string // 'sent' | 'failed' | 'waiting' | 'resumed' | 'event_received' | 'timeout' | 'then' | 'else' | 'exited'
+  at: string
+  result?: ActionExecutionResult
+}
+
 /**
  * Полная конфигурация сценария
  */
@@ -71,6 +134,8 @@ export interface NotificationScenarioConfig {
   actions: ScenarioAction[]
   conditions?: ScenarioConditions
   priority?: number
+  steps?: JourneyStep[] | null // Если заданы - сценарий выполняется как путь вместо actions
+  exitConditions?: ActionCondition[] | null // Путь завершается, как только все условия выполнены
 }
 
 /**
@@ -121,6 +186,7 @@ export interface ScenarioExecutionResult {
   eventId: string
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   actions: ActionExecutionResult[]
+  journeyId?: string // Для сценариев с шагами
   error?: string
   startedAt?: Date
   completedAt?: Date
@@ -2,7 +2,21 @@
  * Типы для модуля уведомлений
  */
 
-export type NotificationChannel = 'email' | 'sms' | 'browser' | 'telegram'
+export type NotificationChannel = 'email' | 'sms' | 'browser' | 'telegram' | 'webhook'
+
+/**
+ * Категории уведомлений для пользовательских предпочтений (категория × канал)
+ */
+export const NOTIFICATION_CATEGORIES = ['security', 'account', 'chat', 'listings', 'marketing', 'system'] as const
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number]
+
+export const NOTIFICATION_PREFERENCE_CHANNELS = ['email', 'sms', 'browser', 'telegram'] as const satisfies readonly NotificationChannel[]
+
+/**
+ * immediate - сразу (с учётом тихих часов), digest - в ежедневной сводке
+ */
+export type NotificationDelivery = 'immediate' | 'digest'
 
 export interface NotificationChannelOptions {
   channel: NotificationChannel
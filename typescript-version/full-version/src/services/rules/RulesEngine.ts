@@ -8,7 +8,8 @@
  * - Добавление кастомных операторов и фактов
  */
 
-import { Engine, Rule, Almanac, RuleResult as JREResult } from 'json-rules-engine'
+import { Engine, Rule } from 'json-rules-engine'
+import type { Almanac, EngineOptions, RuleResult as JRERuleResult } from 'json-rules-engine'
 
 import type {
   RuleDefinition,
@@ -17,17 +18,25 @@ import type {
   RuleResult,
   AsyncFact,
   CustomOperator,
-  RuleConditions,
-  RuleEvent
+  ConditionTraceGroup,
+  ConditionTraceNode
 } from './types'
 
+// Результат выполнения с трассировкой условий (для dry-run)
+export interface RulesTraceResult {
+  events: RuleResult[]
+  rules: Array<{ name: string; matched: boolean; trace: ConditionTraceGroup }>
+  duration: number
+  error?: string
+}
+
 class RulesEngine {
   private engine: Engine
   private customOperators: Map<string, CustomOperator> = new Map()
   private asyncFacts: Map<string, AsyncFact> = new Map()
 
-  constructor() {
-    this.engine = new Engine()
+  constructor(private options?: EngineOptions) {
+    this.engine = new Engine([], options)
     this.registerDefaultOperators()
   }
 
@@ -181,7 +190,7 @@ class RulesEngine {
    */
   clearRules(): void {
     // Создаём новый движок с сохранением операторов
-    this.engine = new Engine()
+    this.engine = new Engine([], this.options)
 
     // Перерегистрируем операторы
     this.customOperators.forEach(operator => {
@@ -206,18 +215,11 @@ class RulesEngine {
       const result = await this.engine.run(facts)
       const duration = Date.now() - startTime
 
-      const events: RuleResult[] = result.events.map((e: JREResult['event']) => ({
-        type: e!.type,
-        params: (e!.params || {}) as Record<string, unknown>,
-        ruleName: e!.type
-      }))
+      // Имя правила берём из results: по нему RulesService находит правило для записи выполнения
+      const events: RuleResult[] = (result.results || []).map(toRuleResult)
 
       // failureEvents доступны для отладки
-      const failureEvents: RuleResult[] = (result.failureEvents || []).map((e: JREResult['event']) => ({
-        type: e!.type,
-        params: (e!.params || {}) as Record<string, unknown>,
-        ruleName: e!.type
-      }))
+      const failureEvents: RuleResult[] = (result.failureResults || []).map(toRuleResult)
 
       return {
         events,
@@ -239,6 +241,36 @@ class RulesEngine {
     }
   }
 
+  /**
+   * Выполнить правила и вернуть дерево условий с результатами (для dry-run)
+   */
+  async trace(facts: RuleFacts): Promise<RulesTraceResult> {
+    const startTime = Date.now()
+
+    try {
+      const result = await this.engine.run(facts)
+      const ruleResults = [...(result.results || []), ...(result.failureResults || [])]
+
+      // json-rules-engine не проставляет result корневой группе - берём итог правила
+      return {
+        events: (result.results || []).map(toRuleResult),
+        rules: ruleResults.map(ruleResult => ({
+          name: ruleResult.name,
+          matched: Boolean(ruleResult.result),
+          trace: withGroupResults(ruleResult.toJSON(false).conditions as ConditionTraceGroup)
+        })),
+        duration: Date.now() - startTime
+      }
+    } catch (error) {
+      return {
+        events: [],
+        rules: [],
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
   /**
    * Получить количество загруженных правил
    */
@@ -254,6 +286,33 @@ class RulesEngine {
   }
 }
 
+function toRuleResult(ruleResult: JRERuleResult): RuleResult {
+  return {
+    type: ruleResult.event?.type ?? ruleResult.name,
+    params: (ruleResult.event?.params || {}) as Record<string, unknown>,
+    ruleName: ruleResult.name
+  }
+}
+
+/**
+ * json-rules-engine проставляет result только простым условиям - досчитываем результат групп.
+ * Условия, пропущенные из-за короткого замыкания, остаются без result.
+ */
+function withGroupResults(group: ConditionTraceGroup): ConditionTraceGroup {
+  const mapNode = (node: ConditionTraceNode): ConditionTraceNode =>
+    'all' in node || 'any' in node ? withGroupResults(node as ConditionTraceGroup) : node
+
+  if (group.all) {
+    const all = group.all.map(mapNode)
+
+    return { ...group, all, result: all.every(node => node.result === true) }
+  }
+
+  const any = (group.any || []).map(mapNode)
+
+  return { ...group, any, result: any.some(node => node.result === true) }
+}
+
 // Экспорт singleton
 let rulesEngineInstance: RulesEngine | null = null
 
@@ -13,6 +13,7 @@ import { eventService } from '@/services/events/EventService'
 
 import { getRulesEngine, RulesEngine } from './RulesEngine'
 import { asyncFacts } from './facts'
+import { customOperators } from './operators'
 import type {
   RuleCategory,
   RuleFacts,
@@ -24,9 +25,44 @@ import type {
   EvaluateOptions,
   TestRuleResult,
   RuleConditions,
-  RuleEvent
+  RuleEvent,
+  RuleExecutionData,
+  RuleExecutionStats
 } from './types'
 
+/**
+ * Правило с распарсенными conditions/event (для API и UI)
+ */
+export type BusinessRuleView = Omit<BusinessRuleData, 'conditions' | 'event'> & {
+  conditions: RuleConditions | null
+  event: RuleEvent | null
+}
+
+const parseJsonSafe = <T>(value: string | null | undefined): T | null => {
+  if (!value) return null
+
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+export const toBusinessRuleView = (rule: BusinessRuleData): BusinessRuleView => ({
+  ...rule,
+  conditions: parseJsonSafe<RuleConditions>(rule.conditions),
+  event: parseJsonSafe<RuleEvent>(rule.event)
+})
+
+/**
+ * Выполнение правила с распарсенными facts/result (для API и UI)
+ */
+export const toRuleExecutionView = <T extends RuleExecutionData>(execution: T) => ({
+  ...execution,
+  facts: parseJsonSafe<RuleFacts>(execution.facts) ?? {},
+  result: parseJsonSafe<unknown>(execution.result)
+})
+
 // Кэш правил в памяти
 interface RulesCache {
   rules: Map<string, BusinessRuleData>
@@ -46,6 +82,7 @@ class RulesService {
   constructor() {
     this.engine = getRulesEngine()
     this.registerFacts()
+    this.registerOperators()
   }
 
   /**
@@ -57,6 +94,15 @@ class RulesService {
     }
   }
 
+  /**
+   * Зарегистрировать кастомные операторы (between, olderThanDays, timeOfDay)
+   */
+  private registerOperators(): void {
+    for (const operator of customOperators) {
+      this.engine.addOperator(operator)
+    }
+  }
+
   /**
    * Singleton instance
    */
@@ -365,41 +411,135 @@ class RulesService {
       }
     }
 
+    return this.testRuleDefinition(
+      {
+        name: rule.name,
+        category: rule.category as RuleCategory,
+        conditions: JSON.parse(rule.conditions) as RuleConditions,
+        event: JSON.parse(rule.event) as RuleEvent,
+        priority: rule.priority
+      },
+      facts
+    )
+  }
+
+  /**
+   * Dry-run несохранённого правила: только переданные факты, без async фактов и записи в БД.
+   * Отсутствующий факт не считается ошибкой - условие с ним просто не выполняется.
+   */
+  async testRuleDefinition(definition: RuleDefinition, facts: RuleFacts): Promise<TestRuleResult> {
     // Создать временный движок для теста
-    const testEngine = new RulesEngine()
-
-    testEngine.addRule({
-      name: rule.name,
-      category: rule.category as RuleCategory,
-      conditions: JSON.parse(rule.conditions) as RuleConditions,
-      event: JSON.parse(rule.event) as RuleEvent,
-      priority: rule.priority
-    })
+    const testEngine = new RulesEngine({ allowUndefinedFacts: true })
 
-    const startTime = Date.now()
-    const result = await testEngine.evaluate(facts)
-    const duration = Date.now() - startTime
+    for (const operator of customOperators) {
+      testEngine.addOperator(operator)
+    }
+
+    testEngine.addRule(definition)
+
+    const result = await testEngine.trace(facts)
+    const ruleTrace = result.rules.find(rule => rule.name === definition.name)
 
     return {
       matched: result.events.length > 0,
       events: result.events,
       facts,
-      duration
+      duration: result.duration,
+      trace: ruleTrace?.trace,
+      ...(result.error ? { error: result.error } : {})
     }
   }
 
+  /**
+   * Получить историю выполнений правил (курсорная пагинация)
+   */
+  async getExecutions(options: {
+    ruleId?: string
+    success?: boolean
+    limit?: number
+    cursor?: string
+  } = {}): Promise<{ items: Array<RuleExecutionData & { rule: { id: string; name: string } }>; nextCursor?: string }> {
+    const take = Math.min(Math.max(options.limit ?? 20, 1), 100)
+
+    const executions = await prisma.ruleExecution.findMany({
+      where: {
+        ...(options.ruleId ? { ruleId: options.ruleId } : {}),
+        ...(options.success !== undefined ? { success: options.success } : {})
+      },
+      include: { rule: { select: { id: true, name: true } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take + 1,
+      ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {})
+    })
+
+    const hasMore = executions.length > take
+    const items = hasMore ? executions.slice(0, take) : executions
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : undefined
+    }
+  }
+
+  /**
+   * Статистика выполнения по каждому правилу за период
+   */
+  async getExecutionStatsByRule(days: number = 7): Promise<Record<string, RuleExecutionStats>> {
+    const since = new Date()
+
+    since.setDate(since.getDate() - days)
+
+    const groups = await prisma.ruleExecution.groupBy({
+      by: ['ruleId', 'success'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true },
+      _sum: { duration: true },
+      _max: { createdAt: true }
+    })
+
+    const stats: Record<string, RuleExecutionStats & { totalDuration: number }> = {}
+
+    for (const group of groups) {
+      const entry = (stats[group.ruleId] ??= {
+        total: 0,
+        success: 0,
+        failed: 0,
+        avgDuration: 0,
+        lastExecutedAt: null,
+        totalDuration: 0
+      })
+
+      const count = group._count._all
+
+      entry.total += count
+      entry.totalDuration += group._sum.duration ?? 0
+
+      if (group.success) {
+        entry.success += count
+      } else {
+        entry.failed += count
+      }
+
+      if (group._max.createdAt && (!entry.lastExecutedAt || group._max.createdAt > entry.lastExecutedAt)) {
+        entry.lastExecutedAt = group._max.createdAt
+      }
+    }
+
+    return Object.fromEntries(
+      Object.entries(stats).map(([ruleId, { totalDuration, ...entry }]) => [
+        ruleId,
+        { ...entry, avgDuration: entry.total > 0 ? totalDuration / entry.total : 0 }
+      ])
+    )
+  }
+
   /**
    * Получить статистику выполнения правил
    */
   async getExecutionStats(
     ruleId?: string,
     days: number = 7
-  ): Promise<{
-    total: number
-    success: number
-    failed: number
-    avgDuration: number
-  }> {
+  ): Promise<RuleExecutionStats> {
     const since = new Date()
     since.setDate(since.getDate() - days)
 
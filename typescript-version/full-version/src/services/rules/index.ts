@@ -9,7 +9,8 @@
  * - Модерация
  */
 
-export { rulesService, RulesService } from './RulesService'
+export { rulesService, RulesService, toBusinessRuleView, toRuleExecutionView } from './RulesService'
+export type { BusinessRuleView } from './RulesService'
 export { getRulesEngine, RulesEngine } from './RulesEngine'
 export { eventRulesHandler, EventRulesHandler } from './EventRulesHandler'
 export { asyncFacts } from './facts'
@@ -35,6 +36,10 @@ export type {
   UpdateRuleInput,
   AsyncFact,
   CustomOperator,
-  TestRuleResult
+  TestRuleResult,
+  ConditionTraceNode,
+  ConditionTraceGroup,
+  RuleExecutionData,
+  RuleExecutionStats
 } from './types'
 
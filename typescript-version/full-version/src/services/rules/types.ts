@@ -20,6 +20,11 @@ export type ConditionOperator =
   | 'startsWith'
   | 'endsWith'
   | 'matches'
+  | 'isEmpty'
+  | 'hasProperty'
+  | 'between'
+  | 'olderThanDays'
+  | 'timeOfDay'
 
 // Базовое условие
 export interface RuleCondition {
@@ -138,12 +143,51 @@ export interface CustomOperator {
   validator: (factValue: unknown, jsonValue: unknown) => boolean
 }
 
+// Условие с результатом проверки (dry-run)
+export interface ConditionTraceLeaf extends RuleCondition {
+  result?: boolean
+  factResult?: unknown
+}
+
+// Группа условий с результатом проверки (dry-run)
+export interface ConditionTraceGroup {
+  all?: ConditionTraceNode[]
+  any?: ConditionTraceNode[]
+  result?: boolean
+}
+
+export type ConditionTraceNode = ConditionTraceLeaf | ConditionTraceGroup
+
 // Результат тестирования правила
 export interface TestRuleResult {
   matched: boolean
   events: RuleResult[]
   facts: RuleFacts
   duration: number
+  trace?: ConditionTraceGroup // Дерево условий с результатами и значениями фактов
+  error?: string
+}
+
+// Запись выполнения правила
+export interface RuleExecutionData {
+  id: string
+  ruleId: string
+  facts: string // JSON
+  result: string // JSON
+  success: boolean
+  duration: number
+  error: string | null
+  actorId: string | null
+  createdAt: Date
+}
+
+// Статистика выполнения правила
+export interface RuleExecutionStats {
+  total: number
+  success: number
+  failed: number
+  avgDuration: number
+  lastExecutedAt?: Date | null
 }
 
 
@@ -0,0 +1,34 @@
+/**
+ * ChatOfflineNotificationScheduler - Планировщик сводок чата
+ *
+ * Периодически отправляет наступившие сводки непрочитанных сообщений
+ * участникам, которые не в сети (ChatOfflineNotificationService.flushDue)
+ */
+
+import { chatOfflineNotificationService } from '@/services/chat/ChatOfflineNotificationService'
+import { IntervalScheduler } from './IntervalScheduler'
+
+export class ChatOfflineNotificationScheduler extends IntervalScheduler {
+  private static instance: ChatOfflineNotificationScheduler
+
+  constructor() {
+    super('ChatOfflineNotificationScheduler', 'offline chat digests', 60 * 1000)
+  }
+
+  static getInstance(): ChatOfflineNotificationScheduler {
+    if (!ChatOfflineNotificationScheduler.instance) {
+      ChatOfflineNotificationScheduler.instance = new ChatOfflineNotificationScheduler()
+    }
+
+    return ChatOfflineNotificationScheduler.instance
+  }
+
+  /**
+   * Отправить наступившие сводки
+   */
+  protected run(): Promise<number> {
+    return chatOfflineNotificationService.flushDue()
+  }
+}
+
+export const chatOfflineNotificationScheduler = ChatOfflineNotificationScheduler.getInstance()
@@ -0,0 +1,84 @@
+/**
+ * IntervalScheduler - Базовый класс периодических планировщиков
+ *
+ * Запускает run() сразу после старта и затем через заданный интервал.
+ * Следующий запуск пропускается, пока не закончился предыдущий.
+ */
+
+export abstract class IntervalScheduler {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+
+  /**
+   * @param name Имя планировщика для логов
+   * @param subject Что обрабатывает run() (для логов), например "offline chat digests"
+   * @param defaultIntervalMs Интервал по умолчанию в миллисекундах
+   */
+  protected constructor(
+    private readonly name: string,
+    private readonly subject: string,
+    private readonly defaultIntervalMs: number
+  ) {}
+
+  /**
+   * Обработать наступившие элементы
+   * @returns Количество обработанных элементов
+   */
+  protected abstract run(): Promise<number>
+
+  /**
+   * Запустить планировщик
+   * @param intervalMs Интервал проверки в миллисекундах
+   */
+  start(intervalMs = this.defaultIntervalMs): void {
+    if (this.intervalId) {
+      console.log(`[${this.name}] Already running`)
+
+      return
+    }
+
+    console.log(`[${this.name}] Starting with interval:`, intervalMs, 'ms')
+
+    this.flush()
+
+    this.intervalId = setInterval(() => {
+      this.flush()
+    }, intervalMs)
+  }
+
+  /**
+   * Остановить планировщик
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+      console.log(`[${this.name}] Stopped`)
+    }
+  }
+
+  /**
+   * Выполнить один проход
+   */
+  async flush(): Promise<void> {
+    if (this.isRunning) {
+      console.log(`[${this.name}] Already flushing, skipping...`)
+
+      return
+    }
+
+    this.isRunning = true
+
+    try {
+      const processed = await this.run()
+
+      if (processed > 0) {
+        console.log(`[${this.name}] Processed ${processed} ${this.subject}`)
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error processing ${this.subject}:`, error)
+    } finally {
+      this.isRunning = false
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * NotificationDigestScheduler - Планировщик отложенных уведомлений
+ *
+ * Периодически отправляет уведомления, отложенные предпочтениями пользователей:
+ * - ежедневные дайджесты (в digestHour по часовому поясу пользователя)
+ * - уведомления, перенесённые из-за тихих часов
+ */
+
+import { notificationPreferenceService } from '@/services/notifications/NotificationPreferenceService'
+import { IntervalScheduler } from './IntervalScheduler'
+
+export class NotificationDigestScheduler extends IntervalScheduler {
+  private static instance: NotificationDigestScheduler
+
+  constructor() {
+    super('NotificationDigestScheduler', 'deferred notifications', 5 * 60 * 1000)
+  }
+
+  static getInstance(): NotificationDigestScheduler {
+    if (!NotificationDigestScheduler.instance) {
+      NotificationDigestScheduler.instance = new NotificationDigestScheduler()
+    }
+
+    return NotificationDigestScheduler.instance
+  }
+
+  /**
+   * Отправить наступившие отложенные уведомления
+   */
+  protected run(): Promise<number> {
+    return notificationPreferenceService.flushDue()
+  }
+}
+
+export const notificationDigestScheduler = NotificationDigestScheduler.getInstance()
@@ -0,0 +1,34 @@
+/**
+ * NotificationJourneyScheduler - Планировщик путей уведомлений
+ *
+ * Периодически продолжает пути, у которых закончилось ожидание
+ * или пришло ожидаемое событие (JourneyEngine.resumeDue)
+ */
+
+import { journeyEngine } from '@/services/notifications/scenarios/JourneyEngine'
+import { IntervalScheduler } from './IntervalScheduler'
+
+export class NotificationJourneyScheduler extends IntervalScheduler {
+  private static instance: NotificationJourneyScheduler
+
+  constructor() {
+    super('NotificationJourneyScheduler', 'notification journeys', 60 * 1000)
+  }
+
+  static getInstance(): NotificationJourneyScheduler {
+    if (!NotificationJourneyScheduler.instance) {
+      NotificationJourneyScheduler.instance = new NotificationJourneyScheduler()
+    }
+
+    return NotificationJourneyScheduler.instance
+  }
+
+  /**
+   * Продолжить ожидающие пути
+   */
+  protected run(): Promise<number> {
+    return journeyEngine.resumeDue()
+  }
+}
+
+export const notificationJourneyScheduler = NotificationJourneyScheduler.getInstance()
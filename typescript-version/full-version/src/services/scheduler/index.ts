@@ -4,8 +4,33 @@
  * Централизованный экспорт планировщиков
  */
 
+export { IntervalScheduler } from './IntervalScheduler'
 export { TariffExpirationScheduler, tariffExpirationScheduler } from './TariffExpirationScheduler'
 export { MediaCleanupScheduler, mediaCleanupScheduler } from './MediaCleanupScheduler'
+export { NotificationDigestScheduler, notificationDigestScheduler } from './NotificationDigestScheduler'
+export { ChatOfflineNotificationScheduler, chatOfflineNotificationScheduler } from './ChatOfflineNotificationScheduler'
+export { NotificationJourneyScheduler, notificationJourneyScheduler } from './NotificationJourneyScheduler'
+
+/**
+ * Инициализация планировщиков уведомлений
+ * Вызывается при старте сервера из instrumentation.ts
+ */
+export function initializeNotificationSchedulers(): void {
+  const { notificationDigestScheduler } = require('./NotificationDigestScheduler')
+  const { chatOfflineNotificationScheduler } = require('./ChatOfflineNotificationScheduler')
+  const { notificationJourneyScheduler } = require('./NotificationJourneyScheduler')
+
+  // Дайджесты и уведомления после тихих часов каждые 5 минут
+  notificationDigestScheduler.start(5 * 60 * 1000)
+
+  // Сводки чата для пользователей не в сети каждую минуту
+  chatOfflineNotificationScheduler.start(60 * 1000)
+
+  // Продолжение путей уведомлений после ожидания каждую минуту
+  notificationJourneyScheduler.start(60 * 1000)
+
+  console.log('[Schedulers] Notification schedulers initialized')
+}
 
 /**
  * Инициализация всех планировщиков
@@ -23,6 +48,8 @@ export function initializeSchedulers(): void {
   // Очистка корзины медиа каждые 24 часа
   mediaCleanupScheduler.start(24 * 60 * 60 * 1000)
   
+  initializeNotificationSchedulers()
+  
   console.log('[Schedulers] All schedulers initialized')
 }
 
@@ -33,9 +60,15 @@ export function initializeSchedulers(): void {
 export function stopSchedulers(): void {
   const { tariffExpirationScheduler } = require('./TariffExpirationScheduler')
   const { mediaCleanupScheduler } = require('./MediaCleanupScheduler')
+  const { notificationDigestScheduler } = require('./NotificationDigestScheduler')
+  const { chatOfflineNotificationScheduler } = require('./ChatOfflineNotificationScheduler')
+  const { notificationJourneyScheduler } = require('./NotificationJourneyScheduler')
   
   tariffExpirationScheduler.stop()
   mediaCleanupScheduler.stop()
+  notificationDigestScheduler.stop()
+  chatOfflineNotificationScheduler.stop()
+  notificationJourneyScheduler.stop()
   
   console.log('[Schedulers] All schedulers stopped')
 }
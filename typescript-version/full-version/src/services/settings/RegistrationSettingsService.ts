@@ -9,6 +9,9 @@ export interface RegistrationSettings {
   requirePhoneVerification: boolean
   requireEmailVerification: boolean
   smsProvider: string
+  twoFactorRequiredRoleLevel: number | null // 2FA обязательна для ролей с level <= значения
+  passwordlessEmailEnabled: boolean // Вход без пароля по ссылке из письма
+  passwordlessSmsEnabled: boolean // Вход без пароля по SMS-коду
   updatedBy: string | null
   createdAt: Date
   updatedAt: Date
@@ -62,6 +65,9 @@ export class RegistrationSettingsService {
       requirePhoneVerification: settings.requirePhoneVerification,
       requireEmailVerification: settings.requireEmailVerification,
       smsProvider: settings.smsProvider,
+      twoFactorRequiredRoleLevel: settings.twoFactorRequiredRoleLevel,
+      passwordlessEmailEnabled: settings.passwordlessEmailEnabled,
+      passwordlessSmsEnabled: settings.passwordlessSmsEnabled,
       updatedBy: settings.updatedBy,
       createdAt: settings.createdAt,
       updatedAt: settings.updatedAt
@@ -92,6 +98,9 @@ export class RegistrationSettingsService {
         requirePhoneVerification: input.requirePhoneVerification,
         requireEmailVerification: input.requireEmailVerification,
         smsProvider: input.smsProvider,
+        twoFactorRequiredRoleLevel: input.twoFactorRequiredRoleLevel,
+        passwordlessEmailEnabled: input.passwordlessEmailEnabled,
+        passwordlessSmsEnabled: input.passwordlessSmsEnabled,
         updatedBy: updatedBy || null
       }
     })
@@ -102,6 +111,9 @@ export class RegistrationSettingsService {
       requirePhoneVerification: updated.requirePhoneVerification,
       requireEmailVerification: updated.requireEmailVerification,
       smsProvider: updated.smsProvider,
+      twoFactorRequiredRoleLevel: updated.twoFactorRequiredRoleLevel,
+      passwordlessEmailEnabled: updated.passwordlessEmailEnabled,
+      passwordlessSmsEnabled: updated.passwordlessSmsEnabled,
       updatedBy: updated.updatedBy,
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt
@@ -146,6 +158,15 @@ export class RegistrationSettingsService {
     return settings.smsProvider
   }
 
+  /**
+   * Включён ли вход без пароля для канала
+   */
+  async isPasswordlessEnabled(channel: 'email' | 'phone'): Promise<boolean> {
+    const settings = await this.getSettings()
+
+    return channel === 'email' ? settings.passwordlessEmailEnabled : settings.passwordlessSmsEnabled
+  }
+
   /**
    * Очистить кеш (для использования после обновления настроек)
    */
@@ -274,6 +274,16 @@ class TextAnalysisService {
     return lemmatizeWithAz(word)
   }
 
+  /**
+   * Нормальные формы слов (например, для поисковых запросов).
+   * Ждёт инициализации Az.js; если словари не загрузились — слова в нижнем регистре
+   */
+  async lemmatizeWords(words: string[]): Promise<string[]> {
+    await this.ensureAzInitialized()
+
+    return words.map(word => this.lemmatize(word))
+  }
+
   /**
    * Извлечь только видимый текст из HTML
    * (title, description, заголовки, параграфы, списки)
@@ -95,13 +95,12 @@ class ListingWorkflowService {
         archivedAt: listing.archivedAt?.toISOString()
       }
 
-      // Создать actor
+      // Восстанавливаем сохранённое состояние, иначе машина стартует из draft
       const actor = createActor(listingMachine, {
+        snapshot: listingMachine.resolveState({ value: fromState, context }),
         input: context
       })
 
-      // Симулируем текущее состояние
-      // В XState v5 нужно восстановить состояние через логику
       actor.start()
 
       // Проверить возможность перехода
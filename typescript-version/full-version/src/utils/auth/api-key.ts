@@ -0,0 +1,114 @@
+import type { NextRequest } from 'next/server'
+
+import logger from '@/lib/logger'
+import type { RateLimitResult } from '@/lib/rate-limit/types'
+import type { ApiKeyScope } from '@/utils/permissions/permissions'
+import { getRequestIp } from '@/utils/http/get-request-ip'
+import type { AuthenticatedUser } from './auth'
+
+// Модуль rate limit для запросов по API-ключам: отдельный счётчик на каждый ключ
+export const API_KEY_RATE_LIMIT_MODULE = 'api-keys'
+
+export const API_KEY_PREFIX = 'mk_'
+
+/**
+ * Ключ, которым аутентифицирован запрос (AuthenticatedUser.apiKey)
+ */
+export interface ApiKeyContext extends ApiKeyScope {
+  name: string
+  accountId: string | null // Ключ аккаунта (UserAccount) - лимит 'account' считается по этому аккаунту
+}
+
+/**
+ * Лимит запросов API-ключа исчерпан. Маршруты под withRateLimit отвечают 429,
+ * остальные - через apiKeyRateLimitResponse в своём catch.
+ */
+export class ApiKeyRateLimitError extends Error {
+  constructor(public readonly result: RateLimitResult) {
+    super('API key rate limit exceeded')
+    this.name = 'ApiKeyRateLimitError'
+  }
+}
+
+// Один запрос может пройти requireAuth несколько раз (withRateLimit и сам обработчик) -
+// ключ проверяется и списывает лимит один раз
+const requestCache = new WeakMap<NextRequest, Promise<NonNullable<AuthenticatedUser> | null>>()
+
+/**
+ * API-ключ из заголовка Authorization: Bearer mk_...
+ */
+export function readApiKey(request: NextRequest): string | null {
+  const header = request.headers?.get('authorization')
+
+  if (!header?.startsWith('Bearer ')) return null
+
+  const token = header.slice('Bearer '.length).trim()
+
+  return token.startsWith(API_KEY_PREFIX) ? token : null
+}
+
+const authenticate = async (request: NextRequest, key: string): Promise<NonNullable<AuthenticatedUser> | null> => {
+  // Сервисы загружаются по требованию: запросам с cookie-сессией они не нужны
+  const { apiKeyService } = await import('@/services/auth/ApiKeyService')
+  const ipAddress = getRequestIp(request)
+  const principal = await apiKeyService.authenticate(key, ipAddress)
+
+  if (!principal) return null
+
+  const { rateLimitService } = await import('@/lib/rate-limit')
+
+  const result = await rateLimitService.checkLimit(`apikey:${principal.apiKey.id}`, API_KEY_RATE_LIMIT_MODULE, {
+    userId: principal.user.id,
+    ipAddress,
+    keyType: 'user'
+  })
+
+  if (!result.allowed) {
+    logger.warn('[api-keys] Request rejected by rate limit', { apiKeyId: principal.apiKey.id })
+
+    throw new ApiKeyRateLimitError(result)
+  }
+
+  const { user } = principal
+
+  return {
+    id: user.id,
+    email: user.email as string,
+    name: user.name,
+    image: user.image,
+    roleId: user.roleId,
+    permissions: null,
+    role: user.role,
+    apiKey: {
+      id: principal.apiKey.id,
+      name: principal.apiKey.name,
+      accountId: principal.apiKey.accountId,
+      scopes: principal.apiKey.scopes
+    }
+  }
+}
+
+/**
+ * Пользователь запроса с API-ключом (null - ключ недействителен)
+ */
+export function authenticateApiKey(request: NextRequest, key: string): Promise<NonNullable<AuthenticatedUser> | null> {
+  let pending = requestCache.get(request)
+
+  if (!pending) {
+    pending = authenticate(request, key)
+    requestCache.set(request, pending)
+  }
+
+  return pending
+}
+
+/**
+ * Ответ 429 для ApiKeyRateLimitError (null - ошибка другого типа)
+ */
+export async function apiKeyRateLimitResponse(error: unknown): Promise<Response | null> {
+  if (!(error instanceof ApiKeyRateLimitError)) return null
+
+  const { buildRateLimitExceededResponse } = await import('@/lib/rate-limit/http/with-rate-limit')
+
+  return buildRateLimitExceededResponse(API_KEY_RATE_LIMIT_MODULE, error.result, 'API key rate limit exceeded')
+}
@@ -4,7 +4,15 @@ import { lucia, LuciaSession, LuciaUser } from '@/libs/lucia'
 import { prisma } from '@/libs/prisma'
 import type { Role } from '@prisma/client'
 
-export type AuthenticatedUser = LuciaUser extends null ? null : LuciaUser & { role?: Role | null }
+import { sessionService } from '@/services/auth/SessionService'
+import { impersonationService } from '@/services/auth/ImpersonationService'
+import type { ApiKeyContext } from './api-key'
+import { ApiKeyRateLimitError, authenticateApiKey, readApiKey } from './api-key'
+import { recordImpersonatedRequest } from './impersonation'
+
+export type AuthenticatedUser = LuciaUser extends null
+  ? null
+  : LuciaUser & { role?: Role | null; apiKey?: ApiKeyContext | null }
 
 export async function getLuciaSession(request?: NextRequest) {
   let sessionId: string | null = null
@@ -17,10 +25,48 @@ export async function getLuciaSession(request?: NextRequest) {
     sessionId = lucia.readSessionCookie(cookieStore.toString())
   }
 
-  return lucia.validateSession(sessionId || '')
+  const result = await lucia.validateSession(sessionId || '')
+
+  // Сессия, ожидающая второй фактор, не даёт доступа
+  if (result.session?.twoFactorState) {
+    return { session: null, user: null }
+  }
+
+  // Вход под пользователем ограничен по времени, хотя Lucia продлевает expiresAt
+  if (result.session && impersonationService.isExpired(result.session)) {
+    await impersonationService.stop(result.session, 'expired')
+
+    return { session: null, user: null }
+  }
+
+  // Последняя активность для списка сессий - не задерживает запрос
+  if (result.session) {
+    void sessionService.touch(result.session.id, result.session.lastActiveAt).catch(() => undefined)
+  }
+
+  return result
 }
 
-export async function requireAuth(request?: NextRequest) {
+/**
+ * Пользователь запроса: по cookie Lucia-сессии или по API-ключу (Authorization: Bearer mk_...).
+ * Для API-ключа session = null, а user.apiKey ограничивает разрешения scopes ключа.
+ */
+export async function requireAuth(request?: NextRequest): Promise<{
+  session: NonNullable<LuciaSession> | null
+  user: NonNullable<AuthenticatedUser>
+}> {
+  const apiKey = request ? readApiKey(request) : null
+
+  if (request && apiKey) {
+    const apiKeyUser = await authenticateApiKey(request, apiKey)
+
+    if (!apiKeyUser) {
+      throw new Error('Unauthorized')
+    }
+
+    return { session: null, user: apiKeyUser }
+  }
+
   const { session, user } = await getLuciaSession(request)
 
   if (!session || !user) {
@@ -43,13 +89,21 @@ export async function requireAuth(request?: NextRequest) {
     role: freshUser.role
   }
 
+  // Суперадмин под пользователем: каждый запрос - в журнал событий
+  if (request && session.impersonatorId) {
+    recordImpersonatedRequest(request, session)
+  }
+
   return { session, user: enrichedUser }
 }
 
 export async function optionalRequireAuth(request?: NextRequest) {
   try {
     return await requireAuth(request)
-  } catch {
+  } catch (error) {
+    // Превышение лимита API-ключа - не анонимный запрос
+    if (error instanceof ApiKeyRateLimitError) throw error
+
     return { session: null, user: null }
   }
 }
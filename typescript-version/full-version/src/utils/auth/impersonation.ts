@@ -0,0 +1,49 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import logger from '@/lib/logger'
+import { impersonationService } from '@/services/auth/ImpersonationService'
+import type { ImpersonationSession } from '@/services/auth/ImpersonationService'
+import { getRequestIp } from '@/utils/http/get-request-ip'
+
+// Один запрос может пройти requireAuth несколько раз (withRateLimit и сам обработчик) -
+// в журнал он пишется один раз
+const recordedRequests = new WeakSet<NextRequest>()
+
+const getPath = (request: NextRequest) => request.nextUrl?.pathname ?? new URL(request.url).pathname
+
+/**
+ * Записать запрос сессии суперадмина, вошедшего под пользователем. Не задерживает запрос.
+ */
+export function recordImpersonatedRequest(request: NextRequest, session: ImpersonationSession): void {
+  if (!session.impersonatorId || recordedRequests.has(request)) return
+
+  recordedRequests.add(request)
+
+  void impersonationService
+    .recordRequest(session, { method: request.method, path: getPath(request), ipAddress: getRequestIp(request) })
+    .catch(error => {
+      logger.warn('[Impersonation] Failed to record request', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+}
+
+/**
+ * Необратимые действия (смена пароля, передача и удаление аккаунта и т.п.) недоступны
+ * при входе под пользователем: возвращает ответ 403 или null, если сессия обычная.
+ */
+export async function rejectWhileImpersonating(
+  request: NextRequest,
+  session: ImpersonationSession | null | undefined,
+  action: string
+): Promise<NextResponse | null> {
+  if (!session?.impersonatorId) return null
+
+  await impersonationService.recordBlockedAction(session, action, getPath(request))
+
+  return NextResponse.json(
+    { error: 'This action is not available while signed in as another user', code: 'IMPERSONATION_FORBIDDEN' },
+    { status: 403 }
+  )
+}
@@ -0,0 +1,49 @@
+import crypto from 'crypto'
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import { lucia } from '@/libs/lucia'
+import { isProduction } from '@/shared/config/env'
+import { OAUTH_STATE_TTL_MS, sessionService } from '@/services/auth'
+
+// Зашифрованные state, nonce и PKCE-verifier между authorize и callback
+export const OAUTH_STATE_COOKIE_NAME = 'oauth_state'
+
+// Cookie нужна только callback-маршрутам; sameSite=lax - провайдер возвращает пользователя GET-редиректом
+const OAUTH_STATE_COOKIE_PATH = '/api/auth/oauth'
+
+export function getOAuthStateCookie(request: NextRequest): string | undefined {
+  return request.cookies.get(OAUTH_STATE_COOKIE_NAME)?.value
+}
+
+export function setOAuthStateCookie(response: NextResponse, value: string): void {
+  response.cookies.set(OAUTH_STATE_COOKIE_NAME, value, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax',
+    path: OAUTH_STATE_COOKIE_PATH,
+    maxAge: OAUTH_STATE_TTL_MS / 1000
+  })
+}
+
+export function clearOAuthStateCookie(response: NextResponse): void {
+  response.cookies.set(OAUTH_STATE_COOKIE_NAME, '', { path: OAUTH_STATE_COOKIE_PATH, maxAge: 0 })
+}
+
+/**
+ * Создать Lucia-сессию и редирект с её cookie (вход через провайдера завершается переходом, а не JSON)
+ */
+export async function createSessionRedirect(request: NextRequest, userId: string, location: string) {
+  const session = await lucia.createSession(userId, {
+    sessionToken: crypto.randomUUID(),
+    ...sessionService.getRequestMetadata(request)
+  })
+  const sessionCookie = lucia.createSessionCookie(session.id)
+
+  const response = NextResponse.redirect(new URL(location, request.url))
+
+  response.cookies.set(sessionCookie.name, sessionCookie.value, sessionCookie.attributes)
+
+  return { session, response }
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto'
+
+/**
+ * Протокольная часть OAuth 2.0 / OpenID Connect: PKCE (RFC 7636), discovery
+ * и проверка подписи id_token по JWKS. Без внешних зависимостей - node:crypto
+ * умеет импортировать JWK и проверять RS*, PS* и ES* подписи.
+ */
+
+export interface OidcDiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+  jwks_uri?: string
+}
+
+export interface OidcTokenResponse {
+  access_token: string
+  token_type?: string
+  expires_in?: number
+  refresh_token?: string
+  id_token?: string
+  scope?: string
+}
+
+export type JsonWebKeySet = { keys: (crypto.JsonWebKey & { kid?: string; alg?: string; use?: string })[] }
+
+export type IdTokenClaims = Record<string, unknown> & {
+  iss: string
+  sub: string
+  aud: string | string[]
+  exp: number
+  iat?: number
+  nonce?: string
+  azp?: string
+}
+
+export interface VerifyIdTokenOptions {
+  issuer: string
+  audience: string
+  nonce: string
+  now?: number
+  clockToleranceSec?: number
+}
+
+const CLOCK_TOLERANCE_SEC = 60
+const REQUEST_TIMEOUT_MS = 10_000
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' }
+}
+
+export function randomUrlSafeToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url')
+}
+
+/**
+ * PKCE: verifier остаётся у нас, провайдеру уходит S256-challenge
+ */
+export function generatePkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomUrlSafeToken(32)
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+
+  return { codeVerifier, codeChallenge }
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init?.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  })
+
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok || !body) {
+    const description = body?.error_description || body?.error || response.statusText
+
+    throw new Error(`OIDC request to ${new URL(url).origin} failed (${response.status}): ${description}`)
+  }
+
+  return body as T
+}
+
+export async function fetchDiscoveryDocument(issuer: string): Promise<OidcDiscoveryDocument> {
+  const normalizedIssuer = issuer.replace(/\/+$/, '')
+  const document = await fetchJson<OidcDiscoveryDocument>(`${normalizedIssuer}/.well-known/openid-configuration`)
+
+  // OIDC Discovery 4.3: issuer в документе обязан совпадать с запрошенным
+  if (document.issuer?.replace(/\/+$/, '') !== normalizedIssuer) {
+    throw new Error('Discovery issuer mismatch')
+  }
+
+  if (!document.authorization_endpoint || !document.token_endpoint) {
+    throw new Error('Discovery document is missing required endpoints')
+  }
+
+  return document
+}
+
+export function fetchJwks(jwksUrl: string): Promise<JsonWebKeySet> {
+  return fetchJson<JsonWebKeySet>(jwksUrl)
+}
+
+/**
+ * Обмен кода авторизации на токены (client_secret_post; публичный клиент - только PKCE)
+ */
+export function exchangeAuthorizationCode(
+  tokenUrl: string,
+  params: { code: string; redirectUri: string; clientId: string; clientSecret?: string | null; codeVerifier: string }
+): Promise<OidcTokenResponse> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: params.clientId,
+    code_verifier: params.codeVerifier
+  })
+
+  if (params.clientSecret) {
+    body.set('client_secret', params.clientSecret)
+  }
+
+  return fetchJson<OidcTokenResponse>(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  })
+}
+
+export function fetchUserInfo(userInfoUrl: string, accessToken: string): Promise<Record<string, unknown>> {
+  return fetchJson<Record<string, unknown>>(userInfoUrl, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  })
+}
+
+export function decodeJwt(token: string) {
+  const parts = token.split('.')
+
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  return {
+    header: JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')) as { alg: string; kid?: string },
+    payload: JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as IdTokenClaims,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: Buffer.from(encodedSignature, 'base64url')
+  }
+}
+
+/**
+ * Найти ключ подписи в JWKS. null - ключа с таким kid нет (JWKS могли ротировать)
+ */
+export function findSigningKey(jwks: JsonWebKeySet, kid: string | undefined) {
+  const candidates = jwks.keys.filter(key => !key.use || key.use === 'sig')
+
+  return (kid ? candidates.find(key => key.kid === kid) : candidates.length === 1 ? candidates[0] : undefined) ?? null
+}
+
+/**
+ * Проверка id_token: подпись, iss, aud/azp, exp и nonce (OIDC Core 3.1.3.7)
+ */
+export function verifyIdToken(idToken: string, jwks: JsonWebKeySet, options: VerifyIdTokenOptions): IdTokenClaims {
+  const { header, payload, signingInput, signature } = decodeJwt(idToken)
+  const algorithm = SIGNATURE_ALGORITHMS[header.alg]
+
+  // alg=none и HS* (общий секрет) не принимаются
+  if (!algorithm) {
+    throw new Error(`Unsupported id_token algorithm: ${header.alg}`)
+  }
+
+  const jwk = findSigningKey(jwks, header.kid)
+
+  if (!jwk) {
+    throw new Error('Signing key not found')
+  }
+
+  const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+
+  const valid = crypto.verify(algorithm.hash, Buffer.from(signingInput), {
+    key: publicKey,
+    padding: algorithm.padding,
+    dsaEncoding: algorithm.dsaEncoding
+  }, signature)
+
+  if (!valid) {
+    throw new Error('Invalid id_token signature')
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000)
+  const tolerance = options.clockToleranceSec ?? CLOCK_TOLERANCE_SEC
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+
+  if (payload.iss?.replace(/\/+$/, '') !== options.issuer.replace(/\/+$/, '')) {
+    throw new Error('id_token issuer mismatch')
+  }
+
+  if (!audiences.includes(options.audience) || (audiences.length > 1 && payload.azp !== options.audience)) {
+    throw new Error('id_token audience mismatch')
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp + tolerance < now) {
+    throw new Error('id_token expired')
+  }
+
+  if (typeof payload.iat === 'number' && payload.iat - tolerance > now) {
+    throw new Error('id_token issued in the future')
+  }
+
+  if (payload.nonce !== options.nonce) {
+    throw new Error('id_token nonce mismatch')
+  }
+
+  if (!payload.sub) {
+    throw new Error('id_token has no subject')
+  }
+
+  return payload
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto'
+
+/**
+ * TOTP (RFC 6238) поверх HOTP (RFC 4226): HMAC-SHA1, 6 цифр, шаг 30 секунд -
+ * параметры по умолчанию у Google Authenticator, Microsoft Authenticator и Authy.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TOTP_DIGITS = 6
+export const TOTP_PERIOD_SECONDS = 30
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Новый секрет: 160 бит, как рекомендует RFC 4226
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export function getTotpStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+export function generateHotp(secret: string, counter: number, digits: number = TOTP_DIGITS): string {
+  const counterBuffer = Buffer.alloc(8)
+
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff)
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
+
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+  return generateHotp(secret, getTotpStep(timestamp))
+}
+
+export interface VerifyTotpOptions {
+  timestamp?: number
+
+  // Допустимое расхождение часов в шагах (по умолчанию ±1 шаг = ±30 секунд)
+  window?: number
+
+  // Шаги не позже этого уже использованы - защита от повторного ввода того же кода
+  afterStep?: number | null
+}
+
+/**
+ * Проверить TOTP-код
+ * @returns Шаг, которому соответствует код, или null
+ */
+export function verifyTotp(secret: string, code: string, options: VerifyTotpOptions = {}): number | null {
+  const normalized = code.replace(/\s+/g, '')
+
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null
+  }
+
+  const currentStep = getTotpStep(options.timestamp)
+  const window = options.window ?? 1
+
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    if (options.afterStep != null && step <= options.afterStep) continue
+
+    const expected = generateHotp(secret, step)
+
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * URI для QR-кода приложения-аутентификатора (формат Key Uri Format)
+ */
+export function buildOtpauthUri(params: { secret: string; accountName: string; issuer: string }): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`)
+
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  })
+
+  return `otpauth://totp/${label}?${query.toString()}`
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto'
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+import type { Role, User } from '@prisma/client'
+
+import { lucia } from '@/libs/lucia'
+import { isProduction } from '@/shared/config/env'
+import { sessionService, twoFactorService } from '@/services/auth'
+import { getLuciaSession } from './auth'
+
+// Cookie второго шага входа: токен промежуточной сессии (Session.sessionToken), не id
+export const TWO_FACTOR_COOKIE_NAME = 'two_factor_pending'
+
+const TWO_FACTOR_COOKIE_MAX_AGE = 10 * 60
+
+type UserWithRole = User & { role: Role | null }
+
+export function getTwoFactorCookie(request: NextRequest): string | undefined {
+  return request.cookies.get(TWO_FACTOR_COOKIE_NAME)?.value
+}
+
+export function setTwoFactorCookie(response: NextResponse, sessionToken: string): void {
+  response.cookies.set(TWO_FACTOR_COOKIE_NAME, sessionToken, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: TWO_FACTOR_COOKIE_MAX_AGE
+  })
+}
+
+export function clearTwoFactorCookie(response: NextResponse): void {
+  response.cookies.set(TWO_FACTOR_COOKIE_NAME, '', { path: '/', maxAge: 0 })
+}
+
+/**
+ * Пользователь в ответе входа (тот же формат, что у /api/auth/login)
+ */
+export function buildLoginUserPayload(user: UserWithRole) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role?.name || user.role?.code || 'user',
+    permissions: user.role?.permissions || '{}'
+  }
+}
+
+/**
+ * Создать полноценную Lucia-сессию (с устройством и IP запроса) и ответ с её cookie
+ */
+export async function createSessionResponse(request: NextRequest, user: UserWithRole, extra: Record<string, unknown> = {}) {
+  const session = await lucia.createSession(user.id, {
+    sessionToken: crypto.randomUUID(),
+    ...sessionService.getRequestMetadata(request)
+  })
+  const sessionCookie = lucia.createSessionCookie(session.id)
+
+  const response = NextResponse.json({ user: buildLoginUserPayload(user), session, ...extra })
+
+  response.cookies.set(sessionCookie.name, sessionCookie.value, sessionCookie.attributes)
+  clearTwoFactorCookie(response)
+
+  return { session, response }
+}
+
+/**
+ * Кто настраивает 2FA: вошедший пользователь или пользователь с промежуточной
+ * сессией 'enroll' (роль требует 2FA, а она ещё не настроена)
+ */
+export async function getTwoFactorEnrollmentActor(request: NextRequest) {
+  const { user } = await getLuciaSession(request)
+
+  if (user) {
+    return { userId: user.id, pendingSession: null }
+  }
+
+  const pendingSession = await twoFactorService.getPendingSession(getTwoFactorCookie(request))
+
+  if (pendingSession?.twoFactorState === 'enroll') {
+    return { userId: pendingSession.userId, pendingSession }
+  }
+
+  return null
+}
@@ -0,0 +1,63 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown'
+
+export interface UserAgentInfo {
+  browser: string | null
+  os: string | null
+  deviceType: DeviceType
+}
+
+// Порядок важен: Edge и Opera содержат «Chrome», Chrome содержит «Safari»
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/YaBrowser\//, 'Yandex Browser'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+]
+
+/**
+ * Браузер, ОС и тип устройства по заголовку User-Agent (без внешних зависимостей,
+ * точности достаточно для списка сессий)
+ */
+export function parseUserAgent(userAgent: string | null | undefined): UserAgentInfo {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown' }
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+
+  let deviceType: DeviceType = 'desktop'
+
+  if (/bot|crawler|spider|curl|wget|python-requests|postman/i.test(userAgent)) {
+    deviceType = 'bot'
+  } else if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet'
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile'
+  } else if (!browser && !os) {
+    deviceType = 'unknown'
+  }
+
+  return { browser, os, deviceType }
+}
+
+/**
+ * Подпись устройства для интерфейса: «Chrome on Windows»
+ */
+export function formatDeviceName(info: UserAgentInfo): string | null {
+  if (info.browser && info.os) return `${info.browser} on ${info.os}`
+
+  return info.browser ?? info.os
+}
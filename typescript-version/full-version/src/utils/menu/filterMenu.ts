@@ -130,6 +130,14 @@ const filterAdminSectionChild = (
     return checkPermission(user, 'notificationScenarios', 'read')
   }
 
+  if (child.label === labels.businessRules) {
+    return checkPermission(user, 'rulesManagement', 'read')
+  }
+
+  if (child.label === labels.listingModerationQueue) {
+    return checkPermission(user, 'listingModeration', 'read')
+  }
+
   if (child.label === labels.rateLimitCategory) {
     return checkPermission(user, 'rateLimitManagement', 'read')
   }
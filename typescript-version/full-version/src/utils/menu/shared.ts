@@ -13,6 +13,8 @@ export const MENU_NAVIGATION_KEYS = [
   'telegramSettings',
   'emailTemplates',
   'notificationScenarios',
+  'businessRules',
+  'listingModerationQueue',
   'externalServices',
   'rateLimitCategory',
   'rateLimitManagement',
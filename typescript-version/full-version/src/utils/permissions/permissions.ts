@@ -19,6 +19,7 @@ export interface BaseUser {
   image?: string | null
   roleId?: string | null
   permissions?: string | null
+  apiKey?: ApiKeyScope | null // Запрос аутентифицирован API-ключом (см. requireAuth)
 }
 
 export interface UserWithRole extends BaseUser {
@@ -35,6 +36,11 @@ export interface ModulePermission {
 export type PermissionMap = Record<string, string[]>
 export type Permissions = PermissionMap | 'all'
 
+export interface ApiKeyScope {
+  id: string
+  scopes: Permissions
+}
+
 const isPermissionMap = (value: unknown): value is PermissionMap => {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     return false
@@ -107,7 +113,31 @@ export const getUserPermissions = (user: UserWithRoleLike): Permissions => {
   const permissionsValue =
     'permissions' in user ? (user as { permissions?: string | null }).permissions : undefined
 
-  return parsePermissions(user.role?.permissions ?? permissionsValue)
+  const permissions = parsePermissions(user.role?.permissions ?? permissionsValue)
+  const apiKey = 'apiKey' in user ? (user as { apiKey?: ApiKeyScope | null }).apiKey : null
+
+  return apiKey ? intersectPermissions(permissions, apiKey.scopes) : permissions
+}
+
+// Проверки по коду роли не учитывают scopes - ключ с ограниченными scopes их не проходит
+const isRestrictedApiKey = (user: BaseUser | null): boolean => !!user?.apiKey && user.apiKey.scopes !== 'all'
+
+/**
+ * Пересечение разрешений роли и scopes API-ключа: ключ не даёт больше, чем роль его создателя
+ */
+export const intersectPermissions = (rolePermissions: Permissions, scopes: Permissions): Permissions => {
+  if (scopes === 'all') return rolePermissions
+  if (rolePermissions === 'all') return scopes
+
+  return Object.entries(scopes).reduce<PermissionMap>((acc, [module, actions]) => {
+    const allowed = actions.filter(action => rolePermissions[module]?.includes(action))
+
+    if (allowed.length > 0) {
+      acc[module] = allowed
+    }
+
+    return acc
+  }, {})
 }
 
 export const checkPermission = (user: UserWithRoleLike, module: string, action: string): boolean => {
@@ -162,6 +192,9 @@ export const isUser = (user: UserWithRole | null): boolean => hasRole(user, 'use
  * This function is NOT deprecated as it checks permissions
  */
 export const isSuperadmin = (user: UserWithRole | null): boolean => {
+  // API-ключ суперадмина - только с неограниченными scopes
+  if (isRestrictedApiKey(user)) return false
+
   // Check by permissions (for backward compatibility)
   if (getUserPermissions(user) === 'all') return true
   // Check by role code
@@ -179,25 +212,25 @@ export const isSuperadmin = (user: UserWithRole | null): boolean => {
  * @param code - Role code to check (e.g., 'ADMIN', 'SUPERADMIN')
  */
 export const hasRoleCode = (user: UserWithRole | null, code: string): boolean =>
-  user?.role?.code === code
+  !isRestrictedApiKey(user) && user?.role?.code === code
 
 /**
  * Check if user is SUPERADMIN by role code
  */
 export const isSuperadminByCode = (user: UserWithRole | null): boolean =>
-  user?.role?.code === 'SUPERADMIN'
+  hasRoleCode(user, 'SUPERADMIN')
 
 /**
  * Check if user is ADMIN by role code
  */
 export const isAdminByCode = (user: UserWithRole | null): boolean =>
-  user?.role?.code === 'ADMIN'
+  hasRoleCode(user, 'ADMIN')
 
 /**
  * Check if user is ADMIN or SUPERADMIN by role code
  */
 export const isAdminOrHigher = (user: UserWithRole | null): boolean =>
-  user?.role?.code === 'ADMIN' || user?.role?.code === 'SUPERADMIN'
+  hasRoleCode(user, 'ADMIN') || hasRoleCode(user, 'SUPERADMIN')
 
 /**
  * Get user's role level (0 = highest priority)
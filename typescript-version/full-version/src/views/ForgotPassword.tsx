@@ -1,13 +1,18 @@
 'use client'
 
+// React Imports
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+
 // Next Imports
 import Link from 'next/link'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter } from 'next/navigation'
 
 // MUI Imports
 import Typography from '@mui/material/Typography'
 import TextField from '@mui/material/TextField'
 import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
 
 // Third-party Imports
 import classnames from 'classnames'
@@ -36,8 +41,15 @@ const ForgotPasswordV2 = ({ mode }: { mode: Mode }) => {
   const borderedDarkIllustration = '/images/illustrations/auth/v2-forgot-password-dark-border.png'
   const borderedLightIllustration = '/images/illustrations/auth/v2-forgot-password-light-border.png'
 
+  // States
+  const [identifier, setIdentifier] = useState('')
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState(false)
+  const [loading, setLoading] = useState(false)
+
   // Hooks
   const { lang: locale } = useParams()
+  const router = useRouter()
   const authBackground = useImageVariant(mode, lightImg, darkImg)
   const { settings } = useSettings()
 
@@ -49,6 +61,41 @@ const ForgotPasswordV2 = ({ mode }: { mode: Mode }) => {
     borderedDarkIllustration
   )
 
+  // Email получает ссылку, телефон - SMS-код, который вводится на странице сброса
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    const value = identifier.trim()
+    const isEmail = value.includes('@')
+
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/password-reset/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isEmail ? { email: value } : { phone: value })
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to request password reset')
+      }
+
+      if (isEmail) {
+        setSent(true)
+      } else {
+        router.push(getLocalizedUrl(`/reset-password?phone=${encodeURIComponent(value)}`, locale as Locale))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return (
     <div className='flex bs-full justify-center'>
       <div
@@ -83,13 +130,26 @@ const ForgotPasswordV2 = ({ mode }: { mode: Mode }) => {
           <div>
             <Typography variant='h4'>Forgot Password 🔒</Typography>
             <Typography className='mbs-1'>
-              Enter your email and we&#39;ll send you instructions to reset your password
+              Enter your email or phone and we&#39;ll send you instructions to reset your password
             </Typography>
           </div>
-          <form noValidate autoComplete='off' onSubmit={e => e.preventDefault()} className='flex flex-col gap-5'>
-            <TextField autoFocus fullWidth label='Email' />
-            <Button fullWidth variant='contained' type='submit'>
-              Send reset link
+          <form noValidate autoComplete='off' onSubmit={handleSubmit} className='flex flex-col gap-5'>
+            {error && <Alert severity='error'>{error}</Alert>}
+            {sent && (
+              <Alert severity='success'>
+                If an account with this email exists, we&#39;ve sent a link to reset your password.
+              </Alert>
+            )}
+            <TextField
+              autoFocus
+              fullWidth
+              label='Email or phone'
+              value={identifier}
+              onChange={e => setIdentifier(e.target.value)}
+              disabled={loading}
+            />
+            <Button fullWidth variant='contained' type='submit' disabled={loading || !identifier.trim()}>
+              Send reset instructions
             </Button>
             <Typography className='flex justify-center items-center' color='primary.main'>
               <Link href='/login' className='flex items-center'>
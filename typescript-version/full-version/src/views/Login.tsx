@@ -36,6 +36,9 @@ import type { Locale } from '@configs/i18n'
 // Component Imports
 import Logo from '@components/layout/shared/Logo'
 import Illustrations from '@components/Illustrations'
+import TwoFactorLoginStep from './TwoFactorLoginStep'
+import PasswordlessLoginStep from './PasswordlessLoginStep'
+import type { PasswordlessLoginResponse } from './PasswordlessLoginStep'
 
 // Config Imports
 import themeConfig from '@configs/themeConfig'
@@ -54,6 +57,12 @@ type ErrorType = {
   message: string[]
 }
 
+type SignInProvider = {
+  slug: string
+  displayName: string
+  iconUrl: string | null
+}
+
 const Login = ({ mode }: { mode: Mode }) => {
   // States
   const [isPasswordShown, setIsPasswordShown] = useState(false)
@@ -62,6 +71,11 @@ const Login = ({ mode }: { mode: Mode }) => {
   const [isBlocked, setIsBlocked] = useState(false)
   const [blockTimeLeft, setBlockTimeLeft] = useState(0)
   const [warningMessage, setWarningMessage] = useState<string | null>(null)
+  const [twoFactorState, setTwoFactorState] = useState<'verify' | 'enroll' | null>(null)
+  const [providers, setProviders] = useState<SignInProvider[]>([])
+  const [passwordlessChannels, setPasswordlessChannels] = useState({ email: false, phone: false })
+  const [passwordlessChannel, setPasswordlessChannel] = useState<'email' | 'phone' | null>(null)
+  const [magicLinkError, setMagicLinkError] = useState<string | null>(null)
 
   // Vars
   const darkImg = '/images/pages/auth-v2-mask-dark.png'
@@ -85,6 +99,68 @@ const Login = ({ mode }: { mode: Mode }) => {
     import(`@/data/dictionaries/${locale}.json`).then(module => setDictionary(module.default))
   }, [locale])
 
+  useEffect(() => {
+    fetch('/api/auth/oauth/providers')
+      .then(res => (res.ok ? res.json() : { providers: [] }))
+      .then(data => setProviders(data.providers))
+      .catch(() => setProviders([]))
+
+    fetch('/api/auth/passwordless')
+      .then(res => (res.ok ? res.json() : { email: false, phone: false }))
+      .then(data => setPasswordlessChannels({ email: Boolean(data.email), phone: Boolean(data.phone) }))
+      .catch(() => setPasswordlessChannels({ email: false, phone: false }))
+  }, [])
+
+  // Возврат со входа через провайдера: шаг 2FA или ошибка
+  const oauthTwoFactor = searchParams.get('twoFactor')
+  const oauthError = searchParams.get('oauthError')
+
+  useEffect(() => {
+    if (oauthTwoFactor === 'verify' || oauthTwoFactor === 'enroll') {
+      setTwoFactorState(oauthTwoFactor)
+    }
+  }, [oauthTwoFactor])
+
+  // Переход по ссылке входа из письма
+  const magicToken = searchParams.get('magicToken')
+
+  useEffect(() => {
+    if (!magicToken) return
+
+    const signInWithLink = async () => {
+      setLoading(true)
+
+      try {
+        const response = await fetch('/api/auth/passwordless/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ token: magicToken })
+        })
+
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(data?.error || 'Invalid or expired sign-in link')
+        }
+
+        if (data.twoFactorRequired) {
+          setTwoFactorState(data.twoFactorState)
+          setLoading(false)
+
+          return
+        }
+
+        window.location.href = getLocalizedUrl(searchParams.get('redirectTo') ?? '/en/dashboards/crm', locale as Locale)
+      } catch (error) {
+        setMagicLinkError(error instanceof Error ? error.message : String(error))
+        setLoading(false)
+      }
+    }
+
+    signInWithLink()
+  }, [magicToken, searchParams, locale])
+
   const schema = useMemo(() => object({
     email: pipe(string(), minLength(1, dictionary?.navigation?.fieldRequired || 'This field is required'), email(dictionary?.navigation?.invalidEmail || 'Please enter a valid email address')),
     password: pipe(
@@ -120,6 +196,30 @@ const Login = ({ mode }: { mode: Mode }) => {
 
   const handleClickShowPassword = () => setIsPasswordShown(show => !show)
 
+  const signInWithProvider = (slug: string) => {
+    const redirectURL = getLocalizedUrl(searchParams.get('redirectTo') ?? '/dashboards/crm', locale as Locale)
+
+    window.location.href = `/api/auth/oauth/${encodeURIComponent(slug)}/authorize?${new URLSearchParams({ redirectTo: redirectURL })}`
+  }
+
+  const redirectAfterLogin = () => {
+    // Vars
+    const redirectURL = searchParams.get('redirectTo') ?? '/en/dashboards/crm'
+
+    window.location.href = getLocalizedUrl(redirectURL, locale as Locale)
+  }
+
+  const completePasswordlessLogin = (result: PasswordlessLoginResponse) => {
+    if (result.twoFactorRequired && result.twoFactorState) {
+      setPasswordlessChannel(null)
+      setTwoFactorState(result.twoFactorState)
+
+      return
+    }
+
+    redirectAfterLogin()
+  }
+
   const onSubmit: SubmitHandler<FormData> = async (data: FormData) => {
     if (isBlocked) return // Не отправлять если заблокировано
 
@@ -127,12 +227,16 @@ const Login = ({ mode }: { mode: Mode }) => {
     setWarningMessage(null) // Очистить warning при новой попытке
 
     try {
-      await login(data.email, data.password)
+      const result = await login(data.email, data.password)
+
+      if (result.twoFactorRequired) {
+        setTwoFactorState(result.twoFactorState)
+        setLoading(false)
 
-      // Vars
-      const redirectURL = searchParams.get('redirectTo') ?? '/en/dashboards/crm'
+        return
+      }
 
-      window.location.href = getLocalizedUrl(redirectURL, locale as Locale)
+      redirectAfterLogin()
     } catch (error: any) {
       // Очистить предыдущие сообщения
       setWarningMessage(null)
@@ -216,127 +320,192 @@ const Login = ({ mode }: { mode: Mode }) => {
           <Logo />
         </div>
         <div className='flex flex-col gap-5 is-full sm:is-auto md:is-full sm:max-is-[400px] md:max-is-[unset]'>
-          <div>
-            <Typography variant='h4'>{dictionary?.navigation?.welcomeMessage?.replace('${templateName}', themeConfig.templateName) || `Welcome to ${themeConfig.templateName}!👋🏻`}</Typography>
-            <Typography>{dictionary?.navigation?.signInDescription || 'Please sign-in to your account and start the adventure'}</Typography>
-          </div>
-          <Alert icon={false} className='bg-primaryLight'>
-            <Typography variant='body2' color='primary.main'>
-              {dictionary?.navigation?.demoCredentials || 'Email: admin@example.com / Pass: admin123'}
-            </Typography>
-          </Alert>
-
-          {warningMessage && (
-            <Alert severity='warning' variant='filled'>
-              <Typography variant='body2'>
-                {warningMessage}
-              </Typography>
-            </Alert>
-          )}
+          {twoFactorState ? (
+            <TwoFactorLoginStep
+              state={twoFactorState}
+              dictionary={dictionary}
+              onComplete={redirectAfterLogin}
+              onCancel={() => setTwoFactorState(null)}
+            />
+          ) : passwordlessChannel ? (
+            <PasswordlessLoginStep
+              channel={passwordlessChannel}
+              dictionary={dictionary}
+              onComplete={completePasswordlessLogin}
+              onCancel={() => setPasswordlessChannel(null)}
+            />
+          ) : (
+            <>
+              <div>
+                <Typography variant='h4'>{dictionary?.navigation?.welcomeMessage?.replace('${templateName}', themeConfig.templateName) || `Welcome to ${themeConfig.templateName}!👋🏻`}</Typography>
+                <Typography>{dictionary?.navigation?.signInDescription || 'Please sign-in to your account and start the adventure'}</Typography>
+              </div>
+              <Alert icon={false} className='bg-primaryLight'>
+                <Typography variant='body2' color='primary.main'>
+                  {dictionary?.navigation?.demoCredentials || 'Email: admin@example.com / Pass: admin123'}
+                </Typography>
+              </Alert>
+
+              {oauthError && !errorState && (
+                <Alert severity='error'>
+                  <Typography variant='body2'>
+                    {dictionary?.oauth?.errors?.[oauthError] || dictionary?.oauth?.errors?.provider_error || 'Sign-in with the provider failed. Please try again.'}
+                  </Typography>
+                </Alert>
+              )}
 
-          <form
-            noValidate
-            action={() => {}}
-            autoComplete='off'
-            onSubmit={handleSubmit(onSubmit)}
-            className='flex flex-col gap-5'
-          >
-            <Controller
-              name='email'
-              control={control}
-              rules={{ required: true }}
-              render={({ field }) => (
-                <TextField
-                  {...field}
-                  fullWidth
-                  autoFocus
-                  type='email'
-                  label={dictionary?.navigation?.emailLabel || 'Email'}
-                  disabled={loading || isBlocked}
-                  onChange={e => {
-                    field.onChange(e.target.value)
-                    errorState !== null && setErrorState(null)
-                  }}
-                  {...((errors.email || errorState !== null) && {
-                    error: true,
-                    helperText: errors?.email?.message || errorState?.message[0]
-                  })}
-                />
+              {magicLinkError && (
+                <Alert severity='error'>
+                  <Typography variant='body2'>
+                    {dictionary?.navigation?.passwordlessLinkInvalid || magicLinkError}
+                  </Typography>
+                </Alert>
               )}
-            />
-            <Controller
-              name='password'
-              control={control}
-              rules={{ required: true }}
-              render={({ field }) => (
-                <TextField
-                  {...field}
-                  fullWidth
-                  label={dictionary?.navigation?.passwordLabel || 'Password'}
-                  id='login-password'
-                  type={isPasswordShown ? 'text' : 'password'}
-                  autoComplete='current-password'
-                  disabled={loading || isBlocked}
-                  onChange={e => {
-                    field.onChange(e.target.value)
-                    errorState !== null && setErrorState(null)
-                  }}
-                  slotProps={{
-                    input: {
-                      endAdornment: (
-                        <InputAdornment position='end'>
-                          <IconButton
-                            size='small'
-                            edge='end'
-                            onClick={handleClickShowPassword}
-                            onMouseDown={e => e.preventDefault()}
-                            aria-label='toggle password visibility'
-                            disabled={loading || isBlocked}
-                          >
-                            <i className={isPasswordShown ? 'ri-eye-off-line' : 'ri-eye-line'} />
-                          </IconButton>
-                        </InputAdornment>
-                      )
-                    }
-                  }}
-                  {...(errors.password && { error: true, helperText: errors.password.message })}
+
+              {warningMessage && (
+                <Alert severity='warning' variant='filled'>
+                  <Typography variant='body2'>
+                    {warningMessage}
+                  </Typography>
+                </Alert>
+              )}
+
+              <form
+                noValidate
+                action={() => {}}
+                autoComplete='off'
+                onSubmit={handleSubmit(onSubmit)}
+                className='flex flex-col gap-5'
+              >
+                <Controller
+                  name='email'
+                  control={control}
+                  rules={{ required: true }}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      autoFocus
+                      type='email'
+                      label={dictionary?.navigation?.emailLabel || 'Email'}
+                      disabled={loading || isBlocked}
+                      onChange={e => {
+                        field.onChange(e.target.value)
+                        errorState !== null && setErrorState(null)
+                      }}
+                      {...((errors.email || errorState !== null) && {
+                        error: true,
+                        helperText: errors?.email?.message || errorState?.message[0]
+                      })}
+                    />
+                  )}
                 />
+                <Controller
+                  name='password'
+                  control={control}
+                  rules={{ required: true }}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      label={dictionary?.navigation?.passwordLabel || 'Password'}
+                      id='login-password'
+                      type={isPasswordShown ? 'text' : 'password'}
+                      autoComplete='current-password'
+                      disabled={loading || isBlocked}
+                      onChange={e => {
+                        field.onChange(e.target.value)
+                        errorState !== null && setErrorState(null)
+                      }}
+                      slotProps={{
+                        input: {
+                          endAdornment: (
+                            <InputAdornment position='end'>
+                              <IconButton
+                                size='small'
+                                edge='end'
+                                onClick={handleClickShowPassword}
+                                onMouseDown={e => e.preventDefault()}
+                                aria-label='toggle password visibility'
+                                disabled={loading || isBlocked}
+                              >
+                                <i className={isPasswordShown ? 'ri-eye-off-line' : 'ri-eye-line'} />
+                              </IconButton>
+                            </InputAdornment>
+                          )
+                        }
+                      }}
+                      {...(errors.password && { error: true, helperText: errors.password.message })}
+                    />
+                  )}
+                />
+                <div className='flex justify-between items-center flex-wrap gap-x-3 gap-y-1'>
+                  <FormControlLabel control={<Checkbox defaultChecked />} label={dictionary?.navigation?.rememberMe || 'Remember me'} />
+                  <Typography className='text-end' color='primary.main' component={Link} href='/forgot-password'>
+                    {dictionary?.navigation?.forgotPassword || 'Forgot password?'}
+                  </Typography>
+                </div>
+                <Button fullWidth variant='contained' type='submit' disabled={loading || isBlocked}>
+                  {isBlocked
+                    ? `Заблокировано (${Math.floor(blockTimeLeft / 60)}:${(blockTimeLeft % 60).toString().padStart(2, '0')})`
+                    : loading
+                      ? dictionary?.navigation?.loggingIn || 'Logging in...'
+                      : dictionary?.navigation?.login || 'Log In'
+                  }
+                </Button>
+                <div className='flex justify-center items-center flex-wrap gap-2'>
+                  <Typography>{dictionary?.navigation?.newUser || 'New on our platform?'}</Typography>
+                  <Typography component={Link} href='/register' color='primary.main'>
+                    {dictionary?.navigation?.createAccount || 'Create an account'}
+                  </Typography>
+                </div>
+              </form>
+              {(providers.length > 0 || passwordlessChannels.email || passwordlessChannels.phone) && (
+                <>
+                  <Divider className='gap-3'>{dictionary?.navigation?.or || 'or'}</Divider>
+                  <div className='flex flex-col gap-3'>
+                    {passwordlessChannels.email && (
+                      <Button
+                        color='secondary'
+                        variant='outlined'
+                        className='text-textPrimary'
+                        startIcon={<i className='ri-mail-send-line' />}
+                        disabled={loading}
+                        onClick={() => setPasswordlessChannel('email')}
+                      >
+                        {dictionary?.navigation?.passwordlessEmailButton || 'Email me a sign-in link'}
+                      </Button>
+                    )}
+                    {passwordlessChannels.phone && (
+                      <Button
+                        color='secondary'
+                        variant='outlined'
+                        className='text-textPrimary'
+                        startIcon={<i className='ri-smartphone-line' />}
+                        disabled={loading}
+                        onClick={() => setPasswordlessChannel('phone')}
+                      >
+                        {dictionary?.navigation?.passwordlessSmsButton || 'Sign in with an SMS code'}
+                      </Button>
+                    )}
+                    {providers.map(provider => (
+                      <Button
+                        key={provider.slug}
+                        color='secondary'
+                        variant='outlined'
+                        className='text-textPrimary'
+                        startIcon={provider.iconUrl ? <img src={provider.iconUrl} alt='' width={22} /> : <i className='ri-shield-user-line' />}
+                        sx={{ '& .MuiButton-startIcon': { marginInlineEnd: 3 } }}
+                        onClick={() => signInWithProvider(provider.slug)}
+                      >
+                        {(dictionary?.oauth?.signInWith || 'Sign in with ${provider}').replace('${provider}', provider.displayName)}
+                      </Button>
+                    ))}
+                  </div>
+                </>
               )}
-            />
-            <div className='flex justify-between items-center flex-wrap gap-x-3 gap-y-1'>
-              <FormControlLabel control={<Checkbox defaultChecked />} label={dictionary?.navigation?.rememberMe || 'Remember me'} />
-              <Typography className='text-end' color='primary.main' component={Link} href='/forgot-password'>
-                {dictionary?.navigation?.forgotPassword || 'Forgot password?'}
-              </Typography>
-            </div>
-            <Button fullWidth variant='contained' type='submit' disabled={loading || isBlocked}>
-              {isBlocked
-                ? `Заблокировано (${Math.floor(blockTimeLeft / 60)}:${(blockTimeLeft % 60).toString().padStart(2, '0')})`
-                : loading
-                  ? dictionary?.navigation?.loggingIn || 'Logging in...'
-                  : dictionary?.navigation?.login || 'Log In'
-              }
-            </Button>
-            <div className='flex justify-center items-center flex-wrap gap-2'>
-              <Typography>{dictionary?.navigation?.newUser || 'New on our platform?'}</Typography>
-              <Typography component={Link} href='/register' color='primary.main'>
-                {dictionary?.navigation?.createAccount || 'Create an account'}
-              </Typography>
-            </div>
-          </form>
-          <Divider className='gap-3'>{dictionary?.navigation?.or || 'or'}</Divider>
-          <Button
-            color='secondary'
-            className='self-center text-textPrimary'
-            startIcon={<img src='/images/logos/google.png' alt='Google' width={22} />}
-            sx={{ '& .MuiButton-startIcon': { marginInlineEnd: 3 } }}
-            onClick={() => {
-              // TODO: Implement Google OAuth with Lucia
-              alert('Google OAuth will be implemented with Lucia')
-            }}
-          >
-            {dictionary?.navigation?.signInWithGoogle || 'Sign in with Google'}
-          </Button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,149 @@
+'use client'
+
+// React Imports
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+
+// MUI Imports
+import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
+
+export type PasswordlessLoginResponse = {
+  twoFactorRequired?: boolean
+  twoFactorState?: 'verify' | 'enroll'
+}
+
+type PasswordlessLoginStepProps = {
+  channel: 'email' | 'phone'
+  dictionary: Record<string, any> | null
+  onComplete: (result: PasswordlessLoginResponse) => void
+  onCancel: () => void
+}
+
+/**
+ * Вход без пароля: ссылка на email ('email') или SMS-код на телефон ('phone')
+ */
+const PasswordlessLoginStep = ({ channel, dictionary, onComplete, onCancel }: PasswordlessLoginStepProps) => {
+  // States
+  const [identifier, setIdentifier] = useState('')
+  const [code, setCode] = useState('')
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const post = async (url: string, body: Record<string, string>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data?.error || 'Request failed')
+    }
+
+    return data
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      if (!sent) {
+        await post('/api/auth/passwordless/request', channel === 'email' ? { email: identifier } : { phone: identifier })
+        setSent(true)
+
+        return
+      }
+
+      onComplete(await post('/api/auth/passwordless/verify', { phone: identifier, code }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form noValidate autoComplete='off' onSubmit={handleSubmit} className='flex flex-col gap-5'>
+      <div>
+        <Typography variant='h4'>
+          {channel === 'email'
+            ? dictionary?.navigation?.passwordlessEmailTitle || 'Sign in with a link'
+            : dictionary?.navigation?.passwordlessSmsTitle || 'Sign in with a code'}
+        </Typography>
+        <Typography>
+          {channel === 'email'
+            ? dictionary?.navigation?.passwordlessEmailDescription ||
+              'Enter your email and we will send you a one-time sign-in link.'
+            : dictionary?.navigation?.passwordlessSmsDescription ||
+              'Enter your phone number and we will send you a 6-digit code.'}
+        </Typography>
+      </div>
+
+      {channel === 'email' && sent ? (
+        <Alert severity='success'>
+          {dictionary?.navigation?.passwordlessLinkSent ||
+            'If an account exists for this email, a sign-in link has been sent. It is valid for 15 minutes.'}
+        </Alert>
+      ) : (
+        <>
+          <TextField
+            fullWidth
+            autoFocus
+            type={channel === 'email' ? 'email' : 'tel'}
+            label={
+              channel === 'email'
+                ? dictionary?.navigation?.emailLabel || 'Email'
+                : dictionary?.navigation?.passwordlessPhoneLabel || 'Phone number'
+            }
+            value={identifier}
+            onChange={e => {
+              setIdentifier(e.target.value)
+              error !== null && setError(null)
+            }}
+            disabled={loading || sent}
+            {...(error && !sent && { error: true, helperText: error })}
+          />
+          {sent && (
+            <TextField
+              fullWidth
+              autoFocus
+              label={dictionary?.navigation?.passwordlessCodeLabel || 'Code from SMS'}
+              value={code}
+              onChange={e => {
+                setCode(e.target.value)
+                error !== null && setError(null)
+              }}
+              disabled={loading}
+              slotProps={{ htmlInput: { autoComplete: 'one-time-code', inputMode: 'numeric' } }}
+              {...(error && { error: true, helperText: error })}
+            />
+          )}
+          <Button
+            fullWidth
+            variant='contained'
+            type='submit'
+            disabled={loading || !identifier.trim() || (sent && !code.trim())}
+          >
+            {sent
+              ? dictionary?.navigation?.passwordlessSignIn || 'Sign in'
+              : dictionary?.navigation?.passwordlessSend || 'Send'}
+          </Button>
+        </>
+      )}
+      <Button fullWidth variant='text' color='secondary' onClick={onCancel} disabled={loading}>
+        {dictionary?.navigation?.twoFactorBackToLogin || 'Back to login'}
+      </Button>
+    </form>
+  )
+}
+
+export default PasswordlessLoginStep
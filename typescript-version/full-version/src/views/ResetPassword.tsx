@@ -0,0 +1,242 @@
+'use client'
+
+// React Imports
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+
+// Next Imports
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+
+// MUI Imports
+import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import IconButton from '@mui/material/IconButton'
+import InputAdornment from '@mui/material/InputAdornment'
+import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
+
+// Third-party Imports
+import classnames from 'classnames'
+
+// Type Imports
+import type { Mode } from '@core/types'
+import type { Locale } from '@configs/i18n'
+
+// Component Imports
+import DirectionalIcon from '@components/DirectionalIcon'
+import Logo from '@components/layout/shared/Logo'
+import Illustrations from '@components/Illustrations'
+
+// Hook Imports
+import { useImageVariant } from '@core/hooks/useImageVariant'
+import { useSettings } from '@core/hooks/useSettings'
+
+// Util Imports
+import { getLocalizedUrl } from '@/utils/formatting/i18n'
+
+type Props = {
+  mode: Mode
+
+  // Токен из письма или телефон, на который отправлен SMS-код
+  token?: string
+  phone?: string
+}
+
+const ResetPassword = ({ mode, token, phone }: Props) => {
+  // States
+  const [isPasswordShown, setIsPasswordShown] = useState(false)
+  const [isConfirmPasswordShown, setIsConfirmPasswordShown] = useState(false)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  // Vars
+  const darkImg = '/images/pages/auth-v2-mask-dark.png'
+  const lightImg = '/images/pages/auth-v2-mask-light.png'
+  const darkIllustration = '/images/illustrations/auth/v2-reset-password-dark.png'
+  const lightIllustration = '/images/illustrations/auth/v2-reset-password-light.png'
+  const borderedDarkIllustration = '/images/illustrations/auth/v2-reset-password-dark-border.png'
+  const borderedLightIllustration = '/images/illustrations/auth/v2-reset-password-light-border.png'
+
+  // Hooks
+  const { lang: locale } = useParams()
+  const { settings } = useSettings()
+  const authBackground = useImageVariant(mode, lightImg, darkImg)
+
+  const characterIllustration = useImageVariant(
+    mode,
+    lightIllustration,
+    darkIllustration,
+    borderedLightIllustration,
+    borderedDarkIllustration
+  )
+
+  const handleClickShowPassword = () => setIsPasswordShown(show => !show)
+
+  const handleClickShowConfirmPassword = () => setIsConfirmPasswordShown(show => !show)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(token ? { token, password, confirmPassword } : { phone, code, password, confirmPassword })
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to reset password')
+      }
+
+      setSuccess(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isLinkMissing = !token && !phone
+
+  return (
+    <div className='flex bs-full justify-center'>
+      <div
+        className={classnames(
+          'flex bs-full items-center justify-center flex-1 min-bs-[100dvh] relative p-6 max-md:hidden',
+          {
+            'border-ie': settings.skin === 'bordered'
+          }
+        )}
+      >
+        <div className='plb-12 pis-12'>
+          <img
+            src={characterIllustration}
+            alt='character-illustration'
+            className='max-bs-[500px] max-is-full bs-auto'
+          />
+        </div>
+        <Illustrations image2={null} maskImg={{ src: authBackground }} />
+      </div>
+      <div className='flex justify-center items-center bs-full bg-backgroundPaper !min-is-full p-6 md:!min-is-[unset] md:p-12 md:is-[480px]'>
+        <Link
+          href={getLocalizedUrl('/', locale as Locale)}
+          className='absolute block-start-5 sm:block-start-[38px] inline-start-6 sm:inline-start-[38px]'
+        >
+          <Logo />
+        </Link>
+        <div className='flex flex-col gap-5 is-full sm:is-auto md:is-full sm:max-is-[400px] md:max-is-[unset]'>
+          <div>
+            <Typography variant='h4'>Reset Password 🔒</Typography>
+            <Typography className='mbs-1'>
+              {phone
+                ? `Enter the code we sent to ${phone} and choose a new password`
+                : 'Your new password must be different from previously used passwords'}
+            </Typography>
+          </div>
+          <form noValidate autoComplete='off' onSubmit={handleSubmit} className='flex flex-col gap-5'>
+            {isLinkMissing && (
+              <Alert severity='warning'>The reset link is invalid. Request a new one on the forgot password page.</Alert>
+            )}
+            {error && <Alert severity='error'>{error}</Alert>}
+            {success && (
+              <Alert severity='success'>Your password has been changed. Sign in with the new password.</Alert>
+            )}
+            {phone && (
+              <TextField
+                autoFocus
+                fullWidth
+                label='Code'
+                value={code}
+                onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                disabled={loading || success}
+                slotProps={{ htmlInput: { inputMode: 'numeric' } }}
+              />
+            )}
+            <TextField
+              autoFocus={!phone}
+              fullWidth
+              label='Password'
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              disabled={isLinkMissing || loading || success}
+              type={isPasswordShown ? 'text' : 'password'}
+              slotProps={{
+                input: {
+                  endAdornment: (
+                    <InputAdornment position='end'>
+                      <IconButton
+                        size='small'
+                        edge='end'
+                        onClick={handleClickShowPassword}
+                        onMouseDown={e => e.preventDefault()}
+                      >
+                        <i className={isPasswordShown ? 'ri-eye-off-line' : 'ri-eye-line'} />
+                      </IconButton>
+                    </InputAdornment>
+                  )
+                }
+              }}
+            />
+            <TextField
+              fullWidth
+              label='Confirm Password'
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+              disabled={isLinkMissing || loading || success}
+              type={isConfirmPasswordShown ? 'text' : 'password'}
+              slotProps={{
+                input: {
+                  endAdornment: (
+                    <InputAdornment position='end'>
+                      <IconButton
+                        size='small'
+                        edge='end'
+                        onClick={handleClickShowConfirmPassword}
+                        onMouseDown={e => e.preventDefault()}
+                      >
+                        <i className={isConfirmPasswordShown ? 'ri-eye-off-line' : 'ri-eye-line'} />
+                      </IconButton>
+                    </InputAdornment>
+                  )
+                }
+              }}
+            />
+            <Button
+              fullWidth
+              variant='contained'
+              type='submit'
+              disabled={isLinkMissing || loading || success || !password || (!!phone && code.length !== 6)}
+            >
+              Set New Password
+            </Button>
+            <Typography className='flex justify-center items-center' color='primary.main'>
+              <Link
+                href={getLocalizedUrl('/login', locale as Locale)}
+                className='flex items-center gap-1.5'
+              >
+                <DirectionalIcon
+                  ltrIconClass='ri-arrow-left-s-line'
+                  rtlIconClass='ri-arrow-right-s-line'
+                  className='text-xl'
+                />
+                <span>Back to Login</span>
+              </Link>
+            </Typography>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ResetPassword
@@ -0,0 +1,172 @@
+'use client'
+
+// React Imports
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+
+// MUI Imports
+import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
+import AlertTitle from '@mui/material/AlertTitle'
+
+// Context Imports
+import { useAuth } from '@/contexts/AuthProvider'
+
+type TwoFactorLoginStepProps = {
+  state: 'verify' | 'enroll'
+  dictionary: Record<string, any> | null
+  onComplete: () => void
+  onCancel: () => void
+}
+
+type Enrollment = {
+  secret: string
+  otpauthUri: string
+}
+
+/**
+ * Второй шаг входа: код из приложения-аутентификатора ('verify')
+ * или обязательная настройка 2FA для роли ('enroll')
+ */
+const TwoFactorLoginStep = ({ state, dictionary, onComplete, onCancel }: TwoFactorLoginStepProps) => {
+  // States
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  // Hooks
+  const { verifyTwoFactor, refreshSession } = useAuth()
+
+  useEffect(() => {
+    if (state !== 'enroll') return
+
+    const startEnrollment = async () => {
+      const response = await fetch('/api/auth/two-factor/setup', { method: 'POST', credentials: 'include' })
+      const data = await response.json().catch(() => ({}))
+
+      if (response.ok) {
+        setEnrollment(data)
+      } else {
+        setError(data?.error || 'Не удалось начать настройку')
+      }
+    }
+
+    startEnrollment()
+  }, [state])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      if (state === 'verify') {
+        await verifyTwoFactor(code)
+        onComplete()
+
+        return
+      }
+
+      const response = await fetch('/api/auth/two-factor/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ code })
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Неверный код')
+      }
+
+      await refreshSession()
+      setRecoveryCodes(data.recoveryCodes || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className='flex flex-col gap-5'>
+        <div>
+          <Typography variant='h4'>{dictionary?.navigation?.twoFactorRecoveryCodesTitle || 'Recovery codes'}</Typography>
+          <Typography>
+            {dictionary?.navigation?.twoFactorRecoveryCodesDescription ||
+              'Store these one-time codes in a safe place. Each code can be used once if you lose access to your authenticator app.'}
+          </Typography>
+        </div>
+        <Alert severity='warning' icon={false}>
+          <div className='grid grid-cols-2 gap-x-6 gap-y-1 font-mono'>
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+        </Alert>
+        <Button fullWidth variant='contained' onClick={onComplete}>
+          {dictionary?.navigation?.twoFactorContinue || 'Continue'}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form noValidate autoComplete='off' onSubmit={handleSubmit} className='flex flex-col gap-5'>
+      <div>
+        <Typography variant='h4'>
+          {state === 'verify'
+            ? dictionary?.navigation?.twoFactorVerifyTitle || 'Two-step verification'
+            : dictionary?.navigation?.twoFactorEnrollTitle || 'Set up two-factor authentication'}
+        </Typography>
+        <Typography>
+          {state === 'verify'
+            ? dictionary?.navigation?.twoFactorVerifyDescription ||
+              'Enter the 6-digit code from your authenticator app or one of your recovery codes.'
+            : dictionary?.navigation?.twoFactorEnrollDescription ||
+              'Your role requires two-factor authentication. Add this key to an authenticator app and enter the 6-digit code it shows.'}
+        </Typography>
+      </div>
+
+      {enrollment && (
+        <Alert severity='info' icon={false}>
+          <AlertTitle>{dictionary?.navigation?.twoFactorSecretLabel || 'Setup key'}</AlertTitle>
+          <Typography className='font-mono break-all' color='text.primary'>
+            {enrollment.secret}
+          </Typography>
+          <Typography component='a' href={enrollment.otpauthUri} color='primary.main'>
+            {dictionary?.navigation?.twoFactorOpenApp || 'Open in authenticator app'}
+          </Typography>
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        autoFocus
+        label={dictionary?.navigation?.twoFactorCodeLabel || 'Authentication code'}
+        value={code}
+        onChange={e => {
+          setCode(e.target.value)
+          error !== null && setError(null)
+        }}
+        disabled={loading || (state === 'enroll' && !enrollment)}
+        slotProps={{ htmlInput: { autoComplete: 'one-time-code', inputMode: state === 'verify' ? 'text' : 'numeric' } }}
+        {...(error && { error: true, helperText: error })}
+      />
+      <Button fullWidth variant='contained' type='submit' disabled={loading || !code.trim()}>
+        {dictionary?.navigation?.twoFactorVerify || 'Verify'}
+      </Button>
+      <Button fullWidth variant='text' color='secondary' onClick={onCancel} disabled={loading}>
+        {dictionary?.navigation?.twoFactorBackToLogin || 'Back to login'}
+      </Button>
+    </form>
+  )
+}
+
+export default TwoFactorLoginStep
@@ -0,0 +1,199 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import Box from '@mui/material/Box'
+import Button from '@mui/material/Button'
+import Card from '@mui/material/Card'
+import CardContent from '@mui/material/CardContent'
+import CardHeader from '@mui/material/CardHeader'
+import Chip from '@mui/material/Chip'
+import CircularProgress from '@mui/material/CircularProgress'
+import Grid from '@mui/material/Grid2'
+import MenuItem from '@mui/material/MenuItem'
+import TextField from '@mui/material/TextField'
+import Typography from '@mui/material/Typography'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
+import type { ChatFilterAction, ChatModerationSettings } from '@/services/chat'
+
+const FILTER_ACTIONS: { value: ChatFilterAction; label: string }[] = [
+  { value: 'allow', label: 'Пропускать' },
+  { value: 'flag', label: 'На модерацию' },
+  { value: 'block', label: 'Не отправлять' }
+]
+
+const RULES: { key: 'bannedWordsAction' | 'linkAction' | 'phoneAction'; label: string }[] = [
+  { key: 'bannedWordsAction', label: 'Запрещённые слова' },
+  { key: 'linkAction', label: 'Ссылки' },
+  { key: 'phoneAction', label: 'Номера телефонов' }
+]
+
+const ChatFilterSettings = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [settings, setSettings] = useState<ChatModerationSettings | null>(null)
+  const [newWord, setNewWord] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const canModerate = checkPermission(
+    SOCKET_PERMISSION_SOURCES.moderate_chat.module,
+    SOCKET_PERMISSION_SOURCES.moderate_chat.action
+  )
+
+  useEffect(() => {
+    if (permissionsLoading || !canModerate) return
+
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/admin/chat/moderation/settings')
+
+        if (!response.ok) throw new Error('Failed to load filter settings')
+
+        setSettings(await response.json())
+      } catch (error) {
+        toast.error('Ошибка загрузки настроек фильтра')
+        console.error(error)
+      }
+    }
+
+    fetchSettings()
+  }, [canModerate, permissionsLoading])
+
+  if (permissionsLoading || !canModerate) return null
+
+  if (!settings) {
+    return (
+      <Card>
+        <CardContent className='flex justify-center py-8'>
+          <CircularProgress />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const addWord = () => {
+    const word = newWord.trim().toLowerCase()
+
+    if (!word || settings.bannedWords.includes(word)) return
+
+    setSettings({ ...settings, bannedWords: [...settings.bannedWords, word] })
+    setNewWord('')
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/admin/chat/moderation/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to save filter settings')
+
+      toast.success('Настройки фильтра сохранены')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка сохранения настроек')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title='Контент-фильтр'
+        subheader='Проверка сообщений перед отправкой. «На модерацию» - сообщение отправляется и попадает в очередь'
+        action={
+          <Button variant='contained' onClick={handleSave} disabled={saving}>
+            Сохранить
+          </Button>
+        }
+      />
+      <CardContent>
+        <Grid container spacing={4}>
+          {RULES.map(rule => (
+            <Grid key={rule.key} size={{ xs: 12, md: 4 }}>
+              <TextField
+                select
+                fullWidth
+                label={rule.label}
+                value={settings[rule.key]}
+                onChange={e => setSettings({ ...settings, [rule.key]: e.target.value as ChatFilterAction })}
+              >
+                {FILTER_ACTIONS.map(action => (
+                  <MenuItem key={action.value} value={action.value}>
+                    {action.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+          ))}
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField
+              fullWidth
+              type='number'
+              label='Одинаковых сообщений подряд'
+              value={settings.spamRepeatLimit}
+              onChange={e => setSettings({ ...settings, spamRepeatLimit: Math.max(0, Number(e.target.value)) })}
+              helperText='Следующее такое же сообщение не отправляется. 0 - без проверки'
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField
+              fullWidth
+              type='number'
+              label='Окно проверки повторов, секунд'
+              value={settings.spamWindowSeconds}
+              onChange={e => setSettings({ ...settings, spamWindowSeconds: Math.max(1, Number(e.target.value)) })}
+            />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <Typography variant='subtitle2' sx={{ mb: 2 }}>
+              Запрещённые слова и фразы
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField
+                size='small'
+                placeholder='Слово или фраза'
+                value={newWord}
+                onChange={e => setNewWord(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addWord()}
+              />
+              <Button variant='outlined' onClick={addWord}>
+                Добавить
+              </Button>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {settings.bannedWords.length === 0 && (
+                <Typography variant='body2' color='text.secondary'>
+                  Список пуст
+                </Typography>
+              )}
+              {settings.bannedWords.map(word => (
+                <Chip
+                  key={word}
+                  size='small'
+                  label={word}
+                  onDelete={() =>
+                    setSettings({ ...settings, bannedWords: settings.bannedWords.filter(item => item !== word) })
+                  }
+                />
+              ))}
+            </Box>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ChatFilterSettings
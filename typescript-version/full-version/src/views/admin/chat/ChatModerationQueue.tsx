@@ -0,0 +1,411 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import Alert from '@mui/material/Alert'
+import Box from '@mui/material/Box'
+import Button from '@mui/material/Button'
+import Card from '@mui/material/Card'
+import CardContent from '@mui/material/CardContent'
+import CardHeader from '@mui/material/CardHeader'
+import Chip from '@mui/material/Chip'
+import CircularProgress from '@mui/material/CircularProgress'
+import Dialog from '@mui/material/Dialog'
+import DialogActions from '@mui/material/DialogActions'
+import DialogContent from '@mui/material/DialogContent'
+import DialogTitle from '@mui/material/DialogTitle'
+import IconButton from '@mui/material/IconButton'
+import MenuItem from '@mui/material/MenuItem'
+import Table from '@mui/material/Table'
+import TableBody from '@mui/material/TableBody'
+import TableCell from '@mui/material/TableCell'
+import TableHead from '@mui/material/TableHead'
+import TablePagination from '@mui/material/TablePagination'
+import TableRow from '@mui/material/TableRow'
+import TextField from '@mui/material/TextField'
+import Tooltip from '@mui/material/Tooltip'
+import Typography from '@mui/material/Typography'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
+import type { ChatModerationAction } from '@/lib/sockets/types/chat'
+import type { ChatModerationQueueItem } from '@/services/chat'
+
+// Даты приходят из API строками
+type QueueItem = {
+  message: Omit<ChatModerationQueueItem['message'], 'createdAt' | 'hiddenAt'> & {
+    createdAt: string
+    hiddenAt: string | null
+  }
+  reports: (Omit<ChatModerationQueueItem['reports'][number], 'createdAt'> & { createdAt: string })[]
+}
+
+const REASON_LABELS: Record<string, string> = {
+  spam: 'Спам',
+  abuse: 'Оскорбления',
+  harassment: 'Преследование',
+  other: 'Другое',
+  filter: 'Фильтр'
+}
+
+const ACTION_MESSAGES: Record<ChatModerationAction, string> = {
+  hide: 'Сообщение скрыто',
+  unhide: 'Сообщение снова видно',
+  delete: 'Сообщение удалено',
+  warn: 'Автору отправлено предупреждение',
+  mute: 'Автору запрещено писать в чат',
+  dismiss: 'Жалобы отклонены'
+}
+
+// Срок запрета писать, минуты (0 - бессрочно)
+const MUTE_DURATIONS = [
+  { value: 60, label: '1 час' },
+  { value: 24 * 60, label: '1 день' },
+  { value: 7 * 24 * 60, label: '7 дней' },
+  { value: 30 * 24 * 60, label: '30 дней' },
+  { value: 0, label: 'Бессрочно' }
+]
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '–'
+
+  try {
+    return new Intl.DateTimeFormat('ru-RU', {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(new Date(value))
+  } catch {
+    return value
+  }
+}
+
+const ChatModerationQueue = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(20)
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [sanction, setSanction] = useState<{ item: QueueItem; action: 'warn' | 'mute' } | null>(null)
+  const [sanctionReason, setSanctionReason] = useState('')
+  const [muteDuration, setMuteDuration] = useState(24 * 60)
+
+  // Права доступа (moderate_chat)
+  const canModerate = checkPermission(
+    SOCKET_PERMISSION_SOURCES.moderate_chat.module,
+    SOCKET_PERMISSION_SOURCES.moderate_chat.action
+  )
+
+  // Загрузка очереди
+  const fetchQueue = useCallback(async () => {
+    if (!canModerate) {
+      setLoading(false)
+
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const params = new URLSearchParams({ page: String(page + 1), limit: String(rowsPerPage) })
+      const response = await fetch(`/api/admin/chat/moderation?${params}`)
+
+      if (!response.ok) throw new Error('Failed to load moderation queue')
+
+      const data = await response.json()
+
+      setItems(data.items || [])
+      setTotal(data.total || 0)
+    } catch (error) {
+      toast.error('Ошибка загрузки очереди модерации')
+      console.error(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [canModerate, page, rowsPerPage])
+
+  useEffect(() => {
+    if (!permissionsLoading) {
+      fetchQueue()
+    }
+  }, [fetchQueue, permissionsLoading])
+
+  const moderate = async (
+    item: QueueItem,
+    action: ChatModerationAction,
+    options: { reason?: string; durationMinutes?: number } = {}
+  ) => {
+    setProcessingId(item.message.id)
+
+    try {
+      const response = await fetch(`/api/admin/chat/moderation/${item.message.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...options })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to moderate message')
+
+      toast.success(ACTION_MESSAGES[action])
+      setSanction(null)
+
+      // unhide не закрывает жалобы - сообщение остаётся в очереди
+      if (action !== 'unhide' && items.length === 1 && page > 0) {
+        setPage(page - 1)
+      } else {
+        fetchQueue()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка модерации')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  const openSanction = (item: QueueItem, action: 'warn' | 'mute') => {
+    setSanction({ item, action })
+    setSanctionReason('')
+    setMuteDuration(24 * 60)
+  }
+
+  // Рендер
+  if (permissionsLoading) {
+    return (
+      <div className='flex justify-center items-center py-16'>
+        <CircularProgress />
+      </div>
+    )
+  }
+
+  if (!canModerate) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography>Нет доступа к модерации чата</Typography>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader
+          title='Модерация чата'
+          subheader='Сообщения с жалобами участников и отметками контент-фильтра, самые старые первыми'
+          action={
+            <Button variant='outlined' onClick={fetchQueue} disabled={loading}>
+              <i className='ri-refresh-line mr-2' />
+              Обновить
+            </Button>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <div className='flex justify-center items-center py-8'>
+              <CircularProgress />
+            </div>
+          ) : items.length === 0 ? (
+            <Alert severity='success'>Очередь пуста - все жалобы рассмотрены</Alert>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Сообщение</TableCell>
+                  <TableCell>Автор</TableCell>
+                  <TableCell>Жалобы</TableCell>
+                  <TableCell>Отправлено</TableCell>
+                  <TableCell align='right'>Действия</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map(item => {
+                  const isProcessing = processingId === item.message.id
+
+                  return (
+                    <TableRow key={item.message.id} hover>
+                      <TableCell sx={{ maxWidth: 360 }}>
+                        <Typography sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                          {item.message.content || '–'}
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                          {item.message.hiddenAt && <Chip size='small' color='warning' label='Скрыто' />}
+                          {item.message.attachmentsCount > 0 && (
+                            <Chip size='small' variant='outlined' label={`Вложений: ${item.message.attachmentsCount}`} />
+                          )}
+                          {item.message.roomName && (
+                            <Chip size='small' variant='outlined' label={item.message.roomName} />
+                          )}
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant='body2'>{item.message.sender.name || '–'}</Typography>
+                        <Typography variant='caption' color='text.secondary'>
+                          {item.message.sender.email || item.message.sender.id}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                          {item.reports.map(report => (
+                            <Tooltip
+                              key={report.id}
+                              title={[
+                                report.reporter?.name || report.reporter?.email || 'Контент-фильтр',
+                                formatDateTime(report.createdAt),
+                                report.details
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            >
+                              <Chip
+                                size='small'
+                                variant='outlined'
+                                color={report.reporter ? 'error' : 'secondary'}
+                                label={REASON_LABELS[report.reason] || report.reason}
+                              />
+                            </Tooltip>
+                          ))}
+                        </Box>
+                      </TableCell>
+                      <TableCell>{formatDateTime(item.message.createdAt)}</TableCell>
+                      <TableCell align='right' sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title={item.message.hiddenAt ? 'Показать' : 'Скрыть'}>
+                          <span>
+                            <IconButton
+                              size='small'
+                              onClick={() => moderate(item, item.message.hiddenAt ? 'unhide' : 'hide')}
+                              disabled={isProcessing}
+                            >
+                              <i className={item.message.hiddenAt ? 'ri-eye-line' : 'ri-eye-off-line'} />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title='Удалить'>
+                          <span>
+                            <IconButton
+                              size='small'
+                              color='error'
+                              onClick={() => moderate(item, 'delete')}
+                              disabled={isProcessing}
+                            >
+                              <i className='ri-delete-bin-7-line' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title='Предупредить автора'>
+                          <span>
+                            <IconButton
+                              size='small'
+                              color='warning'
+                              onClick={() => openSanction(item, 'warn')}
+                              disabled={isProcessing}
+                            >
+                              <i className='ri-alarm-warning-line' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title='Запретить писать'>
+                          <span>
+                            <IconButton
+                              size='small'
+                              color='error'
+                              onClick={() => openSanction(item, 'mute')}
+                              disabled={isProcessing}
+                            >
+                              <i className='ri-chat-off-line' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title='Отклонить жалобы'>
+                          <span>
+                            <IconButton size='small' onClick={() => moderate(item, 'dismiss')} disabled={isProcessing}>
+                              <i className='ri-check-line' />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <TablePagination
+            component='div'
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={e => {
+              setRowsPerPage(parseInt(e.target.value, 10))
+              setPage(0)
+            }}
+            rowsPerPageOptions={[10, 20, 50]}
+            labelRowsPerPage='Строк:'
+          />
+        </CardContent>
+      </Card>
+
+      {/* Предупреждение или запрет писать с причиной */}
+      <Dialog open={!!sanction} onClose={() => setSanction(null)} maxWidth='sm' fullWidth>
+        <DialogTitle>{sanction?.action === 'mute' ? 'Запретить писать в чат' : 'Предупредить автора'}</DialogTitle>
+        <DialogContent>
+          <Typography variant='body2' sx={{ mb: 2 }}>
+            {sanction?.item.message.sender.name || sanction?.item.message.sender.email}
+          </Typography>
+          {sanction?.action === 'mute' && (
+            <TextField
+              select
+              fullWidth
+              label='Срок'
+              value={muteDuration}
+              onChange={e => setMuteDuration(Number(e.target.value))}
+              sx={{ mb: 2 }}
+            >
+              {MUTE_DURATIONS.map(duration => (
+                <MenuItem key={duration.value} value={duration.value}>
+                  {duration.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label='Причина'
+            value={sanctionReason}
+            onChange={e => setSanctionReason(e.target.value)}
+            helperText='Причина отправляется автору сообщения'
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSanction(null)}>Отмена</Button>
+          <Button
+            color={sanction?.action === 'mute' ? 'error' : 'warning'}
+            variant='contained'
+            onClick={() =>
+              sanction &&
+              moderate(sanction.item, sanction.action, {
+                reason: sanctionReason.trim() || undefined,
+                durationMinutes: sanction.action === 'mute' && muteDuration > 0 ? muteDuration : undefined
+              })
+            }
+            disabled={processingId === sanction?.item.message.id}
+          >
+            {sanction?.action === 'mute' ? 'Запретить' : 'Предупредить'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default ChatModerationQueue
@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import Button from '@mui/material/Button'
+import Card from '@mui/material/Card'
+import CardContent from '@mui/material/CardContent'
+import CardHeader from '@mui/material/CardHeader'
+import Checkbox from '@mui/material/Checkbox'
+import CircularProgress from '@mui/material/CircularProgress'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import Grid from '@mui/material/Grid2'
+import Switch from '@mui/material/Switch'
+import TextField from '@mui/material/TextField'
+import Typography from '@mui/material/Typography'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+import type { ChatOfflineChannel, ChatOfflineNotificationSettings as Settings } from '@/services/chat'
+
+const CHANNELS: { value: ChatOfflineChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'telegram', label: 'Telegram' },
+  { value: 'sms', label: 'SMS' }
+]
+
+const ChatOfflineNotificationSettings = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const canRead = checkPermission('settings', 'read')
+  const canEdit = checkPermission('settings', 'edit')
+
+  useEffect(() => {
+    if (permissionsLoading || !canRead) return
+
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/admin/chat/offline-notifications')
+
+        if (!response.ok) throw new Error('Failed to load offline notification settings')
+
+        setSettings(await response.json())
+      } catch (error) {
+        toast.error('Ошибка загрузки настроек сводок')
+        console.error(error)
+      }
+    }
+
+    fetchSettings()
+  }, [canRead, permissionsLoading])
+
+  if (permissionsLoading || !canRead) return null
+
+  if (!settings) {
+    return (
+      <Card>
+        <CardContent className='flex justify-center py-8'>
+          <CircularProgress />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const toggleChannel = (channel: ChatOfflineChannel, checked: boolean) => {
+    setSettings({
+      ...settings,
+      channels: checked ? [...settings.channels, channel] : settings.channels.filter(item => item !== channel)
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    try {
+      const { enabled, delayMinutes, offlineThresholdMinutes, channels } = settings
+
+      const response = await fetch('/api/admin/chat/offline-notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled, delayMinutes, offlineThresholdMinutes, channels })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to save offline notification settings')
+
+      setSettings(data)
+      toast.success('Настройки сводок сохранены')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка сохранения настроек')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title='Сводки для пользователей не в сети'
+        subheader='Непрочитанные сообщения комнаты приходят одной сводкой, если получатель не прочитал их за отведённое время. Комнаты с отключёнными уведомлениями не учитываются'
+        action={
+          canEdit && (
+            <Button variant='contained' onClick={handleSave} disabled={saving}>
+              Сохранить
+            </Button>
+          )
+        }
+      />
+      <CardContent>
+        <Grid container spacing={4}>
+          <Grid size={{ xs: 12 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={settings.enabled}
+                  onChange={e => setSettings({ ...settings, enabled: e.target.checked })}
+                  disabled={!canEdit}
+                />
+              }
+              label='Отправлять сводки'
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField
+              fullWidth
+              type='number'
+              label='Задержка, минут'
+              value={settings.delayMinutes}
+              onChange={e => setSettings({ ...settings, delayMinutes: Math.max(1, Number(e.target.value)) })}
+              helperText='От первого непрочитанного сообщения до отправки сводки'
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField
+              fullWidth
+              type='number'
+              label='Не в сети после, минут'
+              value={settings.offlineThresholdMinutes}
+              onChange={e => setSettings({ ...settings, offlineThresholdMinutes: Math.max(1, Number(e.target.value)) })}
+              helperText='Пользователь без подключения к чату, последняя активность которого старше'
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <Typography variant='subtitle2'>Каналы</Typography>
+            {CHANNELS.map(channel => (
+              <FormControlLabel
+                key={channel.value}
+                control={
+                  <Checkbox
+                    checked={settings.channels.includes(channel.value)}
+                    onChange={e => toggleChannel(channel.value, e.target.checked)}
+                    disabled={!canEdit}
+                  />
+                }
+                label={channel.label}
+              />
+            ))}
+            <Typography variant='body2' color='text.secondary'>
+              Пользователь может выключить каналы категории «Чат» в своих настройках уведомлений; тихие часы переносят
+              Telegram и SMS
+            </Typography>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ChatOfflineNotificationSettings
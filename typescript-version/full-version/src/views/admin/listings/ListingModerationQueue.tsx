@@ -0,0 +1,418 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import Alert from '@mui/material/Alert'
+import Avatar from '@mui/material/Avatar'
+import Box from '@mui/material/Box'
+import Button from '@mui/material/Button'
+import Card from '@mui/material/Card'
+import CardContent from '@mui/material/CardContent'
+import CardHeader from '@mui/material/CardHeader'
+import Chip from '@mui/material/Chip'
+import CircularProgress from '@mui/material/CircularProgress'
+import Dialog from '@mui/material/Dialog'
+import DialogActions from '@mui/material/DialogActions'
+import DialogContent from '@mui/material/DialogContent'
+import DialogTitle from '@mui/material/DialogTitle'
+import IconButton from '@mui/material/IconButton'
+import Table from '@mui/material/Table'
+import TableBody from '@mui/material/TableBody'
+import TableCell from '@mui/material/TableCell'
+import TableHead from '@mui/material/TableHead'
+import TablePagination from '@mui/material/TablePagination'
+import TableRow from '@mui/material/TableRow'
+import TextField from '@mui/material/TextField'
+import Tooltip from '@mui/material/Tooltip'
+import Typography from '@mui/material/Typography'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+import type { ListingView } from '@/services/listings/types'
+
+// Даты приходят из API строками
+type QueueListing = Omit<ListingView, 'createdAt' | 'updatedAt' | 'publishedAt' | 'moderatedAt'> & {
+  createdAt: string
+  updatedAt: string
+  owner: { id: string; name: string | null; email: string | null; image: string | null } | null
+}
+
+// Быстрые причины отклонения, текст можно дополнить вручную
+const REJECTION_REASONS = [
+  'Запрещённый товар или услуга',
+  'Недостоверная цена',
+  'Неподходящая категория',
+  'Некачественные или чужие фотографии',
+  'Контакты в описании'
+]
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '–'
+
+  try {
+    return new Intl.DateTimeFormat('ru-RU', {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(new Date(value))
+  } catch {
+    return value
+  }
+}
+
+const formatPrice = (price: number | null, currency: string) => {
+  if (price === null) return 'Договорная'
+
+  try {
+    return new Intl.NumberFormat('ru-RU', { style: 'currency', currency, maximumFractionDigits: 2 }).format(price)
+  } catch {
+    return `${price} ${currency}`
+  }
+}
+
+const ListingModerationQueue = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [items, setItems] = useState<QueueListing[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(20)
+  const [loading, setLoading] = useState(true)
+  const [previewListing, setPreviewListing] = useState<QueueListing | null>(null)
+  const [rejectingListing, setRejectingListing] = useState<QueueListing | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  // Права доступа
+  const canRead = checkPermission('listingModeration', 'read')
+  const canModerate = checkPermission('listingModeration', 'update')
+
+  // Загрузка очереди
+  const fetchQueue = useCallback(async () => {
+    if (!canRead) {
+      setLoading(false)
+
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const params = new URLSearchParams({ page: String(page + 1), limit: String(rowsPerPage) })
+      const response = await fetch(`/api/admin/listings/moderation?${params}`)
+
+      if (!response.ok) throw new Error('Failed to load moderation queue')
+
+      const data = await response.json()
+
+      setItems(data.items || [])
+      setTotal(data.total || 0)
+    } catch (error) {
+      toast.error('Ошибка загрузки очереди модерации')
+      console.error(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [canRead, page, rowsPerPage])
+
+  useEffect(() => {
+    if (!permissionsLoading) {
+      fetchQueue()
+    }
+  }, [fetchQueue, permissionsLoading])
+
+  // Решение модератора: APPROVE / REJECT через workflow
+  const moderate = async (listing: QueueListing, action: 'approve' | 'reject', reason?: string) => {
+    setProcessingId(listing.id)
+
+    try {
+      const response = await fetch(`/api/admin/listings/${listing.id}/moderate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to moderate listing')
+
+      toast.success(action === 'approve' ? 'Объявление опубликовано' : 'Объявление отклонено')
+      setPreviewListing(null)
+      setRejectingListing(null)
+      setRejectionReason('')
+
+      // Последний элемент страницы - возвращаемся на предыдущую
+      if (items.length === 1 && page > 0) {
+        setPage(page - 1)
+      } else {
+        fetchQueue()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка модерации')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  const openReject = (listing: QueueListing) => {
+    setRejectingListing(listing)
+    setRejectionReason('')
+  }
+
+  // Рендер
+  if (permissionsLoading) {
+    return (
+      <div className='flex justify-center items-center py-16'>
+        <CircularProgress />
+      </div>
+    )
+  }
+
+  if (!canRead) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography>Нет доступа к модерации объявлений</Typography>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader
+          title='Модерация объявлений'
+          subheader='Объявления на проверке, самые старые первыми'
+          action={
+            <Button variant='outlined' onClick={fetchQueue} disabled={loading}>
+              <i className='ri-refresh-line mr-2' />
+              Обновить
+            </Button>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <div className='flex justify-center items-center py-8'>
+              <CircularProgress />
+            </div>
+          ) : items.length === 0 ? (
+            <Alert severity='success'>Очередь пуста - все объявления проверены</Alert>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Объявление</TableCell>
+                  <TableCell>Категория</TableCell>
+                  <TableCell>Цена</TableCell>
+                  <TableCell>Автор</TableCell>
+                  <TableCell>Отправлено</TableCell>
+                  <TableCell align='right'>Действия</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map(listing => (
+                  <TableRow key={listing.id} hover>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                        <Avatar variant='rounded' src={listing.images[0]?.thumbUrl} sx={{ width: 56, height: 56 }}>
+                          <i className='ri-image-line' />
+                        </Avatar>
+                        <Box>
+                          <Typography
+                            fontWeight={500}
+                            sx={{ cursor: 'pointer' }}
+                            onClick={() => setPreviewListing(listing)}
+                          >
+                            {listing.title}
+                          </Typography>
+                          <Typography variant='caption' color='text.secondary'>
+                            {listing.location || 'Место не указано'} · фото: {listing.images.length}
+                          </Typography>
+                        </Box>
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      {listing.category ? <Chip size='small' variant='outlined' label={listing.category.name} /> : '–'}
+                    </TableCell>
+                    <TableCell>{formatPrice(listing.price, listing.currency)}</TableCell>
+                    <TableCell>
+                      <Typography variant='body2'>{listing.owner?.name || '–'}</Typography>
+                      <Typography variant='caption' color='text.secondary'>
+                        {listing.owner?.email || listing.ownerId}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{formatDateTime(listing.updatedAt)}</TableCell>
+                    <TableCell align='right'>
+                      <Tooltip title='Просмотр'>
+                        <IconButton size='small' onClick={() => setPreviewListing(listing)}>
+                          <i className='ri-eye-line' />
+                        </IconButton>
+                      </Tooltip>
+                      {canModerate && (
+                        <>
+                          <Tooltip title='Одобрить'>
+                            <span>
+                              <IconButton
+                                size='small'
+                                color='success'
+                                onClick={() => moderate(listing, 'approve')}
+                                disabled={processingId === listing.id}
+                              >
+                                <i className='ri-check-line' />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title='Отклонить'>
+                            <span>
+                              <IconButton
+                                size='small'
+                                color='error'
+                                onClick={() => openReject(listing)}
+                                disabled={processingId === listing.id}
+                              >
+                                <i className='ri-close-line' />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <TablePagination
+            component='div'
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={e => {
+              setRowsPerPage(parseInt(e.target.value, 10))
+              setPage(0)
+            }}
+            rowsPerPageOptions={[10, 20, 50]}
+            labelRowsPerPage='Строк:'
+          />
+        </CardContent>
+      </Card>
+
+      {/* Просмотр объявления */}
+      <Dialog open={!!previewListing} onClose={() => setPreviewListing(null)} maxWidth='md' fullWidth>
+        {previewListing && (
+          <>
+            <DialogTitle>{previewListing.title}</DialogTitle>
+            <DialogContent>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <Chip size='small' color='primary' label={formatPrice(previewListing.price, previewListing.currency)} />
+                  {previewListing.category && <Chip size='small' variant='outlined' label={previewListing.category.name} />}
+                  {previewListing.location && (
+                    <Chip size='small' variant='outlined' icon={<i className='ri-map-pin-line' />} label={previewListing.location} />
+                  )}
+                </Box>
+
+                {previewListing.images.length > 0 ? (
+                  <Box sx={{ display: 'flex', gap: 1, overflowX: 'auto' }}>
+                    {previewListing.images.map(image => (
+                      <a key={image.mediaId || image.url} href={image.url} target='_blank' rel='noreferrer'>
+                        <img
+                          src={image.thumbUrl}
+                          alt={previewListing.title}
+                          style={{ height: 120, borderRadius: 6, objectFit: 'cover' }}
+                        />
+                      </a>
+                    ))}
+                  </Box>
+                ) : (
+                  <Alert severity='warning'>Объявление без фотографий</Alert>
+                )}
+
+                <Typography sx={{ whiteSpace: 'pre-wrap' }}>{previewListing.description}</Typography>
+
+                {Object.values(previewListing.contacts).some(Boolean) && (
+                  <Box>
+                    <Typography variant='subtitle2'>Контакты</Typography>
+                    {previewListing.contacts.phone && <Typography variant='body2'>Телефон: {previewListing.contacts.phone}</Typography>}
+                    {previewListing.contacts.email && <Typography variant='body2'>Email: {previewListing.contacts.email}</Typography>}
+                    {previewListing.contacts.telegram && (
+                      <Typography variant='body2'>Telegram: {previewListing.contacts.telegram}</Typography>
+                    )}
+                  </Box>
+                )}
+
+                <Typography variant='caption' color='text.secondary'>
+                  Автор: {previewListing.owner?.name || previewListing.owner?.email || previewListing.ownerId} · создано{' '}
+                  {formatDateTime(previewListing.createdAt)}
+                </Typography>
+              </Box>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setPreviewListing(null)}>Закрыть</Button>
+              {canModerate && (
+                <>
+                  <Button
+                    color='error'
+                    variant='outlined'
+                    onClick={() => openReject(previewListing)}
+                    disabled={processingId === previewListing.id}
+                  >
+                    Отклонить
+                  </Button>
+                  <Button
+                    color='success'
+                    variant='contained'
+                    onClick={() => moderate(previewListing, 'approve')}
+                    disabled={processingId === previewListing.id}
+                  >
+                    Одобрить
+                  </Button>
+                </>
+              )}
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+
+      {/* Отклонение с причиной */}
+      <Dialog open={!!rejectingListing} onClose={() => setRejectingListing(null)} maxWidth='sm' fullWidth>
+        <DialogTitle>Отклонить объявление</DialogTitle>
+        <DialogContent>
+          <Typography variant='body2' sx={{ mb: 2 }}>
+            {rejectingListing?.title}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+            {REJECTION_REASONS.map(reason => (
+              <Chip key={reason} size='small' label={reason} onClick={() => setRejectionReason(reason)} />
+            ))}
+          </Box>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label='Причина'
+            value={rejectionReason}
+            onChange={e => setRejectionReason(e.target.value)}
+            helperText='Причина отправляется автору объявления'
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejectingListing(null)}>Отмена</Button>
+          <Button
+            color='error'
+            variant='contained'
+            onClick={() => rejectingListing && moderate(rejectingListing, 'reject', rejectionReason.trim())}
+            disabled={!rejectionReason.trim() || processingId === rejectingListing?.id}
+          >
+            Отклонить
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default ListingModerationQueue
@@ -131,6 +131,8 @@ const getChannelIcon = (channel: string) => {
       return 'ri-notification-line'
     case 'telegram':
       return 'ri-telegram-line'
+    case 'webhook':
+      return 'ri-webhook-line'
     default:
       return 'ri-notification-2-line'
   }
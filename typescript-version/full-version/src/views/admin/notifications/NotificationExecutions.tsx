@@ -29,6 +29,25 @@ import TablePagination from '@mui/material/TablePagination'
 import { toast } from 'react-toastify'
 import { usePermissions } from '@/hooks/usePermissions'
 
+// Позиция пользователя в пути (сценарий с шагами)
+interface JourneyPosition {
+  userId: string | null
+  status: string
+  currentStep: number
+  currentStepId: string | null
+  waitUntil: string | null
+  waitingForEvent: string | null
+  exitReason: string | null
+  totalSteps?: number
+}
+
+interface JourneyHistoryEntry {
+  stepId: string
+  type: string
+  outcome: string
+  at: string
+}
+
 interface Execution {
   id: string
   scenarioId: string
@@ -43,6 +62,7 @@ interface Execution {
   createdAt: string
   completedAt: string | null
   scheduledAt: string | null
+  journey: JourneyPosition | null
 }
 
 interface ExecutionDetail {
@@ -54,6 +74,7 @@ interface ExecutionDetail {
     description: string | null
     trigger: any
     actions: any[]
+    steps: any[] | null
   }
   eventId: string | null
   status: string
@@ -64,6 +85,7 @@ interface ExecutionDetail {
   createdAt: string
   completedAt: string | null
   scheduledAt: string | null
+  journey: (JourneyPosition & { history: JourneyHistoryEntry[] }) | null
 }
 
 const formatDateTime = (value?: string | null) => {
@@ -99,12 +121,50 @@ const getStatusLabel = (status: string) => {
   }
 }
 
+const getJourneyStatusLabel = (status: string) => {
+  switch (status) {
+    case 'active': return 'Выполняется'
+    case 'waiting': return 'Ожидание'
+    case 'completed': return 'Пройден'
+    case 'exited': return 'Выход'
+    case 'failed': return 'Ошибка'
+    default: return status
+  }
+}
+
+const getJourneyOutcomeLabel = (outcome: string) => {
+  switch (outcome) {
+    case 'sent': return 'отправлено'
+    case 'failed': return 'ошибка'
+    case 'waiting': return 'ожидание'
+    case 'resumed': return 'ожидание завершено'
+    case 'event_received': return 'событие получено'
+    case 'timeout': return 'тайм-аут'
+    case 'then': return 'условие выполнено'
+    case 'else': return 'условие не выполнено'
+    case 'exited': return 'выход'
+    default: return outcome
+  }
+}
+
+// Что держит путь: время окончания ожидания или ожидаемое событие
+const getJourneyWaitLabel = (journey: JourneyPosition) => {
+  if (journey.status !== 'waiting') return journey.exitReason
+
+  if (journey.waitingForEvent) {
+    return `Ждёт ${journey.waitingForEvent}${journey.waitUntil ? ` до ${formatDateTime(journey.waitUntil)}` : ''}`
+  }
+
+  return `До ${formatDateTime(journey.waitUntil)}`
+}
+
 const getChannelIcon = (channel: string | null) => {
   switch (channel) {
     case 'email': return 'ri-mail-line'
     case 'sms': return 'ri-smartphone-line'
     case 'browser': return 'ri-notification-line'
     case 'telegram': return 'ri-telegram-line'
+    case 'webhook': return 'ri-webhook-line'
     default: return 'ri-notification-2-line'
   }
 }
@@ -121,6 +181,7 @@ const NotificationExecutions = () => {
   // Filters
   const [statusFilter, setStatusFilter] = useState('')
   const [scenarioFilter, setScenarioFilter] = useState('')
+  const [userFilter, setUserFilter] = useState('')
 
   // Detail dialog
   const [detailOpen, setDetailOpen] = useState(false)
@@ -148,6 +209,7 @@ const NotificationExecutions = () => {
       })
       if (statusFilter) params.set('status', statusFilter)
       if (scenarioFilter) params.set('scenarioId', scenarioFilter)
+      if (userFilter.trim()) params.set('userId', userFilter.trim())
 
       const response = await fetch(`/api/admin/notifications/executions?${params}`)
       if (!response.ok) throw new Error('Failed to load')
@@ -160,7 +222,7 @@ const NotificationExecutions = () => {
     } finally {
       setLoading(false)
     }
-  }, [canRead, page, rowsPerPage, statusFilter, scenarioFilter])
+  }, [canRead, page, rowsPerPage, statusFilter, scenarioFilter, userFilter])
 
   useEffect(() => {
     if (!permissionsLoading) {
@@ -259,10 +321,20 @@ const NotificationExecutions = () => {
                 <MenuItem value='pending'>Ожидает</MenuItem>
               </TextField>
             </Grid>
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                size='small'
+                label='ID пользователя'
+                placeholder='Пути пользователя'
+                value={userFilter}
+                onChange={e => { setUserFilter(e.target.value); setPage(0) }}
+              />
+            </Grid>
             <Grid item xs={12} sm={4}>
               <Button 
                 variant='text' 
-                onClick={() => { setStatusFilter(''); setScenarioFilter(''); setPage(0) }}
+                onClick={() => { setStatusFilter(''); setScenarioFilter(''); setUserFilter(''); setPage(0) }}
               >
                 Сбросить фильтры
               </Button>
@@ -276,6 +348,7 @@ const NotificationExecutions = () => {
                 <TableCell>Сценарий</TableCell>
                 <TableCell>Канал</TableCell>
                 <TableCell>Статус</TableCell>
+                <TableCell>Путь</TableCell>
                 <TableCell>Попытки</TableCell>
                 <TableCell>Создан</TableCell>
                 <TableCell>Завершён</TableCell>
@@ -311,6 +384,22 @@ const NotificationExecutions = () => {
                       color={getStatusColor(exec.status) as any}
                     />
                   </TableCell>
+                  <TableCell>
+                    {exec.journey ? (
+                      <>
+                        <Typography variant='body2'>
+                          Шаг {exec.journey.currentStep + 1}/{exec.journey.totalSteps || '–'}
+                          {exec.journey.currentStepId && ` · ${exec.journey.currentStepId}`}
+                        </Typography>
+                        <Typography variant='caption' color='text.secondary'>
+                          {getJourneyStatusLabel(exec.journey.status)}
+                          {getJourneyWaitLabel(exec.journey) && ` · ${getJourneyWaitLabel(exec.journey)}`}
+                        </Typography>
+                      </>
+                    ) : (
+                      '–'
+                    )}
+                  </TableCell>
                   <TableCell>
                     {exec.attempts}/{exec.maxAttempts}
                   </TableCell>
@@ -351,7 +440,7 @@ const NotificationExecutions = () => {
               ))}
               {executions.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={7} align='center'>
+                  <TableCell colSpan={8} align='center'>
                     <Typography variant='body2' color='text.secondary'>
                       Нет данных
                     </Typography>
@@ -422,6 +511,30 @@ const NotificationExecutions = () => {
                   {selectedExecution.eventId || '–'}
                 </Typography>
               </Grid>
+              {selectedExecution.journey && (
+                <Grid item xs={12}>
+                  <Typography variant='subtitle2' color='text.secondary'>Путь</Typography>
+                  <Typography>
+                    Шаг {selectedExecution.journey.currentStep + 1}/{selectedExecution.scenario.steps?.length || '–'}
+                    {selectedExecution.journey.currentStepId && ` (${selectedExecution.journey.currentStepId})`}
+                    {' · '}
+                    {getJourneyStatusLabel(selectedExecution.journey.status)}
+                    {getJourneyWaitLabel(selectedExecution.journey) && ` · ${getJourneyWaitLabel(selectedExecution.journey)}`}
+                  </Typography>
+                  {selectedExecution.journey.userId && (
+                    <Typography variant='caption' color='text.secondary'>
+                      Пользователь: {selectedExecution.journey.userId}
+                    </Typography>
+                  )}
+                  <Box component='ol' sx={{ m: 0, mt: 1, pl: 5 }}>
+                    {selectedExecution.journey.history.map((entry, idx) => (
+                      <Typography component='li' variant='body2' key={idx}>
+                        {formatDateTime(entry.at)} · {entry.stepId} ({entry.type}): {getJourneyOutcomeLabel(entry.outcome)}
+                      </Typography>
+                    ))}
+                  </Box>
+                </Grid>
+              )}
               {selectedExecution.error && (
                 <Grid item xs={12}>
                   <Typography variant='subtitle2' color='error'>Ошибка</Typography>
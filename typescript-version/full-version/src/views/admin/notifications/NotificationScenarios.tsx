@@ -48,13 +48,21 @@ interface EventTrigger {
 
 interface ScenarioAction {
   type: 'notification'
-  channel: 'email' | 'sms' | 'browser' | 'telegram'
+  channel: 'email' | 'sms' | 'browser' | 'telegram' | 'webhook'
   to?: string
   toField?: string
   templateId?: string
   subject?: string
   content?: string
   delay?: number
+  category?: string
+  mandatory?: boolean
+}
+
+interface WebhookEndpoint {
+  id: string
+  name: string
+  enabled: boolean
 }
 
 interface NotificationScenario {
@@ -66,6 +74,8 @@ interface NotificationScenario {
   actions: ScenarioAction[]
   conditions?: Record<string, any>
   priority: number
+  steps?: string | null // JSON шагов пути
+  exitConditions?: string | null // JSON критериев выхода из пути
   createdAt: string
   updatedAt: string
   createdBy?: string
@@ -97,8 +107,59 @@ const CHANNELS = [
   { value: 'sms', label: 'SMS', icon: 'ri-smartphone-line' },
   { value: 'browser', label: 'Браузер', icon: 'ri-notification-line' },
   { value: 'telegram', label: 'Telegram', icon: 'ri-telegram-line' },
+  { value: 'webhook', label: 'Webhook', icon: 'ri-webhook-line' },
+]
+
+// Категории для пользовательских предпочтений уведомлений
+const CATEGORIES = [
+  { value: 'security', label: 'Безопасность' },
+  { value: 'account', label: 'Аккаунт' },
+  { value: 'chat', label: 'Чат' },
+  { value: 'listings', label: 'Объявления' },
+  { value: 'marketing', label: 'Маркетинг' },
+  { value: 'system', label: 'Системные' },
 ]
 
+// Пример пути: письмо, сутки ожидания, SMS только если email так и не подтверждён
+const JOURNEY_STEPS_EXAMPLE = `[
+  { "id": "welcome", "type": "notify", "action": { "type": "notification", "channel": "email", "subject": "Добро пожаловать" } },
+  { "id": "wait", "type": "wait", "duration": 86400000 },
+  { "id": "check", "type": "branch", "conditions": [{ "field": "user.emailVerified", "operator": "eq", "value": true }], "then": "exit" },
+  { "id": "sms", "type": "notify", "action": { "type": "notification", "channel": "sms", "content": "Подтвердите email" } }
+]`
+
+// JSON-поле сценария в форму: с отступами для редактирования
+const formatJsonField = (value?: string | null) => {
+  if (!value) return ''
+
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2)
+  } catch {
+    return value
+  }
+}
+
+const countJourneySteps = (value: string) => {
+  try {
+    const steps = JSON.parse(value)
+
+    return Array.isArray(steps) ? steps.length : 0
+  } catch {
+    return 0
+  }
+}
+
+// Поле формы в JSON-массив: пустое поле очищает значение
+const parseJsonArrayField = (value: string): any[] | null => {
+  if (!value.trim()) return null
+
+  const parsed = JSON.parse(value)
+
+  if (!Array.isArray(parsed)) throw new Error('Expected array')
+
+  return parsed
+}
+
 const formatDateTime = (value?: string | null) => {
   if (!value) return '–'
   try {
@@ -124,6 +185,7 @@ const NotificationScenarios = () => {
   const [deletingScenario, setDeletingScenario] = useState<NotificationScenario | null>(null)
   const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
   const [templatesLoading, setTemplatesLoading] = useState(false)
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([])
 
   // Форма
   const [formData, setFormData] = useState({
@@ -133,14 +195,19 @@ const NotificationScenarios = () => {
     triggerSource: '',
     triggerType: '',
     triggerModule: '',
-    actionChannel: 'email' as 'email' | 'sms' | 'browser' | 'telegram',
+    actionChannel: 'email' as 'email' | 'sms' | 'browser' | 'telegram' | 'webhook',
     actionToField: 'user.email',
+    actionTo: '', // ID конечной точки webhook или '*' (все включённые)
     actionTemplateId: '', // ID шаблона email
     actionSubject: '',
     actionContent: '',
     actionDelay: 0,
+    actionCategory: 'system',
+    actionMandatory: false, // Игнорировать предпочтения и тихие часы получателя
     priority: 0,
     sendToChannel: false, // Для Telegram канала
+    journeySteps: '', // JSON шагов пути; если заданы, действие выполняется только шагами notify
+    journeyExitConditions: '',
   })
 
   // Права доступа
@@ -186,6 +253,21 @@ const NotificationScenarios = () => {
     }
   }, [])
 
+  // Загрузка конечных точек для канала webhook
+  const fetchWebhookEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/notification-webhooks')
+
+      if (response.ok) {
+        const data = await response.json()
+
+        setWebhookEndpoints(data.webhooks || [])
+      }
+    } catch (error) {
+      console.error('Error loading webhooks:', error)
+    }
+  }, [])
+
   useEffect(() => {
     if (!permissionsLoading) {
       fetchScenarios()
@@ -203,12 +285,17 @@ const NotificationScenarios = () => {
       triggerModule: '',
       actionChannel: 'email',
       actionToField: 'user.email',
+      actionTo: '',
       actionTemplateId: '',
       actionSubject: '',
       actionContent: '',
       actionDelay: 0,
+      actionCategory: 'system',
+      actionMandatory: false,
       priority: 0,
       sendToChannel: false,
+      journeySteps: '',
+      journeyExitConditions: '',
     })
     setEditingScenario(null)
   }
@@ -216,12 +303,14 @@ const NotificationScenarios = () => {
   const openCreateDialog = () => {
     resetForm()
     fetchEmailTemplates()
+    fetchWebhookEndpoints()
     setDialogOpen(true)
   }
 
   const openEditDialog = (scenario: NotificationScenario) => {
     setEditingScenario(scenario)
     fetchEmailTemplates()
+    fetchWebhookEndpoints()
     const action = scenario.actions[0] || {}
     setFormData({
       name: scenario.name,
@@ -232,12 +321,17 @@ const NotificationScenarios = () => {
       triggerModule: scenario.trigger?.module || '',
       actionChannel: action.channel || 'email',
       actionToField: action.toField || 'user.email',
+      actionTo: action.to || '',
       actionTemplateId: action.templateId || '',
       actionSubject: action.subject || '',
       actionContent: action.content || '',
       actionDelay: action.delay || 0,
+      actionCategory: action.category || 'system',
+      actionMandatory: action.mandatory || false,
       priority: scenario.priority,
       sendToChannel: action.channel === 'telegram' && !action.toField,
+      journeySteps: formatJsonField(scenario.steps),
+      journeyExitConditions: formatJsonField(scenario.exitConditions),
     })
     setDialogOpen(true)
   }
@@ -248,6 +342,18 @@ const NotificationScenarios = () => {
       return
     }
 
+    let steps: any[] | null
+    let exitConditions: any[] | null
+
+    try {
+      steps = parseJsonArrayField(formData.journeySteps)
+      exitConditions = parseJsonArrayField(formData.journeyExitConditions)
+    } catch {
+      toast.error('Шаги пути и условия выхода должны быть JSON-массивами')
+
+      return
+    }
+
     setSaving(true)
 
     try {
@@ -263,13 +369,18 @@ const NotificationScenarios = () => {
         actions: [{
           type: 'notification' as const,
           channel: formData.actionChannel,
-          toField: formData.sendToChannel ? undefined : (formData.actionToField || undefined),
+          to: formData.actionChannel === 'webhook' ? (formData.actionTo || '*') : undefined,
+          toField: formData.sendToChannel || formData.actionChannel === 'webhook' ? undefined : (formData.actionToField || undefined),
           templateId: formData.actionTemplateId || undefined,
           subject: formData.actionSubject || undefined,
           content: formData.actionContent || undefined,
           delay: formData.actionDelay || undefined,
+          category: formData.actionCategory,
+          mandatory: formData.actionMandatory || undefined,
         }],
         priority: formData.priority,
+        steps,
+        exitConditions,
       }
 
       const url = editingScenario
@@ -447,6 +558,14 @@ const NotificationScenarios = () => {
                           color={action.channel === 'email' ? 'info' : action.channel === 'telegram' ? 'primary' : 'default'}
                         />
                       ))}
+                      {scenario.steps && (
+                        <Chip
+                          size='small'
+                          icon={<i className='ri-route-line' />}
+                          label={`Путь: ${countJourneySteps(scenario.steps)} шаг.`}
+                          variant='outlined'
+                        />
+                      )}
                     </TableCell>
                     <TableCell>
                       <Chip size='small' label={scenario.priority} />
@@ -601,7 +720,8 @@ const NotificationScenarios = () => {
                 onChange={e => setFormData(prev => ({ 
                   ...prev, 
                   actionChannel: e.target.value as any,
-                  actionToField: e.target.value === 'telegram' ? '' : 'user.email',
+                  actionToField: e.target.value === 'telegram' || e.target.value === 'webhook' ? '' : 'user.email',
+                  actionTo: e.target.value === 'webhook' ? prev.actionTo || '*' : '',
                 }))}
               >
                 {CHANNELS.map(c => (
@@ -624,6 +744,33 @@ const NotificationScenarios = () => {
                 helperText='0 = немедленно'
               />
             </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                select
+                label='Категория'
+                value={formData.actionCategory}
+                onChange={e => setFormData(prev => ({ ...prev, actionCategory: e.target.value }))}
+                helperText='Пользователь может отключить категорию или получать её в дайджесте'
+              >
+                {CATEGORIES.map(c => (
+                  <MenuItem key={c.value} value={c.value}>
+                    {c.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.actionMandatory}
+                    onChange={e => setFormData(prev => ({ ...prev, actionMandatory: e.target.checked }))}
+                  />
+                }
+                label='Обязательное (игнорирует настройки и тихие часы получателя)'
+              />
+            </Grid>
 
             {/* Специфичные настройки для Telegram */}
             {formData.actionChannel === 'telegram' && (
@@ -640,7 +787,30 @@ const NotificationScenarios = () => {
               </Grid>
             )}
 
-            {!formData.sendToChannel && (
+            {/* Конечная точка для webhook */}
+            {formData.actionChannel === 'webhook' && (
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  select
+                  label='Вебхук'
+                  value={formData.actionTo || '*'}
+                  onChange={e => setFormData(prev => ({ ...prev, actionTo: e.target.value }))}
+                  helperText='Конечные точки настраиваются в разделе "Вебхуки"; неудачная доставка повторяется'
+                >
+                  <MenuItem value='*'>
+                    <em>Все активные</em>
+                  </MenuItem>
+                  {webhookEndpoints.map(w => (
+                    <MenuItem key={w.id} value={w.id}>
+                      {w.name}{w.enabled ? '' : ' (выключен)'}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+            )}
+
+            {!formData.sendToChannel && formData.actionChannel !== 'webhook' && (
               <Grid item xs={12}>
                 <TextField
                   fullWidth
@@ -722,6 +892,43 @@ const NotificationScenarios = () => {
                 disabled={formData.actionChannel === 'email' && !!formData.actionTemplateId}
               />
             </Grid>
+
+            {/* Путь */}
+            <Grid item xs={12}>
+              <Typography variant='subtitle2' gutterBottom sx={{ mt: 2 }}>
+                Путь (многошаговый сценарий)
+              </Typography>
+              <Alert severity='info'>
+                Если шаги заданы, сценарий выполняется как путь и действие выше не используется.
+                Типы шагов: notify, wait (duration или untilField), wait_for_event (eventType, timeout, onTimeout),
+                branch (conditions, then, else), exit. Переходы указывают ID шага или exit.
+              </Alert>
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label='Шаги (JSON)'
+                value={formData.journeySteps}
+                onChange={e => setFormData(prev => ({ ...prev, journeySteps: e.target.value }))}
+                multiline
+                minRows={4}
+                placeholder={JOURNEY_STEPS_EXAMPLE}
+                slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label='Условия выхода (JSON)'
+                value={formData.journeyExitConditions}
+                onChange={e => setFormData(prev => ({ ...prev, journeyExitConditions: e.target.value }))}
+                multiline
+                minRows={2}
+                placeholder='[{ "field": "user.phoneVerified", "operator": "eq", "value": true }]'
+                helperText='Путь завершается перед очередным шагом, как только выполнены все условия'
+                slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+              />
+            </Grid>
           </Grid>
         </DialogContent>
         <DialogActions>
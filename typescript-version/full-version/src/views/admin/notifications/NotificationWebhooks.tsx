@@ -0,0 +1,399 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import Alert from '@mui/material/Alert'
+import Button from '@mui/material/Button'
+import Card from '@mui/material/Card'
+import CardContent from '@mui/material/CardContent'
+import CardHeader from '@mui/material/CardHeader'
+import Chip from '@mui/material/Chip'
+import CircularProgress from '@mui/material/CircularProgress'
+import Dialog from '@mui/material/Dialog'
+import DialogActions from '@mui/material/DialogActions'
+import DialogContent from '@mui/material/DialogContent'
+import DialogTitle from '@mui/material/DialogTitle'
+import IconButton from '@mui/material/IconButton'
+import Switch from '@mui/material/Switch'
+import Table from '@mui/material/Table'
+import TableBody from '@mui/material/TableBody'
+import TableCell from '@mui/material/TableCell'
+import TableHead from '@mui/material/TableHead'
+import TableRow from '@mui/material/TableRow'
+import TextField from '@mui/material/TextField'
+import Tooltip from '@mui/material/Tooltip'
+import Typography from '@mui/material/Typography'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+
+interface Webhook {
+  id: string
+  name: string
+  url: string
+  enabled: boolean
+  createdAt: string
+  lastDelivery: { success: boolean; statusCode: number | null; error: string | null; createdAt: string } | null
+}
+
+interface Delivery {
+  id: string
+  deliveryId: string
+  event: string
+  attempt: number
+  success: boolean
+  statusCode: number | null
+  error: string | null
+  durationMs: number
+  createdAt: string
+}
+
+const formatDateTime = (value: string) =>
+  new Intl.DateTimeFormat('ru-RU', { dateStyle: 'medium', timeStyle: 'medium' }).format(new Date(value))
+
+const NotificationWebhooks = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [loading, setLoading] = useState(true)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [form, setForm] = useState({ name: '', url: '' })
+  const [saving, setSaving] = useState(false)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [deliveriesFor, setDeliveriesFor] = useState<Webhook | null>(null)
+  const [deliveries, setDeliveries] = useState<Delivery[] | null>(null)
+
+  const canRead = checkPermission('notificationScenarios', 'read')
+  const canCreate = checkPermission('notificationScenarios', 'create')
+  const canUpdate = checkPermission('notificationScenarios', 'update')
+  const canDelete = checkPermission('notificationScenarios', 'delete')
+
+  const fetchWebhooks = useCallback(async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/admin/notification-webhooks')
+
+      if (!response.ok) throw new Error('Failed to load webhooks')
+
+      const data = await response.json()
+
+      setWebhooks(data.webhooks || [])
+    } catch (error) {
+      toast.error('Ошибка загрузки вебхуков')
+      console.error(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!permissionsLoading && canRead) fetchWebhooks()
+  }, [canRead, fetchWebhooks, permissionsLoading])
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) throw new Error(data.error || 'Request failed')
+
+    return data
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+
+    try {
+      const data = await request('/api/admin/notification-webhooks', 'POST', form)
+
+      setCreateOpen(false)
+      setForm({ name: '', url: '' })
+      setSecret(data.secret)
+      fetchWebhooks()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка создания вебхука')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (webhook: Webhook) => {
+    try {
+      await request(`/api/admin/notification-webhooks/${webhook.id}`, 'PUT', { enabled: !webhook.enabled })
+      setWebhooks(prev => prev.map(item => (item.id === webhook.id ? { ...item, enabled: !item.enabled } : item)))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка обновления')
+    }
+  }
+
+  const handleRotate = async (webhook: Webhook) => {
+    if (!confirm(`Выпустить новый ключ подписи для «${webhook.name}»? Текущий ключ перестанет действовать`)) return
+
+    try {
+      const data = await request(`/api/admin/notification-webhooks/${webhook.id}`, 'PUT', { rotateSecret: true })
+
+      setSecret(data.secret)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка выпуска ключа')
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Удалить вебхук «${webhook.name}» вместе с журналом доставок?`)) return
+
+    try {
+      await request(`/api/admin/notification-webhooks/${webhook.id}`, 'DELETE')
+      toast.success('Вебхук удалён')
+      fetchWebhooks()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка удаления')
+    }
+  }
+
+  const openDeliveries = async (webhook: Webhook) => {
+    setDeliveriesFor(webhook)
+    setDeliveries(null)
+
+    try {
+      const response = await fetch(`/api/admin/notification-webhooks/${webhook.id}/deliveries?limit=100`)
+
+      if (!response.ok) throw new Error('Failed to load deliveries')
+
+      const data = await response.json()
+
+      setDeliveries(data.deliveries || [])
+    } catch (error) {
+      toast.error('Ошибка загрузки журнала доставок')
+      console.error(error)
+      setDeliveries([])
+    }
+  }
+
+  if (permissionsLoading || (canRead && loading)) {
+    return (
+      <div className='flex justify-center items-center py-16'>
+        <CircularProgress />
+      </div>
+    )
+  }
+
+  if (!canRead) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography>Нет доступа к управлению вебхуками</Typography>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader
+          title='Вебхуки'
+          subheader='Канал webhook в сценариях уведомлений отправляет POST с JSON на выбранные конечные точки'
+          action={
+            canCreate && (
+              <Button variant='contained' onClick={() => setCreateOpen(true)}>
+                <i className='ri-add-line mr-2' />
+                Добавить
+              </Button>
+            )
+          }
+        />
+        <CardContent className='flex flex-col gap-4'>
+          <Alert severity='info'>
+            Запрос подписан: заголовок <code>X-Webhook-Signature</code> = <code>sha256=</code>HMAC-SHA256 ключа от
+            строки <code>{'{X-Webhook-Timestamp}.{тело}'}</code>. Отклоняйте запросы с timestamp старше 5 минут и
+            повторы с уже обработанным <code>X-Webhook-Id</code>. Ответ не 2xx повторяется до 5 раз с растущей
+            задержкой.
+          </Alert>
+          {webhooks.length === 0 ? (
+            <Alert severity='warning'>Конечные точки не добавлены</Alert>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Активен</TableCell>
+                  <TableCell>Название</TableCell>
+                  <TableCell>URL</TableCell>
+                  <TableCell>Последняя доставка</TableCell>
+                  <TableCell align='right'>Действия</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {webhooks.map(webhook => (
+                  <TableRow key={webhook.id}>
+                    <TableCell>
+                      <Switch
+                        checked={webhook.enabled}
+                        onChange={() => handleToggle(webhook)}
+                        disabled={!canUpdate}
+                        size='small'
+                      />
+                    </TableCell>
+                    <TableCell>{webhook.name}</TableCell>
+                    <TableCell>
+                      <Typography variant='body2' className='break-all'>
+                        {webhook.url}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {webhook.lastDelivery ? (
+                        <Tooltip title={webhook.lastDelivery.error || ''}>
+                          <Chip
+                            size='small'
+                            variant='tonal'
+                            color={webhook.lastDelivery.success ? 'success' : 'error'}
+                            label={`${webhook.lastDelivery.statusCode ?? '—'} · ${formatDateTime(webhook.lastDelivery.createdAt)}`}
+                          />
+                        </Tooltip>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell align='right'>
+                      <Tooltip title='Журнал доставок'>
+                        <IconButton size='small' onClick={() => openDeliveries(webhook)}>
+                          <i className='ri-history-line' />
+                        </IconButton>
+                      </Tooltip>
+                      {canUpdate && (
+                        <Tooltip title='Новый ключ подписи'>
+                          <IconButton size='small' onClick={() => handleRotate(webhook)}>
+                            <i className='ri-key-2-line' />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {canDelete && (
+                        <Tooltip title='Удалить'>
+                          <IconButton size='small' color='error' onClick={() => handleDelete(webhook)}>
+                            <i className='ri-delete-bin-line' />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth='sm' fullWidth>
+        <DialogTitle>Новый вебхук</DialogTitle>
+        <DialogContent className='flex flex-col gap-4 !pt-2'>
+          <TextField
+            label='Название'
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            fullWidth
+          />
+          <TextField
+            label='URL'
+            placeholder='https://example.com/hooks/notifications'
+            value={form.url}
+            onChange={e => setForm(prev => ({ ...prev, url: e.target.value }))}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Отмена</Button>
+          <Button variant='contained' onClick={handleCreate} disabled={saving || !form.name.trim() || !form.url.trim()}>
+            Создать
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(secret)} onClose={() => setSecret(null)} maxWidth='sm' fullWidth>
+        <DialogTitle>Ключ подписи</DialogTitle>
+        <DialogContent className='flex flex-col gap-4'>
+          <Alert severity='warning'>Сохраните ключ: он показывается только один раз</Alert>
+          <TextField value={secret || ''} fullWidth slotProps={{ input: { readOnly: true } }} />
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              navigator.clipboard?.writeText(secret || '')
+              toast.success('Ключ скопирован')
+            }}
+          >
+            Копировать
+          </Button>
+          <Button variant='contained' onClick={() => setSecret(null)}>
+            Готово
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(deliveriesFor)} onClose={() => setDeliveriesFor(null)} maxWidth='lg' fullWidth>
+        <DialogTitle>Журнал доставок: {deliveriesFor?.name}</DialogTitle>
+        <DialogContent>
+          {!deliveries ? (
+            <div className='flex justify-center py-8'>
+              <CircularProgress />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <Alert severity='info'>Доставок ещё не было</Alert>
+          ) : (
+            <Table size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Время</TableCell>
+                  <TableCell>Событие</TableCell>
+                  <TableCell>ID доставки</TableCell>
+                  <TableCell>Попытка</TableCell>
+                  <TableCell>Результат</TableCell>
+                  <TableCell>Длительность</TableCell>
+                  <TableCell>Ошибка</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                    <TableCell>{delivery.event}</TableCell>
+                    <TableCell>
+                      <Typography variant='caption' className='font-mono'>
+                        {delivery.deliveryId}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{delivery.attempt}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size='small'
+                        variant='tonal'
+                        color={delivery.success ? 'success' : 'error'}
+                        label={delivery.statusCode ?? (delivery.success ? 'OK' : 'Ошибка')}
+                      />
+                    </TableCell>
+                    <TableCell>{delivery.durationMs} мс</TableCell>
+                    <TableCell>
+                      <Typography variant='body2' className='break-all'>
+                        {delivery.error || '—'}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeliveriesFor(null)}>Закрыть</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default NotificationWebhooks
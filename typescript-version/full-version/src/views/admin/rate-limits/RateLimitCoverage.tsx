@@ -0,0 +1,251 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+
+import Grid from '@mui/material/Grid2'
+import Card from '@mui/material/Card'
+import CardHeader from '@mui/material/CardHeader'
+import CardContent from '@mui/material/CardContent'
+import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
+import Table from '@mui/material/Table'
+import TableHead from '@mui/material/TableHead'
+import TableBody from '@mui/material/TableBody'
+import TableRow from '@mui/material/TableRow'
+import TableCell from '@mui/material/TableCell'
+import Chip from '@mui/material/Chip'
+import Box from '@mui/material/Box'
+import Alert from '@mui/material/Alert'
+import LinearProgress from '@mui/material/LinearProgress'
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type CoverageStatus = 'declared' | 'manual' | 'none'
+
+type CoverageEntry = {
+  route: string
+  method: string
+  file: string
+  status: CoverageStatus
+  module: string | null
+  key: string | null
+}
+
+type CoverageReport = {
+  generatedAt: string
+  routes: number
+  handlers: number
+  declared: number
+  manual: number
+  none: number
+  coveragePercent: number
+  entries: CoverageEntry[]
+}
+
+const STATUS_COLORS: Record<CoverageStatus, 'success' | 'warning' | 'default'> = {
+  declared: 'success',
+  manual: 'warning',
+  none: 'default'
+}
+
+const RateLimitCoverage = () => {
+  const { checkPermission, isSuperadmin, isLoading: permissionsLoading } = usePermissions()
+  const dictionary = useTranslation()
+  const t = dictionary.rateLimit ?? {}
+
+  const [report, setReport] = useState<CoverageReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [statusFilter, setStatusFilter] = useState<'all' | CoverageStatus>('all')
+  const [search, setSearch] = useState('')
+
+  const hasAccess = isSuperadmin || checkPermission('rateLimitManagement', 'read')
+
+  const statusLabels: Record<CoverageStatus, string> = {
+    declared: t.coverageStatusDeclared || 'withRateLimit',
+    manual: t.coverageStatusManual || 'Manual checkLimit',
+    none: t.coverageStatusNone || 'No limit'
+  }
+
+  const fetchCoverage = useCallback(async () => {
+    if (permissionsLoading || !hasAccess) {
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/admin/rate-limits/coverage', { credentials: 'include' })
+
+      if (!response.ok) {
+        throw new Error('Failed to load coverage')
+      }
+
+      const data = await response.json()
+
+      setReport(data.coverage)
+    } catch (error) {
+      console.error(error)
+      toast.error(t.coverageLoadError || 'Failed to load rate limit coverage')
+    } finally {
+      setLoading(false)
+    }
+  }, [hasAccess, permissionsLoading, t.coverageLoadError])
+
+  useEffect(() => {
+    fetchCoverage()
+  }, [fetchCoverage])
+
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase()
+
+    return (report?.entries ?? []).filter(entry => {
+      if (statusFilter !== 'all' && entry.status !== statusFilter) return false
+      if (!query) return true
+
+      return [entry.route, entry.method, entry.module ?? ''].some(value => value.toLowerCase().includes(query))
+    })
+  }, [report, search, statusFilter])
+
+  if (!permissionsLoading && !hasAccess) {
+    return <Alert severity='error'>{t.noAccess || 'You do not have access to rate limit management.'}</Alert>
+  }
+
+  const summaryItems = report
+    ? [
+        { label: t.coverageRoutes || 'Route files', value: report.routes },
+        { label: t.coverageHandlers || 'Handlers', value: report.handlers },
+        { label: statusLabels.declared, value: report.declared },
+        { label: statusLabels.manual, value: report.manual },
+        { label: statusLabels.none, value: report.none }
+      ]
+    : []
+
+  return (
+    <Grid container spacing={6}>
+      <Grid size={{ xs: 12 }}>
+        <Card>
+          <CardHeader
+            title={t.coverageTitle || dictionary.navigation?.rateLimitCoverage || 'Rate limit coverage'}
+            subheader={
+              t.coverageDescription ||
+              'API route handlers and how rate limits are applied to them. Declare limits with withRateLimit to make them visible here.'
+            }
+            action={
+              <Button
+                variant='outlined'
+                startIcon={<i className='ri-refresh-line' />}
+                onClick={fetchCoverage}
+                disabled={loading}
+              >
+                {t.refresh || 'Refresh'}
+              </Button>
+            }
+          />
+          {loading ? <LinearProgress /> : null}
+          {report ? (
+            <CardContent className='flex flex-col gap-4'>
+              <Box className='flex flex-col gap-2'>
+                <Box className='flex items-center justify-between'>
+                  <Typography variant='subtitle2'>{t.coveragePercent || 'Handlers with a rate limit'}</Typography>
+                  <Typography variant='h6'>{report.coveragePercent}%</Typography>
+                </Box>
+                <LinearProgress variant='determinate' value={report.coveragePercent} color='success' />
+              </Box>
+              <Grid container spacing={4}>
+                {summaryItems.map(item => (
+                  <Grid key={item.label} size={{ xs: 6, md: 'grow' }}>
+                    <Typography variant='caption' color='text.secondary'>
+                      {item.label}
+                    </Typography>
+                    <Typography variant='h5'>{item.value.toLocaleString()}</Typography>
+                  </Grid>
+                ))}
+              </Grid>
+              <Grid container spacing={4}>
+                <Grid size={{ xs: 12, md: 8 }}>
+                  <TextField
+                    fullWidth
+                    size='small'
+                    label={t.coverageSearch || 'Search by route or module'}
+                    value={search}
+                    onChange={event => setSearch(event.target.value)}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  <TextField
+                    select
+                    fullWidth
+                    size='small'
+                    label={t.coverageStatus || 'Status'}
+                    value={statusFilter}
+                    onChange={event => setStatusFilter(event.target.value as 'all' | CoverageStatus)}
+                  >
+                    <MenuItem value='all'>{t.moduleAll || 'All'}</MenuItem>
+                    {(Object.keys(statusLabels) as CoverageStatus[]).map(status => (
+                      <MenuItem key={status} value={status}>
+                        {statusLabels[status]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+              </Grid>
+            </CardContent>
+          ) : null}
+          <CardContent className='p-0'>
+            <Table size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t.coverageRoute || 'Route'}</TableCell>
+                  <TableCell>{t.coverageMethod || 'Method'}</TableCell>
+                  <TableCell>{t.coverageStatus || 'Status'}</TableCell>
+                  <TableCell>{t.coverageModule || 'Module'}</TableCell>
+                  <TableCell>{t.coverageKey || 'Key'}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleEntries.length === 0 && !loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      <Typography color='text.secondary' className='py-6 text-center'>
+                        {t.noData || 'No data'}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ) : null}
+                {visibleEntries.map(entry => (
+                  <TableRow key={`${entry.route}:${entry.method}`}>
+                    <TableCell>
+                      <Typography variant='body2' className='font-mono'>
+                        {entry.route}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary'>
+                        {entry.file}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{entry.method}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size='small'
+                        variant='tonal'
+                        color={STATUS_COLORS[entry.status]}
+                        label={statusLabels[entry.status]}
+                      />
+                    </TableCell>
+                    <TableCell>{entry.module ?? '—'}</TableCell>
+                    <TableCell>{entry.key ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </Grid>
+    </Grid>
+  )
+}
+
+export default RateLimitCoverage
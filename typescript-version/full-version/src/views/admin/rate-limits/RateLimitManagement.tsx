@@ -47,11 +47,24 @@ import { usePermissions } from '@/hooks/usePermissions'
 import { useTranslation } from '@/contexts/TranslationContext'
 import type { ThemeColor } from '@core/types'
 
+import RateLimitSimulatorDialog from './RateLimitSimulatorDialog'
+
+type RateLimitAlgorithm = 'fixed' | 'sliding-log' | 'sliding-counter' | 'token-bucket'
+
+const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed', 'sliding-log', 'sliding-counter', 'token-bucket']
+
 type RateLimitConfig = {
   module: string
   maxRequests: number
   windowMs: number
   blockMs?: number | null
+  algorithm?: RateLimitAlgorithm | null
+  refillRate?: number | null
+  burst?: number | null
+  escalationLadder?: number[] | null
+  escalationLookbackMs?: number | null
+  escalationDecayMs?: number | null
+  escalationManualReview?: boolean | null
   warnThreshold?: number | null
   isActive?: boolean | null
   mode?: 'monitor' | 'enforce' | null
@@ -114,8 +127,32 @@ type ConfigFormState = {
   windowMinutes: string
   blockMinutes: string
   warnThreshold: string
+  algorithm: RateLimitAlgorithm
+  refillRate: string
+  burst: string
+  escalationLadderMinutes: string
+  escalationLookbackHours: string
+  escalationDecayHours: string
+  escalationManualReview: boolean
+}
+
+const parseLadderMinutes = (value: string): number[] | null => {
+  const steps = value
+    .split(',')
+    .map(step => step.trim())
+    .filter(Boolean)
+    .map(Number)
+
+  return steps.every(step => Number.isFinite(step) && step > 0) ? steps : null
 }
 
+const formatLadderMinutes = (ladder?: number[] | null) =>
+  (ladder ?? []).map(step => String(Math.round((step / 60000) * 100) / 100)).join(', ')
+
+const hoursToMs = (value: string): number | null => (value ? Math.round(Number(value) * 3600000) : null)
+
+const msToHours = (value?: number | null) => (value ? String(Math.round((value / 3600000) * 100) / 100) : '')
+
 const formatDateTime = (value?: string | null) => {
   if (!value) {
     return '–'
@@ -223,13 +260,21 @@ const RateLimitManagement = () => {
     maxRequests: '',
     windowMinutes: '',
     blockMinutes: '',
-    warnThreshold: ''
+    warnThreshold: '',
+    algorithm: 'fixed',
+    refillRate: '',
+    burst: '',
+    escalationLadderMinutes: '',
+    escalationLookbackHours: '',
+    escalationDecayHours: '',
+    escalationManualReview: false
   })
   const [savingConfig, setSavingConfig] = useState(false)
   const [statusSavingModule, setStatusSavingModule] = useState<string | null>(null)
   const [modeSavingModule, setModeSavingModule] = useState<string | null>(null)
   const [infoConfig, setInfoConfig] = useState<RateLimitConfig | null>(null)
   const [instructionsOpen, setInstructionsOpen] = useState(false)
+  const [simulatorConfig, setSimulatorConfig] = useState<RateLimitConfig | null>(null)
 
   const hasAccess = isSuperadmin || checkPermission('rateLimitManagement', 'read')
   const canModify =
@@ -380,7 +425,14 @@ const RateLimitManagement = () => {
       maxRequests: config.maxRequests ? String(config.maxRequests) : '',
       windowMinutes: String(Math.max(1, Math.round((config.windowMs || 60000) / 60000))),
       blockMinutes: String(Math.max(1, Math.round(((config.blockMs ?? config.windowMs) || 60000) / 60000))),
-      warnThreshold: config.warnThreshold != null ? String(config.warnThreshold) : ''
+      warnThreshold: config.warnThreshold != null ? String(config.warnThreshold) : '',
+      algorithm: config.algorithm ?? 'fixed',
+      refillRate: config.refillRate != null ? String(config.refillRate) : '',
+      burst: config.burst != null ? String(config.burst) : '',
+      escalationLadderMinutes: formatLadderMinutes(config.escalationLadder),
+      escalationLookbackHours: msToHours(config.escalationLookbackMs),
+      escalationDecayHours: msToHours(config.escalationDecayMs),
+      escalationManualReview: config.escalationManualReview ?? false
     })
     setConfigDialogOpen(true)
   }, [canModify])
@@ -427,7 +479,7 @@ const RateLimitManagement = () => {
     }
   }
 
-  const handleConfigInputChange = (field: keyof typeof configForm, value: string) => {
+  const handleConfigInputChange = (field: Exclude<keyof ConfigFormState, 'escalationManualReview'>, value: string) => {
     setConfigForm(prev => ({
       ...prev,
       [field]: value
@@ -448,11 +500,22 @@ const RateLimitManagement = () => {
     const windowMinutes = Number(configForm.windowMinutes)
     const blockMinutes = Number(configForm.blockMinutes)
     const warnThreshold = configForm.warnThreshold ? Number(configForm.warnThreshold) : 0
+    const isTokenBucket = configForm.algorithm === 'token-bucket'
+    const refillRate = isTokenBucket && configForm.refillRate ? Number(configForm.refillRate) : null
+    const burst = isTokenBucket && configForm.burst ? Number(configForm.burst) : null
+    const escalationLadder = parseLadderMinutes(configForm.escalationLadderMinutes)
+    const escalationLookbackMs = hoursToMs(configForm.escalationLookbackHours)
+    const escalationDecayMs = hoursToMs(configForm.escalationDecayHours)
 
     if (
       !Number.isFinite(maxRequests) || maxRequests <= 0 ||
       !Number.isFinite(windowMinutes) || windowMinutes <= 0 ||
-      !Number.isFinite(blockMinutes) || blockMinutes <= 0
+      !Number.isFinite(blockMinutes) || blockMinutes <= 0 ||
+      (refillRate !== null && (!Number.isFinite(refillRate) || refillRate <= 0)) ||
+      (burst !== null && (!Number.isInteger(burst) || burst <= 0)) ||
+      !escalationLadder ||
+      (escalationLookbackMs !== null && (!Number.isFinite(escalationLookbackMs) || escalationLookbackMs <= 0)) ||
+      (escalationDecayMs !== null && (!Number.isFinite(escalationDecayMs) || escalationDecayMs <= 0))
     ) {
       toast.error(dictionary.rateLimit?.configValidationError || 'Please provide valid positive numbers')
       return
@@ -471,7 +534,11 @@ const RateLimitManagement = () => {
           maxRequests,
           windowMs: windowMinutes * 60000,
           blockMs: blockMinutes * 60000,
-          warnThreshold: Number.isFinite(warnThreshold) && warnThreshold >= 0 ? warnThreshold : 0
+          warnThreshold: Number.isFinite(warnThreshold) && warnThreshold >= 0 ? warnThreshold : 0,
+          escalationLadder: escalationLadder.map(step => Math.round(step * 60000)),
+          escalationLookbackMs,
+          escalationDecayMs,
+          escalationManualReview: escalationLadder.length > 0 && configForm.escalationManualReview
         })
       })
 
@@ -480,6 +547,24 @@ const RateLimitManagement = () => {
         throw new Error(errorData.error || 'Failed to update config')
       }
 
+      const algorithmResponse = await fetch(`/api/admin/rate-limits/${encodeURIComponent(configForm.module)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          algorithm: configForm.algorithm,
+          refillRate,
+          burst
+        })
+      })
+
+      if (!algorithmResponse.ok) {
+        const errorData = await algorithmResponse.json().catch(() => ({}))
+
+        throw new Error(errorData.error || 'Failed to update algorithm')
+      }
+
       toast.success(dictionary.rateLimit?.configUpdateSuccess || 'Rate limit updated')
       setConfigDialogOpen(false)
       await fetchSummary()
@@ -769,6 +854,16 @@ const RateLimitManagement = () => {
                                     <i className='ri-eye-line' />
                                   </IconButton>
                                 </Tooltip>
+                                <Tooltip title={t.simulateButton || 'Simulate on history'}>
+                                  <IconButton
+                                    color='secondary'
+                                    size='small'
+                                    onClick={() => setSimulatorConfig(config)}
+                                    disabled={statusSavingModule === config.module || isModePending}
+                                  >
+                                    <i className='ri-flask-line' />
+                                  </IconButton>
+                                </Tooltip>
                                 <Tooltip title={t.configEditButton || 'Edit limits'}>
                                   <IconButton
                                     color='primary'
@@ -976,6 +1071,13 @@ const RateLimitManagement = () => {
                             ) : (
                               <Chip color='success' label={t.statusActive || 'Active'} variant='tonal' />
                             )}
+                            {entry.violationNumber ? (
+                              <Typography variant='caption' color='warning.main' display='block'>
+                                {t.violationLabel
+                                  ? t.violationLabel.replace('${count}', entry.violationNumber.toString())
+                                  : `Violation #${entry.violationNumber}`}
+                              </Typography>
+                            ) : null}
                           </TableCell>
                           <TableCell align='right'>
                             <Button
@@ -1032,6 +1134,45 @@ const RateLimitManagement = () => {
             disabled
             fullWidth
           />
+          <FormControl fullWidth>
+            <InputLabel>{t.configAlgorithm || 'Algorithm'}</InputLabel>
+            <Select
+              value={configForm.algorithm}
+              label={t.configAlgorithm || 'Algorithm'}
+              onChange={event => handleConfigInputChange('algorithm', event.target.value)}
+            >
+              {RATE_LIMIT_ALGORITHMS.map(algorithm => (
+                <MenuItem key={algorithm} value={algorithm}>
+                  {t.algorithmLabels?.[algorithm] || algorithm}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant='caption' color='text.secondary'>
+            {t.algorithmHints?.[configForm.algorithm] || ''}
+          </Typography>
+          {configForm.algorithm === 'token-bucket' && (
+            <div className='grid gap-4 grid-cols-1 sm:grid-cols-2'>
+              <TextField
+                label={t.configRefillRate || 'Refill rate (tokens/sec)'}
+                type='number'
+                value={configForm.refillRate}
+                onChange={event => handleConfigInputChange('refillRate', event.target.value)}
+                inputProps={{ min: 0, step: 'any' }}
+                helperText={t.configRefillRateHint || 'Empty: max requests per window'}
+                sx={{ width: '100%' }}
+              />
+              <TextField
+                label={t.configBurst || 'Burst (bucket size)'}
+                type='number'
+                value={configForm.burst}
+                onChange={event => handleConfigInputChange('burst', event.target.value)}
+                inputProps={{ min: 1 }}
+                helperText={t.configBurstHint || 'Empty: equals max requests'}
+                sx={{ width: '100%' }}
+              />
+            </div>
+          )}
           <div className='grid gap-4 grid-cols-1 sm:grid-cols-2'>
             <TextField
               label={t.configMaxRequests || 'Max requests'}
@@ -1069,6 +1210,52 @@ const RateLimitManagement = () => {
               sx={{ width: '100%' }}
             />
           </div>
+          <Typography className='font-medium' color='text.primary'>
+            {t.configEscalationTitle || 'Escalation for repeat offenders'}
+          </Typography>
+          <TextField
+            label={t.configEscalationLadder || 'Block ladder (minutes)'}
+            value={configForm.escalationLadderMinutes}
+            onChange={event => handleConfigInputChange('escalationLadderMinutes', event.target.value)}
+            placeholder='1, 15, 60, 1440'
+            helperText={
+              t.configEscalationLadderHint ||
+              'Comma-separated block durations for the 1st, 2nd, ... violation. Empty: always use the block duration.'
+            }
+            fullWidth
+          />
+          <div className='grid gap-4 grid-cols-1 sm:grid-cols-2'>
+            <TextField
+              label={t.configEscalationLookback || 'Lookback (hours)'}
+              type='number'
+              value={configForm.escalationLookbackHours}
+              onChange={event => handleConfigInputChange('escalationLookbackHours', event.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              helperText={t.configEscalationLookbackHint || 'Older violations are forgotten. Empty: keep forever.'}
+              disabled={!configForm.escalationLadderMinutes.trim()}
+              sx={{ width: '100%' }}
+            />
+            <TextField
+              label={t.configEscalationDecay || 'Decay period (hours)'}
+              type='number'
+              value={configForm.escalationDecayHours}
+              onChange={event => handleConfigInputChange('escalationDecayHours', event.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              helperText={t.configEscalationDecayHint || 'Each clean period lowers the level by one. Empty: no decay.'}
+              disabled={!configForm.escalationLadderMinutes.trim()}
+              sx={{ width: '100%' }}
+            />
+          </div>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={configForm.escalationManualReview}
+                onChange={(_, checked) => setConfigForm(prev => ({ ...prev, escalationManualReview: checked }))}
+                disabled={!configForm.escalationLadderMinutes.trim()}
+              />
+            }
+            label={t.configEscalationManualReview || 'Require manual review after the last step'}
+          />
         </DialogContent>
         <DialogActions>
           <Button variant='outlined' color='secondary' onClick={closeConfigDialog} disabled={savingConfig}>
@@ -1093,6 +1280,19 @@ const RateLimitManagement = () => {
         <DialogContent className='flex flex-col gap-4 pbs-2'>
           {infoConfig && (
             <div className='flex flex-col gap-4'>
+              <div className='flex items-center gap-3'>
+                <CustomAvatar skin='light' color='secondary' variant='rounded'>
+                  <i className='ri-git-branch-line' />
+                </CustomAvatar>
+                <div className='flex items-center justify-between gap-4 is-full'>
+                  <Typography className='font-medium' color='text.primary'>
+                    {t.configAlgorithm || 'Algorithm'}
+                  </Typography>
+                  <Typography className='font-semibold' color='text.primary'>
+                    {t.algorithmLabels?.[infoConfig.algorithm ?? 'fixed'] || infoConfig.algorithm || 'fixed'}
+                  </Typography>
+                </div>
+              </div>
               <div className='flex items-center gap-3'>
                 <CustomAvatar skin='light' color='primary' variant='rounded'>
                   <i className='ri-speed-up-line' />
@@ -1148,6 +1348,23 @@ const RateLimitManagement = () => {
                   </Typography>
                 </div>
               </div>
+              <div className='flex items-center gap-3'>
+                <CustomAvatar skin='light' color='secondary' variant='rounded'>
+                  <i className='ri-bar-chart-2-line' />
+                </CustomAvatar>
+                <div className='flex items-center justify-between gap-4 is-full'>
+                  <Typography className='font-medium' color='text.primary'>
+                    {t.configEscalationLadder || 'Block ladder (minutes)'}
+                  </Typography>
+                  <Typography className='font-semibold' color='text.primary'>
+                    {infoConfig.escalationLadder?.length
+                      ? `${formatLadderMinutes(infoConfig.escalationLadder).replace(/, /g, ' → ')}${
+                          infoConfig.escalationManualReview ? ` → ${t.configEscalationManualReviewShort || 'review'}` : ''
+                        }`
+                      : t.configWarnDisabled || 'Disabled'}
+                  </Typography>
+                </div>
+              </div>
             </div>
           )}
         </DialogContent>
@@ -1216,9 +1433,36 @@ const RateLimitManagement = () => {
                 <strong>Блокировка:</strong> Строго соблюдает лимиты, блокируя пользователей, которые их превышают. Рекомендуется для рабочих сред.
               </Typography>
             </div>
+
+            <div>
+              <Typography variant='h6' gutterBottom>
+                Эскалация блокировок
+              </Typography>
+              <Typography variant='body2'>
+                Для повторных нарушителей каждая следующая блокировка длиннее предыдущей по лестнице (например, 1 → 15 → 60 → 1440 минут). Нарушения старше периода учёта забываются, а каждый чистый период затухания снижает уровень на одну ступень. Если включена ручная проверка, после последней ступени блокировку снимает только администратор.
+              </Typography>
+            </div>
+
+            <div>
+              <Typography variant='h6' gutterBottom>
+                Симуляция на истории
+              </Typography>
+              <Typography variant='body2'>
+                Перед ужесточением лимитов запустите симуляцию: записанный трафик модуля за выбранный период прогоняется через текущие и предлагаемые параметры, и вы увидите, сколько ключей получили бы предупреждение или блокировку и кого это затронет сильнее всего. Симуляция всегда считает режим блокировки и не меняет живые счётчики.
+              </Typography>
+            </div>
           </div>
         </DialogContent>
       </Dialog>
+      <RateLimitSimulatorDialog
+        config={simulatorConfig}
+        moduleLabel={
+          simulatorConfig
+            ? getModuleLabel(simulatorConfig.module, dictionary.navigation, dictionary.rateLimit?.moduleLabels)
+            : undefined
+        }
+        onClose={() => setSimulatorConfig(null)}
+      />
     </>
   )
 }
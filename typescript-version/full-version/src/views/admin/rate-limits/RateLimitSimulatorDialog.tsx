@@ -0,0 +1,371 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
+import Table from '@mui/material/Table'
+import TableHead from '@mui/material/TableHead'
+import TableBody from '@mui/material/TableBody'
+import TableRow from '@mui/material/TableRow'
+import TableCell from '@mui/material/TableCell'
+import Chip from '@mui/material/Chip'
+import Alert from '@mui/material/Alert'
+import CircularProgress from '@mui/material/CircularProgress'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import IconButton from '@mui/material/IconButton'
+
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type SimulatedConfig = {
+  module: string
+  maxRequests: number
+  windowMs: number
+  blockMs?: number | null
+  warnThreshold?: number | null
+}
+
+type SimulationKeyResult = {
+  key: string
+  userId: string | null
+  ipPrefix: string | null
+  requests: number
+  warnings: number
+  blocks: number
+  rejectedRequests: number
+  user?: { id: string; name: string | null; email: string | null } | null
+}
+
+type SimulationSummary = {
+  warnedKeys: number
+  blockedKeys: number
+  warnings: number
+  blocks: number
+  rejectedRequests: number
+  topAffected: SimulationKeyResult[]
+}
+
+type SimulationResult = {
+  traffic: {
+    keys: number
+    requests: number
+    eventRequests: number
+    reconstructedRequests: number
+    truncated: boolean
+  }
+  current: SimulationSummary
+  proposed: SimulationSummary
+  comparison: {
+    newlyBlockedKeys: number
+    noLongerBlockedKeys: number
+    newlyWarnedKeys: number
+  }
+}
+
+type SimulatorForm = {
+  periodHours: string
+  maxRequests: string
+  windowMinutes: string
+  blockMinutes: string
+  warnThreshold: string
+  eventModule: string
+}
+
+const PERIOD_OPTIONS = ['24', '168', '720']
+
+const SUMMARY_ROWS: Array<keyof Omit<SimulationSummary, 'topAffected'>> = [
+  'blockedKeys',
+  'warnedKeys',
+  'blocks',
+  'warnings',
+  'rejectedRequests'
+]
+
+type Props = {
+  config: SimulatedConfig | null
+  moduleLabel?: string
+  onClose: () => void
+}
+
+const RateLimitSimulatorDialog = ({ config, moduleLabel, onClose }: Props) => {
+  const dictionary = useTranslation()
+  const t = dictionary.rateLimit ?? {}
+
+  const [form, setForm] = useState<SimulatorForm>({
+    periodHours: '168',
+    maxRequests: '',
+    windowMinutes: '',
+    blockMinutes: '',
+    warnThreshold: '',
+    eventModule: ''
+  })
+
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+
+  useEffect(() => {
+    if (!config) return
+
+    setForm({
+      periodHours: '168',
+      maxRequests: String(config.maxRequests),
+      windowMinutes: String(Math.round((config.windowMs / 60000) * 100) / 100),
+      blockMinutes: String(Math.round(((config.blockMs ?? config.windowMs) / 60000) * 100) / 100),
+      warnThreshold: String(config.warnThreshold ?? 0),
+      eventModule: ''
+    })
+    setResult(null)
+    setError(null)
+  }, [config])
+
+  const summaryLabels: Record<(typeof SUMMARY_ROWS)[number], string> = {
+    blockedKeys: t.simulateBlockedKeys || 'Blocked keys',
+    warnedKeys: t.simulateWarnedKeys || 'Warned keys',
+    blocks: t.simulateBlocks || 'Blocks',
+    warnings: t.simulateWarnings || 'Warnings',
+    rejectedRequests: t.simulateRejected || 'Rejected requests'
+  }
+
+  const periodLabels: Record<string, string> = {
+    '24': t.simulatePeriod24h || 'Last 24 hours',
+    '168': t.simulatePeriod7d || 'Last 7 days',
+    '720': t.simulatePeriod30d || 'Last 30 days'
+  }
+
+  const handleRun = async () => {
+    if (!config) return
+
+    const maxRequests = Number(form.maxRequests)
+    const windowMinutes = Number(form.windowMinutes)
+    const blockMinutes = Number(form.blockMinutes)
+    const warnThreshold = Number(form.warnThreshold || 0)
+
+    if (!maxRequests || maxRequests <= 0 || !windowMinutes || windowMinutes <= 0 || !blockMinutes || blockMinutes <= 0) {
+      setError(t.configValidationError || 'Please provide positive numbers for all fields.')
+
+      return
+    }
+
+    const to = new Date()
+    const from = new Date(to.getTime() - Number(form.periodHours) * 3600000)
+
+    try {
+      setRunning(true)
+      setError(null)
+
+      const response = await fetch('/api/admin/rate-limits/simulate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          module: config.module,
+          config: {
+            maxRequests,
+            windowMs: Math.round(windowMinutes * 60000),
+            blockMs: Math.round(blockMinutes * 60000),
+            warnThreshold
+          },
+          from: from.toISOString(),
+          to: to.toISOString(),
+          eventModule: form.eventModule.trim() || undefined
+        })
+      })
+
+      const data = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Simulation failed')
+      }
+
+      setResult(data.simulation)
+    } catch (simulationError) {
+      setError(simulationError instanceof Error ? simulationError.message : 'Simulation failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const renderSubject = (entry: SimulationKeyResult) => {
+    if (entry.user) {
+      return entry.user.email || entry.user.name || entry.user.id
+    }
+
+    return entry.ipPrefix ? `${entry.key} (${entry.ipPrefix})` : entry.key
+  }
+
+  return (
+    <Dialog open={Boolean(config)} onClose={onClose} fullWidth maxWidth='md'>
+      <DialogTitle className='flex items-center justify-between'>
+        {(t.simulateTitle || 'Policy simulator') + (moduleLabel ? ` · ${moduleLabel}` : '')}
+        <IconButton aria-label='close' onClick={onClose} sx={{ color: 'grey.500' }}>
+          <i className='ri-close-line' />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent className='flex flex-col gap-4 pbs-2'>
+        <Typography variant='body2' color='text.secondary'>
+          {t.simulateHint ||
+            'Replays recorded traffic of the module through the proposed limits and compares it with the current configuration. Live counters and blocks are not changed.'}
+        </Typography>
+        <div className='grid grid-cols-1 sm:grid-cols-3 gap-4'>
+          <TextField
+            select
+            label={t.simulatePeriod || 'Period'}
+            value={form.periodHours}
+            onChange={event => setForm(prev => ({ ...prev, periodHours: event.target.value }))}
+          >
+            {PERIOD_OPTIONS.map(option => (
+              <MenuItem key={option} value={option}>
+                {periodLabels[option]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label={t.configMaxRequests || 'Max requests'}
+            type='number'
+            value={form.maxRequests}
+            onChange={event => setForm(prev => ({ ...prev, maxRequests: event.target.value }))}
+          />
+          <TextField
+            label={t.configWindowMinutes || 'Window (minutes)'}
+            type='number'
+            value={form.windowMinutes}
+            onChange={event => setForm(prev => ({ ...prev, windowMinutes: event.target.value }))}
+          />
+          <TextField
+            label={t.configBlockMinutes || 'Block duration (minutes)'}
+            type='number'
+            value={form.blockMinutes}
+            onChange={event => setForm(prev => ({ ...prev, blockMinutes: event.target.value }))}
+          />
+          <TextField
+            label={t.configWarnThreshold || 'Warning threshold'}
+            type='number'
+            value={form.warnThreshold}
+            onChange={event => setForm(prev => ({ ...prev, warnThreshold: event.target.value }))}
+          />
+          <TextField
+            label={t.simulateEventModule || 'Event module (optional)'}
+            value={form.eventModule}
+            placeholder={config?.module}
+            onChange={event => setForm(prev => ({ ...prev, eventModule: event.target.value }))}
+          />
+        </div>
+        {error && <Alert severity='error'>{error}</Alert>}
+        {result && (
+          <div className='flex flex-col gap-4'>
+            <div className='flex flex-wrap gap-2'>
+              <Chip
+                size='small'
+                variant='tonal'
+                label={`${t.simulateRequests || 'Replayed requests'}: ${result.traffic.requests.toLocaleString()}`}
+              />
+              <Chip
+                size='small'
+                variant='tonal'
+                label={`${t.simulateKeys || 'Keys'}: ${result.traffic.keys.toLocaleString()}`}
+              />
+              <Chip
+                size='small'
+                variant='tonal'
+                color={result.comparison.newlyBlockedKeys ? 'error' : 'success'}
+                label={`${t.simulateNewlyBlocked || 'Newly blocked'}: ${result.comparison.newlyBlockedKeys}`}
+              />
+              <Chip
+                size='small'
+                variant='tonal'
+                color='info'
+                label={`${t.simulateNoLongerBlocked || 'No longer blocked'}: ${result.comparison.noLongerBlockedKeys}`}
+              />
+              <Chip
+                size='small'
+                variant='tonal'
+                color={result.comparison.newlyWarnedKeys ? 'warning' : 'secondary'}
+                label={`${t.simulateNewlyWarned || 'Newly warned'}: ${result.comparison.newlyWarnedKeys}`}
+              />
+            </div>
+            {result.traffic.truncated && (
+              <Alert severity='warning'>
+                {t.simulateTruncated || 'The period has too many records; only the oldest part of the traffic was replayed.'}
+              </Alert>
+            )}
+            {result.traffic.reconstructedRequests > 0 && (
+              <Typography variant='caption' color='text.secondary'>
+                {(t.simulateReconstructed || 'Requests reconstructed from rate limit event counters') +
+                  `: ${result.traffic.reconstructedRequests.toLocaleString()}`}
+              </Typography>
+            )}
+            <Table size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell align='right'>{t.simulateCurrent || 'Current'}</TableCell>
+                  <TableCell align='right'>{t.simulateProposed || 'Proposed'}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {SUMMARY_ROWS.map(row => (
+                  <TableRow key={row}>
+                    <TableCell>{summaryLabels[row]}</TableCell>
+                    <TableCell align='right'>{result.current[row].toLocaleString()}</TableCell>
+                    <TableCell align='right'>{result.proposed[row].toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Typography variant='subtitle2'>{t.simulateTopAffected || 'Most affected with the proposed limits'}</Typography>
+            {result.proposed.topAffected.length ? (
+              <Table size='small'>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t.simulateSubject || 'User / IP'}</TableCell>
+                    <TableCell align='right'>{t.simulateRequestsShort || 'Requests'}</TableCell>
+                    <TableCell align='right'>{summaryLabels.warnings}</TableCell>
+                    <TableCell align='right'>{summaryLabels.blocks}</TableCell>
+                    <TableCell align='right'>{summaryLabels.rejectedRequests}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.proposed.topAffected.map(entry => (
+                    <TableRow key={entry.key}>
+                      <TableCell>{renderSubject(entry)}</TableCell>
+                      <TableCell align='right'>{entry.requests.toLocaleString()}</TableCell>
+                      <TableCell align='right'>{entry.warnings.toLocaleString()}</TableCell>
+                      <TableCell align='right'>{entry.blocks.toLocaleString()}</TableCell>
+                      <TableCell align='right'>{entry.rejectedRequests.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <Typography variant='body2' color='text.secondary'>
+                {t.simulateNobodyAffected || 'Nobody would be warned or blocked.'}
+              </Typography>
+            )}
+          </div>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button variant='outlined' color='secondary' onClick={onClose} disabled={running}>
+          {t.configCancel || 'Cancel'}
+        </Button>
+        <Button
+          variant='contained'
+          onClick={handleRun}
+          disabled={running}
+          startIcon={running ? <CircularProgress size={16} color='inherit' /> : <i className='ri-play-line' />}
+        >
+          {t.simulateRun || 'Run simulation'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default RateLimitSimulatorDialog
@@ -0,0 +1,736 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import Card from '@mui/material/Card'
+import CardHeader from '@mui/material/CardHeader'
+import CardContent from '@mui/material/CardContent'
+import Button from '@mui/material/Button'
+import Table from '@mui/material/Table'
+import TableHead from '@mui/material/TableHead'
+import TableRow from '@mui/material/TableRow'
+import TableCell from '@mui/material/TableCell'
+import TableBody from '@mui/material/TableBody'
+import Chip from '@mui/material/Chip'
+import Typography from '@mui/material/Typography'
+import CircularProgress from '@mui/material/CircularProgress'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import IconButton from '@mui/material/IconButton'
+import TextField from '@mui/material/TextField'
+import Switch from '@mui/material/Switch'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import MenuItem from '@mui/material/MenuItem'
+import Grid from '@mui/material/Grid'
+import Alert from '@mui/material/Alert'
+import Tooltip from '@mui/material/Tooltip'
+import Box from '@mui/material/Box'
+
+import { toast } from 'react-toastify'
+
+import { usePermissions } from '@/hooks/usePermissions'
+
+import ConditionBuilder from './ConditionBuilder'
+import RuleDryRunPanel from './RuleDryRunPanel'
+import type { BusinessRule, RuleCategory, RuleConditions, RuleExecution, RuleStats } from './types'
+import { RULE_CATEGORIES } from './types'
+
+const STATS_DAYS = 7
+
+const DEFAULT_CONDITIONS: RuleConditions = { all: [{ fact: 'user', path: '$.role', operator: 'equal', value: 'USER' }] }
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '–'
+
+  try {
+    return new Intl.DateTimeFormat('ru-RU', {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(new Date(value))
+  } catch {
+    return value
+  }
+}
+
+const getCategoryLabel = (category: string) => RULE_CATEGORIES.find(item => item.value === category)?.label ?? category
+
+interface RuleFormData {
+  name: string
+  description: string
+  category: RuleCategory
+  priority: number
+  enabled: boolean
+  eventType: string
+  eventParams: string
+  conditions: RuleConditions
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: '',
+  description: '',
+  category: 'limit',
+  priority: 0,
+  enabled: true,
+  eventType: '',
+  eventParams: '{}',
+  conditions: DEFAULT_CONDITIONS
+}
+
+const StatsCell = ({ stats }: { stats: RuleStats }) => {
+  if (stats.total === 0) {
+    return (
+      <Typography variant='caption' color='text.secondary'>
+        Нет выполнений
+      </Typography>
+    )
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 0.5 }}>
+        <Chip size='small' label={stats.total} />
+        <Chip size='small' color='success' variant='outlined' label={stats.success} />
+        {stats.failed > 0 && <Chip size='small' color='error' variant='outlined' label={stats.failed} />}
+      </Box>
+      <Typography variant='caption' color='text.secondary'>
+        {stats.avgDuration.toFixed(1)} мс · {formatDateTime(stats.lastExecutedAt)}
+      </Typography>
+    </Box>
+  )
+}
+
+const BusinessRules = () => {
+  const { checkPermission, isLoading: permissionsLoading } = usePermissions()
+
+  // Состояния
+  const [rules, setRules] = useState<BusinessRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [categoryFilter, setCategoryFilter] = useState<RuleCategory | ''>('')
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<BusinessRule | null>(null)
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM)
+  const [rawMode, setRawMode] = useState(false)
+  const [rawConditions, setRawConditions] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [deletingRule, setDeletingRule] = useState<BusinessRule | null>(null)
+  const [testingRule, setTestingRule] = useState<BusinessRule | null>(null)
+  const [executionsRule, setExecutionsRule] = useState<BusinessRule | null>(null)
+  const [executions, setExecutions] = useState<RuleExecution[]>([])
+  const [executionsCursor, setExecutionsCursor] = useState<string | null>(null)
+  const [executionsLoading, setExecutionsLoading] = useState(false)
+
+  // Права доступа
+  const canRead = checkPermission('rulesManagement', 'read')
+  const canCreate = checkPermission('rulesManagement', 'create')
+  const canUpdate = checkPermission('rulesManagement', 'update')
+  const canDelete = checkPermission('rulesManagement', 'delete')
+
+  // Загрузка правил
+  const fetchRules = useCallback(async () => {
+    if (!canRead) {
+      setLoading(false)
+
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const params = new URLSearchParams({ days: String(STATS_DAYS) })
+
+      if (categoryFilter) params.set('category', categoryFilter)
+
+      const response = await fetch(`/api/admin/rules?${params}`)
+
+      if (!response.ok) throw new Error('Failed to load rules')
+
+      const data = await response.json()
+
+      setRules(data.rules || [])
+    } catch (error) {
+      toast.error('Ошибка загрузки правил')
+      console.error(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [canRead, categoryFilter])
+
+  useEffect(() => {
+    if (!permissionsLoading) {
+      fetchRules()
+    }
+  }, [fetchRules, permissionsLoading])
+
+  // Загрузка истории выполнений
+  const fetchExecutions = useCallback(async (ruleId: string, cursor?: string) => {
+    setExecutionsLoading(true)
+
+    try {
+      const params = new URLSearchParams({ ruleId, limit: '20' })
+
+      if (cursor) params.set('cursor', cursor)
+
+      const response = await fetch(`/api/admin/rules/executions?${params}`)
+
+      if (!response.ok) throw new Error('Failed to load executions')
+
+      const data = await response.json()
+
+      setExecutions(prev => (cursor ? [...prev, ...data.items] : data.items))
+      setExecutionsCursor(data.nextCursor)
+    } catch (error) {
+      toast.error('Ошибка загрузки истории')
+      console.error(error)
+    } finally {
+      setExecutionsLoading(false)
+    }
+  }, [])
+
+  const openExecutions = (rule: BusinessRule) => {
+    setExecutionsRule(rule)
+    setExecutions([])
+    setExecutionsCursor(null)
+    fetchExecutions(rule.id)
+  }
+
+  // Обработчики формы
+  const openCreateDialog = () => {
+    setEditingRule(null)
+    setFormData(EMPTY_FORM)
+    setRawMode(false)
+    setDialogOpen(true)
+  }
+
+  const openEditDialog = (rule: BusinessRule) => {
+    setEditingRule(rule)
+    setFormData({
+      name: rule.name,
+      description: rule.description || '',
+      category: rule.category,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      eventType: rule.event?.type || '',
+      eventParams: JSON.stringify(rule.event?.params ?? {}, null, 2),
+      conditions: rule.conditions ?? DEFAULT_CONDITIONS
+    })
+    setRawMode(false)
+    setDialogOpen(true)
+  }
+
+  const toggleRawMode = () => {
+    if (!rawMode) {
+      setRawConditions(JSON.stringify(formData.conditions, null, 2))
+      setRawMode(true)
+
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(rawConditions)
+
+      if (!parsed || (!Array.isArray(parsed.all) && !Array.isArray(parsed.any))) {
+        throw new Error('Root must be { "all": [...] } or { "any": [...] }')
+      }
+
+      setFormData(prev => ({ ...prev, conditions: parsed }))
+      setRawMode(false)
+    } catch (error) {
+      toast.error(`Некорректный JSON условий: ${error instanceof Error ? error.message : ''}`)
+    }
+  }
+
+  // Текущие условия и событие формы; null - если JSON не разбирается
+  const getDraft = () => {
+    try {
+      const conditions = rawMode ? (JSON.parse(rawConditions) as RuleConditions) : formData.conditions
+      const params = JSON.parse(formData.eventParams || '{}') as Record<string, unknown>
+
+      return {
+        name: formData.name || undefined,
+        category: formData.category,
+        conditions,
+        event: { type: formData.eventType, params }
+      }
+    } catch {
+      return null
+    }
+  }
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Введите название правила')
+
+      return
+    }
+
+    if (!formData.eventType.trim()) {
+      toast.error('Укажите тип события')
+
+      return
+    }
+
+    const draft = getDraft()
+
+    if (!draft) {
+      toast.error('Условия или параметры события содержат некорректный JSON')
+
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const ruleData = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || undefined,
+        category: formData.category,
+        priority: formData.priority,
+        enabled: formData.enabled,
+        conditions: draft.conditions,
+        event: draft.event
+      }
+
+      const url = editingRule ? `/api/admin/rules/${editingRule.id}` : '/api/admin/rules'
+
+      const response = await fetch(url, {
+        method: editingRule ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleData)
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+
+        throw new Error(error.error || 'Failed to save')
+      }
+
+      toast.success(editingRule ? 'Правило обновлено' : 'Правило создано')
+      setDialogOpen(false)
+      fetchRules()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ошибка сохранения')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleEnabled = async (rule: BusinessRule) => {
+    try {
+      const response = await fetch(`/api/admin/rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled })
+      })
+
+      if (!response.ok) throw new Error('Failed to update')
+
+      setRules(prev => prev.map(item => (item.id === rule.id ? { ...item, enabled: !item.enabled } : item)))
+      toast.success(rule.enabled ? 'Правило отключено' : 'Правило включено')
+    } catch {
+      toast.error('Ошибка обновления')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deletingRule) return
+
+    try {
+      const response = await fetch(`/api/admin/rules/${deletingRule.id}`, { method: 'DELETE' })
+
+      if (!response.ok) throw new Error('Failed to delete')
+
+      toast.success('Правило удалено')
+      setDeletingRule(null)
+      fetchRules()
+    } catch {
+      toast.error('Ошибка удаления')
+    }
+  }
+
+  // Рендер
+  if (permissionsLoading) {
+    return (
+      <div className='flex justify-center items-center py-16'>
+        <CircularProgress />
+      </div>
+    )
+  }
+
+  if (!canRead) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography>Нет доступа к управлению бизнес-правилами</Typography>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const draft = dialogOpen ? getDraft() : null
+
+  return (
+    <>
+      <Card>
+        <CardHeader
+          title='Бизнес-правила'
+          subheader={`Условия json-rules-engine для тарифов, лимитов, блокировок и уведомлений. Статистика за ${STATS_DAYS} дней`}
+          action={
+            <div className='flex gap-2'>
+              <TextField
+                select
+                size='small'
+                label='Категория'
+                value={categoryFilter}
+                onChange={e => setCategoryFilter(e.target.value as RuleCategory | '')}
+                sx={{ minWidth: 160 }}
+              >
+                <MenuItem value=''>Все</MenuItem>
+                {RULE_CATEGORIES.map(category => (
+                  <MenuItem key={category.value} value={category.value}>
+                    {category.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button variant='outlined' onClick={fetchRules} disabled={loading}>
+                <i className='ri-refresh-line mr-2' />
+                Обновить
+              </Button>
+              {canCreate && (
+                <Button variant='contained' onClick={openCreateDialog}>
+                  <i className='ri-add-line mr-2' />
+                  Создать правило
+                </Button>
+              )}
+            </div>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <div className='flex justify-center items-center py-8'>
+              <CircularProgress />
+            </div>
+          ) : rules.length === 0 ? (
+            <Alert severity='info'>Правила не найдены. Создайте первое правило.</Alert>
+          ) : (
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Статус</TableCell>
+                  <TableCell>Название</TableCell>
+                  <TableCell>Категория</TableCell>
+                  <TableCell>Событие</TableCell>
+                  <TableCell>Приоритет</TableCell>
+                  <TableCell>Выполнения</TableCell>
+                  <TableCell align='right'>Действия</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} hover>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onChange={() => handleToggleEnabled(rule)}
+                        disabled={!canUpdate}
+                        size='small'
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant='body2' fontWeight={500}>
+                        {rule.name}
+                      </Typography>
+                      {rule.description && (
+                        <Typography variant='caption' color='text.secondary'>
+                          {rule.description}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size='small' variant='outlined' label={getCategoryLabel(rule.category)} />
+                    </TableCell>
+                    <TableCell>
+                      {rule.event ? (
+                        <Chip size='small' color='primary' variant='outlined' label={rule.event.type} />
+                      ) : (
+                        <Chip size='small' color='error' label='Некорректный JSON' />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size='small' label={rule.priority} />
+                    </TableCell>
+                    <TableCell>
+                      <StatsCell stats={rule.stats} />
+                    </TableCell>
+                    <TableCell align='right' sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title='Проверить на фактах'>
+                        <IconButton size='small' onClick={() => setTestingRule(rule)}>
+                          <i className='ri-play-circle-line' />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title='История выполнений'>
+                        <IconButton size='small' onClick={() => openExecutions(rule)}>
+                          <i className='ri-history-line' />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title='Редактировать'>
+                        <span>
+                          <IconButton size='small' onClick={() => openEditDialog(rule)} disabled={!canUpdate}>
+                            <i className='ri-edit-line' />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title='Удалить'>
+                        <span>
+                          <IconButton
+                            size='small'
+                            color='error'
+                            onClick={() => setDeletingRule(rule)}
+                            disabled={!canDelete}
+                          >
+                            <i className='ri-delete-bin-line' />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Диалог создания/редактирования */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth='lg' fullWidth>
+        <DialogTitle>{editingRule ? 'Редактировать правило' : 'Создать правило'}</DialogTitle>
+        <DialogContent dividers>
+          <Grid container spacing={4}>
+            <Grid item xs={12} md={8}>
+              <Grid container spacing={3}>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label='Название'
+                    value={formData.name}
+                    onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <TextField
+                    fullWidth
+                    select
+                    label='Категория'
+                    value={formData.category}
+                    onChange={e => setFormData(prev => ({ ...prev, category: e.target.value as RuleCategory }))}
+                  >
+                    {RULE_CATEGORIES.map(category => (
+                      <MenuItem key={category.value} value={category.value}>
+                        {category.label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <TextField
+                    fullWidth
+                    label='Приоритет'
+                    type='number'
+                    value={formData.priority}
+                    onChange={e => setFormData(prev => ({ ...prev, priority: parseInt(e.target.value) || 0 }))}
+                    helperText='Больше = раньше'
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <TextField
+                    fullWidth
+                    label='Описание'
+                    value={formData.description}
+                    onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <Typography variant='subtitle2'>Условия</Typography>
+                    <Button size='small' onClick={toggleRawMode}>
+                      <i className={rawMode ? 'ri-node-tree mr-1' : 'ri-code-s-slash-line mr-1'} />
+                      {rawMode ? 'Конструктор' : 'JSON'}
+                    </Button>
+                  </Box>
+                </Grid>
+                <Grid item xs={12}>
+                  {rawMode ? (
+                    <TextField
+                      fullWidth
+                      multiline
+                      minRows={10}
+                      value={rawConditions}
+                      onChange={e => setRawConditions(e.target.value)}
+                      slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: 13 } } }}
+                    />
+                  ) : (
+                    <ConditionBuilder
+                      value={formData.conditions}
+                      onChange={conditions => setFormData(prev => ({ ...prev, conditions }))}
+                    />
+                  )}
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant='subtitle2'>Событие (результат срабатывания)</Typography>
+                </Grid>
+                <Grid item xs={12} sm={5}>
+                  <TextField
+                    fullWidth
+                    label='Тип события'
+                    value={formData.eventType}
+                    onChange={e => setFormData(prev => ({ ...prev, eventType: e.target.value }))}
+                    helperText='Например: block-user, send-notification'
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={7}>
+                  <TextField
+                    fullWidth
+                    multiline
+                    minRows={3}
+                    label='Параметры (JSON)'
+                    value={formData.eventParams}
+                    onChange={e => setFormData(prev => ({ ...prev, eventParams: e.target.value }))}
+                    slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: 13 } } }}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={formData.enabled}
+                        onChange={e => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+                      />
+                    }
+                    label='Правило включено'
+                  />
+                </Grid>
+              </Grid>
+            </Grid>
+
+            {/* Dry-run */}
+            <Grid item xs={12} md={4}>
+              <Typography variant='subtitle2' gutterBottom>
+                Проверка на примере
+              </Typography>
+              {draft ? (
+                <RuleDryRunPanel draft={draft} />
+              ) : (
+                <Alert severity='warning'>Исправьте JSON условий или параметров, чтобы запустить проверку</Alert>
+              )}
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Отмена</Button>
+          <Button variant='contained' onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Сохранить'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Dry-run сохранённого правила */}
+      <Dialog open={Boolean(testingRule)} onClose={() => setTestingRule(null)} maxWidth='sm' fullWidth>
+        <DialogTitle>Проверка правила: {testingRule?.name}</DialogTitle>
+        <DialogContent dividers>{testingRule && <RuleDryRunPanel ruleId={testingRule.id} />}</DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTestingRule(null)}>Закрыть</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* История выполнений */}
+      <Dialog open={Boolean(executionsRule)} onClose={() => setExecutionsRule(null)} maxWidth='md' fullWidth>
+        <DialogTitle>История выполнений: {executionsRule?.name}</DialogTitle>
+        <DialogContent dividers>
+          {executions.length === 0 && !executionsLoading ? (
+            <Alert severity='info'>Правило ещё не выполнялось</Alert>
+          ) : (
+            <Table size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Время</TableCell>
+                  <TableCell>Результат</TableCell>
+                  <TableCell>Длительность</TableCell>
+                  <TableCell>Факты</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {executions.map(execution => (
+                  <TableRow key={execution.id}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateTime(execution.createdAt)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size='small'
+                        color={execution.success ? 'success' : 'error'}
+                        label={execution.success ? 'Успешно' : 'Ошибка'}
+                      />
+                      {execution.error && (
+                        <Typography variant='caption' color='error' display='block'>
+                          {execution.error}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{execution.duration} мс</TableCell>
+                    <TableCell>
+                      <Typography
+                        variant='caption'
+                        component='pre'
+                        sx={{ m: 0, maxWidth: 360, maxHeight: 120, overflow: 'auto' }}
+                      >
+                        {JSON.stringify(execution.facts, null, 2)}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {executionsLoading && (
+            <div className='flex justify-center py-4'>
+              <CircularProgress size={24} />
+            </div>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {executionsCursor && executionsRule && (
+            <Button
+              onClick={() => fetchExecutions(executionsRule.id, executionsCursor)}
+              disabled={executionsLoading}
+            >
+              Загрузить ещё
+            </Button>
+          )}
+          <Button onClick={() => setExecutionsRule(null)}>Закрыть</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Диалог удаления */}
+      <Dialog open={Boolean(deletingRule)} onClose={() => setDeletingRule(null)}>
+        <DialogTitle>Удалить правило?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Правило &quot;{deletingRule?.name}&quot; будет удалено вместе с историей выполнений. Это действие нельзя
+            отменить.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeletingRule(null)}>Отмена</Button>
+          <Button color='error' variant='contained' onClick={handleDelete}>
+            Удалить
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default BusinessRules
@@ -0,0 +1,217 @@
+'use client'
+
+import Box from '@mui/material/Box'
+import Button from '@mui/material/Button'
+import IconButton from '@mui/material/IconButton'
+import MenuItem from '@mui/material/MenuItem'
+import TextField from '@mui/material/TextField'
+import ToggleButton from '@mui/material/ToggleButton'
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup'
+import Tooltip from '@mui/material/Tooltip'
+import Typography from '@mui/material/Typography'
+
+import type { ConditionNode, ConditionOperator, RuleCondition, RuleConditions } from './types'
+import { CONDITION_OPERATORS, isConditionGroup } from './types'
+
+// Максимальная вложенность групп (совпадает с серверной валидацией)
+const MAX_DEPTH = 6
+
+const EMPTY_CONDITION: RuleCondition = { fact: '', operator: 'equal', value: '' }
+
+const getChildren = (group: RuleConditions): ConditionNode[] => ('all' in group ? group.all : group.any)
+
+const withChildren = (group: RuleConditions, children: ConditionNode[]): RuleConditions =>
+  'all' in group ? { all: children } : { any: children }
+
+// Значение условия вводится как JSON (10, true, ["a","b"]), всё остальное считается строкой
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value))
+
+const parseValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+interface ConditionRowProps {
+  condition: RuleCondition
+  disabled?: boolean
+  onChange: (condition: RuleCondition) => void
+  onRemove: () => void
+}
+
+const ConditionRow = ({ condition, disabled, onChange, onRemove }: ConditionRowProps) => (
+  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+    <TextField
+      size='small'
+      label='Факт'
+      value={condition.fact}
+      onChange={e => onChange({ ...condition, fact: e.target.value })}
+      disabled={disabled}
+      sx={{ flex: 2 }}
+    />
+    <TextField
+      size='small'
+      label='Путь'
+      placeholder='$.field'
+      value={condition.path || ''}
+      onChange={e => onChange({ ...condition, path: e.target.value || undefined })}
+      disabled={disabled}
+      sx={{ flex: 1.5 }}
+    />
+    <TextField
+      select
+      size='small'
+      label='Оператор'
+      value={condition.operator}
+      onChange={e => onChange({ ...condition, operator: e.target.value as ConditionOperator })}
+      disabled={disabled}
+      sx={{ flex: 2 }}
+    >
+      {CONDITION_OPERATORS.map(operator => (
+        <MenuItem key={operator.value} value={operator.value}>
+          {operator.label}
+        </MenuItem>
+      ))}
+    </TextField>
+    <TextField
+      size='small'
+      label='Значение'
+      value={formatValue(condition.value)}
+      onChange={e => onChange({ ...condition, value: parseValue(e.target.value) })}
+      disabled={disabled}
+      sx={{ flex: 2 }}
+    />
+    <Tooltip title='Удалить условие'>
+      <span>
+        <IconButton size='small' color='error' onClick={onRemove} disabled={disabled}>
+          <i className='ri-close-line' />
+        </IconButton>
+      </span>
+    </Tooltip>
+  </Box>
+)
+
+interface ConditionGroupEditorProps {
+  group: RuleConditions
+  depth?: number
+  disabled?: boolean
+  onChange: (group: RuleConditions) => void
+  onRemove?: () => void
+}
+
+const ConditionGroupEditor = ({ group, depth = 0, disabled, onChange, onRemove }: ConditionGroupEditorProps) => {
+  const children = getChildren(group)
+  const mode = 'all' in group ? 'all' : 'any'
+
+  const updateChild = (index: number, node: ConditionNode) =>
+    onChange(withChildren(group, children.map((child, i) => (i === index ? node : child))))
+
+  const removeChild = (index: number) =>
+    onChange(withChildren(group, children.filter((_, i) => i !== index)))
+
+  return (
+    <Box
+      sx={{
+        border: 1,
+        borderColor: mode === 'all' ? 'primary.main' : 'warning.main',
+        borderRadius: 1,
+        p: 2,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1.5
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <ToggleButtonGroup
+          size='small'
+          exclusive
+          value={mode}
+          disabled={disabled}
+          onChange={(_, value: 'all' | 'any' | null) => {
+            if (value && value !== mode) onChange(value === 'all' ? { all: children } : { any: children })
+          }}
+        >
+          <ToggleButton value='all'>Все (AND)</ToggleButton>
+          <ToggleButton value='any'>Любое (OR)</ToggleButton>
+        </ToggleButtonGroup>
+        <Box sx={{ flex: 1 }} />
+        {onRemove && (
+          <Tooltip title='Удалить группу'>
+            <span>
+              <IconButton size='small' color='error' onClick={onRemove} disabled={disabled}>
+                <i className='ri-delete-bin-line' />
+              </IconButton>
+            </span>
+          </Tooltip>
+        )}
+      </Box>
+
+      {children.length === 0 && (
+        <Typography variant='caption' color='text.secondary'>
+          Группа пуста - добавьте хотя бы одно условие
+        </Typography>
+      )}
+
+      {children.map((child, index) =>
+        isConditionGroup(child) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            disabled={disabled}
+            onChange={node => updateChild(index, node)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            disabled={disabled}
+            onChange={node => updateChild(index, node)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          size='small'
+          variant='text'
+          disabled={disabled}
+          onClick={() => onChange(withChildren(group, [...children, { ...EMPTY_CONDITION }]))}
+        >
+          <i className='ri-add-line mr-1' />
+          Условие
+        </Button>
+        <Button
+          size='small'
+          variant='text'
+          disabled={disabled || depth + 1 >= MAX_DEPTH}
+          onClick={() =>
+            onChange(withChildren(group, [...children, mode === 'all' ? { any: [{ ...EMPTY_CONDITION }] } : { all: [{ ...EMPTY_CONDITION }] }]))
+          }
+        >
+          <i className='ri-node-tree mr-1' />
+          Группа
+        </Button>
+      </Box>
+    </Box>
+  )
+}
+
+interface ConditionBuilderProps {
+  value: RuleConditions
+  disabled?: boolean
+  onChange: (value: RuleConditions) => void
+}
+
+/**
+ * Визуальный конструктор дерева условий json-rules-engine (all/any)
+ */
+const ConditionBuilder = ({ value, disabled, onChange }: ConditionBuilderProps) => (
+  <ConditionGroupEditor group={value} disabled={disabled} onChange={onChange} />
+)
+
+export default ConditionBuilder
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+
+import Alert from '@mui/material/Alert'
+import Box from '@mui/material/Box'
+import Button from '@mui/material/Button'
+import Chip from '@mui/material/Chip'
+import CircularProgress from '@mui/material/CircularProgress'
+import TextField from '@mui/material/TextField'
+import Typography from '@mui/material/Typography'
+
+import type { ConditionTraceGroup, ConditionTraceLeaf, ConditionTraceNode } from '@/services/rules/types'
+
+import type { DryRunResult, RuleCategory, RuleConditions, RuleEvent } from './types'
+import { CONDITION_OPERATORS } from './types'
+
+const DEFAULT_FACTS = `{
+  "user": { "role": "USER" },
+  "event": { "type": "user.login" }
+}`
+
+const ResultIcon = ({ result }: { result?: boolean }) =>
+  result === undefined ? (
+    <i className='ri-subtract-line' style={{ color: 'var(--mui-palette-text-disabled)' }} />
+  ) : result ? (
+    <i className='ri-checkbox-circle-fill' style={{ color: 'var(--mui-palette-success-main)' }} />
+  ) : (
+    <i className='ri-close-circle-fill' style={{ color: 'var(--mui-palette-error-main)' }} />
+  )
+
+const TraceNode = ({ node }: { node: ConditionTraceNode }) => {
+  if ('all' in node || 'any' in node) {
+    const group = node as ConditionTraceGroup
+    const children = group.all ?? group.any ?? []
+
+    return (
+      <Box sx={{ pl: 2, borderLeft: 2, borderColor: 'divider' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ResultIcon result={group.result} />
+          <Typography variant='body2' fontWeight={500}>
+            {group.all ? 'Все (AND)' : 'Любое (OR)'}
+          </Typography>
+        </Box>
+        {children.map((child, index) => (
+          <TraceNode key={index} node={child} />
+        ))}
+      </Box>
+    )
+  }
+
+  const leaf = node as ConditionTraceLeaf
+  const operator = CONDITION_OPERATORS.find(item => item.value === leaf.operator)?.label ?? leaf.operator
+
+  return (
+    <Box sx={{ pl: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <ResultIcon result={leaf.result} />
+      <Typography variant='body2' component='code'>
+        {leaf.fact}
+        {leaf.path ? leaf.path.replace(/^\$/, '') : ''}
+      </Typography>
+      <Typography variant='body2' color='text.secondary'>
+        {operator}
+      </Typography>
+      <Typography variant='body2' component='code'>
+        {JSON.stringify(leaf.value)}
+      </Typography>
+      <Typography variant='caption' color='text.secondary'>
+        (факт: {leaf.factResult === undefined ? 'не задан' : JSON.stringify(leaf.factResult)})
+      </Typography>
+    </Box>
+  )
+}
+
+interface RuleDryRunPanelProps {
+  ruleId?: string // Сохранённое правило
+  draft?: {
+    name?: string
+    category?: RuleCategory
+    conditions: RuleConditions
+    event: RuleEvent
+  }
+}
+
+/**
+ * Dry-run правила на примере фактов: результат, события и дерево условий с фактическими значениями.
+ * Черновик из формы редактирования (draft) имеет приоритет над ruleId.
+ */
+const RuleDryRunPanel = ({ ruleId, draft }: RuleDryRunPanelProps) => {
+  const [factsText, setFactsText] = useState(DEFAULT_FACTS)
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<DryRunResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRun = async () => {
+    let facts: Record<string, unknown>
+
+    try {
+      facts = JSON.parse(factsText)
+    } catch {
+      setError('Факты должны быть корректным JSON-объектом')
+
+      return
+    }
+
+    setRunning(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/rules/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft ? { rule: draft, facts } : { ruleId, facts })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to test rule')
+
+      setResult(data.result)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : 'Ошибка проверки правила')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <TextField
+        fullWidth
+        multiline
+        minRows={5}
+        label='Факты (JSON)'
+        value={factsText}
+        onChange={e => setFactsText(e.target.value)}
+        helperText='Async факты не загружаются - передайте все нужные значения явно'
+        slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: 13 } } }}
+      />
+      <Box>
+        <Button variant='outlined' onClick={handleRun} disabled={running || (!ruleId && !draft)}>
+          {running ? <CircularProgress size={16} className='mr-2' /> : <i className='ri-play-line mr-2' />}
+          Проверить
+        </Button>
+      </Box>
+
+      {error && <Alert severity='error'>{error}</Alert>}
+
+      {result && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <Chip
+              size='small'
+              color={result.matched ? 'success' : 'default'}
+              label={result.matched ? 'Сработало' : 'Не сработало'}
+            />
+            <Typography variant='caption' color='text.secondary'>
+              {result.duration} мс
+            </Typography>
+          </Box>
+
+          {result.error && <Alert severity='warning'>{result.error}</Alert>}
+
+          {result.events.map((event, index) => (
+            <Alert key={index} severity='success' icon={<i className='ri-flashlight-line' />}>
+              <Typography variant='body2' fontWeight={500}>
+                {event.type}
+              </Typography>
+              {Object.keys(event.params || {}).length > 0 && (
+                <Typography variant='caption' component='pre' sx={{ m: 0 }}>
+                  {JSON.stringify(event.params, null, 2)}
+                </Typography>
+              )}
+            </Alert>
+          ))}
+
+          {result.trace && (
+            <Box>
+              <Typography variant='subtitle2' sx={{ mb: 1 }}>
+                Проверка условий
+              </Typography>
+              <TraceNode node={result.trace} />
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  )
+}
+
+export default RuleDryRunPanel
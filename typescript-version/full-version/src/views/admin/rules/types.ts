@@ -0,0 +1,88 @@
+import type {
+  ConditionOperator,
+  ConditionTraceGroup,
+  RuleCategory,
+  RuleCondition,
+  RuleConditions,
+  RuleEvent
+} from '@/services/rules/types'
+
+export type { ConditionOperator, ConditionTraceGroup, RuleCategory, RuleCondition, RuleConditions, RuleEvent }
+
+// Узел дерева условий в конструкторе
+export type ConditionNode = RuleCondition | RuleConditions
+
+export interface RuleStats {
+  total: number
+  success: number
+  failed: number
+  avgDuration: number
+  lastExecutedAt?: string | null
+}
+
+export interface BusinessRule {
+  id: string
+  name: string
+  description: string | null
+  category: RuleCategory
+  conditions: RuleConditions | null
+  event: RuleEvent | null
+  priority: number
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+  stats: RuleStats
+}
+
+export interface RuleExecution {
+  id: string
+  ruleId: string
+  facts: Record<string, unknown>
+  result: unknown
+  success: boolean
+  duration: number
+  error: string | null
+  actorId: string | null
+  createdAt: string
+  rule: { id: string; name: string }
+}
+
+export interface DryRunResult {
+  matched: boolean
+  events: Array<{ type: string; params: Record<string, unknown>; ruleName?: string }>
+  duration: number
+  trace?: ConditionTraceGroup
+  error?: string
+}
+
+export const RULE_CATEGORIES: Array<{ value: RuleCategory; label: string }> = [
+  { value: 'tariff', label: 'Тарифы' },
+  { value: 'limit', label: 'Лимиты' },
+  { value: 'blocking', label: 'Блокировки' },
+  { value: 'notification', label: 'Уведомления' },
+  { value: 'discount', label: 'Скидки' },
+  { value: 'moderation', label: 'Модерация' }
+]
+
+export const CONDITION_OPERATORS: Array<{ value: ConditionOperator; label: string }> = [
+  { value: 'equal', label: '= равно' },
+  { value: 'notEqual', label: '≠ не равно' },
+  { value: 'lessThan', label: '< меньше' },
+  { value: 'lessThanInclusive', label: '≤ меньше или равно' },
+  { value: 'greaterThan', label: '> больше' },
+  { value: 'greaterThanInclusive', label: '≥ больше или равно' },
+  { value: 'in', label: 'в списке' },
+  { value: 'notIn', label: 'не в списке' },
+  { value: 'contains', label: 'содержит' },
+  { value: 'doesNotContain', label: 'не содержит' },
+  { value: 'startsWith', label: 'начинается с' },
+  { value: 'endsWith', label: 'заканчивается на' },
+  { value: 'matches', label: 'регулярное выражение' },
+  { value: 'isEmpty', label: 'пустое' },
+  { value: 'hasProperty', label: 'есть свойство' },
+  { value: 'between', label: 'в диапазоне [min, max]' },
+  { value: 'olderThanDays', label: 'старше N дней' },
+  { value: 'timeOfDay', label: 'время суток' }
+]
+
+export const isConditionGroup = (node: ConditionNode): node is RuleConditions => 'all' in node || 'any' in node
@@ -0,0 +1,403 @@
+'use client'
+
+/**
+ * Провайдеры входа OAuth 2.0 / OpenID Connect в админке
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+// MUI Imports
+import Card from '@mui/material/Card'
+import CardHeader from '@mui/material/CardHeader'
+import CardContent from '@mui/material/CardContent'
+import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import IconButton from '@mui/material/IconButton'
+import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
+import Switch from '@mui/material/Switch'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import Table from '@mui/material/Table'
+import TableHead from '@mui/material/TableHead'
+import TableBody from '@mui/material/TableBody'
+import TableRow from '@mui/material/TableRow'
+import TableCell from '@mui/material/TableCell'
+import Chip from '@mui/material/Chip'
+import Alert from '@mui/material/Alert'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import Grid from '@mui/material/Grid2'
+import LinearProgress from '@mui/material/LinearProgress'
+
+import { toast } from 'react-toastify'
+
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type OAuthProvider = {
+  id: string
+  slug: string
+  displayName: string
+  type: 'oidc' | 'oauth2'
+  issuer: string | null
+  authorizationUrl: string | null
+  tokenUrl: string | null
+  userInfoUrl: string | null
+  jwksUrl: string | null
+  clientId: string
+  hasClientSecret: boolean
+  scopes: string
+  iconUrl: string | null
+  enabled: boolean
+  allowSignup: boolean
+}
+
+type ProviderForm = Omit<OAuthProvider, 'id' | 'hasClientSecret'> & { clientSecret: string }
+
+const emptyForm: ProviderForm = {
+  slug: '',
+  displayName: '',
+  type: 'oidc',
+  issuer: '',
+  authorizationUrl: '',
+  tokenUrl: '',
+  userInfoUrl: '',
+  jwksUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid email profile',
+  iconUrl: '',
+  enabled: true,
+  allowSignup: true
+}
+
+const URL_FIELDS = ['issuer', 'authorizationUrl', 'tokenUrl', 'userInfoUrl', 'jwksUrl', 'iconUrl'] as const
+
+const OAuthProviderSettings = () => {
+  const dictionary = useTranslation()
+  const t = dictionary.oauth ?? {}
+
+  const [providers, setProviders] = useState<OAuthProvider[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<OAuthProvider | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState<ProviderForm>(emptyForm)
+
+  const fetchProviders = useCallback(async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/admin/settings/oauth-providers', { credentials: 'include' })
+
+      if (!response.ok) {
+        throw new Error('Failed to load providers')
+      }
+
+      const data = await response.json()
+
+      setProviders(data.data)
+    } catch (error) {
+      console.error(error)
+      toast.error(t.providersLoadError || 'Failed to load sign-in providers')
+    } finally {
+      setLoading(false)
+    }
+  }, [t.providersLoadError])
+
+  useEffect(() => {
+    fetchProviders()
+  }, [fetchProviders])
+
+  const openDialog = (provider: OAuthProvider | null) => {
+    setEditing(provider)
+    setForm(
+      provider
+        ? {
+            ...emptyForm,
+            ...Object.fromEntries(Object.entries(provider).map(([key, value]) => [key, value ?? ''])),
+            clientSecret: ''
+          }
+        : emptyForm
+    )
+    setDialogOpen(true)
+  }
+
+  const updateField = <K extends keyof ProviderForm>(field: K, value: ProviderForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    // Пустые URL - null; пустой секрет при редактировании - оставить прежний
+    const { clientSecret, ...fields } = form
+    const payload: Record<string, unknown> = { ...fields }
+
+    URL_FIELDS.forEach(field => {
+      payload[field] = form[field]?.trim() || null
+    })
+
+    if (clientSecret || !editing) {
+      payload.clientSecret = clientSecret || null
+    }
+
+    try {
+      const response = await fetch(
+        editing ? `/api/admin/settings/oauth-providers/${editing.id}` : '/api/admin/settings/oauth-providers',
+        {
+          method: editing ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(payload)
+        }
+      )
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save provider')
+      }
+
+      toast.success(t.providerSaved || 'Provider saved')
+      setDialogOpen(false)
+      await fetchProviders()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (provider: OAuthProvider) => {
+    const response = await fetch(`/api/admin/settings/oauth-providers/${provider.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ enabled: !provider.enabled })
+    })
+
+    if (response.ok) {
+      await fetchProviders()
+    } else {
+      toast.error(t.providerSaveError || 'Failed to save provider')
+    }
+  }
+
+  const handleDelete = async (provider: OAuthProvider) => {
+    if (!confirm(t.providerDeleteConfirm || 'Delete this provider? Linked user accounts are kept.')) return
+
+    const response = await fetch(`/api/admin/settings/oauth-providers/${provider.id}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    })
+
+    if (response.ok) {
+      toast.success(t.providerDeleted || 'Provider deleted')
+      await fetchProviders()
+    } else {
+      toast.error(t.providerDeleteError || 'Failed to delete provider')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title={t.providersTitle || 'Sign-in Providers'}
+        subheader={t.providersSubtitle || 'OAuth 2.0 and OpenID Connect providers for social login'}
+        action={
+          <Button variant='contained' startIcon={<i className='ri-add-line' />} onClick={() => openDialog(null)}>
+            {t.addProvider || 'Add provider'}
+          </Button>
+        }
+      />
+      {loading && <LinearProgress />}
+      <CardContent>
+        <Alert severity='info' className='mbe-4'>
+          {t.redirectUriHint || 'Register this redirect URI with the provider:'}{' '}
+          <code>{`${typeof window !== 'undefined' ? window.location.origin : ''}/api/auth/oauth/<slug>/callback`}</code>
+        </Alert>
+        {!loading && providers.length === 0 ? (
+          <Typography color='text.secondary'>{t.noProviders || 'No providers configured yet.'}</Typography>
+        ) : (
+          <Table size='small'>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t.displayName || 'Name'}</TableCell>
+                <TableCell>{t.slug || 'Slug'}</TableCell>
+                <TableCell>{t.type || 'Type'}</TableCell>
+                <TableCell>{t.allowSignup || 'Sign-up'}</TableCell>
+                <TableCell>{t.enabled || 'Enabled'}</TableCell>
+                <TableCell align='right' />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {providers.map(provider => (
+                <TableRow key={provider.id}>
+                  <TableCell>
+                    <div className='flex items-center gap-2'>
+                      {provider.iconUrl && <img src={provider.iconUrl} alt='' width={20} height={20} />}
+                      {provider.displayName}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <code>{provider.slug}</code>
+                  </TableCell>
+                  <TableCell>
+                    <Chip size='small' variant='tonal' label={provider.type === 'oidc' ? 'OpenID Connect' : 'OAuth 2.0'} />
+                  </TableCell>
+                  <TableCell>{provider.allowSignup ? t.yes || 'Yes' : t.no || 'No'}</TableCell>
+                  <TableCell>
+                    <Switch checked={provider.enabled} onChange={() => handleToggle(provider)} />
+                  </TableCell>
+                  <TableCell align='right'>
+                    <IconButton size='small' onClick={() => openDialog(provider)}>
+                      <i className='ri-edit-line' />
+                    </IconButton>
+                    <IconButton size='small' color='error' onClick={() => handleDelete(provider)}>
+                      <i className='ri-delete-bin-7-line' />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth='md' fullWidth>
+        <DialogTitle>{editing ? t.editProvider || 'Edit provider' : t.addProvider || 'Add provider'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={4} className='pbs-2'>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.displayName || 'Name'}
+                value={form.displayName}
+                onChange={e => updateField('displayName', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 3 }}>
+              <TextField
+                fullWidth
+                label={t.slug || 'Slug'}
+                value={form.slug}
+                onChange={e => updateField('slug', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 3 }}>
+              <TextField
+                select
+                fullWidth
+                label={t.type || 'Type'}
+                value={form.type}
+                onChange={e => updateField('type', e.target.value as ProviderForm['type'])}
+              >
+                <MenuItem value='oidc'>OpenID Connect</MenuItem>
+                <MenuItem value='oauth2'>OAuth 2.0</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label={t.issuer || 'Issuer'}
+                helperText={t.issuerHint || 'OpenID Connect: endpoints are discovered from the issuer'}
+                value={form.issuer}
+                onChange={e => updateField('issuer', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.authorizationUrl || 'Authorization URL'}
+                value={form.authorizationUrl}
+                onChange={e => updateField('authorizationUrl', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.tokenUrl || 'Token URL'}
+                value={form.tokenUrl}
+                onChange={e => updateField('tokenUrl', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.userInfoUrl || 'User info URL'}
+                value={form.userInfoUrl}
+                onChange={e => updateField('userInfoUrl', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.jwksUrl || 'JWKS URL'}
+                value={form.jwksUrl}
+                onChange={e => updateField('jwksUrl', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.clientId || 'Client ID'}
+                value={form.clientId}
+                onChange={e => updateField('clientId', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                type='password'
+                label={t.clientSecret || 'Client secret'}
+                helperText={
+                  editing?.hasClientSecret ? t.clientSecretKeep || 'Leave empty to keep the current secret' : undefined
+                }
+                value={form.clientSecret}
+                onChange={e => updateField('clientSecret', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.scopes || 'Scopes'}
+                value={form.scopes}
+                onChange={e => updateField('scopes', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label={t.iconUrl || 'Icon URL'}
+                value={form.iconUrl}
+                onChange={e => updateField('iconUrl', e.target.value)}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <FormControlLabel
+                control={<Switch checked={form.enabled} onChange={e => updateField('enabled', e.target.checked)} />}
+                label={t.enabled || 'Enabled'}
+              />
+              <FormControlLabel
+                control={
+                  <Switch checked={form.allowSignup} onChange={e => updateField('allowSignup', e.target.checked)} />
+                }
+                label={t.allowSignupLabel || 'Create accounts for new users'}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>{t.cancel || 'Cancel'}</Button>
+          <Button variant='contained' onClick={handleSave} disabled={saving}>
+            {t.save || 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  )
+}
+
+export default OAuthProviderSettings
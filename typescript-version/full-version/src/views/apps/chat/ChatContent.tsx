@@ -11,7 +11,16 @@ import Typography from '@mui/material/Typography'
 import IconButton from '@mui/material/IconButton'
 import CardContent from '@mui/material/CardContent'
 
-import type { ChatRoom } from '@/lib/sockets/types/chat'
+import type {
+  ChatMessage,
+  ChatMessageAttachment,
+  ChatMessageDeleteScope,
+  ChatMessageEdit,
+  ChatModerationAction,
+  ChatReportReason,
+  ChatRoom,
+  UserTypingData
+} from '@/lib/sockets/types/chat'
 import type { ThemeColor } from '@core/types'
 
 // Type Imports
@@ -24,6 +33,7 @@ import { statusObj } from '@/utils/status'
 import ChatLog from './ChatLog'
 import SendMsgForm from './SendMsgForm'
 import UserProfileRight from './UserProfileRight'
+import RoomMuteMenu from './RoomMuteMenu'
 import CustomAvatar from '@core/components/mui/Avatar'
 import { useTranslation } from '@/contexts/TranslationContext'
 import { useTranslate } from '@/hooks/useTranslate'
@@ -32,8 +42,6 @@ import { useTranslate } from '@/hooks/useTranslate'
 import { useUnreadByContact } from '@/hooks/useUnreadByContact'
 import { usePresence } from '@/contexts/PresenceProvider'
 
-import type { ChatMessage } from '@/lib/sockets/types/chat'
-
 type Props = {
   chatStore: ChatDataType
   dispatch: AppDispatch
@@ -46,14 +54,29 @@ type Props = {
   messageInputRef: RefObject<HTMLDivElement>
   room: ChatRoom | null
   isRoomLoading: boolean
-  sendMessage: (content: string) => Promise<void>
+  sendMessage: (content: string, replyToId?: string, attachments?: ChatMessageAttachment[]) => Promise<void>
+  uploadAttachment: (file: File) => Promise<ChatMessageAttachment>
   messages: ChatMessage[]
   rateLimitData: { retryAfter: number; blockedUntil: number } | null
   markMessagesAsRead: () => void
   loadMoreMessages: () => Promise<void>
   historyLoading: boolean
   hasMoreHistory: boolean
+  focusedMessageId: string | null
+  hasNewerMessages: boolean
+  jumpToLatest: () => Promise<void>
   isConnected: boolean
+  editMessage: (messageId: string, content: string) => Promise<void>
+  deleteMessage: (messageId: string, scope: ChatMessageDeleteScope) => Promise<void>
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>
+  reportMessage: (messageId: string, reason: ChatReportReason, details?: string) => Promise<void>
+  moderateMessage: (messageId: string, action: ChatModerationAction) => Promise<void>
+  canModerate: boolean
+  getEditHistory: (messageId: string) => Promise<ChatMessageEdit[]>
+  roomMutedUntil: string | null
+  setRoomMuted: (muted: boolean, durationMinutes?: number) => Promise<void>
+  setTyping: (isTyping: boolean) => void
+  typingUsers: UserTypingData[]
 }
 
 // Renders the user avatar with badge and user information
@@ -152,13 +175,28 @@ const ChatContent = (props: Props) => {
     room,
     isRoomLoading,
     sendMessage,
+    uploadAttachment,
     messages,
     rateLimitData,
     markMessagesAsRead,
     loadMoreMessages,
     historyLoading,
     hasMoreHistory,
-    isConnected
+    focusedMessageId,
+    hasNewerMessages,
+    jumpToLatest,
+    isConnected,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reportMessage,
+    moderateMessage,
+    canModerate,
+    getEditHistory,
+    roomMutedUntil,
+    setRoomMuted,
+    setTyping,
+    typingUsers
   } = props
 
   const { activeUser } = chatStore
@@ -176,6 +214,14 @@ const ChatContent = (props: Props) => {
 
   // States
   const [userProfileRightOpen, setUserProfileRightOpen] = useState(false)
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null)
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null)
+
+  // Ответ и редактирование относятся к открытой комнате
+  useEffect(() => {
+    setReplyTo(null)
+    setEditingMessage(null)
+  }, [room?.id])
 
   console.log('🔍 [ChatContent] Render:', {
     hasActiveUser: !!activeUser,
@@ -245,13 +291,14 @@ const ChatContent = (props: Props) => {
               t={t}
             />
           )}
-            {isBelowMdScreen ? null : (
-              <div className='flex items-center gap-1'>
+            <div className='flex items-center gap-1'>
+              <RoomMuteMenu mutedUntil={roomMutedUntil} setRoomMuted={setRoomMuted} disabled={!room} />
+              {isBelowMdScreen ? null : (
                 <IconButton size='small'>
                   <i className='ri-search-line text-textSecondary' />
                 </IconButton>
-              </div>
-            )}
+              )}
+            </div>
           </div>
 
           <ChatLog
@@ -265,7 +312,25 @@ const ChatContent = (props: Props) => {
             loadMoreMessages={loadMoreMessages}
             historyLoading={historyLoading}
           hasMoreHistory={hasMoreHistory}
+          focusedMessageId={focusedMessageId}
+          hasNewerMessages={hasNewerMessages}
+          jumpToLatest={jumpToLatest}
           isConnected={isConnected}
+          onReply={message => {
+            setEditingMessage(null)
+            setReplyTo(message)
+          }}
+          onEdit={message => {
+            setReplyTo(null)
+            setEditingMessage(message)
+          }}
+          deleteMessage={deleteMessage}
+          toggleReaction={toggleReaction}
+          reportMessage={reportMessage}
+          moderateMessage={moderateMessage}
+          canModerate={canModerate}
+          getEditHistory={getEditHistory}
+          typingUsers={typingUsers}
         />
 
         <SendMsgForm
@@ -276,8 +341,15 @@ const ChatContent = (props: Props) => {
             room={room}
             isRoomLoading={isRoomLoading}
             sendMessage={sendMessage}
+            uploadAttachment={uploadAttachment}
           rateLimitData={rateLimitData}
           isConnected={isConnected}
+          replyTo={replyTo}
+          editingMessage={editingMessage}
+          onCancelReply={() => setReplyTo(null)}
+          onCancelEdit={() => setEditingMessage(null)}
+          editMessage={editMessage}
+          setTyping={setTyping}
         />
         </div>
       )}
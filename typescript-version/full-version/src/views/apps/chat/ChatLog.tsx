@@ -1,5 +1,5 @@
 // React Imports
-import { useRef, useEffect, useCallback } from 'react'
+import { useRef, useEffect, useCallback, useState } from 'react'
 
 // Next Imports
 import { useParams } from 'next/navigation'
@@ -9,19 +9,34 @@ import Typography from '@mui/material/Typography'
 import Avatar from '@mui/material/Avatar'
 import CardContent from '@mui/material/CardContent'
 import CircularProgress from '@mui/material/CircularProgress'
+import Chip from '@mui/material/Chip'
+import Button from '@mui/material/Button'
 
 // Third-party Imports
 import classnames from 'classnames'
 import { useAuth } from '@/contexts/AuthProvider'
 import Skeleton from '@mui/material/Skeleton'
+import { toast } from 'react-toastify'
 
 // Type Imports
 import type { ChatDataType } from '@/types/apps/chatTypes'
-import type { ChatMessage, ChatRoom } from '@/lib/sockets/types/chat'
+import type {
+  ChatMessage,
+  ChatMessageDeleteScope,
+  ChatMessageEdit,
+  ChatModerationAction,
+  ChatReportReason,
+  ChatRoom,
+  UserTypingData
+} from '@/lib/sockets/types/chat'
 
 // Component Imports
 import CustomAvatar from '@core/components/mui/Avatar'
 import { useTranslation } from '@/contexts/TranslationContext'
+import MessageActionsMenu from './MessageActionsMenu'
+import EditHistoryDialog from './EditHistoryDialog'
+import ReportMessageDialog from './ReportMessageDialog'
+import MessageAttachments from './MessageAttachments'
 
 // Util Imports
 import { getInitials } from '@/utils/formatting/getInitials'
@@ -37,7 +52,19 @@ type ChatLogProps = {
   loadMoreMessages: () => Promise<void>
   historyLoading: boolean
   hasMoreHistory: boolean
+  focusedMessageId: string | null
+  hasNewerMessages: boolean
+  jumpToLatest: () => Promise<void>
   isConnected: boolean
+  onReply: (message: ChatMessage) => void
+  onEdit: (message: ChatMessage) => void
+  deleteMessage: (messageId: string, scope: ChatMessageDeleteScope) => Promise<void>
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>
+  reportMessage: (messageId: string, reason: ChatReportReason, details?: string) => Promise<void>
+  moderateMessage: (messageId: string, action: ChatModerationAction) => Promise<void>
+  canModerate: boolean
+  getEditHistory: (messageId: string) => Promise<ChatMessageEdit[]>
+  typingUsers: UserTypingData[]
 }
 
 const ChatLog = ({
@@ -50,7 +77,19 @@ const ChatLog = ({
   isRoomLoading,
   loadMoreMessages,
   historyLoading,
-  hasMoreHistory
+  hasMoreHistory,
+  focusedMessageId,
+  hasNewerMessages,
+  jumpToLatest,
+  onReply,
+  onEdit,
+  deleteMessage,
+  toggleReaction,
+  reportMessage,
+  moderateMessage,
+  canModerate,
+  getEditHistory,
+  typingUsers
 }: ChatLogProps) => {
   const { contacts } = chatStore
   const { user, session } = useAuth()
@@ -62,6 +101,16 @@ const ChatLog = ({
   const shouldAutoScrollRef = useRef(true)
   const prevScrollHeightRef = useRef<number | null>(null)
   const prevScrollTopRef = useRef<number>(0)
+  const scrolledFocusRef = useRef<string | null>(null)
+
+  // Сообщение, историю правок которого смотрим
+  const [historyMessage, setHistoryMessage] = useState<ChatMessage | null>(null)
+
+  // Сообщение, на которое жалуемся
+  const [reportedMessage, setReportedMessage] = useState<ChatMessage | null>(null)
+
+  // Найденное поиском сообщение, подсвеченное после перехода
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
 
   const playNotificationSound = () => {
     try {
@@ -132,7 +181,59 @@ const ChatLog = ({
     }
   }, [chatStore.activeUser?.id, user?.id, room?.id, markMessagesAsRead])
 
-  const renderedMessages = messages.filter(message => message.content && message.content.trim() !== '')
+  // Переход из поиска: один раз прокручиваем к сообщению, лента больше не липнет к низу
+  useEffect(() => {
+    if (!focusedMessageId) {
+      scrolledFocusRef.current = null
+
+      return
+    }
+
+    if (historyLoading || scrolledFocusRef.current === focusedMessageId) return
+
+    const element = document.getElementById(`chat-message-${focusedMessageId}`)
+
+    if (!element) return
+
+    scrolledFocusRef.current = focusedMessageId
+    shouldAutoScrollRef.current = false
+    element.scrollIntoView({ block: 'center' })
+    setHighlightedMessageId(focusedMessageId)
+  }, [focusedMessageId, historyLoading, messages])
+
+  useEffect(() => {
+    if (!highlightedMessageId) return
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500)
+
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId])
+
+  // Удалённые и скрытые модератором показываем заглушкой, сообщения из одних вложений - без текста
+  const renderedMessages = messages.filter(
+    message =>
+      message.deletedAt ||
+      message.hiddenAt ||
+      message.attachments?.length ||
+      (message.content && message.content.trim() !== '')
+  )
+
+  const runMessageAction = (action: Promise<void>) => {
+    action.catch(error => {
+      toast.error(
+        error instanceof Error && error.message
+          ? error.message
+          : dictionary.navigation?.chatMessageActionFailed || 'Could not update the message'
+      )
+    })
+  }
+
+  const typingText =
+    typingUsers.length > 1
+      ? dictionary.navigation?.chatSeveralTyping || 'Several people are typing...'
+      : typingUsers.length === 1
+        ? (dictionary.navigation?.chatUserTyping || '${name} is typing...').replace('${name}', typingUsers[0].userName)
+        : null
 
   return (
     <div className='bg-[var(--mui-palette-customColors-chatBg)] flex flex-col flex-1 overflow-hidden'>
@@ -161,11 +262,21 @@ const ChatLog = ({
               const isSender = message.senderId === user?.id
               const isOptimistic = message.isOptimistic
               const isFailed = message.deliveryStatus === 'failed'
+              const isDeleted = Boolean(message.deletedAt)
+              const isHidden = !isDeleted && Boolean(message.hiddenAt)
+              const hasText = isDeleted || isHidden || Boolean(message.content?.trim())
 
               const contact = contacts.find(contact => contact.id === message.senderId)
 
               return (
-                <div key={message.id} className={classnames('flex gap-4 p-5', { 'flex-row-reverse': isSender })}>
+                <div
+                  key={message.id}
+                  id={`chat-message-${message.id}`}
+                  className={classnames('flex gap-4 p-5 transition-colors duration-500', {
+                    'flex-row-reverse': isSender,
+                    'bg-[var(--mui-palette-primary-lightOpacity)]': message.id === highlightedMessageId
+                  })}
+                >
                   {!isSender ? (
                     contact?.avatar ? (
                       <Avatar
@@ -191,7 +302,19 @@ const ChatLog = ({
                       'max-is-[calc(100%-5.75rem)]': isBelowSmScreen
                     })}
                   >
-                    <div className='flex items-center gap-2'>
+                    {message.replyTo && (
+                      <div className='border-is-2 border-primary pis-2 max-is-full'>
+                        <Typography variant='caption' color='primary' className='block'>
+                          {message.replyTo.senderName}
+                        </Typography>
+                        <Typography variant='caption' color='text.secondary' className={classnames('block truncate', { italic: message.replyTo.deleted })}>
+                          {message.replyTo.deleted
+                            ? dictionary.navigation?.chatMessageDeleted || 'This message was deleted'
+                            : message.replyTo.content}
+                        </Typography>
+                      </div>
+                    )}
+                    <div className={classnames('flex items-center gap-2', { 'flex-row-reverse': isSender })}>
                       {(() => {
                         const baseClasses = classnames('whitespace-pre-wrap pli-4 plb-2 shadow-xs', {
                           'bg-backgroundPaper rounded-e rounded-b': !isSender,
@@ -207,12 +330,32 @@ const ChatLog = ({
                           }
                         : { wordBreak: 'break-word' as const }
 
+                      if (!hasText) {
+                        return (
+                          <MessageAttachments
+                            attachments={message.attachments ?? []}
+                            isSender={isSender}
+                            isPending={isOptimistic && !isFailed}
+                          />
+                        )
+                      }
+
                       return (
                         <Typography
                           className={classnames(baseClasses, 'flex items-center gap-2')}
                           style={bubbleStyle}
                         >
-                          <span>{message.content}</span>
+                          {isDeleted ? (
+                            <span className='italic opacity-70'>
+                              {dictionary.navigation?.chatMessageDeleted || 'This message was deleted'}
+                            </span>
+                          ) : isHidden ? (
+                            <span className='italic opacity-70'>
+                              {dictionary.navigation?.chatMessageHidden || 'This message was hidden by a moderator'}
+                            </span>
+                          ) : (
+                            <span>{message.content}</span>
+                          )}
                           {isOptimistic && !isFailed && (
                             <CircularProgress
                               size={14}
@@ -226,7 +369,41 @@ const ChatLog = ({
                         </Typography>
                       )
                     })()}
+                      {!isOptimistic && !isFailed && (
+                        <MessageActionsMenu
+                          message={message}
+                          isSender={isSender}
+                          onReply={onReply}
+                          onEdit={onEdit}
+                          onDelete={(target, scope) => runMessageAction(deleteMessage(target.id, scope))}
+                          onToggleReaction={(target, emoji) => runMessageAction(toggleReaction(target.id, emoji))}
+                          onReport={setReportedMessage}
+                          canModerate={canModerate}
+                          onModerate={(target, action) => runMessageAction(moderateMessage(target.id, action))}
+                        />
+                      )}
                   </div>
+                    {hasText && !isDeleted && message.attachments && message.attachments.length > 0 && (
+                      <MessageAttachments
+                        attachments={message.attachments}
+                        isSender={isSender}
+                        isPending={isOptimistic && !isFailed}
+                      />
+                    )}
+                    {!isDeleted && message.reactions && message.reactions.length > 0 && (
+                      <div className='flex flex-wrap gap-1'>
+                        {message.reactions.map(reaction => (
+                          <Chip
+                            key={reaction.emoji}
+                            size='small'
+                            label={`${reaction.emoji} ${reaction.count}`}
+                            variant={user?.id && reaction.userIds.includes(user.id) ? 'filled' : 'outlined'}
+                            color={user?.id && reaction.userIds.includes(user.id) ? 'primary' : 'default'}
+                            onClick={() => runMessageAction(toggleReaction(message.id, reaction.emoji))}
+                          />
+                        ))}
+                      </div>
+                    )}
                     {isFailed && (
                       <Typography variant='caption' color='error'>
                         Не отправлено
@@ -242,6 +419,16 @@ const ChatLog = ({
                           minute: 'numeric'
                         })}
                       </Typography>
+                      {message.editedAt && !isDeleted && (
+                        <Typography
+                          variant='caption'
+                          color='text.secondary'
+                          className='cursor-pointer underline'
+                          onClick={() => setHistoryMessage(message)}
+                        >
+                          {dictionary.navigation?.chatEdited || 'edited'}
+                        </Typography>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -256,6 +443,33 @@ const ChatLog = ({
           )}
         </CardContent>
       </div>
+      {hasNewerMessages && (
+        <div className='flex justify-center plb-2'>
+          <Button
+            size='small'
+            variant='outlined'
+            startIcon={<i className='ri-arrow-down-line' />}
+            onClick={() => runMessageAction(jumpToLatest())}
+          >
+            {dictionary.navigation?.chatJumpToLatest || 'Jump to latest messages'}
+          </Button>
+        </div>
+      )}
+      {typingText && (
+        <Typography variant='caption' color='text.secondary' className='pli-5 pbs-1 italic'>
+          {typingText}
+        </Typography>
+      )}
+      <EditHistoryDialog
+        message={historyMessage}
+        onClose={() => setHistoryMessage(null)}
+        getEditHistory={getEditHistory}
+      />
+      <ReportMessageDialog
+        message={reportedMessage}
+        onClose={() => setReportedMessage(null)}
+        reportMessage={reportMessage}
+      />
     </div>
   )
 }
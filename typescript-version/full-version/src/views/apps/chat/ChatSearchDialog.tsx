@@ -0,0 +1,227 @@
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
+// MUI Imports
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import Button from '@mui/material/Button'
+import IconButton from '@mui/material/IconButton'
+import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
+import InputAdornment from '@mui/material/InputAdornment'
+import CircularProgress from '@mui/material/CircularProgress'
+import List from '@mui/material/List'
+import ListItemButton from '@mui/material/ListItemButton'
+
+// Type Imports
+import type { ContactType } from '@/types/apps/chatTypes'
+import type { ChatSearchResultItem } from '@/services/chat'
+
+// Hook Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+  contacts: ContactType[]
+  onSelect: (result: ChatSearchResultItem) => void
+}
+
+// Пауза ввода перед запросом
+const SEARCH_DEBOUNCE_MS = 400
+
+const PAGE_SIZE = 20
+
+// Дата из поля type='date' - начало или конец дня в часовом поясе пользователя
+const toDayBoundary = (value: string, end: boolean) =>
+  value ? new Date(`${value}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString() : ''
+
+const ChatSearchDialog = ({ open, onClose, contacts, onSelect }: Props) => {
+  // States
+  const [query, setQuery] = useState('')
+  const [senderId, setSenderId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [results, setResults] = useState<ChatSearchResultItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Hooks
+  const { navigation } = useTranslation()
+
+  const search = useCallback(
+    async (pageToLoad: number, signal?: AbortSignal) => {
+      const params = new URLSearchParams({ q: query.trim(), page: String(pageToLoad), limit: String(PAGE_SIZE) })
+
+      if (senderId) params.set('senderId', senderId)
+      if (from) params.set('from', toDayBoundary(from, false))
+      if (to) params.set('to', toDayBoundary(to, true))
+
+      setLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/chat/search?${params.toString()}`, { signal })
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok) throw new Error(data.error || 'Search failed')
+
+        setResults(prev => (pageToLoad === 1 ? data.items : [...prev, ...data.items]))
+        setTotal(data.total)
+        setPage(pageToLoad)
+      } catch (err) {
+        if ((err as DOMException)?.name === 'AbortError') return
+
+        setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        if (!signal?.aborted) setLoading(false)
+      }
+    },
+    [query, senderId, from, to]
+  )
+
+  useEffect(() => {
+    if (!open || query.trim().length < 2) {
+      setResults([])
+      setTotal(0)
+      setLoading(false)
+
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => search(1, controller.signal), SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [open, query, search])
+
+  const roomLabel = (result: ChatSearchResultItem) =>
+    result.room.contactId
+      ? contacts.find(contact => contact.id === result.room.contactId)?.fullName || result.sender.name || ''
+      : result.room.name || navigation.chatSearchGroup || 'Group'
+
+  return (
+    <Dialog fullWidth maxWidth='sm' open={open} onClose={onClose} closeAfterTransition={false}>
+      <DialogTitle>{navigation.chatSearch || 'Search messages'}</DialogTitle>
+      <IconButton className='absolute block-start-4 inline-end-4' onClick={onClose}>
+        <i className='ri-close-line text-textSecondary' />
+      </IconButton>
+      <DialogContent className='flex flex-col gap-4'>
+        <TextField
+          autoFocus
+          fullWidth
+          size='small'
+          placeholder={navigation.chatSearchPlaceholder || 'Words from the message'}
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position='start'>
+                  <i className='ri-search-line text-xl' />
+                </InputAdornment>
+              )
+            }
+          }}
+        />
+        <div className='flex flex-wrap gap-4'>
+          <TextField
+            select
+            size='small'
+            className='min-is-[180px] flex-1'
+            label={navigation.chatSearchSender || 'Sender'}
+            value={senderId}
+            onChange={event => setSenderId(event.target.value)}
+          >
+            <MenuItem value=''>{navigation.chatSearchAnySender || 'Anyone'}</MenuItem>
+            {contacts.map(contact => (
+              <MenuItem key={contact.id} value={contact.id}>
+                {contact.fullName}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size='small'
+            type='date'
+            label={navigation.chatSearchFrom || 'From'}
+            value={from}
+            onChange={event => setFrom(event.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            size='small'
+            type='date'
+            label={navigation.chatSearchTo || 'To'}
+            value={to}
+            onChange={event => setTo(event.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </div>
+        {error && (
+          <Typography variant='body2' color='error'>
+            {error}
+          </Typography>
+        )}
+        {!loading && !error && query.trim().length >= 2 && results.length === 0 && (
+          <Typography variant='body2' color='text.secondary' className='text-center'>
+            {navigation.chatSearchNoResults || 'No messages found'}
+          </Typography>
+        )}
+        {results.length > 0 && (
+          <List disablePadding className='max-bs-[420px] overflow-y-auto'>
+            {results.map(result => (
+              <ListItemButton
+                key={result.messageId}
+                className='flex flex-col items-start gap-1 rounded'
+                disabled={!result.room.contactId}
+                onClick={() => onSelect(result)}
+              >
+                <div className='flex is-full justify-between gap-2'>
+                  <Typography variant='subtitle2' noWrap>
+                    {result.sender.name || result.sender.email} · {roomLabel(result)}
+                  </Typography>
+                  <Typography variant='caption' color='text.secondary' className='shrink-0'>
+                    {new Date(result.createdAt).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' })}
+                  </Typography>
+                </div>
+                <Typography variant='body2' color='text.secondary' className='break-words'>
+                  {result.highlight.map((segment, index) =>
+                    segment.match ? (
+                      <mark
+                        key={index}
+                        className='bg-[var(--mui-palette-warning-lightOpacity)] text-[var(--mui-palette-text-primary)] rounded-sm'
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </Typography>
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+        {loading && (
+          <div className='flex justify-center'>
+            <CircularProgress size={20} />
+          </div>
+        )}
+        {!loading && results.length < total && (
+          <Button variant='outlined' onClick={() => search(page + 1)}>
+            {navigation.chatSearchLoadMore || 'Show more'}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ChatSearchDialog
@@ -0,0 +1,101 @@
+// React Imports
+import { useEffect, useState } from 'react'
+
+// MUI Imports
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import IconButton from '@mui/material/IconButton'
+import Typography from '@mui/material/Typography'
+import CircularProgress from '@mui/material/CircularProgress'
+import Alert from '@mui/material/Alert'
+
+// Type Imports
+import type { ChatMessage, ChatMessageEdit } from '@/lib/sockets/types/chat'
+
+// Hook Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type Props = {
+  message: ChatMessage | null
+  onClose: () => void
+  getEditHistory: (messageId: string) => Promise<ChatMessageEdit[]>
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: 'numeric'
+  })
+
+const EditHistoryDialog = ({ message, onClose, getEditHistory }: Props) => {
+  // States
+  const [edits, setEdits] = useState<ChatMessageEdit[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Hooks
+  const { navigation } = useTranslation()
+
+  useEffect(() => {
+    if (!message) return
+
+    let cancelled = false
+
+    setEdits(null)
+    setError(null)
+
+    getEditHistory(message.id)
+      .then(result => !cancelled && setEdits(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : String(err)))
+
+    return () => {
+      cancelled = true
+    }
+  }, [message, getEditHistory])
+
+  return (
+    <Dialog fullWidth maxWidth='sm' open={Boolean(message)} onClose={onClose} closeAfterTransition={false}>
+      <DialogTitle>{navigation.chatEditHistory || 'Edit history'}</DialogTitle>
+      <IconButton className='absolute block-start-4 inline-end-4' onClick={onClose}>
+        <i className='ri-close-line text-textSecondary' />
+      </IconButton>
+      <DialogContent className='flex flex-col gap-4'>
+        {message && (
+          <div className='flex flex-col gap-1'>
+            <Typography variant='caption' color='text.secondary'>
+              {navigation.chatCurrentVersion || 'Current version'}
+              {message.editedAt && ` · ${formatTime(message.editedAt)}`}
+            </Typography>
+            <Typography className='whitespace-pre-wrap break-words'>{message.content}</Typography>
+          </div>
+        )}
+        {error && <Alert severity='error'>{error}</Alert>}
+        {!edits && !error && (
+          <div className='flex justify-center'>
+            <CircularProgress size={20} />
+          </div>
+        )}
+        {edits?.length === 0 && (
+          <Typography color='text.secondary'>{navigation.chatNoEditHistory || 'No previous versions'}</Typography>
+        )}
+        {edits
+          ?.slice()
+          .reverse()
+          .map(edit => (
+            <div key={edit.editedAt} className='flex flex-col gap-1'>
+              <Typography variant='caption' color='text.secondary'>
+                {formatTime(edit.editedAt)}
+              </Typography>
+              <Typography className='whitespace-pre-wrap break-words' color='text.secondary'>
+                {edit.content}
+              </Typography>
+            </div>
+          ))}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default EditHistoryDialog
@@ -0,0 +1,176 @@
+// React Imports
+import { useState } from 'react'
+import type { MouseEvent } from 'react'
+
+// MUI Imports
+import IconButton from '@mui/material/IconButton'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Popover from '@mui/material/Popover'
+import Divider from '@mui/material/Divider'
+
+// Third-party Imports
+import Picker from '@emoji-mart/react'
+import data from '@emoji-mart/data'
+
+// Type Imports
+import type { ChatMessage, ChatMessageDeleteScope, ChatModerationAction } from '@/lib/sockets/types/chat'
+
+// Hook Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
+// Быстрые реакции в начале меню, остальные - через emoji-mart
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏']
+
+type Props = {
+  message: ChatMessage
+  isSender: boolean
+  onReply: (message: ChatMessage) => void
+  onEdit: (message: ChatMessage) => void
+  onDelete: (message: ChatMessage, scope: ChatMessageDeleteScope) => void
+  onToggleReaction: (message: ChatMessage, emoji: string) => void
+  onReport: (message: ChatMessage) => void
+
+  // Действия модератора (moderate_chat): скрыть/вернуть и удалить чужое сообщение
+  canModerate: boolean
+  onModerate: (message: ChatMessage, action: ChatModerationAction) => void
+}
+
+const MessageActionsMenu = ({
+  message,
+  isSender,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onReport,
+  canModerate,
+  onModerate
+}: Props) => {
+  // States
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [pickerAnchorEl, setPickerAnchorEl] = useState<HTMLElement | null>(null)
+
+  // Hooks
+  const { navigation } = useTranslation()
+
+  const isDeleted = Boolean(message.deletedAt)
+  const isHidden = Boolean(message.hiddenAt)
+
+  const handleOpen = (event: MouseEvent<HTMLButtonElement>) => {
+    setAnchorEl(event.currentTarget)
+  }
+
+  const handleClose = () => {
+    setAnchorEl(null)
+  }
+
+  const runAndClose = (action: () => void) => {
+    action()
+    handleClose()
+  }
+
+  return (
+    <>
+      <IconButton
+        size='small'
+        aria-label={navigation.chatMessageActions || 'Message actions'}
+        aria-haspopup='true'
+        onClick={handleOpen}
+      >
+        <i className='ri-more-2-line text-textSecondary text-base' />
+      </IconButton>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={handleClose}>
+        {!isDeleted && (
+          <div className='flex items-center gap-1 pli-2 pbe-1'>
+            {QUICK_REACTIONS.map(emoji => (
+              <IconButton
+                key={emoji}
+                size='small'
+                onClick={() => runAndClose(() => onToggleReaction(message, emoji))}
+              >
+                <span className='text-lg leading-none'>{emoji}</span>
+              </IconButton>
+            ))}
+            <IconButton
+              size='small'
+              aria-label={navigation.chatAddReaction || 'Add reaction'}
+              onClick={() => {
+                setPickerAnchorEl(anchorEl)
+                handleClose()
+              }}
+            >
+              <i className='ri-emotion-happy-line text-textPrimary' />
+            </IconButton>
+          </div>
+        )}
+        {!isDeleted && <Divider />}
+        {!isDeleted && (
+          <MenuItem className='gap-2' onClick={() => runAndClose(() => onReply(message))}>
+            <i className='ri-reply-line' />
+            {navigation.chatReply || 'Reply'}
+          </MenuItem>
+        )}
+        {isSender && !isDeleted && !isHidden && (
+          <MenuItem className='gap-2' onClick={() => runAndClose(() => onEdit(message))}>
+            <i className='ri-edit-line' />
+            {navigation.chatEditMessage || 'Edit'}
+          </MenuItem>
+        )}
+        <MenuItem className='gap-2' onClick={() => runAndClose(() => onDelete(message, 'self'))}>
+          <i className='ri-eye-off-line' />
+          {navigation.chatDeleteForMe || 'Delete for me'}
+        </MenuItem>
+        {isSender && !isDeleted && (
+          <MenuItem className='gap-2 text-error' onClick={() => runAndClose(() => onDelete(message, 'everyone'))}>
+            <i className='ri-delete-bin-7-line' />
+            {navigation.chatDeleteForEveryone || 'Delete for everyone'}
+          </MenuItem>
+        )}
+        {!isSender && !isDeleted && (
+          <MenuItem className='gap-2' onClick={() => runAndClose(() => onReport(message))}>
+            <i className='ri-flag-line' />
+            {navigation.chatReportMessage || 'Report'}
+          </MenuItem>
+        )}
+        {canModerate && !isSender && !isDeleted && <Divider />}
+        {canModerate && !isSender && !isDeleted && (
+          <MenuItem
+            className='gap-2'
+            onClick={() => runAndClose(() => onModerate(message, isHidden ? 'unhide' : 'hide'))}
+          >
+            <i className={isHidden ? 'ri-eye-line' : 'ri-spam-2-line'} />
+            {isHidden
+              ? navigation.chatModerationUnhide || 'Show message'
+              : navigation.chatModerationHide || 'Hide message'}
+          </MenuItem>
+        )}
+        {canModerate && !isSender && !isDeleted && (
+          <MenuItem className='gap-2 text-error' onClick={() => runAndClose(() => onModerate(message, 'delete'))}>
+            <i className='ri-delete-bin-7-line' />
+            {navigation.chatModerationDelete || 'Delete as moderator'}
+          </MenuItem>
+        )}
+      </Menu>
+      <Popover
+        open={Boolean(pickerAnchorEl)}
+        anchorEl={pickerAnchorEl}
+        onClose={() => setPickerAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Picker
+          emojiSize={18}
+          theme='light'
+          data={data}
+          maxFrequentRows={1}
+          onEmojiSelect={(emoji: any) => {
+            onToggleReaction(message, emoji.native)
+            setPickerAnchorEl(null)
+          }}
+        />
+      </Popover>
+    </>
+  )
+}
+
+export default MessageActionsMenu
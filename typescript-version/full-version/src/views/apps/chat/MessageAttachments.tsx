@@ -0,0 +1,57 @@
+// MUI Imports
+import Typography from '@mui/material/Typography'
+
+// Third-party Imports
+import classnames from 'classnames'
+
+// Type Imports
+import type { ChatMessageAttachment } from '@/lib/sockets/types/chat'
+
+// Util Imports
+import { formatFileSize } from '@/types/export-import'
+
+type Props = {
+  attachments: ChatMessageAttachment[]
+  isSender: boolean
+  isPending?: boolean
+}
+
+// Изображения показываются превью (клик открывает оригинал), остальные файлы - ссылкой на скачивание
+const MessageAttachments = ({ attachments, isSender, isPending }: Props) => {
+  return (
+    <div className={classnames('flex flex-col gap-2', { 'items-end': isSender, 'opacity-60': isPending })}>
+      {attachments.map(attachment =>
+        attachment.thumbUrl ? (
+          <a key={attachment.id} href={attachment.url} target='_blank' rel='noopener noreferrer'>
+            <img
+              src={attachment.thumbUrl}
+              alt={attachment.filename}
+              loading='lazy'
+              className='block max-is-[240px] max-bs-[240px] rounded shadow-xs object-cover'
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={attachment.url}
+            target='_blank'
+            rel='noopener noreferrer'
+            className='flex items-center gap-2 pli-3 plb-2 rounded bg-backgroundPaper shadow-xs max-is-full'
+          >
+            <i className='ri-file-line text-xl text-primary' />
+            <div className='flex flex-col min-is-0'>
+              <Typography variant='body2' color='text.primary' className='truncate'>
+                {attachment.filename}
+              </Typography>
+              <Typography variant='caption' color='text.secondary'>
+                {formatFileSize(attachment.size)}
+              </Typography>
+            </div>
+          </a>
+        )
+      )}
+    </div>
+  )
+}
+
+export default MessageAttachments
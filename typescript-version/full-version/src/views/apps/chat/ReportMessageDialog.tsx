@@ -0,0 +1,112 @@
+// React Imports
+import { useEffect, useState } from 'react'
+
+// MUI Imports
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import Button from '@mui/material/Button'
+import IconButton from '@mui/material/IconButton'
+import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import RadioGroup from '@mui/material/RadioGroup'
+import Radio from '@mui/material/Radio'
+import FormControlLabel from '@mui/material/FormControlLabel'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Type Imports
+import type { ChatMessage, ChatReportReason } from '@/lib/sockets/types/chat'
+
+// Hook Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type Props = {
+  message: ChatMessage | null
+  onClose: () => void
+  reportMessage: (messageId: string, reason: ChatReportReason, details?: string) => Promise<void>
+}
+
+const REASONS: ChatReportReason[] = ['spam', 'abuse', 'harassment', 'other']
+
+const ReportMessageDialog = ({ message, onClose, reportMessage }: Props) => {
+  // States
+  const [reason, setReason] = useState<ChatReportReason>('spam')
+  const [details, setDetails] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Hooks
+  const { navigation } = useTranslation()
+
+  useEffect(() => {
+    if (!message) return
+
+    setReason('spam')
+    setDetails('')
+  }, [message])
+
+  const reasonLabels: Record<ChatReportReason, string> = {
+    spam: navigation.chatReportReasonSpam || 'Spam',
+    abuse: navigation.chatReportReasonAbuse || 'Offensive content',
+    harassment: navigation.chatReportReasonHarassment || 'Harassment',
+    other: navigation.chatReportReasonOther || 'Other'
+  }
+
+  const handleSubmit = async () => {
+    if (!message) return
+
+    setSubmitting(true)
+
+    try {
+      await reportMessage(message.id, reason, details)
+      toast.success(navigation.chatReportSent || 'Report sent to moderators')
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog fullWidth maxWidth='xs' open={Boolean(message)} onClose={onClose} closeAfterTransition={false}>
+      <DialogTitle>{navigation.chatReportMessage || 'Report message'}</DialogTitle>
+      <IconButton className='absolute block-start-4 inline-end-4' onClick={onClose}>
+        <i className='ri-close-line text-textSecondary' />
+      </IconButton>
+      <DialogContent className='flex flex-col gap-4'>
+        {message && (
+          <Typography color='text.secondary' className='whitespace-pre-wrap break-words line-clamp-3'>
+            {message.content}
+          </Typography>
+        )}
+        <RadioGroup value={reason} onChange={event => setReason(event.target.value as ChatReportReason)}>
+          {REASONS.map(value => (
+            <FormControlLabel key={value} value={value} control={<Radio />} label={reasonLabels[value]} />
+          ))}
+        </RadioGroup>
+        <TextField
+          multiline
+          minRows={2}
+          fullWidth
+          label={navigation.chatReportDetails || 'Details (optional)'}
+          value={details}
+          onChange={event => setDetails(event.target.value)}
+          inputProps={{ maxLength: 500 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button variant='outlined' color='secondary' onClick={onClose}>
+          {navigation.cancel || 'Cancel'}
+        </Button>
+        <Button variant='contained' color='error' onClick={handleSubmit} disabled={submitting}>
+          {navigation.chatReportSubmit || 'Report'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default ReportMessageDialog
@@ -0,0 +1,81 @@
+// React Imports
+import { useState } from 'react'
+
+// MUI Imports
+import IconButton from '@mui/material/IconButton'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Tooltip from '@mui/material/Tooltip'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Hook Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
+type Props = {
+  mutedUntil: string | null
+  setRoomMuted: (muted: boolean, durationMinutes?: number) => Promise<void>
+  disabled?: boolean
+}
+
+const RoomMuteMenu = ({ mutedUntil, setRoomMuted, disabled }: Props) => {
+  // States
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Hooks
+  const { navigation } = useTranslation()
+
+  // Без длительности - до повторного включения
+  const durations: { minutes?: number; label: string }[] = [
+    { minutes: 60, label: navigation.chatMuteFor1Hour || 'For 1 hour' },
+    { minutes: 8 * 60, label: navigation.chatMuteFor8Hours || 'For 8 hours' },
+    { minutes: 7 * 24 * 60, label: navigation.chatMuteFor1Week || 'For 1 week' },
+    { label: navigation.chatMuteForever || 'Until I turn them back on' }
+  ]
+
+  const update = async (muted: boolean, durationMinutes?: number) => {
+    setAnchorEl(null)
+    setSaving(true)
+
+    try {
+      await setRoomMuted(muted, durationMinutes)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Tooltip
+        title={
+          mutedUntil
+            ? navigation.chatUnmuteNotifications || 'Unmute notifications'
+            : navigation.chatMuteNotifications || 'Mute notifications'
+        }
+      >
+        <span>
+          <IconButton
+            size='small'
+            disabled={disabled || saving}
+            onClick={event => (mutedUntil ? update(false) : setAnchorEl(event.currentTarget))}
+          >
+            <i className={`${mutedUntil ? 'ri-notification-off-line' : 'ri-notification-3-line'} text-textSecondary`} />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {durations.map(duration => (
+          <MenuItem key={duration.label} onClick={() => update(true, duration.minutes)}>
+            {duration.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  )
+}
+
+export default RoomMuteMenu
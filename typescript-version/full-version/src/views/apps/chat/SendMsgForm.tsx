@@ -1,6 +1,6 @@
 // React Imports
 import { useRef, useState, useEffect } from 'react'
-import type { FormEvent, KeyboardEvent, RefObject, MouseEvent } from 'react'
+import type { ChangeEvent, FormEvent, KeyboardEvent, RefObject, MouseEvent } from 'react'
 
 // MUI Imports
 import TextField from '@mui/material/TextField'
@@ -13,14 +13,18 @@ import ClickAwayListener from '@mui/material/ClickAwayListener'
 import Menu from '@mui/material/Menu'
 import MenuItem from '@mui/material/MenuItem'
 import CircularProgress from '@mui/material/CircularProgress'
+import Typography from '@mui/material/Typography'
+import Chip from '@mui/material/Chip'
 
 // Third-party Imports
+import classnames from 'classnames'
 import Picker from '@emoji-mart/react'
 import data from '@emoji-mart/data'
 import { useAuth } from '@/contexts/AuthProvider'
 import { toast } from 'react-toastify'
 
-import type { ChatRoom } from '@/lib/sockets/types/chat'
+import type { ChatMessage, ChatMessageAttachment, ChatRoom } from '@/lib/sockets/types/chat'
+import { MAX_MESSAGE_ATTACHMENTS } from '@/lib/validations/chat-schemas'
 
 // Type Imports
 import type { ContactType } from '@/types/apps/chatTypes'
@@ -42,9 +46,16 @@ type Props = {
   messageInputRef: RefObject<HTMLDivElement>
   room: ChatRoom | null
   isRoomLoading: boolean
-  sendMessage: (content: string) => Promise<void>
+  sendMessage: (content: string, replyToId?: string, attachments?: ChatMessageAttachment[]) => Promise<void>
+  uploadAttachment: (file: File) => Promise<ChatMessageAttachment>
   rateLimitData: { retryAfter: number; blockedUntil: number } | null
   isConnected: boolean
+  replyTo: ChatMessage | null
+  editingMessage: ChatMessage | null
+  onCancelReply: () => void
+  onCancelEdit: () => void
+  editMessage: (messageId: string, content: string) => Promise<void>
+  setTyping: (isTyping: boolean) => void
 }
 
 // Emoji Picker Component for selecting emojis
@@ -97,7 +108,24 @@ const EmojiPicker = ({
   )
 }
 
-const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, room, isRoomLoading, sendMessage, rateLimitData, isConnected }: Props) => {
+const SendMsgForm = ({
+  dispatch,
+  activeUser,
+  isBelowSmScreen,
+  messageInputRef,
+  room,
+  isRoomLoading,
+  sendMessage,
+  uploadAttachment,
+  rateLimitData,
+  isConnected,
+  replyTo,
+  editingMessage,
+  onCancelReply,
+  onCancelEdit,
+  editMessage,
+  setTyping
+}: Props) => {
   // States
   const [msg, setMsg] = useState('')
   const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
@@ -105,6 +133,8 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
   const [isRateLimited, setIsRateLimited] = useState(false)
   const [countdown, setCountdown] = useState(0)
   const [isSending, setIsSending] = useState(false)
+  const [attachments, setAttachments] = useState<ChatMessageAttachment[]>([])
+  const [isUploading, setIsUploading] = useState(false)
 
   // Refs
   const anchorRef = useRef<HTMLButtonElement>(null)
@@ -138,6 +168,21 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
     }
   }, [rateLimitData])
 
+  // Редактирование: текст сообщения подставляется в поле ввода
+  useEffect(() => {
+    setMsg(editingMessage ? editingMessage.content : '')
+
+    if (editingMessage) {
+      messageInputRef.current?.focus()
+    }
+  }, [editingMessage, messageInputRef])
+
+  useEffect(() => {
+    if (replyTo) {
+      messageInputRef.current?.focus()
+    }
+  }, [replyTo, messageInputRef])
+
   const open = Boolean(anchorEl)
 
   const handleToggle = () => {
@@ -152,15 +197,55 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
     setAnchorEl(null)
   }
 
+  // Файлы загружаются сразу, к сообщению прикрепляются при отправке
+  const handleAttachmentChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+
+    event.target.value = ''
+    handleClose()
+
+    if (!files.length) return
+
+    if (attachments.length + files.length > MAX_MESSAGE_ATTACHMENTS) {
+      toast.error(
+        (navigation.chatAttachmentsLimit || 'No more than ${count} attachments per message').replace(
+          '${count}',
+          MAX_MESSAGE_ATTACHMENTS.toString()
+        )
+      )
+
+      return
+    }
+
+    setIsUploading(true)
+
+    try {
+      for (const file of files) {
+        const attachment = await uploadAttachment(file)
+
+        setAttachments(prev => [...prev, attachment])
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error && error.message
+          ? error.message
+          : navigation.chatAttachmentUploadFailed || 'Could not upload the file'
+      )
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
   const handleSendMsg = async (event: FormEvent | KeyboardEvent, value: string) => {
     event.preventDefault()
 
-    if (isRateLimited || isSending || !room) {
+    if (isRateLimited || isSending || isUploading || !room) {
       return
     }
 
     const trimmed = value.trim()
-    if (!trimmed) return
+
+    if (!trimmed && (editingMessage || !attachments.length)) return
 
     console.log('🟠 [CHAT UI] Кнопка отправки нажата', {
       roomId: room.id,
@@ -172,8 +257,13 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
     console.log('🔒 [CHAT UI] Кнопка отправки деактивирована')
 
     try {
-      if (user?.id && sendMessage) {
-        await sendMessage(trimmed)
+      if (editingMessage) {
+        await editMessage(editingMessage.id, trimmed)
+        onCancelEdit()
+      } else if (user?.id && sendMessage) {
+        await sendMessage(trimmed, replyTo?.id, attachments)
+        setAttachments([])
+        onCancelReply()
       } else {
         dispatch(sendMsg({ message: trimmed, senderId: user?.id || '', receiverId: activeUser?.id || '' }))
       }
@@ -196,6 +286,8 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
           ? navigation.rateLimitMessage.replace('${countdown}', seconds.toString())
           : 'You are sending messages too frequently.'
         toast.error(message)
+      } else if (editingMessage) {
+        toast.error(error?.message || navigation.chatMessageActionFailed || 'Could not update the message')
       } else if (error?.message !== 'Rate limit exceeded') {
         toast.error(navigation.failedToSendMessage ?? 'Failed to send message')
       }
@@ -263,7 +355,7 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
               <MenuItem onClick={handleClose} className='p-0'>
                 <label htmlFor='upload-img' className='plb-2 pli-5'>
                   <i className='ri-attachment-2 text-textPrimary' />
-                  <input hidden type='file' id='upload-img' />
+                  <input hidden multiple type='file' id='upload-img' onChange={handleAttachmentChange} />
                 </label>
               </MenuItem>
             </Menu>
@@ -286,6 +378,19 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
             <IconButton ref={anchorRef} size='small' onClick={handleToggle} disabled={isRateLimited || isRoomLoading || !room}>
               <i className='ri-emotion-happy-line text-textPrimary' />
             </IconButton>
+            <IconButton
+              size='small'
+              component='label'
+              title={navigation.chatAttachFile || 'Attach file'}
+              disabled={isRateLimited || isRoomLoading || !room || isUploading || Boolean(editingMessage)}
+            >
+              {isUploading ? (
+                <CircularProgress size={18} />
+              ) : (
+                <i className='ri-attachment-2 text-textPrimary' />
+              )}
+              <input hidden multiple type='file' onChange={handleAttachmentChange} />
+            </IconButton>
             <EmojiPicker
               anchorRef={anchorRef}
               openEmojiPicker={openEmojiPicker}
@@ -349,6 +454,8 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
     )
   }
 
+  const composeTarget = editingMessage ?? replyTo
+
   return (
     <form
       autoComplete='off'
@@ -357,6 +464,41 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
       }}
       className=' bg-[var(--mui-palette-customColors-chatBg)]'
     >
+      {composeTarget && (
+        <div className='flex items-center gap-3 pli-5 pbs-3'>
+          <i className={classnames(editingMessage ? 'ri-edit-line' : 'ri-reply-line', 'text-primary')} />
+          <div className='flex flex-col min-is-0 grow border-is-2 border-primary pis-2'>
+            <Typography variant='caption' color='primary'>
+              {editingMessage
+                ? navigation.chatEditingMessage || 'Editing message'
+                : (navigation.chatReplyingTo || 'Replying to ${name}').replace(
+                    '${name}',
+                    composeTarget.sender.name || composeTarget.sender.email
+                  )}
+            </Typography>
+            <Typography variant='caption' color='text.secondary' className='truncate'>
+              {composeTarget.content}
+            </Typography>
+          </div>
+          <IconButton size='small' onClick={editingMessage ? onCancelEdit : onCancelReply}>
+            <i className='ri-close-line text-textSecondary' />
+          </IconButton>
+        </div>
+      )}
+      {attachments.length > 0 && !editingMessage && (
+        <div className='flex flex-wrap gap-2 pli-5 pbs-3'>
+          {attachments.map(attachment => (
+            <Chip
+              key={attachment.id}
+              size='small'
+              variant='outlined'
+              icon={<i className={attachment.thumbUrl ? 'ri-image-line' : 'ri-file-line'} />}
+              label={attachment.filename}
+              onDelete={() => setAttachments(prev => prev.filter(item => item.id !== attachment.id))}
+            />
+          ))}
+        </div>
+      )}
       <TextField
         fullWidth
         multiline
@@ -365,7 +507,13 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
         value={isRateLimited ? '' : msg}
         disabled={isRateLimited || isRoomLoading || !room}
         className='p-5'
-        onChange={e => setMsg(e.target.value)}
+        onChange={e => {
+          setMsg(e.target.value)
+
+          if (!editingMessage) {
+            setTyping(e.target.value.trim().length > 0)
+          }
+        }}
         sx={{
           '& fieldset': { border: '0' },
           '& .MuiOutlinedInput-root': {
@@ -378,6 +526,10 @@ const SendMsgForm = ({ dispatch, activeUser, isBelowSmScreen, messageInputRef, r
           if (e.key === 'Enter' && !e.shiftKey) {
             void handleSendMsg(e, msg)
           }
+
+          if (e.key === 'Escape' && composeTarget) {
+            editingMessage ? onCancelEdit() : onCancelReply()
+          }
         }}
         size='small'
         inputRef={messageInputRef}
@@ -56,6 +56,7 @@ type Props = {
   messageInputRef: RefObject<HTMLDivElement>
   unreadCount: number
   initializeRoom: (userId: string) => void
+  onOpenSearch: () => void
 }
 
 type RenderChatType = {
@@ -218,7 +219,8 @@ const SidebarLeft = (props: Props) => {
     isBelowSmScreen,
     messageInputRef,
     unreadCount,
-    initializeRoom
+    initializeRoom,
+    onOpenSearch
   } = props
 
   // Hooks
@@ -336,6 +338,9 @@ const SidebarLeft = (props: Props) => {
                 )
               }}
             />
+            <IconButton className='p-0 mis-2' title={navigation.chatSearch || 'Search messages'} onClick={onOpenSearch}>
+              <i className='ri-chat-search-line' />
+            </IconButton>
             {isBelowMdScreen ? (
               <IconButton
                 className='p-0 mis-2'
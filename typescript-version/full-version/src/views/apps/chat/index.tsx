@@ -14,10 +14,13 @@ import type { Theme } from '@mui/material/styles'
 // Third-party Imports
 import classNames from 'classnames'
 import { useDispatch, useSelector } from 'react-redux'
+import { toast } from 'react-toastify'
+
 import { useAuth } from '@/contexts/AuthProvider'
 
 // Type Imports
 import type { RootState, AppDispatch } from '@/redux-store'
+import type { ChatSearchResultItem } from '@/services/chat'
 
 // Slice Imports
 import { getActiveUserData, fetchUsers, sendMsg } from '@/redux-store/slices/chat'
@@ -25,6 +28,7 @@ import { getActiveUserData, fetchUsers, sendMsg } from '@/redux-store/slices/cha
 // Component Imports
 import SidebarLeft from './SidebarLeft'
 import ChatContent from './ChatContent'
+import ChatSearchDialog from './ChatSearchDialog'
 
 // Hook Imports
 import { useSettings } from '@core/hooks/useSettings'
@@ -32,6 +36,7 @@ import { useChatNew } from '@/hooks/useChatNew'
 
 // Util Imports
 import { commonLayoutClasses } from '@layouts/utils/layoutClasses'
+import { SOCKET_PERMISSION_SOURCES } from '@/lib/sockets/utils/permissions'
 
 type NotificationsManager = {
   unreadCount: number
@@ -52,15 +57,36 @@ const ChatWrapper = () => {
     room,
     isRoomLoading,
     sendMessage,
+    uploadAttachment,
     messages,
     rateLimitData,
     markMessagesAsRead,
     loadMoreMessages,
     historyLoading,
     hasMoreHistory,
-    isConnected
+    focusedMessageId,
+    hasNewerMessages,
+    jumpToMessage,
+    jumpToLatest,
+    isConnected,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reportMessage,
+    moderateMessage,
+    getEditHistory,
+    roomMutedUntil,
+    setRoomMuted,
+    setTyping,
+    typingUsers
   } = useChatNew()
+
   const { checkPermission } = usePermissions()
+
+  const canModerate = checkPermission(
+    SOCKET_PERMISSION_SOURCES.moderate_chat.module,
+    SOCKET_PERMISSION_SOURCES.moderate_chat.action
+  )
   const isBelowLgScreen = useMediaQuery((theme: Theme) => theme.breakpoints.down('lg'))
   const isBelowMdScreen = useMediaQuery((theme: Theme) => theme.breakpoints.down('md'))
   const isBelowSmScreen = useMediaQuery((theme: Theme) => theme.breakpoints.down('sm'))
@@ -68,6 +94,7 @@ const ChatWrapper = () => {
   // States
   const [backdropOpen, setBackdropOpen] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const [searchOpen, setSearchOpen] = useState(false)
 
   // Refs
   const messageInputRef = useRef<HTMLDivElement>(null)
@@ -77,6 +104,25 @@ const ChatWrapper = () => {
     dispatch(getActiveUserData(id))
   }
 
+  // Результат поиска: открыть диалог с собеседником и загрузить сообщения вокруг найденного
+  const openSearchResult = (result: ChatSearchResultItem) => {
+    const contactId = result.room.contactId
+
+    if (!contactId) return
+
+    setSearchOpen(false)
+
+    if (room?.id !== result.roomId) {
+      initializeRoom(contactId)
+      activeUser(contactId)
+    }
+
+    isBelowMdScreen && setSidebarOpen(false)
+    jumpToMessage(result.roomId, result.messageId).catch(error => {
+      toast.error(error instanceof Error ? error.message : String(error))
+    })
+  }
+
   // Focus on message input when active user changes
   useEffect(() => {
     if (chatStore.activeUser?.id !== null && messageInputRef.current) {
@@ -155,6 +201,7 @@ const ChatWrapper = () => {
         messageInputRef={messageInputRef}
         unreadCount={unreadCount}
         initializeRoom={initializeRoom}
+        onOpenSearch={() => setSearchOpen(true)}
       />
 
       <ChatContent
@@ -170,17 +217,38 @@ const ChatWrapper = () => {
         room={room}
         isRoomLoading={isRoomLoading}
         sendMessage={sendMessage}
+        uploadAttachment={uploadAttachment}
         messages={messages}
         rateLimitData={rateLimitData}
         markMessagesAsRead={markMessagesAsRead}
         loadMoreMessages={loadMoreMessages}
         historyLoading={historyLoading}
         hasMoreHistory={hasMoreHistory}
+        focusedMessageId={focusedMessageId}
+        hasNewerMessages={hasNewerMessages}
+        jumpToLatest={jumpToLatest}
         isConnected={isConnected}
+        editMessage={editMessage}
+        deleteMessage={deleteMessage}
+        toggleReaction={toggleReaction}
+        reportMessage={reportMessage}
+        moderateMessage={moderateMessage}
+        canModerate={canModerate}
+        getEditHistory={getEditHistory}
+        roomMutedUntil={roomMutedUntil}
+        setRoomMuted={setRoomMuted}
+        setTyping={setTyping}
+        typingUsers={typingUsers}
       />
 
       <Backdrop open={backdropOpen} onClick={() => setBackdropOpen(false)} className='absolute z-10' />
     </div>
+      <ChatSearchDialog
+        open={searchOpen}
+        onClose={() => setSearchOpen(false)}
+        contacts={chatStore.contacts}
+        onSelect={openSearchResult}
+      />
     </>
   )
 }
@@ -39,6 +39,9 @@ interface RegistrationSettingsData {
   requirePhoneVerification: boolean
   requireEmailVerification: boolean
   smsProvider: string
+  twoFactorRequiredRoleLevel: number | null
+  passwordlessEmailEnabled: boolean
+  passwordlessSmsEnabled: boolean
 }
 
 const RegistrationSettings = () => {
@@ -55,7 +58,10 @@ const RegistrationSettings = () => {
     registrationMode: 'email_or_phone',
     requirePhoneVerification: true,
     requireEmailVerification: true,
-    smsProvider: 'smsru'
+    smsProvider: 'smsru',
+    twoFactorRequiredRoleLevel: null,
+    passwordlessEmailEnabled: false,
+    passwordlessSmsEnabled: false
   })
 
   const [loading, setLoading] = useState(false)
@@ -74,7 +80,10 @@ const RegistrationSettings = () => {
             registrationMode: settings.registrationMode,
             requirePhoneVerification: settings.requirePhoneVerification,
             requireEmailVerification: settings.requireEmailVerification,
-            smsProvider: settings.smsProvider
+            smsProvider: settings.smsProvider,
+            twoFactorRequiredRoleLevel: settings.twoFactorRequiredRoleLevel ?? null,
+            passwordlessEmailEnabled: settings.passwordlessEmailEnabled ?? false,
+            passwordlessSmsEnabled: settings.passwordlessSmsEnabled ?? false
           })
           setLastUpdated(settings.updatedAt)
         } else if (response.status === 401 || response.status === 403) {
@@ -95,7 +104,7 @@ const RegistrationSettings = () => {
     }
   }, [canRead])
 
-  const handleChange = (field: keyof RegistrationSettingsData, value: string | boolean) => {
+  const handleChange = (field: keyof RegistrationSettingsData, value: string | boolean | number | null) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
@@ -268,6 +277,87 @@ const RegistrationSettings = () => {
                 />
               </Grid>
 
+              <Divider sx={{ my: 2, width: '100%' }} />
+
+              {/* Two-factor authentication */}
+              <Grid item xs={12}>
+                <Typography variant='h6' gutterBottom>
+                  Двухфакторная аутентификация
+                </Typography>
+              </Grid>
+
+              <Grid item xs={12} sm={6}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Box>
+                    <Typography variant='body1'>Требовать 2FA для привилегированных ролей</Typography>
+                    <Typography variant='caption' color='text.secondary'>
+                      Без настроенной 2FA такие пользователи не войдут, пока не подключат приложение-аутентификатор
+                    </Typography>
+                  </Box>
+                  <Switch
+                    checked={formData.twoFactorRequiredRoleLevel !== null}
+                    onChange={(e) => handleChange('twoFactorRequiredRoleLevel', e.target.checked ? 0 : null)}
+                    disabled={!canUpdate}
+                  />
+                </Box>
+              </Grid>
+
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type='number'
+                  label='Максимальный уровень роли'
+                  value={formData.twoFactorRequiredRoleLevel ?? ''}
+                  onChange={(e) =>
+                    handleChange('twoFactorRequiredRoleLevel', e.target.value === '' ? null : Math.max(0, Math.trunc(Number(e.target.value))))
+                  }
+                  disabled={!canUpdate || formData.twoFactorRequiredRoleLevel === null}
+                  inputProps={{ min: 0, step: 1 }}
+                  helperText='2FA обязательна для ролей с уровнем не больше указанного (0 — наивысший)'
+                />
+              </Grid>
+
+              <Divider sx={{ my: 2, width: '100%' }} />
+
+              {/* Passwordless login */}
+              <Grid item xs={12}>
+                <Typography variant='h6' gutterBottom>
+                  Вход без пароля
+                </Typography>
+              </Grid>
+
+              <Grid item xs={12} sm={6}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Box>
+                    <Typography variant='body1'>Ссылка для входа на email</Typography>
+                    <Typography variant='caption' color='text.secondary'>
+                      Одноразовая ссылка действует 15 минут
+                    </Typography>
+                  </Box>
+                  <Switch
+                    checked={formData.passwordlessEmailEnabled}
+                    onChange={(e) => handleChange('passwordlessEmailEnabled', e.target.checked)}
+                    disabled={!canUpdate}
+                  />
+                </Box>
+              </Grid>
+
+              <Grid item xs={12} sm={6}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Box>
+                    <Typography variant='body1'>Код для входа по SMS</Typography>
+                    <Typography variant='caption' color='text.secondary'>
+                      6-значный код действует 10 минут, не более 5 попыток ввода
+                    </Typography>
+                  </Box>
+                  <Switch
+                    checked={formData.passwordlessSmsEnabled}
+                    onChange={(e) => handleChange('passwordlessSmsEnabled', e.target.checked)}
+                    disabled={!canUpdate}
+                  />
+                </Box>
+              </Grid>
+
               {/* Submit Button */}
               {canUpdate && (
                 <Grid item xs={12}>
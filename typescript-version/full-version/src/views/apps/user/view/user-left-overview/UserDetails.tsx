@@ -3,6 +3,9 @@
 // React Imports
 import { useState, useEffect } from 'react'
 
+// Next Imports
+import { useParams } from 'next/navigation'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardContent from '@mui/material/CardContent'
@@ -11,6 +14,10 @@ import Chip from '@mui/material/Chip'
 import Divider from '@mui/material/Divider'
 import Button from '@mui/material/Button'
 import type { ButtonProps } from '@mui/material/Button'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
 
 // Third-party Imports
 import { toast } from 'react-toastify'
@@ -30,6 +37,9 @@ import { useTranslation } from '@/contexts/TranslationContext'
 // Hook Imports
 import { usePermissions } from '@/hooks/usePermissions'
 
+// Util Imports
+import { getLocalizedUrl } from '@/utils/formatting/i18n'
+
 interface UserDetailsProps {
   userData?: UsersType
 }
@@ -54,7 +64,8 @@ const defaultUserData: UsersType = {
 const UserDetails = ({ userData }: UserDetailsProps) => {
   // Hooks
   const dictionary = useTranslation()
-  const { checkPermission } = usePermissions()
+  const { checkPermission, isSuperadmin } = usePermissions()
+  const { lang: locale } = useParams()
 
   // Use provided userData or fallback to default
   const [user, setUser] = useState(defaultUserData)
@@ -63,6 +74,8 @@ const UserDetails = ({ userData }: UserDetailsProps) => {
   const [currentUserId, setCurrentUserId] = useState<string>('')
   const [isOwnProfile, setIsOwnProfile] = useState<boolean>(false)
   const [currentUserRole, setCurrentUserRole] = useState<string>('')
+  const [impersonateDialogOpen, setImpersonateDialogOpen] = useState(false)
+  const [impersonating, setImpersonating] = useState(false)
 
   // Update user when userData changes
   useEffect(() => {
@@ -135,6 +148,26 @@ const UserDetails = ({ userData }: UserDetailsProps) => {
     setSuspendDialogOpen(false)
   }
 
+  const handleImpersonate = async () => {
+    setImpersonating(true)
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/impersonate`, { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to log in as this user')
+      }
+
+      // Full reload so the whole app picks up the user's session
+      window.location.href = getLocalizedUrl('/', locale as string)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+      setImpersonating(false)
+      setImpersonateDialogOpen(false)
+    }
+  }
+
   return (
     <>
       <Card>
@@ -242,8 +275,48 @@ const UserDetails = ({ userData }: UserDetailsProps) => {
               isActive={user.status === 'active'}
             />
           </div>
+          {isSuperadmin && (
+            <Button
+              fullWidth
+              variant='text'
+              color='warning'
+              startIcon={<i className='ri-spy-line' />}
+              onClick={() => setImpersonateDialogOpen(true)}
+              disabled={isOwnProfile || user.role === 'superadmin' || user.status !== 'active'}
+            >
+              {dictionary.navigation.impersonateUser || 'Log in as user'}
+            </Button>
+          )}
         </CardContent>
       </Card>
+      <Dialog
+        open={impersonateDialogOpen}
+        onClose={() => setImpersonateDialogOpen(false)}
+        closeAfterTransition={false}
+      >
+        <DialogTitle>{dictionary.navigation.impersonateConfirmTitle || 'Log in as this user?'}</DialogTitle>
+        <DialogContent>
+          <Typography>
+            {(
+              dictionary.navigation.impersonateConfirmText ||
+              'You will use the application as ${name}. Destructive actions are blocked and every request is recorded.'
+            ).replace('${name}', user.fullName)}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            variant='outlined'
+            color='secondary'
+            onClick={() => setImpersonateDialogOpen(false)}
+            disabled={impersonating}
+          >
+            {dictionary.navigation.cancel}
+          </Button>
+          <Button variant='contained' color='warning' onClick={handleImpersonate} disabled={impersonating}>
+            {dictionary.navigation.impersonateUser || 'Log in as user'}
+          </Button>
+        </DialogActions>
+      </Dialog>
       <AddUserDrawer
         open={editDrawerOpen}
         handleClose={() => setEditDrawerOpen(false)}
@@ -1,83 +1,160 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
 import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Hook Imports
+import { usePermissions } from '@/hooks/usePermissions'
 
 // Style Imports
 import tableStyles from '@core/styles/table.module.css'
 
-type DataType = {
-  device: string
-  browser: string
-  location: string
-  recentActivity: string
+type UserSession = {
+  id: string
+  ipAddress: string | null
+  deviceType: string | null
+  deviceName: string | null
+  lastActiveAt: string
 }
 
-// Vars
-const recentDeviceData: DataType[] = [
-  {
-    device: 'Dell XPS 15',
-    location: 'United States',
-    browser: 'Chrome on Windows',
-    recentActivity: '10, Jan 2020 20:07'
-  },
-  {
-    location: 'Ghana',
-    device: 'Google Pixel 3a',
-    browser: 'Chrome on Android',
-    recentActivity: '11, Jan 2020 10:16'
-  },
-  {
-    location: 'Mayotte',
-    device: 'Apple iMac',
-    browser: 'Chrome on MacOS',
-    recentActivity: '11, Jan 2020 12:10'
-  },
-  {
-    location: 'Mauritania',
-    device: 'Apple iPhone XR',
-    browser: 'Chrome on iPhone',
-    recentActivity: '12, Jan 2020 8:29'
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+const RecentDevice = ({ userId }: { userId?: string }) => {
+  // Hooks
+  const { checkPermission } = usePermissions()
+
+  // States
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const fetchSessions = useCallback(async () => {
+    if (!userId) return
+
+    const response = await fetch(`/api/admin/users/${userId}/sessions`)
+
+    if (response.ok) {
+      const data = await response.json()
+
+      setSessions(data.sessions ?? [])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const handleForceLogout = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/sessions`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to sign out the user')
+      }
+
+      toast.success(`Signed out of ${data.revoked ?? 0} session(s)`)
+      await fetchSessions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+      setConfirmOpen(false)
+    }
   }
-]
 
-const RecentDevice = () => {
   return (
     <Card>
-      <CardHeader title='Recent Devices' />
+      <CardHeader
+        title='Recent Devices'
+        action={
+          <Button
+            variant='outlined'
+            color='error'
+            size='small'
+            onClick={() => setConfirmOpen(true)}
+            disabled={sessions.length === 0 || loading || !checkPermission('userManagement', 'update')}
+          >
+            Force logout
+          </Button>
+        }
+      />
       <div className='overflow-x-auto'>
         <table className={tableStyles.table}>
           <thead>
             <tr>
               <th>Browser</th>
               <th>Device</th>
-              <th>Location</th>
+              <th>IP Address</th>
               <th>Recent Activities</th>
             </tr>
           </thead>
           <tbody>
-            {recentDeviceData.map((device, index) => (
-              <tr key={index}>
+            {sessions.map(session => (
+              <tr key={session.id}>
                 <td>
-                  <div className='flex items-center gap-4'>
-                    <img alt='Chrome' width='22px' src='/images/logos/chrome.png' />
-                    <Typography color='text.primary'>{device.browser}</Typography>
-                  </div>
+                  <Typography color='text.primary'>{session.deviceName || 'Unknown device'}</Typography>
                 </td>
                 <td>
-                  <Typography>{device.device}</Typography>
+                  <Typography className='capitalize'>{session.deviceType || 'unknown'}</Typography>
                 </td>
                 <td>
-                  <Typography>{device.location}</Typography>
+                  <Typography>{session.ipAddress || '—'}</Typography>
                 </td>
                 <td>
-                  <Typography>{device.recentActivity}</Typography>
+                  <Typography>{formatDate(session.lastActiveAt)}</Typography>
                 </td>
               </tr>
             ))}
+            {sessions.length === 0 && (
+              <tr>
+                <td colSpan={4}>
+                  <Typography>No active sessions</Typography>
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)} closeAfterTransition={false}>
+        <DialogTitle>Sign out this user everywhere?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            All sessions of this user will end and open real-time connections will be closed. The user will have to sign
+            in again on every device.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button variant='outlined' color='secondary' onClick={() => setConfirmOpen(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant='contained' color='error' onClick={handleForceLogout} disabled={loading}>
+            Force logout
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Card>
   )
 }
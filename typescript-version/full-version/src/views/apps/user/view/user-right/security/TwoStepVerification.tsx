@@ -1,38 +1,134 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
 import CardContent from '@mui/material/CardContent'
-import InputLabel from '@mui/material/InputLabel'
-import TextField from '@mui/material/TextField'
 import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import Chip from '@mui/material/Chip'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Hook Imports
+import { usePermissions } from '@/hooks/usePermissions'
+
+type TwoFactorStatus = {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+const TwoStepVerification = ({ userId }: { userId?: string }) => {
+  // Hooks
+  const { checkPermission } = usePermissions()
+
+  // States
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    if (!userId) return
+
+    const response = await fetch(`/api/admin/users/${userId}/two-factor`)
+
+    if (response.ok) {
+      setStatus(await response.json())
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const handleReset = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/two-factor`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to reset two-factor authentication')
+      }
 
-// Component Imports
-import CustomIconButton from '@core/components/mui/IconButton'
+      toast.success('Two-factor authentication has been reset')
+      await fetchStatus()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+      setConfirmOpen(false)
+    }
+  }
 
-const TwoStepVerification = () => {
   return (
     <Card>
-      <CardHeader title='Two-step verification' subheader='Keep your account secure with authentication step.' />
-      <CardContent>
-        <Typography htmlFor='sms' component={InputLabel} className='inline-flex font-medium mbe-1' color='text.primary'>
-          SMS
-        </Typography>
-        <div className='flex items-center mbe-4 gap-5'>
-          <TextField id='sms' placeholder='+1(968) 819-2547' fullWidth size='small' />
-          <div className='flex items-center gap-2'>
-            <CustomIconButton variant='outlined' color='secondary'>
-              <i className='ri-edit-box-line' />
-            </CustomIconButton>
-            <CustomIconButton variant='outlined' color='secondary'>
-              <i className='ri-user-add-line' />
-            </CustomIconButton>
-          </div>
-        </div>
-        <Typography>
-          Two-factor authentication adds an additional layer of security to your account by requiring more than just a
-          password to log in. <span className='text-primary'>Learn more.</span>
-        </Typography>
+      <CardHeader
+        title='Two-step verification'
+        subheader='Keep your account secure with authentication step.'
+        action={
+          status && (
+            <Chip
+              label={status.enabled ? 'Enabled' : 'Disabled'}
+              color={status.enabled ? 'success' : 'secondary'}
+              size='small'
+              variant='tonal'
+            />
+          )
+        }
+      />
+      <CardContent className='flex flex-col items-start gap-4'>
+        {status?.enabled ? (
+          <Typography>
+            Authenticator app connected
+            {status.enabledAt && ` on ${new Date(status.enabledAt).toLocaleDateString()}`}. Unused recovery codes:{' '}
+            {status.recoveryCodesRemaining}.
+          </Typography>
+        ) : (
+          <Typography>Two-factor authentication is not enabled for this user.</Typography>
+        )}
+        {status?.required && (
+          <Typography color='text.secondary'>
+            Required for this role: after a reset the user sets it up again on the next sign in.
+          </Typography>
+        )}
+        <Button
+          variant='outlined'
+          color='error'
+          onClick={() => setConfirmOpen(true)}
+          disabled={!status?.enabled || loading || !checkPermission('userManagement', 'update')}
+        >
+          Reset two-factor authentication
+        </Button>
       </CardContent>
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)} closeAfterTransition={false}>
+        <DialogTitle>Reset two-factor authentication?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            The authenticator app and all recovery codes of this user will stop working. Use this only after verifying
+            the user&apos;s identity.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button variant='outlined' color='secondary' onClick={() => setConfirmOpen(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant='contained' color='error' onClick={handleReset} disabled={loading}>
+            Reset
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Card>
   )
 }
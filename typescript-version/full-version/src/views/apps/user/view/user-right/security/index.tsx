@@ -6,17 +6,17 @@ import ChangePassword from './ChangePassword'
 import TwoStepVerification from './TwoStepVerification'
 import RecentDevice from './RecentDevice'
 
-const SecurityTab = () => {
+const SecurityTab = ({ userId }: { userId?: string }) => {
   return (
     <Grid container spacing={6}>
       <Grid size={{ xs: 12 }}>
         <ChangePassword />
       </Grid>
       <Grid size={{ xs: 12 }}>
-        <TwoStepVerification />
+        <TwoStepVerification userId={userId} />
       </Grid>
       <Grid size={{ xs: 12 }}>
-        <RecentDevice />
+        <RecentDevice userId={userId} />
       </Grid>
     </Grid>
   )
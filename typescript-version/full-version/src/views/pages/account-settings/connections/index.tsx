@@ -1,5 +1,10 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
 // Next Imports
-import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
 
 // MUI Imports
 import Card from '@mui/material/Card'
@@ -8,10 +13,14 @@ import CardContent from '@mui/material/CardContent'
 import Grid from '@mui/material/Grid2'
 import Typography from '@mui/material/Typography'
 import Switch from '@mui/material/Switch'
+import Alert from '@mui/material/Alert'
 
 // Component Imports
 import CustomIconButton from '@core/components/mui/IconButton'
 
+// Context Imports
+import { useTranslation } from '@/contexts/TranslationContext'
+
 type ConnectedAccountsType = {
   title: string
   logo: string
@@ -19,12 +28,10 @@ type ConnectedAccountsType = {
   subtitle: string
 }
 
-type SocialAccountsType = {
-  title: string
-  logo: string
-  username?: string
-  isConnected: boolean
-  href?: string
+type SignInConnection = {
+  provider: { slug: string; displayName: string; iconUrl: string | null }
+  accountId: string | null
+  providerAccountId: string | null
 }
 
 // Vars
@@ -61,39 +68,56 @@ const connectedAccountsArr: ConnectedAccountsType[] = [
   }
 ]
 
-const socialAccountsArr: SocialAccountsType[] = [
-  {
-    title: 'Facebook',
-    isConnected: false,
-    logo: '/images/logos/facebook.png'
-  },
-  {
-    title: 'Twitter',
-    isConnected: true,
-    username: '@Theme_Selection',
-    logo: '/images/logos/twitter.png',
-    href: 'https://twitter.com/Theme_Selection'
-  },
-  {
-    title: 'Linkedin',
-    isConnected: true,
-    username: '@ThemeSelection',
-    logo: '/images/logos/linkedin.png',
-    href: 'https://in.linkedin.com/company/themeselection'
-  },
-  {
-    title: 'Dribbble',
-    isConnected: false,
-    logo: '/images/logos/dribbble.png'
-  },
-  {
-    title: 'Behance',
-    isConnected: false,
-    logo: '/images/logos/behance.png'
+const Connections = () => {
+  // Hooks
+  const dictionary = useTranslation()
+  const searchParams = useSearchParams()
+  const t = dictionary.oauth ?? {}
+
+  // States
+  const [connections, setConnections] = useState<SignInConnection[]>([])
+  const [error, setError] = useState<string | null>(searchParams.get('oauthError'))
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchConnections = useCallback(async () => {
+    const res = await fetch('/api/user/connections')
+
+    if (res.ok) {
+      const data = await res.json()
+
+      setConnections(data.connections)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchConnections()
+  }, [fetchConnections])
+
+  // Привязка - полный переход к провайдеру, возврат на эту вкладку
+  const handleLink = (slug: string) => {
+    const params = new URLSearchParams({ mode: 'link', redirectTo: `${window.location.pathname}?tab=connections` })
+
+    window.location.href = `/api/auth/oauth/${encodeURIComponent(slug)}/authorize?${params}`
+  }
+
+  const handleUnlink = async (accountId: string) => {
+    setError(null)
+    setBusyId(accountId)
+
+    try {
+      const res = await fetch(`/api/user/connections/${accountId}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        setError(data?.error || 'unlink_failed')
+      }
+
+      await fetchConnections()
+    } finally {
+      setBusyId(null)
+    }
   }
-]
 
-const Connections = () => {
   return (
     <Card>
       <Grid container>
@@ -120,27 +144,44 @@ const Connections = () => {
           </CardContent>
         </Grid>
         <Grid size={{ xs: 12, md: 6 }}>
-          <CardHeader title='Social Accounts' subheader='Display content from social accounts on your site' />
+          <CardHeader
+            title={t.signInProvidersTitle || 'Sign-in Providers'}
+            subheader={t.signInProvidersSubtitle || 'Link accounts you want to use to sign in'}
+          />
           <CardContent className='flex flex-col gap-4'>
-            {socialAccountsArr.map((item, index) => (
-              <div key={index} className='flex items-center justify-between gap-4'>
+            {error && (
+              <Alert severity='error' onClose={() => setError(null)}>
+                {t.errors?.[error] || t.errors?.provider_error || 'Something went wrong. Please try again.'}
+              </Alert>
+            )}
+            {connections.length === 0 && (
+              <Typography variant='body2'>{t.noSignInProviders || 'No sign-in providers are available.'}</Typography>
+            )}
+            {connections.map(item => (
+              <div key={item.provider.slug} className='flex items-center justify-between gap-4'>
                 <div className='flex flex-grow items-center gap-4'>
-                  <img height={32} width={32} src={item.logo} alt={item.title} />
+                  {item.provider.iconUrl ? (
+                    <img height={32} width={32} src={item.provider.iconUrl} alt={item.provider.displayName} />
+                  ) : (
+                    <i className='ri-shield-user-line text-[32px]' />
+                  )}
                   <div className='flex-grow'>
                     <Typography className='font-medium' color='text.primary'>
-                      {item.title}
+                      {item.provider.displayName}
+                    </Typography>
+                    <Typography variant='body2' color={item.accountId ? 'primary.main' : undefined}>
+                      {item.accountId ? t.connected || 'Connected' : t.notConnected || 'Not Connected'}
                     </Typography>
-                    {item.isConnected ? (
-                      <Typography color='primary.main' component={Link} href={item.href || '/'} target='_blank'>
-                        {item.username}
-                      </Typography>
-                    ) : (
-                      <Typography variant='body2'>Not Connected</Typography>
-                    )}
                   </div>
                 </div>
-                <CustomIconButton variant='outlined' color={item.isConnected ? 'error' : 'secondary'}>
-                  <i className={item.isConnected ? 'ri-delete-bin-7-line' : 'ri-links-line'} />
+                <CustomIconButton
+                  variant='outlined'
+                  color={item.accountId ? 'error' : 'secondary'}
+                  disabled={busyId === item.accountId && busyId !== null}
+                  onClick={() => (item.accountId ? handleUnlink(item.accountId) : handleLink(item.provider.slug))}
+                  aria-label={item.accountId ? t.unlink || 'Unlink' : t.link || 'Link'}
+                >
+                  <i className={item.accountId ? 'ri-delete-bin-7-line' : 'ri-links-line'} />
                 </CustomIconButton>
               </div>
             ))}
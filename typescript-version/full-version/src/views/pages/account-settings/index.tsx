@@ -4,6 +4,9 @@
 import { useState } from 'react'
 import type { SyntheticEvent, ReactElement } from 'react'
 
+// Next Imports
+import { useSearchParams } from 'next/navigation'
+
 // MUI Imports
 import Grid from '@mui/material/Grid2'
 import Tab from '@mui/material/Tab'
@@ -19,9 +22,12 @@ import { useTranslation } from '@/contexts/TranslationContext'
 const AccountSettings = ({ tabContentList }: { tabContentList: { [key: string]: ReactElement } }) => {
   // Hooks
   const dictionary = useTranslation()
+  const searchParams = useSearchParams()
 
   // States
-  const [activeTab, setActiveTab] = useState('account')
+  // ?tab= открывает нужную вкладку (например, возврат после привязки провайдера входа)
+  const requestedTab = searchParams.get('tab')
+  const [activeTab, setActiveTab] = useState(requestedTab && tabContentList[requestedTab] ? requestedTab : 'account')
 
   const handleChange = (event: SyntheticEvent, value: string) => {
     setActiveTab(value)
@@ -1,3 +1,9 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { FormEvent } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
@@ -8,86 +14,186 @@ import Select from '@mui/material/Select'
 import MenuItem from '@mui/material/MenuItem'
 import Grid from '@mui/material/Grid2'
 import Button from '@mui/material/Button'
+import Switch from '@mui/material/Switch'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import TextField from '@mui/material/TextField'
+import Autocomplete from '@mui/material/Autocomplete'
+import Alert from '@mui/material/Alert'
+
+// Type Imports
+import type {
+  NotificationPreferenceItem,
+  NotificationPreferencesView
+} from '@/services/notifications/NotificationPreferenceService'
+import type { NotificationCategory, NotificationDelivery } from '@/services/notifications/types'
 
 // Component Imports
-import Link from '@components/Link'
 import Form from '@components/Form'
 
+// Config Imports
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_PREFERENCE_CHANNELS } from '@/services/notifications/types'
+
 // Style Imports
 import tableStyles from '@core/styles/table.module.css'
 
-type TableDataType = {
-  type: string
-  app: boolean
-  email: boolean
-  browser: boolean
+// Vars
+const categoryLabels: Record<NotificationCategory, string> = {
+  security: 'Security',
+  account: 'Account activity',
+  chat: 'Chat messages',
+  listings: 'Listings',
+  marketing: 'News and offers',
+  system: 'System'
+}
+
+const channelLabels: Record<(typeof NOTIFICATION_PREFERENCE_CHANNELS)[number], string> = {
+  email: 'Email',
+  sms: 'SMS',
+  browser: 'Browser',
+  telegram: 'Telegram'
 }
 
-// Vars
-const tableData: TableDataType[] = [
-  {
-    app: true,
-    email: true,
-    browser: true,
-    type: 'New for you'
-  },
-  {
-    app: true,
-    email: true,
-    browser: true,
-    type: 'Account activity'
-  },
-  {
-    app: false,
-    email: true,
-    browser: true,
-    type: 'A new browser used to sign in'
-  },
-  {
-    app: false,
-    email: true,
-    browser: false,
-    type: 'A new device is linked'
-  }
-]
+const hours = Array.from({ length: 24 }, (_, hour) => hour)
 
 const Notifications = () => {
+  // States
+  const [data, setData] = useState<NotificationPreferencesView | null>(null)
+  const [initialData, setInitialData] = useState<NotificationPreferencesView | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const timezones = useMemo(() => Intl.supportedValuesOf('timeZone'), [])
+
+  const fetchPreferences = useCallback(async () => {
+    const res = await fetch('/api/user/notification-preferences')
+
+    if (res.ok) {
+      const preferences = await res.json()
+
+      setData(preferences)
+      setInitialData(preferences)
+    } else {
+      setError('Failed to load notification preferences')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  const getPreference = (category: NotificationCategory, channel: string) =>
+    data?.preferences.find(item => item.category === category && item.channel === channel)
+
+  const updatePreference = (
+    category: NotificationCategory,
+    channel: string,
+    patch: Partial<Pick<NotificationPreferenceItem, 'enabled' | 'delivery'>>
+  ) => {
+    setData(current =>
+      current && {
+        ...current,
+        preferences: current.preferences.map(item =>
+          item.category === category && item.channel === channel ? { ...item, ...patch } : item
+        )
+      }
+    )
+  }
+
+  // Способ доставки задаётся на категорию целиком и применяется ко всем её каналам
+  const getCategoryDelivery = (category: NotificationCategory): NotificationDelivery =>
+    data?.preferences.some(item => item.category === category && item.delivery === 'digest') ? 'digest' : 'immediate'
+
+  const setCategoryDelivery = (category: NotificationCategory, delivery: NotificationDelivery) => {
+    setData(current =>
+      current && {
+        ...current,
+        preferences: current.preferences.map(item => (item.category === category ? { ...item, delivery } : item))
+      }
+    )
+  }
+
+  const updateSettings = (patch: Partial<NotificationPreferencesView['settings']>) => {
+    setData(current => current && { ...current, settings: { ...current.settings, ...patch } })
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    if (!data) {
+      return
+    }
+
+    setError('')
+    setSuccess('')
+    setSaving(true)
+
+    try {
+      const res = await fetch('/api/user/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: data.settings, preferences: data.preferences })
+      })
+
+      const result = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        throw new Error(result?.error || 'Failed to save notification preferences')
+      }
+
+      setData(result)
+      setInitialData(result)
+      setSuccess('Notification preferences saved.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
   return (
     <Card>
       <CardHeader
-        title='Recent Devices'
-        subheader={
-          <>
-            We need permission from your browser to show notifications.
-            <Link className='text-primary'> Request Permission</Link>
-          </>
-        }
+        title='Notifications'
+        subheader='Choose which notifications you receive on each channel. Security alerts marked as mandatory are always delivered.'
       />
-      <Form>
+      <Form onSubmit={handleSubmit} onReset={() => setData(initialData)}>
         <div className='overflow-x-auto'>
           <table className={tableStyles.table}>
             <thead>
               <tr>
                 <th>Type</th>
-                <th>Email</th>
-                <th>Browser</th>
-                <th>App</th>
+                {NOTIFICATION_PREFERENCE_CHANNELS.map(channel => (
+                  <th key={channel}>{channelLabels[channel]}</th>
+                ))}
+                <th>Delivery</th>
               </tr>
             </thead>
             <tbody className='border-be'>
-              {tableData.map((data, index) => (
-                <tr key={index}>
-                  <td>
-                    <Typography color='text.primary'>{data.type}</Typography>
-                  </td>
-                  <td>
-                    <Checkbox defaultChecked={data.email} />
-                  </td>
+              {NOTIFICATION_CATEGORIES.map(category => (
+                <tr key={category}>
                   <td>
-                    <Checkbox defaultChecked={data.browser} />
+                    <Typography color='text.primary'>{categoryLabels[category]}</Typography>
                   </td>
+                  {NOTIFICATION_PREFERENCE_CHANNELS.map(channel => (
+                    <td key={channel}>
+                      <Checkbox
+                        checked={getPreference(category, channel)?.enabled ?? true}
+                        disabled={!data}
+                        onChange={e => updatePreference(category, channel, { enabled: e.target.checked })}
+                      />
+                    </td>
+                  ))}
                   <td>
-                    <Checkbox defaultChecked={data.app} />
+                    <Select
+                      size='small'
+                      value={getCategoryDelivery(category)}
+                      disabled={!data}
+                      onChange={e => setCategoryDelivery(category, e.target.value as NotificationDelivery)}
+                    >
+                      <MenuItem value='immediate'>Immediately</MenuItem>
+                      <MenuItem value='digest'>Daily digest</MenuItem>
+                    </Select>
                   </td>
                 </tr>
               ))}
@@ -95,19 +201,86 @@ const Notifications = () => {
           </table>
         </div>
         <CardContent>
-          <Typography className='mbe-6 font-medium'>When should we send you notifications?</Typography>
+          <Typography className='mbe-2 font-medium'>Quiet hours</Typography>
+          <Typography variant='body2' className='mbe-6'>
+            SMS and Telegram notifications received during quiet hours are delivered when they end.
+          </Typography>
           <Grid container spacing={6}>
-            <Grid size={{ xs: 12, sm: 6, md: 4 }}>
-              <Select fullWidth defaultValue='online'>
-                <MenuItem value='online'>Only when I&#39;m online</MenuItem>
-                <MenuItem value='anytime'>Anytime</MenuItem>
-              </Select>
+            <Grid size={{ xs: 12 }}>
+              <FormControlLabel
+                label='Enable quiet hours'
+                control={
+                  <Switch
+                    checked={data?.settings.quietHoursEnabled ?? false}
+                    disabled={!data}
+                    onChange={e => updateSettings({ quietHoursEnabled: e.target.checked })}
+                  />
+                }
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                type='time'
+                label='From'
+                value={data?.settings.quietHoursStart ?? ''}
+                disabled={!data?.settings.quietHoursEnabled}
+                onChange={e => updateSettings({ quietHoursStart: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                type='time'
+                label='To'
+                value={data?.settings.quietHoursEnd ?? ''}
+                disabled={!data?.settings.quietHoursEnabled}
+                onChange={e => updateSettings({ quietHoursEnd: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Autocomplete
+                disableClearable
+                options={timezones}
+                value={data?.settings.timezone ?? ''}
+                disabled={!data}
+                onChange={(_, value) => updateSettings({ timezone: value })}
+                renderInput={params => <TextField {...params} label='Timezone' />}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                fullWidth
+                label='Send daily digest at'
+                value={data?.settings.digestHour ?? 9}
+                disabled={!data}
+                onChange={e => updateSettings({ digestHour: Number(e.target.value) })}
+              >
+                {hours.map(hour => (
+                  <MenuItem key={hour} value={hour}>
+                    {`${String(hour).padStart(2, '0')}:00`}
+                  </MenuItem>
+                ))}
+              </TextField>
             </Grid>
+            {error && (
+              <Grid size={{ xs: 12 }}>
+                <Alert severity='error'>{error}</Alert>
+              </Grid>
+            )}
+            {success && (
+              <Grid size={{ xs: 12 }}>
+                <Alert severity='success'>{success}</Alert>
+              </Grid>
+            )}
             <Grid size={{ xs: 12 }} className='flex gap-4 flex-wrap'>
-              <Button variant='contained' type='submit'>
+              <Button variant='contained' type='submit' disabled={!data || saving}>
                 Save Changes
               </Button>
-              <Button variant='outlined' color='secondary' type='reset'>
+              <Button variant='outlined' color='secondary' type='reset' disabled={!data || saving}>
                 Reset
               </Button>
             </Grid>
@@ -1,3 +1,8 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
@@ -5,63 +10,128 @@ import CardContent from '@mui/material/CardContent'
 import Typography from '@mui/material/Typography'
 import Chip from '@mui/material/Chip'
 import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
 
-type ApiKeyListType = {
-  title: string
-  access: string
-  date: string
-  key: string
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+type ApiKeyListProps = {
+  refreshKey?: number
 }
 
-// Vars
-const apiKeyList: ApiKeyListType[] = [
-  {
-    title: 'Server Key 1',
-    access: 'Full Access',
-    date: '28 Apr 2021, 18:20 GTM+4:10',
-    key: '23eaf7f0-f4f7-495e-8b86-fad3261282ac'
-  },
-  {
-    title: 'Server Key 2',
-    access: 'Read Only',
-    date: '12 Feb 2021, 10:30 GTM+2:30',
-    key: 'bb98e571-a2e2-4de8-90a9-2e231b5e99'
-  },
-  {
-    title: 'Server Key 3',
-    access: 'Read Only',
-    date: '28 Dec 2021, 12:21 GTM+4:10',
-    key: '2e915e59-3105-47f2-8838-6e46bf83b711'
+type ApiKeyItem = {
+  id: string
+  name: string
+  prefix: string
+  accountId: string | null
+  scopes: 'all' | Record<string, string[]>
+  expiresAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })
+
+const getAccessLabel = (scopes: ApiKeyItem['scopes']) => {
+  if (scopes === 'all') return 'Full Access'
+
+  const actions = Object.values(scopes).flat()
+
+  return actions.length > 0 && actions.every(action => action === 'read') ? 'Read Only' : 'Custom'
+}
+
+const getStatus = (apiKey: ApiKeyItem) => {
+  if (apiKey.revokedAt) return { label: 'Revoked', color: 'secondary' as const }
+
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+    return { label: 'Expired', color: 'warning' as const }
+  }
+
+  return null
+}
+
+const ApiKeyList = ({ refreshKey }: ApiKeyListProps) => {
+  // States
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchApiKeys = useCallback(async () => {
+    const response = await fetch('/api/user/api-keys')
+
+    if (response.ok) {
+      const data = await response.json()
+
+      setApiKeys(data.keys ?? [])
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchApiKeys()
+  }, [fetchApiKeys, refreshKey])
+
+  const revoke = async (apiKey: ApiKeyItem) => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/user/api-keys/${apiKey.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to revoke the API key')
+      }
+
+      toast.success(`API key "${apiKey.name}" revoked`)
+      await fetchApiKeys()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+    }
   }
-]
 
-const ApiKeyList = () => {
   return (
     <Card>
       <CardHeader title='API Key List & Access' className='pbe-4' />
       <CardContent className='flex flex-col gap-6'>
         <Typography>
-          An API key is a simple encrypted string that identifies an application without any principal. They are useful
-          for accessing public data anonymously, and are used to associate API requests with your project for quota and
-          billing.
+          An API key lets scripts and integrations call the API on your behalf. Send it in the Authorization header as a
+          Bearer token. A key never has more permissions than your role, and can be limited further when it is created.
         </Typography>
-        {apiKeyList.map((item, index) => (
-          <div key={index} className='flex flex-col gap-2 p-4 rounded bg-actionHover'>
-            <div className='flex items-center gap-3'>
-              <Typography variant='h6'>{item.title}</Typography>
-              <Chip variant='tonal' color='primary' label={item.access} size='small' />
-            </div>
-            <div className='flex items-center gap-3'>
-              <Typography className='font-medium'>{item.key}</Typography>
-              <div className='flex'>
-                <IconButton size='small'>
-                  <i className='ri-file-copy-line text-xl text-textSecondary' />
-                </IconButton>
+        {apiKeys.map(apiKey => {
+          const status = getStatus(apiKey)
+
+          return (
+            <div key={apiKey.id} className='flex flex-col gap-2 p-4 rounded bg-actionHover'>
+              <div className='flex items-center gap-3'>
+                <Typography variant='h6'>{apiKey.name}</Typography>
+                <Chip variant='tonal' color='primary' label={getAccessLabel(apiKey.scopes)} size='small' />
+                {apiKey.accountId && <Chip variant='tonal' color='info' label='Account' size='small' />}
+                {status && <Chip variant='tonal' color={status.color} label={status.label} size='small' />}
+                {!apiKey.revokedAt && (
+                  <Tooltip title='Revoke'>
+                    <IconButton size='small' className='mis-auto' disabled={loading} onClick={() => revoke(apiKey)}>
+                      <i className='ri-delete-bin-7-line text-xl text-textSecondary' />
+                    </IconButton>
+                  </Tooltip>
+                )}
               </div>
+              <Typography className='font-medium'>{`${apiKey.prefix}_••••••••`}</Typography>
+              <Typography color='text.disabled'>
+                {[
+                  `Created on ${formatDate(apiKey.createdAt)}`,
+                  apiKey.expiresAt ? `Expires on ${formatDate(apiKey.expiresAt)}` : 'Never expires',
+                  apiKey.lastUsedAt
+                    ? `Last used on ${formatDate(apiKey.lastUsedAt)}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                    : 'Never used'
+                ].join(' · ')}
+              </Typography>
             </div>
-            <Typography color='text.disabled'>{`Created on ${item.date}`}</Typography>
-          </div>
-        ))}
+          )
+        })}
+        {apiKeys.length === 0 && <Typography color='text.disabled'>No API keys yet</Typography>}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,29 @@
+'use client'
+
+// React Imports
+import { useState } from 'react'
+
+// MUI Imports
+import Grid from '@mui/material/Grid2'
+
+// Component Imports
+import CreateApiKey from './CreateApiKey'
+import ApiKeyList from './ApiKeyList'
+
+const ApiKeys = () => {
+  // States
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  return (
+    <>
+      <Grid size={{ xs: 12 }}>
+        <CreateApiKey onCreated={() => setRefreshKey(value => value + 1)} />
+      </Grid>
+      <Grid size={{ xs: 12 }}>
+        <ApiKeyList refreshKey={refreshKey} />
+      </Grid>
+    </>
+  )
+}
+
+export default ApiKeys
@@ -1,3 +1,8 @@
+'use client'
+
+// React Imports
+import { useEffect, useState } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
@@ -9,34 +14,176 @@ import Select from '@mui/material/Select'
 import MenuItem from '@mui/material/MenuItem'
 import FormControl from '@mui/material/FormControl'
 import InputLabel from '@mui/material/InputLabel'
+import Alert from '@mui/material/Alert'
+import IconButton from '@mui/material/IconButton'
+import Typography from '@mui/material/Typography'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
+
+// Hook Imports
+import { useUserAccounts } from '@/hooks/useAccount'
+
+type CreateApiKeyProps = {
+  onCreated?: () => void
+}
+
+type AccessType = 'full-access' | 'read-only'
+
+// Vars
+const expiryOptions = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' }
+]
+
+const CreateApiKey = ({ onCreated }: CreateApiKeyProps) => {
+  // States
+  const [name, setName] = useState('')
+  const [access, setAccess] = useState<AccessType>('read-only')
+  const [expiry, setExpiry] = useState('90')
+  const [owner, setOwner] = useState('personal')
+  const [availableScopes, setAvailableScopes] = useState<Record<string, string[]>>({})
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Hooks
+  const userAccounts = useUserAccounts()
+
+  useEffect(() => {
+    const fetchScopes = async () => {
+      const response = await fetch('/api/user/api-keys')
+
+      if (response.ok) {
+        const data = await response.json()
+
+        setAvailableScopes(data.availableScopes ?? {})
+      }
+    }
+
+    fetchScopes()
+  }, [])
+
+  const buildScopes = () => {
+    if (access === 'full-access') return 'all'
+
+    return Object.fromEntries(
+      Object.entries(availableScopes)
+        .filter(([, actions]) => actions.includes('read'))
+        .map(([module]) => [module, ['read']])
+    )
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/user/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: buildScopes(),
+          expiresAt: expiry === 'never' ? null : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000),
+          accountId: owner === 'personal' ? null : owner
+        })
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to create the API key')
+      }
+
+      setCreatedKey(data.key)
+      setName('')
+      toast.success('API key created')
+      onCreated?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const copyKey = async () => {
+    if (!createdKey) return
+
+    await navigator.clipboard.writeText(createdKey)
+    toast.success('API key copied to clipboard')
+  }
 
-const CreateApiKey = () => {
   return (
     <Card>
       <CardHeader title='Create an API Key' />
       <CardContent className='!pb-0'>
         <Grid container spacing={6}>
           <Grid size={{ xs: 12, md: 6 }}>
-            <form className='flex justify-end items-end bs-full flex-col gap-5 pbe-5'>
+            <form className='flex justify-end items-end bs-full flex-col gap-5 pbe-5' onSubmit={handleSubmit}>
               <FormControl fullWidth>
                 <InputLabel>Choose the API key type</InputLabel>
-                <Select label='Choose the API key type' defaultValue=''>
-                  <MenuItem value='full-control'>Full Control</MenuItem>
-                  <MenuItem value='modify'>Modify</MenuItem>
-                  <MenuItem value='read-execute'>Read & Execute</MenuItem>
-                  <MenuItem value='list-folder-contents'>List Folder Contents</MenuItem>
+                <Select
+                  label='Choose the API key type'
+                  value={access}
+                  onChange={event => setAccess(event.target.value as AccessType)}
+                >
+                  <MenuItem value='full-access'>Full Access</MenuItem>
                   <MenuItem value='read-only'>Read Only</MenuItem>
-                  <MenuItem value='read-write'>Read & Write</MenuItem>
                 </Select>
               </FormControl>
-              <TextField label='Name the API key' fullWidth />
-              <Button variant='contained' fullWidth>
+              <FormControl fullWidth>
+                <InputLabel>Expires in</InputLabel>
+                <Select label='Expires in' value={expiry} onChange={event => setExpiry(event.target.value)}>
+                  {expiryOptions.map(option => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {userAccounts.length > 0 && (
+                <FormControl fullWidth>
+                  <InputLabel>Owner</InputLabel>
+                  <Select label='Owner' value={owner} onChange={event => setOwner(event.target.value)}>
+                    <MenuItem value='personal'>Personal</MenuItem>
+                    {userAccounts.map(account => (
+                      <MenuItem key={account.id} value={account.id}>
+                        {account.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              <TextField
+                label='Name the API key'
+                fullWidth
+                required
+                value={name}
+                onChange={event => setName(event.target.value)}
+              />
+              <Button variant='contained' fullWidth type='submit' disabled={loading || !name.trim()}>
                 Create Key
               </Button>
             </form>
           </Grid>
           <Grid size={{ xs: 12, md: 6 }} className='flex items-end justify-center '>
-            <img src='/images/illustrations/characters/3.png/' alt='api illustration' className='bs-[216px]' />
+            {createdKey ? (
+              <Alert severity='warning' className='is-full mbe-5'>
+                <Typography className='mbe-2'>Copy your API key now. It will not be shown again.</Typography>
+                <div className='flex items-center gap-2'>
+                  <Typography className='font-medium break-all' color='text.primary'>
+                    {createdKey}
+                  </Typography>
+                  <IconButton size='small' onClick={copyKey}>
+                    <i className='ri-file-copy-line text-xl text-textSecondary' />
+                  </IconButton>
+                </div>
+              </Alert>
+            ) : (
+              <img src='/images/illustrations/characters/3.png/' alt='api illustration' className='bs-[216px]' />
+            )}
           </Grid>
         </Grid>
       </CardContent>
@@ -1,104 +1,158 @@
+'use client'
+
 // React Imports
-import type { ReactElement } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 
 // MUI Imports
 import Card from '@mui/material/Card'
 import CardHeader from '@mui/material/CardHeader'
 import Typography from '@mui/material/Typography'
+import Button from '@mui/material/Button'
+import Chip from '@mui/material/Chip'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+
+// Third-party Imports
+import { toast } from 'react-toastify'
 
 // Style Imports
 import tableStyles from '@core/styles/table.module.css'
 
-type RecentDeviceDataType = {
-  browserIcon: ReactElement
-  browserName: string
-  device: string
-  location: string
-  date: string
+type UserSession = {
+  id: string
+  current: boolean
+  ipAddress: string | null
+  deviceType: string | null
+  deviceName: string | null
+  createdAt: string
+  lastActiveAt: string
 }
 
 // Vars
-const recentDeviceData: RecentDeviceDataType[] = [
-  {
-    location: 'Switzerland',
-    device: 'HP Spectre 360',
-    date: '10, Sept 20:07',
-    browserName: 'Chrome on Windows',
-    browserIcon: <i className='ri-macbook-line text-xl text-warning' />
-  },
-  {
-    location: 'Australia',
-    device: 'iPhone 12x',
-    date: '13, Sept 10:10',
-    browserName: 'Chrome on iPhone',
-    browserIcon: <i className='ri-android-line text-xl text-success' />
-  },
-  {
-    location: 'Dubai',
-    device: 'Oneplus 9 Pro',
-    date: '14, Sept 15:15',
-    browserName: 'Chrome on Android',
-    browserIcon: <i className='ri-smartphone-line text-xl text-error' />
-  },
-  {
-    location: 'India',
-    device: 'Apple iMac',
-    date: '16, Sept 16:17',
-    browserName: 'Chrome on MacOS',
-    browserIcon: <i className='ri-mac-line text-xl text-info' />
-  },
-  {
-    location: 'Switzerland',
-    device: 'HP Spectre 360',
-    date: '20, Sept 21:01',
-    browserName: 'Chrome on Windows',
-    browserIcon: <i className='ri-macbook-line text-xl text-warning' />
-  },
-  {
-    location: 'Dubai',
-    device: 'Oneplus 9 Pro',
-    date: '21, Sept 12:22',
-    browserName: 'Chrome on Android',
-    browserIcon: <i className='ri-android-line text-xl text-success' />
-  }
-]
+const deviceIcons: Record<string, string> = {
+  desktop: 'ri-macbook-line text-warning',
+  mobile: 'ri-smartphone-line text-success',
+  tablet: 'ri-tablet-line text-info',
+  bot: 'ri-robot-line text-secondary'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
 
 const RecentDevicesTable = () => {
+  // States
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchSessions = useCallback(async () => {
+    const response = await fetch('/api/user/sessions')
+
+    if (response.ok) {
+      const data = await response.json()
+
+      setSessions(data.sessions ?? [])
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const revoke = async (url: string, successMessage: string) => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to sign out the session')
+      }
+
+      toast.success(successMessage)
+      await fetchSessions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasOtherSessions = sessions.some(session => !session.current)
+
   return (
     <Card>
-      <CardHeader title='Recent Devices' />
+      <CardHeader
+        title='Recent Devices'
+        subheader='Devices where you are signed in. Sign out the ones you do not recognize.'
+        action={
+          <Button
+            variant='outlined'
+            color='error'
+            size='small'
+            disabled={!hasOtherSessions || loading}
+            onClick={() => revoke('/api/user/sessions', 'Signed out of all other sessions')}
+          >
+            Sign out other sessions
+          </Button>
+        }
+      />
       <div className='overflow-x-auto'>
         <table className={tableStyles.table}>
           <thead>
             <tr>
               <th>Browser</th>
-              <th>Device</th>
-              <th>Location</th>
+              <th>IP Address</th>
+              <th>Signed In</th>
               <th>Recent Activities</th>
+              <th />
             </tr>
           </thead>
           <tbody>
-            {recentDeviceData.map((device, index) => (
-              <tr key={index}>
+            {sessions.map(session => (
+              <tr key={session.id}>
                 <td>
                   <div className='flex items-center gap-2.5'>
-                    {device.browserIcon}
+                    <i
+                      className={`${deviceIcons[session.deviceType ?? ''] ?? 'ri-question-line text-secondary'} text-xl`}
+                    />
                     <Typography className='font-medium' color='text.primary'>
-                      {device.browserName}
+                      {session.deviceName || 'Unknown device'}
                     </Typography>
+                    {session.current && <Chip label='This device' color='success' size='small' variant='tonal' />}
                   </div>
                 </td>
                 <td>
-                  <Typography>{device.device}</Typography>
+                  <Typography>{session.ipAddress || '—'}</Typography>
+                </td>
+                <td>
+                  <Typography>{formatDate(session.createdAt)}</Typography>
                 </td>
                 <td>
-                  <Typography>{device.location}</Typography>
+                  <Typography>{formatDate(session.lastActiveAt)}</Typography>
                 </td>
                 <td>
-                  <Typography>{device.date}</Typography>
+                  {!session.current && (
+                    <Tooltip title='Sign out'>
+                      <IconButton
+                        size='small'
+                        disabled={loading}
+                        onClick={() => revoke(`/api/user/sessions/${session.id}`, 'Session signed out')}
+                      >
+                        <i className='ri-logout-box-r-line text-textSecondary' />
+                      </IconButton>
+                    </Tooltip>
+                  )}
                 </td>
               </tr>
             ))}
+            {sessions.length === 0 && (
+              <tr>
+                <td colSpan={5}>
+                  <Typography>No active sessions</Typography>
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -1,19 +1,86 @@
+'use client'
+
+// React Imports
+import { useCallback, useEffect, useState } from 'react'
+
 // MUI Imports
 import Card from '@mui/material/Card'
 import Button from '@mui/material/Button'
 import CardHeader from '@mui/material/CardHeader'
 import CardContent from '@mui/material/CardContent'
 import Typography from '@mui/material/Typography'
+import TextField from '@mui/material/TextField'
+import Alert from '@mui/material/Alert'
+import Chip from '@mui/material/Chip'
 import type { ButtonProps } from '@mui/material/Button'
 
-// Type Imports
-import Link from '@components/Link'
-
 // Component Imports
 import TwoFactorAuth from '@components/dialogs/two-factor-auth'
 import OpenDialogOnElementClick from '@components/dialogs/OpenDialogOnElementClick'
 
+type TwoFactorStatus = {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
 const TwoFactorAuthenticationCard = () => {
+  // States
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    const res = await fetch('/api/auth/two-factor')
+
+    if (res.ok) {
+      setStatus(await res.json())
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  // Выключение и перевыпуск кодов подтверждаются текущим кодом
+  const submitWithCode = async (url: string) => {
+    setError('')
+    setSuccess('')
+    setRecoveryCodes(null)
+    setLoading(true)
+
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      })
+
+      const data = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        throw new Error(data?.error || 'Request failed')
+      }
+
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes)
+      } else {
+        setSuccess('Two-factor authentication has been disabled.')
+      }
+
+      setCode('')
+      await fetchStatus()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
   // Vars
   const buttonProps: ButtonProps = {
     variant: 'contained',
@@ -23,17 +90,79 @@ const TwoFactorAuthenticationCard = () => {
   return (
     <>
       <Card>
-        <CardHeader title='Two-steps verification' />
+        <CardHeader
+          title='Two-steps verification'
+          action={status?.enabled && <Chip label='Enabled' color='success' size='small' variant='tonal' />}
+        />
         <CardContent className='flex flex-col items-start gap-6'>
-          <div className='flex flex-col gap-4'>
-            <Typography>Two factor authentication is not enabled yet.</Typography>
-            <Typography>
-              Two-factor authentication adds an additional layer of security to your account by requiring more than just
-              a password to log in.
-              <Link className='text-primary'>Learn more.</Link>
-            </Typography>
-          </div>
-          <OpenDialogOnElementClick element={Button} elementProps={buttonProps} dialog={TwoFactorAuth} />
+          {status?.enabled ? (
+            <>
+              <div className='flex flex-col gap-4'>
+                <Typography>
+                  Two factor authentication is enabled
+                  {status.enabledAt && ` since ${new Date(status.enabledAt).toLocaleDateString()}`}.
+                </Typography>
+                <Typography>Unused recovery codes: {status.recoveryCodesRemaining}</Typography>
+              </div>
+              {error && <Alert severity='error'>{error}</Alert>}
+              {recoveryCodes && (
+                <Alert severity='warning' icon={false}>
+                  <Typography className='mbe-2'>New recovery codes. Store them in a safe place:</Typography>
+                  <div className='grid grid-cols-2 gap-x-6 gap-y-1 font-mono'>
+                    {recoveryCodes.map(recoveryCode => (
+                      <span key={recoveryCode}>{recoveryCode}</span>
+                    ))}
+                  </div>
+                </Alert>
+              )}
+              <TextField
+                label='Authentication or recovery code'
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                disabled={loading}
+                size='small'
+              />
+              <div className='flex flex-wrap gap-4'>
+                <Button
+                  variant='outlined'
+                  disabled={loading || !code.trim()}
+                  onClick={() => submitWithCode('/api/auth/two-factor/recovery-codes')}
+                >
+                  Regenerate recovery codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant='outlined'
+                    color='error'
+                    disabled={loading || !code.trim()}
+                    onClick={() => submitWithCode('/api/auth/two-factor/disable')}
+                  >
+                    Disable
+                  </Button>
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className='flex flex-col gap-4'>
+                <Typography>Two factor authentication is not enabled yet.</Typography>
+                <Typography>
+                  Two-factor authentication adds an additional layer of security to your account by requiring more than
+                  just a password to log in.
+                </Typography>
+              </div>
+              {status?.required && (
+                <Alert severity='warning'>Two-factor authentication is required for your role.</Alert>
+              )}
+              {success && <Alert severity='success'>{success}</Alert>}
+              <OpenDialogOnElementClick
+                element={Button}
+                elementProps={buttonProps}
+                dialog={TwoFactorAuth}
+                dialogProps={{ onEnabled: fetchStatus }}
+              />
+            </>
+          )}
         </CardContent>
       </Card>
     </>
@@ -4,8 +4,7 @@ import Grid from '@mui/material/Grid2'
 // Component Imports
 import ChangePasswordCard from './ChangePasswordCard'
 import TwoFactorAuthenticationCard from './TwoFactorAuthenticationCard'
-import CreateApiKey from './CreateApiKey'
-import ApiKeyList from './ApiKeyList'
+import ApiKeys from './ApiKeys'
 import RecentDevicesTable from './RecentDevicesTable'
 
 const Security = () => {
@@ -17,12 +16,7 @@ const Security = () => {
       <Grid size={{ xs: 12 }}>
         <TwoFactorAuthenticationCard />
       </Grid>
-      <Grid size={{ xs: 12 }}>
-        <CreateApiKey />
-      </Grid>
-      <Grid size={{ xs: 12 }}>
-        <ApiKeyList />
-      </Grid>
+      <ApiKeys />
       <Grid size={{ xs: 12 }}>
         <RecentDevicesTable />
       </Grid>
@@ -0,0 +1,149 @@
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+// Локальный OIDC-провайдер для тестов: discovery, JWKS, token и userinfo endpoints.
+// Код авторизации выдаётся через issueCode - вместо страницы входа провайдера.
+
+type Claims = Record<string, unknown>
+
+interface IssuedCode {
+  codeChallenge: string
+  nonce?: string
+  claims: Claims
+}
+
+export interface MockOidcServer {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  tokenRequests: URLSearchParams[]
+  issueCode: (authorizationUrl: string, claims: Claims, options?: { nonce?: string }) => { code: string; state: string }
+  signIdToken: (claims: Claims, options?: { alg?: string; kid?: string }) => string
+  rotateKeys: () => void
+  close: () => Promise<void>
+}
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+export async function startMockOidcServer(): Promise<MockOidcServer> {
+  const clientId = 'test-client'
+  const clientSecret = 'test-secret'
+  const codes = new Map<string, IssuedCode>()
+  const accessTokens = new Map<string, Claims>()
+  const tokenRequests: URLSearchParams[] = []
+
+  let keyId = 'key-1'
+  let keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+  let issuer = ''
+
+  const signIdToken = (claims: Claims, options: { alg?: string; kid?: string } = {}) => {
+    const alg = options.alg ?? 'RS256'
+    const now = Math.floor(Date.now() / 1000)
+
+    const payload = { iss: issuer, aud: clientId, iat: now, exp: now + 300, ...claims }
+    const signingInput = `${encodeSegment({ alg, kid: options.kid ?? keyId, typ: 'JWT' })}.${encodeSegment(payload)}`
+    const signature = alg === 'none' ? Buffer.alloc(0) : crypto.sign('sha256', Buffer.from(signingInput), keyPair.privateKey)
+
+    return `${signingInput}.${signature.toString('base64url')}`
+  }
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', issuer)
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`
+      })
+    }
+
+    if (url.pathname === '/jwks') {
+      const jwk = keyPair.publicKey.export({ format: 'jwk' })
+
+      return sendJson(res, 200, { keys: [{ ...jwk, kid: keyId, alg: 'RS256', use: 'sig' }] })
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = req.headers.authorization?.replace(/^Bearer /, '') ?? ''
+      const claims = accessTokens.get(token)
+
+      return claims ? sendJson(res, 200, claims) : sendJson(res, 401, { error: 'invalid_token' })
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = ''
+
+      req.on('data', chunk => (body += chunk))
+      req.on('end', () => {
+        const params = new URLSearchParams(body)
+
+        tokenRequests.push(params)
+
+        const issued = codes.get(params.get('code') ?? '')
+        const challenge = crypto.createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url')
+
+        if (!issued || params.get('client_id') !== clientId || params.get('client_secret') !== clientSecret) {
+          return sendJson(res, 400, { error: 'invalid_grant' })
+        }
+
+        if (challenge !== issued.codeChallenge) {
+          return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+        }
+
+        codes.delete(params.get('code') as string)
+
+        const accessToken = crypto.randomBytes(16).toString('hex')
+
+        accessTokens.set(accessToken, issued.claims)
+
+        sendJson(res, 200, {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: 3600,
+          id_token: signIdToken({ ...issued.claims, nonce: issued.nonce })
+        })
+      })
+
+      return
+    }
+
+    sendJson(res, 404, { error: 'not_found' })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    tokenRequests,
+    issueCode: (authorizationUrl, claims, options = {}) => {
+      const params = new URL(authorizationUrl).searchParams
+      const code = crypto.randomBytes(8).toString('hex')
+
+      codes.set(code, {
+        codeChallenge: params.get('code_challenge') as string,
+        nonce: options.nonce ?? params.get('nonce') ?? undefined,
+        claims
+      })
+
+      return { code, state: params.get('state') as string }
+    },
+    signIdToken,
+    rotateKeys: () => {
+      keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      keyId = `key-${crypto.randomBytes(4).toString('hex')}`
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
@@ -0,0 +1,7 @@
+// Some test files replace global.fetch with a mock and never put it back.
+// In a single worker that leaks into later files, so keep the native fetch
+// from the first run and restore it before each file.
+const globalWithFetch = globalThis as typeof globalThis & { __nativeFetch?: typeof fetch }
+
+globalWithFetch.__nativeFetch ??= globalThis.fetch
+globalThis.fetch = globalWithFetch.__nativeFetch
@@ -0,0 +1,89 @@
+/**
+ * Тесты для StorageService - приватное хранилище (вложения чата)
+ */
+
+import { existsSync } from 'fs'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    media: {
+      update: vi.fn()
+    },
+    mediaGlobalSettings: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+import { StorageService } from '@/services/media/storage/StorageService'
+import { getExtensionForMimeType } from '@/services/media/presets'
+
+describe('StorageService (private storage)', () => {
+  let rootDir: string
+  let service: StorageService
+
+  const media = (overrides: Record<string, unknown> = {}) =>
+    ({
+      id: 'media-1',
+      entityType: 'chat_attachment',
+      localPath: 'chat_attachment/2026/10/abc.pdf',
+      s3Key: null,
+      variants: '{}',
+      trashMetadata: null,
+      deletedAt: null,
+      ...overrides
+    }) as any
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'))
+    service = new StorageService({
+      local: { basePath: path.join(rootDir, 'public', 'uploads'), publicUrlPrefix: '/uploads' },
+      privateLocal: { basePath: path.join(rootDir, 'private'), publicUrlPrefix: '' },
+      defaultStrategy: 'local_first'
+    })
+  })
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('stores chat attachments outside the public directory', async () => {
+    const result = await service.upload(
+      Buffer.from('%PDF'),
+      'chat_attachment/2026/10/abc.pdf',
+      'application/pdf',
+      'both',
+      'chat_attachment'
+    )
+
+    expect(result).toEqual({ localPath: 'chat_attachment/2026/10/abc.pdf' })
+    expect(existsSync(path.join(rootDir, 'private', 'chat_attachment/2026/10/abc.pdf'))).toBe(true)
+    expect(existsSync(path.join(rootDir, 'public'))).toBe(false)
+    expect((await service.download(media())).toString()).toBe('%PDF')
+  })
+
+  it('keeps other entity types in the public directory', async () => {
+    await service.upload(Buffer.from('img'), 'listing/abc.webp', 'image/webp', 'local_only', 'listing')
+
+    expect(existsSync(path.join(rootDir, 'public', 'uploads', 'listing/abc.webp'))).toBe(true)
+  })
+
+  it('links private files to the access-checked API route', () => {
+    expect(service.getUrl(media())).toBe('/api/chat/attachments/media-1')
+    expect(service.getUrl(media(), 'thumb')).toBe('/api/chat/attachments/media-1?variant=thumb')
+  })
+
+  it('refuses to sync private files to S3', async () => {
+    await expect(service.syncToS3(media())).rejects.toThrow('Private media is stored locally only')
+  })
+
+  it('derives file extensions from the MIME type', () => {
+    expect(getExtensionForMimeType('application/pdf')).toBe('.pdf')
+    expect(getExtensionForMimeType('text/html')).toBe('')
+  })
+})
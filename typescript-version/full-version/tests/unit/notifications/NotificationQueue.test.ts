@@ -33,6 +33,13 @@ vi.mock('@/services/notifications/NotificationService', () => ({
   }
 }))
 
+// Redis настроен только при заданном REDIS_URL (без БД и Docker-значений по умолчанию)
+vi.mock('@/lib/config', () => ({
+  serviceConfigResolver: {
+    getConfig: vi.fn(async () => ({ url: process.env.REDIS_URL ?? null }))
+  }
+}))
+
 vi.mock('@/lib/logger', () => ({
   default: {
     info: vi.fn(),
@@ -116,6 +123,48 @@ describe('NotificationQueue', () => {
       expect(result).toBeNull() // Немедленная отправка возвращает null
       expect(notificationService.send).toHaveBeenCalled()
     })
+
+    it('должен повторять неудачную немедленную отправку с экспоненциальной задержкой', async () => {
+      vi.useFakeTimers()
+
+      try {
+        // Новый экземпляр, чтобы интервал обработчика шёл по фейковым таймерам
+        vi.resetModules()
+        const { notificationService } = await import('@/services/notifications/NotificationService')
+        const queue = (await import('@/services/notifications/NotificationQueue')).NotificationQueue.getInstance()
+        const send = vi.mocked(notificationService.send)
+
+        send
+          .mockResolvedValueOnce({ success: false, error: 'HTTP 503' })
+          .mockResolvedValueOnce({ success: false, error: 'HTTP 503' })
+          .mockResolvedValueOnce({ success: true })
+
+        await queue.add(
+          { channel: 'webhook', to: 'wh-1', content: 'Test' },
+          { delay: 0, attempts: 5, backoff: { type: 'exponential', delay: 30000 } }
+        )
+
+        expect(send).toHaveBeenCalledTimes(1)
+        expect((await queue.getStats()).waiting).toBe(1)
+
+        // Первый повтор - через 2 * 30 с
+        await vi.advanceTimersByTimeAsync(55000)
+        expect(send).toHaveBeenCalledTimes(1)
+        await vi.advanceTimersByTimeAsync(5000)
+        expect(send).toHaveBeenCalledTimes(2)
+
+        // Второй повтор - через 4 * 30 с после первого
+        await vi.advanceTimersByTimeAsync(115000)
+        expect(send).toHaveBeenCalledTimes(2)
+        await vi.advanceTimersByTimeAsync(5000)
+        expect(send).toHaveBeenCalledTimes(3)
+
+        expect(await queue.getStats()).toMatchObject({ waiting: 0, completed: 1 })
+        await queue.close()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
   })
 
   describe('Bull mode (с REDIS_URL)', () => {
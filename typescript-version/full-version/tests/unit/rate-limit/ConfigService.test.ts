@@ -30,6 +30,13 @@ describe('ConfigService', () => {
         maxRequests: 100,
         windowMs: 60000,
         blockMs: 1800000,
+        algorithm: 'fixed',
+        refillRate: null,
+        burst: null,
+        escalationLadder: null,
+        escalationLookbackMs: null,
+        escalationDecayMs: null,
+        escalationManualReview: false,
         warnThreshold: 0,
         isActive: true,
         mode: 'enforce',
@@ -109,6 +116,13 @@ describe('ConfigService', () => {
           maxRequests: 200,
           windowMs: 120000,
           blockMs: 900000,
+          algorithm: 'fixed',
+          refillRate: null,
+          burst: null,
+          escalationLadder: null,
+          escalationLookbackMs: null,
+          escalationDecayMs: null,
+          escalationManualReview: false,
           warnThreshold: 0,
           isActive: true,
           mode: 'enforce',
@@ -179,14 +193,21 @@ describe('ConfigService', () => {
       ])
 
       const result = await service.getAllConfigs()
-      expect(result).toHaveLength(12) // 11 default configs + 1 from database
+      expect(result).toHaveLength(15) // 14 default configs + 1 from database
       const authConfig = result.find(config => config.module === 'auth')
       expect(authConfig).toEqual({
         module: 'auth',
         maxRequests: 5,
         windowMs: 900000,
         blockMs: 1800000,
+        algorithm: 'fixed',
+        refillRate: null,
+        burst: null,
         warnThreshold: 3,
+        escalationLadder: null,
+        escalationLookbackMs: null,
+        escalationDecayMs: null,
+        escalationManualReview: false,
         isActive: true,
         mode: 'enforce',
         storeEmailInEvents: true,
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import type { RateLimitOverride } from '@prisma/client'
+
+import { OverrideService, applyRateLimitOverride } from '@/lib/rate-limit/services/OverrideService'
+import type { RateLimitConfig } from '@/lib/rate-limit/types'
+
+const mockPrisma = {
+  rateLimitOverride: {
+    findMany: vi.fn(),
+    create: vi.fn()
+  },
+  user: {
+    findUnique: vi.fn()
+  }
+}
+
+const buildOverride = (overrides: Partial<RateLimitOverride>): RateLimitOverride => ({
+  id: 'override-1',
+  module: 'chat-messages',
+  targetType: 'role',
+  targetValue: 'USER',
+  maxRequests: null,
+  windowMs: null,
+  blockMs: null,
+  exempt: false,
+  reason: null,
+  expiresAt: null,
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+})
+
+describe('OverrideService', () => {
+  let service: OverrideService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new OverrideService(mockPrisma as any)
+    mockPrisma.user.findUnique.mockResolvedValue({
+      role: { code: 'USER' },
+      ownedAccounts: [{ tariffPlan: { code: 'PRO' } }]
+    })
+  })
+
+  it('prefers allowlist entries over tariff and role overrides', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      buildOverride({ id: 'role', targetType: 'role', targetValue: 'USER', maxRequests: 50 }),
+      buildOverride({ id: 'tariff', targetType: 'tariff', targetValue: 'PRO', maxRequests: 500 }),
+      buildOverride({ id: 'cidr', module: 'all', targetType: 'cidr', targetValue: '10.0.0.0/8', exempt: true })
+    ])
+
+    const result = await service.resolve('chat-messages', { userId: 'user-1', ipAddress: '10.1.2.3' })
+
+    expect(result?.id).toBe('cidr')
+  })
+
+  it('uses the tariff of the current account before the role', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      buildOverride({ id: 'role', targetType: 'role', targetValue: 'USER', maxRequests: 50 }),
+      buildOverride({ id: 'tariff', targetType: 'tariff', targetValue: 'PRO', maxRequests: 500 })
+    ])
+
+    const result = await service.resolve('chat-messages', { userId: 'user-1', ipAddress: '192.168.0.1' })
+
+    expect(result?.id).toBe('tariff')
+  })
+
+  it('prefers a module-specific override over one for all modules', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      buildOverride({ id: 'all', module: 'all', targetType: 'user', targetValue: 'user-1', exempt: true }),
+      buildOverride({ id: 'module', targetType: 'user', targetValue: 'user-1', maxRequests: 10 })
+    ])
+
+    const result = await service.resolve('chat-messages', { userId: 'user-1' })
+
+    expect(result?.id).toBe('module')
+  })
+
+  it('skips the user lookup when only allowlist entries exist and ignores other modules', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      buildOverride({ module: 'upload', targetType: 'ip', targetValue: '192.168.0.1', exempt: true }),
+      buildOverride({ targetType: 'ip', targetValue: '192.168.0.2', exempt: true })
+    ])
+
+    const result = await service.resolve('chat-messages', { userId: 'user-1', ipAddress: '192.168.0.1' })
+
+    expect(result).toBeNull()
+    expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('ignores expired overrides and caches the active list', async () => {
+    const now = new Date('2026-10-19T12:00:00Z')
+
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      buildOverride({ targetType: 'user', targetValue: 'user-1', exempt: true, expiresAt: new Date('2026-10-19T11:00:00Z') })
+    ])
+
+    expect(await service.resolve('chat-messages', { userId: 'user-1' }, now)).toBeNull()
+    expect(await service.resolve('chat-messages', { userId: 'user-1' }, now)).toBeNull()
+    expect(mockPrisma.rateLimitOverride.findMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('normalizes CIDR and tier codes on create', async () => {
+    mockPrisma.rateLimitOverride.create.mockImplementation(async ({ data }) => buildOverride(data))
+
+    await service.create({ module: 'all', targetType: 'cidr', targetValue: ' 10.1.2.3/8 ', exempt: true })
+    await service.create({ module: 'all', targetType: 'tariff', targetValue: 'enterprise', maxRequests: 1000 })
+
+    expect(mockPrisma.rateLimitOverride.create.mock.calls[0][0].data.targetValue).toBe('10.0.0.0/8')
+    expect(mockPrisma.rateLimitOverride.create.mock.calls[1][0].data.targetValue).toBe('ENTERPRISE')
+  })
+
+  it('applies only the limits set on the override', () => {
+    const config: RateLimitConfig = { maxRequests: 10, windowMs: 60000, blockMs: 300000, isActive: true, mode: 'enforce' }
+
+    expect(applyRateLimitOverride(config, buildOverride({ maxRequests: 100 }))).toEqual({
+      ...config,
+      maxRequests: 100
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { PolicySimulator } from '@/lib/rate-limit/services/PolicySimulator'
+import type { RateLimitConfig } from '@/lib/rate-limit/types'
+
+const mockPrisma = {
+  event: {
+    findMany: vi.fn()
+  },
+  rateLimitEvent: {
+    findMany: vi.fn()
+  },
+  user: {
+    findMany: vi.fn()
+  },
+  rateLimitState: {
+    update: vi.fn(),
+    upsert: vi.fn()
+  }
+}
+
+const currentConfig: RateLimitConfig = {
+  maxRequests: 10,
+  windowMs: 60_000,
+  blockMs: 300_000,
+  warnThreshold: 0,
+  mode: 'enforce'
+}
+
+const mockConfigService = {
+  getConfig: vi.fn(),
+  updateConfig: vi.fn(),
+  getAllConfigs: vi.fn(),
+  refreshConfigs: vi.fn()
+}
+
+const START = Date.UTC(2026, 9, 1, 12, 0, 0)
+
+const userEvents = (actorId: string, count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    key: null,
+    actorType: 'user',
+    actorId,
+    createdAt: new Date(START + index * 1000)
+  }))
+
+describe('PolicySimulator', () => {
+  let simulator: PolicySimulator
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    simulator = new PolicySimulator(mockPrisma as any, mockConfigService)
+    mockConfigService.getConfig.mockResolvedValue(currentConfig)
+    mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1', name: 'Heavy User', email: 'heavy@example.com' }])
+  })
+
+  it('compares the proposed config with the current one on recorded traffic', async () => {
+    mockPrisma.event.findMany.mockResolvedValue([...userEvents('user-1', 8), ...userEvents('user-2', 3)])
+    mockPrisma.rateLimitEvent.findMany.mockResolvedValue([])
+
+    const result = await simulator.simulate({
+      module: 'chat-messages',
+      config: { maxRequests: 5 },
+      from: new Date(START),
+      to: new Date(START + 3_600_000)
+    })
+
+    expect(result.traffic).toMatchObject({ keys: 2, requests: 11, eventRequests: 11, truncated: false })
+    expect(result.current.blockedKeys).toBe(0)
+    expect(result.proposed.blockedKeys).toBe(1)
+    expect(result.proposed.config.maxRequests).toBe(5)
+    expect(result.proposed.topAffected[0]).toMatchObject({
+      key: 'user-1',
+      userId: 'user-1',
+      blocks: 1,
+      rejectedRequests: 3,
+      user: { email: 'heavy@example.com' }
+    })
+    expect(result.comparison).toMatchObject({ newlyBlockedKeys: 1, noLongerBlockedKeys: 0, newlyBlockedSample: ['user-1'] })
+    expect(mockPrisma.event.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ module: 'chat-messages', source: { not: 'rate_limit' } })
+      })
+    )
+  })
+
+  it('replays rate limit events with their counters and never touches live state', async () => {
+    mockPrisma.event.findMany.mockResolvedValue([])
+    mockPrisma.rateLimitEvent.findMany.mockResolvedValue([
+      {
+        key: '203.0.113.7',
+        userId: null,
+        ipPrefix: '203.0.113.0/24',
+        count: 11,
+        windowStart: new Date(START),
+        createdAt: new Date(START + 30_000)
+      }
+    ])
+
+    const result = await simulator.simulate({
+      module: 'auth-login',
+      config: { maxRequests: 20 },
+      from: new Date(START),
+      to: new Date(START + 3_600_000),
+      eventModule: 'auth'
+    })
+
+    expect(result.traffic.reconstructedRequests).toBe(11)
+    expect(result.current.topAffected[0]).toMatchObject({ key: '203.0.113.7', ipPrefix: '203.0.113.0/24', blocks: 1 })
+    expect(result.comparison).toMatchObject({ newlyBlockedKeys: 0, noLongerBlockedKeys: 1, blockedKeysDelta: -1 })
+    expect(mockPrisma.event.findMany.mock.calls[0][0].where.module).toBe('auth')
+    expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    expect(mockPrisma.rateLimitState.update).not.toHaveBeenCalled()
+    expect(mockPrisma.rateLimitState.upsert).not.toHaveBeenCalled()
+  })
+})
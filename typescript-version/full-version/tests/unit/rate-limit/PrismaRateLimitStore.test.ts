@@ -41,6 +41,7 @@ describe('PrismaRateLimitStore', () => {
 
     mockPrisma = {
       $transaction: mockTransaction,
+      $queryRaw: vi.fn().mockResolvedValue([]),
       rateLimitState: {
         findUnique: vi.fn(),
         create: vi.fn(),
@@ -298,6 +299,61 @@ describe('PrismaRateLimitStore', () => {
     })
   })
 
+  describe('consume with algorithms', () => {
+    const slidingState = {
+      key: 'user-1',
+      module: 'test-module',
+      count: 0,
+      previousCount: 0,
+      windowStart: new Date(0),
+      windowEnd: new Date(60000),
+      blockedUntil: null,
+      tokens: null,
+      lastRefillAt: null,
+      requestLog: null
+    }
+
+    it('locks the state row before evaluating', async () => {
+      const params = createParams({ config: { ...baseConfig, algorithm: 'sliding-log' } })
+      mockPrisma.rateLimitState.findUnique.mockResolvedValue({ ...slidingState, requestLog: '[500]' })
+
+      const result = await store.consume(params)
+
+      expect(mockPrisma.rateLimitState.upsert).toHaveBeenCalled()
+      expect(mockPrisma.$queryRaw).toHaveBeenCalled()
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(3)
+      expect(mockPrisma.rateLimitState.update).toHaveBeenCalledWith({
+        where: { key_module: { key: 'user-1', module: 'test-module' } },
+        data: expect.objectContaining({ count: 2, requestLog: '[500,1000]' })
+      })
+    })
+
+    it('blocks and records an event when the token bucket is empty', async () => {
+      const params = createParams({ config: { ...baseConfig, algorithm: 'token-bucket', burst: 2, refillRate: 0.001 } })
+      mockPrisma.rateLimitState.findUnique.mockResolvedValue({ ...slidingState, tokens: 0, lastRefillAt: new Date(0) })
+
+      const result = await store.consume(params)
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedUntil).toBe(61_000)
+      expect(params.recordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'block', maxRequests: 2, createUserBlock: true })
+      )
+    })
+
+    it('returns blocked result while a block is active', async () => {
+      const params = createParams({ config: { ...baseConfig, algorithm: 'sliding-counter' } })
+      mockPrisma.rateLimitState.findUnique.mockResolvedValue({ ...slidingState, blockedUntil: new Date(30_000) })
+
+      const result = await store.consume(params)
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedUntil).toBe(30_000)
+      expect(mockPrisma.rateLimitState.update).not.toHaveBeenCalled()
+    })
+  })
+
   describe('resetCache', () => {
     it('does nothing (Prisma store has no cache)', async () => {
       await store.resetCache('user-1', 'test-module')
@@ -17,10 +17,18 @@ const mockEventService = {
 
 const mockPrisma = {
   userBlock: {
-    findFirst: vi.fn()
+    findFirst: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([])
   }
 }
 
+const mockAsnLookup = {
+  lookup: vi.fn(),
+  setDatabase: vi.fn(),
+  loadFromFile: vi.fn(),
+  getStatus: vi.fn()
+}
+
 const mockStore = {
   consume: vi.fn()
 }
@@ -35,7 +43,8 @@ describe('RateLimitEngine', () => {
       mockConfigService as any,
       mockStoreManager as any,
       mockEventService as any,
-      mockPrisma as any
+      mockPrisma as any,
+      mockAsnLookup as any
     )
   })
 
@@ -169,6 +178,87 @@ describe('RateLimitEngine', () => {
       })
     })
 
+    it('applies override limits and skips the store for exempt subjects', async () => {
+      const mockOverrideService = { resolve: vi.fn() }
+      const engineWithOverrides = new RateLimitEngine(
+        mockConfigService as any,
+        mockStoreManager as any,
+        mockEventService as any,
+        mockPrisma as any,
+        mockAsnLookup as any,
+        mockOverrideService as any
+      )
+
+      mockConfigService.getConfig.mockResolvedValue(baseConfig)
+      mockPrisma.userBlock.findFirst.mockResolvedValue(null)
+      mockStore.consume.mockResolvedValue({ allowed: true, remaining: 99, resetTime: Date.now() + 60000 })
+
+      mockOverrideService.resolve.mockResolvedValueOnce({ exempt: true, maxRequests: null, windowMs: null, blockMs: null })
+      const exemptResult = await engineWithOverrides.checkLimit('user-1', 'auth', { userId: 'user-1' })
+
+      expect(exemptResult.allowed).toBe(true)
+      expect(mockStore.consume).not.toHaveBeenCalled()
+
+      mockOverrideService.resolve.mockResolvedValueOnce({ exempt: false, maxRequests: 100, windowMs: null, blockMs: null })
+      await engineWithOverrides.checkLimit('user-1', 'auth', { userId: 'user-1', ipAddress: '10.0.0.1' })
+
+      expect(mockOverrideService.resolve).toHaveBeenLastCalledWith(
+        'auth',
+        { userId: 'user-1', ipAddress: '10.0.0.1' },
+        expect.any(Date)
+      )
+      expect(mockStore.consume).toHaveBeenCalledWith(
+        expect.objectContaining({ config: { ...baseConfig, maxRequests: 100 } })
+      )
+    })
+
+    it('escalates block duration for repeat offenders and persists the violation', async () => {
+      const escalationConfig: RateLimitConfig = {
+        ...baseConfig,
+        escalationLadder: [60000, 900000, 3600000],
+        escalationLookbackMs: 86400000,
+        escalationManualReview: true
+      }
+
+      mockConfigService.getConfig.mockResolvedValue(escalationConfig)
+      mockPrisma.userBlock.findFirst.mockResolvedValue(null)
+      mockPrisma.rateLimitState = {
+        findUnique: vi.fn().mockResolvedValue({ violationCount: 1, lastViolationAt: new Date(Date.now() - 600000) }),
+        upsert: vi.fn().mockResolvedValue({})
+      }
+      mockStore.consume.mockImplementation(async params => {
+        await params.recordEvent({
+          module: params.module,
+          key: params.key,
+          eventType: 'block',
+          mode: 'enforce',
+          count: 11,
+          maxRequests: 10,
+          windowStart: params.now,
+          windowEnd: params.now,
+          blockedUntil: new Date(params.now.getTime() + params.config.blockMs),
+          createUserBlock: true
+        })
+
+        return { allowed: false, remaining: 0, resetTime: params.now.getTime() }
+      })
+
+      await engine.checkLimit('user-1', 'auth', { userId: 'user-1' })
+
+      expect(mockStore.consume).toHaveBeenCalledWith(
+        expect.objectContaining({ config: { ...escalationConfig, blockMs: 900000 } })
+      )
+      expect(mockPrisma.rateLimitState.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key_module: { key: 'user-1', module: 'auth' } },
+          update: { violationCount: 2, lastViolationAt: expect.any(Date) }
+        })
+      )
+      expect(mockEventService.recordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'block', violationNumber: 2, manualReview: false })
+      )
+    })
+
     it('handles email and mail domain blocking', async () => {
       mockConfigService.getConfig.mockResolvedValue(baseConfig)
       mockPrisma.userBlock.findFirst.mockResolvedValue(null)
@@ -204,6 +294,67 @@ describe('RateLimitEngine', () => {
     })
   })
 
+  describe('range blocks', () => {
+    const baseConfig: RateLimitConfig = {
+      maxRequests: 10,
+      windowMs: 60000,
+      isActive: true,
+      mode: 'enforce'
+    }
+
+    beforeEach(() => {
+      mockConfigService.getConfig.mockResolvedValue(baseConfig)
+      mockPrisma.userBlock.findFirst.mockResolvedValue(null)
+      mockStore.consume.mockResolvedValue({ allowed: true, remaining: 9, resetTime: Date.now() + 60000 })
+    })
+
+    it('blocks IPv4 and IPv6 addresses inside an active CIDR block', async () => {
+      mockPrisma.userBlock.findMany.mockResolvedValueOnce([
+        { id: 'cidr-4', module: 'auth', unblockedAt: null, cidr: '203.0.113.0/24', asn: null },
+        { id: 'cidr-6', module: 'all', unblockedAt: null, cidr: '2001:db8::/32', asn: null }
+      ])
+
+      const ipv4 = await engine.checkLimit('203.0.113.77', 'auth', { keyType: 'ip', ipAddress: '203.0.113.77' })
+      const ipv6 = await engine.checkLimit('user-1', 'auth', { userId: 'user-1', ipAddress: '2001:db8:5::1' })
+      const outside = await engine.checkLimit('198.51.100.1', 'auth', { keyType: 'ip', ipAddress: '198.51.100.1' })
+
+      expect(ipv4.allowed).toBe(false)
+      expect(ipv6.allowed).toBe(false)
+      expect(outside.allowed).toBe(true)
+      expect(mockPrisma.userBlock.findMany).toHaveBeenCalledTimes(1) // диапазоны кэшируются
+    })
+
+    it('ignores CIDR blocks for other modules', async () => {
+      mockPrisma.userBlock.findMany.mockResolvedValueOnce([
+        { id: 'cidr-chat', module: 'chat', unblockedAt: null, cidr: '203.0.113.0/24', asn: null }
+      ])
+
+      const result = await engine.checkLimit('203.0.113.77', 'auth', { keyType: 'ip', ipAddress: '203.0.113.77' })
+
+      expect(result.allowed).toBe(true)
+    })
+
+    it('blocks addresses whose ASN is blocked', async () => {
+      const unblockedAt = new Date(Date.now() + 3600000)
+      mockPrisma.userBlock.findMany.mockResolvedValueOnce([
+        { id: 'asn-1', module: 'auth', unblockedAt, cidr: null, asn: '64500' }
+      ])
+      mockAsnLookup.lookup.mockResolvedValue({ asn: 'AS64500', organization: 'Example', network: '192.0.2.0/24' })
+
+      const result = await engine.checkLimit('192.0.2.10', 'auth', { keyType: 'ip', ipAddress: '192.0.2.10' })
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedUntil).toBe(unblockedAt.getTime())
+      expect(mockAsnLookup.lookup).toHaveBeenCalledWith('192.0.2.10')
+    })
+
+    it('skips range lookups when no IP is provided', async () => {
+      await engine.checkLimit('user-1', 'auth', { userId: 'user-1' })
+
+      expect(mockPrisma.userBlock.findMany).not.toHaveBeenCalled()
+    })
+  })
+
   describe('resetLimits', () => {
     it('resets limits for specific key and module', async () => {
       mockPrisma.rateLimitState = {
@@ -218,7 +369,16 @@ describe('RateLimitEngine', () => {
       expect(result).toBe(true)
       expect(mockPrisma.rateLimitState.updateMany).toHaveBeenCalledWith({
         where: { key: 'user-1', module: 'auth' },
-        data: { count: 0, blockedUntil: null }
+        data: {
+          count: 0,
+          blockedUntil: null,
+          previousCount: 0,
+          tokens: null,
+          lastRefillAt: null,
+          requestLog: null,
+          violationCount: 0,
+          lastViolationAt: null
+        }
       })
       expect(mockPrisma.userBlock.updateMany).toHaveBeenCalledWith({
         where: {
@@ -247,7 +407,16 @@ describe('RateLimitEngine', () => {
       expect(result).toBe(true)
       expect(mockPrisma.rateLimitState.updateMany).toHaveBeenCalledWith({
         where: undefined,
-        data: { count: 0, blockedUntil: null }
+        data: {
+          count: 0,
+          blockedUntil: null,
+          previousCount: 0,
+          tokens: null,
+          lastRefillAt: null,
+          requestLog: null,
+          violationCount: 0,
+          lastViolationAt: null
+        }
       })
       expect(mockStore.clearCacheCompletely).toHaveBeenCalledWith(undefined, undefined)
     })
@@ -66,7 +66,8 @@ describe('RedisRateLimitStore', () => {
       psetex: vi.fn().mockResolvedValue('OK'),
       del: vi.fn().mockResolvedValue(1),
       scan: vi.fn().mockResolvedValue(['0', []]),
-      set: vi.fn().mockResolvedValue('OK')
+      set: vi.fn().mockResolvedValue('OK'),
+      eval: vi.fn()
     }
 
     // Setup mock Redis constructor - must return the same instance
@@ -217,6 +218,80 @@ describe('RedisRateLimitStore', () => {
     })
   })
 
+  describe('consume with algorithms', () => {
+    it('evaluates sliding-log atomically via Lua script', async () => {
+      mockRedis.eval.mockResolvedValue([1, 2, 500])
+      const params = createParams({ config: { ...baseConfig, algorithm: 'sliding-log' } })
+
+      const result = await store.consume(params)
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.stringContaining('ZREMRANGEBYSCORE'),
+        1,
+        'materio:ratelimit:algo:test-module:user-1:log',
+        1000,
+        60_000,
+        5,
+        1,
+        expect.any(String)
+      )
+      expect(mockRedis.multi).not.toHaveBeenCalled()
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(2)
+      expect(result.resetTime).toBe(60_500)
+    })
+
+    it('blocks when sliding-counter rejects the request', async () => {
+      mockRedis.eval.mockResolvedValue([0, 5])
+      const params = createParams({ config: { ...baseConfig, algorithm: 'sliding-counter' } })
+
+      const result = await store.consume(params)
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        'materio:ratelimit:algo:test-module:user-1:sc:0',
+        'materio:ratelimit:algo:test-module:user-1:sc:-1',
+        1000,
+        60_000,
+        5,
+        1,
+        0
+      )
+      expect(result.allowed).toBe(false)
+      expect(mockRedis.psetex).toHaveBeenCalledWith(
+        'materio:ratelimit:block:test-module:user-1',
+        60_000,
+        expect.any(String)
+      )
+      expect(params.recordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'block', count: 6, maxRequests: 5 })
+      )
+    })
+
+    it('uses burst as the token-bucket limit', async () => {
+      mockRedis.eval.mockResolvedValue([1, '9'])
+      const params = createParams({
+        config: { ...baseConfig, algorithm: 'token-bucket', burst: 10, refillRate: 2 },
+        warnThreshold: 0
+      })
+
+      const result = await store.consume(params)
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.stringContaining('HMGET'),
+        1,
+        'materio:ratelimit:algo:test-module:user-1:tb',
+        1000,
+        10,
+        0.002,
+        1
+      )
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(9)
+    })
+  })
+
   describe('resetCache', () => {
     it('deletes keys for specific key and module', async () => {
       mockRedis.scan.mockResolvedValue(['0', []]) // No keys found
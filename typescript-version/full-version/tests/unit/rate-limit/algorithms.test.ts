@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  evaluateSlidingCounter,
+  evaluateSlidingLog,
+  evaluateTokenBucket,
+  getBucketCapacity,
+  getRefillRatePerMs,
+  parseRequestLog
+} from '@/lib/rate-limit/stores/algorithms'
+import type { RateLimitConfig } from '@/lib/rate-limit/types'
+
+const baseConfig: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 60_000,
+  blockMs: 60_000,
+  isActive: true,
+  mode: 'enforce'
+}
+
+describe('rate limit algorithms', () => {
+  describe('sliding-log', () => {
+    it('drops timestamps older than the window and admits the request', () => {
+      const now = new Date(120_000)
+      const { decision, requestLog } = evaluateSlidingLog(
+        { requestLog: [10_000, 61_000, 70_000] },
+        now,
+        { ...baseConfig, algorithm: 'sliding-log' },
+        true
+      )
+
+      expect(decision.admitted).toBe(true)
+      expect(decision.count).toBe(3)
+      expect(requestLog).toEqual([61_000, 70_000, 120_000])
+      expect(decision.windowEnd.getTime()).toBe(121_000)
+    })
+
+    it('rejects without recording when the log is full', () => {
+      const now = new Date(60_500)
+      const log = [1_000, 2_000, 3_000, 4_000, 5_000]
+      const { decision, requestLog } = evaluateSlidingLog({ requestLog: log }, now, baseConfig, true)
+
+      expect(decision.admitted).toBe(false)
+      expect(decision.count).toBe(6)
+      expect(requestLog).toHaveLength(5)
+    })
+
+    it('prevents a 2x burst across a fixed window boundary', () => {
+      const config = { ...baseConfig, algorithm: 'sliding-log' as const }
+      let requestLog: number[] = []
+      let admitted = 0
+
+      // 5 requests at the end of one window, 5 more right after the boundary
+      for (const ts of [59_000, 59_100, 59_200, 59_300, 59_400, 60_100, 60_200, 60_300, 60_400, 60_500]) {
+        const evaluation = evaluateSlidingLog({ requestLog }, new Date(ts), config, true)
+
+        requestLog = evaluation.requestLog
+        if (evaluation.decision.admitted) admitted += 1
+      }
+
+      expect(admitted).toBe(5)
+    })
+  })
+
+  describe('sliding-counter', () => {
+    it('weights the previous window by its overlap', () => {
+      // 25% into the current window: previous window contributes 75%
+      const { decision } = evaluateSlidingCounter(
+        { count: 1, previousCount: 4, windowStart: new Date(60_000) },
+        new Date(75_000),
+        baseConfig,
+        false
+      )
+
+      expect(decision.count).toBe(4) // floor(4 * 0.75) + 1
+      expect(decision.admitted).toBe(true)
+    })
+
+    it('rolls the current count into previousCount on a new window', () => {
+      const result = evaluateSlidingCounter(
+        { count: 5, previousCount: 0, windowStart: new Date(0) },
+        new Date(60_000),
+        baseConfig,
+        true
+      )
+
+      expect(result.previousCount).toBe(5)
+      expect(result.decision.admitted).toBe(false)
+      expect(result.count).toBe(0)
+    })
+
+    it('forgets stale windows entirely', () => {
+      const result = evaluateSlidingCounter(
+        { count: 5, previousCount: 5, windowStart: new Date(0) },
+        new Date(300_000),
+        baseConfig,
+        true
+      )
+
+      expect(result.previousCount).toBe(0)
+      expect(result.count).toBe(1)
+      expect(result.decision.admitted).toBe(true)
+    })
+  })
+
+  describe('token-bucket', () => {
+    const config: RateLimitConfig = { ...baseConfig, algorithm: 'token-bucket', burst: 3, refillRate: 1 }
+
+    it('uses burst and refillRate when configured', () => {
+      expect(getBucketCapacity(config)).toBe(3)
+      expect(getRefillRatePerMs(config)).toBe(0.001)
+    })
+
+    it('falls back to maxRequests per window', () => {
+      expect(getBucketCapacity(baseConfig)).toBe(5)
+      expect(getRefillRatePerMs(baseConfig)).toBeCloseTo(5 / 60_000)
+    })
+
+    it('starts full and consumes one token per request', () => {
+      const { decision, tokens } = evaluateTokenBucket({ tokens: null, lastRefillAt: null }, new Date(0), config, true)
+
+      expect(decision.admitted).toBe(true)
+      expect(tokens).toBe(2)
+      expect(decision.count).toBe(1)
+    })
+
+    it('rejects when empty and refills over time', () => {
+      const empty = evaluateTokenBucket({ tokens: 0, lastRefillAt: new Date(0) }, new Date(500), config, true)
+
+      expect(empty.decision.admitted).toBe(false)
+      expect(empty.decision.count).toBe(4)
+
+      const refilled = evaluateTokenBucket({ tokens: 0, lastRefillAt: new Date(0) }, new Date(1_500), config, true)
+
+      expect(refilled.decision.admitted).toBe(true)
+      expect(refilled.tokens).toBeCloseTo(0.5)
+    })
+
+    it('never exceeds capacity', () => {
+      const { tokens } = evaluateTokenBucket({ tokens: 1, lastRefillAt: new Date(0) }, new Date(600_000), config, false)
+
+      expect(tokens).toBe(3)
+    })
+  })
+
+  describe('parseRequestLog', () => {
+    it('returns an empty log for invalid JSON', () => {
+      expect(parseRequestLog('not-json')).toEqual([])
+      expect(parseRequestLog(null)).toEqual([])
+      expect(parseRequestLog('[1,"x",2]')).toEqual([1, 2])
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  getEffectiveViolationCount,
+  getEscalationStep,
+  isEscalationEnabled,
+  parseEscalationLadder
+} from '@/lib/rate-limit/escalation'
+import type { RateLimitConfig } from '@/lib/rate-limit/types'
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+const baseConfig: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: MINUTE,
+  blockMs: 5 * MINUTE,
+  isActive: true,
+  mode: 'enforce'
+}
+
+const ladderConfig: RateLimitConfig = {
+  ...baseConfig,
+  escalationLadder: [MINUTE, 15 * MINUTE, HOUR, 24 * HOUR],
+  escalationLookbackMs: 7 * 24 * HOUR,
+  escalationDecayMs: 24 * HOUR,
+  escalationManualReview: true
+}
+
+describe('rate limit escalation', () => {
+  it('parses the stored ladder and ignores invalid steps', () => {
+    expect(parseEscalationLadder('[60000, "x", -1, 900000]')).toEqual([60_000, 900_000])
+    expect(parseEscalationLadder('[]')).toBeNull()
+    expect(parseEscalationLadder('not json')).toBeNull()
+    expect(parseEscalationLadder(null)).toBeNull()
+  })
+
+  it('is disabled without a ladder and falls back to the flat block duration', () => {
+    expect(isEscalationEnabled(baseConfig)).toBe(false)
+    expect(getEscalationStep(baseConfig, 3)).toEqual({ violationNumber: 4, blockMs: 5 * MINUTE, manualReview: false })
+  })
+
+  it('walks up the ladder and requires manual review once it is exhausted', () => {
+    expect(isEscalationEnabled(ladderConfig)).toBe(true)
+    expect(getEscalationStep(ladderConfig, 0).blockMs).toBe(MINUTE)
+    expect(getEscalationStep(ladderConfig, 2).blockMs).toBe(HOUR)
+    expect(getEscalationStep(ladderConfig, 3)).toEqual({ violationNumber: 4, blockMs: 24 * HOUR, manualReview: false })
+    expect(getEscalationStep(ladderConfig, 4)).toEqual({ violationNumber: 5, blockMs: 24 * HOUR, manualReview: true })
+  })
+
+  it('stays on the last step when manual review is disabled', () => {
+    const step = getEscalationStep({ ...ladderConfig, escalationManualReview: false }, 10)
+
+    expect(step).toEqual({ violationNumber: 11, blockMs: 24 * HOUR, manualReview: false })
+  })
+
+  it('decays one level per clean period and forgets violations outside the lookback', () => {
+    const lastViolationAt = new Date('2026-10-01T00:00:00Z')
+    const history = { violationCount: 3, lastViolationAt }
+    const after = (ms: number) => new Date(lastViolationAt.getTime() + ms)
+
+    expect(getEffectiveViolationCount(history, ladderConfig, after(HOUR))).toBe(3)
+    expect(getEffectiveViolationCount(history, ladderConfig, after(25 * HOUR))).toBe(2)
+    expect(getEffectiveViolationCount(history, ladderConfig, after(3 * 24 * HOUR))).toBe(0)
+    expect(getEffectiveViolationCount(history, { ...ladderConfig, escalationDecayMs: null }, after(6 * 24 * HOUR))).toBe(3)
+    expect(getEffectiveViolationCount(history, { ...ladderConfig, escalationDecayMs: null }, after(8 * 24 * HOUR))).toBe(0)
+    expect(getEffectiveViolationCount({ violationCount: 2, lastViolationAt: null }, ladderConfig, after(0))).toBe(0)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+
+import { describeCidr, ipInCidr, normalizeAsn, parseCidr, parseIp } from '@/lib/rate-limit/network/ip-range'
+import { RangeAsnDatabase } from '@/lib/rate-limit/network/asn-database'
+
+describe('ip-range', () => {
+  describe('parseIp', () => {
+    it('parses IPv4 and compressed IPv6 addresses', () => {
+      expect(parseIp('10.0.0.1')).toEqual({ version: 4, value: BigInt(0x0a000001) })
+      expect(parseIp('2001:db8::1')?.version).toBe(6)
+      expect(parseIp('::1')?.value).toBe(BigInt(1))
+    })
+
+    it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+      expect(parseIp('::ffff:192.168.0.1')).toEqual(parseIp('192.168.0.1'))
+    })
+
+    it('rejects malformed addresses', () => {
+      expect(parseIp('256.0.0.1')).toBeNull()
+      expect(parseIp('1.2.3')).toBeNull()
+      expect(parseIp('2001:db8::1::2')).toBeNull()
+      expect(parseIp('not-an-ip')).toBeNull()
+    })
+  })
+
+  describe('parseCidr', () => {
+    it('normalizes host bits and single addresses', () => {
+      expect(parseCidr('10.1.2.3/8')?.normalized).toBe('10.0.0.0/8')
+      expect(parseCidr('192.168.1.10')?.normalized).toBe('192.168.1.10/32')
+      expect(parseCidr('2001:db8:abcd:12::/48')?.normalized).toBe('2001:db8:abcd::/48')
+    })
+
+    it('rejects invalid prefixes', () => {
+      expect(parseCidr('10.0.0.0/33')).toBeNull()
+      expect(parseCidr('2001:db8::/129')).toBeNull()
+      expect(parseCidr('10.0.0.0/8/1')).toBeNull()
+    })
+  })
+
+  describe('ipInCidr', () => {
+    it('matches IPv4 and IPv6 ranges', () => {
+      expect(ipInCidr('10.200.3.4', '10.0.0.0/8')).toBe(true)
+      expect(ipInCidr('11.0.0.1', '10.0.0.0/8')).toBe(false)
+      expect(ipInCidr('2001:db8:1::5', '2001:db8::/32')).toBe(true)
+      expect(ipInCidr('2001:db9::5', '2001:db8::/32')).toBe(false)
+    })
+
+    it('never matches across address families', () => {
+      expect(ipInCidr('10.0.0.1', '::/0')).toBe(false)
+      expect(ipInCidr('::ffff:10.0.0.1', '10.0.0.0/8')).toBe(true)
+    })
+  })
+
+  it('describes range boundaries', () => {
+    expect(describeCidr('192.168.0.0/30')).toEqual({
+      cidr: '192.168.0.0/30',
+      version: 4,
+      firstAddress: '192.168.0.0',
+      lastAddress: '192.168.0.3',
+      addressCount: '4'
+    })
+  })
+
+  it('normalizes ASN values', () => {
+    expect(normalizeAsn('13335')).toBe('AS13335')
+    expect(normalizeAsn('as 15169')).toBe('AS15169')
+    expect(normalizeAsn(64512)).toBe('AS64512')
+    expect(normalizeAsn('ASX')).toBeNull()
+    expect(normalizeAsn('0')).toBeNull()
+  })
+})
+
+describe('RangeAsnDatabase', () => {
+  it('loads GeoLite2 CSV and looks up addresses', () => {
+    const database = RangeAsnDatabase.fromCsv(
+      [
+        'network,autonomous_system_number,autonomous_system_organization',
+        '1.1.1.0/24,13335,"Cloudflare, Inc."',
+        '8.8.8.0/24,15169,GOOGLE',
+        '2606:4700::/32,13335,"Cloudflare, Inc."'
+      ].join('\n')
+    )
+
+    expect(database.size).toBe(3)
+    expect(database.lookup('1.1.1.1')).toEqual({
+      asn: 'AS13335',
+      organization: 'Cloudflare, Inc.',
+      network: '1.1.1.0/24'
+    })
+    expect(database.lookup('2606:4700::1111')?.asn).toBe('AS13335')
+    expect(database.lookup('9.9.9.9')).toBeNull()
+  })
+
+  it('loads iptoasn TSV ranges', () => {
+    const database = RangeAsnDatabase.fromCsv(
+      ['8.8.4.0\t8.8.4.255\t15169\tUS\tGOOGLE', '10.0.0.0\t10.255.255.255\t0\tNone\tNot routed'].join('\n')
+    )
+
+    expect(database.size).toBe(1)
+    expect(database.lookup('8.8.4.4')).toEqual({
+      asn: 'AS15169',
+      organization: 'GOOGLE',
+      network: '8.8.4.0-8.8.4.255'
+    })
+    expect(database.lookup('10.1.1.1')).toBeNull()
+  })
+})
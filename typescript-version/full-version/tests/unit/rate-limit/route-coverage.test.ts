@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+
+import { analyzeRouteSource, toRoutePath } from '@/lib/rate-limit/http/route-coverage'
+
+describe('rate limit route coverage', () => {
+  it('reads module and key from withRateLimit declarations', () => {
+    const source = `
+async function createListing(request: NextRequest) {}
+
+export const POST = withRateLimit(
+  { module: 'ads', key: 'user', message: 'Ad rate limit exceeded.' },
+  createListing
+)
+
+export const PUT = withRateLimit({ module: 'upload', key: resolveUploadKey }, updateListing)
+`
+
+    expect(analyzeRouteSource(source)).toEqual([
+      { method: 'POST', status: 'declared', module: 'ads', key: 'user' },
+      { method: 'PUT', status: 'declared', module: 'upload', key: 'custom' }
+    ])
+  })
+
+  it('attributes direct checkLimit calls to the handler that makes them', () => {
+    const source = `
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ items: [] })
+}
+
+export async function POST(request: NextRequest) {
+  const result = await rateLimitService.checkLimit(user.id, 'chat-messages', { increment: true })
+}
+`
+
+    expect(analyzeRouteSource(source)).toEqual([
+      { method: 'GET', status: 'none', module: null, key: null },
+      { method: 'POST', status: 'manual', module: 'chat-messages', key: null }
+    ])
+  })
+
+  it('keeps re-exported handlers for resolution and builds route paths', () => {
+    expect(analyzeRouteSource("export { POST } from '@/app/api/listings/route'")).toEqual([
+      { method: 'POST', status: 'none', module: null, key: null, reexportFrom: '@/app/api/listings/route' }
+    ])
+    expect(toRoutePath('/app/src/app/api', '/app/src/app/api/(public)/export/[entity]/route.ts')).toBe('/api/export/[entity]')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+
+import { buildReplayTraffic, replayTraffic } from '@/lib/rate-limit/simulation'
+import type { RateLimitConfig } from '@/lib/rate-limit/types'
+
+const MINUTE = 60_000
+const START = Date.UTC(2026, 9, 1, 12, 0, 0)
+
+const config: RateLimitConfig = {
+  maxRequests: 3,
+  windowMs: MINUTE,
+  blockMs: 5 * MINUTE,
+  warnThreshold: 1,
+  mode: 'enforce'
+}
+
+const burst = (key: string, count: number, from = START, stepMs = 1000) =>
+  Array.from({ length: count }, (_, index) => ({ key, timestamp: from + index * stepMs }))
+
+describe('rate limit policy simulation', () => {
+  it('warns and blocks keys in a fixed window and rejects requests during the block', () => {
+    const [outcome] = replayTraffic(burst('user-1', 6), config)
+
+    expect(outcome).toMatchObject({ key: 'user-1', requests: 6, warnings: 1, blocks: 1, rejectedRequests: 3 })
+    expect(outcome.firstBlockedAt).toBe(START + 3000)
+  })
+
+  it('compares the same traffic against a looser limit', () => {
+    const traffic = [...burst('user-1', 6), ...burst('user-2', 2)]
+    const strict = replayTraffic(traffic, config)
+    const loose = replayTraffic(traffic, { ...config, maxRequests: 10 })
+
+    expect(strict.filter(outcome => outcome.blocks > 0).map(outcome => outcome.key)).toEqual(['user-1'])
+    expect(loose.every(outcome => outcome.blocks === 0)).toBe(true)
+  })
+
+  it('uses the escalation ladder for repeated violations', () => {
+    const ladderConfig = { ...config, blockMs: undefined, escalationLadder: [MINUTE, 10 * MINUTE] }
+    const traffic = [...burst('user-1', 4), ...burst('user-1', 4, START + 2 * MINUTE), ...burst('user-1', 4, START + 5 * MINUTE)]
+
+    const [outcome] = replayTraffic(traffic, ladderConfig)
+
+    // Вторая блокировка длится 10 минут, поэтому третья серия запросов целиком отклоняется
+    expect(outcome.blocks).toBe(2)
+    expect(outcome.rejectedRequests).toBe(6)
+  })
+
+  it('replays sliding-log traffic with the shared algorithm', () => {
+    const [outcome] = replayTraffic(burst('user-1', 4, START, 10_000), { ...config, algorithm: 'sliding-log', blockMs: 1 })
+
+    expect(outcome.blocks).toBe(1)
+  })
+
+  it('reconstructs requests missing from Event using recorded window counters', () => {
+    const windowStart = new Date(START)
+    const traffic = buildReplayTraffic(burst('user-1', 2), [
+      { key: 'user-1', count: 4, windowStart, createdAt: new Date(START + 10_000) },
+      { key: 'user-1', count: 5, windowStart, createdAt: new Date(START + 20_000) },
+      { key: '10.0.0.1', count: 3, windowStart, createdAt: new Date(START + 30_000) }
+    ])
+
+    expect(traffic.eventRequests).toBe(2)
+    expect(traffic.reconstructedRequests).toBe(6)
+    expect(traffic.requests.filter(request => request.key === 'user-1')).toHaveLength(5)
+    expect(traffic.requests.every(request => request.timestamp >= START && request.timestamp <= START + 30_000)).toBe(true)
+  })
+})
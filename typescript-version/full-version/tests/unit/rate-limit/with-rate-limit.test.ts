@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/utils/auth/auth', () => ({
+  requireAuth: vi.fn()
+}))
+
+vi.mock('@/utils/http/get-request-ip', () => ({
+  getRequestIp: vi.fn()
+}))
+
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimitService: {
+    checkLimit: vi.fn()
+  }
+}))
+
+vi.mock('@/services/accounts/AccountAccessService', () => ({
+  accountAccessService: {
+    getCurrentAccount: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/logger', () => ({
+  default: {
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}))
+
+import { requireAuth as mockRequireAuth } from '@/utils/auth/auth'
+import { getRequestIp as mockGetRequestIp } from '@/utils/http/get-request-ip'
+import { rateLimitService as mockRateLimitService } from '@/lib/rate-limit'
+import { accountAccessService as mockAccountAccessService } from '@/services/accounts/AccountAccessService'
+import { buildRateLimitHeaders, withRateLimit } from '@/lib/rate-limit/http/with-rate-limit'
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0)
+
+const makeRequest = () => new NextRequest('http://localhost/api/test', { method: 'POST' })
+
+const allowedResult = {
+  allowed: true,
+  remaining: 7,
+  resetTime: NOW + 42_000,
+  policy: { limit: 20, windowMs: 60_000 }
+}
+
+describe('withRateLimit', () => {
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+    ;(mockGetRequestIp as any).mockReturnValue('203.0.113.7')
+    ;(mockRequireAuth as any).mockResolvedValue({ user: { id: 'user-1', email: 'user@example.com' } })
+    ;(mockRateLimitService.checkLimit as any).mockResolvedValue(allowedResult)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('builds IETF RateLimit and RateLimit-Policy headers', () => {
+    expect(buildRateLimitHeaders('chat-messages', allowedResult, NOW)).toEqual({
+      RateLimit: '"chat-messages";r=7;t=42',
+      'RateLimit-Policy': '"chat-messages";q=20;w=60'
+    })
+  })
+
+  it('adds headers to the handler response', async () => {
+    const response = await withRateLimit({ module: 'ads', key: 'user' }, handler)(makeRequest(), {})
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('RateLimit')).toBe('"ads";r=7;t=42')
+    expect(response.headers.get('RateLimit-Policy')).toBe('"ads";q=20;w=60')
+    expect(mockRateLimitService.checkLimit).toHaveBeenCalledWith(
+      'user-1',
+      'ads',
+      expect.objectContaining({ increment: true, userId: 'user-1', keyType: 'user', ipAddress: '203.0.113.7' })
+    )
+  })
+
+  it('rejects with 429 without calling the handler', async () => {
+    ;(mockRateLimitService.checkLimit as any).mockResolvedValue({
+      allowed: false,
+      remaining: 0,
+      resetTime: NOW + 30_000,
+      blockedUntil: NOW + 120_000,
+      policy: { limit: 20, windowMs: 60_000 }
+    })
+
+    const response = await withRateLimit({ module: 'ads', key: 'user', message: 'Slow down' }, handler)(makeRequest(), {})
+    const body = await response.json()
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(response.status).toBe(429)
+    expect(body).toMatchObject({ error: 'Slow down', retryAfterSec: 120, blockedUntilMs: NOW + 120_000 })
+    expect(response.headers.get('Retry-After')).toBe('120')
+    expect(response.headers.get('RateLimit')).toBe('"ads";r=0;t=120')
+    expect(response.headers.get('X-RateLimit-Reset')).toBe(String(NOW + 120_000))
+  })
+
+  it('falls back to the IP for anonymous requests and skips the user strategy', async () => {
+    ;(mockRequireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+
+    await withRateLimit({ module: 'export', key: 'user-or-ip' }, handler)(makeRequest(), {})
+    await withRateLimit({ module: 'ads', key: 'user' }, handler)(makeRequest(), {})
+
+    expect(mockRateLimitService.checkLimit).toHaveBeenCalledTimes(1)
+    expect(mockRateLimitService.checkLimit).toHaveBeenCalledWith(
+      '203.0.113.7',
+      'export',
+      expect.objectContaining({ keyType: 'ip', userId: null })
+    )
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('keys account and custom strategies', async () => {
+    ;(mockAccountAccessService.getCurrentAccount as any).mockResolvedValue({ id: 'acc-1' })
+
+    await withRateLimit({ module: 'ads', key: 'account' }, handler)(makeRequest(), {})
+    await withRateLimit(
+      { module: 'upload', key: (_request, { ipAddress }) => ({ key: `upload:${ipAddress}`, keyType: 'ip', ipAddress }) },
+      handler
+    )(makeRequest(), {})
+
+    expect((mockRateLimitService.checkLimit as any).mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'account:acc-1',
+      'upload:203.0.113.7'
+    ])
+  })
+
+  it('fails open when the check throws', async () => {
+    ;(mockRateLimitService.checkLimit as any).mockRejectedValue(new Error('store down'))
+
+    const response = await withRateLimit({ module: 'ads', key: 'ip' }, handler)(makeRequest(), {})
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('RateLimit')).toBeNull()
+    expect(mockRequireAuth).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Unit тесты для ApiKeyService: создание, проверка ключа, пересечение scopes с ролью
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    apiKey: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    role: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+const eventServiceMock = vi.hoisted(() => ({ record: vi.fn() }))
+
+const accountAccessMock = vi.hoisted(() => ({
+  canManageAccount: vi.fn(),
+  canAccessAccount: vi.fn()
+}))
+
+vi.mock('@/services/events/EventService', () => ({ eventService: eventServiceMock }))
+vi.mock('@/services/accounts/AccountAccessService', () => ({ accountAccessService: accountAccessMock }))
+
+import { prisma } from '@/libs/prisma'
+import { hashValue } from '@/lib/config/encryption'
+import { apiKeyService } from '@/services/auth/ApiKeyService'
+import { checkPermission, isAdminOrHigher } from '@/utils/permissions/permissions'
+
+const mockPrisma = prisma as any
+
+const role = { id: 'role-1', code: 'ADMIN', name: 'Admin', permissions: '{"userManagement":["read","update"]}' }
+
+const owner = { id: 'user-1', role: { permissions: role.permissions } }
+
+const storedKey = (key: string, overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  name: 'CI deploy',
+  prefix: key.slice(0, 11),
+  keyHash: hashValue(key),
+  userId: 'user-1',
+  accountId: null,
+  scopes: '{"userManagement":["read"]}',
+  expiresAt: null,
+  lastUsedAt: null,
+  lastUsedIp: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  user: { id: 'user-1', email: 'admin@example.com', status: 'active', isActive: true, role },
+  ...overrides
+})
+
+const createKey = async (scopes: Record<string, string[]> | 'all' = { userManagement: ['read'] }) => {
+  mockPrisma.apiKey.create.mockImplementation(({ data }: any) =>
+    Promise.resolve({ ...storedKey('mk_00000000_x'), ...data, id: 'key-1' })
+  )
+
+  const result = await apiKeyService.create(owner, { name: 'CI deploy', scopes })
+
+  return result.key as string
+}
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.apiKey.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  describe('create', () => {
+    it('stores the prefix and hash, returns the full key once', async () => {
+      const key = await createKey()
+
+      expect(key).toMatch(/^mk_[A-Za-z0-9]{8}_[A-Za-z0-9_-]{43}$/)
+
+      const { data } = mockPrisma.apiKey.create.mock.calls[0][0]
+
+      expect(data.prefix).toBe(key.slice(0, 11))
+      expect(data.keyHash).toBe(hashValue(key))
+      expect(JSON.stringify(data)).not.toContain(key)
+      expect(eventServiceMock.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'api_key.created' }))
+    })
+
+    it('rejects scopes the role does not have', async () => {
+      const result = await apiKeyService.create(owner, {
+        name: 'Too wide',
+        scopes: { userManagement: ['delete'] }
+      })
+
+      expect(result).toEqual({ success: false, error: 'scope_not_allowed' })
+      expect(mockPrisma.apiKey.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects account keys for accounts the user does not manage', async () => {
+      accountAccessMock.canManageAccount.mockResolvedValue(false)
+
+      const result = await apiKeyService.create(owner, { name: 'Account key', scopes: 'all', accountId: 'acc-1' })
+
+      expect(result).toEqual({ success: false, error: 'account_forbidden' })
+    })
+  })
+
+  describe('authenticate', () => {
+    it('accepts a valid key and records usage', async () => {
+      const key = await createKey()
+
+      mockPrisma.apiKey.findUnique.mockResolvedValue(storedKey(key))
+
+      const principal = await apiKeyService.authenticate(key, '203.0.113.7')
+
+      expect(principal?.user.id).toBe('user-1')
+      expect(principal?.apiKey.scopes).toEqual({ userManagement: ['read'] })
+      expect(mockPrisma.apiKey.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: 'key-1' }),
+          data: expect.objectContaining({ lastUsedIp: '203.0.113.7' })
+        })
+      )
+    })
+
+    it('rejects a key with a wrong secret', async () => {
+      const key = await createKey()
+
+      mockPrisma.apiKey.findUnique.mockResolvedValue(storedKey(key))
+
+      const forged = `${key.slice(0, 12)}${'A'.repeat(43)}`
+
+      expect(await apiKeyService.authenticate(forged, null)).toBeNull()
+    })
+
+    it('rejects revoked and expired keys', async () => {
+      const key = await createKey()
+
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce(storedKey(key, { revokedAt: new Date() }))
+      expect(await apiKeyService.authenticate(key, null)).toBeNull()
+
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce(storedKey(key, { expiresAt: new Date(Date.now() - 1000) }))
+      expect(await apiKeyService.authenticate(key, null)).toBeNull()
+
+      expect(mockPrisma.apiKey.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('rejects keys of blocked users', async () => {
+      const key = await createKey()
+
+      mockPrisma.apiKey.findUnique.mockResolvedValue(
+        storedKey(key, { user: { id: 'user-1', status: 'blocked', isActive: true, role } })
+      )
+
+      expect(await apiKeyService.authenticate(key, null)).toBeNull()
+    })
+  })
+
+  describe('scopes', () => {
+    it('limits role permissions to the key scopes', () => {
+      const user = { id: 'user-1', role, apiKey: { id: 'key-1', scopes: { userManagement: ['read'] } } }
+
+      expect(checkPermission(user, 'userManagement', 'read')).toBe(true)
+      expect(checkPermission(user, 'userManagement', 'update')).toBe(false)
+      expect(isAdminOrHigher(user)).toBe(false)
+    })
+
+    it('keeps role code checks for unrestricted keys', () => {
+      const user = { id: 'user-1', role, apiKey: { id: 'key-1', scopes: 'all' as const } }
+
+      expect(checkPermission(user, 'userManagement', 'update')).toBe(true)
+      expect(isAdminOrHigher(user)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Unit тесты для ImpersonationService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn()
+    },
+    session: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}))
+
+const eventServiceMock = vi.hoisted(() => ({ record: vi.fn() }))
+const notifySessionsRevokedMock = vi.hoisted(() => vi.fn())
+
+vi.mock('@/services/events/EventService', () => ({ eventService: eventServiceMock }))
+
+vi.mock('@/lib/sockets/utils/session-revocation', () => ({
+  notifySessionsRevoked: notifySessionsRevokedMock
+}))
+
+import { prisma } from '@/libs/prisma'
+import { impersonationService, IMPERSONATION_TTL_MS } from '@/services/auth/ImpersonationService'
+
+const mockPrisma = prisma as any
+
+const metadata = { ipAddress: '10.0.0.1', userAgent: 'Vitest', deviceType: 'desktop', deviceName: 'Chrome on Linux' }
+
+const targetUser = {
+  id: 'u1',
+  email: 'user@example.com',
+  name: 'User',
+  status: 'active',
+  isActive: true,
+  role: { code: 'USER' }
+}
+
+const impersonationSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 'imp-session',
+  userId: 'u1',
+  impersonatorId: 'admin-1',
+  impersonatorSessionId: 'admin-session',
+  createdAt: new Date(),
+  ...overrides
+})
+
+describe('ImpersonationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue(targetUser)
+    mockPrisma.session.create.mockResolvedValue({ id: 'imp-session' })
+  })
+
+  describe('start', () => {
+    it('should create a session of the user linked to the admin and record the start', async () => {
+      const result = await impersonationService.start({
+        adminId: 'admin-1',
+        adminSessionId: 'admin-session',
+        targetUserId: 'u1',
+        metadata
+      })
+
+      expect(result).toMatchObject({ success: true, sessionId: 'imp-session', user: { id: 'u1' } })
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'u1',
+          impersonatorId: 'admin-1',
+          impersonatorSessionId: 'admin-session',
+          ...metadata
+        })
+      })
+      expect(eventServiceMock.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'impersonation.started',
+          actor: { type: 'user', id: 'admin-1' },
+          subject: { type: 'user', id: 'u1' }
+        })
+      )
+    })
+
+    it('should not allow impersonating yourself', async () => {
+      const result = await impersonationService.start({
+        adminId: 'u1',
+        adminSessionId: 'admin-session',
+        targetUserId: 'u1',
+        metadata
+      })
+
+      expect(result).toEqual({ success: false, error: 'self' })
+      expect(mockPrisma.session.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject superadmins, inactive and unknown users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...targetUser, role: { code: 'SUPERADMIN' } })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...targetUser, status: 'blocked' })
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+
+      const params = { adminId: 'admin-1', adminSessionId: 'admin-session', targetUserId: 'u1', metadata }
+
+      expect((await impersonationService.start(params)).error).toBe('target_superadmin')
+      expect((await impersonationService.start(params)).error).toBe('target_inactive')
+      expect((await impersonationService.start(params)).error).toBe('not_found')
+      expect(mockPrisma.session.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('stop', () => {
+    it('should delete the session and return the still valid admin session', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue({ id: 'admin-session' })
+
+      const result = await impersonationService.stop(impersonationSession(), 'manual')
+
+      expect(result).toEqual({ adminSessionId: 'admin-session' })
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: 'imp-session' } })
+      expect(notifySessionsRevokedMock).toHaveBeenCalledWith({ sessionIds: ['imp-session'] })
+      expect(mockPrisma.session.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: 'admin-session', userId: 'admin-1', twoFactorState: null })
+        })
+      )
+      expect(eventServiceMock.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'impersonation.stopped', payload: expect.objectContaining({ reason: 'manual' }) })
+      )
+    })
+
+    it('should not restore an admin session that no longer exists', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue(null)
+
+      const result = await impersonationService.stop(impersonationSession(), 'expired')
+
+      expect(result).toEqual({ adminSessionId: null })
+    })
+  })
+
+  describe('isExpired', () => {
+    it('should expire impersonation sessions after the TTL regardless of expiresAt', () => {
+      const fresh = impersonationSession()
+      const stale = impersonationSession({ createdAt: new Date(Date.now() - IMPERSONATION_TTL_MS - 1000) })
+
+      expect(impersonationService.isExpired(fresh)).toBe(false)
+      expect(impersonationService.isExpired(stale)).toBe(true)
+    })
+
+    it('should never expire regular sessions', () => {
+      const session = impersonationSession({ impersonatorId: null, createdAt: new Date(0) })
+
+      expect(impersonationService.isExpired(session)).toBe(false)
+    })
+  })
+
+  describe('recordBlockedAction', () => {
+    it('should record the blocked action on behalf of the admin', async () => {
+      await impersonationService.recordBlockedAction(impersonationSession(), 'password_change', '/api/user/change-password')
+
+      expect(eventServiceMock.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'impersonation.action_blocked',
+          actor: { type: 'user', id: 'admin-1' },
+          payload: expect.objectContaining({ action: 'password_change', path: '/api/user/change-password' })
+        })
+      )
+    })
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Unit тесты для OAuthService на локальном mock OIDC-провайдере
+ */
+
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest'
+
+import type { MockOidcServer } from '../../../helpers/mock-oidc-server'
+import { startMockOidcServer } from '../../../helpers/mock-oidc-server'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    oAuthProvider: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    },
+    account: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn(),
+      create: vi.fn()
+    },
+    role: {
+      findUnique: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/config/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => {
+    if (!value.startsWith('enc:')) throw new Error('Decryption failed')
+
+    return value.slice(4)
+  },
+  isEncryptionAvailable: () => true
+}))
+
+const eventServiceMock = vi.hoisted(() => ({ record: vi.fn() }))
+const settingsServiceMock = vi.hoisted(() => ({ getSettings: vi.fn() }))
+
+vi.mock('@/services/events/EventService', () => ({ eventService: eventServiceMock }))
+vi.mock('@/services/settings/RegistrationSettingsService', () => ({ registrationSettingsService: settingsServiceMock }))
+vi.mock('@/services/slug', () => ({ slugService: { generateUniqueSlug: vi.fn(async () => 'jane') } }))
+vi.mock('@/services/accounts', () => ({ accountService: { createAccount: vi.fn() } }))
+
+import { prisma } from '@/libs/prisma'
+import { oauthService } from '@/services/auth/OAuthService'
+
+const mockPrisma = prisma as any
+
+const janeClaims = { sub: 'sub-jane', email: 'Jane@Example.com', email_verified: true, name: 'Jane Doe' }
+
+describe('OAuthService', () => {
+  let server: MockOidcServer
+
+  const providerRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'provider-1',
+    slug: 'mock',
+    displayName: 'Mock IdP',
+    type: 'oidc',
+    issuer: server.issuer,
+    authorizationUrl: null,
+    tokenUrl: null,
+    userInfoUrl: null,
+    jwksUrl: null,
+    clientId: server.clientId,
+    clientSecret: `enc:${server.clientSecret}`,
+    scopes: 'openid email profile',
+    iconUrl: null,
+    enabled: true,
+    allowSignup: true,
+    claimMapping: '{}',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  })
+
+  // authorize -> «вход у провайдера» -> callback
+  const runFlow = async (
+    claims: Record<string, unknown>,
+    options: { mode?: 'login' | 'link'; userId?: string; nonce?: string; state?: string } = {}
+  ) => {
+    const mode = options.mode ?? 'login'
+    const request = await oauthService.createAuthorizationRequest('mock', { mode, userId: options.userId, redirectTo: '/en/home' })
+    const { code, state } = server.issueCode(request.url as string, claims, { nonce: options.nonce })
+
+    return oauthService.handleCallback('mock', { code, state: options.state ?? state }, request.stateCookie, options.userId ?? null)
+  }
+
+  beforeAll(async () => {
+    server = await startMockOidcServer()
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    server.tokenRequests.length = 0
+    mockPrisma.oAuthProvider.findUnique.mockResolvedValue(providerRow())
+    mockPrisma.account.findUnique.mockResolvedValue(null)
+    mockPrisma.account.findFirst.mockResolvedValue(null)
+    mockPrisma.user.findUnique.mockResolvedValue(null)
+    mockPrisma.role.findUnique.mockResolvedValue({ id: 'role-user', name: 'user' })
+    mockPrisma.user.create.mockResolvedValue({ id: 'new-user' })
+    settingsServiceMock.getSettings.mockResolvedValue({ requireEmailVerification: true })
+  })
+
+  describe('createAuthorizationRequest', () => {
+    it('should build a PKCE S256 authorization URL with state and nonce', async () => {
+      const result = await oauthService.createAuthorizationRequest('mock', { mode: 'login' })
+      const url = new URL(result.url as string)
+
+      expect(result.success).toBe(true)
+      expect(url.origin + url.pathname).toBe(`${server.issuer}/authorize`)
+      expect(url.searchParams.get('client_id')).toBe(server.clientId)
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/auth/oauth/mock/callback')
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+      expect(url.searchParams.get('nonce')).toBeTruthy()
+
+      // verifier остаётся только в зашифрованной cookie
+      const cookie = JSON.parse((result.stateCookie as string).slice(4))
+
+      expect(cookie.state).toBe(url.searchParams.get('state'))
+      expect(url.toString()).not.toContain(cookie.codeVerifier)
+    })
+
+    it('should reject unknown or disabled providers', async () => {
+      mockPrisma.oAuthProvider.findUnique.mockResolvedValueOnce(providerRow({ enabled: false }))
+
+      expect(await oauthService.createAuthorizationRequest('mock', { mode: 'login' })).toEqual({
+        success: false,
+        error: 'provider_not_found'
+      })
+    })
+  })
+
+  describe('handleCallback (login)', () => {
+    it('should create a user on first login and store encrypted tokens', async () => {
+      const result = await runFlow(janeClaims)
+
+      expect(result).toMatchObject({ success: true, userId: 'new-user', created: true, mode: 'login', redirectTo: '/en/home' })
+      expect(server.tokenRequests[0].get('code_verifier')).toBeTruthy()
+
+      const { data } = mockPrisma.user.create.mock.calls[0][0]
+
+      expect(data).toMatchObject({ email: 'jane@example.com', name: 'Jane Doe', username: 'jane', roleId: 'role-user' })
+      expect(data.emailVerified).toBeInstanceOf(Date)
+      expect(data.accounts.create).toMatchObject({ type: 'oidc', provider: 'mock', providerAccountId: 'sub-jane' })
+      expect(data.accounts.create.access_token).toMatch(/^enc:/)
+      expect(data.accounts.create.id_token).toMatch(/^enc:/)
+    })
+
+    it('should sign in the user of an already linked account', async () => {
+      mockPrisma.account.findUnique.mockResolvedValue({
+        id: 'acc-1',
+        user: { id: 'user-1', status: 'active', isActive: true }
+      })
+
+      const result = await runFlow(janeClaims)
+
+      expect(result).toMatchObject({ success: true, userId: 'user-1', created: false })
+      expect(mockPrisma.user.create).not.toHaveBeenCalled()
+      expect(mockPrisma.account.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'acc-1' } }))
+    })
+
+    it('should not link an existing email automatically', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1' })
+
+      expect(await runFlow(janeClaims)).toMatchObject({ success: false, error: 'email_in_use' })
+      expect(mockPrisma.user.create).not.toHaveBeenCalled()
+    })
+
+    it('should honour registration settings and provider sign-up flag', async () => {
+      expect(await runFlow({ ...janeClaims, email_verified: false })).toMatchObject({ error: 'email_not_verified' })
+
+      settingsServiceMock.getSettings.mockResolvedValue({ requireEmailVerification: false })
+
+      const unverified = await runFlow({ ...janeClaims, email_verified: false })
+
+      expect(unverified).toMatchObject({ success: true, created: true })
+      expect(mockPrisma.user.create.mock.calls[0][0].data.emailVerified).toBeNull()
+
+      mockPrisma.oAuthProvider.findUnique.mockResolvedValue(providerRow({ allowSignup: false }))
+
+      expect(await runFlow(janeClaims)).toMatchObject({ error: 'signup_disabled' })
+    })
+
+    it('should reject a mismatched state before exchanging the code', async () => {
+      const result = await runFlow(janeClaims, { state: 'forged-state' })
+
+      expect(result).toMatchObject({ success: false, error: 'invalid_state' })
+      expect(server.tokenRequests).toHaveLength(0)
+    })
+
+    it('should reject an id_token with a foreign nonce', async () => {
+      expect(await runFlow(janeClaims, { nonce: 'replayed-nonce' })).toMatchObject({ success: false, error: 'provider_error' })
+    })
+
+    it('should refetch JWKS after key rotation', async () => {
+      await runFlow(janeClaims)
+      server.rotateKeys()
+
+      expect(await runFlow(janeClaims)).toMatchObject({ success: true })
+    })
+  })
+
+  describe('handleCallback (link)', () => {
+    it('should link the provider account to the current user', async () => {
+      const result = await runFlow(janeClaims, { mode: 'link', userId: 'user-1' })
+
+      expect(result).toMatchObject({ success: true, mode: 'link', userId: 'user-1' })
+      expect(mockPrisma.account.upsert.mock.calls[0][0].create).toMatchObject({
+        userId: 'user-1',
+        provider: 'mock',
+        providerAccountId: 'sub-jane'
+      })
+      expect(eventServiceMock.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'oauth.linked' }))
+    })
+
+    it('should refuse accounts linked to another user', async () => {
+      mockPrisma.account.findUnique.mockResolvedValue({ id: 'acc-1', userId: 'user-2' })
+
+      const result = await runFlow(janeClaims, { mode: 'link', userId: 'user-1' })
+
+      expect(result).toMatchObject({ success: false, error: 'linked_to_another_user' })
+      expect(mockPrisma.account.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unlinkAccount', () => {
+    it('should keep the last sign-in method of a user without email or phone', async () => {
+      mockPrisma.account.findFirst.mockResolvedValue({ id: 'acc-1', provider: 'mock' })
+      mockPrisma.account.count.mockResolvedValue(1)
+      mockPrisma.user.findUnique.mockResolvedValue({ email: null, phone: null })
+
+      expect(await oauthService.unlinkAccount('user-1', 'acc-1')).toEqual({ success: false, error: 'last_sign_in_method' })
+
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'jane@example.com', phone: null })
+
+      expect(await oauthService.unlinkAccount('user-1', 'acc-1')).toEqual({ success: true })
+      expect(mockPrisma.account.delete).toHaveBeenCalledWith({ where: { id: 'acc-1' } })
+    })
+  })
+})
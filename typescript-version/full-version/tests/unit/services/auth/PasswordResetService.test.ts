@@ -0,0 +1,160 @@
+/**
+ * Unit тесты для PasswordResetService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    verificationCode: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('@/libs/lucia', () => ({
+  lucia: { invalidateUserSessions: vi.fn() }
+}))
+
+vi.mock('@/lib/config/encryption', () => ({
+  hashValue: (value: string) => `hash:${value}`
+}))
+
+const notificationServiceMock = vi.hoisted(() => ({ send: vi.fn() }))
+
+vi.mock('@/services/notifications/NotificationService', () => ({
+  notificationService: notificationServiceMock
+}))
+
+import { prisma } from '@/libs/prisma'
+import { lucia } from '@/libs/lucia'
+import { passwordResetService, PASSWORD_RESET_CODE_TYPE } from '@/services/auth/PasswordResetService'
+
+const mockPrisma = prisma as any
+const mockLucia = lucia as any
+
+const activeUser = { id: 'u1', email: 'user@example.com', phone: '+79990000000', status: 'active' }
+
+const resetCode = (overrides: Record<string, unknown> = {}) => ({
+  id: 'code-1',
+  identifier: '+79990000000',
+  code: 'hash:123456',
+  type: PASSWORD_RESET_CODE_TYPE,
+  expires: new Date(Date.now() + 10 * 60 * 1000),
+  attempts: 0,
+  maxAttempts: 5,
+  verified: false,
+  userId: 'u1',
+  ...overrides
+})
+
+describe('PasswordResetService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue(activeUser)
+    mockPrisma.verificationCode.updateMany.mockResolvedValue({ count: 1 })
+    notificationServiceMock.send.mockResolvedValue({ success: true })
+  })
+
+  describe('requestReset', () => {
+    it('should store only a hash of the email token and send a reset link', async () => {
+      const result = await passwordResetService.requestReset({ email: 'user@example.com' })
+
+      expect(result).toEqual({ sent: true, userId: 'u1', channel: 'email' })
+
+      const { data } = mockPrisma.verificationCode.create.mock.calls[0][0]
+      const { content } = notificationServiceMock.send.mock.calls[0][0]
+      const token = content.match(/token=([a-f0-9]{64})/)[1]
+
+      expect(data).toMatchObject({ identifier: 'user@example.com', type: PASSWORD_RESET_CODE_TYPE, userId: 'u1' })
+      expect(data.code).toBe(`hash:${token}`)
+      expect(mockPrisma.verificationCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', type: PASSWORD_RESET_CODE_TYPE, verified: false }
+      })
+    })
+
+    it('should send a 6-digit SMS code for phone requests', async () => {
+      await passwordResetService.requestReset({ phone: '+79990000000' })
+
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'sms', to: '+79990000000', content: expect.stringMatching(/\d{6}/) })
+      )
+    })
+
+    it('should not issue a code for unknown or inactive users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...activeUser, status: 'blocked' })
+
+      expect(await passwordResetService.requestReset({ email: 'user@example.com' })).toEqual({
+        sent: false,
+        channel: 'email'
+      })
+      expect(mockPrisma.verificationCode.create).not.toHaveBeenCalled()
+      expect(notificationServiceMock.send).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resetPassword', () => {
+    it('should change the password, consume the code and invalidate all sessions', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(resetCode())
+
+      const result = await passwordResetService.resetPassword({
+        phone: '+79990000000',
+        code: '123456',
+        password: 'N3w-Passw0rd!'
+      })
+
+      expect(result).toEqual({ success: true, userId: 'u1' })
+      expect(mockPrisma.verificationCode.updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', verified: false },
+        data: { verified: true }
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { password: expect.not.stringMatching('N3w-Passw0rd!') }
+      })
+      expect(mockLucia.invalidateUserSessions).toHaveBeenCalledWith('u1')
+    })
+
+    it('should count failed SMS code attempts', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(resetCode())
+
+      const result = await passwordResetService.resetPassword({
+        phone: '+79990000000',
+        code: '000000',
+        password: 'N3w-Passw0rd!'
+      })
+
+      expect(result).toMatchObject({ success: false, userId: 'u1' })
+      expect(mockPrisma.verificationCode.update).toHaveBeenCalledWith({
+        where: { id: 'code-1' },
+        data: { attempts: { increment: 1 } }
+      })
+      expect(mockLucia.invalidateUserSessions).not.toHaveBeenCalled()
+    })
+
+    it('should reject expired, exhausted and already used codes', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(resetCode({ expires: new Date(Date.now() - 1000) }))
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(resetCode({ attempts: 5 }))
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(resetCode({ code: 'hash:token' }))
+      mockPrisma.verificationCode.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const input = { phone: '+79990000000', code: '123456', password: 'N3w-Passw0rd!' }
+
+      expect((await passwordResetService.resetPassword(input)).success).toBe(false)
+      expect((await passwordResetService.resetPassword(input)).success).toBe(false)
+      expect((await passwordResetService.resetPassword({ token: 'token', password: 'N3w-Passw0rd!' })).success).toBe(
+        false
+      )
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+})
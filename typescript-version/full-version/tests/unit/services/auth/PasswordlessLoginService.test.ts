@@ -0,0 +1,171 @@
+/**
+ * Unit тесты для PasswordlessLoginService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn()
+    },
+    verificationCode: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/config/encryption', () => ({
+  hashValue: (value: string) => `hash:${value}`
+}))
+
+const notificationServiceMock = vi.hoisted(() => ({ send: vi.fn() }))
+const registrationSettingsMock = vi.hoisted(() => ({ isPasswordlessEnabled: vi.fn(), getSettings: vi.fn() }))
+
+vi.mock('@/services/notifications/NotificationService', () => ({
+  notificationService: notificationServiceMock
+}))
+
+vi.mock('@/services/settings/RegistrationSettingsService', () => ({
+  registrationSettingsService: registrationSettingsMock
+}))
+
+import { prisma } from '@/libs/prisma'
+import { passwordlessLoginService, PASSWORDLESS_LOGIN_CODE_TYPE } from '@/services/auth/PasswordlessLoginService'
+
+const mockPrisma = prisma as any
+
+const activeUser = { id: 'u1', email: 'user@example.com', phone: '+79990000000', status: 'active', isActive: true }
+
+const loginCode = (overrides: Record<string, unknown> = {}) => ({
+  id: 'code-1',
+  identifier: '+79990000000',
+  code: 'hash:123456',
+  type: PASSWORDLESS_LOGIN_CODE_TYPE,
+  expires: new Date(Date.now() + 5 * 60 * 1000),
+  attempts: 0,
+  maxAttempts: 5,
+  verified: false,
+  userId: 'u1',
+  ...overrides
+})
+
+describe('PasswordlessLoginService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    registrationSettingsMock.isPasswordlessEnabled.mockResolvedValue(true)
+    mockPrisma.user.findUnique.mockResolvedValue(activeUser)
+    mockPrisma.verificationCode.updateMany.mockResolvedValue({ count: 1 })
+    notificationServiceMock.send.mockResolvedValue({ success: true })
+  })
+
+  describe('requestLogin', () => {
+    it('should store only a hash of the email token and send a sign-in link', async () => {
+      const result = await passwordlessLoginService.requestLogin({ email: 'user@example.com' })
+
+      expect(result).toEqual({ enabled: true, sent: true, userId: 'u1', channel: 'email' })
+
+      const { data } = mockPrisma.verificationCode.create.mock.calls[0][0]
+      const { content } = notificationServiceMock.send.mock.calls[0][0]
+      const token = content.match(/magicToken=([a-f0-9]{64})/)[1]
+
+      expect(data).toMatchObject({ identifier: 'user@example.com', type: PASSWORDLESS_LOGIN_CODE_TYPE, userId: 'u1' })
+      expect(data.code).toBe(`hash:${token}`)
+      expect(mockPrisma.verificationCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', type: PASSWORDLESS_LOGIN_CODE_TYPE, verified: false }
+      })
+    })
+
+    it('should send a 6-digit SMS code for phone requests', async () => {
+      await passwordlessLoginService.requestLogin({ phone: '+79990000000' })
+
+      const { channel, content } = notificationServiceMock.send.mock.calls[0][0]
+
+      expect(channel).toBe('sms')
+      expect(content).toMatch(/\d{6}/)
+    })
+
+    it('should not issue codes when the channel is disabled', async () => {
+      registrationSettingsMock.isPasswordlessEnabled.mockResolvedValue(false)
+
+      const result = await passwordlessLoginService.requestLogin({ phone: '+79990000000' })
+
+      expect(result).toEqual({ enabled: false, sent: false, channel: 'phone' })
+      expect(mockPrisma.verificationCode.create).not.toHaveBeenCalled()
+    })
+
+    it('should not issue codes for unknown or inactive users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...activeUser, isActive: false })
+
+      expect((await passwordlessLoginService.requestLogin({ email: 'user@example.com' })).sent).toBe(false)
+      expect((await passwordlessLoginService.requestLogin({ email: 'user@example.com' })).sent).toBe(false)
+      expect(notificationServiceMock.send).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('verifyLogin', () => {
+    it('should consume a valid SMS code and return the user', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(loginCode())
+
+      const result = await passwordlessLoginService.verifyLogin({ phone: '+79990000000', code: '123456' })
+
+      expect(result).toEqual({ success: true, userId: 'u1' })
+      expect(mockPrisma.verificationCode.updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', verified: false },
+        data: { verified: true }
+      })
+    })
+
+    it('should look up email tokens by hash', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(loginCode({ identifier: 'user@example.com' }))
+
+      const token = 'a'.repeat(64)
+      const result = await passwordlessLoginService.verifyLogin({ token })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.verificationCode.findFirst).toHaveBeenCalledWith({
+        where: { type: PASSWORDLESS_LOGIN_CODE_TYPE, code: `hash:${token}`, verified: false }
+      })
+    })
+
+    it('should count failed SMS code attempts', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(loginCode())
+
+      const result = await passwordlessLoginService.verifyLogin({ phone: '+79990000000', code: '000000' })
+
+      expect(result).toMatchObject({ success: false, userId: 'u1' })
+      expect(mockPrisma.verificationCode.update).toHaveBeenCalledWith({
+        where: { id: 'code-1' },
+        data: { attempts: { increment: 1 } }
+      })
+      expect(mockPrisma.verificationCode.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject expired, exhausted and already used codes', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(loginCode({ expires: new Date(Date.now() - 1000) }))
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(loginCode({ attempts: 5 }))
+      mockPrisma.verificationCode.findFirst.mockResolvedValueOnce(loginCode())
+      mockPrisma.verificationCode.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      for (let i = 0; i < 3; i++) {
+        const result = await passwordlessLoginService.verifyLogin({ phone: '+79990000000', code: '123456' })
+
+        expect(result.success).toBe(false)
+      }
+    })
+
+    it('should reject codes of users suspended after the code was sent', async () => {
+      mockPrisma.verificationCode.findFirst.mockResolvedValue(loginCode())
+      mockPrisma.user.findUnique.mockResolvedValue({ ...activeUser, status: 'blocked' })
+
+      const result = await passwordlessLoginService.verifyLogin({ phone: '+79990000000', code: '123456' })
+
+      expect(result.success).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * Unit тесты для SessionService: список и отзыв сессий, отключение сокетов
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    session: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/config', () => ({
+  serviceConfigResolver: {
+    getConfig: vi.fn().mockResolvedValue({ url: null })
+  }
+}))
+
+const eventServiceMock = vi.hoisted(() => ({ record: vi.fn() }))
+
+vi.mock('@/services/events/EventService', () => ({ eventService: eventServiceMock }))
+
+import { NextRequest } from 'next/server'
+
+import { prisma } from '@/libs/prisma'
+import { SESSION_ACTIVITY_THROTTLE_MS, sessionService } from '@/services/auth/SessionService'
+
+const mockPrisma = prisma as any
+
+const sessionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'lucia-1',
+  sessionToken: 'token-1',
+  userId: 'user-1',
+  expiresAt: new Date(Date.now() + 60_000),
+  twoFactorState: null,
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0',
+  deviceType: 'desktop',
+  deviceName: 'Chrome on Windows',
+  createdAt: new Date(),
+  lastActiveAt: new Date(),
+  ...overrides
+})
+
+const createSocket = (userId: string, sessionId: string) => ({
+  data: { user: { id: userId }, sessionId },
+  emit: vi.fn(),
+  disconnect: vi.fn()
+})
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    globalThis.io = undefined
+  })
+
+  it('should take device metadata from the request', () => {
+    const request = new NextRequest('http://localhost/api/auth/login', {
+      headers: {
+        'user-agent':
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        'x-forwarded-for': '203.0.113.7, 10.0.0.1'
+      }
+    })
+
+    expect(sessionService.getRequestMetadata(request)).toMatchObject({
+      ipAddress: '203.0.113.7',
+      deviceType: 'mobile',
+      deviceName: 'Safari on iOS'
+    })
+  })
+
+  it('should list sessions by token and never expose the Lucia session id', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionRow(), sessionRow({ id: 'lucia-2', sessionToken: 'token-2' })])
+
+    const sessions = await sessionService.listUserSessions('user-1', 'lucia-2')
+
+    expect(mockPrisma.session.findMany.mock.calls[0][0].where).toMatchObject({ userId: 'user-1', twoFactorState: null })
+    expect(sessions.map(session => [session.id, session.current])).toEqual([
+      ['token-1', false],
+      ['token-2', true]
+    ])
+    expect(JSON.stringify(sessions)).not.toContain('lucia-')
+  })
+
+  it('should revoke another session and disconnect only its sockets', async () => {
+    const revokedSocket = createSocket('user-1', 'lucia-1')
+    const currentSocket = createSocket('user-1', 'lucia-2')
+
+    globalThis.io = {
+      _nsps: new Map([['/chat', { sockets: new Map([['s1', revokedSocket], ['s2', currentSocket]]) }]])
+    } as any
+
+    mockPrisma.session.findFirst.mockResolvedValue({ id: 'lucia-1', deviceName: 'Chrome on Windows' })
+
+    expect(await sessionService.revokeSession('user-1', 'token-1', 'lucia-2')).toEqual({ success: true, revoked: 1 })
+    expect(mockPrisma.session.delete).toHaveBeenCalledWith({ where: { id: 'lucia-1' } })
+    expect(revokedSocket.emit).toHaveBeenCalledWith('sessionRevoked', { reason: 'session_revoked' })
+    expect(revokedSocket.disconnect).toHaveBeenCalledWith(true)
+    expect(currentSocket.disconnect).not.toHaveBeenCalled()
+    expect(eventServiceMock.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'session.revoked' }))
+  })
+
+  it('should refuse to revoke the current or a foreign session', async () => {
+    mockPrisma.session.findFirst.mockResolvedValueOnce({ id: 'lucia-2', deviceName: null })
+
+    expect(await sessionService.revokeSession('user-1', 'token-2', 'lucia-2')).toEqual({
+      success: false,
+      error: 'current_session'
+    })
+
+    mockPrisma.session.findFirst.mockResolvedValueOnce(null)
+
+    expect(await sessionService.revokeSession('user-1', 'token-of-user-2', 'lucia-2')).toEqual({
+      success: false,
+      error: 'not_found'
+    })
+    expect(mockPrisma.session.delete).not.toHaveBeenCalled()
+  })
+
+  it('should revoke all other sessions but keep the current one', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([{ id: 'lucia-1' }, { id: 'lucia-3' }])
+
+    expect(await sessionService.revokeOtherSessions('user-1', 'lucia-2')).toEqual({ success: true, revoked: 2 })
+    expect(mockPrisma.session.findMany.mock.calls[0][0].where).toEqual({ userId: 'user-1', id: { not: 'lucia-2' } })
+    expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['lucia-1', 'lucia-3'] } } })
+  })
+
+  it('should force logout a user and disconnect all of their sockets', async () => {
+    const userSocket = createSocket('user-1', 'lucia-1')
+    const otherUserSocket = createSocket('user-2', 'lucia-9')
+
+    globalThis.io = {
+      _nsps: new Map([['/notifications', { sockets: new Map([['s1', userSocket], ['s2', otherUserSocket]]) }]])
+    } as any
+
+    mockPrisma.session.deleteMany.mockResolvedValue({ count: 3 })
+
+    expect(await sessionService.revokeAllSessions('user-1', 'admin-1')).toEqual({ success: true, revoked: 3 })
+    expect(userSocket.disconnect).toHaveBeenCalledWith(true)
+    expect(otherUserSocket.disconnect).not.toHaveBeenCalled()
+    expect(eventServiceMock.record).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'session.force_logout', actor: { type: 'user', id: 'admin-1' } })
+    )
+  })
+
+  it('should throttle last activity updates', async () => {
+    await sessionService.touch('lucia-1', new Date())
+
+    expect(mockPrisma.session.updateMany).not.toHaveBeenCalled()
+
+    await sessionService.touch('lucia-1', new Date(Date.now() - SESSION_ACTIVITY_THROTTLE_MS - 1000))
+
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'lucia-1', lastActiveAt: { lt: expect.any(Date) } } })
+    )
+  })
+})
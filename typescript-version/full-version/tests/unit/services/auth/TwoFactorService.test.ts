@@ -0,0 +1,253 @@
+/**
+ * Unit тесты для TwoFactorService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    twoFactorRecoveryCode: {
+      count: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+      createMany: vi.fn()
+    },
+    session: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/config/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => value.replace(/^enc:/, ''),
+  hashValue: (value: string) => `hash:${value}`,
+  isEncryptionAvailable: () => true
+}))
+
+vi.mock('@/services/events/EventService', () => ({
+  eventService: { record: vi.fn() }
+}))
+
+vi.mock('@/services/settings/RegistrationSettingsService', () => ({
+  registrationSettingsService: { getSettings: vi.fn() }
+}))
+
+import { prisma } from '@/libs/prisma'
+import { eventService } from '@/services/events/EventService'
+import { registrationSettingsService } from '@/services/settings/RegistrationSettingsService'
+import { twoFactorService } from '@/services/auth/TwoFactorService'
+import { base32Encode, generateTotp, getTotpStep } from '@/utils/auth/totp'
+
+const mockPrisma = prisma as any
+const mockSettings = registrationSettingsService as any
+
+const SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TwoFactorService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockSettings.getSettings.mockResolvedValue({ twoFactorRequiredRoleLevel: null })
+  })
+
+  describe('isRequiredForRole', () => {
+    it('should not require 2FA when setting is empty', async () => {
+      expect(await twoFactorService.isRequiredForRole({ level: 0 })).toBe(false)
+    })
+
+    it('should require 2FA for roles at or above configured level', async () => {
+      mockSettings.getSettings.mockResolvedValue({ twoFactorRequiredRoleLevel: 20 })
+
+      expect(await twoFactorService.isRequiredForRole({ level: 0 })).toBe(true)
+      expect(await twoFactorService.isRequiredForRole({ level: 20 })).toBe(true)
+      expect(await twoFactorService.isRequiredForRole({ level: 100 })).toBe(false)
+      expect(await twoFactorService.isRequiredForRole(null)).toBe(false)
+    })
+  })
+
+  describe('startEnrollment', () => {
+    it('should store encrypted pending secret and return otpauth URI', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', email: 'user@example.com', twoFactorEnabledAt: null })
+
+      const result = await twoFactorService.startEnrollment('u1')
+
+      expect(result.success).toBe(true)
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { twoFactorPendingSecret: `enc:${result.secret}` }
+      })
+    })
+
+    it('should refuse when 2FA is already enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', twoFactorEnabledAt: new Date() })
+
+      const result = await twoFactorService.startEnrollment('u1')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('confirmEnrollment', () => {
+    it('should enable 2FA and issue hashed recovery codes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'u1',
+        twoFactorEnabledAt: null,
+        twoFactorPendingSecret: `enc:${SECRET}`
+      })
+
+      const result = await twoFactorService.confirmEnrollment('u1', generateTotp(SECRET))
+
+      expect(result.success).toBe(true)
+      expect(result.recoveryCodes).toHaveLength(10)
+      expect(result.recoveryCodes![0]).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ twoFactorSecret: `enc:${SECRET}`, twoFactorPendingSecret: null })
+        })
+      )
+
+      const stored = mockPrisma.twoFactorRecoveryCode.createMany.mock.calls[0][0].data
+
+      expect(stored[0].codeHash).toBe(`hash:${result.recoveryCodes![0].replace('-', '')}`)
+      expect(eventService.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'two_factor.enabled' }))
+    })
+
+    it('should reject wrong code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'u1',
+        twoFactorEnabledAt: null,
+        twoFactorPendingSecret: `enc:${SECRET}`
+      })
+
+      const result = await twoFactorService.confirmEnrollment('u1', '000000')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('verifyCode', () => {
+    const enabledUser = {
+      id: 'u1',
+      twoFactorEnabledAt: new Date(),
+      twoFactorSecret: `enc:${SECRET}`,
+      twoFactorLastStep: null
+    }
+
+    it('should accept TOTP code and remember its step', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser)
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await twoFactorService.verifyCode('u1', generateTotp(SECRET))
+
+      expect(result).toEqual({ success: true, method: 'totp' })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'u1',
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: getTotpStep() } }]
+        },
+        data: { twoFactorLastStep: getTotpStep() }
+      })
+    })
+
+    it('should reject TOTP code already accepted by a concurrent request', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser)
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await twoFactorService.verifyCode('u1', generateTotp(SECRET))
+
+      expect(result).toEqual({ success: false, error: 'Неверный код' })
+    })
+
+    it('should reject TOTP code from already used step', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...enabledUser, twoFactorLastStep: getTotpStep() + 1 })
+      mockPrisma.twoFactorRecoveryCode.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await twoFactorService.verifyCode('u1', generateTotp(SECRET))
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should consume unused recovery code once', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser)
+      mockPrisma.twoFactorRecoveryCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      const first = await twoFactorService.verifyCode('u1', 'abcde-fghjk')
+      const second = await twoFactorService.verifyCode('u1', 'ABCDEFGHJK')
+
+      expect(first).toEqual({ success: true, method: 'recovery_code' })
+      expect(second.success).toBe(false)
+      expect(mockPrisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', codeHash: 'hash:ABCDEFGHJK', usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      })
+    })
+
+    it('should fail when 2FA is not enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', twoFactorEnabledAt: null })
+
+      const result = await twoFactorService.verifyCode('u1', '123456')
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('disable', () => {
+    it('should refuse when 2FA is required for role', async () => {
+      mockSettings.getSettings.mockResolvedValue({ twoFactorRequiredRoleLevel: 20 })
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', role: { level: 10 } })
+
+      const result = await twoFactorService.disable('u1', '123456')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reset', () => {
+    it('should clear 2FA data and record admin event', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'u1', twoFactorEnabledAt: new Date() })
+
+      const result = await twoFactorService.reset('u1', 'admin-1')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.$transaction).toHaveBeenCalled()
+      expect(eventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'two_factor.reset',
+          actor: { type: 'user', id: 'admin-1' },
+          subject: { type: 'user', id: 'u1' }
+        })
+      )
+    })
+  })
+
+  describe('getPendingSession', () => {
+    it('should ignore expired and regular sessions', async () => {
+      mockPrisma.session.findUnique.mockResolvedValueOnce({
+        id: 's1',
+        twoFactorState: 'verify',
+        expiresAt: new Date(Date.now() - 1000)
+      })
+      mockPrisma.session.findUnique.mockResolvedValueOnce({
+        id: 's2',
+        twoFactorState: null,
+        expiresAt: new Date(Date.now() + 60000)
+      })
+
+      expect(await twoFactorService.getPendingSession('token-1')).toBeNull()
+      expect(await twoFactorService.getPendingSession('token-2')).toBeNull()
+      expect(await twoFactorService.getPendingSession(undefined)).toBeNull()
+    })
+  })
+})
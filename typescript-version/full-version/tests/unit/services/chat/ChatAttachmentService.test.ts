@@ -0,0 +1,115 @@
+/**
+ * Unit тесты для ChatAttachmentService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    chatRoomMember: {
+      findUnique: vi.fn()
+    },
+    media: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+const storageServiceMock = vi.hoisted(() => ({ download: vi.fn() }))
+
+vi.mock('@/services/media', () => ({
+  getMediaService: vi.fn(),
+  getStorageService: async () => storageServiceMock
+}))
+
+import { prisma } from '@/libs/prisma'
+import { chatAttachmentService } from '@/services/chat'
+
+const mockPrisma = prisma as any
+
+const mediaRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'media-1',
+  filename: 'report.pdf',
+  mimeType: 'application/pdf',
+  size: 2048,
+  width: null,
+  height: null,
+  localPath: 'chat_attachment/2026/10/report.pdf',
+  s3Key: null,
+  variants: '{}',
+  entityType: 'chat_attachment',
+  uploadedBy: 'u1',
+  messageAttachment: null,
+  ...overrides
+})
+
+const attachedTo = (message: { roomId: string; deletedAt: Date | null }) => ({
+  messageAttachment: { messageId: 'msg-1', mediaId: 'media-1', message }
+})
+
+describe('ChatAttachmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.chatRoomMember.findUnique.mockResolvedValue({ id: 'member', roomId: 'room-1', userId: 'u2' })
+  })
+
+  describe('getAccessibleMedia', () => {
+    it('should give unattached upload only to its uploader', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(mediaRecord())
+
+      expect(await chatAttachmentService.getAccessibleMedia('media-1', 'u1')).toMatchObject({ id: 'media-1' })
+      expect(await chatAttachmentService.getAccessibleMedia('media-1', 'u2')).toBeNull()
+    })
+
+    it('should give attached media to room members', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(mediaRecord(attachedTo({ roomId: 'room-1', deletedAt: null })))
+
+      const media = await chatAttachmentService.getAccessibleMedia('media-1', 'u2')
+
+      expect(media).toMatchObject({ id: 'media-1' })
+      expect(media).not.toHaveProperty('messageAttachment')
+      expect(mockPrisma.chatRoomMember.findUnique).toHaveBeenCalled()
+    })
+
+    it('should hide attached media from non-members', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(mediaRecord(attachedTo({ roomId: 'room-1', deletedAt: null })))
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue(null)
+
+      expect(await chatAttachmentService.getAccessibleMedia('media-1', 'u1')).toBeNull()
+    })
+
+    it('should hide attachments of messages deleted for everyone', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(
+        mediaRecord(attachedTo({ roomId: 'room-1', deletedAt: new Date('2026-10-01T10:00:00Z') }))
+      )
+
+      expect(await chatAttachmentService.getAccessibleMedia('media-1', 'u2')).toBeNull()
+    })
+  })
+
+  describe('read', () => {
+    it('should download requested variant', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(
+        mediaRecord({
+          mimeType: 'image/webp',
+          variants: JSON.stringify({ thumb: { localPath: 'chat_attachment/thumb.webp', mimeType: 'image/webp' } })
+        })
+      )
+      storageServiceMock.download.mockResolvedValue(Buffer.from('thumb'))
+
+      const file = await chatAttachmentService.read('media-1', 'u1', 'thumb')
+
+      expect(storageServiceMock.download).toHaveBeenCalledWith(
+        expect.objectContaining({ localPath: 'chat_attachment/thumb.webp', s3Key: null })
+      )
+      expect(file).toEqual({ buffer: Buffer.from('thumb'), mimeType: 'image/webp', filename: 'report.pdf' })
+    })
+
+    it('should return null for unknown variant', async () => {
+      mockPrisma.media.findFirst.mockResolvedValue(mediaRecord())
+
+      expect(await chatAttachmentService.read('media-1', 'u1', 'thumb')).toBeNull()
+      expect(storageServiceMock.download).not.toHaveBeenCalled()
+    })
+  })
+})
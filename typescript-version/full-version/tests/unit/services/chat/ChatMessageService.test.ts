@@ -0,0 +1,403 @@
+/**
+ * Unit тесты для ChatMessageService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    chatRoomMember: {
+      findUnique: vi.fn()
+    },
+    message: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    messageEdit: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    messageReaction: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    messageDeletion: {
+      upsert: vi.fn()
+    },
+    media: {
+      count: vi.fn(),
+      updateMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+const mediaServiceMock = vi.hoisted(() => ({ delete: vi.fn() }))
+
+vi.mock('@/services/media', () => ({
+  getMediaService: () => mediaServiceMock,
+  getStorageService: vi.fn()
+}))
+
+import { prisma } from '@/libs/prisma'
+import { chatMessageService, MAX_REACTIONS_PER_USER } from '@/services/chat'
+
+const mockPrisma = prisma as any
+
+const createdAt = new Date('2026-10-01T10:00:00Z')
+
+const messageRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'msg-1',
+  content: 'Hello',
+  senderId: 'u1',
+  roomId: 'room-1',
+  readAt: null,
+  editedAt: null,
+  deletedAt: null,
+  deletedById: null,
+  replyToId: null,
+  createdAt,
+  updatedAt: createdAt,
+  sender: { id: 'u1', name: 'Alice', email: 'alice@example.com' },
+  replyTo: null,
+  reactions: [],
+  attachments: [],
+  ...overrides
+})
+
+describe('ChatMessageService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.chatRoomMember.findUnique.mockResolvedValue({ id: 'member', roomId: 'room-1', userId: 'u1' })
+    mockPrisma.$transaction.mockImplementation(async (operations: unknown[]) => Promise.all(operations))
+  })
+
+  describe('serialization', () => {
+    it('should group reactions by emoji and hide content of deleted reply target', async () => {
+      mockPrisma.message.findMany.mockResolvedValue([
+        messageRecord({
+          replyToId: 'msg-0',
+          replyTo: {
+            id: 'msg-0',
+            content: 'secret',
+            senderId: 'u2',
+            deletedAt: createdAt,
+            sender: { name: 'Bob', email: 'bob@example.com' }
+          },
+          reactions: [
+            { emoji: '👍', userId: 'u1' },
+            { emoji: '❤️', userId: 'u2' },
+            { emoji: '👍', userId: 'u2' }
+          ]
+        })
+      ])
+
+      const page = await chatMessageService.getRoomMessages('room-1', 'u1', { limit: 30 })
+
+      expect(page.nextCursor).toBeNull()
+      expect(page.messages[0].reactions).toEqual([
+        { emoji: '👍', count: 2, userIds: ['u1', 'u2'] },
+        { emoji: '❤️', count: 1, userIds: ['u2'] }
+      ])
+      expect(page.messages[0].replyTo).toEqual({
+        id: 'msg-0',
+        content: '',
+        senderId: 'u2',
+        senderName: 'Bob',
+        deleted: true
+      })
+    })
+
+    it('should exclude messages hidden by the viewer and return cursor of oldest message', async () => {
+      const newer = messageRecord({ id: 'msg-2', createdAt: new Date('2026-10-01T10:02:00Z') })
+      const older = messageRecord({ id: 'msg-1', createdAt: new Date('2026-10-01T10:01:00Z') })
+      const extra = messageRecord({ id: 'msg-0' })
+
+      mockPrisma.message.findMany.mockResolvedValue([newer, older, extra])
+
+      const page = await chatMessageService.getRoomMessages('room-1', 'u1', { limit: 2 })
+
+      expect(mockPrisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ deletions: { none: { userId: 'u1' } } }),
+          take: 3
+        })
+      )
+      expect(page.messages.map(message => message.id)).toEqual(['msg-1', 'msg-2'])
+      expect(page.nextCursor).toBe(older.createdAt.toISOString())
+    })
+  })
+
+  describe('getMessageContext', () => {
+    it('should return messages around the target in chronological order', async () => {
+      const target = messageRecord({ id: 'msg-5', createdAt: new Date('2026-10-01T10:05:00Z') })
+
+      mockPrisma.message.findFirst.mockResolvedValue(target)
+      mockPrisma.message.findMany
+        .mockResolvedValueOnce([
+          messageRecord({ id: 'msg-4', createdAt: new Date('2026-10-01T10:04:00Z') }),
+          messageRecord({ id: 'msg-3', createdAt: new Date('2026-10-01T10:03:00Z') })
+        ])
+        .mockResolvedValueOnce([messageRecord({ id: 'msg-6', createdAt: new Date('2026-10-01T10:06:00Z') })])
+
+      const context = await chatMessageService.getMessageContext('msg-5', 'u1', 1)
+
+      expect(context?.messages.map(message => message.id)).toEqual(['msg-4', 'msg-5', 'msg-6'])
+      expect(context?.nextCursor).toBe('2026-10-01T10:04:00.000Z')
+      expect(context?.hasNewer).toBe(false)
+    })
+
+    it('should hide messages of rooms the viewer is not a member of', async () => {
+      mockPrisma.message.findFirst.mockResolvedValue(messageRecord())
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue(null)
+
+      expect(await chatMessageService.getMessageContext('msg-1', 'u3', 20)).toBeNull()
+      expect(mockPrisma.message.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createMessage', () => {
+    it('should reject reply to a message from another room', async () => {
+      mockPrisma.message.findFirst.mockResolvedValue(null)
+
+      const result = await chatMessageService.createMessage({
+        roomId: 'room-1',
+        senderId: 'u1',
+        content: 'Hi',
+        replyToId: 'foreign'
+      })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('should create reply and return clientId', async () => {
+      mockPrisma.message.findFirst.mockResolvedValue({ id: 'msg-0' })
+      mockPrisma.message.create.mockResolvedValue(messageRecord({ replyToId: 'msg-0' }))
+
+      const result = await chatMessageService.createMessage({
+        roomId: 'room-1',
+        senderId: 'u1',
+        content: 'Hello',
+        replyToId: 'msg-0',
+        clientId: 'client-1'
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.message?.replyToId).toBe('msg-0')
+      expect(result.message?.clientId).toBe('client-1')
+    })
+
+    it('should require text or attachments', async () => {
+      const result = await chatMessageService.createMessage({ roomId: 'room-1', senderId: 'u1', content: '  ' })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject attachments uploaded by another user or already attached', async () => {
+      mockPrisma.media.count.mockResolvedValue(1)
+
+      const result = await chatMessageService.createMessage({
+        roomId: 'room-1',
+        senderId: 'u1',
+        content: '',
+        attachmentIds: ['media-1', 'media-2']
+      })
+
+      expect(mockPrisma.media.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          id: { in: ['media-1', 'media-2'] },
+          entityType: 'chat_attachment',
+          uploadedBy: 'u1',
+          messageAttachment: { is: null }
+        })
+      })
+      expect(result).toEqual({ success: false, error: 'Attachment not found or already used' })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('should attach media and return attachment urls', async () => {
+      mockPrisma.media.count.mockResolvedValue(1)
+      mockPrisma.message.create.mockResolvedValue(
+        messageRecord({
+          content: '',
+          attachments: [
+            {
+              media: {
+                id: 'media-1',
+                filename: 'photo.jpg',
+                mimeType: 'image/webp',
+                size: 1024,
+                width: 800,
+                height: 600,
+                variants: JSON.stringify({ thumb: { localPath: 'chat_attachment/thumb.webp' } })
+              }
+            }
+          ]
+        })
+      )
+
+      const result = await chatMessageService.createMessage({
+        roomId: 'room-1',
+        senderId: 'u1',
+        content: '',
+        attachmentIds: ['media-1', 'media-1']
+      })
+
+      expect(mockPrisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ attachments: { create: [{ mediaId: 'media-1', position: 0 }] } })
+        })
+      )
+      expect(mockPrisma.media.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['media-1'] } },
+        data: { entityId: 'msg-1' }
+      })
+      expect(result.message?.attachments).toEqual([
+        {
+          id: 'media-1',
+          filename: 'photo.jpg',
+          mimeType: 'image/webp',
+          size: 1024,
+          width: 800,
+          height: 600,
+          url: '/api/chat/attachments/media-1',
+          thumbUrl: '/api/chat/attachments/media-1?variant=thumb'
+        }
+      ])
+    })
+  })
+
+  describe('editMessage', () => {
+    it('should store previous content in edit history', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+      mockPrisma.message.update.mockResolvedValue(messageRecord({ content: 'Hello!', editedAt: createdAt }))
+
+      const result = await chatMessageService.editMessage('msg-1', 'u1', 'Hello!')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.messageEdit.create).toHaveBeenCalledWith({
+        data: { messageId: 'msg-1', content: 'Hello', editedById: 'u1' }
+      })
+      expect(result.message?.editedAt).toBe(createdAt.toISOString())
+    })
+
+    it('should not allow editing messages of other users', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord({ senderId: 'u2' }))
+
+      const result = await chatMessageService.editMessage('msg-1', 'u1', 'Hacked')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not allow editing deleted messages', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord({ deletedAt: createdAt, content: '' }))
+
+      const result = await chatMessageService.editMessage('msg-1', 'u1', 'Restored')
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should hide messages from non-members', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue(null)
+
+      const result = await chatMessageService.editMessage('msg-1', 'u1', 'Hello!')
+
+      expect(result).toEqual({ success: false, error: 'Message not found' })
+    })
+  })
+
+  describe('deleteMessage', () => {
+    it('should hide message only for the user with scope self', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord({ senderId: 'u2' }))
+      mockPrisma.messageDeletion.upsert.mockResolvedValue({ createdAt })
+
+      const result = await chatMessageService.deleteMessage('msg-1', 'u1', 'self')
+
+      expect(result).toEqual({ success: true, roomId: 'room-1', scope: 'self', deletedAt: createdAt })
+      expect(mockPrisma.message.update).not.toHaveBeenCalled()
+    })
+
+    it('should only let the sender delete for everyone', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord({ senderId: 'u2' }))
+
+      const result = await chatMessageService.deleteMessage('msg-1', 'u1', 'everyone')
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should wipe content, edit history and reactions when deleting for everyone', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+
+      const result = await chatMessageService.deleteMessage('msg-1', 'u1', 'everyone')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.message.update).toHaveBeenCalledWith({
+        where: { id: 'msg-1' },
+        data: expect.objectContaining({ content: '', deletedById: 'u1' })
+      })
+      expect(mockPrisma.messageEdit.deleteMany).toHaveBeenCalledWith({ where: { messageId: 'msg-1' } })
+      expect(mockPrisma.messageReaction.deleteMany).toHaveBeenCalledWith({ where: { messageId: 'msg-1' } })
+    })
+
+    it('should move attachments to media trash when deleting for everyone', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(
+        messageRecord({ attachments: [{ media: { id: 'media-1', variants: '{}' } }] })
+      )
+
+      const result = await chatMessageService.deleteMessage('msg-1', 'u1', 'everyone')
+
+      expect(result.success).toBe(true)
+      expect(mediaServiceMock.delete).toHaveBeenCalledWith('media-1')
+    })
+  })
+
+  describe('toggleReaction', () => {
+    it('should remove existing reaction', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+      mockPrisma.messageReaction.findUnique.mockResolvedValue({ id: 'reaction-1' })
+      mockPrisma.messageReaction.findMany.mockResolvedValue([])
+
+      const result = await chatMessageService.toggleReaction('msg-1', 'u1', '👍')
+
+      expect(mockPrisma.messageReaction.delete).toHaveBeenCalledWith({ where: { id: 'reaction-1' } })
+      expect(result).toEqual({ success: true, roomId: 'room-1', reactions: [] })
+    })
+
+    it('should add reaction and return grouped reactions', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+      mockPrisma.messageReaction.findUnique.mockResolvedValue(null)
+      mockPrisma.messageReaction.count.mockResolvedValue(0)
+      mockPrisma.messageReaction.findMany.mockResolvedValue([{ emoji: '👍', userId: 'u1' }])
+
+      const result = await chatMessageService.toggleReaction('msg-1', 'u1', '👍')
+
+      expect(mockPrisma.messageReaction.create).toHaveBeenCalledWith({
+        data: { messageId: 'msg-1', userId: 'u1', emoji: '👍' }
+      })
+      expect(result.reactions).toEqual([{ emoji: '👍', count: 1, userIds: ['u1'] }])
+    })
+
+    it('should limit reactions per user', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(messageRecord())
+      mockPrisma.messageReaction.findUnique.mockResolvedValue(null)
+      mockPrisma.messageReaction.count.mockResolvedValue(MAX_REACTIONS_PER_USER)
+
+      const result = await chatMessageService.toggleReaction('msg-1', 'u1', '🎉')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.messageReaction.create).not.toHaveBeenCalled()
+    })
+  })
+})
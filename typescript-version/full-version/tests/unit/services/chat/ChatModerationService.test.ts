@@ -0,0 +1,269 @@
+/**
+ * Unit тесты для ChatModerationService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    message: {
+      findUnique: vi.fn(),
+      count: vi.fn()
+    },
+    messageReport: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn()
+    },
+    userBlock: {
+      findFirst: vi.fn()
+    },
+    chatModerationSettings: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+const mocks = vi.hoisted(() => ({
+  record: vi.fn(),
+  send: vi.fn(),
+  createManualBlock: vi.fn(),
+  isMember: vi.fn(),
+  setHidden: vi.fn(),
+  deleteAsModerator: vi.fn()
+}))
+
+vi.mock('@/services/events/EventService', () => ({ eventService: { record: mocks.record } }))
+vi.mock('@/services/notifications/NotificationService', () => ({ notificationService: { send: mocks.send } }))
+vi.mock('@/lib/rate-limit', () => ({ rateLimitService: { createManualBlock: mocks.createManualBlock } }))
+vi.mock('@/services/chat/ChatRoomService', () => ({ chatRoomService: { isMember: mocks.isMember } }))
+vi.mock('@/services/chat/ChatMessageService', () => ({
+  chatMessageService: { setHidden: mocks.setHidden, deleteAsModerator: mocks.deleteAsModerator }
+}))
+
+import { prisma } from '@/libs/prisma'
+import {
+  ChatModerationService,
+  DEFAULT_CHAT_MODERATION_SETTINGS,
+  evaluateContent
+} from '@/services/chat/ChatModerationService'
+
+const mockPrisma = prisma as any
+
+const settings = (overrides: Partial<typeof DEFAULT_CHAT_MODERATION_SETTINGS> = {}) => ({
+  ...DEFAULT_CHAT_MODERATION_SETTINGS,
+  ...overrides
+})
+
+describe('evaluateContent', () => {
+  it('allows plain text with default settings', () => {
+    expect(evaluateContent('Привет, как дела?', settings())).toEqual({ action: 'allow', rules: [] })
+  })
+
+  it('matches banned words as whole words regardless of case', () => {
+    const rules = settings({ bannedWords: ['казино'] })
+
+    expect(evaluateContent('Лучшее КАЗИНО тут', rules)).toEqual({ action: 'block', rules: ['banned_words'] })
+    expect(evaluateContent('Казиноподобные игры', rules).action).toBe('allow')
+  })
+
+  it('detects links and phone numbers by their configured action', () => {
+    const rules = settings({ linkAction: 'flag', phoneAction: 'block' })
+
+    expect(evaluateContent('Смотри shop.example.com', rules)).toEqual({ action: 'flag', rules: ['link'] })
+    expect(evaluateContent('Звони +7 (999) 123-45-67', rules)).toEqual({ action: 'block', rules: ['phone'] })
+    expect(evaluateContent('Заказ 12345 готов', rules).action).toBe('allow')
+  })
+
+  it('picks the strictest action when several rules match', () => {
+    const verdict = evaluateContent(
+      'https://spam.io 89991234567',
+      settings({ linkAction: 'flag', phoneAction: 'block' })
+    )
+
+    expect(verdict).toEqual({ action: 'block', rules: ['link', 'phone'] })
+  })
+
+  it('blocks repeated messages once the spam limit is reached', () => {
+    expect(evaluateContent('hi', settings(), 2).action).toBe('allow')
+    expect(evaluateContent('hi', settings(), 3)).toEqual({ action: 'block', rules: ['spam'] })
+    expect(evaluateContent('hi', settings({ spamRepeatLimit: 0 }), 10).action).toBe('allow')
+  })
+})
+
+describe('ChatModerationService', () => {
+  let service: ChatModerationService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new ChatModerationService()
+    mockPrisma.userBlock.findFirst.mockResolvedValue(null)
+    mockPrisma.chatModerationSettings.findFirst.mockResolvedValue(null)
+    mockPrisma.message.count.mockResolvedValue(0)
+    mocks.isMember.mockResolvedValue(true)
+    mocks.send.mockResolvedValue({ success: true })
+  })
+
+  describe('screenMessage', () => {
+    const input = { senderId: 'u1', roomId: 'room-1', content: 'Hello' }
+
+    it('rejects muted users before running the filter', async () => {
+      const mutedUntil = new Date(Date.now() + 60_000)
+
+      mockPrisma.userBlock.findFirst.mockResolvedValue({ id: 'block-1', unblockedAt: mutedUntil })
+
+      const result = await service.screenMessage(input)
+
+      expect(result).toMatchObject({ allowed: false, code: 'muted', mutedUntil })
+      expect(mockPrisma.message.count).not.toHaveBeenCalled()
+    })
+
+    it('blocks filtered content and records an event', async () => {
+      mockPrisma.chatModerationSettings.findFirst.mockResolvedValue({
+        bannedWords: '["spam"]',
+        bannedWordsAction: 'block',
+        linkAction: 'allow',
+        phoneAction: 'allow',
+        spamRepeatLimit: 3,
+        spamWindowSeconds: 60,
+        updatedAt: new Date()
+      })
+
+      const result = await service.screenMessage({ ...input, content: 'buy spam now' })
+
+      expect(result).toMatchObject({ allowed: false, code: 'filtered', verdict: { rules: ['banned_words'] } })
+      expect(mocks.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'chat.message_filtered' }))
+    })
+
+    it('counts identical recent messages for the spam rule', async () => {
+      mockPrisma.message.count.mockResolvedValue(3)
+
+      const result = await service.screenMessage(input)
+
+      expect(result.allowed).toBe(false)
+      expect(mockPrisma.message.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ senderId: 'u1', content: 'Hello' })
+      })
+    })
+  })
+
+  describe('reportMessage', () => {
+    beforeEach(() => {
+      mockPrisma.message.findUnique.mockResolvedValue({
+        id: 'msg-1',
+        roomId: 'room-1',
+        senderId: 'u1',
+        deletedAt: null
+      })
+    })
+
+    it('does not allow reporting own messages', async () => {
+      const result = await service.reportMessage('msg-1', 'u1', { reason: 'spam' })
+
+      expect(result).toEqual({ success: false, error: 'own_message' })
+      expect(mockPrisma.messageReport.create).not.toHaveBeenCalled()
+    })
+
+    it('hides messages from non-members', async () => {
+      mocks.isMember.mockResolvedValue(false)
+
+      expect(await service.reportMessage('msg-1', 'u2', { reason: 'spam' })).toEqual({
+        success: false,
+        error: 'not_found'
+      })
+    })
+
+    it('returns the existing report instead of creating a duplicate', async () => {
+      mockPrisma.messageReport.findUnique.mockResolvedValue({ id: 'report-1' })
+
+      const result = await service.reportMessage('msg-1', 'u2', { reason: 'abuse' })
+
+      expect(result).toEqual({ success: true, reportId: 'report-1' })
+      expect(mockPrisma.messageReport.create).not.toHaveBeenCalled()
+    })
+
+    it('creates a report and records an event', async () => {
+      mockPrisma.messageReport.findUnique.mockResolvedValue(null)
+      mockPrisma.messageReport.create.mockResolvedValue({ id: 'report-2' })
+
+      const result = await service.reportMessage('msg-1', 'u2', { reason: 'abuse', details: 'rude' })
+
+      expect(result).toEqual({ success: true, reportId: 'report-2' })
+      expect(mockPrisma.messageReport.create).toHaveBeenCalledWith({
+        data: { messageId: 'msg-1', reporterId: 'u2', reason: 'abuse', details: 'rude' }
+      })
+      expect(mocks.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'chat.message_reported' }))
+    })
+  })
+
+  describe('moderate', () => {
+    beforeEach(() => {
+      mockPrisma.message.findUnique.mockResolvedValue({
+        id: 'msg-1',
+        roomId: 'room-1',
+        senderId: 'u1',
+        deletedAt: null
+      })
+    })
+
+    it('hides the message and resolves pending reports', async () => {
+      mocks.setHidden.mockResolvedValue({ success: true, message: { id: 'msg-1', hiddenAt: new Date() } })
+
+      const result = await service.moderate({ messageId: 'msg-1', moderatorId: 'mod', action: 'hide' })
+
+      expect(result).toMatchObject({ success: true, action: 'hide', roomId: 'room-1', message: { id: 'msg-1' } })
+      expect(mocks.setHidden).toHaveBeenCalledWith('msg-1', 'mod')
+      expect(mockPrisma.messageReport.updateMany).toHaveBeenCalledWith({
+        where: { messageId: 'msg-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'resolved', resolution: 'hide', resolvedById: 'mod' })
+      })
+    })
+
+    it('keeps reports pending when a message is unhidden', async () => {
+      mocks.setHidden.mockResolvedValue({ success: true, message: { id: 'msg-1', hiddenAt: null } })
+
+      await service.moderate({ messageId: 'msg-1', moderatorId: 'mod', action: 'unhide' })
+
+      expect(mocks.setHidden).toHaveBeenCalledWith('msg-1', null)
+      expect(mockPrisma.messageReport.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('mutes the sender in the chat module and notifies them', async () => {
+      const unblockedAt = new Date(Date.now() + 60 * 60 * 1000)
+
+      mocks.createManualBlock.mockResolvedValue({ id: 'block-1', unblockedAt })
+
+      const result = await service.moderate({
+        messageId: 'msg-1',
+        moderatorId: 'mod',
+        action: 'mute',
+        reason: 'flood',
+        durationMinutes: 60
+      })
+
+      expect(result.mutedUntil).toBe(unblockedAt)
+      expect(mocks.createManualBlock).toHaveBeenCalledWith(
+        expect.objectContaining({ module: 'chat', userId: 'u1', blockedBy: 'mod', durationMs: 60 * 60 * 1000 })
+      )
+      expect(mocks.send).toHaveBeenCalledWith(expect.objectContaining({ channel: 'browser', to: 'u1' }))
+      expect(mocks.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'chat.moderation.mute' }))
+    })
+
+    it('does not allow moderators to mute themselves', async () => {
+      const result = await service.moderate({ messageId: 'msg-1', moderatorId: 'u1', action: 'mute' })
+
+      expect(result).toEqual({ success: false, error: 'invalid_target' })
+      expect(mocks.createManualBlock).not.toHaveBeenCalled()
+    })
+
+    it('dismisses reports without touching the message', async () => {
+      await service.moderate({ messageId: 'msg-1', moderatorId: 'mod', action: 'dismiss' })
+
+      expect(mocks.setHidden).not.toHaveBeenCalled()
+      expect(mocks.deleteAsModerator).not.toHaveBeenCalled()
+      expect(mockPrisma.messageReport.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'dismissed' }) })
+      )
+    })
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Unit тесты для ChatOfflineNotificationService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    chatOfflineNotificationSettings: {
+      findFirst: vi.fn()
+    },
+    chatOfflineDigest: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      updateMany: vi.fn()
+    },
+    chatRoomMember: {
+      findMany: vi.fn(),
+      findUnique: vi.fn()
+    },
+    message: {
+      count: vi.fn(),
+      findMany: vi.fn()
+    }
+  }
+}))
+
+const dispatch = vi.hoisted(() => vi.fn())
+
+vi.mock('@/services/events/EventService', () => ({ eventService: { record: vi.fn() } }))
+vi.mock('@/services/notifications/NotificationPreferenceService', () => ({
+  notificationPreferenceService: { dispatch }
+}))
+
+import { prisma } from '@/libs/prisma'
+import { ChatOfflineNotificationService, buildOfflineDigest } from '@/services/chat/ChatOfflineNotificationService'
+
+const mockPrisma = prisma as any
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const settingsRecord = (overrides: Record<string, unknown> = {}) => ({
+  enabled: true,
+  delayMinutes: 15,
+  offlineThresholdMinutes: 5,
+  channels: '["email","telegram"]',
+  updatedAt: now,
+  ...overrides
+})
+
+const dueDigest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'digest-1',
+  userId: 'u2',
+  roomId: 'room-1',
+  deliverAfter: now,
+  user: {
+    id: 'u2',
+    email: 'bob@example.com',
+    phone: null,
+    telegramChatId: '12345',
+    lastSeen: new Date('2026-10-19T11:00:00Z')
+  },
+  room: { id: 'room-1', type: 'direct', name: null },
+  ...overrides
+})
+
+describe('buildOfflineDigest', () => {
+  it('lists the latest messages oldest first and counts the rest', () => {
+    const digest = buildOfflineDigest({
+      roomType: 'direct',
+      roomName: null,
+      messages: [
+        { senderName: 'Alice', content: '', attachmentsCount: 2 },
+        { senderName: 'Alice', content: 'Привет <b>!</b>', attachmentsCount: 0 }
+      ],
+      total: 4,
+      chatUrl: 'https://app.example.com/apps/chat'
+    })
+
+    expect(digest.subject).toBe('Непрочитанные сообщения (4) от Alice')
+    expect(digest.text).toBe(
+      [
+        'Непрочитанные сообщения (4) от Alice',
+        '',
+        'Alice: Привет <b>!</b>',
+        'Alice: [вложений: 2]',
+        '…и ещё 2',
+        '',
+        'Открыть чат: https://app.example.com/apps/chat'
+      ].join('\n')
+    )
+    expect(digest.html).toContain('Привет &lt;b&gt;!&lt;/b&gt;')
+  })
+
+  it('names the group in the subject', () => {
+    const digest = buildOfflineDigest({
+      roomType: 'group',
+      roomName: 'Team',
+      messages: [{ senderName: 'Alice', content: 'hi', attachmentsCount: 0 }],
+      total: 1,
+      chatUrl: '/apps/chat'
+    })
+
+    expect(digest.subject).toBe('Непрочитанные сообщения (1) в группе «Team»')
+  })
+})
+
+describe('ChatOfflineNotificationService', () => {
+  let service: ChatOfflineNotificationService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new ChatOfflineNotificationService()
+    mockPrisma.chatOfflineNotificationSettings.findFirst.mockResolvedValue(settingsRecord())
+    mockPrisma.chatRoomMember.findUnique.mockResolvedValue({ lastReadAt: null, mutedUntil: null })
+    mockPrisma.message.count.mockResolvedValue(1)
+    mockPrisma.message.findMany.mockResolvedValue([
+      { content: 'hello', sender: { name: 'Alice', email: 'alice@example.com' }, _count: { attachments: 0 } }
+    ])
+    dispatch.mockResolvedValue({ success: true, status: 'sent' })
+  })
+
+  describe('scheduleForMessage', () => {
+    const message = { id: 'msg-1', roomId: 'room-1', senderId: 'u1' }
+
+    it('creates digests only for recipients without a pending one', async () => {
+      mockPrisma.chatRoomMember.findMany.mockResolvedValue([{ userId: 'u2' }, { userId: 'u3' }])
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([{ userId: 'u3' }])
+      mockPrisma.chatOfflineDigest.createMany.mockResolvedValue({ count: 1 })
+
+      const before = Date.now()
+
+      expect(await service.scheduleForMessage(message)).toBe(1)
+      expect(mockPrisma.chatRoomMember.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ roomId: 'room-1', userId: { not: 'u1' } })
+        })
+      )
+
+      const { data } = mockPrisma.chatOfflineDigest.createMany.mock.calls[0][0]
+
+      expect(data).toEqual([{ userId: 'u2', roomId: 'room-1', deliverAfter: expect.any(Date) }])
+      expect(data[0].deliverAfter.getTime()).toBeGreaterThanOrEqual(before + 15 * 60 * 1000)
+    })
+
+    it('does nothing when digests are disabled', async () => {
+      mockPrisma.chatOfflineNotificationSettings.findFirst.mockResolvedValue(settingsRecord({ enabled: false }))
+
+      expect(await service.scheduleForMessage(message)).toBe(0)
+      expect(mockPrisma.chatRoomMember.findMany).not.toHaveBeenCalled()
+    })
+
+    it('does not fail sending when the database is unavailable', async () => {
+      mockPrisma.chatRoomMember.findMany.mockRejectedValue(new Error('connection lost'))
+
+      expect(await service.scheduleForMessage(message)).toBe(0)
+    })
+  })
+
+  it('cancels the pending digest of a reader', async () => {
+    mockPrisma.chatOfflineDigest.updateMany.mockResolvedValue({ count: 1 })
+
+    expect(await service.cancelPending('room-1', 'u2')).toBe(1)
+    expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith({
+      where: { roomId: 'room-1', userId: 'u2', sentAt: null, cancelledAt: null },
+      data: { cancelledAt: expect.any(Date), cancelReason: 'read' }
+    })
+  })
+
+  describe('flushDue', () => {
+    it('sends one digest per channel with the chat category and marks it sent', async () => {
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([dueDigest()])
+
+      expect(await service.flushDue(now)).toBe(1)
+      expect(dispatch).toHaveBeenCalledTimes(2)
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'email', to: 'bob@example.com', subject: expect.stringContaining('Alice') }),
+        { userId: 'u2', category: 'chat', at: now }
+      )
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'telegram', to: '12345' }),
+        expect.anything()
+      )
+      expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['digest-1'] } },
+        data: { sentAt: now }
+      })
+    })
+
+    it('cancels the digest when the room is muted', async () => {
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([dueDigest()])
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue({
+        lastReadAt: null,
+        mutedUntil: new Date('2026-10-20T00:00:00Z')
+      })
+
+      await service.flushDue(now)
+
+      expect(dispatch).not.toHaveBeenCalled()
+      expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { cancelledAt: now, cancelReason: 'muted' } })
+      )
+    })
+
+    it('cancels the digest when the recipient was recently active', async () => {
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([
+        dueDigest({ user: { ...dueDigest().user, lastSeen: new Date('2026-10-19T11:58:00Z') } })
+      ])
+
+      await service.flushDue(now)
+
+      expect(dispatch).not.toHaveBeenCalled()
+      expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { cancelledAt: now, cancelReason: 'online' } })
+      )
+    })
+
+    it('cancels the digest when everything has been read', async () => {
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([dueDigest()])
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue({ lastReadAt: now, mutedUntil: null })
+      mockPrisma.message.count.mockResolvedValue(0)
+
+      await service.flushDue(now)
+
+      expect(mockPrisma.message.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ roomId: 'room-1', senderId: { not: 'u2' }, createdAt: { gt: now } })
+      })
+      expect(dispatch).not.toHaveBeenCalled()
+      expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { cancelledAt: now, cancelReason: 'read' } })
+      )
+    })
+
+    it('cancels all due digests when digests are disabled', async () => {
+      mockPrisma.chatOfflineNotificationSettings.findFirst.mockResolvedValue(settingsRecord({ enabled: false }))
+      mockPrisma.chatOfflineDigest.findMany.mockResolvedValue([dueDigest(), dueDigest({ id: 'digest-2' })])
+
+      expect(await service.flushDue(now)).toBe(2)
+      expect(mockPrisma.chatOfflineDigest.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['digest-1', 'digest-2'] } },
+        data: { cancelledAt: now, cancelReason: 'disabled' }
+      })
+    })
+  })
+})
@@ -0,0 +1,318 @@
+/**
+ * Unit тесты для ChatRoomService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    chatRoom: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn()
+    },
+    chatRoomMember: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    message: {
+      count: vi.fn(),
+      updateMany: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+import { prisma } from '@/libs/prisma'
+import { chatRoomService, MUTED_FOREVER_UNTIL } from '@/services/chat'
+
+const mockPrisma = prisma as any
+
+const createdAt = new Date('2026-10-01T10:00:00Z')
+
+const member = (userId: string, role: string, id = `m-${userId}`) => ({
+  id,
+  roomId: 'room-1',
+  userId,
+  role,
+  lastReadAt: null,
+  mutedUntil: null as Date | null,
+  joinedAt: createdAt,
+  user: { id: userId, name: userId, email: `${userId}@example.com`, image: null }
+})
+
+const groupRoom = (members: ReturnType<typeof member>[]) => ({
+  id: 'room-1',
+  type: 'group',
+  name: 'Team',
+  createdById: 'owner',
+  user1Id: null,
+  user2Id: null,
+  createdAt,
+  updatedAt: createdAt,
+  members
+})
+
+describe('ChatRoomService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getOrCreateDirectRoom', () => {
+    it('should create direct room with both members', async () => {
+      mockPrisma.chatRoom.findFirst.mockResolvedValue(null)
+      mockPrisma.chatRoom.create.mockResolvedValue({
+        ...groupRoom([member('u1', 'member'), member('u2', 'member')]),
+        type: 'direct',
+        name: null,
+        user1Id: 'u1',
+        user2Id: 'u2'
+      })
+
+      const room = await chatRoomService.getOrCreateDirectRoom('u1', 'u2')
+
+      expect(room.type).toBe('direct')
+      expect(room.members).toHaveLength(2)
+      expect(mockPrisma.chatRoom.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'direct',
+            members: { create: [{ userId: 'u1' }, { userId: 'u2' }] }
+          })
+        })
+      )
+    })
+  })
+
+  describe('createGroupRoom', () => {
+    it('should make creator owner and deduplicate members', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u2' }, { id: 'u3' }])
+      mockPrisma.chatRoom.create.mockResolvedValue(
+        groupRoom([member('owner', 'owner'), member('u2', 'member'), member('u3', 'member')])
+      )
+
+      const result = await chatRoomService.createGroupRoom('owner', {
+        name: 'Team',
+        memberIds: ['u2', 'u3', 'u2', 'owner']
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatRoom.create.mock.calls[0][0].data.members.create).toEqual([
+        { userId: 'owner', role: 'owner' },
+        { userId: 'u2', role: 'member' },
+        { userId: 'u3', role: 'member' }
+      ])
+    })
+
+    it('should fail when some users do not exist', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u2' }])
+
+      const result = await chatRoomService.createGroupRoom('owner', { name: 'Team', memberIds: ['u2', 'ghost'] })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.chatRoom.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('inviteMembers', () => {
+    it('should add only new members with read cursor at invite time', async () => {
+      const room = groupRoom([member('owner', 'owner'), member('u2', 'member')])
+
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(room)
+      mockPrisma.chatRoom.findUniqueOrThrow.mockResolvedValue(room)
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'u3' }])
+
+      const result = await chatRoomService.inviteMembers('room-1', 'owner', ['u2', 'u3'])
+
+      expect(result.success).toBe(true)
+      expect(result.addedUserIds).toEqual(['u3'])
+      expect(mockPrisma.chatRoomMember.createMany).toHaveBeenCalledWith({
+        data: [{ roomId: 'room-1', userId: 'u3', role: 'member', lastReadAt: expect.any(Date) }],
+        skipDuplicates: true
+      })
+    })
+
+    it('should reject invite from regular member', async () => {
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(groupRoom([member('owner', 'owner'), member('u2', 'member')]))
+
+      const result = await chatRoomService.inviteMembers('room-1', 'u2', ['u3'])
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.chatRoomMember.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject actions in direct rooms', async () => {
+      mockPrisma.chatRoom.findUnique.mockResolvedValue({
+        ...groupRoom([member('u1', 'member'), member('u2', 'member')]),
+        type: 'direct'
+      })
+
+      const result = await chatRoomService.inviteMembers('room-1', 'u1', ['u3'])
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('kickMember', () => {
+    it('should allow admin to kick member', async () => {
+      const room = groupRoom([member('owner', 'owner'), member('admin', 'admin'), member('u3', 'member')])
+
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(room)
+      mockPrisma.chatRoom.findUniqueOrThrow.mockResolvedValue(room)
+
+      const result = await chatRoomService.kickMember('room-1', 'admin', 'u3')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.chatRoomMember.delete).toHaveBeenCalledWith({ where: { id: 'm-u3' } })
+    })
+
+    it('should not allow admin to kick admin or owner', async () => {
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(
+        groupRoom([member('owner', 'owner'), member('admin', 'admin'), member('admin2', 'admin')])
+      )
+
+      expect((await chatRoomService.kickMember('room-1', 'admin', 'admin2')).success).toBe(false)
+      expect((await chatRoomService.kickMember('room-1', 'admin', 'owner')).success).toBe(false)
+      expect(mockPrisma.chatRoomMember.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('leaveRoom', () => {
+    it('should transfer ownership to the oldest admin', async () => {
+      const room = groupRoom([member('owner', 'owner'), member('u2', 'member'), member('admin', 'admin')])
+
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(room)
+      mockPrisma.chatRoom.findUniqueOrThrow.mockResolvedValue(room)
+
+      const result = await chatRoomService.leaveRoom('room-1', 'owner')
+
+      expect(result.success).toBe(true)
+      expect(result.newOwnerId).toBe('admin')
+      expect(mockPrisma.chatRoomMember.update).toHaveBeenCalledWith({ where: { id: 'm-admin' }, data: { role: 'owner' } })
+      expect(mockPrisma.$transaction).toHaveBeenCalled()
+    })
+
+    it('should delete group when last member leaves', async () => {
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(groupRoom([member('owner', 'owner')]))
+
+      const result = await chatRoomService.leaveRoom('room-1', 'owner')
+
+      expect(result).toEqual({ success: true, deleted: true, newOwnerId: null })
+      expect(mockPrisma.chatRoom.delete).toHaveBeenCalledWith({ where: { id: 'room-1' } })
+    })
+  })
+
+  describe('setMemberRole', () => {
+    it('should allow only owner to change roles', async () => {
+      mockPrisma.chatRoom.findUnique.mockResolvedValue(
+        groupRoom([member('owner', 'owner'), member('admin', 'admin'), member('u3', 'member')])
+      )
+
+      const result = await chatRoomService.setMemberRole('room-1', 'admin', 'u3', 'admin')
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.chatRoomMember.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('read cursors', () => {
+    it('should count and mark messages after member cursor', async () => {
+      const lastReadAt = new Date('2026-10-02T00:00:00Z')
+
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue({
+        id: 'm-u2',
+        lastReadAt,
+        room: { type: 'group' }
+      })
+      mockPrisma.message.count.mockResolvedValue(3)
+
+      const result = await chatRoomService.markRead('room-1', 'u2')
+
+      expect(result?.count).toBe(3)
+      expect(mockPrisma.message.count).toHaveBeenCalledWith({
+        where: { roomId: 'room-1', senderId: { not: 'u2' }, createdAt: { gt: lastReadAt } }
+      })
+      expect(mockPrisma.chatRoomMember.update).toHaveBeenCalledWith({
+        where: { id: 'm-u2' },
+        data: { lastReadAt: expect.any(Date) }
+      })
+
+      // Message.readAt - только для личных диалогов
+      expect(mockPrisma.message.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should return null for non-members', async () => {
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue(null)
+
+      expect(await chatRoomService.markRead('room-1', 'stranger')).toBeNull()
+    })
+
+    it('should report unread per room with contact for direct rooms', async () => {
+      mockPrisma.chatRoomMember.findMany.mockResolvedValue([
+        { roomId: 'direct-1', lastReadAt: null, room: { type: 'direct', user1Id: 'u1', user2Id: 'u2' } },
+        { roomId: 'group-1', lastReadAt: createdAt, room: { type: 'group', user1Id: null, user2Id: null } }
+      ])
+      mockPrisma.message.count.mockResolvedValueOnce(2).mockResolvedValueOnce(5)
+
+      const unread = await chatRoomService.getUnreadByRoom('u1')
+
+      expect(unread).toEqual([
+        { roomId: 'direct-1', type: 'direct', contactId: 'u2', count: 2 },
+        { roomId: 'group-1', type: 'group', contactId: null, count: 5 }
+      ])
+    })
+  })
+
+  describe('setMuted', () => {
+    beforeEach(() => {
+      mockPrisma.chatRoomMember.findUnique.mockResolvedValue({ id: 'm-u1', room: { type: 'group' } })
+      mockPrisma.chatRoom.findUniqueOrThrow.mockResolvedValue(groupRoom([member('u1', 'owner')]))
+    })
+
+    it('should mute for the given duration', async () => {
+      const before = Date.now()
+
+      await chatRoomService.setMuted('room-1', 'u1', { muted: true, durationMinutes: 60 })
+
+      const { mutedUntil } = mockPrisma.chatRoomMember.update.mock.calls[0][0].data
+
+      expect(mutedUntil.getTime()).toBeGreaterThanOrEqual(before + 60 * 60 * 1000)
+    })
+
+    it('should mute without end date and unmute', async () => {
+      await chatRoomService.setMuted('room-1', 'u1', { muted: true })
+      await chatRoomService.setMuted('room-1', 'u1', { muted: false })
+
+      expect(mockPrisma.chatRoomMember.update.mock.calls.map(call => call[0].data.mutedUntil)).toEqual([
+        MUTED_FOREVER_UNTIL,
+        null
+      ])
+    })
+  })
+
+  describe('getLastMessages', () => {
+    it('should include group rooms without receiver', async () => {
+      mockPrisma.chatRoom.findMany.mockResolvedValue([
+        {
+          ...groupRoom([]),
+          messages: [{ id: 'msg-1', content: 'hi', senderId: 'u2', roomId: 'room-1', createdAt }]
+        }
+      ])
+
+      const lastMessages = await chatRoomService.getLastMessages('u1')
+
+      expect(lastMessages).toEqual([
+        expect.objectContaining({ id: 'msg-1', receiverId: null, roomType: 'group', roomName: 'Team' })
+      ])
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Unit тесты для ChatSearchService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    message: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+const lemmatizeWords = vi.hoisted(() => vi.fn())
+
+vi.mock('@/services/web-scraper/TextAnalysisService', () => ({
+  getTextAnalysisService: () => ({ lemmatizeWords })
+}))
+
+import { Prisma } from '@prisma/client'
+
+import { prisma } from '@/libs/prisma'
+import { ChatSearchService, buildTsQuery, extractSearchTerms, parseHighlight } from '@/services/chat/ChatSearchService'
+
+const mockPrisma = prisma as any
+
+// Параметры SQL-запроса вместе с вложенными фрагментами Prisma.sql
+const queryValues = ([strings, ...values]: unknown[]) => Prisma.sql(strings as TemplateStringsArray, ...values).values
+
+describe('extractSearchTerms', () => {
+  it('splits the query into unique lowercase words', () => {
+    expect(extractSearchTerms('Билеты на КОНЦЕРТ, билеты!')).toEqual(['билеты', 'на', 'концерт'])
+  })
+
+  it('drops punctuation that has a meaning in tsquery syntax', () => {
+    expect(extractSearchTerms("foo & bar | !baz :* 'qux'")).toEqual(['foo', 'bar', 'baz', 'qux'])
+  })
+
+  it('limits the number of words', () => {
+    expect(extractSearchTerms('a b c d e f g h i j')).toHaveLength(8)
+  })
+})
+
+describe('buildTsQuery', () => {
+  it('requires every word and accepts its normal form', () => {
+    expect(buildTsQuery(['шёл', 'домой'], ['идти', 'домой'])).toBe('(шёл | идти) & домой')
+  })
+
+  it('ignores lemmas that are not plain words', () => {
+    expect(buildTsQuery(['кто'], ['кто-то'])).toBe('кто')
+  })
+})
+
+describe('parseHighlight', () => {
+  it('splits ts_headline output into matched and plain segments', () => {
+    expect(parseHighlight('купил \u0002билеты\u0003 на \u0002концерт\u0003')).toEqual([
+      { text: 'купил ', match: false },
+      { text: 'билеты', match: true },
+      { text: ' на ', match: false },
+      { text: 'концерт', match: true }
+    ])
+  })
+
+  it('returns plain text when nothing is marked', () => {
+    expect(parseHighlight('hello')).toEqual([{ text: 'hello', match: false }])
+  })
+})
+
+describe('ChatSearchService', () => {
+  const service = new ChatSearchService()
+  const createdAt = new Date('2026-10-01T10:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    lemmatizeWords.mockImplementation(async (words: string[]) => words)
+  })
+
+  it('returns nothing without querying for a query without words', async () => {
+    const result = await service.search('u1', { query: '!!!' })
+
+    expect(result).toEqual({ items: [], total: 0, page: 1, limit: 20, totalPages: 0 })
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled()
+  })
+
+  it('maps found messages with highlight and the direct chat contact', async () => {
+    lemmatizeWords.mockResolvedValue(['билет'])
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ id: 'msg-1', rank: 0.5, headline: '\u0002билеты\u0003 куплены' }])
+      .mockResolvedValueOnce([{ count: BigInt(1) }])
+    mockPrisma.message.findMany.mockResolvedValue([
+      {
+        id: 'msg-1',
+        roomId: 'room-1',
+        createdAt,
+        sender: { id: 'u2', name: 'Bob', email: 'bob@example.com' },
+        room: { id: 'room-1', type: 'direct', name: null, user1Id: 'u1', user2Id: 'u2' }
+      }
+    ])
+
+    const result = await service.search('u1', { query: 'билеты' })
+
+    expect(queryValues(mockPrisma.$queryRaw.mock.calls[0])).toContain('(билеты | билет)')
+    expect(result.total).toBe(1)
+    expect(result.items).toEqual([
+      {
+        messageId: 'msg-1',
+        roomId: 'room-1',
+        room: { id: 'room-1', type: 'direct', name: null, contactId: 'u2' },
+        sender: { id: 'u2', name: 'Bob', email: 'bob@example.com' },
+        createdAt,
+        highlight: [
+          { text: 'билеты', match: true },
+          { text: ' куплены', match: false }
+        ],
+        rank: 0.5
+      }
+    ])
+  })
+
+  it('passes filters and the viewer to the query', async () => {
+    const from = new Date('2026-09-01T00:00:00Z')
+
+    mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ count: BigInt(0) }])
+    mockPrisma.message.findMany.mockResolvedValue([])
+
+    await service.search('u1', { query: 'отчёт', senderId: 'u3', roomId: 'room-9', from, page: 2, limit: 10 })
+
+    const values = queryValues(mockPrisma.$queryRaw.mock.calls[0])
+
+    expect(values).toEqual(expect.arrayContaining(['u1', 'u3', 'room-9', from, 10]))
+  })
+})
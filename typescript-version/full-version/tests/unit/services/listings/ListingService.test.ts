@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Моки
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    listing: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn()
+    },
+    listingCategory: {
+      findUnique: vi.fn()
+    },
+    media: {
+      findFirst: vi.fn(),
+      count: vi.fn()
+    },
+    mediaGlobalSettings: {
+      findFirst: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/services/events/EventService', () => ({
+  eventService: {
+    record: vi.fn().mockResolvedValue({ id: 'event-1' })
+  }
+}))
+
+vi.mock('@/services/workflows/ListingWorkflowService', () => ({
+  listingWorkflowService: {
+    transition: vi.fn()
+  }
+}))
+
+vi.mock('@/services/media', () => ({
+  getMediaService: vi.fn()
+}))
+
+import { prisma as mockPrisma } from '@/libs/prisma'
+import { listingService, toListingView } from '@/services/listings'
+import { listingWorkflowService } from '@/services/workflows/ListingWorkflowService'
+
+const mockListing = (overrides: Record<string, unknown> = {}) => ({
+  id: 'listing-1',
+  title: 'Велосипед',
+  description: 'Горный велосипед',
+  price: 25000,
+  currency: 'RUB',
+  categoryId: 'cat-1',
+  status: 'draft',
+  ownerId: 'owner-1',
+  moderatorId: null,
+  moderatedAt: null,
+  rejectionReason: null,
+  images: '[]',
+  location: 'Москва',
+  contacts: '{"phone":"+79991234567"}',
+  metadata: null,
+  viewsCount: 0,
+  publishedAt: null,
+  soldAt: null,
+  archivedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+})
+
+describe('ListingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockPrisma.listing.findMany).mockResolvedValue([])
+    vi.mocked(mockPrisma.listing.count).mockResolvedValue(0)
+  })
+
+  describe('toListingView', () => {
+    it('парсит JSON-поля и поддерживает старый формат images', () => {
+      const view = toListingView(mockListing({ images: '["https://cdn/1.jpg"]' }) as any)
+
+      expect(view.contacts).toEqual({ phone: '+79991234567' })
+      expect(view.metadata).toEqual({})
+      expect(view.images).toEqual([{ mediaId: '', url: 'https://cdn/1.jpg', thumbUrl: 'https://cdn/1.jpg', position: 0 }])
+    })
+  })
+
+  describe('search', () => {
+    it('ищет только опубликованные объявления с фильтрами цены и места', async () => {
+      await listingService.search({ minPrice: 100, maxPrice: 500, location: 'моск', page: 2, limit: 10 })
+
+      const query = vi.mocked(mockPrisma.listing.findMany).mock.calls[0][0] as any
+
+      expect(query.where).toMatchObject({
+        status: 'active',
+        price: { gte: 100, lte: 500 },
+        location: { contains: 'моск', mode: 'insensitive' }
+      })
+      expect(query.take).toBe(10)
+      expect(query.skip).toBe(10)
+    })
+
+    it('включает дочерние категории при фильтре по slug', async () => {
+      vi.mocked(mockPrisma.listingCategory.findUnique).mockResolvedValue({
+        id: 'cat-1',
+        children: [{ id: 'cat-2' }]
+      } as any)
+
+      await listingService.search({ category: 'transport' })
+
+      const query = vi.mocked(mockPrisma.listing.findMany).mock.calls[0][0] as any
+
+      expect(query.where.categoryId).toEqual({ in: ['cat-1', 'cat-2'] })
+    })
+
+    it('возвращает пустой результат для несуществующей категории', async () => {
+      vi.mocked(mockPrisma.listingCategory.findUnique).mockResolvedValue(null)
+
+      const result = await listingService.search({ category: 'unknown' })
+
+      expect(result.items).toEqual([])
+      expect(mockPrisma.listing.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('update', () => {
+    it('правит черновик без перехода workflow', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing() as any)
+
+      const result = await listingService.update('listing-1', 'owner-1', { price: 20000 })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.listing.update).toHaveBeenCalledWith({ where: { id: 'listing-1' }, data: { price: 20000 } })
+      expect(listingWorkflowService.transition).not.toHaveBeenCalled()
+    })
+
+    it('отправляет опубликованное объявление на повторную модерацию (EDIT)', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing({ status: 'active' }) as any)
+      vi.mocked(listingWorkflowService.transition).mockResolvedValue({ success: true } as any)
+
+      const result = await listingService.update('listing-1', 'owner-1', { title: 'Новый велосипед' })
+
+      expect(result.success).toBe(true)
+      expect(listingWorkflowService.transition).toHaveBeenCalledWith(
+        expect.objectContaining({ listingId: 'listing-1', event: 'EDIT', actorId: 'owner-1' })
+      )
+    })
+
+    it('запрещает правку проданного объявления', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing({ status: 'sold' }) as any)
+
+      const result = await listingService.update('listing-1', 'owner-1', { price: 1 })
+
+      expect(result.success).toBe(false)
+      expect(mockPrisma.listing.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('submit', () => {
+    it('требует категорию перед отправкой на модерацию', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing({ categoryId: null }) as any)
+
+      const result = await listingService.submit('listing-1', 'owner-1')
+
+      expect(result.success).toBe(false)
+      expect(listingWorkflowService.transition).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('attachMedia', () => {
+    it('не привязывает медиа другого пользователя', async () => {
+      vi.mocked(mockPrisma.media.findFirst).mockResolvedValue({
+        id: 'media-1',
+        entityType: 'listing_image',
+        entityId: null,
+        uploadedBy: 'someone-else'
+      } as any)
+
+      const result = await listingService.attachMedia('listing-1', 'media-1', 'owner-1')
+
+      expect(result).toEqual({ success: false, error: 'Медиа уже используется' })
+    })
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Unit тесты для путей уведомлений (JourneyEngine)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    notificationExecution: {
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    notificationJourney: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    },
+    event: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+const notificationServiceMock = vi.hoisted(() => ({ send: vi.fn() }))
+
+vi.mock('@/services/notifications/NotificationService', () => ({
+  notificationService: notificationServiceMock
+}))
+
+vi.mock('@/services/notifications/NotificationQueue', () => ({ notificationQueue: { add: vi.fn() } }))
+
+vi.mock('@/services/notifications/NotificationPreferenceService', () => ({
+  DEFAULT_NOTIFICATION_CATEGORY: 'system',
+  notificationPreferenceService: { evaluate: vi.fn().mockResolvedValue({ action: 'send' }), defer: vi.fn() }
+}))
+
+vi.mock('@/services/notifications/NotificationWebhookService', () => ({
+  WEBHOOK_MAX_ATTEMPTS: 5,
+  WEBHOOK_RETRY_DELAY_MS: 30000
+}))
+
+vi.mock('@/lib/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}))
+
+import { prisma } from '@/libs/prisma'
+import { scenarioEngine } from '@/services/notifications/scenarios/ScenarioEngine'
+import { journeyEngine } from '@/services/notifications/scenarios/JourneyEngine'
+import { notificationJourneyScheduler } from '@/services/scheduler/NotificationJourneyScheduler'
+import type { JourneyStep } from '@/services/notifications/scenarios/types'
+
+const mockPrisma = prisma as any
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Письмо, сутки ожидания, SMS только если email так и не подтверждён
+const verificationSteps: JourneyStep[] = [
+  { id: 'welcome', type: 'notify', action: { type: 'notification', channel: 'email', subject: 'Welcome' } },
+  { id: 'wait', type: 'wait', duration: DAY },
+  {
+    id: 'check',
+    type: 'branch',
+    conditions: [{ field: 'user.emailVerified', operator: 'eq', value: true }],
+    then: 'exit'
+  },
+  { id: 'sms', type: 'notify', action: { type: 'notification', channel: 'sms', content: 'Verify your email' } }
+]
+
+const makeScenario = (steps: JourneyStep[], extra: Record<string, any> = {}) =>
+  ({
+    id: 'scenario-1',
+    name: 'Verification',
+    enabled: true,
+    trigger: '{}',
+    actions: '[]',
+    conditions: null,
+    steps: JSON.stringify(steps),
+    exitConditions: null,
+    ...extra
+  }) as any
+
+const context = {
+  event: {
+    id: 'event-1',
+    source: 'registration',
+    type: 'user.registered',
+    module: 'user',
+    severity: 'info',
+    actorType: 'user',
+    actorId: 'user-1',
+    payload: {}
+  }
+}
+
+const dbUser = (emailVerified: Date | null) => ({
+  id: 'user-1',
+  email: 'alice@example.com',
+  phone: '+79990000000',
+  role: 'user',
+  emailVerified,
+  phoneVerified: null
+})
+
+// Путь, сохранённый на шаге ожидания, как его возвращает findMany
+const waitingJourney = (scenario: any, currentStepId: string, extra: Record<string, any> = {}) => ({
+  id: 'journey-1',
+  executionId: 'execution-1',
+  userId: 'user-1',
+  status: 'waiting',
+  currentStep: scenario.steps ? JSON.parse(scenario.steps).findIndex((s: JourneyStep) => s.id === currentStepId) : 0,
+  currentStepId,
+  waitUntil: new Date('2026-10-19T12:00:00Z'),
+  waitingForEvent: null,
+  waitStartedAt: new Date('2026-10-18T12:00:00Z'),
+  context: JSON.stringify({ ...context, user: { id: 'user-1', emailVerified: false } }),
+  history: '[]',
+  updatedAt: new Date('2026-10-18T12:00:00Z'),
+  execution: { eventId: 'event-1', scenario },
+  ...extra
+})
+
+const lastJourneyUpdate = () => mockPrisma.notificationJourney.update.mock.calls.at(-1)[0].data
+const lastExecutionUpdate = () => mockPrisma.notificationExecution.update.mock.calls.at(-1)[0].data
+
+describe('JourneyEngine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.notificationExecution.create.mockResolvedValue({ id: 'execution-1' })
+    mockPrisma.notificationJourney.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'journey-1', history: '[]', ...data })
+    )
+    mockPrisma.notificationJourney.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.notificationJourney.findMany.mockResolvedValue([])
+    mockPrisma.user.findUnique.mockResolvedValue(dbUser(null))
+    mockPrisma.event.findFirst.mockResolvedValue(null)
+    notificationServiceMock.send.mockResolvedValue({ success: true, messageId: 'msg-1' })
+  })
+
+  it('runs steps until the first wait and persists the position', async () => {
+    const result = await scenarioEngine.execute(makeScenario(verificationSteps), structuredClone(context))
+
+    expect(result).toMatchObject({ status: 'processing', journeyId: 'journey-1' })
+    expect(notificationServiceMock.send).toHaveBeenCalledTimes(1)
+    expect(notificationServiceMock.send).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'email', to: 'alice@example.com' })
+    )
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'waiting', currentStep: 1, currentStepId: 'wait' })
+    expect(lastJourneyUpdate().waitUntil.getTime()).toBeGreaterThan(Date.now() + DAY - 60 * 1000)
+    expect(lastExecutionUpdate()).toMatchObject({ status: 'processing' })
+  })
+
+  it('sends the follow-up when the user is still unverified after the wait', async () => {
+    const scenario = makeScenario(verificationSteps)
+
+    mockPrisma.notificationJourney.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([waitingJourney(scenario, 'wait')])
+
+    expect(await journeyEngine.resumeDue()).toBe(1)
+    expect(notificationServiceMock.send).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'sms', to: '+79990000000' })
+    )
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'completed' })
+    expect(JSON.parse(lastJourneyUpdate().history).map((entry: any) => entry.outcome)).toEqual([
+      'resumed',
+      'else',
+      'sent'
+    ])
+    expect(lastExecutionUpdate()).toMatchObject({ status: 'completed' })
+  })
+
+  it('re-reads the user before branching and exits once email is verified', async () => {
+    const scenario = makeScenario(verificationSteps)
+
+    // В сохранённом контексте email не подтверждён, в БД - уже подтверждён
+    mockPrisma.user.findUnique.mockResolvedValue(dbUser(new Date()))
+    mockPrisma.notificationJourney.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([waitingJourney(scenario, 'wait')])
+
+    await journeyEngine.resumeDue()
+
+    expect(notificationServiceMock.send).not.toHaveBeenCalled()
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'exited', exitReason: 'Exit transition' })
+  })
+
+  it('is resumed by the journey scheduler', async () => {
+    const scenario = makeScenario(verificationSteps)
+
+    mockPrisma.notificationJourney.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([waitingJourney(scenario, 'wait')])
+
+    await notificationJourneyScheduler.flush()
+
+    expect(notificationServiceMock.send).toHaveBeenCalledWith(expect.objectContaining({ channel: 'sms' }))
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'completed' })
+  })
+
+  it('skips a journey another scheduler run already claimed', async () => {
+    const scenario = makeScenario(verificationSteps)
+
+    mockPrisma.notificationJourney.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.notificationJourney.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([waitingJourney(scenario, 'wait')])
+
+    expect(await journeyEngine.resumeDue()).toBe(0)
+    expect(mockPrisma.notificationJourney.update).not.toHaveBeenCalled()
+  })
+
+  describe('wait_for_event', () => {
+    const steps: JourneyStep[] = [
+      {
+        id: 'await',
+        type: 'wait_for_event',
+        eventType: 'user.email_verified',
+        timeout: DAY,
+        next: 'thanks',
+        onTimeout: 'reminder'
+      },
+      {
+        id: 'reminder',
+        type: 'notify',
+        action: { type: 'notification', channel: 'sms', content: 'Reminder' },
+        next: 'exit'
+      },
+      { id: 'thanks', type: 'notify', action: { type: 'notification', channel: 'email', subject: 'Thanks' } }
+    ]
+
+    it('waits for the event with a timeout', async () => {
+      await scenarioEngine.execute(makeScenario(steps), structuredClone(context))
+
+      expect(lastJourneyUpdate()).toMatchObject({ status: 'waiting', waitingForEvent: 'user.email_verified' })
+      expect(lastJourneyUpdate().waitUntil).toBeInstanceOf(Date)
+    })
+
+    it('follows next when the user event is recorded', async () => {
+      const scenario = makeScenario(steps)
+
+      mockPrisma.event.findFirst.mockResolvedValue({ id: 'event-2' })
+      mockPrisma.notificationJourney.findMany
+        .mockResolvedValueOnce([waitingJourney(scenario, 'await', { waitingForEvent: 'user.email_verified' })])
+        .mockResolvedValueOnce([])
+
+      await journeyEngine.resumeDue()
+
+      expect(mockPrisma.event.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            type: 'user.email_verified',
+            OR: [
+              { actorType: 'user', actorId: 'user-1' },
+              { subjectType: 'user', subjectId: 'user-1' }
+            ]
+          })
+        })
+      )
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(expect.objectContaining({ subject: 'Thanks' }))
+    })
+
+    it('follows onTimeout when the wait expires', async () => {
+      const scenario = makeScenario(steps)
+
+      mockPrisma.notificationJourney.findMany
+        .mockResolvedValueOnce([waitingJourney(scenario, 'await', { waitingForEvent: 'user.email_verified' })])
+        .mockResolvedValueOnce([waitingJourney(scenario, 'await', { waitingForEvent: 'user.email_verified' })])
+
+      await journeyEngine.resumeDue()
+
+      expect(notificationServiceMock.send).toHaveBeenCalledTimes(1)
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(expect.objectContaining({ content: 'Reminder' }))
+      expect(lastJourneyUpdate()).toMatchObject({ status: 'exited' })
+    })
+  })
+
+  it('stops before the next step once exit conditions are met', async () => {
+    const scenario = makeScenario(verificationSteps, {
+      exitConditions: JSON.stringify([{ field: 'user.emailVerified', operator: 'eq', value: true }])
+    })
+
+    mockPrisma.user.findUnique.mockResolvedValue(dbUser(new Date()))
+
+    const result = await scenarioEngine.execute(scenario, structuredClone(context))
+
+    expect(notificationServiceMock.send).not.toHaveBeenCalled()
+    expect(result.status).toBe('completed')
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'exited', exitReason: 'Exit conditions met' })
+  })
+
+  it('fails the journey on a transition to an unknown step', async () => {
+    const result = await scenarioEngine.execute(
+      makeScenario([
+        {
+          id: 'jump',
+          type: 'branch',
+          conditions: [{ field: 'user.id', operator: 'exists', value: null }],
+          then: 'missing'
+        }
+      ]),
+      structuredClone(context)
+    )
+
+    expect(result).toMatchObject({ status: 'failed', error: 'Journey step not found: missing' })
+    expect(lastJourneyUpdate()).toMatchObject({ status: 'failed' })
+  })
+})
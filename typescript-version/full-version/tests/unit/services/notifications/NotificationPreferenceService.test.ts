@@ -0,0 +1,182 @@
+/**
+ * Unit тесты для NotificationPreferenceService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    notificationSettings: {
+      findUnique: vi.fn()
+    },
+    notificationPreference: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    },
+    deferredNotification: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+const notificationServiceMock = vi.hoisted(() => ({ send: vi.fn() }))
+
+vi.mock('@/services/notifications/NotificationService', () => ({
+  notificationService: notificationServiceMock
+}))
+
+import { prisma } from '@/libs/prisma'
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getNextDigestTime,
+  getQuietHoursEnd,
+  notificationPreferenceService
+} from '@/services/notifications/NotificationPreferenceService'
+
+const mockPrisma = prisma as any
+
+const quietSettings = {
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'Europe/Moscow'
+}
+
+// 23:30 по Москве (UTC+3)
+const lateEvening = new Date('2026-10-19T20:30:00Z')
+
+describe('NotificationPreferenceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.notificationSettings.findUnique.mockResolvedValue(null)
+    mockPrisma.notificationPreference.findUnique.mockResolvedValue(null)
+    mockPrisma.deferredNotification.create.mockResolvedValue({ id: 'deferred-1' })
+    notificationServiceMock.send.mockResolvedValue({ success: true, messageId: 'sent-1' })
+  })
+
+  describe('getQuietHoursEnd', () => {
+    it('should return window end for a window crossing midnight', () => {
+      expect(getQuietHoursEnd(lateEvening, quietSettings)).toEqual(new Date('2026-10-20T05:00:00Z'))
+    })
+
+    it('should return null outside the window or when disabled', () => {
+      expect(getQuietHoursEnd(new Date('2026-10-19T09:00:00Z'), quietSettings)).toBeNull()
+      expect(getQuietHoursEnd(lateEvening, { ...quietSettings, quietHoursEnabled: false })).toBeNull()
+    })
+
+    it('should use the user timezone for a same-day window', () => {
+      const settings = { ...quietSettings, quietHoursStart: '13:00', quietHoursEnd: '15:00', timezone: 'America/New_York' }
+
+      // 14:10 в Нью-Йорке (UTC-4)
+      expect(getQuietHoursEnd(new Date('2026-10-19T18:10:30Z'), settings)).toEqual(new Date('2026-10-19T19:00:00Z'))
+    })
+  })
+
+  describe('getNextDigestTime', () => {
+    it('should schedule the digest for the next digest hour in the user timezone', () => {
+      // 10:15 по Москве - дайджест в 09:00 уже прошёл, значит завтра
+      expect(getNextDigestTime(new Date('2026-10-19T07:15:00Z'), quietSettings)).toEqual(
+        new Date('2026-10-20T06:00:00Z')
+      )
+    })
+  })
+
+  describe('evaluate', () => {
+    it('should skip disabled category and channel', async () => {
+      mockPrisma.notificationPreference.findUnique.mockResolvedValue({ enabled: false, delivery: 'immediate' })
+
+      expect(await notificationPreferenceService.evaluate('u1', 'marketing', 'email')).toEqual({
+        action: 'skip',
+        reason: 'disabled'
+      })
+    })
+
+    it('should defer digest delivery to the digest hour', async () => {
+      mockPrisma.notificationPreference.findUnique.mockResolvedValue({ enabled: true, delivery: 'digest' })
+
+      const decision = await notificationPreferenceService.evaluate('u1', 'listings', 'email', lateEvening)
+
+      expect(decision).toEqual({ action: 'defer', reason: 'digest', deliverAfter: new Date('2026-10-20T06:00:00Z') })
+    })
+
+    it('should defer sms during quiet hours but send email', async () => {
+      mockPrisma.notificationSettings.findUnique.mockResolvedValue(quietSettings)
+
+      expect(await notificationPreferenceService.evaluate('u1', 'account', 'sms', lateEvening)).toEqual({
+        action: 'defer',
+        reason: 'quiet_hours',
+        deliverAfter: new Date('2026-10-20T05:00:00Z')
+      })
+      expect(await notificationPreferenceService.evaluate('u1', 'account', 'email', lateEvening)).toEqual({
+        action: 'send'
+      })
+    })
+  })
+
+  describe('dispatch', () => {
+    const options = { channel: 'sms' as const, to: '+79990000000', content: 'Code 1234' }
+
+    it('should send mandatory notifications regardless of preferences', async () => {
+      const result = await notificationPreferenceService.dispatch(options, {
+        userId: 'u1',
+        category: 'security',
+        mandatory: true
+      })
+
+      expect(result).toMatchObject({ success: true, status: 'sent' })
+      expect(mockPrisma.notificationPreference.findUnique).not.toHaveBeenCalled()
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(options)
+    })
+
+    it('should store deferred notification instead of sending', async () => {
+      mockPrisma.notificationSettings.findUnique.mockResolvedValue(quietSettings)
+
+      const result = await notificationPreferenceService.dispatch(options, {
+        userId: 'u1',
+        category: 'account',
+        at: lateEvening
+      })
+
+      expect(result).toMatchObject({ success: true, status: 'deferred', messageId: 'deferred-1' })
+      expect(notificationServiceMock.send).not.toHaveBeenCalled()
+      expect(mockPrisma.deferredNotification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'u1', channel: 'sms', reason: 'quiet_hours' })
+      })
+    })
+  })
+
+  describe('flushDue', () => {
+    it('should merge digest items per user and channel and send quiet-hours items as is', async () => {
+      const deferred = (id: string, reason: string, options: Record<string, unknown>) => ({
+        id,
+        userId: 'u1',
+        channel: options.channel,
+        reason,
+        options: JSON.stringify(options)
+      })
+
+      mockPrisma.deferredNotification.findMany.mockResolvedValue([
+        deferred('d1', 'digest', { channel: 'telegram', to: '100', subject: 'New reply', content: 'Hello' }),
+        deferred('d2', 'digest', { channel: 'telegram', to: '100', content: 'Listing approved' }),
+        deferred('d3', 'quiet_hours', { channel: 'sms', to: '+79990000000', content: 'Login from new device' })
+      ])
+
+      expect(await notificationPreferenceService.flushDue(lateEvening)).toBe(3)
+
+      expect(notificationServiceMock.send).toHaveBeenCalledTimes(2)
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'telegram', to: '100', content: 'New reply: Hello\nListing approved' })
+      )
+      expect(notificationServiceMock.send).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'sms', content: 'Login from new device' })
+      )
+      expect(mockPrisma.deferredNotification.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['d1', 'd2', 'd3'] } },
+        data: { sentAt: lateEvening }
+      })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Unit тесты для канала webhook и подписи запросов
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    notificationWebhook: {
+      findMany: vi.fn()
+    },
+    notificationWebhookDelivery: {
+      findMany: vi.fn(),
+      create: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/config/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  safeDecrypt: (value: string) => value.replace(/^enc:/, '')
+}))
+
+vi.mock('@/services/events/EventService', () => ({ eventService: { record: vi.fn() } }))
+
+vi.mock('@/lib/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}))
+
+import { prisma } from '@/libs/prisma'
+import { WebhookChannel } from '@/services/notifications/channels/WebhookChannel'
+import { signWebhookPayload, verifyWebhookSignature } from '@/services/notifications/NotificationWebhookService'
+
+const mockPrisma = prisma as any
+
+describe('verifyWebhookSignature', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const timestamp = Math.floor(now.getTime() / 1000)
+  const body = '{"id":"d-1"}'
+  const signature = signWebhookPayload('secret', timestamp, body)
+
+  it('accepts a fresh request signed with the same secret', () => {
+    expect(verifyWebhookSignature({ secret: 'secret', body, timestamp, signature, now })).toBe(true)
+  })
+
+  it('rejects a modified body or another secret', () => {
+    expect(verifyWebhookSignature({ secret: 'secret', body: '{"id":"d-2"}', timestamp, signature, now })).toBe(false)
+    expect(verifyWebhookSignature({ secret: 'other', body, timestamp, signature, now })).toBe(false)
+  })
+
+  it('rejects a replayed request outside the tolerance window', () => {
+    const later = new Date(now.getTime() + 6 * 60 * 1000)
+
+    expect(verifyWebhookSignature({ secret: 'secret', body, timestamp, signature, now: later })).toBe(false)
+  })
+})
+
+describe('WebhookChannel', () => {
+  const channel = new WebhookChannel()
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', fetchMock)
+    mockPrisma.notificationWebhook.findMany.mockResolvedValue([
+      { id: 'wh-1', url: 'https://one.example.com/hook', secret: 'enc:secret-1' },
+      { id: 'wh-2', url: 'https://two.example.com/hook', secret: 'enc:secret-2' }
+    ])
+    mockPrisma.notificationWebhookDelivery.findMany.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('posts a signed payload to every enabled endpoint and logs the attempt', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }))
+
+    const result = await channel.send({
+      channel: 'webhook',
+      to: '*',
+      subject: 'Hello {{name}}',
+      variables: { name: 'Alice' },
+      metadata: { deliveryId: 'delivery-1', eventType: 'user.registered' }
+    })
+
+    expect(result).toMatchObject({ success: true, messageId: 'delivery-1' })
+    expect(mockPrisma.notificationWebhook.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { enabled: true } })
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    const [url, init] = fetchMock.mock.calls[0]
+    const payload = JSON.parse(init.body)
+
+    expect(url).toBe('https://one.example.com/hook')
+    expect(payload).toMatchObject({ id: 'delivery-1', event: 'user.registered', subject: 'Hello Alice' })
+    expect(init.headers['X-Webhook-Id']).toBe('delivery-1')
+    expect(
+      verifyWebhookSignature({
+        secret: 'secret-1',
+        body: init.body,
+        timestamp: init.headers['X-Webhook-Timestamp'],
+        signature: init.headers['X-Webhook-Signature']
+      })
+    ).toBe(true)
+    expect(mockPrisma.notificationWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        webhookId: 'wh-1',
+        deliveryId: 'delivery-1',
+        event: 'user.registered',
+        attempt: 1,
+        success: true,
+        statusCode: 200
+      })
+    })
+  })
+
+  it('fails on a non-2xx response so the queue retries it', async () => {
+    fetchMock.mockResolvedValue(new Response('unavailable', { status: 503 }))
+    mockPrisma.notificationWebhook.findMany.mockResolvedValue([
+      { id: 'wh-1', url: 'https://one.example.com/hook', secret: 'enc:secret-1' }
+    ])
+    mockPrisma.notificationWebhookDelivery.findMany.mockResolvedValue([{ success: false }])
+
+    const result = await channel.send({ channel: 'webhook', to: 'wh-1', metadata: { deliveryId: 'delivery-1' } })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('HTTP 503')
+    expect(mockPrisma.notificationWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ attempt: 2, success: false, statusCode: 503, error: 'HTTP 503: unavailable' })
+    })
+  })
+
+  it('skips endpoints that already accepted the delivery on retry', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }))
+    mockPrisma.notificationWebhookDelivery.findMany
+      .mockResolvedValueOnce([{ success: true }])
+      .mockResolvedValueOnce([{ success: false }])
+
+    const result = await channel.send({
+      channel: 'webhook',
+      to: ['wh-1', 'wh-2'],
+      metadata: { deliveryId: 'delivery-1' }
+    })
+
+    expect(result.success).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe('https://two.example.com/hook')
+  })
+
+  it('logs network errors without a status code', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'))
+    mockPrisma.notificationWebhook.findMany.mockResolvedValue([
+      { id: 'wh-1', url: 'https://one.example.com/hook', secret: 'enc:secret-1' }
+    ])
+
+    const result = await channel.send({ channel: 'webhook', to: 'wh-1', content: 'Ping' })
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.notificationWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ success: false, statusCode: null, error: 'ECONNREFUSED' })
+    })
+  })
+
+  it('requires at least one enabled endpoint', async () => {
+    mockPrisma.notificationWebhook.findMany.mockResolvedValue([])
+
+    const result = await channel.send({ channel: 'webhook', to: 'missing' })
+
+    expect(result).toEqual({ success: false, error: 'No enabled webhook endpoints found' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
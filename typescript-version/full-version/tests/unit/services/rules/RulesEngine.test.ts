@@ -343,6 +343,86 @@ describe('RulesEngine', () => {
       expect(result.events).toHaveLength(2)
     })
   })
+
+  describe('trace', () => {
+    it('возвращает дерево условий с результатами и значениями фактов', async () => {
+      engine.addRule({
+        name: 'trace-rule',
+        category: 'blocking',
+        conditions: {
+          all: [
+            { fact: 'count', operator: 'greaterThan', value: 5 },
+            {
+              any: [
+                { fact: 'user', path: '$.role', operator: 'equal', value: 'GUEST' },
+                { fact: 'user', path: '$.role', operator: 'equal', value: 'USER' }
+              ]
+            }
+          ]
+        },
+        event: { type: 'block' }
+      })
+
+      const result = await engine.trace({ count: 10, user: { role: 'USER' } })
+      const ruleTrace = result.rules[0]
+
+      expect(result.events).toHaveLength(1)
+      expect(ruleTrace).toMatchObject({ name: 'trace-rule', matched: true })
+      expect(ruleTrace.trace.result).toBe(true)
+      expect(ruleTrace.trace.all?.[0]).toMatchObject({ fact: 'count', result: true, factResult: 10 })
+      expect(ruleTrace.trace.all?.[1]).toMatchObject({
+        result: true,
+        any: [
+          { value: 'GUEST', result: false, factResult: 'USER' },
+          { value: 'USER', result: true, factResult: 'USER' }
+        ]
+      })
+    })
+
+    it('отмечает невыполненные условия без событий', async () => {
+      engine.addRule({
+        name: 'trace-miss',
+        category: 'limit',
+        conditions: { all: [{ fact: 'count', operator: 'greaterThan', value: 5 }] },
+        event: { type: 'limit-reached' }
+      })
+
+      const result = await engine.trace({ count: 1 })
+
+      expect(result.events).toHaveLength(0)
+      expect(result.rules[0].matched).toBe(false)
+      expect(result.rules[0].trace.all?.[0]).toMatchObject({ result: false, factResult: 1 })
+    })
+
+    it('с allowUndefinedFacts не падает на отсутствующем факте', async () => {
+      const lenientEngine = new RulesEngine({ allowUndefinedFacts: true })
+
+      lenientEngine.addRule({
+        name: 'missing-fact',
+        category: 'limit',
+        conditions: { all: [{ fact: 'unknown', operator: 'equal', value: 1 }] },
+        event: { type: 'never' }
+      })
+
+      const result = await lenientEngine.trace({})
+
+      expect(result.error).toBeUndefined()
+      expect(result.rules[0].matched).toBe(false)
+    })
+  })
+
+  it('evaluate возвращает имя сработавшего правила', async () => {
+    engine.addRule({
+      name: 'named-rule',
+      category: 'limit',
+      conditions: { all: [{ fact: 'count', operator: 'greaterThan', value: 5 }] },
+      event: { type: 'limit-reached' }
+    })
+
+    const result = await engine.evaluate({ count: 10 })
+
+    expect(result.events[0]).toMatchObject({ type: 'limit-reached', ruleName: 'named-rule' })
+  })
 })
 
 
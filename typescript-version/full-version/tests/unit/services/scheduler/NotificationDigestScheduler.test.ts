@@ -0,0 +1,89 @@
+/**
+ * Unit тесты для запуска планировщиков и отправки отложенных уведомлений
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    deferredNotification: {
+      findMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+const notificationServiceMock = vi.hoisted(() => ({ send: vi.fn() }))
+
+vi.mock('@/services/notifications/NotificationService', () => ({
+  notificationService: notificationServiceMock
+}))
+
+const schedulersMock = vi.hoisted(() => ({ initializeNotificationSchedulers: vi.fn(), initializeSchedulers: vi.fn() }))
+
+vi.mock('@/services/scheduler', () => schedulersMock)
+
+import { prisma } from '@/libs/prisma'
+import { register } from '@/instrumentation'
+import { notificationDigestScheduler } from '@/services/scheduler/NotificationDigestScheduler'
+
+const mockPrisma = prisma as any
+
+const dueNotification = {
+  id: 'deferred-1',
+  userId: 'u1',
+  channel: 'sms',
+  reason: 'quiet_hours',
+  options: JSON.stringify({ channel: 'sms', to: '+79990000000', content: 'Login from new device' })
+}
+
+describe('NotificationDigestScheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    mockPrisma.deferredNotification.findMany.mockResolvedValue([])
+    notificationServiceMock.send.mockResolvedValue({ success: true, messageId: 'sent-1' })
+  })
+
+  afterEach(() => {
+    notificationDigestScheduler.stop()
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('starts only the notification schedulers on server startup in the Node.js runtime', async () => {
+    vi.stubEnv('NEXT_RUNTIME', 'nodejs')
+
+    await register()
+
+    expect(schedulersMock.initializeNotificationSchedulers).toHaveBeenCalledTimes(1)
+    expect(schedulersMock.initializeSchedulers).not.toHaveBeenCalled()
+  })
+
+  it('does not start the schedulers in the edge runtime', async () => {
+    vi.stubEnv('NEXT_RUNTIME', 'edge')
+
+    await register()
+
+    expect(schedulersMock.initializeNotificationSchedulers).not.toHaveBeenCalled()
+  })
+
+  it('sends a deferred notification once it is due', async () => {
+    mockPrisma.deferredNotification.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([dueNotification])
+
+    notificationDigestScheduler.start(60 * 1000)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(notificationServiceMock.send).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+
+    expect(notificationServiceMock.send).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'sms', to: '+79990000000', content: 'Login from new device' })
+    )
+    expect(mockPrisma.deferredNotification.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['deferred-1'] } },
+      data: { sentAt: expect.any(Date) }
+    })
+  })
+})
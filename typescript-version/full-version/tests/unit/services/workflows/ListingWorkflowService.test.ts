@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Моки
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    listing: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    workflowInstance: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    workflowTransition: {
+      create: vi.fn()
+    },
+    notification: {
+      create: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/services/events/EventService', () => ({
+  eventService: {
+    record: vi.fn().mockResolvedValue({ id: 'event-1' })
+  }
+}))
+
+import { prisma as mockPrisma } from '@/libs/prisma'
+import { listingWorkflowService } from '@/services/workflows/ListingWorkflowService'
+
+const mockListing = (status: string) => ({
+  id: 'listing-1',
+  title: 'Велосипед',
+  status,
+  ownerId: 'owner-1',
+  moderatorId: null,
+  rejectionReason: null,
+  publishedAt: null,
+  soldAt: null,
+  archivedAt: null
+})
+
+describe('ListingWorkflowService.transition', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockPrisma.workflowInstance.findUnique).mockResolvedValue({ id: 'instance-1' } as any)
+  })
+
+  it('одобряет объявление из сохранённого состояния pending', async () => {
+    vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing('pending') as any)
+
+    const result = await listingWorkflowService.transition({
+      listingId: 'listing-1',
+      event: 'APPROVE',
+      actorId: 'moderator-1',
+      actorRole: 'MODERATOR'
+    })
+
+    expect(result).toMatchObject({ success: true, fromState: 'pending', toState: 'active' })
+    expect(mockPrisma.listing.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'active', moderatorId: 'moderator-1' }) })
+    )
+    expect(mockPrisma.notification.create).toHaveBeenCalled()
+  })
+
+  it('отклоняет объявление с причиной', async () => {
+    vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing('pending') as any)
+
+    const result = await listingWorkflowService.transition({
+      listingId: 'listing-1',
+      event: 'REJECT',
+      actorId: 'moderator-1',
+      reason: 'Спам'
+    })
+
+    expect(result).toMatchObject({ success: true, fromState: 'pending', toState: 'rejected' })
+  })
+
+  it('не выполняет APPROVE для черновика', async () => {
+    vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(mockListing('draft') as any)
+
+    const result = await listingWorkflowService.transition({
+      listingId: 'listing-1',
+      event: 'APPROVE',
+      actorId: 'moderator-1'
+    })
+
+    expect(result.success).toBe(false)
+    expect(mockPrisma.listing.update).not.toHaveBeenCalled()
+  })
+})
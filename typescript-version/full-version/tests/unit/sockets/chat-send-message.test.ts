@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Моки
+vi.mock('@/lib/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}))
+
+vi.mock('@/lib/sockets/middleware/auth', () => ({
+  authenticateSocket: vi.fn(),
+  requirePermission: vi.fn(() => vi.fn()),
+  requireRole: vi.fn(() => vi.fn())
+}))
+
+vi.mock('@/lib/sockets/middleware/rateLimit', () => ({
+  rateLimitChatConnections: vi.fn()
+}))
+
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimitService: {
+    checkLimit: vi.fn().mockResolvedValue({ allowed: true })
+  }
+}))
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    user: {
+      update: vi.fn().mockResolvedValue({})
+    }
+  }
+}))
+
+vi.mock('@/services/chat', () => ({
+  CHAT_MODERATION_ERRORS: {},
+  chatMessageService: {
+    createMessage: vi.fn()
+  },
+  chatModerationService: {
+    screenMessage: vi.fn(),
+    flagMessage: vi.fn()
+  },
+  chatOfflineNotificationService: {
+    scheduleForMessage: vi.fn()
+  },
+  chatRoomService: {
+    isMember: vi.fn(),
+    getUserRooms: vi.fn().mockResolvedValue([])
+  }
+}))
+
+import { initializeChatNamespace } from '@/lib/sockets/namespaces/chat'
+import { chatMessageService, chatModerationService, chatRoomService } from '@/services/chat'
+
+const mockMessageService = chatMessageService as any
+const mockModerationService = chatModerationService as any
+const mockRoomService = chatRoomService as any
+
+/**
+ * Подключить сокет пользователя к namespace и вернуть его обработчики событий
+ */
+const connect = async (userId: string) => {
+  const handlers = new Map<string, (...args: any[]) => unknown>()
+  const roomEmit = vi.fn()
+
+  const socket = {
+    id: `socket-${userId}`,
+    data: { user: { id: userId, role: 'user', email: `${userId}@example.com` } },
+    handshake: { address: '127.0.0.1' },
+    connected: true,
+    join: vi.fn(),
+    emit: vi.fn(),
+    on: vi.fn((event: string, handler: (...args: any[]) => unknown) => handlers.set(event, handler)),
+    nsp: { to: vi.fn(() => ({ emit: roomEmit })) }
+  }
+
+  let onConnection: (socket: unknown) => Promise<void> = async () => {}
+
+  const namespace = {
+    use: vi.fn(),
+    on: vi.fn((event: string, handler: typeof onConnection) => {
+      onConnection = handler
+    })
+  }
+
+  initializeChatNamespace({ of: vi.fn(() => namespace) } as any)
+  await onConnection(socket)
+
+  return { socket, handlers, roomEmit }
+}
+
+describe('chat sendMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockRoomService.isMember.mockResolvedValue(true)
+    mockModerationService.screenMessage.mockResolvedValue({ allowed: true, verdict: { action: 'allow', rules: [] } })
+    mockMessageService.createMessage.mockImplementation(async (input: any) => ({
+      success: true,
+      message: { id: 'message-1', roomId: input.roomId, senderId: input.senderId, content: input.content }
+    }))
+  })
+
+  it('stores the message under the authenticated user', async () => {
+    const { handlers } = await connect('user-1')
+    const callback = vi.fn()
+
+    await handlers.get('sendMessage')!(
+      { roomId: 'room-1', message: 'hello', senderId: 'user-1', attachmentIds: ['media-1'] },
+      callback
+    )
+
+    expect(mockMessageService.createMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ senderId: 'user-1', attachmentIds: ['media-1'] })
+    )
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ ok: true }))
+  })
+
+  it('rejects a payload that claims another sender', async () => {
+    const { socket, handlers, roomEmit } = await connect('user-1')
+    const callback = vi.fn()
+
+    await handlers.get('sendMessage')!(
+      { roomId: 'room-1', message: 'hello', senderId: 'user-2', attachmentIds: ['media-of-user-2'] },
+      callback
+    )
+
+    expect(mockMessageService.createMessage).not.toHaveBeenCalled()
+    expect(roomEmit).not.toHaveBeenCalled()
+    expect(socket.emit).toHaveBeenCalledWith('error', { message: 'Sender mismatch' })
+    expect(callback).toHaveBeenCalledWith({ ok: false, error: 'Sender mismatch' })
+  })
+
+  it('screens and flags the message under the sender it is stored with', async () => {
+    const verdict = { action: 'flag', rules: ['spam'] }
+
+    mockModerationService.screenMessage.mockResolvedValue({ allowed: true, verdict })
+
+    const { handlers } = await connect('user-1')
+
+    await handlers.get('sendMessage')!({ roomId: 'room-1', message: 'buy now', senderId: 'user-1' })
+
+    expect(mockModerationService.screenMessage).toHaveBeenCalledWith({
+      senderId: 'user-1',
+      roomId: 'room-1',
+      content: 'buy now'
+    })
+    expect(mockModerationService.flagMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ senderId: 'user-1' }),
+      verdict
+    )
+  })
+
+  it('does not screen a payload with a spoofed sender', async () => {
+    const { handlers } = await connect('user-1')
+
+    await handlers.get('sendMessage')!({ roomId: 'room-1', message: 'buy now', senderId: 'user-3' })
+
+    expect(mockModerationService.screenMessage).not.toHaveBeenCalled()
+    expect(mockModerationService.flagMessage).not.toHaveBeenCalled()
+  })
+})
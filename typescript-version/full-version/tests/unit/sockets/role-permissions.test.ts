@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Моки
+const cacheStore = {
+  get: vi.fn(),
+  set: vi.fn().mockResolvedValue(undefined),
+  delete: vi.fn().mockResolvedValue(undefined)
+}
+
+vi.mock('@/lib/role-cache', () => ({
+  createRoleCacheStore: vi.fn(async () => cacheStore)
+}))
+
+vi.mock('@/libs/prisma', () => ({
+  prisma: {
+    role: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/config', () => ({
+  serviceConfigResolver: {
+    getConfig: vi.fn().mockResolvedValue({ url: null })
+  }
+}))
+
+import { prisma as mockPrisma } from '@/libs/prisma'
+import { resolveSocketPermissions } from '@/lib/sockets/utils/permissions'
+import { getSocketRole, notifyRolePermissionsChanged } from '@/lib/sockets/utils/role-permissions'
+
+const createSocket = (roleId: string) => ({
+  data: { user: { id: `user-${roleId}`, role: 'user', roleId, permissions: ['send_message', 'receive_notifications'] } },
+  emit: vi.fn(),
+  disconnect: vi.fn()
+})
+
+describe('socket role permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    cacheStore.get.mockResolvedValue(null)
+  })
+
+  afterEach(() => {
+    globalThis.io = undefined
+  })
+
+  describe('resolveSocketPermissions', () => {
+    it('выводит разрешения из модулей роли', () => {
+      expect(resolveSocketPermissions({ chat: ['create', 'read'], notifications: ['read'] })).toEqual([
+        'send_message',
+        'receive_notifications'
+      ])
+    })
+
+    it('даёт модерацию по chat:delete и админку по userManagement:update', () => {
+      expect(resolveSocketPermissions({ chat: ['delete'], userManagement: ['update'] })).toEqual([
+        'moderate_chat',
+        'view_admin_panel',
+        'receive_notifications'
+      ])
+    })
+
+    it('сохраняет "all"', () => {
+      expect(resolveSocketPermissions('all')).toBe('all')
+    })
+  })
+
+  describe('getSocketRole', () => {
+    it('использует кэш ролей с уже распарсенными permissions', async () => {
+      cacheStore.get.mockResolvedValue([{ id: 'role-1', code: 'USER', name: 'user', permissions: { chat: ['create'] } }])
+
+      const role = await getSocketRole('role-1')
+
+      expect(role?.permissions).toEqual({ chat: ['create'] })
+      expect(mockPrisma.role.findMany).not.toHaveBeenCalled()
+    })
+
+    it('при промахе читает роли из БД и кладёт в кэш', async () => {
+      vi.mocked(mockPrisma.role.findMany).mockResolvedValue([
+        { id: 'role-1', code: 'USER', name: 'user', permissions: '{"chat":["create"]}' }
+      ] as any)
+
+      const role = await getSocketRole('role-1')
+
+      expect(role?.permissions).toEqual({ chat: ['create'] })
+      expect(cacheStore.set).toHaveBeenCalledWith('all-roles', expect.any(Array), expect.any(Number))
+    })
+  })
+
+  describe('notifyRolePermissionsChanged без Redis', () => {
+    it('обновляет сокеты роли и отключает их от /chat без send_message', async () => {
+      vi.mocked(mockPrisma.role.findMany).mockResolvedValue([
+        { id: 'role-1', code: 'USER', name: 'user', permissions: '{"chat":["read"]}' }
+      ] as any)
+
+      const chatSocket = createSocket('role-1')
+      const notificationSocket = createSocket('role-1')
+      const otherRoleSocket = createSocket('role-2')
+
+      globalThis.io = {
+        _nsps: new Map([
+          ['/chat', { sockets: new Map([['s1', chatSocket], ['s3', otherRoleSocket]]) }],
+          ['/notifications', { sockets: new Map([['s2', notificationSocket]]) }]
+        ])
+      } as any
+
+      await notifyRolePermissionsChanged('role-1')
+
+      expect(cacheStore.delete).toHaveBeenCalledWith('all-roles')
+      expect(chatSocket.disconnect).toHaveBeenCalled()
+      expect(notificationSocket.disconnect).not.toHaveBeenCalled()
+      expect(notificationSocket.emit).toHaveBeenCalledWith('permissionsUpdated', {
+        permissions: ['receive_notifications']
+      })
+      expect(otherRoleSocket.data.user.permissions).toEqual(['send_message', 'receive_notifications'])
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Unit тесты для проверки id_token и PKCE
+ */
+
+import crypto from 'crypto'
+
+import { describe, it, expect } from 'vitest'
+
+import type { JsonWebKeySet } from '@/utils/auth/oidc'
+import { generatePkcePair, verifyIdToken } from '@/utils/auth/oidc'
+
+const ISSUER = 'https://idp.example.com'
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0)
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const makeKey = (type: 'rsa' | 'ec') => {
+  const pair =
+    type === 'rsa'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+  const jwks: JsonWebKeySet = { keys: [{ ...pair.publicKey.export({ format: 'jwk' }), kid: type }] }
+
+  return { privateKey: pair.privateKey, jwks }
+}
+
+const rsa = makeKey('rsa')
+const ec = makeKey('ec')
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER,
+  sub: 'user-1',
+  aud: 'client-1',
+  iat: NOW / 1000,
+  exp: NOW / 1000 + 300,
+  nonce: 'nonce-1',
+  ...overrides
+})
+
+const sign = (payload: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: 'rsa' }) => {
+  const input = `${encode(header)}.${encode(payload)}`
+  const key = header.kid === 'ec' ? ec.privateKey : rsa.privateKey
+
+  const signature =
+    header.alg === 'ES256'
+      ? crypto.sign('sha256', Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' })
+      : crypto.sign('sha256', Buffer.from(input), key)
+
+  return `${input}.${signature.toString('base64url')}`
+}
+
+const options = { issuer: ISSUER, audience: 'client-1', nonce: 'nonce-1', now: NOW }
+
+describe('oidc', () => {
+  it('should derive an S256 code challenge from the verifier', () => {
+    const { codeVerifier, codeChallenge } = generatePkcePair()
+
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(codeChallenge).toBe(crypto.createHash('sha256').update(codeVerifier).digest('base64url'))
+  })
+
+  it('should accept RS256 and ES256 tokens', () => {
+    expect(verifyIdToken(sign(claims()), rsa.jwks, options).sub).toBe('user-1')
+    expect(verifyIdToken(sign(claims(), { alg: 'ES256', kid: 'ec' }), ec.jwks, options).sub).toBe('user-1')
+  })
+
+  it('should reject alg=none, HS256 and tampered payloads', () => {
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims())}.`
+    const [header, , signature] = sign(claims()).split('.')
+
+    expect(() => verifyIdToken(unsigned, rsa.jwks, options)).toThrow('Unsupported id_token algorithm: none')
+    expect(() => verifyIdToken(sign(claims(), { alg: 'HS256', kid: 'rsa' }), rsa.jwks, options)).toThrow('Unsupported')
+    expect(() => verifyIdToken(`${header}.${encode(claims({ sub: 'admin' }))}.${signature}`, rsa.jwks, options)).toThrow(
+      'Invalid id_token signature'
+    )
+  })
+
+  it('should validate issuer, audience, expiry and nonce', () => {
+    expect(() => verifyIdToken(sign(claims({ iss: 'https://evil.example.com' })), rsa.jwks, options)).toThrow('issuer')
+    expect(() => verifyIdToken(sign(claims({ aud: 'other-client' })), rsa.jwks, options)).toThrow('audience')
+    expect(() => verifyIdToken(sign(claims({ aud: ['client-1', 'other-client'] })), rsa.jwks, options)).toThrow('audience')
+    expect(() => verifyIdToken(sign(claims({ exp: NOW / 1000 - 120 })), rsa.jwks, options)).toThrow('expired')
+    expect(() => verifyIdToken(sign(claims({ nonce: 'other' })), rsa.jwks, options)).toThrow('nonce')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Unit тесты для TOTP (RFC 6238)
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp
+} from '@/utils/auth/totp'
+
+// Секрет из тестовых векторов RFC 6238 (SHA1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip bytes', () => {
+      const bytes = Buffer.from('hello world')
+
+      expect(base32Decode(base32Encode(bytes)).equals(bytes)).toBe(true)
+    })
+
+    it('should ignore case, spaces and padding', () => {
+      expect(base32Decode('nbsw y3dp====').toString()).toBe('hello')
+    })
+  })
+
+  describe('generateTotp', () => {
+    it('should match RFC 6238 vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082')
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804')
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const timestamp = 1234567890 * 1000
+
+    it('should return matched step for current code', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', { timestamp })).toBe(getTotpStep(timestamp))
+    })
+
+    it('should accept adjacent step within window', () => {
+      const previous = generateTotp(RFC_SECRET, timestamp - 30 * 1000)
+
+      expect(verifyTotp(RFC_SECRET, previous, { timestamp })).toBe(getTotpStep(timestamp) - 1)
+      expect(verifyTotp(RFC_SECRET, previous, { timestamp, window: 0 })).toBeNull()
+    })
+
+    it('should reject reused step', () => {
+      const step = getTotpStep(timestamp)
+
+      expect(verifyTotp(RFC_SECRET, '005924', { timestamp, afterStep: step })).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { timestamp })).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '12345', { timestamp })).toBeNull()
+    })
+  })
+
+  describe('generateTotpSecret', () => {
+    it('should generate 160-bit base32 secret', () => {
+      const secret = generateTotpSecret()
+
+      expect(secret).toMatch(/^[A-Z2-7]+$/)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+  })
+
+  describe('buildOtpauthUri', () => {
+    it('should build otpauth URI with issuer', () => {
+      const uri = buildOtpauthUri({ secret: 'ABC', accountName: 'user@example.com', issuer: 'My App' })
+
+      expect(uri).toBe(
+        'otpauth://totp/My%20App%3Auser%40example.com?secret=ABC&issuer=My+App&algorithm=SHA1&digits=6&period=30'
+      )
+    })
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Unit тесты для разбора User-Agent
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import { formatDeviceName, parseUserAgent } from '@/utils/http/user-agent'
+
+describe('parseUserAgent', () => {
+  it('should recognize desktop, mobile and tablet browsers', () => {
+    const edge = parseUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+    )
+
+    const android = parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+    )
+
+    const ipad = parseUserAgent(
+      'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    )
+
+    expect(edge).toEqual({ browser: 'Edge', os: 'Windows', deviceType: 'desktop' })
+    expect(android).toEqual({ browser: 'Chrome', os: 'Android', deviceType: 'mobile' })
+    expect(ipad).toEqual({ browser: 'Safari', os: 'iOS', deviceType: 'tablet' })
+    expect(formatDeviceName(edge)).toBe('Edge on Windows')
+  })
+
+  it('should detect bots and missing headers', () => {
+    expect(parseUserAgent('curl/8.4.0').deviceType).toBe('bot')
+    expect(parseUserAgent(null)).toEqual({ browser: null, os: null, deviceType: 'unknown' })
+    expect(formatDeviceName(parseUserAgent(null))).toBeNull()
+  })
+})
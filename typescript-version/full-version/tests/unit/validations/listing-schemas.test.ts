@@ -0,0 +1,95 @@
+/**
+ * Unit тесты для схем валидации объявлений
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import {
+  createListingSchema,
+  formatZodError,
+  listingSearchSchema,
+  moderateListingSchema,
+  updateListingSchema
+} from '@/lib/validations/listing-schemas'
+
+const validListing = {
+  title: 'Велосипед горный',
+  description: 'Почти новый, пробег 200 км, есть документы',
+  price: 25000,
+  currency: 'RUB',
+  categoryId: 'cat-1',
+  location: 'Москва',
+  contacts: { phone: '+7 (999) 123-45-67', telegram: '@seller' }
+}
+
+describe('listing-schemas', () => {
+  describe('createListingSchema', () => {
+    it('should validate a complete listing', () => {
+      expect(createListingSchema.safeParse(validListing).success).toBe(true)
+    })
+
+    it('should allow a draft without price and category', () => {
+      const result = createListingSchema.safeParse({ title: 'Отдам котёнка', description: 'Бесплатно в добрые руки' })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject negative price and lowercase currency', () => {
+      const result = createListingSchema.safeParse({ ...validListing, price: -1, currency: 'rub' })
+
+      expect(result.success).toBe(false)
+
+      if (!result.success) {
+        const message = formatZodError(result.error)
+
+        expect(message).toContain('price')
+        expect(message).toContain('currency')
+      }
+    })
+
+    it('should reject unknown fields', () => {
+      expect(createListingSchema.safeParse({ ...validListing, status: 'active' }).success).toBe(false)
+    })
+  })
+
+  describe('updateListingSchema', () => {
+    it('should accept partial updates', () => {
+      expect(updateListingSchema.safeParse({ price: null }).success).toBe(true)
+    })
+
+    it('should reject an empty update', () => {
+      expect(updateListingSchema.safeParse({}).success).toBe(false)
+    })
+  })
+
+  describe('listingSearchSchema', () => {
+    it('should coerce query strings and apply defaults', () => {
+      const result = listingSearchSchema.safeParse({ minPrice: '100', maxPrice: '', page: '2' })
+
+      expect(result.success).toBe(true)
+
+      if (result.success) {
+        expect(result.data).toMatchObject({ minPrice: 100, maxPrice: undefined, page: 2, limit: 20, sort: 'newest' })
+      }
+    })
+
+    it('should reject minPrice greater than maxPrice', () => {
+      expect(listingSearchSchema.safeParse({ minPrice: '500', maxPrice: '100' }).success).toBe(false)
+    })
+
+    it('should cap the page size', () => {
+      expect(listingSearchSchema.safeParse({ limit: '500' }).success).toBe(false)
+    })
+  })
+
+  describe('moderateListingSchema', () => {
+    it('should approve without reason', () => {
+      expect(moderateListingSchema.safeParse({ action: 'approve' }).success).toBe(true)
+    })
+
+    it('should require reason to reject', () => {
+      expect(moderateListingSchema.safeParse({ action: 'reject' }).success).toBe(false)
+      expect(moderateListingSchema.safeParse({ action: 'reject', reason: 'Спам' }).success).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Unit тесты для схем валидации путей уведомлений
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import { formatZodError, scenarioJourneySchema } from '@/lib/validations/notification-journey-schemas'
+
+const validSteps = [
+  { id: 'welcome', type: 'notify', action: { type: 'notification', channel: 'email', subject: 'Hi' } },
+  { id: 'wait', type: 'wait', duration: 86400000 },
+  {
+    id: 'check',
+    type: 'branch',
+    conditions: [{ field: 'user.emailVerified', operator: 'eq', value: true }],
+    then: 'exit'
+  },
+  { id: 'sms', type: 'notify', action: { type: 'notification', channel: 'sms', content: 'Verify' } }
+]
+
+describe('notification-journey-schemas', () => {
+  it('should accept ordered steps with branches and exit criteria', () => {
+    const result = scenarioJourneySchema.safeParse({
+      steps: validSteps,
+      exitConditions: [{ field: 'user.phoneVerified', operator: 'eq', value: true }]
+    })
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should allow clearing steps with null', () => {
+    expect(scenarioJourneySchema.safeParse({ steps: null, exitConditions: null }).success).toBe(true)
+  })
+
+  it('should reject transitions to unknown steps', () => {
+    const result = scenarioJourneySchema.safeParse({
+      steps: [...validSteps.slice(0, 2), { ...validSteps[2], else: 'missing' }]
+    })
+
+    expect(result.success).toBe(false)
+    expect(formatZodError(result.error!)).toContain('steps.2.else: Unknown step: missing')
+  })
+
+  it('should reject duplicate step ids', () => {
+    const result = scenarioJourneySchema.safeParse({ steps: [validSteps[1], validSteps[1]] })
+
+    expect(result.success).toBe(false)
+    expect(formatZodError(result.error!)).toContain('Duplicate step id: wait')
+  })
+
+  it('should require a duration or date field for wait', () => {
+    expect(scenarioJourneySchema.safeParse({ steps: [{ id: 'wait', type: 'wait' }] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Unit тесты для схем валидации бизнес-правил
+ */
+
+import { describe, it, expect } from 'vitest'
+
+import {
+  createRuleSchema,
+  formatZodError,
+  testRuleSchema,
+  updateRuleSchema
+} from '@/lib/validations/rules-schemas'
+
+const validRule = {
+  name: 'block-spammers',
+  category: 'blocking',
+  conditions: {
+    all: [
+      { fact: 'messagesPerMinute', operator: 'greaterThan', value: 30 },
+      { any: [{ fact: 'user', path: '$.role', operator: 'in', value: ['USER', 'GUEST'] }] }
+    ]
+  },
+  event: { type: 'block-user', params: { duration: 3600 } },
+  priority: 10
+}
+
+describe('rules-schemas', () => {
+  describe('createRuleSchema', () => {
+    it('should validate nested all/any conditions', () => {
+      expect(createRuleSchema.safeParse(validRule).success).toBe(true)
+    })
+
+    it('should reject unknown operators', () => {
+      const result = createRuleSchema.safeParse({
+        ...validRule,
+        conditions: { all: [{ fact: 'count', operator: 'approximately', value: 1 }] }
+      })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject empty groups and non-group roots', () => {
+      expect(createRuleSchema.safeParse({ ...validRule, conditions: { all: [] } }).success).toBe(false)
+      expect(
+        createRuleSchema.safeParse({
+          ...validRule,
+          conditions: { fact: 'count', operator: 'equal', value: 1 }
+        }).success
+      ).toBe(false)
+    })
+
+    it('should reject too deeply nested conditions', () => {
+      let conditions: Record<string, unknown> = { fact: 'count', operator: 'equal', value: 1 }
+
+      for (let depth = 0; depth < 8; depth++) {
+        conditions = { all: [conditions] }
+      }
+
+      expect(createRuleSchema.safeParse({ ...validRule, conditions }).success).toBe(false)
+    })
+
+    it('should reject invalid fact paths', () => {
+      const result = createRuleSchema.safeParse({
+        ...validRule,
+        conditions: { all: [{ fact: 'user', path: 'role', operator: 'equal', value: 'USER' }] }
+      })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('updateRuleSchema', () => {
+    it('should accept partial updates and reject unknown fields', () => {
+      expect(updateRuleSchema.safeParse({ enabled: false }).success).toBe(true)
+      expect(updateRuleSchema.safeParse({ createdBy: 'someone' }).success).toBe(false)
+    })
+  })
+
+  describe('testRuleSchema', () => {
+    it('should require either ruleId or rule', () => {
+      expect(testRuleSchema.safeParse({ ruleId: 'rule-1', facts: { count: 1 } }).success).toBe(true)
+      expect(
+        testRuleSchema.safeParse({
+          rule: { conditions: validRule.conditions, event: validRule.event },
+          facts: {}
+        }).success
+      ).toBe(true)
+      expect(testRuleSchema.safeParse({ facts: {} }).success).toBe(false)
+      expect(
+        testRuleSchema.safeParse({
+          ruleId: 'rule-1',
+          rule: { conditions: validRule.conditions, event: validRule.event }
+        }).success
+      ).toBe(false)
+    })
+  })
+
+  it('formatZodError should include field paths', () => {
+    const result = createRuleSchema.safeParse({ ...validRule, name: 'x' })
+
+    expect(result.success).toBe(false)
+
+    if (!result.success) {
+      expect(formatZodError(result.error)).toContain('name: Rule name must be at least 2 characters')
+    }
+  })
+})
@@ -1,6 +1,7 @@
 import '@testing-library/jest-dom/vitest'
 import { vi } from 'vitest'
 import './tests/helpers/mute-logger'
+import './tests/helpers/restore-fetch'
 
 // Mock Next.js router
 vi.mock('next/router', () => ({